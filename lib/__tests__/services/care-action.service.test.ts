@@ -0,0 +1,219 @@
+// Test suite for Care Action Service
+
+import { SupabaseCareActionService } from '../../services/care-action.service'
+import { supabase } from '../../supabase/client'
+
+// Mock Supabase client
+jest.mock('../../supabase/client', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn()
+  }
+}))
+
+describe('SupabaseCareActionService', () => {
+  let careActionService: SupabaseCareActionService
+  const mockSupabase = supabase as jest.Mocked<typeof supabase>
+
+  const waterStock = {
+    id: 'resource-water',
+    user_id: 'user-1',
+    resource_type: 'water',
+    quantity: '40.00',
+    unit: 'm3',
+    cost_per_unit: '15.00',
+    updated_at: '2024-06-01T00:00:00Z'
+  }
+
+  // Route each table to its own chain; inserts and updates echo the row back
+  const mockTables = (resources: any[] = [waterStock]) => {
+    const insert = jest.fn((row: any) => ({
+      select: jest.fn(() => ({
+        single: jest.fn().mockResolvedValue({
+          data: { ...row, id: 'action-1', created_at: '2024-06-10T08:00:00Z', updated_at: '2024-06-10T08:00:00Z' },
+          error: null
+        })
+      }))
+    }))
+    const resourceQuery = { eq: jest.fn(), limit: jest.fn().mockResolvedValue({ data: resources, error: null }) }
+    resourceQuery.eq.mockReturnValue(resourceQuery)
+
+    mockSupabase.from.mockImplementation(((table: string) => {
+      switch (table) {
+        case 'crops':
+          return {
+            select: jest.fn(() => ({
+              eq: jest.fn(() => ({ single: jest.fn().mockResolvedValue({ data: { plot_id: 'plot-1' }, error: null }) }))
+            }))
+          }
+        case 'plots':
+          return {
+            select: jest.fn(() => ({
+              eq: jest.fn(() => ({ single: jest.fn().mockResolvedValue({ data: { user_id: 'user-1' }, error: null }) }))
+            }))
+          }
+        case 'resources':
+          return { select: jest.fn(() => resourceQuery) }
+        default:
+          return { insert }
+      }
+    }) as any)
+
+    return { insert, resourceQuery }
+  }
+
+  beforeEach(() => {
+    careActionService = new SupabaseCareActionService()
+    jest.clearAllMocks()
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  describe('recordCareAction', () => {
+    it('should draw water down from stock in the stock unit', async () => {
+      const { insert, resourceQuery } = mockTables()
+
+      const action = await careActionService.recordCareAction({
+        crop_id: 'crop-1',
+        action_type: 'watering',
+        quantity: 2000,
+        unit: 'litres',
+        operator: 'Ravi',
+        performed_at: '2024-06-10T07:30:00Z'
+      })
+
+      expect(resourceQuery.eq).toHaveBeenCalledWith('user_id', 'user-1')
+      expect(resourceQuery.eq).toHaveBeenCalledWith('resource_type', 'water')
+      expect(insert).toHaveBeenCalledWith(expect.objectContaining({
+        user_id: 'user-1',
+        plot_id: 'plot-1',
+        crop_id: 'crop-1',
+        action_type: 'watering',
+        quantity: 2000,
+        unit: 'litres',
+        resource_id: 'resource-water',
+        resource_quantity: 2,
+        cost: 30 // 2 m3 at 15 per m3
+      }))
+      expect(action).toMatchObject({ id: 'action-1', resource_quantity: 2, cost: 30, operator: 'Ravi' })
+    })
+
+    it('should keep an explicit cost', async () => {
+      const { insert } = mockTables()
+
+      await careActionService.recordCareAction({
+        plot_id: 'plot-1',
+        user_id: 'user-1',
+        action_type: 'watering',
+        quantity: 500,
+        unit: 'L',
+        cost: 5
+      })
+
+      expect(insert).toHaveBeenCalledWith(expect.objectContaining({ resource_quantity: 0.5, cost: 5 }))
+    })
+
+    it('should leave stock alone when units cannot be converted', async () => {
+      const { insert } = mockTables([{ ...waterStock, id: 'resource-fert', resource_type: 'fertilizer', unit: 'kg' }])
+
+      await careActionService.recordCareAction({
+        plot_id: 'plot-1',
+        action_type: 'fertilizing',
+        quantity: 3,
+        unit: 'bags',
+        product: 'Urea'
+      })
+
+      const row = insert.mock.calls[0][0]
+      expect(row.resource_id).toBeUndefined()
+      expect(row.resource_quantity).toBeUndefined()
+      expect(row.product).toBe('Urea')
+    })
+
+    it('should not look up stock for work that uses none', async () => {
+      const { insert, resourceQuery } = mockTables()
+
+      await careActionService.recordCareAction({ crop_id: 'crop-1', action_type: 'pruning', notes: 'Lower leaves' })
+
+      expect(resourceQuery.limit).not.toHaveBeenCalled()
+      expect(insert).toHaveBeenCalledWith(expect.objectContaining({ action_type: 'pruning', notes: 'Lower leaves' }))
+    })
+
+    it('should reject invalid actions before touching the database', async () => {
+      await expect(careActionService.recordCareAction({ plot_id: 'plot-1', action_type: 'watering', quantity: -5, unit: 'L' }))
+        .rejects.toThrow('Invalid care action: Quantity must be greater than 0')
+      await expect(careActionService.recordCareAction({ plot_id: 'plot-1', action_type: 'watering', quantity: 5 }))
+        .rejects.toThrow('Quantity needs a unit')
+      await expect(careActionService.recordCareAction({ plot_id: 'plot-1', action_type: 'harvesting' as any }))
+        .rejects.toThrow('Unknown care action type: harvesting')
+      expect(mockSupabase.from).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('updateCareAction', () => {
+    it('should recompute the stock drawn down when the quantity changes', async () => {
+      const existing = {
+        id: 'action-1',
+        user_id: 'user-1',
+        plot_id: 'plot-1',
+        action_type: 'watering',
+        performed_at: '2024-06-10T07:30:00Z',
+        quantity: '2000.00',
+        unit: 'L',
+        resource_id: 'resource-water',
+        resource_quantity: '2.00'
+      }
+      const { resourceQuery } = mockTables()
+      const update = jest.fn((row: any) => ({
+        eq: jest.fn(() => ({
+          select: jest.fn(() => ({ single: jest.fn().mockResolvedValue({ data: { ...existing, ...row }, error: null }) }))
+        }))
+      }))
+      const routeTable = mockSupabase.from.getMockImplementation()!
+      mockSupabase.from.mockImplementation(((table: string) => table === 'care_actions'
+        ? {
+            select: jest.fn(() => ({
+              eq: jest.fn(() => ({ single: jest.fn().mockResolvedValue({ data: existing, error: null }) }))
+            })),
+            update
+          }
+        : routeTable(table)) as any)
+
+      const action = await careActionService.updateCareAction('action-1', { quantity: 3000 })
+
+      expect(resourceQuery.limit).toHaveBeenCalled()
+      expect(update).toHaveBeenCalledWith({ quantity: 3000, resource_id: 'resource-water', resource_quantity: 3 })
+      expect(action.resource_quantity).toBe(3)
+    })
+  })
+
+  describe('getCareUsage', () => {
+    it('should total quantity and cost by action type and unit', async () => {
+      const actions = [
+        { id: 'a3', action_type: 'watering', quantity: '1500', unit: 'L', cost: '22.5' },
+        { id: 'a2', action_type: 'fertilizing', quantity: '25', unit: 'kg', cost: '670', product: 'DAP' },
+        { id: 'a1', action_type: 'watering', quantity: '2000', unit: 'l', cost: '30' },
+        { id: 'a0', action_type: 'weeding' }
+      ]
+      mockSupabase.from.mockReturnValue({
+        select: jest.fn(() => ({
+          eq: jest.fn(() => ({
+            order: jest.fn().mockResolvedValue({ data: actions, error: null })
+          }))
+        }))
+      } as any)
+
+      const usage = await careActionService.getCareUsage({ cropId: 'crop-1' })
+
+      expect(usage).toEqual([
+        { action_type: 'watering', unit: 'l', quantity: 3500, cost: 52.5, actions: 2 },
+        { action_type: 'fertilizing', unit: 'kg', quantity: 25, cost: 670, actions: 1 },
+        { action_type: 'weeding', unit: undefined, quantity: 0, cost: 0, actions: 1 }
+      ])
+    })
+
+    it('should require a plot or crop', async () => {
+      await expect(careActionService.getCareUsage({})).rejects.toThrow('A plot or crop is required to list care actions')
+    })
+  })
+})
@@ -0,0 +1,232 @@
+// Test suite for Crop Lifecycle orchestration
+
+import { CropLifecycleService } from '../../services/crop-lifecycle.service'
+import { BadgeService, CropService, IdempotencyService, NotificationService, XPService } from '../../services/interfaces'
+import { Badge, Crop, CropTransition, LifecycleEffect } from '../../types'
+
+// Mock Supabase client
+jest.mock('../../supabase/client', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn()
+  }
+}))
+
+// Keeps effects in memory the way the lifecycle_effects table does
+class InMemoryIdempotencyService implements IdempotencyService {
+  effects = new Map<string, LifecycleEffect>()
+
+  async claim(key: string, userId: string) {
+    const existing = this.effects.get(key)
+    if (existing) {
+      return { claimed: false, effect: existing }
+    }
+    const effect: LifecycleEffect = { idempotency_key: key, user_id: userId, status: 'pending', claimed_at: '2024-04-10T08:00:00Z' }
+    this.effects.set(key, effect)
+    return { claimed: true, effect }
+  }
+
+  async complete(key: string, result: any) {
+    this.effects.set(key, { ...this.effects.get(key)!, status: 'completed', result })
+  }
+
+  async release(key: string) {
+    this.effects.delete(key)
+  }
+}
+
+describe('CropLifecycleService', () => {
+  let lifecycleService: CropLifecycleService
+  let cropService: jest.Mocked<Pick<CropService, 'harvestCrop' | 'getCrop' | 'getCropTransitions' | 'onTransition'>>
+  let xpService: jest.Mocked<Pick<XPService, 'awardXPOnce'>>
+  let badgeService: jest.Mocked<Pick<BadgeService, 'checkBadgeEligibility' | 'awardBadge'>>
+  let notificationService: jest.Mocked<Pick<NotificationService, 'sendCropMilestoneNotification'>>
+  let idempotencyService: InMemoryIdempotencyService
+  let xpAwards: string[] // keys XP was actually awarded for
+
+  const harvestedCrop: Crop = {
+    id: 'crop-1',
+    plot_id: 'plot-1',
+    name: 'wheat',
+    sown_date: '2023-11-15',
+    actual_harvest_date: '2024-04-10',
+    status: 'harvested',
+    growth_stage: 'mature',
+    quantity_harvested: 20,
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-04-10T00:00:00Z'
+  }
+
+  const transition = (overrides: Partial<CropTransition> = {}): CropTransition => ({
+    id: 'transition-1',
+    crop_id: 'crop-1',
+    user_id: 'user-1',
+    from_status: 'ready',
+    to_status: 'harvested',
+    from_stage: 'mature',
+    to_stage: 'mature',
+    occurred_on: '2024-04-10',
+    created_at: '2024-04-10T08:00:00Z',
+    ...overrides
+  })
+
+  const firstHarvest: Badge = {
+    id: 'badge-1',
+    name: 'First Harvest',
+    description: 'Harvest your first crop',
+    icon: '🌾',
+    condition_type: 'harvest',
+    condition_value: 1
+  }
+
+  beforeEach(() => {
+    cropService = {
+      harvestCrop: jest.fn(),
+      getCrop: jest.fn(),
+      getCropTransitions: jest.fn(),
+      onTransition: jest.fn()
+    }
+    idempotencyService = new InMemoryIdempotencyService()
+    xpAwards = []
+    // award_xp_once saves the key as completed along with the award
+    xpService = {
+      awardXPOnce: jest.fn(async (key, userId, actionType, xpAmount) => {
+        const existing = idempotencyService.effects.get(key)
+        if (existing) {
+          if (existing.status !== 'completed') {
+            throw new Error(`${key} is already being applied`)
+          }
+          return { ...existing.result, applied: false }
+        }
+        const award = { xp_log_id: 'xp-1', xp_awarded: xpAmount }
+        idempotencyService.effects.set(key, {
+          idempotency_key: key,
+          user_id: userId,
+          status: 'completed',
+          result: award,
+          claimed_at: '2024-04-10T08:00:00Z'
+        })
+        xpAwards.push(key)
+        return { ...award, applied: true }
+      })
+    }
+    badgeService = {
+      checkBadgeEligibility: jest.fn().mockResolvedValue([firstHarvest]),
+      awardBadge: jest.fn().mockResolvedValue({} as any)
+    }
+    notificationService = { sendCropMilestoneNotification: jest.fn().mockResolvedValue({ id: 'notification-1' }) }
+    lifecycleService = new CropLifecycleService(
+      cropService as unknown as CropService,
+      xpService as unknown as XPService,
+      badgeService as unknown as BadgeService,
+      notificationService as unknown as NotificationService,
+      idempotencyService
+    )
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  describe('handleTransition', () => {
+    it('should award harvest XP and badges and announce the harvest', async () => {
+      const result = await lifecycleService.handleTransition({ crop: harvestedCrop, transition: transition() })
+
+      // 20 base XP for wheat plus 40 for the quantity
+      expect(xpService.awardXPOnce)
+        .toHaveBeenCalledWith('crop-transition:transition-1:xp', 'user-1', 'crop_harvested', 60, 'Harvested wheat')
+      expect(badgeService.awardBadge).toHaveBeenCalledWith('user-1', 'badge-1')
+      expect(notificationService.sendCropMilestoneNotification).toHaveBeenCalledWith('user-1', 'wheat', 'harvest (20 kg)')
+      expect(result).toEqual({
+        transition_id: 'transition-1',
+        xp_awarded: 60,
+        badges: [firstHarvest],
+        notified: true,
+        skipped: []
+      })
+    })
+
+    it('should finish a failed run on retry without awarding twice', async () => {
+      notificationService.sendCropMilestoneNotification.mockRejectedValueOnce(new Error('push failed'))
+      const event = { crop: harvestedCrop, transition: transition() }
+
+      await expect(lifecycleService.handleTransition(event)).rejects.toThrow('push failed')
+      expect(idempotencyService.effects.has('crop-transition:transition-1:notification')).toBe(false)
+
+      const result = await lifecycleService.handleTransition(event)
+
+      expect(xpAwards).toEqual(['crop-transition:transition-1:xp'])
+      expect(badgeService.awardBadge).toHaveBeenCalledTimes(1)
+      expect(notificationService.sendCropMilestoneNotification).toHaveBeenCalledTimes(2)
+      expect(result).toMatchObject({
+        xp_awarded: 60,
+        badges: [firstHarvest],
+        notified: true,
+        skipped: ['crop-transition:transition-1:xp', 'crop-transition:transition-1:badges']
+      })
+    })
+
+    it('should only announce stage milestones', async () => {
+      const flowering = { ...harvestedCrop, status: 'flowering' as const, growth_stage: 'flowering' as const }
+
+      const result = await lifecycleService.handleTransition({
+        crop: flowering,
+        transition: transition({ from_status: 'growing', to_status: 'flowering', from_stage: 'vegetative', to_stage: 'flowering' })
+      })
+
+      expect(xpService.awardXPOnce).not.toHaveBeenCalled()
+      expect(badgeService.checkBadgeEligibility).not.toHaveBeenCalled()
+      expect(notificationService.sendCropMilestoneNotification).toHaveBeenCalledWith('user-1', 'wheat', 'flowering')
+      expect(result.notified).toBe(true)
+    })
+
+    it('should not report a notification the user was not sent', async () => {
+      notificationService.sendCropMilestoneNotification.mockResolvedValue(null)
+      const flowering = { ...harvestedCrop, status: 'flowering' as const, growth_stage: 'flowering' as const }
+
+      const result = await lifecycleService.handleTransition({
+        crop: flowering,
+        transition: transition({ from_status: 'growing', to_status: 'flowering', from_stage: 'vegetative', to_stage: 'flowering' })
+      })
+
+      expect(notificationService.sendCropMilestoneNotification).toHaveBeenCalledTimes(1)
+      expect(result.notified).toBe(false)
+    })
+
+    it('should not apply an effect another run is still applying', async () => {
+      await idempotencyService.claim('crop-transition:transition-1:xp', 'user-1')
+
+      await expect(lifecycleService.handleTransition({ crop: harvestedCrop, transition: transition() }))
+        .rejects.toThrow('crop-transition:transition-1:xp is already being applied')
+      expect(xpAwards).toEqual([])
+      expect(badgeService.checkBadgeEligibility).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('harvestCrop', () => {
+    it('should return the XP actually awarded', async () => {
+      cropService.harvestCrop.mockResolvedValue({ crop: harvestedCrop })
+      cropService.getCropTransitions.mockResolvedValue([
+        transition({ id: 'transition-0', from_status: 'flowering', to_status: 'ready', from_stage: 'fruiting' }),
+        transition()
+      ])
+
+      const result = await lifecycleService.harvestCrop('crop-1', { weight_kg: 20 })
+
+      expect(cropService.harvestCrop).toHaveBeenCalledWith('crop-1', { weight_kg: 20 })
+      expect(result).toEqual({ crop: harvestedCrop, xpAwarded: 60, badges: [firstHarvest] })
+    })
+  })
+
+  describe('reconcileCrop', () => {
+    it('should apply only the effects earlier runs missed', async () => {
+      cropService.getCrop.mockResolvedValue(harvestedCrop)
+      cropService.getCropTransitions.mockResolvedValue([transition()])
+      await lifecycleService.handleTransition({ crop: harvestedCrop, transition: transition() })
+
+      const [result] = await lifecycleService.reconcileCrop('crop-1')
+
+      expect(xpAwards).toHaveLength(1)
+      expect(notificationService.sendCropMilestoneNotification).toHaveBeenCalledTimes(1)
+      expect(result.skipped).toHaveLength(3)
+      expect(result.xp_awarded).toBe(60)
+    })
+  })
+})
@@ -0,0 +1,606 @@
+// Test suite for Crop Service
+
+import { SupabaseCropService } from '../../services/crop.service'
+import { IrrigationService } from '../../services/irrigation.service'
+import { CareActionService, HarvestService, PlotService, SoilService, WeatherService } from '../../services/interfaces'
+import { CareAction, Crop, CropTransition, Plot, SoilTest, WeatherData } from '../../types'
+import { supabase } from '../../supabase/client'
+import { addDays, getCropPhenologyModel, getTypicalSeasonDays } from '../../utils/phenology'
+
+// Mock Supabase client
+jest.mock('../../supabase/client', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn()
+  }
+}))
+
+describe('SupabaseCropService', () => {
+  let cropService: SupabaseCropService
+  let soilService: jest.Mocked<Pick<SoilService, 'getLatestSoilTest'>>
+  let plotService: jest.Mocked<Pick<PlotService, 'getPlot'>>
+  let weatherService: jest.Mocked<Pick<WeatherService, 'getForecast' | 'getHistoricalData'>>
+  let careActionService: jest.Mocked<Pick<CareActionService, 'recordCareAction' | 'getCareActions'>>
+  let irrigationService: jest.Mocked<Pick<IrrigationService, 'getIrrigationSchedule'>>
+  let harvestService: jest.Mocked<Pick<HarvestService, 'prepareHarvest'>>
+  const mockSupabase = supabase as jest.Mocked<typeof supabase>
+
+  const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0]
+
+  const growingCrop: Crop = {
+    id: 'crop-1',
+    plot_id: 'plot-1',
+    name: 'wheat',
+    sown_date: daysAgo(30),
+    status: 'growing',
+    growth_stage: 'vegetative',
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z'
+  }
+
+  const soilTest: SoilTest = {
+    id: 'soil-1',
+    plot_id: 'plot-1',
+    sampled_at: daysAgo(200),
+    ph: 7.2,
+    nitrogen_kg_ha: 196,
+    phosphorus_kg_ha: 18,
+    potassium_kg_ha: 150,
+    micronutrients: { zinc: 0.5 },
+    created_at: '2024-01-01T00:00:00Z'
+  }
+
+  beforeEach(() => {
+    soilService = { getLatestSoilTest: jest.fn() }
+    plotService = { getPlot: jest.fn() }
+    weatherService = { getForecast: jest.fn(), getHistoricalData: jest.fn() }
+    careActionService = { recordCareAction: jest.fn(), getCareActions: jest.fn().mockResolvedValue([]) }
+    irrigationService = { getIrrigationSchedule: jest.fn() }
+    harvestService = { prepareHarvest: jest.fn() }
+    cropService = new SupabaseCropService(
+      soilService as unknown as SoilService,
+      plotService as unknown as PlotService,
+      weatherService as unknown as WeatherService,
+      careActionService as unknown as CareActionService,
+      irrigationService as unknown as IrrigationService,
+      harvestService as unknown as HarvestService
+    )
+    jest.clearAllMocks()
+  })
+
+  // The crop by id, and its recorded transitions
+  const mockGetCrop = (crop: Crop, transitions: CropTransition[] = []) => {
+    mockSupabase.from.mockReturnValue({
+      select: jest.fn(() => ({
+        eq: jest.fn(() => ({
+          single: jest.fn().mockResolvedValue({ data: crop, error: null }),
+          order: jest.fn(() => ({
+            order: jest.fn().mockResolvedValue({ data: transitions, error: null })
+          }))
+        }))
+      }))
+    } as any)
+  }
+
+  const transition = (overrides: Partial<CropTransition>): CropTransition => ({
+    id: 'transition-1',
+    crop_id: 'crop-1',
+    user_id: 'user-1',
+    from_status: 'growing',
+    to_status: 'growing',
+    from_stage: 'seedling',
+    to_stage: 'vegetative',
+    occurred_on: daysAgo(5),
+    created_at: '2024-01-01T00:00:00Z',
+    ...overrides
+  })
+
+  describe('assignCrop', () => {
+    const newCrop: Omit<Crop, 'id' | 'created_at' | 'updated_at'> = {
+      plot_id: 'plot-1',
+      name: 'tomatoes',
+      sown_date: '2024-07-01',
+      status: 'planted',
+      growth_stage: 'seedling'
+    }
+
+    // Plot history comes from the crops select; inserts echo the row back
+    const mockAssignTables = (history: any[] | Error) => {
+      const insert = jest.fn((row: any) => ({
+        select: jest.fn(() => ({
+          single: jest.fn().mockResolvedValue({ data: { ...row, id: 'crop-new' }, error: null })
+        }))
+      }))
+      mockSupabase.from.mockReturnValue({
+        select: jest.fn(() => ({
+          eq: jest.fn(() => ({
+            order: jest.fn().mockResolvedValue(history instanceof Error
+              ? { data: null, error: history }
+              : { data: history, error: null })
+          }))
+        })),
+        insert
+      } as any)
+      return { insert }
+    }
+
+    it('should assign a crop that breaks a rotation rule with a warning', async () => {
+      const { insert } = mockAssignTables([{ ...growingCrop, id: 'crop-old', name: 'potatoes', sown_date: '2023-11-10' }])
+
+      const { crop, warnings } = await cropService.assignCrop(newCrop)
+
+      expect(insert).toHaveBeenCalled()
+      expect(crop.id).toBe('crop-new')
+      expect(warnings).toEqual([expect.objectContaining({
+        code: 'FAMILY_REPEAT',
+        severity: 'warning',
+        conflicting_crop: { id: 'crop-old', name: 'potatoes', season: '2023-24 rabi' }
+      })])
+    })
+
+    it('should not assign when the plot history is unavailable', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+      const { insert } = mockAssignTables(new Error('timeout'))
+
+      await expect(cropService.assignCrop(newCrop)).rejects.toThrow('Failed to fetch crops: timeout')
+      expect(insert).not.toHaveBeenCalled()
+    })
+
+    it('should intercrop while the shares fit the plot', async () => {
+      const { insert } = mockAssignTables([{ ...growingCrop, area_fraction: 0.6 }])
+
+      await cropService.assignCrop({ ...newCrop, name: 'moong', sown_date: daysAgo(10), area_fraction: 0.4 })
+
+      expect(insert).toHaveBeenCalledWith(expect.objectContaining({ name: 'moong', area_fraction: 0.4 }))
+    })
+
+    it('should reject a crop when the plot is already taken', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+      const { insert } = mockAssignTables([growingCrop])
+
+      await expect(cropService.assignCrop({ ...newCrop, name: 'moong', sown_date: daysAgo(10), area_fraction: 0.5 }))
+        .rejects.toThrow(/^Only 0% of the plot is free between .+; moong needs 50%$/)
+      expect(insert).not.toHaveBeenCalled()
+    })
+
+    describe('succession', () => {
+      const potatoes: Crop = {
+        ...growingCrop,
+        id: 'crop-old',
+        name: 'potatoes',
+        sown_date: '2024-01-10',
+        expected_harvest_date: '2024-04-20',
+        area_fraction: 0.5
+      }
+
+      it('should not sow before the predecessor is harvested', async () => {
+        jest.spyOn(console, 'error').mockImplementation(() => {})
+        const { insert } = mockAssignTables([potatoes])
+
+        await expect(cropService.assignCrop({ ...newCrop, name: 'okra', sown_date: '2024-04-10', preceded_by: 'crop-old' }))
+          .rejects.toThrow('okra cannot be sown before 2024-04-20, when potatoes is due to be harvested')
+        expect(insert).not.toHaveBeenCalled()
+      })
+
+      it("should take the predecessor's ground", async () => {
+        const { insert } = mockAssignTables([potatoes])
+
+        await cropService.assignCrop({ ...newCrop, name: 'okra', sown_date: '2024-04-25', preceded_by: 'crop-old' })
+
+        expect(insert).toHaveBeenCalledWith(expect.objectContaining({ area_fraction: 0.5, preceded_by: 'crop-old' }))
+      })
+
+      it('should schedule the next crop from the harvest date', async () => {
+        const insert = jest.fn((row: any) => ({
+          select: jest.fn(() => ({
+            single: jest.fn().mockResolvedValue({ data: { ...row, id: 'crop-new' }, error: null })
+          }))
+        }))
+        mockSupabase.from.mockReturnValue({
+          select: jest.fn(() => ({
+            eq: jest.fn(() => ({
+              single: jest.fn().mockResolvedValue({ data: potatoes, error: null }),
+              order: jest.fn().mockResolvedValue({ data: [potatoes], error: null })
+            }))
+          })),
+          insert
+        } as any)
+
+        const { crop } = await cropService.scheduleSuccession('crop-old', { name: 'moong' }, 5)
+
+        expect(insert).toHaveBeenCalledWith(expect.objectContaining({
+          plot_id: 'plot-1',
+          name: 'moong',
+          sown_date: '2024-04-25',
+          expected_harvest_date: addDays('2024-04-25', getTypicalSeasonDays(getCropPhenologyModel('moong'))),
+          preceded_by: 'crop-old'
+        }))
+        expect(crop.preceded_by).toBe('crop-old')
+      })
+    })
+  })
+
+  describe('getCropStatistics', () => {
+    it('should count only the allocated share of each plot', async () => {
+      mockSupabase.from.mockReturnValue({
+        select: jest.fn(() => ({
+          eq: jest.fn().mockResolvedValue({
+            data: [
+              { status: 'growing', area_fraction: '0.6000', plots: { user_id: 'user-1', area_hectares: '2.0000' } },
+              { status: 'growing', area_fraction: '0.4000', plots: { user_id: 'user-1', area_hectares: '2.0000' } },
+              { status: 'harvested', area_fraction: null, plots: { user_id: 'user-1', area_hectares: '0.5000' } }
+            ],
+            error: null
+          })
+        }))
+      } as any)
+
+      const statistics = await cropService.getCropStatistics('user-1')
+
+      expect(statistics.activeAreaHectares).toBe(2)
+      expect(statistics.areaByStatus).toEqual({ growing: 2, harvested: 0.5 })
+    })
+  })
+
+  describe('getRecommendedActions', () => {
+    it('should fall back to the day-count heuristic without a soil test', () => {
+      expect(cropService.getRecommendedActions(growingCrop)).toContain('Consider fertilizing')
+    })
+
+    it('should base fertilizer advice on the soil test', () => {
+      const actions = cropService.getRecommendedActions(growingCrop, soilTest)
+
+      expect(actions).not.toContain('Consider fertilizing')
+      expect(actions).toContain('Apply nitrogen in split doses: soil N is low (196 kg/ha)')
+      expect(actions).toContain('Apply zinc sulphate: zinc is deficient (0.5 ppm)')
+      expect(actions.some(action => action.includes('phosphorus'))).toBe(false)
+    })
+
+    it('should ask for a new test when the last one is old', () => {
+      const actions = cropService.getRecommendedActions(growingCrop, { ...soilTest, sampled_at: daysAgo(4 * 365) })
+
+      expect(actions).toContain('Soil test is more than 3 years old; test the soil again')
+    })
+
+    it('should not give soil advice for a crop ready to harvest', () => {
+      const actions = cropService.getRecommendedActions({ ...growingCrop, status: 'ready' }, soilTest)
+
+      expect(actions).toEqual(['Harvest immediately', 'Prepare storage containers', 'Prune if necessary', 'Support plant structure'])
+    })
+  })
+
+  describe('getRecommendedActionsForCrop', () => {
+    it("should use the latest soil test of the crop's plot", async () => {
+      mockGetCrop(growingCrop)
+      soilService.getLatestSoilTest.mockResolvedValue(null)
+
+      const actions = await cropService.getRecommendedActionsForCrop('crop-1')
+
+      expect(soilService.getLatestSoilTest).toHaveBeenCalledWith('plot-1')
+      expect(actions).toContain('Consider fertilizing')
+      expect(actions).toContain('Get a soil test to tailor fertilizer to this plot')
+    })
+  })
+
+  describe('getCropTimeline', () => {
+    const plot = {
+      id: 'plot-1',
+      geometry: { type: 'Polygon', coordinates: [[[75.8, 30.9], [75.81, 30.9], [75.81, 30.91], [75.8, 30.9]]] }
+    } as Plot
+
+    // 30 °C or warmer every day: 20 degree days for corn, its upper limit
+    const warmDay = (date: string): WeatherData => ({
+      location: { latitude: 30.905, longitude: 75.805 },
+      date,
+      current: { temperature: 30, humidity: 60, wind_speed: 5, description: 'Sunny', icon: '01d' },
+      forecast: [],
+      alerts: []
+    })
+
+    it('should date growth stages from accumulated degree days', async () => {
+      const crop = { ...growingCrop, name: 'Maize', sown_date: daysAgo(20) }
+      mockGetCrop(crop)
+      plotService.getPlot.mockResolvedValue(plot)
+      weatherService.getHistoricalData.mockImplementation(async (_location, days) =>
+        Array.from({ length: days }, (_, i) => warmDay(daysAgo(days - i)))
+      )
+      weatherService.getForecast.mockResolvedValue({
+        ...warmDay(daysAgo(0)),
+        forecast: Array.from({ length: 7 }, (_, i) => ({
+          date: daysAgo(-i),
+          temperature_min: 30,
+          temperature_max: 34,
+          humidity: 60,
+          precipitation_chance: 10,
+          description: 'Sunny',
+          icon: '01d'
+        }))
+      })
+
+      const timeline = await cropService.getCropTimeline('crop-1')
+
+      expect(weatherService.getHistoricalData).toHaveBeenCalledWith({ latitude: 30.905, longitude: 75.805 }, 20)
+      const stages = timeline.filter(event => event.type === 'growth_stage')
+      expect(stages.map(event => event.id)).toEqual(['seedling', 'vegetative', 'flowering', 'fruiting', 'mature'])
+      // Corn emerges after 70 degree days and leaves the seedling stage at 250
+      expect(stages[0]).toMatchObject({ date: daysAgo(16), status: 'completed' })
+      expect(stages[1]).toMatchObject({ date: daysAgo(7), status: 'current' })
+      // 1500 degree days to harvest at 20 a day
+      expect(timeline.find(event => event.id === 'projected_harvest')).toMatchObject({
+        date: daysAgo(20 - 75),
+        end_date: daysAgo(20 - 75 - 14),
+        status: 'pending'
+      })
+    })
+
+    it('should fall back to typical durations when weather is unavailable', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {})
+      mockGetCrop({ ...growingCrop, name: 'Maize', sown_date: daysAgo(20) })
+      plotService.getPlot.mockResolvedValue(plot)
+      weatherService.getHistoricalData.mockRejectedValue(new Error('OpenWeatherMap API key not configured'))
+      weatherService.getForecast.mockResolvedValue(warmDay(daysAgo(0)))
+
+      const progress = await cropService.getCropProgress('crop-1')
+
+      // 20 of corn's typical 110 days
+      expect(progress).toBeCloseTo((20 / 110) * 100, 5)
+    })
+  })
+
+  describe('care actions', () => {
+    const watering: CareAction = {
+      id: 'action-1',
+      user_id: 'user-1',
+      plot_id: 'plot-1',
+      crop_id: 'crop-1',
+      action_type: 'watering',
+      performed_at: `${daysAgo(2)}T07:30:00Z`,
+      quantity: 2000,
+      unit: 'L',
+      operator: 'Ravi',
+      created_at: '2024-01-01T00:00:00Z',
+      updated_at: '2024-01-01T00:00:00Z'
+    }
+
+    it('should log care actions against the crop and its plot', async () => {
+      mockGetCrop(growingCrop)
+      careActionService.recordCareAction.mockResolvedValue(watering)
+
+      const action = await cropService.recordCareAction('crop-1', 'watering', { quantity: 2000, unit: 'L', operator: 'Ravi' })
+
+      expect(careActionService.recordCareAction).toHaveBeenCalledWith({
+        quantity: 2000,
+        unit: 'L',
+        operator: 'Ravi',
+        crop_id: 'crop-1',
+        plot_id: 'plot-1',
+        action_type: 'watering'
+      })
+      expect(action).toBe(watering)
+    })
+
+    it('should show care actions on the crop timeline', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {})
+      mockGetCrop(growingCrop)
+      plotService.getPlot.mockRejectedValue(new Error('offline'))
+      careActionService.getCareActions.mockResolvedValue([watering])
+
+      const timeline = await cropService.getCropTimeline('crop-1')
+
+      expect(careActionService.getCareActions).toHaveBeenCalledWith({ cropId: 'crop-1' })
+      expect(timeline.find(event => event.type === 'care_action')).toEqual({
+        id: 'care_action-1',
+        title: 'Watered',
+        description: '2000 L by Ravi',
+        date: daysAgo(2),
+        status: 'completed',
+        type: 'care_action',
+        icon: '💧'
+      })
+    })
+  })
+
+  describe('getCropTimeline transitions', () => {
+    it('should date stages and readiness by the recorded transitions', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {})
+      const readyCrop: Crop = { ...growingCrop, status: 'ready', growth_stage: 'mature', sown_date: daysAgo(120) }
+      mockGetCrop(readyCrop, [
+        transition({ from_status: 'planted', to_status: 'growing', from_stage: 'seedling', to_stage: 'vegetative', occurred_on: daysAgo(100) }),
+        transition({ from_status: 'growing', to_status: 'flowering', from_stage: 'vegetative', to_stage: 'flowering', occurred_on: daysAgo(60) }),
+        transition({ from_status: 'flowering', to_status: 'ready', from_stage: 'flowering', to_stage: 'mature', occurred_on: daysAgo(3) })
+      ])
+      plotService.getPlot.mockRejectedValue(new Error('offline'))
+
+      const timeline = await cropService.getCropTimeline('crop-1')
+
+      const byId = (id: string) => timeline.find(event => event.id === id)
+      expect(byId('vegetative')).toMatchObject({ date: daysAgo(100), end_date: daysAgo(60), status: 'completed' })
+      expect(byId('flowering')).toMatchObject({ date: daysAgo(60), end_date: daysAgo(3), status: 'completed' })
+      expect(byId('mature')).toMatchObject({ date: daysAgo(3), status: 'current' })
+      expect(byId('ready')).toMatchObject({ date: daysAgo(3), type: 'milestone' })
+    })
+  })
+
+  describe('updateCropStatus', () => {
+    // The crop as read, then as it is after the transition
+    const mockTransitionTables = (before: Crop, after: Crop) => {
+      const single = jest.fn()
+        .mockResolvedValueOnce({ data: before, error: null })
+        .mockResolvedValue({ data: after, error: null })
+      mockSupabase.from.mockReturnValue({
+        select: jest.fn(() => ({ eq: jest.fn(() => ({ single })) }))
+      } as any)
+    }
+
+    it('should save an allowed transition and run the hooks', async () => {
+      const flowering = { ...growingCrop, status: 'flowering' as const, growth_stage: 'flowering' as const }
+      mockTransitionTables(growingCrop, flowering)
+      const saved = transition({ to_status: 'flowering', from_stage: 'vegetative', to_stage: 'flowering', occurred_on: daysAgo(2) })
+      mockSupabase.rpc.mockResolvedValue({ data: saved, error: null } as any)
+      const hook = jest.fn()
+      cropService.onTransition(hook)
+
+      const crop = await cropService.updateCropStatus('crop-1', 'flowering', 'flowering', { occurred_on: daysAgo(2) })
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('transition_crop', {
+        p_crop_id: 'crop-1',
+        p_from_status: 'growing',
+        p_from_stage: 'vegetative',
+        p_to_status: 'flowering',
+        p_to_stage: 'flowering',
+        p_occurred_on: daysAgo(2),
+        p_notes: null
+      })
+      expect(crop.status).toBe('flowering')
+      expect(hook).toHaveBeenCalledWith({ crop, transition: saved })
+    })
+
+    it('should reject transitions the lifecycle does not allow', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+      mockTransitionTables(growingCrop, growingCrop)
+
+      await expect(cropService.updateCropStatus('crop-1', 'harvested'))
+        .rejects.toThrow(
+          'Invalid transition: Cannot move a crop from growing to harvested (next: flowering or ready); ' +
+          'A harvested crop must be at least at the mature stage'
+        )
+      expect(mockSupabase.rpc).not.toHaveBeenCalled()
+    })
+
+    it('should keep the transition when a hook fails', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+      mockTransitionTables(growingCrop, { ...growingCrop, growth_stage: 'fruiting' })
+      mockSupabase.rpc.mockResolvedValue({ data: transition({ to_stage: 'fruiting' }), error: null } as any)
+      const unsubscribe = cropService.onTransition(() => { throw new Error('push failed') })
+      const later = jest.fn()
+      cropService.onTransition(later)
+
+      const crop = await cropService.updateCropStatus('crop-1', 'growing', 'fruiting')
+
+      expect(crop.growth_stage).toBe('fruiting')
+      expect(later).toHaveBeenCalled()
+
+      unsubscribe()
+      later.mockClear()
+      mockTransitionTables(growingCrop, { ...growingCrop, growth_stage: 'fruiting' })
+      await cropService.updateCropStatus('crop-1', 'growing', 'fruiting')
+      expect(console.error).toHaveBeenCalledTimes(1)
+      expect(later).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('harvestCrop', () => {
+    const readyCrop: Crop = { ...growingCrop, status: 'ready', growth_stage: 'mature' }
+
+    // The crop as read, then as updated after the harvest trigger ran
+    const mockHarvestTables = (quantityHarvested: number) => {
+      const single = jest.fn()
+        .mockResolvedValueOnce({ data: readyCrop, error: null })
+        .mockResolvedValueOnce({ data: readyCrop, error: null })
+        .mockResolvedValue({
+          data: { ...readyCrop, status: 'harvested', quantity_harvested: quantityHarvested },
+          error: null
+        })
+      mockSupabase.from.mockReturnValue({
+        select: jest.fn(() => ({ eq: jest.fn(() => ({ single })) }))
+      } as any)
+      mockSupabase.rpc.mockResolvedValue({
+        data: transition({ from_status: 'ready', to_status: 'harvested', from_stage: 'mature', to_stage: 'mature' }),
+        error: null
+      } as any)
+    }
+
+    it('should save the harvest record with the move to harvested', async () => {
+      mockHarvestTables(20)
+      const record = {
+        crop_id: 'crop-1',
+        plot_id: 'plot-1',
+        user_id: 'user-1',
+        harvested_at: daysAgo(1),
+        weight_kg: 20,
+        grade: 'A',
+        area_hectares: 0.5
+      }
+      harvestService.prepareHarvest.mockResolvedValue(record)
+
+      const result = await cropService.harvestCrop('crop-1', { weight_kg: 20, grade: 'A', harvested_at: daysAgo(1) })
+
+      expect(harvestService.prepareHarvest).toHaveBeenCalledWith('crop-1', { weight_kg: 20, grade: 'A', harvested_at: daysAgo(1) })
+      expect(mockSupabase.rpc).toHaveBeenCalledTimes(1)
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('transition_crop_with_harvest', expect.objectContaining({
+        p_to_status: 'harvested',
+        p_occurred_on: daysAgo(1),
+        p_harvest: record
+      }))
+      expect(result).toEqual({ crop: expect.objectContaining({ status: 'harvested', quantity_harvested: 20 }) })
+    })
+
+    it('should not move the crop when the harvest record is invalid', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+      mockHarvestTables(0)
+      harvestService.prepareHarvest.mockRejectedValue(new Error('Invalid harvest: Weight must be greater than 0'))
+
+      await expect(cropService.harvestCrop('crop-1', { weight_kg: 0 })).rejects.toThrow('Weight must be greater than 0')
+      expect(mockSupabase.rpc).not.toHaveBeenCalled()
+    })
+
+    it('should still harvest without a harvest record', async () => {
+      mockHarvestTables(0)
+
+      const result = await cropService.harvestCrop('crop-1')
+
+      expect(harvestService.prepareHarvest).not.toHaveBeenCalled()
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('transition_crop', expect.objectContaining({ p_to_status: 'harvested' }))
+      expect(result.crop.status).toBe('harvested')
+    })
+  })
+
+  describe('getCropsNeedingAttention', () => {
+    const mockAttentionQueries = (crops: any[], predictions: any[] = []) => {
+      mockSupabase.from.mockImplementation(((table: string) => ({
+        select: jest.fn(() => table === 'harvest_predictions'
+          ? { in: jest.fn(() => ({ order: jest.fn().mockResolvedValue({ data: predictions, error: null }) })) }
+          : { eq: jest.fn(() => ({ neq: jest.fn().mockResolvedValue({ data: crops, error: null }) })) })
+      })) as any)
+    }
+
+    it('should flag crops on plots whose water balance calls for watering today', async () => {
+      const crops = [
+        { ...growingCrop, id: 'crop-1', plot_id: 'plot-dry' },
+        { ...growingCrop, id: 'crop-2', plot_id: 'plot-wet' },
+        { ...growingCrop, id: 'crop-3', plot_id: 'plot-dry', status: 'ready' }
+      ]
+      mockAttentionQueries(crops)
+      irrigationService.getIrrigationSchedule.mockImplementation(async plotId => ({
+        needs_water_today: plotId === 'plot-dry'
+      }) as any)
+
+      const attention = await cropService.getCropsNeedingAttention('user-1')
+
+      expect(irrigationService.getIrrigationSchedule).toHaveBeenCalledTimes(2)
+      expect(attention.needsWatering.map(crop => crop.id)).toEqual(['crop-1'])
+      expect(attention.readyForHarvest.map(crop => crop.id)).toEqual(['crop-3'])
+    })
+
+    it('should flag crops whose predicted harvest window has closed', async () => {
+      const crops = [
+        // Predicted to close yesterday, though the entered date is ahead
+        { ...growingCrop, id: 'crop-1', expected_harvest_date: daysAgo(-30) },
+        // Entered date passed, but the latest prediction is still open
+        { ...growingCrop, id: 'crop-2', expected_harvest_date: daysAgo(5) },
+        // Not predicted yet; a typical wheat season is long over
+        { ...growingCrop, id: 'crop-3', sown_date: daysAgo(400) }
+      ]
+      mockAttentionQueries(crops, [
+        { crop_id: 'crop-2', window_close: daysAgo(-20), predicted_on: daysAgo(0) },
+        { crop_id: 'crop-1', window_close: daysAgo(1), predicted_on: daysAgo(1) },
+        { crop_id: 'crop-2', window_close: daysAgo(2), predicted_on: daysAgo(10) }
+      ])
+      irrigationService.getIrrigationSchedule.mockResolvedValue({ needs_water_today: false } as any)
+
+      const attention = await cropService.getCropsNeedingAttention('user-1')
+
+      expect(attention.overdue.map(crop => crop.id)).toEqual(['crop-1', 'crop-3'])
+    })
+  })
+})
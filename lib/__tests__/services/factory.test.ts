@@ -5,6 +5,10 @@ import { MockWeatherService } from '../../services/mock/weather.service'
 import { MockMarketService } from '../../services/mock/market.service'
 import { MockXPService } from '../../services/mock/xp.service'
 import { MockPestService } from '../../services/mock/pest.service'
+import { SupabasePestService } from '../../services/pest.service'
+import { SupabaseCropService } from '../../services/crop.service'
+import { CropLifecycleService } from '../../services/crop-lifecycle.service'
+import { HarvestPredictionService } from '../../services/harvest-prediction.service'
 
 // Mock the config module
 jest.mock('../../config/environment', () => ({
@@ -21,6 +25,15 @@ jest.mock('../../config/environment', () => ({
   }
 }))
 
+// The Supabase-backed providers load the client, which needs config.supabase
+jest.mock('../../supabase/client', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+    storage: { from: jest.fn() }
+  }
+}))
+
 describe('ServiceFactory', () => {
   beforeEach(() => {
     // Reset services before each test
@@ -77,6 +90,16 @@ describe('ServiceFactory', () => {
       const service2 = ServiceFactory.getPestService()
       expect(service1).toBe(service2)
     })
+
+    it('should switch to the Supabase pest service and back', () => {
+      ServiceFactory.getPestService()
+
+      ServiceFactory.switchServiceProvider('pest', 'supabase')
+      expect(ServiceFactory.getPestService()).toBeInstanceOf(SupabasePestService)
+
+      ServiceFactory.switchServiceProvider('pest', 'mock')
+      expect(ServiceFactory.getPestService()).toBeInstanceOf(MockPestService)
+    })
   })
 
   describe('getNotificationService', () => {
@@ -138,6 +161,41 @@ describe('ServiceFactory', () => {
     })
   })
 
+  describe('getCropService', () => {
+    it('should hand the transitions of the shared crop service to the lifecycle service', () => {
+      const attach = jest.spyOn(CropLifecycleService.prototype, 'attach')
+
+      const service = ServiceFactory.getCropService()
+
+      expect(service).toBeInstanceOf(SupabaseCropService)
+      expect(ServiceFactory.getCropService()).toBe(service)
+      expect(attach).toHaveBeenCalledTimes(1)
+      expect(ServiceFactory.getCropLifecycleService()).toBeInstanceOf(CropLifecycleService)
+      attach.mockRestore()
+    })
+
+    it('should cancel the reminders of crops the shared crop service harvests', () => {
+      const attach = jest.spyOn(HarvestPredictionService.prototype, 'attach')
+
+      ServiceFactory.getCropService()
+
+      expect(attach).toHaveBeenCalledTimes(1)
+      expect(ServiceFactory.getHarvestPredictionService()).toBeInstanceOf(HarvestPredictionService)
+      attach.mockRestore()
+    })
+
+    it('should stop handling transitions once the services are reset', () => {
+      const detach = jest.fn()
+      jest.spyOn(SupabaseCropService.prototype, 'onTransition').mockReturnValue(detach)
+
+      ServiceFactory.getCropService()
+      ServiceFactory.resetServices()
+
+      expect(detach).toHaveBeenCalledTimes(2)
+      jest.restoreAllMocks()
+    })
+  })
+
   describe('getServiceConfig', () => {
     it('should return current service configuration', () => {
       const config = ServiceFactory.getServiceConfig()
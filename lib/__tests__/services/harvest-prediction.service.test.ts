@@ -0,0 +1,187 @@
+// Test suite for Harvest Prediction Service
+
+import { HarvestPredictionService } from '../../services/harvest-prediction.service'
+import { CropService, NotificationService } from '../../services/interfaces'
+import { supabase } from '../../supabase/client'
+import { Crop, CropTransitionHook } from '../../types'
+import { addDays, getCropPhenologyModel, projectPhenology } from '../../utils/phenology'
+
+// Mock Supabase client
+jest.mock('../../supabase/client', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn()
+  }
+}))
+
+describe('HarvestPredictionService', () => {
+  let predictionService: HarvestPredictionService
+  let cropService: jest.Mocked<Pick<CropService, 'getCrop' | 'getCropPhenology' | 'onTransition'>>
+  let notificationService: jest.Mocked<Pick<NotificationService, 'scheduleNotification' | 'cancelScheduledNotification'>>
+  const mockSupabase = supabase as jest.Mocked<typeof supabase>
+
+  const today = '2024-05-31'
+  const crop: Crop = {
+    id: 'crop-1',
+    plot_id: 'plot-1',
+    name: 'corn',
+    sown_date: '2024-05-01',
+    expected_harvest_date: '2024-08-01',
+    status: 'growing',
+    growth_stage: 'vegetative',
+    created_at: '2024-05-01T00:00:00Z',
+    updated_at: '2024-05-01T00:00:00Z'
+  }
+  // 15 degree days a day since sowing: the window opens on 9 August
+  const weather = Array.from({ length: 30 }, (_, i) => ({ date: addDays('2024-05-01', i), min: 20, max: 30 }))
+  const phenology = projectPhenology(getCropPhenologyModel('corn'), '2024-05-01', weather, today)
+
+  const previousRow = {
+    id: 'prediction-0',
+    crop_id: 'crop-1',
+    user_id: 'user-1',
+    predicted_on: '2024-05-30',
+    window_open: '2024-08-09',
+    window_open_earliest: '2024-07-29',
+    window_open_latest: '2024-08-20',
+    window_close: '2024-08-30',
+    window_close_earliest: '2024-08-19',
+    window_close_latest: '2024-09-10',
+    confidence_level: '0.80',
+    measured_share: '0.290',
+    accumulated_gdd: 435,
+    required_gdd: 1500,
+    generic: false,
+    open_reminder_id: 'reminder-open',
+    close_reminder_id: 'reminder-close'
+  }
+
+  const mockTables = (previous: any[], saveError: any = null) => {
+    const upsert = jest.fn((row: any) => ({
+      select: jest.fn(() => ({
+        single: jest.fn().mockResolvedValue(
+          saveError ? { data: null, error: saveError } : { data: { id: 'prediction-1', ...row }, error: null }
+        )
+      }))
+    }))
+    const update = jest.fn((_row: any) => ({ eq: jest.fn().mockResolvedValue({ error: null }) }))
+    mockSupabase.from.mockImplementation(((table: string) => {
+      if (table === 'plots') {
+        return {
+          select: jest.fn(() => ({
+            eq: jest.fn(() => ({ single: jest.fn().mockResolvedValue({ data: { user_id: 'user-1' }, error: null }) }))
+          }))
+        }
+      }
+      return {
+        upsert,
+        select: jest.fn(() => ({
+          eq: jest.fn(() => ({
+            order: jest.fn(() => ({ limit: jest.fn().mockResolvedValue({ data: previous, error: null }) }))
+          }))
+        })),
+        update
+      }
+    }) as any)
+    return { upsert, update }
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    cropService = {
+      getCrop: jest.fn().mockResolvedValue(crop),
+      getCropPhenology: jest.fn().mockResolvedValue(phenology),
+      onTransition: jest.fn(_hook => () => {})
+    }
+    notificationService = {
+      scheduleNotification: jest.fn()
+        .mockResolvedValueOnce('reminder-open-2')
+        .mockResolvedValueOnce('reminder-close-2'),
+      cancelScheduledNotification: jest.fn().mockResolvedValue(undefined)
+    }
+    predictionService = new HarvestPredictionService(
+      cropService as unknown as CropService,
+      notificationService as unknown as NotificationService
+    )
+  })
+
+  describe('predictHarvest', () => {
+    it('should save the window and then schedule its reminders', async () => {
+      const { upsert, update } = mockTables([])
+
+      const prediction = await predictionService.predictHarvest('crop-1', today)
+
+      expect(prediction.window_open).toEqual({ date: '2024-08-09', earliest: '2024-07-29', latest: '2024-08-20' })
+      expect(upsert).toHaveBeenCalledWith(expect.objectContaining({
+        crop_id: 'crop-1',
+        user_id: 'user-1',
+        predicted_on: today,
+        measured_share: 0.3,
+        open_reminder_id: null,
+        close_reminder_id: null
+      }), { onConflict: 'crop_id,predicted_on' })
+      expect(update).toHaveBeenCalledWith({ open_reminder_id: 'reminder-open-2', close_reminder_id: 'reminder-close-2' })
+      expect(mockSupabase.from).not.toHaveBeenCalledWith('crops')
+      expect(prediction.open_reminder_id).toBe('reminder-open-2')
+      expect(notificationService.scheduleNotification).toHaveBeenCalledWith(
+        'user-1',
+        expect.objectContaining({ type: 'crop_milestone', title: 'Harvest window open 🌾' }),
+        new Date('2024-08-09T07:00:00')
+      )
+      expect(notificationService.scheduleNotification).toHaveBeenCalledWith(
+        'user-1',
+        expect.objectContaining({ title: 'Harvest window closing ⏰', priority: 'high' }),
+        new Date(`${prediction.window_close.date}T07:00:00`)
+      )
+    })
+
+    it('should keep reminders whose date holds and replace those that moved', async () => {
+      const { upsert, update } = mockTables([{ ...previousRow, window_close: '2024-08-25' }])
+
+      await predictionService.predictHarvest('crop-1', today)
+
+      expect(notificationService.cancelScheduledNotification).toHaveBeenCalledTimes(1)
+      expect(notificationService.cancelScheduledNotification).toHaveBeenCalledWith('reminder-close')
+      expect(upsert).toHaveBeenCalledWith(expect.objectContaining({
+        open_reminder_id: 'reminder-open',
+        close_reminder_id: null
+      }), expect.anything())
+      expect(update).toHaveBeenCalledWith({ open_reminder_id: 'reminder-open', close_reminder_id: 'reminder-open-2' })
+    })
+
+    it('should not schedule reminders for a prediction that was not saved', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+      mockTables([], { message: 'permission denied' })
+
+      await expect(predictionService.predictHarvest('crop-1', today))
+        .rejects.toThrow('Failed to save harvest prediction: permission denied')
+      expect(notificationService.scheduleNotification).not.toHaveBeenCalled()
+    })
+
+    it('should not predict a harvested crop', async () => {
+      cropService.getCrop.mockResolvedValue({ ...crop, status: 'harvested' })
+
+      await expect(predictionService.predictHarvest('crop-1', today)).rejects.toThrow('Crop has already been harvested')
+    })
+  })
+
+  describe('attach', () => {
+    it('should cancel the reminders of a harvested crop', async () => {
+      let hook: CropTransitionHook = () => {}
+      cropService.onTransition.mockImplementation(callback => {
+        hook = callback
+        return () => {}
+      })
+      mockTables([previousRow])
+
+      predictionService.attach()
+      await hook({
+        crop: { ...crop, status: 'harvested' },
+        transition: { crop_id: 'crop-1', from_status: 'ready', to_status: 'harvested' } as any
+      })
+
+      expect(notificationService.cancelScheduledNotification).toHaveBeenCalledWith('reminder-open')
+      expect(notificationService.cancelScheduledNotification).toHaveBeenCalledWith('reminder-close')
+    })
+  })
+})
@@ -0,0 +1,170 @@
+// Test suite for Harvest Service
+
+import { SupabaseHarvestService } from '../../services/harvest.service'
+import { supabase } from '../../supabase/client'
+
+// Mock Supabase client
+jest.mock('../../supabase/client', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn()
+  }
+}))
+
+describe('SupabaseHarvestService', () => {
+  let harvestService: SupabaseHarvestService
+  const mockSupabase = supabase as jest.Mocked<typeof supabase>
+
+  const readyCrop = {
+    id: 'crop-1',
+    plot_id: 'plot-1',
+    sown_date: '2023-11-15',
+    status: 'ready',
+    plots: { user_id: 'user-1', area_hectares: '0.7500' }
+  }
+
+  // Crops are looked up first; inserts echo the row back
+  const mockTables = (crop: any = readyCrop) => {
+    const insert = jest.fn((row: any) => ({
+      select: jest.fn(() => ({
+        single: jest.fn().mockResolvedValue({
+          data: { ...row, id: 'harvest-1', weight_kg: String(row.weight_kg), created_at: '2024-04-10T08:00:00Z' },
+          error: null
+        })
+      }))
+    }))
+
+    mockSupabase.from.mockImplementation(((table: string) => {
+      if (table === 'crops') {
+        return {
+          select: jest.fn(() => ({
+            eq: jest.fn(() => ({ single: jest.fn().mockResolvedValue({ data: crop, error: null }) }))
+          }))
+        }
+      }
+      return { insert }
+    }) as any)
+
+    return { insert }
+  }
+
+  beforeEach(() => {
+    harvestService = new SupabaseHarvestService()
+    jest.clearAllMocks()
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  describe('recordHarvest', () => {
+    it('should record the harvest against the whole plot by default', async () => {
+      const { insert } = mockTables()
+
+      const record = await harvestService.recordHarvest('crop-1', {
+        weight_kg: 2400,
+        grade: ' A ',
+        moisture_pct: 13.5,
+        harvested_at: '2024-04-10'
+      })
+
+      expect(insert).toHaveBeenCalledWith(expect.objectContaining({
+        crop_id: 'crop-1',
+        plot_id: 'plot-1',
+        user_id: 'user-1',
+        harvested_at: '2024-04-10',
+        weight_kg: 2400,
+        grade: 'A',
+        moisture_pct: 13.5,
+        area_hectares: 0.75
+      }))
+      expect(record).toMatchObject({ id: 'harvest-1', weight_kg: 2400, area_hectares: 0.75, grade: 'A' })
+    })
+
+    it('should keep a partial harvested area', async () => {
+      const { insert } = mockTables()
+
+      await harvestService.recordHarvest('crop-1', { weight_kg: 300, area_hectares: 0.2, harvested_at: '2024-04-10' })
+
+      expect(insert).toHaveBeenCalledWith(expect.objectContaining({ area_hectares: 0.2 }))
+    })
+
+    it('should default the area to the crop\'s share of the plot', async () => {
+      const { insert } = mockTables({ ...readyCrop, area_fraction: '0.4000' })
+
+      await harvestService.recordHarvest('crop-1', { weight_kg: 300, harvested_at: '2024-04-10' })
+
+      expect(insert).toHaveBeenCalledWith(expect.objectContaining({ area_hectares: 0.3 }))
+    })
+
+    it('should reject crops that are not ready', async () => {
+      const { insert } = mockTables({ ...readyCrop, status: 'growing' })
+
+      await expect(harvestService.recordHarvest('crop-1', { weight_kg: 100 }))
+        .rejects.toThrow('Crop is not ready for harvest')
+      expect(insert).not.toHaveBeenCalled()
+    })
+
+    it('should reject invalid weights, moisture and dates', async () => {
+      const { insert } = mockTables()
+
+      await expect(harvestService.recordHarvest('crop-1', {
+        weight_kg: 0,
+        moisture_pct: 120,
+        harvested_at: '2023-10-01'
+      })).rejects.toThrow(
+        'Invalid harvest: Weight must be greater than 0; Moisture must be between 0 and 100%; Harvest cannot be before the crop was sown'
+      )
+      expect(insert).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('getUserHarvests', () => {
+    it('should flatten the crop and plot of each record', async () => {
+      const query: any = {
+        eq: jest.fn(),
+        gte: jest.fn(),
+        order: jest.fn().mockResolvedValue({
+          data: [{
+            id: 'harvest-1',
+            crop_id: 'crop-1',
+            plot_id: 'plot-1',
+            user_id: 'user-1',
+            harvested_at: '2024-04-10',
+            weight_kg: '2400.00',
+            grade: null,
+            moisture_pct: '13.50',
+            area_hectares: '0.7500',
+            notes: null,
+            created_at: '2024-04-10T08:00:00Z',
+            crops: { name: 'Wheat', variety: 'HD 2967', sown_date: '2023-11-15' },
+            plots: { name: 'North field' }
+          }],
+          error: null
+        })
+      }
+      query.eq.mockReturnValue(query)
+      query.gte.mockReturnValue(query)
+      mockSupabase.from.mockReturnValue({ select: jest.fn(() => query) } as any)
+
+      const harvests = await harvestService.getUserHarvests('user-1', { from: '2024-01-01' })
+
+      expect(query.eq).toHaveBeenCalledWith('user_id', 'user-1')
+      expect(query.gte).toHaveBeenCalledWith('harvested_at', '2024-01-01')
+      expect(harvests).toEqual([{
+        id: 'harvest-1',
+        crop_id: 'crop-1',
+        plot_id: 'plot-1',
+        user_id: 'user-1',
+        harvested_at: '2024-04-10',
+        weight_kg: 2400,
+        grade: undefined,
+        moisture_pct: 13.5,
+        area_hectares: 0.75,
+        notes: undefined,
+        created_at: '2024-04-10T08:00:00Z',
+        crop_name: 'Wheat',
+        variety: 'HD 2967',
+        sown_date: '2023-11-15',
+        plot_name: 'North field'
+      }])
+    })
+  })
+})
@@ -0,0 +1,91 @@
+// Test suite for Idempotency Service
+
+import { SupabaseIdempotencyService } from '../../services/idempotency.service'
+import { supabase } from '../../supabase/client'
+
+// Mock Supabase client
+jest.mock('../../supabase/client', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn()
+  }
+}))
+
+describe('SupabaseIdempotencyService', () => {
+  let idempotencyService: SupabaseIdempotencyService
+  const mockSupabase = supabase as jest.Mocked<typeof supabase>
+
+  const completed = {
+    idempotency_key: 'crop-transition:t1:xp',
+    user_id: 'user-1',
+    status: 'completed',
+    result: { xp_awarded: 60 },
+    claimed_at: '2024-04-10T08:00:00Z',
+    completed_at: '2024-04-10T08:00:01Z'
+  }
+
+  // The insert fails on the duplicate key; the update takes over stale claims
+  const mockTakenKey = (takenOver: any[]) => {
+    const update = jest.fn(() => {
+      const query: any = { eq: jest.fn(), lt: jest.fn(), select: jest.fn().mockResolvedValue({ data: takenOver, error: null }) }
+      query.eq.mockReturnValue(query)
+      query.lt.mockReturnValue(query)
+      return query
+    })
+    mockSupabase.from.mockReturnValue({
+      insert: jest.fn(() => ({
+        select: jest.fn(() => ({
+          single: jest.fn().mockResolvedValue({ data: null, error: { code: '23505', message: 'duplicate key' } })
+        }))
+      })),
+      update,
+      select: jest.fn(() => ({
+        eq: jest.fn(() => ({ single: jest.fn().mockResolvedValue({ data: completed, error: null }) }))
+      }))
+    } as any)
+    return { update }
+  }
+
+  beforeEach(() => {
+    idempotencyService = new SupabaseIdempotencyService()
+    jest.clearAllMocks()
+  })
+
+  describe('claim', () => {
+    it('should claim a new key', async () => {
+      mockSupabase.from.mockReturnValue({
+        insert: jest.fn(() => ({
+          select: jest.fn(() => ({
+            single: jest.fn().mockResolvedValue({
+              data: { ...completed, status: 'pending', result: null, completed_at: null },
+              error: null
+            })
+          }))
+        }))
+      } as any)
+
+      const { claimed, effect } = await idempotencyService.claim('crop-transition:t1:xp', 'user-1')
+
+      expect(claimed).toBe(true)
+      expect(effect).toMatchObject({ status: 'pending', result: undefined, completed_at: undefined })
+    })
+
+    it('should hand back a key that is already applied', async () => {
+      mockTakenKey([])
+
+      const { claimed, effect } = await idempotencyService.claim('crop-transition:t1:xp', 'user-1')
+
+      expect(claimed).toBe(false)
+      expect(effect).toMatchObject({ status: 'completed', result: { xp_awarded: 60 } })
+    })
+
+    it('should take over a stale pending claim', async () => {
+      const { update } = mockTakenKey([{ ...completed, status: 'pending', result: null }])
+
+      const { claimed } = await idempotencyService.claim('crop-transition:t1:xp', 'user-1')
+
+      expect(update).toHaveBeenCalled()
+      expect(claimed).toBe(true)
+    })
+  })
+})
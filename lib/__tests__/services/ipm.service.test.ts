@@ -0,0 +1,128 @@
+// Test suite for IPM Service
+
+import { IpmService } from '../../services/ipm.service'
+import { PestService, PlotService } from '../../services/interfaces'
+import { supabase } from '../../supabase/client'
+import { PEST_TREATMENTS } from '../../config/pest-catalog'
+import { Plot } from '../../types'
+
+// Mock Supabase client
+jest.mock('../../supabase/client', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn()
+  }
+}))
+
+describe('IpmService', () => {
+  let ipmService: IpmService
+  let plotService: jest.Mocked<Pick<PlotService, 'getPlot'>>
+  let pestService: jest.Mocked<Pick<PestService, 'getTreatments'>>
+  const mockSupabase = supabase as jest.Mocked<typeof supabase>
+
+  const today = '2024-07-10'
+
+  const plot: Plot = {
+    id: 'plot-1',
+    user_id: 'user-1',
+    name: 'Hill field',
+    geometry: { type: 'Polygon', coordinates: [[[76.7, 11.4], [76.706, 11.4], [76.706, 11.406], [76.7, 11.4]]] },
+    area_hectares: 0.5,
+    crops: [
+      { id: 'crop-1', name: 'potato', status: 'growing', expected_harvest_date: '2024-08-20' },
+      { id: 'crop-2', name: 'tomato', status: 'ready', expected_harvest_date: '2024-07-14' },
+      { id: 'crop-3', name: 'onion', status: 'harvested', expected_harvest_date: '2024-07-01' }
+    ],
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z'
+  }
+
+  const resources = [
+    { id: 'res-1', user_id: 'user-1', resource_type: 'pesticide', quantity: '2000', unit: 'g', updated_at: '2024-07-01T00:00:00Z' },
+    { id: 'res-2', user_id: 'user-1', resource_type: 'biocontrol', quantity: '1', unit: 'kg', updated_at: '2024-07-01T00:00:00Z' }
+  ]
+
+  let resourceEq: jest.Mock
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    plotService = { getPlot: jest.fn().mockResolvedValue(plot) }
+    pestService = { getTreatments: jest.fn().mockResolvedValue(PEST_TREATMENTS) }
+    resourceEq = jest.fn().mockResolvedValue({ data: resources, error: null })
+    mockSupabase.from.mockReturnValue({ select: jest.fn(() => ({ eq: resourceEq })) } as any)
+    ipmService = new IpmService(plotService as unknown as PlotService, pestService as unknown as PestService)
+  })
+
+  it('should list practices before treatments, biological before chemical', async () => {
+    const recommendation = await ipmService.getRecommendations('plot-1', 'late_blight', { today })
+
+    expect(resourceEq).toHaveBeenCalledWith('user_id', 'user-1')
+    expect(recommendation.pest_name).toBe('Late Blight')
+    expect(recommendation.action_threshold).toMatch(/blight warning/)
+    expect(recommendation.options.map(option => option.practice_id || option.treatment_id)).toEqual([
+      'scouting', 'sanitation', 'certified_seed', 'avoid_overhead', 'hilling', 'trichoderma', 'mancozeb'
+    ])
+  })
+
+  it('should warn when a chemical would still be on the crop at harvest', async () => {
+    const recommendation = await ipmService.getRecommendations('plot-1', 'late_blight', { today })
+
+    // The tomatoes are ready and due first
+    expect(recommendation.crop_id).toBe('crop-2')
+    const mancozeb = recommendation.options.find(option => option.treatment_id === 'mancozeb')!
+    expect(mancozeb).toEqual(expect.objectContaining({
+      dose: 1,
+      in_stock: true,
+      earliest_harvest: '2024-07-15',
+      violates_phi: true,
+      available: false
+    }))
+    expect(mancozeb.warnings[0]).toMatch(/after the expected harvest on 2024-07-14/)
+  })
+
+  it('should clear a chemical whose PHI ends before the chosen crop\'s harvest', async () => {
+    const recommendation = await ipmService.getRecommendations('plot-1', 'late_blight', { cropId: 'crop-1', today })
+
+    const mancozeb = recommendation.options.find(option => option.treatment_id === 'mancozeb')!
+    expect(mancozeb.violates_phi).toBe(false)
+    expect(mancozeb.available).toBe(true)
+    expect(mancozeb.warnings).toEqual(['Keep out of the plot for 24 hours after applying'])
+  })
+
+  it('should only warn about the PHI on a crop already past its expected harvest', async () => {
+    const recommendation = await ipmService.getRecommendations('plot-1', 'late_blight', { cropId: 'crop-2', today: '2024-07-20' })
+
+    const mancozeb = recommendation.options.find(option => option.treatment_id === 'mancozeb')!
+    expect(mancozeb).toEqual(expect.objectContaining({ earliest_harvest: '2024-07-25', violates_phi: false, available: true }))
+    expect(mancozeb.warnings[0])
+      .toBe('The crop is past its expected harvest on 2024-07-14; applied today, Mancozeb holds the harvest back until 2024-07-25')
+  })
+
+  it('should mark a treatment short of stock unavailable', async () => {
+    const recommendation = await ipmService.getRecommendations('plot-1', 'late_blight', { today })
+
+    const trichoderma = recommendation.options.find(option => option.treatment_id === 'trichoderma')!
+    expect(trichoderma).toEqual(expect.objectContaining({ dose: 1.25, in_stock: false, violates_phi: false, available: false }))
+    expect(trichoderma.warnings).toContain('Not enough biocontrol: 1.25 kg needed, 1 in stock')
+  })
+
+  it('should count the largest stock of a type, as the battle engine draws on it', async () => {
+    resourceEq.mockResolvedValue({
+      data: [
+        ...resources,
+        { id: 'res-3', user_id: 'user-1', resource_type: 'biocontrol', quantity: '5', unit: 'kg', updated_at: '2024-07-05T00:00:00Z' }
+      ],
+      error: null
+    })
+
+    const recommendation = await ipmService.getRecommendations('plot-1', 'late_blight', { today })
+
+    const trichoderma = recommendation.options.find(option => option.treatment_id === 'trichoderma')!
+    expect(trichoderma).toEqual(expect.objectContaining({ in_stock: true, available: true }))
+  })
+
+  it('should reject a crop that is not on the plot', async () => {
+    await expect(ipmService.getRecommendations('plot-1', 'aphids', { cropId: 'crop-9', today }))
+      .rejects.toThrow('Crop not found on this plot')
+  })
+})
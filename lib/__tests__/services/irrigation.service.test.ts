@@ -0,0 +1,178 @@
+// Test suite for Irrigation Service
+
+import { IrrigationService } from '../../services/irrigation.service'
+import { CareActionService, PlotService, WeatherService } from '../../services/interfaces'
+import { CareAction, Plot, WeatherData } from '../../types'
+
+// Mock Supabase client
+jest.mock('../../supabase/client', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn()
+  }
+}))
+
+describe('IrrigationService', () => {
+  let irrigationService: IrrigationService
+  let plotService: jest.Mocked<Pick<PlotService, 'getPlot'>>
+  let careActionService: jest.Mocked<Pick<CareActionService, 'getCareActions'>>
+  let weatherService: jest.Mocked<Pick<WeatherService, 'getForecast'>>
+
+  const daysFromNow = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString().split('T')[0]
+
+  // Half a hectare of maize in Ludhiana, sown 60 days ago (flowering)
+  const plot = (overrides: Partial<Plot> = {}): Plot => ({
+    id: 'plot-1',
+    user_id: 'user-1',
+    name: 'Canal field',
+    geometry: { type: 'Polygon', coordinates: [[[75.8, 30.9], [75.806, 30.9], [75.806, 30.906], [75.8, 30.9]]] },
+    area_hectares: 0.5,
+    soil_type: 'sandy loam',
+    irrigation_type: 'flood',
+    crops: [
+      { id: 'crop-old', name: 'wheat', sown_date: daysFromNow(-200), status: 'harvested' },
+      { id: 'crop-1', name: 'maize', sown_date: daysFromNow(-60), status: 'growing' }
+    ],
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+    ...overrides
+  })
+
+  const forecast = (chance = 0, rain = 0): WeatherData => ({
+    location: { latitude: 30.903, longitude: 75.803 },
+    current: { temperature: 34, humidity: 30, wind_speed: 10, description: 'Clear sky', icon: '01d' },
+    forecast: Array.from({ length: 5 }, (_, i) => ({
+      date: daysFromNow(i),
+      temperature_min: 26,
+      temperature_max: 40,
+      humidity: 30,
+      precipitation_chance: chance,
+      precipitation_mm: rain,
+      description: 'Clear sky',
+      icon: '01d'
+    })),
+    alerts: []
+  })
+
+  const watering = (daysAgo: number): CareAction => ({
+    id: `watering-${daysAgo}`,
+    user_id: 'user-1',
+    plot_id: 'plot-1',
+    action_type: 'watering',
+    performed_at: `${daysFromNow(-daysAgo)}T06:00:00Z`,
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z'
+  })
+
+  beforeEach(() => {
+    // Late May in Punjab: hot, dry and before the monsoon
+    jest.useFakeTimers().setSystemTime(new Date('2024-05-20T06:00:00Z'))
+    plotService = { getPlot: jest.fn() }
+    careActionService = { getCareActions: jest.fn() }
+    weatherService = { getForecast: jest.fn() }
+    irrigationService = new IrrigationService(
+      plotService as unknown as PlotService,
+      careActionService as unknown as CareActionService,
+      weatherService as unknown as WeatherService
+    )
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('should schedule watering once the soil dries out', async () => {
+    plotService.getPlot.mockResolvedValue(plot())
+    weatherService.getForecast.mockResolvedValue(forecast())
+    careActionService.getCareActions.mockResolvedValue([watering(5)])
+
+    const schedule = await irrigationService.getIrrigationSchedule('plot-1')
+
+    expect(careActionService.getCareActions).toHaveBeenCalledWith({ plotId: 'plot-1', actionType: 'watering' })
+    expect(schedule).toMatchObject({ plot_id: 'plot-1', crop_id: 'crop-1', method: 'surface', efficiency: 0.6, notes: [] })
+    // 1.2 m of sandy loam at 120 mm/m, maize may use 55% of it
+    expect(schedule.total_available_water_mm).toBe(144)
+    expect(schedule.readily_available_water_mm).toBe(79.2)
+    expect(schedule.days).toHaveLength(5)
+    expect(schedule.days[0].kc).toBe(1.2)
+    // Five days of drying at the first day's crop water use
+    expect(schedule.initial_depletion_mm).toBeCloseTo(5 * schedule.days[0].etc_mm, 0)
+
+    expect(schedule.needs_water_today).toBe(false)
+    expect(schedule.events).toHaveLength(1)
+    const event = schedule.events[0]
+    expect(event.date).toBe(daysFromNow(4))
+    expect(event.gross_depth_mm).toBeCloseTo(event.net_depth_mm / 0.6, 0)
+    // 1 mm over half a hectare is 5000 litres
+    expect(event.volume_liters).toBeCloseTo(event.gross_depth_mm * 5000, -3)
+  })
+
+  it('should ask for water today when nothing has been logged for weeks', async () => {
+    plotService.getPlot.mockResolvedValue(plot())
+    weatherService.getForecast.mockResolvedValue(forecast())
+    careActionService.getCareActions.mockResolvedValue([])
+
+    const schedule = await irrigationService.getIrrigationSchedule('plot-1')
+
+    expect(schedule.initial_depletion_mm).toBe(144)
+    expect(schedule.needs_water_today).toBe(true)
+    expect(schedule.events[0].date).toBe(daysFromNow(0))
+    expect(schedule.notes).toEqual(['No watering logged since sowing; soil water is estimated from the sowing date'])
+  })
+
+  it('should only water the share of the plot the growing crops take', async () => {
+    plotService.getPlot.mockResolvedValue(plot({
+      crops: [
+        { id: 'crop-1', name: 'maize', sown_date: daysFromNow(-60), status: 'growing', area_fraction: 0.4 },
+        { id: 'crop-2', name: 'moong', sown_date: daysFromNow(-30), status: 'growing', area_fraction: 0.2 }
+      ]
+    }))
+    weatherService.getForecast.mockResolvedValue(forecast())
+    careActionService.getCareActions.mockResolvedValue([])
+
+    const schedule = await irrigationService.getIrrigationSchedule('plot-1')
+
+    // 60% of half a hectare: 3000 litres per mm
+    expect(schedule.events[0].volume_liters).toBeCloseTo(schedule.events[0].gross_depth_mm * 3000, -2)
+  })
+
+  it('should count likely rain against the crop water use', async () => {
+    plotService.getPlot.mockResolvedValue(plot())
+    weatherService.getForecast.mockResolvedValue(forecast(80, 25))
+    careActionService.getCareActions.mockResolvedValue([watering(1)])
+
+    const schedule = await irrigationService.getIrrigationSchedule('plot-1')
+
+    expect(schedule.days[0].rain_mm).toBe(20)
+    expect(schedule.events).toEqual([])
+  })
+
+  it('should not irrigate rainfed plots', async () => {
+    plotService.getPlot.mockResolvedValue(plot({ irrigation_type: 'rainfed' }))
+    weatherService.getForecast.mockResolvedValue(forecast())
+    careActionService.getCareActions.mockResolvedValue([])
+
+    const schedule = await irrigationService.getIrrigationSchedule('plot-1')
+
+    expect(schedule.method).toBe('rainfed')
+    expect(schedule.events).toEqual([])
+    expect(schedule.needs_water_today).toBe(false)
+    expect(schedule.notes[0]).toBe('Plot is rainfed; showing the water balance without irrigation')
+  })
+
+  it('should have nothing to plan without a growing crop', async () => {
+    plotService.getPlot.mockResolvedValue(plot({ irrigation_type: undefined, crops: [] }))
+    weatherService.getForecast.mockResolvedValue(forecast())
+    careActionService.getCareActions.mockResolvedValue([])
+
+    const schedule = await irrigationService.getIrrigationSchedule('plot-1')
+
+    expect(schedule.crop_id).toBeUndefined()
+    expect(schedule.days).toEqual([])
+    expect(schedule.notes).toEqual([
+      'No irrigation type set for the plot; assuming surface irrigation',
+      'No growing crop on the plot'
+    ])
+  })
+})
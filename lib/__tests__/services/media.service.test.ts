@@ -0,0 +1,196 @@
+// Test suite for Media Service
+
+import { SupabaseMediaService } from '../../services/media.service'
+import { MockStorageProvider } from '../../services/mock/storage.service'
+import { OfflineService, OfflineSyncHandler } from '../../services/offline.service'
+import { supabase } from '../../supabase/client'
+
+// Mock Supabase client
+jest.mock('../../supabase/client', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn()
+  }
+}))
+
+describe('SupabaseMediaService', () => {
+  let mediaService: SupabaseMediaService
+  let storage: MockStorageProvider
+  let offlineService: jest.Mocked<Pick<OfflineService, 'queueAction' | 'registerSyncHandler' | 'storeFile' | 'readFile' | 'removeFile'>>
+  let files: Map<string, Uint8Array>
+  let syncHandler: OfflineSyncHandler
+  let generateThumbnail: jest.Mock
+  const mockSupabase = supabase as jest.Mocked<typeof supabase>
+
+  // Not a real image: the EXIF reader finds nothing in it
+  const photo = new Uint8Array([0xff, 0xd8, 0xff, 0xda, 0x00, 0x02, 0x01, 0x02, 0xff, 0xd9])
+
+  const lookups: Record<string, any> = {
+    crops: { plot_id: 'plot-1', plots: { user_id: 'user-1' } },
+    pest_battles: { user_id: 'user-1', plot_id: 'plot-2' },
+    plots: { id: 'plot-1', user_id: 'user-1' }
+  }
+
+  // Lookups answer by table; media upserts echo the row back
+  const mockTables = (mediaResult?: { data: any; error: any }) => {
+    const upsert = jest.fn((row: any) => ({
+      select: jest.fn(() => ({
+        single: jest.fn().mockResolvedValue(mediaResult || { data: { ...row, created_at: '2024-05-01T10:00:00Z' }, error: null })
+      }))
+    }))
+    mockSupabase.from.mockImplementation(((table: string) => {
+      if (table === 'media') return { upsert }
+      return {
+        select: jest.fn(() => ({
+          eq: jest.fn(() => ({ single: jest.fn().mockResolvedValue({ data: lookups[table], error: null }) }))
+        }))
+      }
+    }) as any)
+    return { upsert }
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    storage = new MockStorageProvider()
+    files = new Map()
+    offlineService = {
+      queueAction: jest.fn().mockResolvedValue(undefined),
+      storeFile: jest.fn(async (content: Uint8Array) => {
+        const name = `file-${files.size + 1}.bin`
+        files.set(name, content)
+        return name
+      }),
+      readFile: jest.fn(async (name: string) => files.get(name)!),
+      removeFile: jest.fn(async (name: string) => {
+        files.delete(name)
+      }),
+      registerSyncHandler: jest.fn((entity, handler) => {
+        syncHandler = handler
+        return () => {}
+      })
+    }
+    generateThumbnail = jest.fn().mockResolvedValue(new Uint8Array([0xff, 0xd8, 0x01, 0xff, 0xd9]))
+    mediaService = new SupabaseMediaService(storage, offlineService as unknown as OfflineService, generateThumbnail)
+  })
+
+  describe('upload', () => {
+    it('should file a crop photo under its plot with a thumbnail', async () => {
+      const { upsert } = mockTables()
+
+      const media = await mediaService.upload({
+        content: photo,
+        content_type: 'image/jpeg',
+        crop_id: 'crop-1',
+        caption: ' Yellowing leaves ',
+        taken_at: '2024-05-01T07:30:00+05:30'
+      })
+
+      expect(storage.getObjectPaths()).toEqual([
+        `user-1/plot-1/${media.id}.jpg`,
+        `user-1/plot-1/${media.id}_thumb.jpg`
+      ])
+      expect(upsert).toHaveBeenCalledWith(expect.objectContaining({
+        user_id: 'user-1',
+        plot_id: 'plot-1',
+        crop_id: 'crop-1',
+        storage_provider: 'mock',
+        size_bytes: photo.length,
+        caption: 'Yellowing leaves',
+        latitude: null
+      }), { onConflict: 'id' })
+      expect(media.url).toMatch(/^mock:\/\/storage\/user-1\/plot-1\/.+\.jpg\?expires=\d+$/)
+      expect(media.thumbnail_url).toContain('_thumb.jpg')
+    })
+
+    it('should reject links on different plots', async () => {
+      mockTables()
+
+      await expect(mediaService.upload({
+        content: photo,
+        content_type: 'image/jpeg',
+        crop_id: 'crop-1',
+        pest_battle_id: 'battle-1'
+      })).rejects.toThrow("The photo's crop and pest battle are on different plots")
+      expect(storage.getObjectPaths()).toEqual([])
+    })
+
+    it('should remove the uploaded files when the record cannot be saved', async () => {
+      mockTables({ data: null, error: { message: 'permission denied' } })
+
+      await expect(mediaService.upload({ content: photo, content_type: 'image/jpeg', plot_id: 'plot-1' }))
+        .rejects.toThrow('Failed to save media: permission denied')
+      expect(storage.getObjectPaths()).toEqual([])
+    })
+
+    it('should reject photos that are empty, unsupported or unlinked', async () => {
+      await expect(mediaService.upload({ content: new Uint8Array(), content_type: 'image/gif' }))
+        .rejects.toThrow('Invalid photo: Photo is empty; Unsupported photo type: image/gif; A photo must belong to a plot, crop or pest battle')
+      expect(mockSupabase.from).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('queueUpload', () => {
+    it('should queue the photo and save it when the queue syncs', async () => {
+      const { upsert } = mockTables()
+
+      const queued = await mediaService.queueUpload({
+        content: photo,
+        content_type: 'image/jpeg',
+        plot_id: 'plot-1',
+        taken_at: '2024-05-01T02:00:15Z'
+      })
+
+      expect(mockSupabase.from).not.toHaveBeenCalled()
+      expect(offlineService.registerSyncHandler).toHaveBeenCalledWith('media', expect.any(Function))
+      const action = offlineService.queueAction.mock.calls[0][0]
+      // The photo and its thumbnail wait in device file storage
+      expect(action).toMatchObject({
+        type: 'CREATE',
+        entity: 'media',
+        entityId: queued.id,
+        data: { content_file: 'file-1.bin', thumbnail_file: 'file-2.bin' },
+        files: ['file-1.bin', 'file-2.bin']
+      })
+      expect(action.data.content).toBeUndefined()
+
+      await syncHandler({ ...action, id: 'action-1', timestamp: Date.now(), synced: false, retryCount: 0 })
+
+      expect(upsert).toHaveBeenCalledWith(expect.objectContaining({
+        id: queued.id,
+        taken_at: '2024-05-01T02:00:15Z',
+        size_bytes: photo.length
+      }), { onConflict: 'id' })
+      expect(Array.from(await storage.download(`user-1/plot-1/${queued.id}.jpg`))).toEqual(Array.from(photo))
+    })
+
+    it('should not leave files behind when the photo cannot be queued', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+      offlineService.queueAction.mockRejectedValue(new Error('storage full'))
+
+      await expect(mediaService.queueUpload({ content: photo, content_type: 'image/jpeg', plot_id: 'plot-1' }))
+        .rejects.toThrow('storage full')
+      expect(offlineService.removeFile).toHaveBeenCalledTimes(2)
+      expect(files.size).toBe(0)
+    })
+  })
+
+  describe('getMedia', () => {
+    it('should sign URLs for photos kept by the current provider only', async () => {
+      await storage.upload('user-1/plot-1/m1.jpg', photo, 'image/jpeg')
+      const rows = [
+        { id: 'm1', user_id: 'user-1', plot_id: 'plot-1', storage_provider: 'mock', storage_path: 'user-1/plot-1/m1.jpg', latitude: '18.520000', longitude: '73.850000' },
+        { id: 'm2', user_id: 'user-1', plot_id: 'plot-1', storage_provider: 'aws-s3', storage_path: 'user-1/plot-1/m2.jpg', latitude: null, longitude: null }
+      ]
+      const query: any = { eq: jest.fn(), order: jest.fn().mockResolvedValue({ data: rows, error: null }) }
+      query.eq.mockReturnValue(query)
+      mockSupabase.from.mockReturnValue({ select: jest.fn(() => query) } as any)
+
+      const media = await mediaService.getMedia('user-1', { plotId: 'plot-1' })
+
+      expect(query.eq).toHaveBeenCalledWith('plot_id', 'plot-1')
+      expect(media[0]).toMatchObject({ location: { latitude: 18.52, longitude: 73.85 } })
+      expect(media[0].thumbnail_url).toBe(media[0].url)
+      expect(media[1].url).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,110 @@
+// Test suite for the persisted offline service
+
+import { PersistentOfflineService } from '../../services/real/offline.service'
+import { OfflineFileStore, OfflineKeyValueStore } from '../../services/offline.service'
+
+describe('PersistentOfflineService', () => {
+  let values: Map<string, string>
+  let files: Map<string, Uint8Array>
+  let store: OfflineKeyValueStore
+  let fileStore: OfflineFileStore
+
+  const photo = new Uint8Array([0xff, 0xd8, 0x01, 0x02, 0xff, 0xd9])
+
+  beforeEach(() => {
+    values = new Map()
+    files = new Map()
+    store = {
+      getItem: async key => values.has(key) ? values.get(key)! : null,
+      setItem: async (key, value) => {
+        values.set(key, value)
+      },
+      removeItem: async key => {
+        values.delete(key)
+      },
+      getAllKeys: async () => Array.from(values.keys())
+    }
+    fileStore = {
+      write: async (name, content) => {
+        files.set(name, content)
+      },
+      read: async name => {
+        if (!files.has(name)) throw new Error(`No such file: ${name}`)
+        return files.get(name)!
+      },
+      remove: async name => {
+        files.delete(name)
+      }
+    }
+  })
+
+  it('should keep queued actions and their files across restarts', async () => {
+    const offline = new PersistentOfflineService(store, fileStore)
+    const name = await offline.storeFile(photo)
+    await offline.queueAction({ type: 'CREATE', entity: 'media', entityId: 'media-1', data: { content_file: name }, files: [name] })
+
+    const restarted = new PersistentOfflineService(store, fileStore)
+    const [action] = await restarted.getQueuedActions()
+
+    expect(action).toMatchObject({ entity: 'media', entityId: 'media-1', files: [name], retryCount: 0 })
+    expect(Array.from(await restarted.readFile(action.data.content_file))).toEqual(Array.from(photo))
+  })
+
+  it('should remove an action and its files once it syncs', async () => {
+    const offline = new PersistentOfflineService(store, fileStore)
+    const name = await offline.storeFile(photo)
+    await offline.queueAction({ type: 'CREATE', entity: 'media', entityId: 'media-1', data: { content_file: name }, files: [name] })
+    const handler = jest.fn().mockResolvedValue(undefined)
+    offline.registerSyncHandler('media', handler)
+
+    const result = await offline.syncData()
+
+    expect(result).toEqual({ success: true, syncedActions: 1, errors: [] })
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ entityId: 'media-1' }))
+    expect(await new PersistentOfflineService(store, fileStore).getQueuedActions()).toEqual([])
+    expect(files.size).toBe(0)
+    expect(await offline.getLastSyncTime()).toBeGreaterThan(0)
+  })
+
+  it('should keep a failed action for the next sync and drop it after five attempts', async () => {
+    const offline = new PersistentOfflineService(store, fileStore)
+    const name = await offline.storeFile(photo)
+    await offline.queueAction({ type: 'CREATE', entity: 'media', entityId: 'media-1', data: {}, files: [name] })
+    offline.registerSyncHandler('media', jest.fn().mockRejectedValue(new Error('Crop not found')))
+
+    const first = await offline.syncData()
+
+    expect(first.errors).toEqual(['Failed to sync CREATE media media-1: Crop not found'])
+    expect((await new PersistentOfflineService(store, fileStore).getQueuedActions())[0].retryCount).toBe(1)
+    expect(files.has(name)).toBe(true)
+
+    for (let attempt = 2; attempt <= 5; attempt++) {
+      await offline.syncData()
+    }
+
+    expect(await offline.getQueuedActions()).toEqual([])
+    expect(files.size).toBe(0)
+  })
+
+  it('should leave actions no service handles queued', async () => {
+    const offline = new PersistentOfflineService(store, fileStore)
+    await offline.queueAction({ type: 'UPDATE', entity: 'plot', entityId: 'plot-1', data: {} })
+
+    const result = await offline.syncData()
+
+    expect(result.errors).toEqual(['Failed to sync UPDATE plot plot-1: No sync handler for plot'])
+    expect(await offline.getQueuedActions()).toHaveLength(1)
+  })
+
+  it('should clear cached data without touching the queue', async () => {
+    const offline = new PersistentOfflineService(store, fileStore)
+    await offline.storeData('plots', [{ id: 'plot-1' }])
+    await offline.queueAction({ type: 'UPDATE', entity: 'plot', entityId: 'plot-1', data: {} })
+
+    expect(await offline.getData('plots')).toEqual([{ id: 'plot-1' }])
+    await offline.clearData()
+
+    expect(await offline.getData('plots')).toBeNull()
+    expect(await offline.getQueuedActions()).toHaveLength(1)
+  })
+})
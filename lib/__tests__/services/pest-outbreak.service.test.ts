@@ -0,0 +1,173 @@
+// Test suite for Pest Outbreak Service
+
+import { PestOutbreakService } from '../../services/pest-outbreak.service'
+import { NotificationService, PlotService } from '../../services/interfaces'
+import { supabase } from '../../supabase/client'
+import { Plot } from '../../types'
+
+// Mock Supabase client
+jest.mock('../../supabase/client', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn()
+  }
+}))
+
+describe('PestOutbreakService', () => {
+  let outbreakService: PestOutbreakService
+  let plotService: jest.Mocked<Pick<PlotService, 'getPlots'>>
+  let notificationService: jest.Mocked<Pick<NotificationService, 'sendNotification'>>
+  const mockSupabase = supabase as jest.Mocked<typeof supabase>
+
+  const square = (longitude: number, latitude: number): Plot['geometry'] => ({
+    type: 'Polygon',
+    coordinates: [[[longitude, latitude], [longitude + 0.002, latitude], [longitude + 0.002, latitude + 0.002], [longitude, latitude]]]
+  })
+
+  const plot = (id: string, name: string, longitude: number, latitude: number, isActive = true): Plot => ({
+    id,
+    user_id: 'user-1',
+    name,
+    geometry: square(longitude, latitude),
+    area_hectares: 1,
+    is_active: isActive,
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z'
+  })
+
+  const outbreakRow = (overrides: Record<string, any> = {}) => ({
+    pest_type: 'aphids',
+    pest_name: 'Aphids',
+    farm_count: 4,
+    report_count: 6,
+    active_count: 3,
+    high_severity_count: 0,
+    center_latitude: 11.41,
+    center_longitude: 76.71,
+    distance_km: 3.2,
+    first_reported_at: '2024-07-01T08:00:00Z',
+    last_reported_at: '2024-07-09T08:00:00Z',
+    includes_own: false,
+    ...overrides
+  })
+
+  let insert: jest.Mock
+  let gte: jest.Mock
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    plotService = { getPlots: jest.fn().mockResolvedValue([plot('plot-1', 'Hill field', 76.7, 11.4)]) }
+    notificationService = { sendNotification: jest.fn().mockResolvedValue({}) }
+    insert = jest.fn().mockResolvedValue({ error: null })
+    gte = jest.fn().mockResolvedValue({ data: [], error: null })
+    mockSupabase.from.mockReturnValue({
+      select: jest.fn(() => ({ eq: jest.fn(() => ({ gte })) })),
+      insert
+    } as any)
+    outbreakService = new PestOutbreakService(
+      plotService as unknown as PlotService,
+      notificationService as unknown as NotificationService
+    )
+  })
+
+  describe('getOutbreaksNear', () => {
+    it('should query the clustered outbreaks around a point', async () => {
+      mockSupabase.rpc.mockResolvedValue({ data: [outbreakRow()], error: null } as any)
+
+      const outbreaks = await outbreakService.getOutbreaksNear({ latitude: 11.4, longitude: 76.7 }, { radiusKm: 15 })
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('get_pest_outbreaks_near', {
+        latitude: 11.4,
+        longitude: 76.7,
+        radius_km: 15,
+        days: 14,
+        min_farms: 3,
+        cluster_km: 5
+      })
+      expect(outbreaks[0]).toEqual(expect.objectContaining({
+        pest_type: 'aphids',
+        farm_count: 4,
+        center: { latitude: 11.41, longitude: 76.71 },
+        includes_own: false
+      }))
+    })
+
+    it('should never ask for outbreaks of fewer than three farms', async () => {
+      mockSupabase.rpc.mockResolvedValue({ data: [], error: null } as any)
+
+      await outbreakService.getOutbreaksNear({ latitude: 11.4, longitude: 76.7 }, { minFarms: 1 })
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('get_pest_outbreaks_near', expect.objectContaining({ min_farms: 3 }))
+    })
+
+    it('should reject an out-of-range query', async () => {
+      await expect(outbreakService.getOutbreaksNear({ latitude: 95, longitude: 76.7 }, { radiusKm: 500 }))
+        .rejects.toThrow('Invalid outbreak query: Location is out of range; Radius must be between 5 and 200 km')
+      await expect(outbreakService.getOutbreaksNear({ latitude: 11.4, longitude: 76.7 }, { radiusKm: 0.5, clusterKm: 0.1 }))
+        .rejects.toThrow('Invalid outbreak query: Radius must be between 5 and 200 km; Cluster distance must be between 1 and 50 km')
+      expect(mockSupabase.rpc).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('getOutbreakFeed', () => {
+    it('should list an outbreak near several plots once, against the nearest', async () => {
+      plotService.getPlots.mockResolvedValue([
+        plot('plot-1', 'Hill field', 76.7, 11.4),
+        plot('plot-2', 'River field', 76.72, 11.42),
+        plot('plot-3', 'Fallow', 76.9, 11.6, false)
+      ])
+      mockSupabase.rpc
+        .mockResolvedValueOnce({ data: [outbreakRow()], error: null } as any)
+        .mockResolvedValueOnce({
+          data: [
+            outbreakRow({ distance_km: 1.1 }),
+            outbreakRow({ pest_type: 'thrips', pest_name: 'Thrips', last_reported_at: '2024-07-10T08:00:00Z' })
+          ],
+          error: null
+        } as any)
+
+      const feed = await outbreakService.getOutbreakFeed('user-1')
+
+      expect(mockSupabase.rpc).toHaveBeenCalledTimes(2)
+      expect(feed.map(item => [item.pest_type, item.nearest_plot_id, item.distance_km])).toEqual([
+        ['thrips', 'plot-2', 3.2],
+        ['aphids', 'plot-2', 1.1]
+      ])
+    })
+  })
+
+  describe('checkAlerts', () => {
+    it('should alert once enough other farms report the same pest', async () => {
+      mockSupabase.rpc.mockResolvedValue({
+        data: [
+          outbreakRow({ high_severity_count: 1 }),
+          // Three farms, but one of them is the user's
+          outbreakRow({ pest_type: 'thrips', pest_name: 'Thrips', farm_count: 3, includes_own: true })
+        ],
+        error: null
+      } as any)
+
+      const alerted = await outbreakService.checkAlerts('user-1', { minFarms: 3, radiusKm: 5 })
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('get_pest_outbreaks_near', expect.objectContaining({ radius_km: 5, min_farms: 3 }))
+      expect(alerted.map(outbreak => outbreak.pest_type)).toEqual(['aphids'])
+      expect(notificationService.sendNotification).toHaveBeenCalledWith('user-1', expect.objectContaining({
+        type: 'pest_outbreak',
+        priority: 'high',
+        message: expect.stringContaining('4 farms within 4 km of Hill field have reported aphids')
+      }))
+      expect(insert).toHaveBeenCalledWith(expect.objectContaining({ user_id: 'user-1', pest_type: 'aphids', farm_count: 4 }))
+    })
+
+    it('should not alert again for a pest already alerted in the window', async () => {
+      gte.mockResolvedValue({ data: [{ pest_type: 'aphids' }], error: null })
+      mockSupabase.rpc.mockResolvedValue({ data: [outbreakRow()], error: null } as any)
+
+      const alerted = await outbreakService.checkAlerts('user-1')
+
+      expect(alerted).toEqual([])
+      expect(notificationService.sendNotification).not.toHaveBeenCalled()
+      expect(insert).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,221 @@
+// Test suite for Pest Risk Service
+
+import { PestRiskService } from '../../services/pest-risk.service'
+import { PestService, PlotService, WeatherService } from '../../services/interfaces'
+import { supabase } from '../../supabase/client'
+import { PestBattle, PestRiskModel, Plot, WeatherData } from '../../types'
+
+// Mock Supabase client
+jest.mock('../../supabase/client', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn()
+  }
+}))
+
+describe('PestRiskService', () => {
+  let riskService: PestRiskService
+  let plotService: jest.Mocked<Pick<PlotService, 'getPlot' | 'getPlots'>>
+  let weatherService: jest.Mocked<Pick<WeatherService, 'getForecast' | 'getHistoricalData'>>
+  let pestService: jest.Mocked<Pick<PestService, 'getPestHistory' | 'createPestBattle'>>
+  const mockSupabase = supabase as jest.Mocked<typeof supabase>
+
+  const today = '2024-07-10'
+  const july = (day: number) => `2024-07-${String(day).padStart(2, '0')}`
+
+  // Potatoes in a wet spell in the Nilgiris: blight weather
+  const plot: Plot = {
+    id: 'plot-1',
+    user_id: 'user-1',
+    name: 'Hill field',
+    geometry: { type: 'Polygon', coordinates: [[[76.7, 11.4], [76.706, 11.4], [76.706, 11.406], [76.7, 11.4]]] },
+    area_hectares: 0.4,
+    crops: [
+      { id: 'crop-1', name: 'potato', sown_date: july(1), status: 'growing' },
+      { id: 'crop-2', name: 'wheat', sown_date: july(1), status: 'growing' }
+    ],
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z'
+  }
+
+  // Historical records hold a single reading: the service models each
+  // observed day with that temperature as both its minimum and maximum,
+  // and with no rain
+  const history: WeatherData[] = Array.from({ length: 9 }, (_, i) => ({
+    location: { latitude: 11.403, longitude: 76.703 },
+    date: july(i + 1),
+    current: { temperature: 15, humidity: 95, wind_speed: 5, description: 'Drizzle', icon: '09d' },
+    forecast: [],
+    alerts: []
+  }))
+
+  const forecast: WeatherData = {
+    location: { latitude: 11.403, longitude: 76.703 },
+    current: { temperature: 16, humidity: 95, wind_speed: 5, description: 'Drizzle', icon: '09d' },
+    forecast: Array.from({ length: 5 }, (_, i) => ({
+      date: july(10 + i),
+      temperature_min: 14,
+      temperature_max: 22,
+      humidity: 95,
+      precipitation_chance: 80,
+      precipitation_mm: 6,
+      description: 'Light rain',
+      icon: '10d'
+    })),
+    alerts: []
+  }
+
+  const battle = (overrides: Partial<PestBattle> = {}): PestBattle => ({
+    id: 'battle-1',
+    user_id: 'user-1',
+    plot_id: 'plot-1',
+    pest_type: 'late_blight',
+    severity: 'high',
+    status: 'active',
+    xp_reward: 50,
+    created_at: `${today}T08:00:00Z`,
+    ...overrides
+  })
+
+  let upsert: jest.Mock
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    plotService = { getPlot: jest.fn().mockResolvedValue(plot), getPlots: jest.fn().mockResolvedValue([plot]) }
+    weatherService = {
+      getForecast: jest.fn().mockResolvedValue(forecast),
+      getHistoricalData: jest.fn().mockResolvedValue(history)
+    }
+    pestService = {
+      getPestHistory: jest.fn().mockResolvedValue([]),
+      createPestBattle: jest.fn().mockResolvedValue(battle())
+    }
+    upsert = jest.fn().mockResolvedValue({ error: null })
+    mockSupabase.from.mockReturnValue({ upsert } as any)
+    riskService = new PestRiskService(
+      plotService as unknown as PlotService,
+      weatherService as unknown as WeatherService,
+      pestService as unknown as PestService
+    )
+  })
+
+  describe('assessPlot', () => {
+    it('should model every pest of each growing crop from its sowing', async () => {
+      const risks = await riskService.assessPlot('plot-1', today)
+
+      expect(weatherService.getHistoricalData).toHaveBeenCalledWith({ latitude: expect.any(Number), longitude: expect.any(Number) }, 9)
+      expect(risks.every(risk => risk.crop_id === 'crop-1')).toBe(true)
+      expect(risks.map(risk => risk.pest_type).sort()).toEqual(['flea_beetles', 'late_blight'])
+
+      const blight = risks.find(risk => risk.pest_type === 'late_blight')!
+      expect(blight.kind).toBe('disease')
+      expect(blight.today).toEqual({ date: today, score: 1, level: 'high', forecast: true })
+      expect(blight.days[0].date).toBe(july(3))
+      expect(blight.days[blight.days.length - 1].date).toBe(july(14))
+    })
+
+    it('should skip the weather when no crop has a risk model', async () => {
+      plotService.getPlot.mockResolvedValue({ ...plot, crops: [plot.crops![1]] })
+
+      await expect(riskService.assessPlot('plot-1', today)).resolves.toEqual([])
+      expect(weatherService.getForecast).not.toHaveBeenCalled()
+    })
+
+    it('should use registered models', async () => {
+      const rust: PestRiskModel = {
+        id: 'wheat_rust',
+        pest_type: 'rust',
+        kind: 'disease',
+        host_crops: ['wheat'],
+        evaluate: days => days.map(() => 0.5)
+      }
+      riskService.registerModel(rust)
+
+      const risks = await riskService.assessPlot('plot-1', today)
+
+      expect(risks.find(risk => risk.crop_id === 'crop-2')).toEqual(expect.objectContaining({
+        model_id: 'wheat_rust',
+        today: expect.objectContaining({ score: 0.5, level: 'medium' })
+      }))
+    })
+
+    it('should model observed days from their single reading, without rain', async () => {
+      const evaluate = jest.fn((days: any[]) => days.map(() => 0))
+      riskService.registerModel({ id: 'wheat_rust', pest_type: 'rust', kind: 'disease', host_crops: ['wheat'], evaluate })
+
+      await riskService.assessPlot('plot-1', today)
+
+      const days = evaluate.mock.calls[0][0]
+      expect(days[0]).toEqual({ date: july(1), min: 15, max: 15, humidity: 95, rain_mm: 0, forecast: false })
+      expect(days.find((day: any) => day.date === today)).toMatchObject({ min: 14, max: 22, forecast: true })
+    })
+  })
+
+  describe('refreshPlotRisk', () => {
+    it('should save the daily risk and start a battle when risk crosses the threshold', async () => {
+      const refresh = await riskService.refreshPlotRisk('plot-1', today)
+
+      expect(mockSupabase.from).toHaveBeenCalledWith('pest_risk_daily')
+      expect(upsert).toHaveBeenCalledWith(expect.arrayContaining([
+        expect.objectContaining({
+          plot_id: 'plot-1',
+          crop_id: 'crop-1',
+          user_id: 'user-1',
+          model_id: 'late_blight_smith',
+          risk_date: today,
+          score: 1,
+          level: 'high',
+          forecast: true
+        })
+      ]), { onConflict: 'crop_id,model_id,risk_date' })
+      expect(pestService.createPestBattle).toHaveBeenCalledTimes(1)
+      expect(pestService.createPestBattle).toHaveBeenCalledWith('plot-1', 'late_blight', 'medium')
+      expect(refresh.battles).toHaveLength(1)
+    })
+
+    it('should not start a second battle against a pest already being fought', async () => {
+      pestService.getPestHistory.mockResolvedValue([battle()])
+
+      const refresh = await riskService.refreshPlotRisk('plot-1', today)
+
+      expect(pestService.createPestBattle).not.toHaveBeenCalled()
+      expect(refresh.battles).toEqual([])
+    })
+
+    it('should not start a battle for a risk that only crossed the threshold today', async () => {
+      riskService.registerModel({
+        id: 'wheat_rust',
+        pest_type: 'rust',
+        kind: 'disease',
+        host_crops: ['wheat'],
+        evaluate: days => days.map(day => day.date === today ? 0.9 : 0.3)
+      })
+
+      await riskService.refreshPlotRisk('plot-1', today)
+
+      expect(pestService.createPestBattle).toHaveBeenCalledTimes(1)
+      expect(pestService.createPestBattle).toHaveBeenCalledWith('plot-1', 'late_blight', 'medium')
+    })
+
+    it('should wait a week after the last battle against a pest before starting another', async () => {
+      pestService.getPestHistory.mockResolvedValue([
+        battle({ status: 'resolved', created_at: `${july(1)}T08:00:00Z`, resolved_at: `${july(5)}T08:00:00Z` })
+      ])
+
+      const refresh = await riskService.refreshPlotRisk('plot-1', today)
+
+      expect(pestService.createPestBattle).not.toHaveBeenCalled()
+      expect(refresh.battles).toEqual([])
+    })
+
+    it('should start a new battle once the cooldown after the last one has passed', async () => {
+      pestService.getPestHistory.mockResolvedValue([
+        battle({ status: 'resolved', created_at: '2024-06-25T08:00:00Z', resolved_at: '2024-06-30T08:00:00Z' })
+      ])
+
+      await riskService.refreshPlotRisk('plot-1', today)
+
+      expect(pestService.createPestBattle).toHaveBeenCalledWith('plot-1', 'late_blight', 'medium')
+    })
+  })
+})
@@ -0,0 +1,222 @@
+// Test suite for Supabase Pest Service
+
+import { SupabasePestService } from '../../services/pest.service'
+import { supabase } from '../../supabase/client'
+
+// Mock Supabase client
+jest.mock('../../supabase/client', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn()
+  }
+}))
+
+describe('SupabasePestService', () => {
+  let pestService: SupabasePestService
+  const mockSupabase = supabase as jest.Mocked<typeof supabase>
+
+  const battleRow = {
+    id: 'battle-1',
+    user_id: 'user-1',
+    plot_id: 'plot-1',
+    pest_type: 'aphids',
+    pest_name: 'Aphids',
+    severity: 'medium',
+    status: 'active',
+    xp_reward: 23,
+    treatment_used: null,
+    success_rate: null,
+    created_at: '2024-06-01T08:00:00Z',
+    resolved_at: null
+  }
+
+  const single = (result: { data: any; error: any }) => jest.fn().mockResolvedValue(result)
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    pestService = new SupabasePestService()
+  })
+
+  describe('createPestBattle', () => {
+    it('should file the battle under the plot owner with a severity-scaled reward', async () => {
+      const insert = jest.fn((row: any) => ({
+        select: jest.fn(() => ({ single: single({ data: { ...battleRow, ...row }, error: null }) }))
+      }))
+      mockSupabase.from.mockImplementation(((table: string) => {
+        if (table === 'plots') {
+          return {
+            select: jest.fn(() => ({
+              eq: jest.fn(() => ({ single: single({ data: { user_id: 'user-1' }, error: null }) }))
+            }))
+          }
+        }
+        return { insert }
+      }) as any)
+
+      const battle = await pestService.createPestBattle('plot-1', 'caterpillars', 'high')
+
+      expect(insert).toHaveBeenCalledWith(expect.objectContaining({
+        user_id: 'user-1',
+        plot_id: 'plot-1',
+        pest_type: 'caterpillars',
+        pest_name: 'Caterpillars',
+        severity: 'high',
+        status: 'active',
+        xp_reward: 40
+      }))
+      expect(battle.user_id).toBe('user-1')
+      expect(battle.treatment_used).toBeUndefined()
+    })
+
+    it('should refuse a second battle against a pest already being fought', async () => {
+      mockSupabase.from.mockImplementation(((table: string) => {
+        if (table === 'plots') {
+          return {
+            select: jest.fn(() => ({
+              eq: jest.fn(() => ({ single: single({ data: { user_id: 'user-1' }, error: null }) }))
+            }))
+          }
+        }
+        return {
+          insert: jest.fn(() => ({
+            select: jest.fn(() => ({ single: single({ data: null, error: { code: '23505', message: 'duplicate key value' } }) }))
+          }))
+        }
+      }) as any)
+
+      await expect(pestService.createPestBattle('plot-1', 'aphids', 'low'))
+        .rejects.toThrow('A battle against Aphids is already being fought on this plot')
+    })
+
+    it('should not file a battle on a plot the user cannot see', async () => {
+      mockSupabase.from.mockReturnValue({
+        select: jest.fn(() => ({
+          eq: jest.fn(() => ({ single: single({ data: null, error: { code: 'PGRST116', message: 'No rows' } }) }))
+        }))
+      } as any)
+
+      await expect(pestService.createPestBattle('plot-2', 'aphids', 'low')).rejects.toThrow('Plot not found')
+    })
+
+    it('should reject an unknown severity', async () => {
+      await expect(pestService.createPestBattle('plot-1', 'aphids', 'extreme' as any))
+        .rejects.toThrow('Unknown severity: extreme')
+      expect(mockSupabase.from).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('resolvePestBattle', () => {
+    const mockBattleFetch = (row: any) => ({
+      select: jest.fn(() => ({
+        eq: jest.fn(() => ({ single: single({ data: row, error: null }) }))
+      }))
+    })
+
+    it('should retreat through the engine and return the XP it awarded', async () => {
+      mockSupabase.rpc.mockResolvedValue({ data: 7, error: null } as any)
+      mockSupabase.from.mockReturnValue(mockBattleFetch({ ...battleRow, status: 'resolved', success_rate: '0.40' }) as any)
+
+      const result = await pestService.resolvePestBattle('battle-1', false)
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('retreat_pest_battle', { p_battle_id: 'battle-1' })
+      expect(result.battle.success_rate).toBe(0.4)
+      expect(result.xpAwarded).toBe(7)
+    })
+
+    it('should not let the client declare a win', async () => {
+      await expect(pestService.resolvePestBattle('battle-1', true)).rejects.toThrow('Pest battles are won by treating the pest')
+      expect(mockSupabase.rpc).not.toHaveBeenCalled()
+    })
+
+    it('should surface the engine refusing a resolved battle', async () => {
+      mockSupabase.rpc.mockResolvedValue({ data: null, error: { message: 'Battle already resolved' } } as any)
+
+      await expect(pestService.resolvePestBattle('battle-1', false)).rejects.toThrow('Battle already resolved')
+    })
+  })
+
+  describe('playTurn', () => {
+    const turnRow = {
+      id: 'turn-2',
+      battle_id: 'battle-1',
+      user_id: 'user-1',
+      turn_number: 2,
+      played_on: '2024-06-02',
+      treatment_id: 'neem_oil',
+      dose: '2.50',
+      efficacy: '0.35',
+      regrowth: 0,
+      damage: 32,
+      hp_before: 20,
+      hp_after: 0,
+      xp_awarded: 23,
+      created_at: '2024-06-02T08:00:00Z'
+    }
+
+    it('should play the turn on the server and return the battle it left', async () => {
+      mockSupabase.rpc.mockResolvedValue({ data: turnRow, error: null } as any)
+      mockSupabase.from.mockReturnValue({
+        select: jest.fn(() => ({
+          eq: jest.fn(() => ({
+            single: single({
+              data: { ...battleRow, status: 'resolved', hp: 0, max_hp: 120, turns_played: 2, success_rate: '1.00' },
+              error: null
+            })
+          }))
+        }))
+      } as any)
+
+      const result = await pestService.playTurn('battle-1', 'neem_oil')
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('play_pest_battle_turn', { p_battle_id: 'battle-1', p_treatment_id: 'neem_oil' })
+      expect(result.turn).toEqual(expect.objectContaining({ dose: 2.5, efficacy: 0.35, hp_after: 0 }))
+      expect(result.battle).toEqual(expect.objectContaining({ status: 'resolved', hp: 0, success_rate: 1 }))
+      expect(result.xpAwarded).toBe(23)
+    })
+
+    it('should surface the engine\'s refusals', async () => {
+      mockSupabase.rpc.mockResolvedValue({
+        data: null,
+        error: { message: 'Not enough biocontrol: 2.5 l needed, 1 in stock' }
+      } as any)
+
+      await expect(pestService.playTurn('battle-1', 'neem_oil')).rejects.toThrow('Not enough biocontrol')
+    })
+  })
+
+  describe('getTreatments', () => {
+    it('should list the most effective treatments against a pest first', async () => {
+      const rows = [
+        { id: 'bt_spray', name: 'Bt spray', kind: 'biological', resource_type: 'biocontrol', dose_per_hectare: '1.000', unit: 'kg',
+          efficacy: { caterpillars: 0.55 }, default_efficacy: '0.05', resistance_buildup: '0.00', phi_days: 0, rei_hours: 4 },
+        { id: 'imidacloprid', name: 'Imidacloprid', kind: 'chemical', resource_type: 'pesticide', dose_per_hectare: '0.250', unit: 'l',
+          efficacy: { aphids: 0.6 }, default_efficacy: '0.15', resistance_buildup: '0.05', phi_days: 7, rei_hours: 12 }
+      ]
+      mockSupabase.from.mockReturnValue({
+        select: jest.fn(() => ({ order: jest.fn().mockResolvedValue({ data: rows, error: null }) }))
+      } as any)
+
+      const treatments = await pestService.getTreatments('aphids')
+
+      expect(treatments.map(treatment => treatment.id)).toEqual(['imidacloprid', 'bt_spray'])
+      expect(treatments[0]).toEqual(expect.objectContaining({ dose_per_hectare: 0.25, phi_days: 7, rei_hours: 12 }))
+    })
+  })
+
+  describe('getActiveBattles', () => {
+    it('should fetch the user\'s active battles, newest first', async () => {
+      const order = jest.fn().mockResolvedValue({ data: [battleRow], error: null })
+      const statusEq = jest.fn(() => ({ order }))
+      const userEq = jest.fn(() => ({ eq: statusEq }))
+      mockSupabase.from.mockReturnValue({ select: jest.fn(() => ({ eq: userEq })) } as any)
+
+      const battles = await pestService.getActiveBattles('user-1')
+
+      expect(userEq).toHaveBeenCalledWith('user_id', 'user-1')
+      expect(statusEq).toHaveBeenCalledWith('status', 'active')
+      expect(order).toHaveBeenCalledWith('created_at', { ascending: false })
+      expect(battles).toHaveLength(1)
+      expect(battles[0].resolved_at).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,192 @@
+// Test suite for Plot Import/Export Service
+
+import { MAX_IMPORT_FILE_SIZE, PlotImportExportService } from '../../services/plot-import-export.service'
+import { PlotService } from '../../services/interfaces'
+import { Plot } from '../../types'
+import { parseKML } from '../../utils/kml'
+import { parseShapefile } from '../../utils/shapefile'
+import { readZip } from '../../utils/zip'
+
+// Mock Supabase client
+jest.mock('../../supabase/client', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn()
+  }
+}))
+
+describe('PlotImportExportService', () => {
+  let service: PlotImportExportService
+  let plotService: jest.Mocked<Pick<PlotService, 'createPlot' | 'getPlots'>>
+
+  const square = (lon: number, lat: number, size = 0.002): GeoJSON.Polygon => ({
+    type: 'Polygon',
+    coordinates: [[[lon, lat], [lon + size, lat], [lon + size, lat + size], [lon, lat + size], [lon, lat]]]
+  })
+
+  // A land-registry export: attribute names differ from ours
+  const registryExport = JSON.stringify({
+    type: 'FeatureCollection',
+    features: [
+      { type: 'Feature', geometry: square(78.4, 17.4), properties: { SURVEY_NO: '112/3', SOIL: 'black cotton', WATER: 'borewell' } },
+      { type: 'Feature', geometry: square(78.41, 17.4), properties: { SURVEY_NO: '112/4', SOIL: 'red loam' } },
+      { type: 'Feature', geometry: { type: 'LineString', coordinates: [[78.4, 17.4], [78.41, 17.4]] }, properties: { SURVEY_NO: 'road' } },
+      { type: 'Feature', geometry: { type: 'Polygon', coordinates: [[[78.42, 17.4], [78.43, 17.41], [78.43, 17.4], [78.42, 17.41], [78.42, 17.4]]] }, properties: { SURVEY_NO: '113' } }
+    ]
+  })
+
+  const storedPlot = (overrides: Partial<Plot>): Plot => ({
+    id: 'plot-1',
+    user_id: 'user-1',
+    name: 'Orchard',
+    geometry: square(78.4, 17.4),
+    area_hectares: 4.7,
+    soil_type: 'red loam',
+    irrigation_type: 'drip',
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+    ...overrides
+  })
+
+  beforeEach(() => {
+    plotService = {
+      createPlot: jest.fn(async plot => storedPlot({ ...plot, id: `plot-${plot.name}` })),
+      getPlots: jest.fn()
+    }
+    service = new PlotImportExportService(plotService as unknown as PlotService)
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  describe('importPlots', () => {
+    const mapping = { name: 'SURVEY_NO', soil_type: 'SOIL', irrigation_type: 'WATER' }
+
+    it('should report per-feature results in dry-run mode without creating plots', async () => {
+      const result = await service.importPlots(
+        'user-1',
+        { name: 'registry.geojson', data: registryExport },
+        { dryRun: true, fieldMapping: mapping }
+      )
+
+      expect(plotService.createPlot).not.toHaveBeenCalled()
+      expect(result).toMatchObject({ format: 'geojson', dryRun: true, total: 4, succeeded: 2, failed: 2 })
+      expect(result.features.map(feature => feature.status)).toEqual(['valid', 'valid', 'failed', 'failed'])
+      expect(result.features[1].warnings).toEqual(['Attribute "WATER" mapped to irrigation_type not found'])
+      expect(result.features[2].errors).toEqual(['Unsupported geometry type: LineString (plots must be polygons)'])
+      expect(result.features[3].errors).toEqual(['Polygon cannot intersect with itself'])
+      expect(result.features[0].area_hectares).toBeCloseTo(4.7, 1)
+    })
+
+    it('should create plots with mapped attributes', async () => {
+      const result = await service.importPlots(
+        'user-1',
+        { name: 'registry.geojson', data: registryExport },
+        { fieldMapping: mapping }
+      )
+
+      expect(plotService.createPlot).toHaveBeenCalledTimes(2)
+      expect(plotService.createPlot).toHaveBeenCalledWith(expect.objectContaining({
+        user_id: 'user-1',
+        name: '112/3',
+        soil_type: 'black cotton',
+        irrigation_type: 'borewell'
+      }), undefined)
+      expect(result.features[0]).toMatchObject({ status: 'created', plot: { id: 'plot-112/3' } })
+    })
+
+    it('should keep going when a plot cannot be created', async () => {
+      plotService.createPlot.mockRejectedValueOnce(new Error('Failed to create plot: duplicate key'))
+
+      const result = await service.importPlots('user-1', { name: 'registry.geojson', data: registryExport })
+
+      expect(result.features[0].errors).toEqual(['Failed to create plot: duplicate key'])
+      expect(result.features[1].status).toBe('created')
+    })
+
+    it('should name features without a name attribute', async () => {
+      const result = await service.importPlots(
+        'user-1',
+        { name: 'field.json', data: JSON.stringify(square(78.4, 17.4)) },
+        { dryRun: true }
+      )
+
+      expect(result.features[0].name).toBe('Imported plot 1')
+      expect(result.features[0].warnings).toEqual(['No name attribute found; using "Imported plot 1"'])
+    })
+
+    it('should read deflated KMZ archives', async () => {
+      // zip of doc.kml with a single "Mango orchard" placemark, compressed with deflate
+      const kmz = Uint8Array.from(Buffer.from(
+        'UEsDBBQAAAAIAGuSUl18ad/A/QAAAK0BAAAHAAAAZG9jLmttbG1QXWvDMAx8z68Ifu6iNAxahuJC6QaDDcY+foBJRBqaSMV2kubfz1nK2rG+yDp0vpMON6e2iXuyrhbO1TJJVUxcSFlzlauvz6e7tdroCA+BFZjscrX3/vgAMAxDIkfiqnYJk4fAgCzJlMadFF1L7DWyaUl/dLanEeEHRPjWmIJaYw/n8avhSmKxxd7Y8szCx5MnLqncGW+CYKjxNMiVk7oJFr1pOtKNmBZh7hFmLvz5GuykGSthjdJ5slvpuDR2fHYaX2omY9/DoRoLERtONp6cjlbr5H6xXIWSxlOfZjdQeGZ8Ay3SCOFaEuHaDP6tAr9bwiWeoHFJcopXfwNQSwECFAMUAAAACABrklJdfGnfwP0AAACtAQAABwAAAAAAAAAAAAAAgAEAAAAAZG9jLmttbFBLBQYAAAAAAQABADUAAAAiAQAAAAA=',
+        'base64'
+      ))
+
+      const result = await service.importPlots('user-1', { name: 'survey', data: kmz }, { dryRun: true })
+
+      expect(result.format).toBe('kmz')
+      expect(result.features[0]).toMatchObject({ name: 'Mango orchard', status: 'valid' })
+    })
+
+    it('should reject files it cannot read', async () => {
+      await expect(service.importPlots('user-1', { name: 'notes.txt', data: 'hello' }))
+        .rejects.toThrow('Unable to detect the format of notes.txt')
+      await expect(service.importPlots('user-1', { name: 'plots.zip', data: 'not binary' }))
+        .rejects.toThrow('plots.zip must be provided as binary data')
+      await expect(service.importPlots('user-1', {
+        name: 'utm.geojson',
+        data: JSON.stringify({ type: 'FeatureCollection', crs: { type: 'name', properties: { name: 'EPSG:32644' } }, features: [] })
+      })).rejects.toThrow('GeoJSON must use WGS84 coordinates')
+    })
+
+    it('should reject files over the import size limit', async () => {
+      await expect(service.importPlots('user-1', { name: 'huge.kmz', data: new Uint8Array(MAX_IMPORT_FILE_SIZE + 1) }))
+        .rejects.toThrow('huge.kmz is larger than the 20 MB import limit')
+    })
+  })
+
+  describe('exportPlots', () => {
+    beforeEach(() => {
+      plotService.getPlots.mockResolvedValue([
+        storedPlot({ id: 'plot-1', name: 'Orchard' }),
+        storedPlot({ id: 'plot-2', name: 'Paddy', geometry: square(78.41, 17.4), irrigation_type: undefined })
+      ])
+    })
+
+    it('should export GeoJSON', async () => {
+      const file = await service.exportPlots('user-1', 'geojson')
+      const collection = JSON.parse(file.data as string)
+
+      expect(file).toMatchObject({ filename: 'plots.geojson', mimeType: 'application/geo+json' })
+      expect(collection.features).toHaveLength(2)
+      expect(collection.features[0].properties).toMatchObject({ id: 'plot-1', name: 'Orchard', soil_type: 'red loam' })
+    })
+
+    it('should export KML', async () => {
+      const file = await service.exportPlots('user-1', 'kml')
+      const [orchard] = parseKML(file.data as string)
+
+      expect(orchard.properties).toMatchObject({ name: 'Orchard', irrigation_type: 'drip' })
+      expect(orchard.geometry).toEqual(square(78.4, 17.4))
+    })
+
+    it('should export a zipped Shapefile with short attribute names', async () => {
+      const file = await service.exportPlots('user-1', 'shapefile')
+      const files = await readZip(file.data as Uint8Array)
+
+      expect(Array.from(files.keys()).sort()).toEqual(['plots.dbf', 'plots.prj', 'plots.shp', 'plots.shx'])
+      const [orchard] = parseShapefile(files.get('plots.shp')!, files.get('plots.dbf'))
+      expect(orchard.properties).toMatchObject({ id: 'plot-1', name: 'Orchard', irrigation: 'drip', area_ha: 4.7 })
+    })
+
+    it('should re-import its own exports', async () => {
+      for (const format of ['geojson', 'kml', 'kmz', 'shapefile'] as const) {
+        const file = await service.exportPlots('user-1', format)
+        const result = await service.importPlots('user-1', { name: file.filename, data: file.data }, { dryRun: true })
+
+        expect(result.features.map(feature => [feature.name, feature.status])).toEqual([
+          ['Orchard', 'valid'],
+          ['Paddy', 'valid']
+        ])
+      }
+    })
+  })
+})
@@ -0,0 +1,153 @@
+// Test suite for Plot Tile Service
+
+import { PlotTileService } from '../../services/plot-tile.service'
+import { PlotService } from '../../services/interfaces'
+import { Plot } from '../../types'
+import { tileToBoundingBox } from '../../utils/tiles'
+
+// Mock Supabase client
+jest.mock('../../supabase/client', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn()
+  }
+}))
+
+describe('PlotTileService', () => {
+  let service: PlotTileService
+  let plotService: jest.Mocked<Pick<PlotService, 'getPlotsInBoundingBox'>>
+
+  // Tile 16/46576/26848 covers this corner of Punjab
+  const tile = { z: 16, x: 46576, y: 26848 }
+
+  // A 200 m square whose edges carry many nearly-straight GPS vertices
+  const wigglySquare = (): GeoJSON.Polygon => {
+    const ring: GeoJSON.Position[] = []
+    const corners = [[75.85, 30.9], [75.852, 30.9], [75.852, 30.902], [75.85, 30.902]]
+    corners.forEach((corner, i) => {
+      const next = corners[(i + 1) % corners.length]
+      for (let step = 0; step < 20; step++) {
+        const t = step / 20
+        const wiggle = step % 2 === 0 ? 0.000002 : -0.000002 // about 20 cm
+        ring.push([
+          corner[0] + t * (next[0] - corner[0]) + (i % 2 === 1 ? wiggle : 0),
+          corner[1] + t * (next[1] - corner[1]) + (i % 2 === 0 ? wiggle : 0)
+        ])
+      }
+    })
+    ring.push(ring[0])
+    return { type: 'Polygon', coordinates: [ring] }
+  }
+
+  const plot = (overrides: Partial<Plot> = {}): Plot => ({
+    id: 'plot-1',
+    user_id: 'user-1',
+    name: 'Canal field',
+    geometry: wigglySquare(),
+    area_hectares: 4.1,
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+    ...overrides
+  })
+
+  const respondWith = (plots: Plot[]) => {
+    plotService.getPlotsInBoundingBox.mockResolvedValue({
+      plots,
+      page: 1,
+      pageSize: 500,
+      total: plots.length,
+      hasMore: false
+    })
+  }
+
+  const ringLength = (data: any) => data.features[0].geometry.coordinates[0].length
+
+  beforeEach(() => {
+    plotService = { getPlotsInBoundingBox: jest.fn() }
+    service = new PlotTileService(plotService as unknown as PlotService)
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  it('should return the plots of a tile as GeoJSON', async () => {
+    respondWith([plot()])
+
+    const result = await service.getTile(tile.z, tile.x, tile.y, { userId: 'user-1' })
+
+    expect(plotService.getPlotsInBoundingBox).toHaveBeenCalledWith(
+      tileToBoundingBox(tile.z, tile.x, tile.y),
+      { userId: 'user-1', page: 1, pageSize: 500 }
+    )
+    expect(result).toMatchObject({ format: 'geojson', mimeType: 'application/geo+json', featureCount: 1, cached: false })
+    const data = result.data as GeoJSON.FeatureCollection
+    expect(data.features[0].id).toBe('plot-1')
+    expect(data.features[0].properties).toEqual({ id: 'plot-1', user_id: 'user-1', name: 'Canal field', area_hectares: 4.1 })
+  })
+
+  it('should simplify more at lower zoom levels', async () => {
+    respondWith([plot()])
+
+    const close = await service.getTile(20, 745217, 429575)
+    const far = await service.getTile(14, 11644, 6712)
+
+    // At z20 a pixel is ~13 cm, so the 20 cm wiggles stay; at z14 only the corners remain
+    expect(ringLength(close.data)).toBe(81)
+    expect(ringLength(far.data)).toBe(5)
+  })
+
+  it('should leave out plots too small to see', async () => {
+    respondWith([plot()])
+
+    const result = await service.getTile(8, 181, 104)
+
+    expect(result.featureCount).toBe(0)
+  })
+
+  it('should not query plots below the minimum zoom', async () => {
+    const result = await service.getTile(4, 11, 6)
+
+    expect(plotService.getPlotsInBoundingBox).not.toHaveBeenCalled()
+    expect(result.featureCount).toBe(0)
+  })
+
+  it('should serve unchanged tiles from the cache until a plot is updated', async () => {
+    respondWith([plot()])
+    const first = await service.getTile(tile.z, tile.x, tile.y)
+    const second = await service.getTile(tile.z, tile.x, tile.y)
+
+    expect(first.cached).toBe(false)
+    expect(second.cached).toBe(true)
+    expect(second.data).toBe(first.data)
+
+    respondWith([plot({ name: 'Renamed', updated_at: '2024-02-01T00:00:00Z' })])
+    const updated = await service.getTile(tile.z, tile.x, tile.y)
+
+    expect(updated.cached).toBe(false)
+    expect((updated.data as GeoJSON.FeatureCollection).features[0].properties!.name).toBe('Renamed')
+  })
+
+  it('should rebuild the tile when a plot is added', async () => {
+    respondWith([plot()])
+    await service.getTile(tile.z, tile.x, tile.y)
+
+    respondWith([plot(), plot({ id: 'plot-2' })])
+    const result = await service.getTile(tile.z, tile.x, tile.y)
+
+    expect(result).toMatchObject({ cached: false, featureCount: 2 })
+  })
+
+  it('should encode Mapbox Vector Tiles', async () => {
+    respondWith([plot()])
+
+    const result = await service.getTile(tile.z, tile.x, tile.y, { format: 'mvt' })
+
+    expect(result.mimeType).toBe('application/vnd.mapbox-vector-tile')
+    expect(result.data).toBeInstanceOf(Uint8Array)
+    expect(result.featureCount).toBe(1)
+    // Tile message, field 3 (layers), length-delimited
+    expect((result.data as Uint8Array)[0]).toBe(0x1a)
+  })
+
+  it('should reject tiles outside the grid', async () => {
+    await expect(service.getTile(2, 4, 0)).rejects.toThrow('Invalid tile: 2/4/0')
+  })
+})
@@ -0,0 +1,185 @@
+// Test suite for Plot Validation Service
+
+import { PlotValidationService } from '../../services/plot-validation.service'
+import { SupabasePlotService } from '../../services/plot.service'
+import { supabase } from '../../supabase/client'
+import { PlotGeometry } from '../../types'
+
+// Mock Supabase client
+jest.mock('../../supabase/client', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn()
+  }
+}))
+
+describe('PlotValidationService', () => {
+  let validator: PlotValidationService
+
+  // Roughly 1 ha in Punjab, counter-clockwise
+  const field: GeoJSON.Position[] = [
+    [75.85, 30.9], [75.851, 30.9], [75.851, 30.901], [75.85, 30.901], [75.85, 30.9]
+  ]
+
+  const polygon = (...rings: GeoJSON.Position[][]): PlotGeometry => ({
+    type: 'Polygon',
+    coordinates: rings
+  })
+
+  const codes = (geometry: PlotGeometry, autoFix = false) =>
+    validator.validate(geometry, { autoFix }).issues.map(issue => issue.code)
+
+  beforeEach(() => {
+    validator = new PlotValidationService()
+  })
+
+  describe('validate', () => {
+    it('should accept a clean field', () => {
+      const result = validator.validate(polygon(field))
+
+      expect(result.valid).toBe(true)
+      expect(result.issues).toEqual([])
+      expect(result.repaired).toBe(false)
+      expect(result.area_hectares).toBeCloseTo(1.02, 1)
+    })
+
+    it('should report issues as validation service errors', () => {
+      const [issue] = validator.validate(polygon(field.slice(0, -1))).issues
+
+      expect(issue).toMatchObject({
+        type: 'VALIDATION_ERROR',
+        code: 'RING_NOT_CLOSED',
+        severity: 'error',
+        fixable: true,
+        resource: 'plots.geometry',
+        location: { part: 0, ring: 0 }
+      })
+    })
+
+    it('should reject malformed geometry', () => {
+      expect(codes({ type: 'Polygon', coordinates: [] })).toEqual(['INVALID_STRUCTURE'])
+      expect(codes(polygon([[200, 0], [1, 0], [1, 1], [200, 0]]))).toEqual(['INVALID_STRUCTURE'])
+    })
+
+    it('should require three distinct points', () => {
+      const result = validator.validate(polygon([[75.85, 30.9], [75.851, 30.9], [75.851, 30.9], [75.85, 30.9]]))
+
+      expect(result.valid).toBe(false)
+      expect(result.issues.map(issue => issue.code)).toContain('TOO_FEW_POINTS')
+    })
+
+    it('should warn about duplicate vertices', () => {
+      const sloppy = [field[0], field[1], field[1], field[2], field[3], field[4]]
+      const result = validator.validate(polygon(sloppy))
+
+      expect(result.valid).toBe(true)
+      expect(result.issues).toEqual([
+        expect.objectContaining({ code: 'DUPLICATE_VERTEX', severity: 'warning', location: { part: 0, ring: 0, vertex: 2 } })
+      ])
+    })
+
+    it('should warn about clockwise outer rings', () => {
+      expect(codes(polygon([...field].reverse()))).toEqual(['WRONG_WINDING'])
+    })
+
+    it('should detect self-intersections', () => {
+      const bowtie = [[75.85, 30.9], [75.851, 30.901], [75.851, 30.9], [75.85, 30.901], [75.85, 30.9]]
+      expect(codes(polygon(bowtie))).toContain('SELF_INTERSECTION')
+    })
+
+    it('should detect spikes from GPS excursions', () => {
+      const spiky = [field[0], field[1], [75.853, 30.90051], field[1], field[2], field[3], field[4]]
+      expect(codes(polygon(spiky))).toContain('SPIKE')
+    })
+
+    it('should reject rings without area', () => {
+      // Three fixes along a meridian, as from a trace that never left the track
+      const line = [[75.85, 30.9], [75.85, 30.901], [75.85, 30.902], [75.85, 30.9]]
+      expect(codes(polygon(line))).toContain('ZERO_AREA')
+    })
+
+    it('should check holes against the outer ring', () => {
+      const pond = [[75.8502, 30.9002], [75.8502, 30.9004], [75.8504, 30.9004], [75.8504, 30.9002], [75.8502, 30.9002]]
+      const outside = [[75.86, 30.91], [75.86, 30.911], [75.861, 30.911], [75.861, 30.91], [75.86, 30.91]]
+
+      expect(validator.validate(polygon(field, pond)).valid).toBe(true)
+      expect(codes(polygon(field, outside))).toContain('HOLE_OUTSIDE_SHELL')
+    })
+
+    it('should enforce area limits', () => {
+      expect(codes(polygon(field), false)).toEqual([])
+      expect(validator.validate(polygon(field), { minAreaHectares: 5 }).issues[0].code).toBe('AREA_TOO_SMALL')
+      expect(validator.validate(polygon(field), { maxAreaHectares: 0.5 }).issues[0].code).toBe('AREA_TOO_LARGE')
+    })
+
+    it('should name the part of a multipolygon in messages', () => {
+      const result = validator.validate({
+        type: 'MultiPolygon',
+        coordinates: [[field], [field.slice(0, -1)]]
+      })
+
+      expect(result.issues[0].message).toBe('Polygon of part 2 must be closed (first and last points must be the same)')
+      expect(result.issues[0].location).toEqual({ part: 1, ring: 0 })
+    })
+  })
+
+  describe('auto-fix', () => {
+    it('should close rings, drop spikes and duplicates, and rewind', () => {
+      const sloppy = [field[3], field[2], field[2], field[1], [75.853, 30.90051], field[1], field[0]]
+      const result = validator.validate(polygon(sloppy), { autoFix: true })
+
+      expect(result.valid).toBe(true)
+      expect(result.repaired).toBe(true)
+      expect(result.issues).toEqual([])
+      expect((result.geometry as GeoJSON.Polygon).coordinates[0]).toHaveLength(5)
+      expect(result.area_hectares).toBeCloseTo(1.02, 1)
+    })
+
+    it('should wind holes clockwise', () => {
+      const pond = [[75.8502, 30.9002], [75.8504, 30.9002], [75.8504, 30.9004], [75.8502, 30.9004], [75.8502, 30.9002]]
+      const result = validator.validate(polygon(field, pond), { autoFix: true })
+
+      expect(result.repaired).toBe(true)
+      expect((result.geometry as GeoJSON.Polygon).coordinates[1]).toEqual([...pond].reverse())
+    })
+
+    it('should leave self-intersections for the user to fix', () => {
+      const bowtie = [[75.85, 30.9], [75.851, 30.901], [75.851, 30.9], [75.85, 30.901], [75.85, 30.9]]
+      const result = validator.validate(polygon(bowtie), { autoFix: true })
+
+      expect(result.valid).toBe(false)
+      expect(result.issues.map(issue => issue.code)).toContain('SELF_INTERSECTION')
+    })
+  })
+})
+
+describe('SupabasePlotService geometry validation', () => {
+  const plotService = new SupabasePlotService()
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('should reject invalid geometry before calling Supabase', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+
+    await expect(plotService.createPlot({
+      user_id: 'user-1',
+      name: 'North field',
+      area_hectares: 0,
+      geometry: { type: 'Polygon', coordinates: [[[75.85, 30.9], [75.851, 30.9], [75.851, 30.901]]] }
+    })).rejects.toThrow('Invalid plot geometry: Polygon must be closed')
+
+    expect(supabase.from).not.toHaveBeenCalled()
+  })
+
+  it('should summarise validation for callers of validatePlotGeometry', () => {
+    const result = plotService.validatePlotGeometry({
+      type: 'Polygon',
+      coordinates: [[[75.85, 30.9], [75.851, 30.9], [75.851, 30.901], [75.85, 30.901]]]
+    })
+
+    expect(result.isValid).toBe(false)
+    expect(result.errors).toEqual(['Polygon must be closed (first and last points must be the same)'])
+  })
+})
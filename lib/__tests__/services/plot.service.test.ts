@@ -0,0 +1,370 @@
+// Test suite for Plot Service
+
+import { SupabasePlotService } from '../../services/plot.service'
+import { supabase } from '../../supabase/client'
+import { PlotGeometry } from '../../types'
+
+// Mock Supabase client
+jest.mock('../../supabase/client', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn()
+  }
+}))
+
+describe('SupabasePlotService', () => {
+  let plotService: SupabasePlotService
+  const mockSupabase = supabase as jest.Mocked<typeof supabase>
+
+  const eastField: PlotGeometry = {
+    type: 'Polygon',
+    coordinates: [[[75.851005, 30.9], [75.852, 30.9], [75.852, 30.901], [75.851005, 30.901], [75.851005, 30.9]]]
+  }
+
+  const westField = {
+    id: 'plot-west',
+    user_id: 'user-1',
+    name: 'West field',
+    geometry: 'SRID=4326;POLYGON((75.85 30.9, 75.851 30.9, 75.851 30.901, 75.85 30.901, 75.85 30.9))',
+    area_hectares: 1.02,
+    is_active: true,
+    crops: []
+  }
+
+  beforeEach(() => {
+    plotService = new SupabasePlotService()
+    jest.clearAllMocks()
+  })
+
+  describe('detectPlotOverlaps', () => {
+    it('should split overlapping and adjacent plots', async () => {
+      mockSupabase.rpc.mockResolvedValue({
+        data: [
+          {
+            plot_id: 'plot-north',
+            plot_name: 'North field',
+            relation: 'overlap',
+            overlap_area_hectares: 0.25,
+            overlap_geometry: {
+              type: 'MultiPolygon',
+              coordinates: [[[[75.8515, 30.9005], [75.852, 30.9005], [75.852, 30.901], [75.8515, 30.9005]]]]
+            },
+            shared_boundary_meters: 0
+          },
+          {
+            plot_id: 'plot-west',
+            plot_name: 'West field',
+            relation: 'adjacent',
+            overlap_area_hectares: 0,
+            overlap_geometry: null,
+            shared_boundary_meters: 110.6
+          }
+        ],
+        error: null
+      } as any)
+
+      const report = await plotService.detectPlotOverlaps('user-1', eastField, 'plot-east')
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('find_plot_overlaps', {
+        p_user_id: 'user-1',
+        geom_wkt: expect.stringMatching(/^POLYGON\(\(75.851005 30.9/),
+        exclude_plot_id: 'plot-east',
+        tolerance_meters: 1
+      })
+      expect(report.overlaps).toHaveLength(1)
+      expect(report.overlaps[0].overlap_geometry.type).toBe('MultiPolygon')
+      expect(report.total_overlap_hectares).toBe(0.25)
+      expect(report.adjacent).toEqual([
+        { plot_id: 'plot-west', plot_name: 'West field', shared_boundary_meters: 110.6 }
+      ])
+    })
+
+    it('should report an empty result for an isolated plot', async () => {
+      mockSupabase.rpc.mockResolvedValue({ data: [], error: null } as any)
+
+      const report = await plotService.detectPlotOverlaps('user-1', eastField)
+
+      expect(report).toEqual({ overlaps: [], adjacent: [], total_overlap_hectares: 0 })
+    })
+
+    it('should throw when the query fails', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+      mockSupabase.rpc.mockResolvedValue({ data: null, error: { message: 'permission denied' } } as any)
+
+      await expect(plotService.detectPlotOverlaps('user-1', eastField))
+        .rejects.toThrow('Failed to detect plot overlaps: permission denied')
+    })
+  })
+
+  describe('snapToNeighbourEdges', () => {
+    const mockPlotsQuery = (plots: any[]) => {
+      mockSupabase.from.mockReturnValue({
+        select: jest.fn(() => ({
+          eq: jest.fn(() => ({
+            eq: jest.fn(() => ({
+              order: jest.fn().mockResolvedValue({ data: plots, error: null })
+            }))
+          }))
+        }))
+      } as any)
+    }
+
+    it("should snap onto the user's other plots", async () => {
+      mockPlotsQuery([westField])
+
+      const result = await plotService.snapToNeighbourEdges('user-1', eastField)
+
+      expect(mockSupabase.from).toHaveBeenCalledWith('plots')
+      expect(result.snappedVertices).toBe(2)
+      expect((result.geometry as GeoJSON.Polygon).coordinates[0][0]).toEqual([75.851, 30.9])
+    })
+
+    it('should not snap a plot onto itself', async () => {
+      mockPlotsQuery([westField])
+
+      const result = await plotService.snapToNeighbourEdges('user-1', eastField, { excludePlotId: 'plot-west' })
+
+      expect(result.snappedVertices).toBe(0)
+      expect(result.geometry).toBe(eastField)
+    })
+  })
+  describe('splitPlot', () => {
+    const line: GeoJSON.LineString = {
+      type: 'LineString',
+      coordinates: [[75.8505, 30.8995], [75.8505, 30.9015]]
+    }
+
+    const mockPlotsById = (plots: any[]) => {
+      const inFilter = jest.fn().mockResolvedValue({ data: plots, error: null })
+      mockSupabase.from.mockReturnValue({
+        select: jest.fn(() => ({ in: inFilter }))
+      } as any)
+      return inFilter
+    }
+
+    it('should split through the RPC and return the new plots largest first', async () => {
+      mockSupabase.rpc.mockResolvedValue({ data: ['plot-b', 'plot-a'], error: null } as any)
+      const inFilter = mockPlotsById([
+        { ...westField, id: 'plot-a', name: 'West field (2)' },
+        { ...westField, id: 'plot-b', name: 'West field (1)' }
+      ])
+
+      const plots = await plotService.splitPlot('plot-west', line)
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('split_plot', {
+        p_plot_id: 'plot-west',
+        blade_wkt: 'LINESTRING(75.8505 30.8995, 75.8505 30.9015)',
+        piece_names: null
+      })
+      expect(inFilter).toHaveBeenCalledWith('id', ['plot-b', 'plot-a'])
+      expect(plots.map(plot => plot.id)).toEqual(['plot-b', 'plot-a'])
+    })
+
+    it('should split a plot with allocated crops in one call', async () => {
+      // The database hands each crop with a drawn area to the piece holding
+      // most of it, so there is nothing left to move afterwards
+      mockSupabase.rpc.mockResolvedValue({ data: ['plot-b', 'plot-a'], error: null } as any)
+      mockPlotsById([
+        { ...westField, id: 'plot-a', name: 'West field (2)' },
+        { ...westField, id: 'plot-b', name: 'West field (1)' }
+      ])
+
+      const plots = await plotService.splitPlot('plot-west', line, ['Maize', 'Beans'])
+
+      expect(mockSupabase.rpc).toHaveBeenCalledTimes(1)
+      expect(mockSupabase.from).not.toHaveBeenCalledWith('crops')
+      expect(plots.map(plot => plot.name)).toEqual(['West field (1)', 'West field (2)'])
+    })
+
+    it('should pass piece names through', async () => {
+      mockSupabase.rpc.mockResolvedValue({ data: [], error: null } as any)
+
+      await plotService.splitPlot('plot-west', line, ['Maize', 'Beans'])
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('split_plot', expect.objectContaining({
+        piece_names: ['Maize', 'Beans']
+      }))
+    })
+
+    it('should reject a line with a single point', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+
+      await expect(plotService.splitPlot('plot-west', { type: 'LineString', coordinates: [[75.85, 30.9]] }))
+        .rejects.toThrow('Split line must be a LineString with at least 2 points')
+      expect(mockSupabase.rpc).not.toHaveBeenCalled()
+    })
+
+    it('should surface database errors', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+      mockSupabase.rpc.mockResolvedValue({ data: null, error: { message: 'Split line does not cross the plot' } } as any)
+
+      await expect(plotService.splitPlot('plot-west', line))
+        .rejects.toThrow('Failed to split plot: Split line does not cross the plot')
+    })
+  })
+
+  describe('mergePlots', () => {
+    it('should merge through the RPC and return the merged plot', async () => {
+      mockSupabase.rpc.mockResolvedValue({ data: 'plot-merged', error: null } as any)
+      mockSupabase.from.mockReturnValue({
+        select: jest.fn(() => ({
+          eq: jest.fn(() => ({
+            single: jest.fn().mockResolvedValue({ data: { ...westField, id: 'plot-merged' }, error: null })
+          }))
+        }))
+      } as any)
+
+      const plot = await plotService.mergePlots(['plot-west', 'plot-east', 'plot-west'], 'Home farm')
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('merge_plots', {
+        p_plot_ids: ['plot-west', 'plot-east'],
+        merged_name: 'Home farm'
+      })
+      expect(plot.id).toBe('plot-merged')
+    })
+
+    it('should need at least two distinct plots', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+
+      await expect(plotService.mergePlots(['plot-west', 'plot-west']))
+        .rejects.toThrow('At least two plots are needed to merge')
+      expect(mockSupabase.rpc).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('resolvePlotIds', () => {
+    const edge = (operation: string, parent: string, child: string) => ({
+      id: `${parent}-${child}`,
+      user_id: 'user-1',
+      operation,
+      parent_plot_id: parent,
+      child_plot_id: child,
+      created_at: '2024-03-01T00:00:00Z'
+    })
+
+    it('should follow splits and merges to the current plots', async () => {
+      // original -> a + b, then b + other -> merged
+      mockSupabase.rpc.mockResolvedValue({
+        data: [
+          edge('split', 'original', 'a'),
+          edge('split', 'original', 'b'),
+          edge('merge', 'b', 'merged'),
+          edge('merge', 'other', 'merged')
+        ],
+        error: null
+      } as any)
+
+      const ids = await plotService.resolvePlotIds('original')
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('get_plot_lineage', { p_plot_id: 'original' })
+      expect(ids.sort()).toEqual(['a', 'merged'])
+    })
+
+    it('should resolve a plot without lineage to itself', async () => {
+      mockSupabase.rpc.mockResolvedValue({ data: [], error: null } as any)
+
+      expect(await plotService.resolvePlotIds('plot-west')).toEqual(['plot-west'])
+    })
+  })
+  describe('getPlotsWithinRadius', () => {
+    it('should query the radius RPC and keep the distance', async () => {
+      mockSupabase.rpc.mockResolvedValue({
+        data: [{ ...westField, distance_meters: 0 }, { ...westField, id: 'plot-far', distance_meters: 1840.5 }],
+        error: null
+      } as any)
+
+      const plots = await plotService.getPlotsWithinRadius({ latitude: 30.9005, longitude: 75.8505 }, 5)
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('get_plots_within_radius', {
+        latitude: 30.9005,
+        longitude: 75.8505,
+        radius_km: 5,
+        p_user_id: null,
+        limit_count: 50
+      })
+      expect(plots.map(plot => plot.distance_meters)).toEqual([0, 1840.5])
+      expect(plots[0].geometry.type).toBe('Polygon')
+    })
+
+    it('should reject a non-positive radius', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+
+      await expect(plotService.getPlotsWithinRadius({ latitude: 30.9, longitude: 75.85 }, 0))
+        .rejects.toThrow('Radius must be greater than 0')
+      expect(mockSupabase.rpc).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('getPlotsInBoundingBox', () => {
+    const viewport = { north: 30.91, south: 30.89, east: 75.86, west: 75.84 }
+
+    it('should request the page and report whether more remain', async () => {
+      mockSupabase.rpc.mockResolvedValue({
+        data: [{ ...westField, total_count: 5 }, { ...westField, id: 'plot-2', total_count: 5 }],
+        error: null
+      } as any)
+
+      const result = await plotService.getPlotsInBoundingBox(viewport, { userId: 'user-1', page: 2, pageSize: 2 })
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('get_plots_in_bbox', {
+        west: 75.84,
+        south: 30.89,
+        east: 75.86,
+        north: 30.91,
+        p_user_id: 'user-1',
+        page_size: 2,
+        page_offset: 2
+      })
+      expect(result).toMatchObject({ page: 2, pageSize: 2, total: 5, hasMore: true })
+      expect(result.plots).toHaveLength(2)
+    })
+
+    it('should report the last page', async () => {
+      mockSupabase.rpc.mockResolvedValue({ data: [{ ...westField, total_count: 5 }], error: null } as any)
+
+      const result = await plotService.getPlotsInBoundingBox(viewport, { page: 3, pageSize: 2 })
+
+      expect(result.hasMore).toBe(false)
+    })
+
+    it('should reject an inverted bounding box', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+
+      await expect(plotService.getPlotsInBoundingBox({ ...viewport, south: 31, north: 30 }))
+        .rejects.toThrow('Invalid bounding box')
+    })
+
+    it('should load every page for getPlotsInBounds', async () => {
+      mockSupabase.rpc
+        .mockResolvedValueOnce({
+          data: Array.from({ length: 500 }, (_, i) => ({ ...westField, id: `plot-${i}`, total_count: 501 })),
+          error: null
+        } as any)
+        .mockResolvedValueOnce({ data: [{ ...westField, id: 'plot-500', total_count: 501 }], error: null } as any)
+
+      const plots = await plotService.getPlotsInBounds('user-1', viewport)
+
+      expect(mockSupabase.rpc).toHaveBeenCalledTimes(2)
+      expect(plots).toHaveLength(501)
+    })
+  })
+
+  describe('getNearestClanPlots', () => {
+    it("should return clan members' plots with their owners", async () => {
+      mockSupabase.rpc.mockResolvedValue({
+        data: [{ ...westField, user_id: 'user-2', owner_name: 'Gurpreet', distance_meters: 320 }],
+        error: null
+      } as any)
+
+      const plots = await plotService.getNearestClanPlots('user-1', { latitude: 30.9, longitude: 75.85 }, 5)
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('get_nearest_clan_plots', {
+        p_user_id: 'user-1',
+        latitude: 30.9,
+        longitude: 75.85,
+        limit_count: 5
+      })
+      expect(plots[0]).toMatchObject({ owner_name: 'Gurpreet', distance_meters: 320, user_id: 'user-2' })
+    })
+  })
+})
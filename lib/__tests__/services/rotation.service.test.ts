@@ -0,0 +1,117 @@
+// Test suite for the Crop Rotation Planner
+
+import { RotationPlannerService } from '../../services/rotation.service'
+import { CropService, PlotService } from '../../services/interfaces'
+import { Crop, Plot } from '../../types'
+
+// Mock Supabase client
+jest.mock('../../supabase/client', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn()
+  }
+}))
+
+describe('RotationPlannerService', () => {
+  let plannerService: RotationPlannerService
+  let plotService: jest.Mocked<Pick<PlotService, 'getPlots'>>
+  let cropService: jest.Mocked<Pick<CropService, 'getCrops'>>
+
+  const plot = (id: string, name: string, overrides: Partial<Plot> = {}): Plot => ({
+    id,
+    user_id: 'user-1',
+    name,
+    geometry: { type: 'Polygon', coordinates: [] },
+    area_hectares: 1,
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+    ...overrides
+  })
+
+  const crop = (id: string, plotId: string, name: string, sownDate: string): Crop => ({
+    id,
+    plot_id: plotId,
+    name,
+    sown_date: sownDate,
+    status: 'harvested',
+    growth_stage: 'mature',
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z'
+  })
+
+  beforeEach(() => {
+    plotService = { getPlots: jest.fn() }
+    cropService = { getCrops: jest.fn() }
+    plannerService = new RotationPlannerService(
+      plotService as unknown as PlotService,
+      cropService as unknown as CropService
+    )
+    jest.clearAllMocks()
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  describe('planNextSeason', () => {
+    it('should propose crops for the next season on each active plot', async () => {
+      jest.useFakeTimers().setSystemTime(new Date('2024-07-15T00:00:00Z'))
+      plotService.getPlots.mockResolvedValue([
+        plot('plot-1', 'North'),
+        plot('plot-2', 'South'),
+        plot('plot-3', 'Old orchard', { is_active: false })
+      ])
+      cropService.getCrops.mockImplementation(async plotId => plotId === 'plot-1'
+        ? [crop('c1', 'plot-1', 'moong', '2024-04-05'), crop('c0', 'plot-1', 'potatoes', '2023-11-10')]
+        : [crop('c2', 'plot-2', 'wheat', '2023-11-20')])
+
+      const plan = await plannerService.planNextSeason('user-1', { alternatives: 2 })
+
+      expect(plan.season).toBe('2024-25 rabi')
+      expect(cropService.getCrops).not.toHaveBeenCalledWith('plot-3')
+      expect(plan.assignments).toHaveLength(2)
+
+      const [north, south] = plan.assignments
+      expect(north.previous_crop).toEqual({ id: 'c1', name: 'moong', season: '2024 zaid' })
+      // The moong credit favours a cereal; wheat is first among equals
+      expect(north.proposal).toMatchObject({ crop_name: 'wheat', score: 100 })
+      expect(north.proposal!.credits).toHaveLength(1)
+      expect(north.alternatives.map(alternative => alternative.crop_name)).toEqual(['corn', 'mustard'])
+
+      // Wheat already went to the north plot, so the south plot gets another crop
+      expect(south.proposal!.crop_name).not.toBe('wheat')
+      expect(south.proposal!.score).toBe(100)
+      expect(plan.average_score).toBe(100)
+    })
+
+    it('should only consider the named candidates', async () => {
+      plotService.getPlots.mockResolvedValue([plot('plot-1', 'North')])
+      cropService.getCrops.mockResolvedValue([crop('c1', 'plot-1', 'tomatoes', '2024-06-20')])
+
+      const plan = await plannerService.planNextSeason('user-1', {
+        season: '2024-25 rabi',
+        candidates: ['peppers', 'chickpea']
+      })
+
+      expect(plan.assignments[0].proposal).toMatchObject({ crop_name: 'chickpea', score: 100 })
+      expect(plan.assignments[0].alternatives[0]).toMatchObject({ crop_name: 'peppers', score: 50 })
+    })
+
+    it('should reject unknown seasons', async () => {
+      await expect(plannerService.planNextSeason('user-1', { season: 'monsoon' }))
+        .rejects.toThrow('Unknown season: monsoon')
+    })
+  })
+
+  describe('evaluateCrop', () => {
+    it('should check a crop against the plot history', async () => {
+      cropService.getCrops.mockResolvedValue([crop('c1', 'plot-1', 'cucumber', '2024-04-10')])
+
+      const evaluation = await plannerService.evaluateCrop('plot-1', 'okra', '2024 kharif')
+
+      expect(cropService.getCrops).toHaveBeenCalledWith('plot-1')
+      expect(evaluation.issues.map(issue => issue.code)).toEqual(['DISEASE_BREAK'])
+    })
+  })
+})
@@ -0,0 +1,188 @@
+// Test suite for Soil Service
+
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { SupabaseSoilService } from '../../services/soil.service'
+import { supabase } from '../../supabase/client'
+
+// Mock Supabase client
+jest.mock('../../supabase/client', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn()
+  }
+}))
+
+const fixture = (name: string) => readFileSync(join(__dirname, '../fixtures/soil', name), 'utf8')
+
+describe('SupabaseSoilService', () => {
+  let soilService: SupabaseSoilService
+  const mockSupabase = supabase as jest.Mocked<typeof supabase>
+
+  // Echo inserted rows back the way PostgREST returns them (decimals as strings)
+  const mockInsert = () => {
+    const insert = jest.fn((row: any) => ({
+      select: jest.fn(() => ({
+        single: jest.fn().mockResolvedValue({
+          data: { ...row, id: `test-${row.sample_id}`, ph: row.ph === undefined ? null : String(row.ph), created_at: '2024-07-01T00:00:00Z' },
+          error: null
+        })
+      }))
+    }))
+    mockSupabase.from.mockReturnValue({ insert } as any)
+    return insert
+  }
+
+  const mockHistory = (rows: any[]) => {
+    mockSupabase.from.mockReturnValue({
+      select: jest.fn(() => ({
+        eq: jest.fn(() => ({
+          order: jest.fn().mockResolvedValue({ data: rows, error: null })
+        }))
+      }))
+    } as any)
+  }
+
+  beforeEach(() => {
+    soilService = new SupabaseSoilService()
+    jest.clearAllMocks()
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  describe('importSoilTestsCsv', () => {
+    it('should convert a Soil Health Card export into our units', async () => {
+      const result = await soilService.importSoilTestsCsv('plot-1', fixture('soil-health-card.csv'), { dryRun: true })
+
+      expect(mockSupabase.from).not.toHaveBeenCalled()
+      expect(result).toMatchObject({ dryRun: true, total: 5, succeeded: 4, failed: 1, unmappedColumns: [] })
+
+      const first = result.rows[0].test!
+      expect(first).toMatchObject({
+        plot_id: 'plot-1',
+        sampled_at: '2021-05-15',
+        sample_id: 'PB-LDH-1021',
+        ph: 8.1,
+        ec_ds_m: 0.42,
+        organic_carbon_pct: 0.38,
+        nitrogen_kg_ha: 196,
+        notes: 'Pre-kharif, canal side'
+      })
+      expect(first.phosphorus_kg_ha).toBeCloseTo(38.4 * 0.4364, 2) // P2O5 to P
+      expect(first.potassium_kg_ha).toBeCloseTo(260 * 0.8301, 2) // K2O to K
+      expect(first.micronutrients).toEqual({ sulphur: 12.5, zinc: 0.52, iron: 6.1, copper: 0.44, manganese: 5.2, boron: 0.61 })
+    })
+
+    it('should flag values below the detection limit and reject impossible dates', async () => {
+      const result = await soilService.importSoilTestsCsv('plot-1', fixture('soil-health-card.csv'), { dryRun: true })
+
+      expect(result.rows[3].status).toBe('valid')
+      expect(result.rows[3].test!.micronutrients.sulphur).toBe(10)
+      expect(result.rows[3].warnings).toEqual(['sulphur reported as "<10"; using 10'])
+
+      expect(result.rows[4]).toMatchObject({ row: 6, status: 'failed', errors: ['Invalid sampling date: "31/02/2024"'] })
+    })
+
+    it('should read semicolon exports with decimal commas, ppm and organic matter', async () => {
+      const result = await soilService.importSoilTestsCsv('plot-2', fixture('lab-export-semicolon.csv'), { dryRun: true })
+
+      expect(result.succeeded).toBe(2)
+      const first = result.rows[0].test!
+      expect(first).toMatchObject({ sample_id: 'NKR-88', sampled_at: '2023-03-14', ph: 5.2, notes: 'Upper terrace; acidic' })
+      expect(first.ec_ds_m).toBeCloseTo(0.18, 3)
+      expect(first.organic_carbon_pct).toBeCloseTo(3.1 / 1.724, 2)
+      expect(first.nitrogen_kg_ha).toBeCloseTo(22 * 2.24, 2)
+      expect(first.phosphorus_kg_ha).toBeCloseTo(6 * 2.24, 2)
+      expect(first.micronutrients).toEqual({})
+      expect(result.rows[1].test!.micronutrients.zinc).toBe(0.9)
+    })
+
+    it('should save valid rows and report failed ones', async () => {
+      const insert = mockInsert()
+
+      const result = await soilService.importSoilTestsCsv('plot-1', fixture('soil-health-card.csv'))
+
+      expect(insert).toHaveBeenCalledTimes(4)
+      expect(result.rows.map(row => row.status)).toEqual(['created', 'created', 'created', 'created', 'failed'])
+      expect((result.rows[0].test as any).id).toBe('test-PB-LDH-1021')
+      expect(result.rows[0].test!.ph).toBe(8.1)
+    })
+
+    it('should honour month-first dates', async () => {
+      const csv = 'Date,pH\n05/15/2021,6.8\n'
+
+      const result = await soilService.importSoilTestsCsv('plot-1', csv, { dryRun: true, dateFormat: 'MDY' })
+
+      expect(result.rows[0].test!.sampled_at).toBe('2021-05-15')
+    })
+
+    it('should require a sampling date column', async () => {
+      await expect(soilService.importSoilTestsCsv('plot-1', 'pH,EC\n6.5,0.3\n'))
+        .rejects.toThrow('CSV file has no sampling date column')
+    })
+
+    it('should list columns it does not recognise', async () => {
+      const csv = 'Date,pH,Texture,OC (g/100g)\n2023-01-10,6.5,loam,0.6\n'
+
+      const result = await soilService.importSoilTestsCsv('plot-1', csv, { dryRun: true })
+
+      expect(result.unmappedColumns).toEqual(['Texture', 'OC (g/100g)'])
+    })
+  })
+
+  describe('addSoilTest', () => {
+    it('should reject a test without measurements', async () => {
+      await expect(soilService.addSoilTest({ plot_id: 'plot-1', sampled_at: '2024-01-10', micronutrients: {} }))
+        .rejects.toThrow('Invalid soil test: Soil test has no measurements')
+      expect(mockSupabase.from).not.toHaveBeenCalled()
+    })
+
+    it('should reject an impossible pH', async () => {
+      await expect(soilService.addSoilTest({ plot_id: 'plot-1', sampled_at: '2024-01-10', ph: 15, micronutrients: {} }))
+        .rejects.toThrow('pH must be between 0 and 14')
+    })
+
+    it('should explain a test that was already recorded', async () => {
+      mockSupabase.from.mockReturnValue({
+        insert: jest.fn(() => ({
+          select: jest.fn(() => ({
+            single: jest.fn().mockResolvedValue({ data: null, error: { code: '23505', message: 'duplicate key value' } })
+          }))
+        }))
+      } as any)
+
+      await expect(soilService.addSoilTest({ plot_id: 'plot-1', sampled_at: '2024-01-10', ph: 7.2, micronutrients: {} }))
+        .rejects.toThrow('A soil test sampled on 2024-01-10 is already recorded for this plot')
+    })
+  })
+
+  describe('getSoilTrends', () => {
+    const history = [
+      { id: 't4', plot_id: 'plot-1', sampled_at: '2023-06-18', organic_carbon_pct: '0.52', phosphorus_kg_ha: '10.5', ph: '7.9', micronutrients: { zinc: 0.83 } },
+      { id: 't3', plot_id: 'plot-1', sampled_at: '2022-06-02', organic_carbon_pct: '0.47', phosphorus_kg_ha: '12.0', ph: '7.9', micronutrients: { zinc: 0.71 } },
+      { id: 't2', plot_id: 'plot-1', sampled_at: '2021-11-20', organic_carbon_pct: '0.41', phosphorus_kg_ha: '13.6', ph: '8.0', micronutrients: {} },
+      { id: 't1', plot_id: 'plot-1', sampled_at: '2021-07-01', organic_carbon_pct: '0.36', phosphorus_kg_ha: '16.8', ph: '8.1', micronutrients: {} },
+      { id: 't0', plot_id: 'plot-1', sampled_at: '2021-06-10', organic_carbon_pct: '0.40', phosphorus_kg_ha: '16.6', ph: '8.1', micronutrients: {} }
+    ]
+
+    it('should average samples per season and report the direction', async () => {
+      mockHistory(history)
+
+      const trends = await soilService.getSoilTrends('plot-1', ['organic_carbon_pct', 'phosphorus_kg_ha', 'ph', 'zinc', 'nitrogen_kg_ha'])
+      const byParameter = Object.fromEntries(trends.map(trend => [trend.parameter, trend]))
+
+      expect(trends.map(trend => trend.parameter)).toEqual(['organic_carbon_pct', 'phosphorus_kg_ha', 'ph', 'zinc'])
+
+      const carbon = byParameter.organic_carbon_pct
+      expect(carbon.points.map(point => point.season)).toEqual(['2021 kharif', '2021-22 rabi', '2022 kharif', '2023 kharif'])
+      expect(carbon.points[0]).toMatchObject({ samples: 2, sampled_at: '2021-07-01' })
+      expect(carbon.points[0].value).toBeCloseTo(0.38, 5)
+      expect(carbon.direction).toBe('rising')
+      expect(carbon.change).toBeCloseTo(0.14, 5)
+      expect(carbon.change_per_year).toBeGreaterThan(0)
+
+      expect(byParameter.phosphorus_kg_ha.direction).toBe('falling')
+      expect(byParameter.ph.direction).toBe('stable')
+      expect(byParameter.zinc.points).toHaveLength(2)
+    })
+  })
+})
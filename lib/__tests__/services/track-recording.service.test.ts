@@ -0,0 +1,133 @@
+// Test suite for walk-the-boundary track recording
+
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { TrackRecordingService } from '../../services/track-recording.service'
+import { GPSFix } from '../../types'
+import { simplifyPath } from '../../utils/simplify'
+
+interface TrackFixture {
+  description: string
+  true_area_hectares: number
+  fixes: GPSFix[]
+}
+
+// Recorded walks around fields of known size
+const loadTrack = (name: string): TrackFixture =>
+  JSON.parse(readFileSync(join(__dirname, '../fixtures/tracks', `${name}.json`), 'utf8'))
+
+describe('TrackRecordingService', () => {
+  let recorder: TrackRecordingService
+
+  beforeEach(() => {
+    recorder = new TrackRecordingService()
+  })
+
+  describe('recorded tracks', () => {
+    it.each(['punjab-rectangle', 'nakuru-pentagon'])('should recover the field area from %s', name => {
+      const track = loadTrack(name)
+      recorder.addFixes(track.fixes)
+
+      const result = recorder.buildPolygon()
+
+      expect(Math.abs(result.area_hectares - track.true_area_hectares)).toBeLessThan(result.area_error_hectares)
+      expect(result.area_error_hectares).toBeLessThan(track.true_area_hectares * 0.25)
+      expect(result.geometry.coordinates[0].length).toBeLessThan(track.fixes.length / 5)
+    })
+
+    it('should drop the slow first fix, the multipath jump and the low-accuracy fix', () => {
+      const track = loadTrack('punjab-rectangle')
+      const results = recorder.addFixes(track.fixes)
+
+      expect(results.slice(0, 5).map(result => result.reason)).toEqual([
+        'low_accuracy', 'low_accuracy', 'low_accuracy', undefined, 'duplicate'
+      ])
+      expect(results[40]).toEqual({ accepted: false, reason: 'too_fast' })
+      expect(results[90]).toEqual({ accepted: false, reason: 'low_accuracy' })
+
+      // Of the fixes taken while standing at the gate, the most accurate is kept
+      const atGate = track.fixes.slice(3, 6).map(fix => fix.accuracy)
+      expect(recorder.getAcceptedFixes()[0].accuracy).toBe(Math.min(...atGate))
+    })
+
+    it('should close a track that ends short of the start', () => {
+      const track = loadTrack('nakuru-pentagon')
+      recorder.addFixes(track.fixes)
+
+      const result = recorder.buildPolygon()
+      const ring = result.geometry.coordinates[0]
+
+      expect(result.closing_gap_meters).toBeGreaterThan(5)
+      expect(result.warnings).toEqual([])
+      expect(ring[0]).toEqual(ring[ring.length - 1])
+    })
+
+    it('should report fix statistics', () => {
+      const track = loadTrack('punjab-rectangle')
+      recorder.addFixes(track.fixes)
+
+      const { fixes } = recorder.buildPolygon()
+
+      expect(fixes.total).toBe(track.fixes.length)
+      expect(fixes.accepted + Object.values(fixes.rejected).reduce((a, b) => a + b, 0)).toBe(fixes.total)
+      expect(fixes.rejected.too_fast).toBe(1)
+    })
+  })
+
+  describe('addFix', () => {
+    const fix = (latitude: number, longitude: number, seconds: number, accuracy = 5): GPSFix => ({
+      latitude,
+      longitude,
+      accuracy,
+      timestamp: new Date(Date.UTC(2025, 0, 1, 6, 0, seconds)).toISOString()
+    })
+
+    it('should reject fixes that arrive out of order', () => {
+      recorder.addFix(fix(30.9, 75.85, 10))
+      expect(recorder.addFix(fix(30.90001, 75.85, 5))).toEqual({ accepted: false, reason: 'out_of_order' })
+    })
+
+    it('should re-anchor when the first accepted fix was the outlier', () => {
+      recorder.addFix(fix(30.901, 75.85, 0)) // ~110 m off
+      const results = [1, 2, 3, 4, 5].map(i => recorder.addFix(fix(30.9, 75.85 + i * 0.00002, i * 2)))
+
+      expect(results.map(result => result.accepted)).toEqual([false, false, false, false, true])
+      expect(recorder.getAcceptedFixes()).toHaveLength(1)
+      expect(recorder.getAcceptedFixes()[0].latitude).toBe(30.9)
+    })
+
+    it('should check a fix against the one before a dropped outlier', () => {
+      recorder.addFix(fix(30.9, 75.85, 0))
+      recorder.addFix(fix(30.9003, 75.85, 10)) // ~33 m north, plausible on its own
+      const results = [11, 12, 13, 14, 15].map(seconds => recorder.addFix(fix(30.9, 75.85, seconds)))
+
+      // Back where the walk started: the outlier goes, and the last fix
+      // duplicates the first
+      expect(results[4]).toEqual({ accepted: false, reason: 'duplicate' })
+      expect(recorder.getAcceptedFixes()).toHaveLength(1)
+    })
+
+    it('should measure the distance walked', () => {
+      recorder.addFixes([fix(30.9, 75.85, 0), fix(30.9001, 75.85, 10), fix(30.9002, 75.85, 20)])
+      expect(recorder.getDistanceWalked()).toBeCloseTo(22.2, 1)
+    })
+
+    it('should need at least three fixes to build a polygon', () => {
+      recorder.addFixes([fix(30.9, 75.85, 0), fix(30.9001, 75.85, 10)])
+      expect(() => recorder.buildPolygon()).toThrow('at least 3 accurate GPS fixes')
+    })
+
+    it('should start over after reset', () => {
+      recorder.addFix(fix(30.9, 75.85, 0))
+      recorder.reset()
+      expect(recorder.getAcceptedFixes()).toEqual([])
+    })
+  })
+})
+
+describe('simplifyPath', () => {
+  it('should keep only vertices beyond the tolerance', () => {
+    const path = [[0, 0], [1, 0.1], [2, -0.1], [3, 5], [4, 6], [5, 7]]
+    expect(simplifyPath(path, 0.5)).toEqual([[0, 0], [2, -0.1], [3, 5], [5, 7]])
+  })
+})
@@ -0,0 +1,96 @@
+// Test suite for XP Service
+
+import { SupabaseXPService } from '../../services/xp.service'
+import { supabase } from '../../supabase/client'
+
+// Mock Supabase client
+jest.mock('../../supabase/client', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn()
+  }
+}))
+
+describe('SupabaseXPService', () => {
+  let xpService: SupabaseXPService
+  const mockSupabase = supabase as jest.Mocked<typeof supabase>
+
+  beforeEach(() => {
+    xpService = new SupabaseXPService()
+    jest.clearAllMocks()
+  })
+
+  describe('awardXP', () => {
+    it('should add the XP through update_user_xp and return its log', async () => {
+      mockSupabase.rpc.mockResolvedValue({ data: [{ new_xp: 160, new_level: 2, level_up: true }], error: null } as any)
+      const query: any = {
+        eq: jest.fn(),
+        order: jest.fn(),
+        limit: jest.fn(),
+        single: jest.fn().mockResolvedValue({
+          data: { id: 'xp-1', user_id: 'user-1', action_type: 'crop_harvested', xp_awarded: 60, description: null, created_at: '2024-04-10T08:00:00Z' },
+          error: null
+        })
+      }
+      query.eq.mockReturnValue(query)
+      query.order.mockReturnValue(query)
+      query.limit.mockReturnValue(query)
+      mockSupabase.from.mockReturnValue({ select: jest.fn(() => query) } as any)
+
+      const log = await xpService.awardXP('user-1', 'crop_harvested', 60)
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('update_user_xp', {
+        user_id: 'user-1',
+        xp_amount: 60,
+        action_type: 'crop_harvested',
+        description: null
+      })
+      expect(log).toEqual({
+        id: 'xp-1',
+        user_id: 'user-1',
+        action_type: 'crop_harvested',
+        xp_awarded: 60,
+        description: undefined,
+        created_at: '2024-04-10T08:00:00Z'
+      })
+    })
+  })
+
+  describe('awardXPOnce', () => {
+    it('should award XP and save its key in one call', async () => {
+      mockSupabase.rpc.mockResolvedValue({ data: { xp_log_id: 'xp-1', xp_awarded: 60, applied: true }, error: null } as any)
+
+      const award = await xpService.awardXPOnce('crop-transition:t1:xp', 'user-1', 'crop_harvested', 60, 'Harvested wheat')
+
+      expect(mockSupabase.rpc).toHaveBeenCalledTimes(1)
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('award_xp_once', {
+        p_idempotency_key: 'crop-transition:t1:xp',
+        p_user_id: 'user-1',
+        p_xp_amount: 60,
+        p_action_type: 'crop_harvested',
+        p_description: 'Harvested wheat'
+      })
+      expect(award).toEqual({ xp_log_id: 'xp-1', xp_awarded: 60, applied: true })
+    })
+
+    it('should report an award made under the same key before', async () => {
+      mockSupabase.rpc.mockResolvedValue({ data: { xp_log_id: 'xp-1', xp_awarded: 60, applied: false }, error: null } as any)
+
+      const award = await xpService.awardXPOnce('crop-transition:t1:xp', 'user-1', 'crop_harvested', 60)
+
+      expect(award.applied).toBe(false)
+      expect(award.xp_awarded).toBe(60)
+    })
+
+    it('should fail while another run holds the key', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+      mockSupabase.rpc.mockResolvedValue({
+        data: null,
+        error: { message: 'crop-transition:t1:xp is already being applied' }
+      } as any)
+
+      await expect(xpService.awardXPOnce('crop-transition:t1:xp', 'user-1', 'crop_harvested', 60))
+        .rejects.toThrow('Failed to award XP for crop-transition:t1:xp: crop-transition:t1:xp is already being applied')
+    })
+  })
+})
@@ -0,0 +1,113 @@
+// Test suite for Yield Analytics Service
+
+import { YieldAnalyticsService } from '../../services/yield-analytics.service'
+import { HarvestService } from '../../services/interfaces'
+import { CropHarvestRecord } from '../../types'
+import { supabase } from '../../supabase/client'
+
+// Mock Supabase client
+jest.mock('../../supabase/client', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn()
+  }
+}))
+
+describe('YieldAnalyticsService', () => {
+  let analyticsService: YieldAnalyticsService
+  let harvestService: jest.Mocked<Pick<HarvestService, 'getUserHarvests'>>
+  const mockSupabase = supabase as jest.Mocked<typeof supabase>
+
+  const harvest = (overrides: Partial<CropHarvestRecord>): CropHarvestRecord => ({
+    id: 'harvest-1',
+    crop_id: 'crop-1',
+    plot_id: 'plot-1',
+    user_id: 'user-1',
+    harvested_at: '2024-04-10',
+    weight_kg: 2000,
+    area_hectares: 0.5,
+    created_at: '2024-04-10T00:00:00Z',
+    crop_name: 'wheat',
+    sown_date: '2023-11-15',
+    plot_name: 'North field',
+    ...overrides
+  })
+
+  beforeEach(() => {
+    harvestService = { getUserHarvests: jest.fn() }
+    analyticsService = new YieldAnalyticsService(harvestService as unknown as HarvestService)
+    jest.clearAllMocks()
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  describe('getCropYields', () => {
+    it('should filter by crop alias and season, newest sowing first', async () => {
+      harvestService.getUserHarvests.mockResolvedValue([
+        harvest({ crop_id: 'corn-1', crop_name: 'Maize', sown_date: '2023-06-20', weight_kg: 3000 }),
+        harvest({ crop_id: 'corn-2', crop_name: 'corn', sown_date: '2023-07-05', weight_kg: 2500 }),
+        harvest({ crop_id: 'corn-3', crop_name: 'corn', sown_date: '2022-06-25', weight_kg: 2000 }),
+        harvest({ crop_id: 'wheat-1' })
+      ])
+
+      const yields = await analyticsService.getCropYields('user-1', { cropName: 'maize', season: '2023 Kharif', plotId: 'plot-1' })
+
+      expect(harvestService.getUserHarvests).toHaveBeenCalledWith('user-1', { plotId: 'plot-1', from: undefined, to: undefined })
+      expect(yields.map(cropYield => [cropYield.crop_id, cropYield.yield_kg_ha])).toEqual([
+        ['corn-2', 5000],
+        ['corn-1', 6000]
+      ])
+    })
+
+    it('should reject unknown seasons', async () => {
+      await expect(analyticsService.getCropYields('user-1', { season: 'monsoon' }))
+        .rejects.toThrow('Unknown season: monsoon')
+      expect(harvestService.getUserHarvests).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('getClanBenchmark', () => {
+    it('should rank the user against anonymous clan yields', async () => {
+      mockSupabase.rpc.mockResolvedValue({
+        data: [
+          { is_self: false, area_hectares: '1.0', harvested_kg: '5200.00', yield_kg_ha: '5200.00' },
+          { is_self: true, area_hectares: '0.5', harvested_kg: '2200.00', yield_kg_ha: '4400.00' },
+          { is_self: false, area_hectares: '2.0', harvested_kg: '7000.00', yield_kg_ha: '3500.00' }
+        ],
+        error: null
+      } as any)
+
+      const benchmark = await analyticsService.getClanBenchmark('user-1', 'Paddy', '2023 kharif')
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('get_clan_yield_benchmark', {
+        p_user_id: 'user-1',
+        p_crop_names: ['rice', 'paddy'],
+        p_sown_from: '2023-06-01',
+        p_sown_to: '2023-10-31',
+        p_standard_moisture: 14
+      })
+      expect(benchmark).toEqual({
+        crop_name: 'rice',
+        season: '2023 kharif',
+        members: 3,
+        user_yield_kg_ha: 4400,
+        clan_average_kg_ha: 4366.67,
+        clan_median_kg_ha: 4400,
+        clan_best_kg_ha: 5200,
+        rank: 2
+      })
+    })
+
+    it('should leave the user unranked without a harvest of the crop', async () => {
+      mockSupabase.rpc.mockResolvedValue({ data: [], error: null } as any)
+
+      const benchmark = await analyticsService.getClanBenchmark('user-1', 'okra')
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('get_clan_yield_benchmark', expect.objectContaining({
+        p_crop_names: ['okra'],
+        p_sown_from: null,
+        p_standard_moisture: null
+      }))
+      expect(benchmark).toMatchObject({ members: 0, user_yield_kg_ha: null, clan_average_kg_ha: null, rank: null })
+    })
+  })
+})
@@ -8,6 +8,7 @@ import {
   calculateLevelFromXP,
   getXPForLevel,
   generateId,
+  generateUUID,
   isValidEmail,
   isValidPhoneNumber,
   getCropStatusColor,
@@ -106,6 +107,28 @@ describe('Utility Functions', () => {
     })
   })
 
+  describe('generateUUID', () => {
+    const UUID_V4 = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/
+
+    it('should generate unique version 4 UUIDs', () => {
+      const id1 = generateUUID()
+      const id2 = generateUUID()
+      expect(id1).toMatch(UUID_V4)
+      expect(id2).toMatch(UUID_V4)
+      expect(id1).not.toBe(id2)
+    })
+
+    it('should still generate them without a crypto API', () => {
+      const crypto = Object.getOwnPropertyDescriptor(globalThis, 'crypto')
+      Object.defineProperty(globalThis, 'crypto', { value: undefined, configurable: true })
+      try {
+        expect(generateUUID()).toMatch(UUID_V4)
+      } finally {
+        if (crypto) Object.defineProperty(globalThis, 'crypto', crypto)
+      }
+    })
+  })
+
   describe('isValidEmail', () => {
     it('should validate correct email addresses', () => {
       expect(isValidEmail('test@example.com')).toBe(true)
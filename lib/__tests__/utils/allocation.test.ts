@@ -0,0 +1,49 @@
+// Test suite for sub-plot allocation
+
+import { getCropAreaFraction, getCropOccupancy, getPeakAllocation, hasFreeArea } from '../../utils/allocation'
+
+const crop = (id: string, sownDate: string, harvestDate: string, areaFraction?: number) => ({
+  id,
+  name: 'tomatoes',
+  sown_date: sownDate,
+  expected_harvest_date: harvestDate,
+  area_fraction: areaFraction
+})
+
+describe('getCropAreaFraction', () => {
+  it('should give unallocated crops the whole plot', () => {
+    expect(getCropAreaFraction({})).toBe(1)
+    expect(getCropAreaFraction({ area_fraction: 0.25 })).toBe(0.25)
+  })
+})
+
+describe('getCropOccupancy', () => {
+  it('should run to the actual, expected or typical harvest date', () => {
+    expect(getCropOccupancy({ ...crop('c1', '2024-06-01', '2024-09-01'), actual_harvest_date: '2024-08-20' }).end)
+      .toBe('2024-08-20')
+    expect(getCropOccupancy(crop('c1', '2024-06-01', '2024-09-01')).end).toBe('2024-09-01')
+    // Wheat's typical season is 137 days
+    expect(getCropOccupancy({ id: 'c1', name: 'wheat', sown_date: '2024-11-01' }).end).toBe('2025-03-18')
+  })
+})
+
+describe('getPeakAllocation', () => {
+  it('should add up crops growing at the same time', () => {
+    const crops = [crop('c1', '2024-06-01', '2024-09-01', 0.5), crop('c2', '2024-07-01', '2024-10-01', 0.3)]
+    expect(getPeakAllocation(crops, '2024-06-15', '2024-08-01')).toBeCloseTo(0.8, 10)
+  })
+
+  it('should not add up crops that follow one another', () => {
+    const crops = [crop('c1', '2024-06-01', '2024-08-01', 0.6), crop('c2', '2024-08-01', '2024-10-01', 0.6)]
+
+    expect(getPeakAllocation(crops, '2024-07-01', '2024-09-01')).toBe(0.6)
+    expect(hasFreeArea(crops, 0.4, '2024-07-01', '2024-09-01')).toBe(true)
+    expect(hasFreeArea(crops, 0.5, '2024-07-01', '2024-09-01')).toBe(false)
+  })
+
+  it('should leave the plot free before sowing and from the harvest day', () => {
+    const crops = [crop('c1', '2024-06-01', '2024-08-01')]
+    expect(getPeakAllocation(crops, '2024-08-01', '2024-10-01')).toBe(0)
+    expect(getPeakAllocation(crops, '2024-04-01', '2024-06-01')).toBe(0)
+  })
+})
@@ -0,0 +1,80 @@
+// Test suite for the crop lifecycle state machine
+
+import { calculateHarvestXP, canTransition, getTransitionErrors, getTransitionMilestone } from '../../utils/crop-lifecycle'
+
+describe('canTransition', () => {
+  it('should only allow the next statuses', () => {
+    expect(canTransition('planted', 'growing')).toBe(true)
+    expect(canTransition('growing', 'ready')).toBe(true)
+    expect(canTransition('planted', 'harvested')).toBe(false)
+    expect(canTransition('ready', 'growing')).toBe(false)
+  })
+})
+
+describe('getTransitionErrors', () => {
+  it('should allow advancing the stage without changing the status', () => {
+    expect(getTransitionErrors(
+      { status: 'growing', growth_stage: 'seedling' },
+      { status: 'growing', growth_stage: 'fruiting' }
+    )).toEqual([])
+  })
+
+  it('should reject skipped statuses and stages going back', () => {
+    expect(getTransitionErrors(
+      { status: 'planted', growth_stage: 'vegetative' },
+      { status: 'harvested', growth_stage: 'seedling' }
+    )).toEqual([
+      'Cannot move a crop from planted to harvested (next: growing)',
+      'Growth stage cannot go back from vegetative to seedling',
+      'A harvested crop must be at least at the mature stage'
+    ])
+  })
+
+  it('should only let mature crops be ready', () => {
+    expect(getTransitionErrors(
+      { status: 'flowering', growth_stage: 'fruiting' },
+      { status: 'ready', growth_stage: 'fruiting' }
+    )).toEqual(['A ready crop must be at least at the mature stage'])
+  })
+
+  it('should reject transitions that change nothing or follow the harvest', () => {
+    expect(getTransitionErrors(
+      { status: 'growing', growth_stage: 'vegetative' },
+      { status: 'growing', growth_stage: 'vegetative' }
+    )).toEqual(['Crop is already growing (vegetative)'])
+    expect(getTransitionErrors(
+      { status: 'harvested', growth_stage: 'mature' },
+      { status: 'ready', growth_stage: 'mature' }
+    )).toEqual(['A harvested crop cannot change'])
+  })
+})
+
+describe('getTransitionMilestone', () => {
+  it('should name status milestones before stages', () => {
+    expect(getTransitionMilestone(
+      { from_status: 'ready', to_status: 'harvested', from_stage: 'mature', to_stage: 'mature' },
+      120
+    )).toBe('harvest (120 kg)')
+    expect(getTransitionMilestone(
+      { from_status: 'flowering', to_status: 'ready', from_stage: 'fruiting', to_stage: 'mature' }
+    )).toBe('harvest readiness')
+    expect(getTransitionMilestone(
+      { from_status: 'growing', to_status: 'growing', from_stage: 'flowering', to_stage: 'mature' }
+    )).toBe('maturity')
+    expect(getTransitionMilestone(
+      { from_status: 'planted', to_status: 'growing', from_stage: 'seedling', to_stage: 'seedling' }
+    )).toBeUndefined()
+  })
+})
+
+describe('calculateHarvestXP', () => {
+  it('should add the quantity and timeliness bonuses', () => {
+    expect(calculateHarvestXP({ name: 'Tomatoes' })).toBe(30)
+    expect(calculateHarvestXP({
+      name: 'wheat',
+      quantity_harvested: 40,
+      expected_harvest_date: '2024-04-08',
+      actual_harvest_date: '2024-04-10'
+    })).toBe(20 + 50 + 10)
+  })
+})
@@ -0,0 +1,107 @@
+// Test suite for the EXIF reader
+
+import { readExif } from '../../utils/exif'
+
+type Entry = [number, number, string | number[]]
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8 }
+
+// Write a directory at an offset with its out-of-line values right after it
+function writeIfd(view: DataView, offset: number, entries: Entry[], next: number = 0): void {
+  let data = offset + 2 + entries.length * 12 + 4
+  view.setUint16(offset, entries.length)
+
+  entries.forEach(([tag, type, value], i) => {
+    const entry = offset + 2 + i * 12
+    const values = typeof value === 'string' ? Array.from(value + '\0').map(char => char.charCodeAt(0)) : value
+    const count = type === 5 ? values.length / 2 : values.length
+    const size = TYPE_SIZES[type] * count
+    const at = size <= 4 ? entry + 8 : data
+    if (size > 4) data += size
+
+    view.setUint16(entry, tag)
+    view.setUint16(entry + 2, type)
+    view.setUint32(entry + 4, count)
+    if (size > 4) view.setUint32(entry + 8, at)
+    values.forEach((item, j) => {
+      if (type === 1 || type === 2) view.setUint8(at + j, item)
+      else if (type === 3) view.setUint16(at + j * 2, item)
+      else view.setUint32(at + j * 4, item)
+    })
+  })
+
+  view.setUint32(offset + 2 + entries.length * 12, next)
+}
+
+const THUMBNAIL = [0xff, 0xd8, 0xff, 0xd9]
+
+function buildJpeg(options: { offsetTime?: boolean; gpsTime?: boolean } = {}): Uint8Array {
+  // IFD0, Exif, GPS and IFD1 each get 200 bytes; the thumbnail follows
+  const tiff = new DataView(new ArrayBuffer(1000))
+  tiff.setUint16(0, 0x4d4d) // big-endian
+  tiff.setUint16(2, 42)
+  tiff.setUint32(4, 8)
+
+  writeIfd(tiff, 8, [
+    [0x0112, 3, [6]],
+    [0x8769, 4, [208]],
+    [0x8825, 4, [408]]
+  ], 608)
+  writeIfd(tiff, 208, [
+    [0x9003, 2, '2024:05:01 07:30:00'],
+    ...(options.offsetTime ? [[0x9011, 2, '+05:30'] as Entry] : []),
+    [0xa002, 4, [4000]],
+    [0xa003, 4, [3000]]
+  ])
+  writeIfd(tiff, 408, [
+    [0x0001, 2, 'N'],
+    [0x0002, 5, [18, 1, 31, 1, 12, 1]],
+    [0x0003, 2, 'E'],
+    [0x0004, 5, [73, 1, 51, 1, 0, 1]],
+    [0x0005, 1, [0]],
+    [0x0006, 5, [5605, 10]],
+    ...(options.gpsTime ? [[0x0007, 5, [2, 1, 0, 1, 15, 1]] as Entry, [0x001d, 2, '2024:05:01'] as Entry] : [])
+  ])
+  writeIfd(tiff, 608, [
+    [0x0201, 4, [808]],
+    [0x0202, 4, [THUMBNAIL.length]]
+  ])
+  new Uint8Array(tiff.buffer).set(THUMBNAIL, 808)
+
+  const segmentLength = 2 + 6 + tiff.byteLength
+  return new Uint8Array([
+    0xff, 0xd8,
+    0xff, 0xe1, segmentLength >> 8, segmentLength & 0xff,
+    ...Array.from('Exif\0\0').map(char => char.charCodeAt(0)),
+    ...Array.from(new Uint8Array(tiff.buffer)),
+    0xff, 0xda, 0x00, 0x02,
+    0xff, 0xd9
+  ])
+}
+
+describe('readExif', () => {
+  it('should read the time, place, size and thumbnail of a photo', () => {
+    const metadata = readExif(buildJpeg({ offsetTime: true, gpsTime: true }))
+
+    expect(metadata.taken_at).toBe('2024-05-01T07:30:00+05:30')
+    expect(metadata.location!.latitude).toBeCloseTo(18.52, 6)
+    expect(metadata.location!.longitude).toBeCloseTo(73.85, 6)
+    expect(metadata.altitude_m).toBeCloseTo(560.5, 6)
+    expect(metadata.orientation).toBe(6)
+    expect(metadata.width).toBe(4000)
+    expect(metadata.height).toBe(3000)
+    expect(Array.from(metadata.thumbnail!)).toEqual(THUMBNAIL)
+  })
+
+  it('should fall back to the GPS clock, then to local time without a zone', () => {
+    expect(readExif(buildJpeg({ gpsTime: true })).taken_at).toBe('2024-05-01T02:00:15Z')
+    expect(readExif(buildJpeg()).taken_at).toBe('2024-05-01T07:30:00')
+  })
+
+  it('should return no metadata for other formats and keep what a truncated photo has', () => {
+    expect(readExif(new Uint8Array([0x89, 0x50, 0x4e, 0x47]))).toEqual({})
+
+    const truncated = buildJpeg().subarray(0, 500)
+    expect(readExif(truncated).orientation).toBe(6)
+  })
+})
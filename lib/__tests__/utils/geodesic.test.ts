@@ -0,0 +1,152 @@
+// Test suite for geodesic area and perimeter calculations
+
+import {
+  geodesicDistance,
+  geodesicRingArea,
+  geodesicRingSignedArea
+} from '../../utils/geodesic'
+import { calculateGeometryArea, calculateGeometryPerimeter } from '../../utils/geometry'
+import { PlotGeometry } from '../../types'
+
+// Known field shapes with reference values from PostGIS
+// ST_Area(geometry::geography) and ST_Perimeter(geometry::geography) on WGS84
+const FIELD_CORPUS: Array<{
+  name: string
+  geometry: PlotGeometry
+  areaSqM: number
+  perimeterM: number
+}> = [
+  {
+    name: 'Kenyan smallholding near the equator',
+    geometry: {
+      type: 'Polygon',
+      coordinates: [[[37.0012, 0.5004], [37.0021, 0.5004], [37.0021, 0.5013], [37.0012, 0.5013], [37.0012, 0.5004]]]
+    },
+    areaSqM: 9969.98,
+    perimeterM: 399.401
+  },
+  {
+    name: 'Punjab wheat field',
+    geometry: {
+      type: 'Polygon',
+      coordinates: [[[75.8512, 30.901], [75.8541, 30.9012], [75.8549, 30.9031], [75.8527, 30.9043], [75.8508, 30.9029], [75.8512, 30.901]]]
+    },
+    areaSqM: 98465.69,
+    perimeterM: 1204.119
+  },
+  {
+    name: 'Iowa quarter section',
+    geometry: {
+      type: 'Polygon',
+      coordinates: [[[-93.62, 42.03], [-93.6103, 42.03], [-93.6103, 42.0372], [-93.62, 42.0372], [-93.62, 42.03]]]
+    },
+    areaSqM: 642368.59,
+    perimeterM: 3205.924
+  },
+  {
+    name: 'Dutch strip field',
+    geometry: {
+      type: 'Polygon',
+      coordinates: [[[5.001, 52.301], [5.009, 52.3012], [5.009, 52.3018], [5.001, 52.3016], [5.001, 52.301]]]
+    },
+    areaSqM: 36434.81,
+    perimeterM: 1225.888
+  },
+  {
+    name: 'Pampas paddock in the southern hemisphere',
+    geometry: {
+      type: 'Polygon',
+      coordinates: [[[-60.02, -34.62], [-60.01, -34.6205], [-60.0095, -34.615], [-60.0198, -34.614], [-60.02, -34.62]]]
+    },
+    areaSqM: 596440.76,
+    perimeterM: 3147.612
+  },
+  {
+    name: 'Finnish field at high latitude',
+    geometry: {
+      type: 'Polygon',
+      coordinates: [[[25.001, 64.001], [25.004, 64.001], [25.004, 64.0022], [25.001, 64.0022], [25.001, 64.001]]]
+    },
+    areaSqM: 19636.09,
+    perimeterM: 561.119
+  },
+  {
+    name: 'Telangana field with a pond',
+    geometry: {
+      type: 'Polygon',
+      coordinates: [
+        [[78.4, 17.4], [78.404, 17.4], [78.404, 17.404], [78.4, 17.404], [78.4, 17.4]],
+        [[78.401, 17.401], [78.401, 17.402], [78.402, 17.402], [78.402, 17.401], [78.401, 17.401]]
+      ]
+    },
+    areaSqM: 176396.42,
+    perimeterM: 2169.299
+  }
+]
+
+// PostGIS parity tolerance
+const RELATIVE_TOLERANCE = 1e-4
+
+describe('Geodesic measurements', () => {
+  describe('calculateGeometryArea', () => {
+    it.each(FIELD_CORPUS)('should match ST_Area(geography) for $name', ({ geometry, areaSqM }) => {
+      const area = calculateGeometryArea(geometry)
+      expect(Math.abs(area - areaSqM) / areaSqM).toBeLessThan(RELATIVE_TOLERANCE)
+    })
+
+    it('should not depend on ring orientation', () => {
+      const ring = (FIELD_CORPUS[1].geometry as GeoJSON.Polygon).coordinates[0]
+      const reversed = [...ring].reverse()
+
+      expect(geodesicRingArea(reversed)).toBeCloseTo(geodesicRingArea(ring), 6)
+      expect(Math.sign(geodesicRingSignedArea(reversed))).toBe(-Math.sign(geodesicRingSignedArea(ring)))
+    })
+
+    it('should make counter-clockwise rings positive, like GeoJSON shells', () => {
+      // East along the south edge first, then north: counter-clockwise
+      const ring = (FIELD_CORPUS[0].geometry as GeoJSON.Polygon).coordinates[0]
+
+      expect(geodesicRingSignedArea(ring)).toBeGreaterThan(0)
+      expect(geodesicRingSignedArea([...ring].reverse())).toBeLessThan(0)
+    })
+
+    it('should treat unclosed rings as closed', () => {
+      const ring = (FIELD_CORPUS[0].geometry as GeoJSON.Polygon).coordinates[0]
+      expect(geodesicRingArea(ring.slice(0, -1))).toBeCloseTo(geodesicRingArea(ring), 6)
+    })
+
+    it('should sum the parts of a field split by a road', () => {
+      const [north, south] = [FIELD_CORPUS[2], FIELD_CORPUS[3]]
+      const split: PlotGeometry = {
+        type: 'MultiPolygon',
+        coordinates: [
+          (north.geometry as GeoJSON.Polygon).coordinates,
+          (south.geometry as GeoJSON.Polygon).coordinates
+        ]
+      }
+
+      expect(calculateGeometryArea(split)).toBeCloseTo(north.areaSqM + south.areaSqM, -1)
+    })
+
+    it('should return 0 for degenerate rings', () => {
+      expect(geodesicRingArea([[0, 0], [1, 1]])).toBe(0)
+    })
+  })
+
+  describe('calculateGeometryPerimeter', () => {
+    it.each(FIELD_CORPUS)('should match ST_Perimeter(geography) for $name', ({ geometry, perimeterM }) => {
+      const perimeter = calculateGeometryPerimeter(geometry)
+      expect(Math.abs(perimeter - perimeterM) / perimeterM).toBeLessThan(RELATIVE_TOLERANCE)
+    })
+  })
+
+  describe('geodesicDistance', () => {
+    it('should return 0 for identical points', () => {
+      expect(geodesicDistance([75.85, 30.9], [75.85, 30.9])).toBe(0)
+    })
+
+    it('should measure one degree of latitude at the equator', () => {
+      expect(geodesicDistance([0, 0], [0, 1])).toBeCloseTo(110574.389, 2)
+    })
+  })
+})
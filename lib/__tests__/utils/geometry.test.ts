@@ -0,0 +1,147 @@
+// Test suite for plot geometry helpers
+
+import {
+  calculateGeometryArea,
+  geometryToEWKT,
+  geometryToWKB,
+  geometryToWKT,
+  getPolygons,
+  parsePostGISGeometry,
+  wkbToGeometry,
+  wktToGeometry
+} from '../../utils/geometry'
+
+describe('Plot geometry helpers', () => {
+  const fieldWithPond: GeoJSON.Polygon = {
+    type: 'Polygon',
+    coordinates: [
+      [[0, 0], [4, 0], [4, 4], [0, 4], [0, 0]],
+      [[1, 1], [1, 2], [2, 2], [2, 1], [1, 1]]
+    ]
+  }
+
+  const fieldAcrossRoad: GeoJSON.MultiPolygon = {
+    type: 'MultiPolygon',
+    coordinates: [
+      [[[0, 0], [2, 0], [2, 2], [0, 2], [0, 0]]],
+      [
+        [[3, 0], [6, 0], [6, 3], [3, 3], [3, 0]],
+        [[4, 1], [4, 2], [5, 2], [5, 1], [4, 1]]
+      ]
+    ]
+  }
+
+  describe('WKT conversion', () => {
+    it('should write every ring of a polygon', () => {
+      expect(geometryToWKT(fieldWithPond)).toBe(
+        'POLYGON((0 0, 4 0, 4 4, 0 4, 0 0), (1 1, 1 2, 2 2, 2 1, 1 1))'
+      )
+    })
+
+    it('should write multipolygons', () => {
+      expect(geometryToWKT(fieldAcrossRoad)).toMatch(/^MULTIPOLYGON\(\(\(0 0, 2 0/)
+    })
+
+    it('should prefix EWKT with the WGS84 SRID', () => {
+      expect(geometryToEWKT(fieldWithPond)).toMatch(/^SRID=4326;POLYGON/)
+    })
+
+    it('should round-trip polygons with holes and multipolygons', () => {
+      expect(wktToGeometry(geometryToWKT(fieldWithPond))).toEqual(fieldWithPond)
+      expect(wktToGeometry(geometryToEWKT(fieldAcrossRoad))).toEqual(fieldAcrossRoad)
+    })
+
+    it('should accept PostGIS formatting and drop Z values', () => {
+      const geometry = wktToGeometry('SRID=4326;POLYGON Z ((0 0 5,1 0 5,1 1 5,0 0 5))')
+      expect(geometry).toEqual({
+        type: 'Polygon',
+        coordinates: [[[0, 0], [1, 0], [1, 1], [0, 0]]]
+      })
+    })
+
+    it('should reject malformed WKT', () => {
+      expect(() => wktToGeometry('POINT(1 2)')).toThrow('Invalid WKT format')
+      expect(() => wktToGeometry('POLYGON((0 0, 1 0, 1 1)')).toThrow('Invalid WKT format')
+    })
+  })
+
+  describe('WKB conversion', () => {
+    it('should parse hex EWKB as returned by PostgREST', () => {
+      // SELECT 'SRID=4326;POLYGON((0 0,1 0,1 1,0 1,0 0))'::geometry
+      const hex =
+        '0103000020E61000000100000005000000' +
+        '00000000000000000000000000000000' +
+        '000000000000F03F0000000000000000' +
+        '000000000000F03F000000000000F03F' +
+        '0000000000000000000000000000F03F' +
+        '00000000000000000000000000000000'
+
+      expect(wkbToGeometry(hex)).toEqual({
+        type: 'Polygon',
+        coordinates: [[[0, 0], [1, 0], [1, 1], [0, 1], [0, 0]]]
+      })
+    })
+
+    it('should parse big-endian WKB', () => {
+      const hex =
+        '000000000300000001' + '00000004' +
+        '0000000000000000' + '0000000000000000' +
+        '3FF0000000000000' + '0000000000000000' +
+        '3FF0000000000000' + '3FF0000000000000' +
+        '0000000000000000' + '0000000000000000'
+
+      expect(wkbToGeometry(hex)).toEqual({
+        type: 'Polygon',
+        coordinates: [[[0, 0], [1, 0], [1, 1], [0, 0]]]
+      })
+    })
+
+    it('should round-trip holes and multipolygons', () => {
+      expect(wkbToGeometry(geometryToWKB(fieldWithPond))).toEqual(fieldWithPond)
+      expect(wkbToGeometry(geometryToWKB(fieldAcrossRoad))).toEqual(fieldAcrossRoad)
+    })
+
+    it('should reject unsupported geometry types', () => {
+      // POINT(1 2)
+      expect(() => wkbToGeometry('0101000000000000000000F03F0000000000000040'))
+        .toThrow('Unsupported WKB geometry type')
+    })
+  })
+
+  describe('parsePostGISGeometry', () => {
+    it('should accept EWKB, WKT and GeoJSON values', () => {
+      expect(parsePostGISGeometry(geometryToWKB(fieldAcrossRoad))).toEqual(fieldAcrossRoad)
+      expect(parsePostGISGeometry(geometryToWKT(fieldWithPond))).toEqual(fieldWithPond)
+      expect(parsePostGISGeometry(fieldWithPond)).toEqual(fieldWithPond)
+      expect(parsePostGISGeometry(JSON.stringify(fieldAcrossRoad))).toEqual(fieldAcrossRoad)
+    })
+
+    it('should reject other values', () => {
+      expect(() => parsePostGISGeometry(null)).toThrow()
+      expect(() => parsePostGISGeometry({ type: 'Point', coordinates: [0, 0] })).toThrow()
+    })
+  })
+
+  describe('calculateGeometryArea', () => {
+    // One square degree at the equator is roughly 12,309 km²
+    const squareDegree = calculateGeometryArea({
+      type: 'Polygon',
+      coordinates: [[[0, 0], [1, 0], [1, 1], [0, 1], [0, 0]]]
+    })
+
+    it('should subtract holes', () => {
+      expect(calculateGeometryArea(fieldWithPond) / squareDegree).toBeCloseTo(15, 1)
+    })
+
+    it('should sum all parts of a multipolygon', () => {
+      expect(calculateGeometryArea(fieldAcrossRoad) / squareDegree).toBeCloseTo(4 + 9 - 1, 1)
+    })
+  })
+
+  describe('getPolygons', () => {
+    it('should normalise polygons and multipolygons to a list of parts', () => {
+      expect(getPolygons(fieldWithPond)).toHaveLength(1)
+      expect(getPolygons(fieldAcrossRoad)).toHaveLength(2)
+    })
+  })
+})
@@ -0,0 +1,112 @@
+// Test suite for irrigation planning helpers
+
+import {
+  extraterrestrialRadiation,
+  getCropCoefficient,
+  getSoilAvailableWater,
+  hargreavesET0,
+  parseIrrigationMethod,
+  runWaterBalance
+} from '../../utils/irrigation'
+import { CropWaterProfile } from '../../types'
+
+describe('evapotranspiration', () => {
+  it('should match the FAO-56 extraterrestrial radiation example', () => {
+    // FAO-56 example 8: 20°S on 3 September
+    expect(extraterrestrialRadiation(-20, '2023-09-03')).toBeCloseTo(32.2, 1)
+  })
+
+  it('should give a hot dry-season day in Punjab about 7 mm', () => {
+    const et0 = hargreavesET0(26, 41, 30.9, '2024-05-20')
+
+    expect(et0).toBeGreaterThan(6.5)
+    expect(et0).toBeLessThan(8.5)
+    expect(hargreavesET0(26, 41, 30.9, '2024-12-20')).toBeLessThan(et0)
+  })
+
+  it('should give no evaporation without a daily temperature range', () => {
+    expect(hargreavesET0(25, 25, 30.9, '2024-05-20')).toBe(0)
+  })
+})
+
+describe('crop and soil parameters', () => {
+  const water: CropWaterProfile = { kc_initial: 0.3, kc_mid: 1.2, kc_end: 0.6, root_depth_m: 1.2, depletion_fraction: 0.55 }
+
+  it('should pick crop coefficients by growth stage', () => {
+    expect(getCropCoefficient(water, null)).toBe(0.3)
+    expect(getCropCoefficient(water, 'seedling')).toBe(0.3)
+    expect(getCropCoefficient(water, 'vegetative')).toBeCloseTo(0.75, 10)
+    expect(getCropCoefficient(water, 'fruiting')).toBe(1.2)
+    expect(getCropCoefficient(water, 'mature')).toBe(0.6)
+  })
+
+  it('should read irrigation types and soil textures from free text', () => {
+    expect(parseIrrigationMethod('Drip (inline)')).toBe('drip')
+    expect(parseIrrigationMethod('Canal - flood')).toBe('surface')
+    expect(parseIrrigationMethod('Rain-fed')).toBe('rainfed')
+    expect(parseIrrigationMethod('bucket')).toBeNull()
+    expect(getSoilAvailableWater('Sandy loam')).toBe(120)
+    expect(getSoilAvailableWater('Black cotton soil')).toBe(180)
+    expect(getSoilAvailableWater()).toBe(140)
+  })
+})
+
+describe('runWaterBalance', () => {
+  const week = (et0: number, rain: number[] = []) =>
+    Array.from({ length: 7 }, (_, i) => ({ date: `2024-05-${String(20 + i).padStart(2, '0')}`, et0_mm: et0, kc: 1, rain_mm: rain[i] || 0 }))
+
+  it('should refill the root zone once depletion passes the trigger', () => {
+    // 100 mm readily available; surface irrigation waits for all of it
+    const result = runWaterBalance(week(8), {
+      totalAvailableWater: 200,
+      readilyAvailableWater: 100,
+      initialDepletion: 60,
+      method: 'surface',
+      areaSquareMeters: 5000
+    })
+
+    expect(result.events).toEqual([
+      { date: '2024-05-24', net_depth_mm: 100, gross_depth_mm: 166.7, volume_liters: 833333 }
+    ])
+    expect(result.days.map(day => day.depletion_mm)).toEqual([68, 76, 84, 92, 0, 8, 16])
+  })
+
+  it('should water drip plots little and often', () => {
+    const result = runWaterBalance(week(8), {
+      totalAvailableWater: 200,
+      readilyAvailableWater: 100,
+      initialDepletion: 0,
+      method: 'drip',
+      areaSquareMeters: 1000
+    })
+
+    expect(result.events.map(event => event.date)).toEqual(['2024-05-26'])
+    expect(result.events[0]).toMatchObject({ net_depth_mm: 56, gross_depth_mm: 62.2, volume_liters: 62222 })
+  })
+
+  it('should let forecast rain delay watering', () => {
+    const result = runWaterBalance(week(8, [0, 30]), {
+      totalAvailableWater: 200,
+      readilyAvailableWater: 100,
+      initialDepletion: 60,
+      method: 'surface',
+      areaSquareMeters: 5000
+    })
+
+    expect(result.events).toEqual([])
+    expect(result.days[1].depletion_mm).toBe(46)
+  })
+
+  it('should never irrigate a rainfed plot', () => {
+    const result = runWaterBalance(week(8), {
+      totalAvailableWater: 80,
+      readilyAvailableWater: 40,
+      initialDepletion: 60,
+      method: null,
+      areaSquareMeters: 5000
+    })
+
+    expect(result.events).toEqual([])
+    expect(result.days[6].depletion_mm).toBe(80)
+  })
+})
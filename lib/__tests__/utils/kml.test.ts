@@ -0,0 +1,65 @@
+// Test suite for KML reading and writing
+
+import { featuresToKML, parseKML } from '../../utils/kml'
+
+describe('KML', () => {
+  const survey = `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <Placemark>
+      <name><![CDATA[Mango orchard & well]]></name>
+      <ExtendedData>
+        <Data name="soil"><value>red loam</value></Data>
+        <SchemaData schemaUrl="#survey"><SimpleData name="village">Kothur</SimpleData></SchemaData>
+      </ExtendedData>
+      <Polygon>
+        <outerBoundaryIs><LinearRing><coordinates>
+          78.4,17.4,0 78.404,17.4,0 78.404,17.404,0 78.4,17.404,0 78.4,17.4,0
+        </coordinates></LinearRing></outerBoundaryIs>
+        <innerBoundaryIs><LinearRing><coordinates>
+          78.401,17.401 78.401,17.402 78.402,17.402 78.402,17.401 78.401,17.401
+        </coordinates></LinearRing></innerBoundaryIs>
+      </Polygon>
+    </Placemark>
+    <Placemark>
+      <name>Split paddy</name>
+      <MultiGeometry>
+        <Polygon><outerBoundaryIs><LinearRing><coordinates>0,0 1,0 1,1 0,0</coordinates></LinearRing></outerBoundaryIs></Polygon>
+        <Polygon><outerBoundaryIs><LinearRing><coordinates>2,0 3,0 3,1 2,0</coordinates></LinearRing></outerBoundaryIs></Polygon>
+      </MultiGeometry>
+    </Placemark>
+    <Placemark><name>Well</name><Point><coordinates>78.402,17.402</coordinates></Point></Placemark>
+  </Document>
+</kml>`
+
+  it('should read polygons with holes and attributes', () => {
+    const [orchard] = parseKML(survey)
+
+    expect(orchard.properties).toEqual({ name: 'Mango orchard & well', soil: 'red loam', village: 'Kothur' })
+    expect(orchard.geometry!.type).toBe('Polygon')
+    expect(orchard.geometry!.coordinates).toHaveLength(2)
+    expect((orchard.geometry as GeoJSON.Polygon).coordinates[0][1]).toEqual([78.404, 17.4])
+  })
+
+  it('should read MultiGeometry as a MultiPolygon', () => {
+    expect(parseKML(survey)[1].geometry!.type).toBe('MultiPolygon')
+  })
+
+  it('should return placemarks without polygons with a null geometry', () => {
+    const well = parseKML(survey)[2]
+    expect(well.properties.name).toBe('Well')
+    expect(well.geometry).toBeNull()
+  })
+
+  it('should reject documents that are not KML', () => {
+    expect(() => parseKML('<gpx></gpx>')).toThrow('Invalid KML document')
+  })
+
+  it('should round-trip features', () => {
+    const features = parseKML(survey).slice(0, 2)
+    const kml = featuresToKML(features, 'Farm <North>')
+
+    expect(kml).toContain('<name>Farm &lt;North&gt;</name>')
+    expect(parseKML(kml)).toEqual(features)
+  })
+})
@@ -0,0 +1,163 @@
+// Test suite for Mapbox Vector Tile encoding
+
+import { encodeVectorTile } from '../../utils/mvt'
+
+// Just enough of a protobuf reader to check the encoded tile
+function readMessage(bytes: Uint8Array): Array<{ field: number; value: number | Uint8Array }> {
+  const fields: Array<{ field: number; value: number | Uint8Array }> = []
+  let offset = 0
+  const varint = () => {
+    let result = 0
+    let scale = 1
+    let byte: number
+    do {
+      byte = bytes[offset++]
+      result += (byte & 0x7f) * scale
+      scale *= 0x80
+    } while (byte & 0x80)
+    return result
+  }
+
+  while (offset < bytes.length) {
+    const key = varint()
+    const field = Math.floor(key / 8)
+    switch (key % 8) {
+      case 0:
+        fields.push({ field, value: varint() })
+        break
+      case 1:
+        fields.push({ field, value: bytes.slice(offset, offset + 8) })
+        offset += 8
+        break
+      case 2: {
+        const length = varint()
+        fields.push({ field, value: bytes.slice(offset, offset + length) })
+        offset += length
+        break
+      }
+      default:
+        throw new Error(`Unexpected wire type ${key % 8}`)
+    }
+  }
+  return fields
+}
+
+function unpack(bytes: Uint8Array): number[] {
+  const values: number[] = []
+  let offset = 0
+  while (offset < bytes.length) {
+    let result = 0
+    let scale = 1
+    let byte: number
+    do {
+      byte = bytes[offset++]
+      result += (byte & 0x7f) * scale
+      scale *= 0x80
+    } while (byte & 0x80)
+    values.push(result)
+  }
+  return values
+}
+
+const text = (value: number | Uint8Array) => new TextDecoder().decode(value as Uint8Array)
+const unzigzag = (value: number) => (value % 2 === 0 ? value / 2 : -(value + 1) / 2)
+
+function decodeLayer(tile: Uint8Array) {
+  const [layerField] = readMessage(tile)
+  const fields = readMessage(layerField.value as Uint8Array)
+  return {
+    version: fields.find(f => f.field === 15)!.value,
+    name: text(fields.find(f => f.field === 1)!.value),
+    extent: fields.find(f => f.field === 5)!.value,
+    keys: fields.filter(f => f.field === 3).map(f => text(f.value)),
+    values: fields.filter(f => f.field === 4).map(f => readMessage(f.value as Uint8Array)[0]),
+    features: fields.filter(f => f.field === 2).map(f => {
+      const feature = readMessage(f.value as Uint8Array)
+      return {
+        tags: unpack(feature.find(g => g.field === 2)!.value as Uint8Array),
+        type: feature.find(g => g.field === 3)!.value,
+        geometry: unpack(feature.find(g => g.field === 4)!.value as Uint8Array)
+      }
+    })
+  }
+}
+
+// Decode the command stream back into rings of absolute coordinates
+function decodeRings(geometry: number[]): number[][][] {
+  const rings: number[][][] = []
+  let x = 0
+  let y = 0
+  let i = 0
+  while (i < geometry.length) {
+    const id = geometry[i] & 0x7
+    const count = geometry[i] >> 3
+    i++
+    if (id === 7) continue
+    if (id === 1) rings.push([])
+    for (let n = 0; n < count; n++) {
+      x += unzigzag(geometry[i++])
+      y += unzigzag(geometry[i++])
+      rings[rings.length - 1].push([x, y])
+    }
+  }
+  return rings
+}
+
+const signedArea = (ring: number[][]) =>
+  ring.reduce((sum, [x1, y1], i) => {
+    const [x2, y2] = ring[(i + 1) % ring.length]
+    return sum + x1 * y2 - x2 * y1
+  }, 0) / 2
+
+describe('encodeVectorTile', () => {
+  // Counter-clockwise on screen, with a clockwise hole, so both need rewinding
+  const exterior = [[0, 0], [0, 100], [100, 100], [100, 0], [0, 0]]
+  const hole = [[40, 40], [60, 40], [60, 60], [40, 60]]
+
+  it('should encode a polygon layer with MVT winding', () => {
+    const tile = encodeVectorTile([{
+      name: 'plots',
+      features: [{ polygons: [[exterior, hole]], properties: { name: 'North field', area_hectares: 1.25, count: 3 } }]
+    }])
+
+    const layer = decodeLayer(tile)
+    expect(layer).toMatchObject({ version: 2, name: 'plots', extent: 4096, keys: ['name', 'area_hectares', 'count'] })
+    expect(layer.features).toHaveLength(1)
+    expect(layer.features[0].type).toBe(3)
+    expect(layer.features[0].tags).toEqual([0, 0, 1, 1, 2, 2])
+    expect(layer.values.map(value => value.field)).toEqual([1, 3, 5])
+
+    const rings = decodeRings(layer.features[0].geometry)
+    expect(rings).toHaveLength(2)
+    expect(rings[0]).toHaveLength(4) // closing vertex dropped
+    expect(signedArea(rings[0])).toBeGreaterThan(0)
+    expect(signedArea(rings[1])).toBeLessThan(0)
+  })
+
+  it('should share repeated keys and values between features', () => {
+    const tile = encodeVectorTile([{
+      name: 'plots',
+      features: [
+        { polygons: [[exterior]], properties: { soil: 'loam' } },
+        { polygons: [[exterior]], properties: { soil: 'loam', note: null } }
+      ]
+    }])
+
+    const layer = decodeLayer(tile)
+    expect(layer.keys).toEqual(['soil'])
+    expect(layer.values).toHaveLength(1)
+    expect(layer.features.map(feature => feature.tags)).toEqual([[0, 0], [0, 0]])
+  })
+
+  it('should drop polygons that collapse at tile resolution', () => {
+    const tile = encodeVectorTile([{
+      name: 'plots',
+      features: [
+        { polygons: [[[[5, 5], [5, 5], [5, 5]]]], properties: { id: 'tiny' } },
+        { polygons: [[exterior]], properties: { id: 'kept' } }
+      ]
+    }])
+
+    expect(decodeLayer(tile).features).toHaveLength(1)
+  })
+})
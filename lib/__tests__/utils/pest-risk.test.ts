@@ -0,0 +1,113 @@
+// Test suite for pest and disease risk models
+
+import {
+  createDegreeDayModel,
+  createLateBlightModel,
+  createPowderyMildewModel,
+  DEFAULT_PEST_RISK_MODELS,
+  estimateLeafWetnessHours,
+  getRiskLevel,
+  hoursBetween,
+  isHostCrop
+} from '../../utils/pest-risk'
+import { RiskWeatherDay } from '../../types'
+
+const days = (count: number, weather: Partial<RiskWeatherDay> = {}, start = 1): RiskWeatherDay[] =>
+  Array.from({ length: count }, (_, i) => ({
+    date: `2024-07-${String(start + i).padStart(2, '0')}`,
+    min: 10,
+    max: 20,
+    humidity: 50,
+    rain_mm: 0,
+    forecast: false,
+    ...weather
+  }))
+
+describe('weather helpers', () => {
+  it('should estimate leaf wetness from humidity, with rain wetting leaves regardless', () => {
+    expect(estimateLeafWetnessHours(70, 0)).toBe(0)
+    expect(estimateLeafWetnessHours(85, 0)).toBe(9)
+    expect(estimateLeafWetnessHours(100, 0)).toBe(18)
+    expect(estimateLeafWetnessHours(60, 5)).toBe(8)
+  })
+
+  it('should count the hours of a day spent within a temperature band', () => {
+    expect(hoursBetween(15, 27, 21, 30)).toBe(12)
+    expect(hoursBetween(25, 25, 21, 30)).toBe(24)
+    expect(hoursBetween(10, 20, 21, 30)).toBe(0)
+  })
+
+  it('should grade risk scores', () => {
+    expect(getRiskLevel(0.2)).toBe('low')
+    expect(getRiskLevel(0.4)).toBe('medium')
+    expect(getRiskLevel(0.7)).toBe('high')
+  })
+})
+
+describe('createDegreeDayModel', () => {
+  const aphids = createDegreeDayModel('aphids', { base_c: 4, upper_c: 30, emergence_dd: 110, optimal_daily_dd: 16 }, ['lettuce'])
+
+  it('should build up risk until the first generation emerges and then follow the warmth', () => {
+    // 11 degree days a day
+    const scores = aphids.evaluate(days(12))
+
+    expect(scores[4]).toBe(0.25)
+    expect(scores[8]).toBe(0.45)
+    expect(scores[9]).toBe(0.84)
+    expect(aphids.id).toBe('aphids_degree_days')
+  })
+
+  it('should damp insects that dislike humid weather', () => {
+    const mites = createDegreeDayModel('spider_mites', {
+      base_c: 12, upper_c: 35, emergence_dd: 10, optimal_daily_dd: 18, max_humidity: 70
+    }, ['beans'])
+
+    const [, dry] = mites.evaluate(days(2, { min: 30, max: 40 }))
+    const [, humid] = mites.evaluate(days(2, { min: 30, max: 40, humidity: 80 }))
+
+    expect(dry).toBe(1)
+    expect(humid).toBe(0.6)
+  })
+})
+
+describe('createLateBlightModel', () => {
+  const blight = createLateBlightModel(['potatoes'])
+
+  it('should reach full risk on a Smith period and decay after it', () => {
+    const weather = [
+      ...days(2, { min: 12, humidity: 95 }),
+      ...days(2, { min: 12, humidity: 50 }, 3)
+    ]
+
+    expect(blight.evaluate(weather)).toEqual([0.6, 1, 0.7, 0.49])
+  })
+
+  it('should give cold nights no risk however wet', () => {
+    expect(blight.evaluate(days(3, { min: 6, humidity: 100, rain_mm: 12 }))).toEqual([0, 0, 0])
+  })
+})
+
+describe('createPowderyMildewModel', () => {
+  const mildew = createPowderyMildewModel(['cucumbers'])
+
+  it('should start the index after three favourable days and cap it at 100', () => {
+    expect(mildew.evaluate(days(6, { min: 18, max: 28 }))).toEqual([0, 0, 0.6, 0.8, 1, 1])
+  })
+
+  it('should lose points on unfavourable and very hot days', () => {
+    const weather = [...days(4, { min: 18, max: 28 }), ...days(1, { min: 31, max: 38 }, 5)]
+
+    expect(mildew.evaluate(weather)[4]).toBe(0.6)
+  })
+})
+
+describe('isHostCrop', () => {
+  const [blight, mildew] = ['late_blight', 'powdery_mildew']
+    .map(pest => DEFAULT_PEST_RISK_MODELS.find(model => model.pest_type === pest)!)
+
+  it('should match catalog aliases and plurals', () => {
+    expect(isHostCrop(blight, 'Tomato')).toBe(true)
+    expect(isHostCrop(mildew, 'cucumber')).toBe(true)
+    expect(isHostCrop(blight, 'wheat')).toBe(false)
+  })
+})
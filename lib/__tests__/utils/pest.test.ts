@@ -0,0 +1,115 @@
+// Test suite for pest battle rules
+
+import {
+  calculateBattleXP,
+  calculateRegrowth,
+  calculateResolutionXP,
+  calculateSuccessRate,
+  calculateTurnDamage,
+  getBattleStats,
+  getTreatmentDose,
+  getTreatmentEfficacy
+} from '../../utils/pest'
+import { PEST_TREATMENTS } from '../../config/pest-catalog'
+import { MockPestService } from '../../services/mock/pest.service'
+
+const treatment = (id: string) => PEST_TREATMENTS.find(candidate => candidate.id === id)!
+
+describe('rewards', () => {
+  it('should scale a pest\'s XP by severity', () => {
+    expect(calculateBattleXP('caterpillars', 'high')).toBe(40)
+    expect(calculateBattleXP('unknown_pest', 'medium')).toBe(23)
+  })
+
+  it('should give a lost battle a share of the reward, but nothing for giving up at once', () => {
+    expect(calculateResolutionXP({ xp_reward: 40, turns_played: 2 }, true)).toBe(40)
+    expect(calculateResolutionXP({ xp_reward: 40, turns_played: 2 }, false)).toBe(12)
+    expect(calculateResolutionXP({ xp_reward: 40, turns_played: 0 }, false)).toBe(0)
+  })
+})
+
+describe('battle engine', () => {
+  it('should give a severe pest more HP and turns', () => {
+    expect(getBattleStats('aphids', 'low')).toEqual({ hp: 80, max_hp: 80, resistance: 0.1, turns_played: 0, max_turns: 3 })
+    expect(getBattleStats('late_blight', 'high')).toEqual(expect.objectContaining({ max_hp: 300, max_turns: 7 }))
+  })
+
+  it('should look up efficacy by pest, with a default for the rest', () => {
+    expect(getTreatmentEfficacy(treatment('bt_spray'), 'caterpillars')).toBe(0.55)
+    expect(getTreatmentEfficacy(treatment('bt_spray'), 'aphids')).toBe(0.05)
+  })
+
+  it('should dose by plot area', () => {
+    expect(getTreatmentDose(treatment('imidacloprid'), 0.5)).toBe(0.13)
+  })
+
+  it('should take off efficacy less resistance, varied by the roll', () => {
+    expect(calculateTurnDamage(100, 0.6, 0.1, 0.5)).toBe(54)
+    expect(calculateTurnDamage(100, 0.6, 0.1, 0)).toBe(46)
+    expect(calculateTurnDamage(100, 0.6, 0.1, 1)).toBe(62)
+  })
+
+  it('should let an untreated pest grow back, up to its full HP', () => {
+    expect(calculateRegrowth({ hp: 40, max_hp: 100 }, 1)).toBe(0)
+    expect(calculateRegrowth({ hp: 40, max_hp: 100 }, 3)).toBe(20)
+    expect(calculateRegrowth({ hp: 90, max_hp: 100 }, 5)).toBe(10)
+  })
+
+  it('should rate a battle by how much of the pest was controlled', () => {
+    expect(calculateSuccessRate(0, 120)).toBe(1)
+    expect(calculateSuccessRate(30, 120)).toBe(0.75)
+  })
+})
+
+describe('MockPestService battles', () => {
+  it('should fight a battle over daily turns until the pest is beaten', async () => {
+    jest.useFakeTimers({ doNotFake: ['setTimeout'] }).setSystemTime(new Date('2024-06-01T08:00:00Z'))
+    jest.spyOn(Math, 'random').mockReturnValue(1)
+    const service = new MockPestService()
+
+    const battle = await service.createPestBattle('plot-1', 'aphids', 'low')
+    const first = await service.playTurn(battle.id, 'imidacloprid')
+
+    expect(first.turn).toEqual(expect.objectContaining({ turn_number: 1, damage: 50, hp_after: 30 }))
+    expect(first.battle.status).toBe('active')
+    await expect(service.playTurn(battle.id, 'imidacloprid')).rejects.toThrow('Already treated today')
+
+    jest.setSystemTime(new Date('2024-06-02T08:00:00Z'))
+    // Resistance to imidacloprid has built up to 0.15
+    const second = await service.playTurn(battle.id, 'imidacloprid')
+
+    expect(second.battle).toEqual(expect.objectContaining({
+      status: 'resolved',
+      hp: 0,
+      success_rate: 1,
+      resistance: 0.2,
+      treatment_used: 'Imidacloprid'
+    }))
+    expect(second.turn.damage).toBe(47)
+    expect(second.xpAwarded).toBe(15)
+    expect(await service.getBattleTurns(battle.id)).toHaveLength(2)
+
+    jest.restoreAllMocks()
+    jest.useRealTimers()
+  })
+
+  it('should only resolve a battle by giving up', async () => {
+    jest.useFakeTimers({ doNotFake: ['setTimeout'] }).setSystemTime(new Date('2024-06-01T08:00:00Z'))
+    jest.spyOn(Math, 'random').mockReturnValue(1)
+    const service = new MockPestService()
+
+    const battle = await service.createPestBattle('plot-1', 'aphids', 'low')
+    await expect(service.resolvePestBattle(battle.id, true)).rejects.toThrow('Pest battles are won by treating the pest')
+
+    await service.playTurn(battle.id, 'imidacloprid')
+    const result = await service.resolvePestBattle(battle.id, false)
+
+    // 50 of 80 HP taken off, and 30% of the reward for fighting
+    expect(result.battle).toEqual(expect.objectContaining({ status: 'resolved', success_rate: 0.63 }))
+    expect(result.xpAwarded).toBe(5)
+    await expect(service.resolvePestBattle(battle.id, false)).rejects.toThrow('Battle already resolved')
+
+    jest.restoreAllMocks()
+    jest.useRealTimers()
+  })
+})
@@ -0,0 +1,131 @@
+// Test suite for growing degree day phenology
+
+import {
+  addDays,
+  calculateGDD,
+  getCropPhenologyModel,
+  getTypicalSeasonDays,
+  predictHarvestWindow,
+  projectPhenology
+} from '../../utils/phenology'
+import { DailyTemperature } from '../../types'
+
+const steadyWeather = (from: string, days: number, min: number, max: number): DailyTemperature[] =>
+  Array.from({ length: days }, (_, i) => ({ date: addDays(from, i), min, max }))
+
+describe('calculateGDD', () => {
+  it('should hold temperatures between the base and upper limits', () => {
+    expect(calculateGDD(20, 30, 10, 35)).toBe(15)
+    expect(calculateGDD(5, 25, 10, 35)).toBe(7.5) // minimum raised to the base
+    expect(calculateGDD(28, 42, 10, 30)).toBe(19) // maximum capped at the upper limit
+    expect(calculateGDD(-2, 8, 10, 35)).toBe(0)
+  })
+})
+
+describe('getCropPhenologyModel', () => {
+  it('should match crops by alias and scale known varieties', () => {
+    const maize = getCropPhenologyModel('Maize')
+    const basmati = getCropPhenologyModel('rice', 'pusa basmati 1121')
+
+    expect(maize.name).toBe('corn')
+    expect(maize.generic).toBe(false)
+    expect(basmati.variety).toBe('Pusa Basmati 1121')
+    expect(getTypicalSeasonDays(basmati)).toBeGreaterThan(getTypicalSeasonDays(getCropPhenologyModel('rice')))
+  })
+
+  it('should keep the crop stages for an unknown variety', () => {
+    const model = getCropPhenologyModel('wheat', 'Local')
+
+    expect(model.variety).toBe('Local')
+    expect(model.stages).toEqual(getCropPhenologyModel('wheat').stages)
+  })
+
+  it('should fall back to a generic 90-day season', () => {
+    const model = getCropPhenologyModel('Dragon fruit')
+
+    expect(model.generic).toBe(true)
+    expect(getTypicalSeasonDays(model)).toBe(90)
+  })
+})
+
+describe('projectPhenology', () => {
+  it('should reproduce typical stage dates without weather', () => {
+    const phenology = projectPhenology(getCropPhenologyModel('Dragon fruit'), '2024-03-01', [], '2024-02-20')
+
+    expect(phenology.stages.map(stage => stage.start_date)).toEqual([
+      '2024-03-08', '2024-03-22', '2024-04-05', '2024-04-20', '2024-05-10'
+    ])
+    expect(phenology.harvest_window).toEqual({ start: '2024-05-30', end: '2024-06-13' })
+    expect(phenology.accumulated_gdd).toBe(0)
+    expect(phenology.current_stage).toBeNull()
+    expect(phenology.estimated_days).toBe(90)
+  })
+
+  it('should bring stages forward in warm weather', () => {
+    const model = getCropPhenologyModel('rice')
+    const typical = projectPhenology(model, '2024-06-15', [], '2024-06-01')
+    // 30 °C days give 20 degree days against rice's typical 15
+    const warm = projectPhenology(model, '2024-06-15', steadyWeather('2024-06-15', 200, 25, 35), '2024-06-01')
+
+    expect(warm.harvest_window.start < typical.harvest_window.start).toBe(true)
+    expect(warm.harvest_window.start).toBe(addDays('2024-06-15', 1800 / 20))
+    expect(warm.estimated_days).toBe(0)
+  })
+
+  it('should track the current stage from observed weather', () => {
+    const model = getCropPhenologyModel('corn')
+    // 15 degree days a day for the 30 days since sowing
+    const phenology = projectPhenology(model, '2024-05-01', steadyWeather('2024-05-01', 30, 20, 30), '2024-05-31')
+
+    expect(phenology.accumulated_gdd).toBe(450)
+    expect(phenology.current_stage).toBe('vegetative')
+    expect(phenology.stages.map(stage => stage.status)).toEqual(['completed', 'current', 'pending', 'pending', 'pending'])
+    expect(phenology.progress).toBeCloseTo(30, 5)
+    // Past the weather the projection continues at the recent rate
+    expect(phenology.harvest_window.start).toBe(addDays('2024-05-01', 1500 / 15))
+    expect(phenology.estimated_days).toBe(70)
+  })
+
+  it('should mark a crop past its degree days as mature', () => {
+    const phenology = projectPhenology(getCropPhenologyModel('lettuce'), '2024-01-01', [], '2024-06-01')
+
+    expect(phenology.progress).toBe(100)
+    expect(phenology.current_stage).toBe('mature')
+    expect(phenology.stages.every(stage => stage.status === 'completed')).toBe(true)
+  })
+})
+
+describe('predictHarvestWindow', () => {
+  it('should narrow the intervals as the season is measured', () => {
+    const model = getCropPhenologyModel('corn')
+    const unmeasured = predictHarvestWindow('2024-05-01', projectPhenology(model, '2024-05-01', [], '2024-05-31'), '2024-05-31')
+    const measured = predictHarvestWindow(
+      '2024-05-01',
+      projectPhenology(model, '2024-05-01', steadyWeather('2024-05-01', 30, 20, 30), '2024-05-31'),
+      '2024-05-31'
+    )
+
+    // 70 of the 100 days to harvest are assumed: ±11 days
+    expect(measured.window_open).toEqual({ date: '2024-08-09', earliest: '2024-07-29', latest: '2024-08-20' })
+    expect(measured.measured_share).toBe(0.3)
+    expect(measured.confidence_level).toBe(0.8)
+    expect(unmeasured.measured_share).toBe(0)
+    expect(unmeasured.window_open.latest > measured.window_open.latest).toBe(true)
+  })
+
+  it('should be less sure of crops outside the catalog and never open before today', () => {
+    const phenology = projectPhenology(getCropPhenologyModel('Dragon fruit'), '2024-03-01', [], '2024-05-10')
+    const estimate = predictHarvestWindow('2024-03-01', phenology, '2024-05-10')
+
+    expect(estimate.generic).toBe(true)
+    expect(estimate.window_open).toEqual({ date: '2024-05-30', earliest: '2024-05-10', latest: '2024-06-28' })
+  })
+
+  it('should fix the window of a mature crop', () => {
+    const phenology = projectPhenology(getCropPhenologyModel('lettuce'), '2024-01-01', [], '2024-06-01')
+    const estimate = predictHarvestWindow('2024-01-01', phenology, '2024-06-01')
+
+    expect(estimate.window_open.earliest).toBe(estimate.window_open.date)
+    expect(estimate.window_close.latest).toBe(estimate.window_close.date)
+  })
+})
@@ -0,0 +1,84 @@
+// Test suite for the crop rotation rule engine
+
+import { RotationRule } from '../../types'
+import { evaluateRotation, getCropFamily } from '../../utils/rotation'
+
+const crop = (id: string, name: string, sownDate: string) => ({ id, name, sown_date: sownDate })
+
+describe('getCropFamily', () => {
+  it('should find families by name and catalog alias', () => {
+    expect(getCropFamily('Tomato')).toBe('solanaceae')
+    expect(getCropFamily('Maize')).toBe('poaceae')
+    expect(getCropFamily(' chickpea ')).toBe('fabaceae')
+    expect(getCropFamily('dragon fruit')).toBeUndefined()
+  })
+})
+
+describe('evaluateRotation', () => {
+  it('should warn when a family follows itself too soon', () => {
+    const evaluation = evaluateRotation(
+      [crop('c1', 'potatoes', '2023-11-10'), crop('c0', 'wheat', '2022-11-15')],
+      'tomatoes',
+      '2024 kharif'
+    )
+
+    expect(evaluation.family).toBe('solanaceae')
+    // Two seasons on the nematode break is already long enough
+    expect(evaluation.issues.map(issue => [issue.code, issue.rule_id, issue.seasons_since])).toEqual([
+      ['FAMILY_REPEAT', 'solanaceae-interval', 2]
+    ])
+    expect(evaluation.issues[0]).toMatchObject({
+      type: 'VALIDATION_ERROR',
+      severity: 'warning',
+      conflicting_crop: { id: 'c1', name: 'potatoes', season: '2023-24 rabi' },
+      required_seasons: 3
+    })
+    expect(evaluation.score).toBe(70)
+  })
+
+  it('should flag disease carry-over between host crops of different families', () => {
+    const evaluation = evaluateRotation([crop('c1', 'okra', '2024-04-10')], 'carrots', '2024 kharif')
+
+    expect(evaluation.issues).toHaveLength(1)
+    expect(evaluation.issues[0]).toMatchObject({ code: 'DISEASE_BREAK', rule_id: 'root-knot-nematode', seasons_since: 1 })
+    expect(evaluation.issues[0].message).toContain('grow a break crop such as rice, wheat, mustard first')
+    expect(evaluation.score).toBe(80)
+  })
+
+  it('should credit nitrogen from a recent legume', () => {
+    const evaluation = evaluateRotation([crop('c1', 'moong', '2024-04-05')], 'rice', '2024 kharif')
+
+    expect(evaluation.issues).toEqual([])
+    expect(evaluation.credits).toEqual([expect.objectContaining({
+      rule_id: 'legume-nitrogen',
+      source_crop: { id: 'c1', name: 'moong', season: '2024 zaid' },
+      nitrogen_credit_kg_ha: 30
+    })])
+  })
+
+  it('should ignore crops of the same or later seasons', () => {
+    const evaluation = evaluateRotation(
+      [crop('c1', 'tomatoes', '2024-06-20'), crop('c2', 'peppers', '2024-12-01')],
+      'peppers',
+      '2024 kharif'
+    )
+
+    expect(evaluation.issues).toEqual([])
+    expect(evaluation.score).toBe(100)
+  })
+
+  it('should apply custom rules', () => {
+    const rules: RotationRule[] = [
+      { id: 'no-cereal-monoculture', type: 'family_interval', family: 'poaceae', min_seasons: 2, penalty: 50 }
+    ]
+
+    const evaluation = evaluateRotation([crop('c1', 'rice', '2024-06-20')], 'wheat', '2024-25 rabi', rules)
+
+    expect(evaluation.issues.map(issue => issue.rule_id)).toEqual(['no-cereal-monoculture'])
+    expect(evaluation.score).toBe(50)
+  })
+
+  it('should reject unknown seasons', () => {
+    expect(() => evaluateRotation([], 'rice', 'monsoon')).toThrow('Unknown season: monsoon')
+  })
+})
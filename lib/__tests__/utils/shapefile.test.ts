@@ -0,0 +1,73 @@
+// Test suite for Shapefile reading and writing
+
+import { isWGS84Projection, parseShapefile, writeShapefile, WGS84_PRJ } from '../../utils/shapefile'
+import { createZip, readZip } from '../../utils/zip'
+
+describe('Shapefile', () => {
+  const fieldWithPond: GeoJSON.Polygon = {
+    type: 'Polygon',
+    coordinates: [
+      [[78.4, 17.4], [78.404, 17.4], [78.404, 17.404], [78.4, 17.404], [78.4, 17.4]],
+      [[78.401, 17.401], [78.401, 17.402], [78.402, 17.402], [78.402, 17.401], [78.401, 17.401]]
+    ]
+  }
+
+  const splitField: GeoJSON.MultiPolygon = {
+    type: 'MultiPolygon',
+    coordinates: [
+      [[[75.85, 30.9], [75.851, 30.9], [75.851, 30.901], [75.85, 30.9]]],
+      [[[75.852, 30.9], [75.853, 30.9], [75.853, 30.901], [75.852, 30.9]]]
+    ]
+  }
+
+  const features = [
+    { type: 'Feature' as const, geometry: fieldWithPond, properties: { name: 'Orchard', area_ha: 15.2, irrigated: true } },
+    { type: 'Feature' as const, geometry: splitField, properties: { name: 'Paddy', area_ha: 1.5, irrigated: false } },
+    { type: 'Feature' as const, geometry: null, properties: { name: 'Unsurveyed', area_ha: null, irrigated: null } }
+  ]
+
+  it('should write the standard headers', () => {
+    const { shp, shx } = writeShapefile(features)
+    const view = new DataView(shp.buffer)
+
+    expect(view.getInt32(0, false)).toBe(9994)
+    expect(view.getInt32(24, false) * 2).toBe(shp.length)
+    expect(view.getInt32(32, true)).toBe(5) // polygon
+    expect(shx.length).toBe(100 + 3 * 8)
+  })
+
+  it('should store outer rings clockwise, as the specification requires', () => {
+    const { shp } = writeShapefile(features.slice(0, 1))
+    const view = new DataView(shp.buffer)
+    // Second point of the outer ring: clockwise from the south-west corner goes north
+    expect([view.getFloat64(100 + 8 + 52 + 16, true), view.getFloat64(100 + 8 + 52 + 24, true)]).toEqual([78.4, 17.404])
+  })
+
+  it('should round-trip geometry and attributes', () => {
+    const layer = writeShapefile(features)
+    const parsed = parseShapefile(layer.shp, layer.dbf, layer.prj)
+
+    expect(parsed.map(feature => feature.geometry)).toEqual([fieldWithPond, splitField, null])
+    expect(parsed.map(feature => feature.properties)).toEqual(features.map(feature => feature.properties))
+  })
+
+  it('should survive a trip through a zip archive', async () => {
+    const layer = writeShapefile(features)
+    const archive = createZip([
+      { name: 'fields/plots.shp', data: layer.shp },
+      { name: 'fields/plots.dbf', data: layer.dbf }
+    ])
+
+    const files = await readZip(archive)
+    expect(Array.from(files.keys())).toEqual(['fields/plots.shp', 'fields/plots.dbf'])
+    expect(parseShapefile(files.get('fields/plots.shp')!, files.get('fields/plots.dbf'))).toHaveLength(3)
+  })
+
+  it('should only accept geographic WGS84 layers', () => {
+    const utm = 'PROJCS["WGS_1984_UTM_Zone_44N",GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984"]]]'
+
+    expect(isWGS84Projection(WGS84_PRJ)).toBe(true)
+    expect(isWGS84Projection(utm)).toBe(false)
+    expect(() => parseShapefile(writeShapefile(features).shp, undefined, utm)).toThrow('EPSG:4326')
+  })
+})
@@ -0,0 +1,68 @@
+// Test suite for snapping plot boundaries onto neighbouring plots
+
+import { snapToNeighbours } from '../../utils/snapping'
+import { geodesicDistance } from '../../utils/geodesic'
+import { PlotGeometry } from '../../types'
+
+describe('snapToNeighbours', () => {
+  // About 100 m x 110 m in Punjab
+  const neighbour: PlotGeometry = {
+    type: 'Polygon',
+    coordinates: [[[75.85, 30.9], [75.851, 30.9], [75.851, 30.901], [75.85, 30.901], [75.85, 30.9]]]
+  }
+
+  // Drawn east of the neighbour with its west edge about 0.5 m off
+  const drawn: PlotGeometry = {
+    type: 'Polygon',
+    coordinates: [[[75.851005, 30.9], [75.852, 30.9], [75.852, 30.901], [75.851005, 30.901], [75.851005, 30.9]]]
+  }
+
+  it('should snap vertices onto neighbour corners exactly', () => {
+    const result = snapToNeighbours(drawn, [neighbour], 2)
+    const ring = (result.geometry as GeoJSON.Polygon).coordinates[0]
+
+    expect(result.snappedVertices).toBe(2)
+    expect(ring[0]).toEqual([75.851, 30.9])
+    expect(ring[3]).toEqual([75.851, 30.901])
+    expect(ring[ring.length - 1]).toEqual(ring[0])
+  })
+
+  it('should leave vertices beyond the tolerance untouched', () => {
+    const result = snapToNeighbours(drawn, [neighbour], 0.1)
+
+    expect(result.snappedVertices).toBe(0)
+    expect(result.geometry).toBe(drawn)
+  })
+
+  it('should snap onto neighbour edges when no corner is close', () => {
+    // A narrow field whose west corners sit midway along the neighbour's east edge
+    const narrow: PlotGeometry = {
+      type: 'Polygon',
+      coordinates: [[[75.851004, 30.9003], [75.852, 30.9003], [75.852, 30.9006], [75.851004, 30.9006], [75.851004, 30.9003]]]
+    }
+    const ring = (snapToNeighbours(narrow, [neighbour], 2).geometry as GeoJSON.Polygon).coordinates[0]
+
+    expect(geodesicDistance(ring[0], [75.851, 30.9003])).toBeLessThan(0.001)
+    expect(geodesicDistance(ring[3], [75.851, 30.9006])).toBeLessThan(0.001)
+    expect(ring[1]).toEqual([75.852, 30.9003])
+  })
+
+  it('should add neighbour corners along a shared edge', () => {
+    // A long field alongside two neighbours that meet halfway along its edge
+    const south: PlotGeometry = {
+      type: 'Polygon',
+      coordinates: [[[75.85, 30.9], [75.851, 30.9], [75.851, 30.9005], [75.85, 30.9005], [75.85, 30.9]]]
+    }
+    const north: PlotGeometry = {
+      type: 'Polygon',
+      coordinates: [[[75.85, 30.9005], [75.851, 30.9005], [75.851, 30.901], [75.85, 30.901], [75.85, 30.9005]]]
+    }
+
+    const result = snapToNeighbours(drawn, [south, north], 2)
+    const ring = (result.geometry as GeoJSON.Polygon).coordinates[0]
+
+    expect(result.insertedVertices).toBe(1)
+    expect(ring).toContainEqual([75.851, 30.9005])
+    expect(ring).toHaveLength(6)
+  })
+})
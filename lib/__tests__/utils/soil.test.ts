@@ -0,0 +1,93 @@
+// Test suite for soil test interpretation
+
+import { assessSoil, classifyPH, getCropSeason, getCropSeasonIndex, getCropSeasonRange, getNextCropSeason, rateSoilValue } from '../../utils/soil'
+import { parseCSV } from '../../utils/csv'
+
+describe('soil utilities', () => {
+  it('should rate nutrients against Soil Health Card ranges', () => {
+    expect(rateSoilValue('nitrogen_kg_ha', 196)).toBe('low')
+    expect(rateSoilValue('nitrogen_kg_ha', 400)).toBe('medium')
+    expect(rateSoilValue('nitrogen_kg_ha', 600)).toBe('high')
+    expect(rateSoilValue('zinc', 0.5)).toBe('low')
+  })
+
+  it('should classify pH', () => {
+    expect(classifyPH(5.2)).toBe('strongly_acidic')
+    expect(classifyPH(6.0)).toBe('acidic')
+    expect(classifyPH(7.0)).toBe('neutral')
+    expect(classifyPH(8.0)).toBe('alkaline')
+    expect(classifyPH(9.1)).toBe('strongly_alkaline')
+  })
+
+  it('should turn deficiencies into advice', () => {
+    const assessment = assessSoil({
+      ph: 8.9,
+      ec_ds_m: 4.5,
+      nitrogen_kg_ha: 196,
+      phosphorus_kg_ha: 30,
+      potassium_kg_ha: 150,
+      organic_carbon_pct: 0.38,
+      micronutrients: { zinc: 0.52, iron: 6.1 }
+    })
+
+    expect(assessment.ratings).toEqual({
+      nitrogen_kg_ha: 'low',
+      phosphorus_kg_ha: 'high',
+      potassium_kg_ha: 'medium',
+      organic_carbon_pct: 'low',
+      zinc: 'low',
+      iron: 'medium'
+    })
+    expect(assessment.ph_class).toBe('strongly_alkaline')
+    expect(assessment.saline).toBe(true)
+    expect(assessment.recommendations).toEqual([
+      'Apply nitrogen in split doses: soil N is low (196 kg/ha)',
+      'Skip phosphorus this season: soil P is high (30 kg/ha)',
+      'Add farmyard manure or compost: organic carbon is low (0.38%)',
+      'Apply zinc sulphate: zinc is deficient (0.52 ppm)',
+      'Apply gypsum: soil is strongly alkaline (pH 8.9)',
+      'Leach salts with good-quality irrigation water: soil is saline (EC 4.5 dS/m)'
+    ])
+  })
+
+  it('should name cropping seasons', () => {
+    expect(getCropSeason('2023-07-15')).toBe('2023 kharif')
+    expect(getCropSeason('2023-11-20')).toBe('2023-24 rabi')
+    expect(getCropSeason('2024-02-01')).toBe('2023-24 rabi')
+    expect(getCropSeason('2024-04-30')).toBe('2024 zaid')
+  })
+
+  it('should turn season names back into date ranges', () => {
+    expect(getCropSeasonRange('2023 kharif')).toEqual({ from: '2023-06-01', to: '2023-10-31' })
+    expect(getCropSeasonRange('2023-24 Rabi')).toEqual({ from: '2023-11-01', to: '2024-03-31' })
+    expect(getCropSeasonRange('2024 zaid')).toEqual({ from: '2024-04-01', to: '2024-05-31' })
+    expect(getCropSeasonRange('2023-25 rabi')).toBeNull()
+    expect(getCropSeasonRange('summer')).toBeNull()
+  })
+
+  it('should count seasons in order and step to the next one', () => {
+    expect(getCropSeasonIndex('2024 kharif')! - getCropSeasonIndex('2023 kharif')!).toBe(3)
+    expect(getCropSeasonIndex('2023-24 rabi')! - getCropSeasonIndex('2023 kharif')!).toBe(1)
+    expect(getNextCropSeason('2024 zaid')).toBe('2024 kharif')
+    expect(getNextCropSeason('2024 kharif')).toBe('2024-25 rabi')
+    expect(getNextCropSeason('2099-00 rabi')).toBe('2100 zaid')
+    expect(() => getNextCropSeason('spring')).toThrow('Unknown season: spring')
+  })
+})
+
+describe('parseCSV', () => {
+  it('should handle quoted fields, escaped quotes and CRLF line endings', () => {
+    const rows = parseCSV('﻿name,notes\r\n"Field, north","said ""wet"""\r\n\r\nsouth,"two\nlines"\r\n')
+
+    expect(rows).toEqual([
+      ['name', 'notes'],
+      ['Field, north', 'said "wet"'],
+      ['south', 'two\nlines']
+    ])
+  })
+
+  it('should detect semicolon and tab delimiters', () => {
+    expect(parseCSV('a;b\n1,5;2\n')).toEqual([['a', 'b'], ['1,5', '2']])
+    expect(parseCSV('a\tb\n1\t2')).toEqual([['a', 'b'], ['1', '2']])
+  })
+})
@@ -0,0 +1,56 @@
+// Test suite for Web Mercator tile utilities
+
+import { clipRing, isValidTile, metersPerPixel, positionToTilePixel, tileToBoundingBox } from '../../utils/tiles'
+
+describe('tile utilities', () => {
+  it('should validate tile coordinates', () => {
+    expect(isValidTile(0, 0, 0)).toBe(true)
+    expect(isValidTile(16, 46576, 26848)).toBe(true)
+    expect(isValidTile(2, 4, 0)).toBe(false)
+    expect(isValidTile(2, -1, 0)).toBe(false)
+    expect(isValidTile(1.5, 0, 0)).toBe(false)
+  })
+
+  it('should compute tile bounds', () => {
+    const world = tileToBoundingBox(0, 0, 0)
+    expect(world.west).toBe(-180)
+    expect(world.east).toBe(180)
+    expect(world.north).toBeCloseTo(85.0511, 4)
+    expect(world.south).toBeCloseTo(-85.0511, 4)
+
+    const bounds = tileToBoundingBox(16, 46576, 26848)
+    expect(bounds.west).toBeLessThan(75.85)
+    expect(bounds.east).toBeGreaterThan(75.852)
+    expect(bounds.south).toBeLessThan(30.9)
+    expect(bounds.north).toBeGreaterThan(30.902)
+  })
+
+  it('should place positions inside their tile with y pointing down', () => {
+    const [x, y] = positionToTilePixel([75.85, 30.9], 16, 46576, 26848, 4096)
+    expect(x).toBeCloseTo(0.0711 * 4096, 0)
+    expect(y).toBeCloseTo(0.472 * 4096, 0)
+
+    const [, north] = positionToTilePixel([75.85, 30.902], 16, 46576, 26848, 4096)
+    expect(north).toBeLessThan(y)
+  })
+
+  it('should halve the pixel size with every zoom level', () => {
+    expect(metersPerPixel(0, 0)).toBeCloseTo(156543.03, 1)
+    expect(metersPerPixel(10, 0)).toBeCloseTo(metersPerPixel(9, 0) / 2, 6)
+    expect(metersPerPixel(10, 60)).toBeCloseTo(metersPerPixel(10, 0) / 2, 6)
+  })
+
+  it('should clip rings to the tile', () => {
+    const clipped = clipRing([[-10, -10], [20, -10], [20, 20], [-10, 20]], 0, 10)
+    expect(clipped).toHaveLength(4)
+    clipped.forEach(point => {
+      expect(point[0]).toBeGreaterThanOrEqual(0)
+      expect(point[0]).toBeLessThanOrEqual(10)
+      expect(point[1]).toBeGreaterThanOrEqual(0)
+      expect(point[1]).toBeLessThanOrEqual(10)
+    })
+
+    expect(clipRing([[2, 2], [8, 2], [5, 8]], 0, 10)).toEqual([[2, 2], [8, 2], [5, 8]])
+    expect(clipRing([[20, 20], [30, 20], [25, 30]], 0, 10)).toEqual([])
+  })
+})
@@ -0,0 +1,21 @@
+// Test suite for unit conversion
+
+import { convertQuantity } from '../../utils/units'
+
+describe('convertQuantity', () => {
+  it('should convert within volume and mass units', () => {
+    expect(convertQuantity(2500, 'litres', 'm3')).toBeCloseTo(2.5, 10)
+    expect(convertQuantity(250, 'ml', 'L')).toBeCloseTo(0.25, 10)
+    expect(convertQuantity(2, 'quintals', 'kg')).toBe(200)
+    expect(convertQuantity(500, 'g', 'kg')).toBeCloseTo(0.5, 10)
+  })
+
+  it('should pass through identical units, even unknown ones', () => {
+    expect(convertQuantity(3, 'Bags', 'bags')).toBe(3)
+  })
+
+  it('should refuse to convert between dimensions or unknown units', () => {
+    expect(convertQuantity(10, 'L', 'kg')).toBeNull()
+    expect(convertQuantity(3, 'bags', 'kg')).toBeNull()
+  })
+})
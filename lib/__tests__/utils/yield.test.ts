@@ -0,0 +1,111 @@
+// Test suite for yield calculations
+
+import { CropHarvestRecord } from '../../types'
+import { adjustToStandardMoisture, compareYields, median, summarizeCropYields } from '../../utils/yield'
+
+const harvest = (overrides: Partial<CropHarvestRecord>): CropHarvestRecord => ({
+  id: 'harvest-1',
+  crop_id: 'crop-1',
+  plot_id: 'plot-1',
+  user_id: 'user-1',
+  harvested_at: '2024-04-10',
+  weight_kg: 1000,
+  area_hectares: 0.5,
+  created_at: '2024-04-10T00:00:00Z',
+  crop_name: 'Wheat',
+  variety: 'HD 2967',
+  sown_date: '2023-11-15',
+  plot_name: 'North field',
+  ...overrides
+})
+
+describe('adjustToStandardMoisture', () => {
+  it('should scale wet grain down and dry grain up', () => {
+    expect(adjustToStandardMoisture(1000, 20, 12)).toBeCloseTo(909.09, 2)
+    expect(adjustToStandardMoisture(1000, 10, 12)).toBeCloseTo(1022.73, 2)
+  })
+
+  it('should leave weights without a reading unchanged', () => {
+    expect(adjustToStandardMoisture(1000, undefined, 12)).toBe(1000)
+    expect(adjustToStandardMoisture(1000, 20, undefined)).toBe(1000)
+  })
+})
+
+describe('median', () => {
+  it('should take the middle value or the mean of the middle two', () => {
+    expect(median([3, 1, 2])).toBe(2)
+    expect(median([4, 1, 3, 2])).toBe(2.5)
+    expect(median([])).toBeNull()
+  })
+})
+
+describe('summarizeCropYields', () => {
+  it('should total pickings over the crop area, adjusting grain to standard moisture', () => {
+    const [wheat] = summarizeCropYields([
+      harvest({ id: 'h1', weight_kg: 1200, moisture_pct: 12, grade: 'A' }),
+      harvest({ id: 'h2', weight_kg: 1000, moisture_pct: 20, grade: 'B' }),
+      harvest({ id: 'h3', weight_kg: 100, grade: 'A', area_hectares: 0.1 })
+    ])
+
+    expect(wheat).toMatchObject({
+      crop_id: 'crop-1',
+      crop_name: 'wheat',
+      season: '2023-24 rabi',
+      area_hectares: 0.5,
+      harvested_kg: 2300,
+      adjusted_kg: 2209.09, // 1200 + 909.09 + 100
+      yield_kg_ha: 4418.18,
+      harvests: 3,
+      grades: { A: 1300, B: 1000 }
+    })
+  })
+
+  it('should not adjust produce the catalog has no standard moisture for', () => {
+    const [tomatoes] = summarizeCropYields([
+      harvest({ crop_name: 'Tomato', weight_kg: 5000, moisture_pct: 94 })
+    ])
+
+    expect(tomatoes.crop_name).toBe('tomatoes')
+    expect(tomatoes.adjusted_kg).toBe(5000)
+    expect(tomatoes.grades).toEqual({ ungraded: 5000 })
+  })
+})
+
+describe('compareYields', () => {
+  const yields = summarizeCropYields([
+    harvest({ crop_id: 'w1', sown_date: '2023-11-15', weight_kg: 2000, variety: 'HD 2967', plot_name: 'North' }),
+    harvest({ crop_id: 'w2', sown_date: '2022-11-20', weight_kg: 1500, variety: 'HD 3086', plot_name: 'North' }),
+    harvest({ crop_id: 'w3', sown_date: '2023-11-25', weight_kg: 1000, area_hectares: 0.25, variety: 'HD 3086', plot_name: 'South' }),
+    harvest({ crop_id: 'r1', crop_name: 'paddy', sown_date: '2023-06-20', weight_kg: 3000, area_hectares: 1, plot_name: 'North' })
+  ])
+
+  it('should list seasons of each crop in order', () => {
+    const bySeason = compareYields(yields, 'season')
+
+    expect(bySeason.map(row => [row.crop_name, row.group])).toEqual([
+      ['rice', '2023 kharif'],
+      ['wheat', '2022-23 rabi'],
+      ['wheat', '2023-24 rabi']
+    ])
+    expect(bySeason[2]).toMatchObject({
+      crops: 2,
+      area_hectares: 0.75,
+      adjusted_kg: 3000,
+      yield_kg_ha: 4000,
+      min_yield_kg_ha: 4000,
+      max_yield_kg_ha: 4000
+    })
+  })
+
+  it('should rank varieties and plots by yield', () => {
+    const byVariety = compareYields(yields, 'variety').filter(row => row.crop_name === 'wheat')
+    expect(byVariety.map(row => [row.group, row.yield_kg_ha])).toEqual([
+      ['HD 2967', 4000],
+      ['HD 3086', 3333.33]
+    ])
+
+    const byPlot = compareYields(yields, 'plot').filter(row => row.crop_name === 'wheat')
+    expect(byPlot.map(row => row.group)).toEqual(['South', 'North'])
+    expect(byPlot[1]).toMatchObject({ crops: 2, yield_kg_ha: 3500, min_yield_kg_ha: 3000, max_yield_kg_ha: 4000 })
+  })
+})
@@ -0,0 +1,106 @@
+// Test suite for ZIP archive support
+
+import { deflateRawSync } from 'zlib'
+import { createZip, inflateRaw, listZip, readZip } from '../../utils/zip'
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+// A KML-like document: repetitive, so deflate uses back references
+const kml = encoder.encode(
+  '<?xml version="1.0" encoding="UTF-8"?><kml><Document>' +
+  Array.from({ length: 200 }, (_, i) =>
+    `<Placemark><name>Field ${i}</name><Polygon><coordinates>78.${i},17.4 78.${i + 1},17.4 78.${i},17.5</coordinates></Polygon></Placemark>`
+  ).join('') +
+  '</Document></kml>'
+)
+
+describe('inflateRaw', () => {
+  it('should inflate dynamic Huffman blocks', () => {
+    expect(decoder.decode(inflateRaw(deflateRawSync(kml)))).toBe(decoder.decode(kml))
+  })
+
+  it('should inflate fixed Huffman blocks', () => {
+    const short = encoder.encode('Mango orchard, Mango orchard')
+    expect(decoder.decode(inflateRaw(deflateRawSync(short)))).toBe('Mango orchard, Mango orchard')
+  })
+
+  it('should inflate stored blocks', () => {
+    const random = Uint8Array.from({ length: 70000 }, (_, i) => (i * 2654435761) >>> 24)
+    expect(inflateRaw(deflateRawSync(random, { level: 0 }))).toEqual(random)
+  })
+
+  it('should reject truncated data', () => {
+    const deflated = deflateRawSync(kml)
+    expect(() => inflateRaw(deflated.subarray(0, deflated.length / 2))).toThrow('Invalid deflate data')
+  })
+
+  it('should stop once the output passes its limit', () => {
+    const zeros = deflateRawSync(new Uint8Array(1024 * 1024))
+    expect(() => inflateRaw(zeros, 4096)).toThrow('Invalid deflate data: output exceeds 4096 bytes')
+  })
+})
+
+describe('readZip', () => {
+  it('should read back the files createZip stores', async () => {
+    const zip = createZip([{ name: 'doc.kml', data: kml }, { name: 'notes.txt', data: encoder.encode('north field') }])
+    const files = await readZip(zip)
+
+    expect(Array.from(files.keys())).toEqual(['doc.kml', 'notes.txt'])
+    expect(decoder.decode(files.get('notes.txt')!)).toBe('north field')
+  })
+
+  // An archive holding doc.kml deflated, declaring the given uncompressed size
+  const deflatedZip = (content: Uint8Array, declaredSize = content.length): Uint8Array => {
+    const compressed = deflateRawSync(content)
+    const name = encoder.encode('doc.kml')
+    const output = new Uint8Array(30 + name.length + compressed.length + 46 + name.length + 22)
+    const view = new DataView(output.buffer)
+    view.setUint32(0, 0x04034b50, true)
+    view.setUint16(8, 8, true)
+    view.setUint32(18, compressed.length, true)
+    view.setUint32(22, declaredSize, true)
+    view.setUint16(26, name.length, true)
+    output.set(name, 30)
+    output.set(compressed, 30 + name.length)
+
+    const central = 30 + name.length + compressed.length
+    view.setUint32(central, 0x02014b50, true)
+    view.setUint16(central + 10, 8, true)
+    view.setUint32(central + 20, compressed.length, true)
+    view.setUint32(central + 24, declaredSize, true)
+    view.setUint16(central + 28, name.length, true)
+    output.set(name, central + 46)
+
+    const eocd = central + 46 + name.length
+    view.setUint32(eocd, 0x06054b50, true)
+    view.setUint16(eocd + 8, 1, true)
+    view.setUint16(eocd + 10, 1, true)
+    view.setUint32(eocd + 12, 46 + name.length, true)
+    view.setUint32(eocd + 16, central, true)
+    return output
+  }
+
+  it('should only extract the entries the filter keeps', async () => {
+    const zip = createZip([{ name: 'doc.kml', data: kml }, { name: 'photos/field.jpg', data: new Uint8Array(10) }])
+
+    const files = await readZip(zip, { filter: name => name.endsWith('.kml') })
+
+    expect(Array.from(files.keys())).toEqual(['doc.kml'])
+    expect(listZip(zip)).toEqual(['doc.kml', 'photos/field.jpg'])
+  })
+
+  it('should refuse entries declared larger than the limits', async () => {
+    const zip = createZip([{ name: 'doc.kml', data: kml }, { name: 'notes.txt', data: encoder.encode('north field') }])
+
+    await expect(readZip(zip, { maxEntrySize: 1000 })).rejects.toThrow('ZIP entry doc.kml is larger than 1000 bytes')
+    await expect(readZip(zip, { maxTotalSize: kml.length })).rejects.toThrow(`ZIP archive contents are larger than ${kml.length} bytes`)
+  })
+
+  it('should not inflate an entry past its declared size', async () => {
+    const bomb = deflatedZip(new Uint8Array(8 * 1024 * 1024), 1024)
+
+    await expect(readZip(bomb)).rejects.toThrow('Invalid deflate data: output exceeds 1024 bytes')
+    expect(decoder.decode((await readZip(deflatedZip(kml))).get('doc.kml')!)).toBe(decoder.decode(kml))
+  })
+})
@@ -33,10 +33,15 @@ export interface ApiConfig {
       config: {
         bucket?: string
         region?: string
+        endpoint?: string // S3-compatible stores other than AWS
         accessKeyId?: string
         secretAccessKey?: string
       }
     }
+    pest: {
+      provider: 'mock' | 'supabase'
+      config: {}
+    }
     notifications: {
       provider: 'mock' | 'firebase' | 'onesignal' | 'pusher'
       config: {
@@ -93,10 +98,15 @@ export const defaultApiConfig: ApiConfig = {
       config: {
         bucket: process.env.STORAGE_BUCKET,
         region: process.env.STORAGE_REGION,
+        endpoint: process.env.STORAGE_ENDPOINT,
         accessKeyId: process.env.AWS_ACCESS_KEY_ID,
         secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY
       }
     },
+    pest: {
+      provider: process.env.PEST_PROVIDER as any || 'mock',
+      config: {}
+    },
     notifications: {
       provider: process.env.NOTIFICATIONS_PROVIDER as any || 'mock',
       config: {
@@ -227,6 +237,19 @@ export class ApiConfigManager {
       this.config.services.auth.provider = process.env.AUTH_PROVIDER as any
     }
 
+    // Storage
+    if (process.env.STORAGE_PROVIDER) {
+      this.config.services.storage.provider = process.env.STORAGE_PROVIDER as any
+    }
+    if (process.env.STORAGE_BUCKET) {
+      this.config.services.storage.config.bucket = process.env.STORAGE_BUCKET
+    }
+
+    // Pest battles
+    if (process.env.PEST_PROVIDER) {
+      this.config.services.pest.provider = process.env.PEST_PROVIDER as any
+    }
+
     // Fallback settings
     if (process.env.FALLBACK_ENABLED) {
       this.config.fallback.enabled = process.env.FALLBACK_ENABLED === 'true'
@@ -261,6 +284,12 @@ export class ApiConfigManager {
           !this.config.services.auth.config.apiKey) {
         errors.push('Firebase API key is required')
       }
+
+      const storage = this.config.services.storage
+      if (storage.provider === 'aws-s3' &&
+          (!storage.config.bucket || !storage.config.accessKeyId || !storage.config.secretAccessKey)) {
+        errors.push('S3 storage bucket, access key ID and secret access key are required')
+      }
     }
 
     return {
@@ -0,0 +1,186 @@
+// Crop catalog: growth stage durations and growing degree day (GDD)
+// requirements per crop and variety. Stage days are typical for Indian
+// growing seasons; GDD values are summed above each crop's base temperature.
+// Water use follows the FAO-56 crop coefficient tables. Grains carry the
+// moisture their yields are traded at.
+
+import { CropProfile } from '../types'
+
+export const CROP_CATALOG: CropProfile[] = [
+  {
+    name: 'rice',
+    aliases: ['paddy'],
+    base_temperature_c: 10,
+    max_temperature_c: 35,
+    emergence: { days: 5, gdd: 75 },
+    stages: [
+      { stage: 'seedling', days: 20, gdd: 300 },
+      { stage: 'vegetative', days: 35, gdd: 525 },
+      { stage: 'flowering', days: 15, gdd: 225 },
+      { stage: 'fruiting', days: 30, gdd: 450 },
+      { stage: 'mature', days: 15, gdd: 225 }
+    ],
+    harvest_window_days: 10,
+    water: { kc_initial: 1.05, kc_mid: 1.2, kc_end: 0.9, root_depth_m: 0.5, depletion_fraction: 0.2 },
+    standard_moisture_pct: 14,
+    varieties: [
+      { name: 'Pusa Basmati 1121', maturity_scale: 1.15 },
+      { name: 'Pusa Basmati 1509', maturity_scale: 0.9 },
+      { name: 'IR64', maturity_scale: 0.95 },
+      { name: 'Swarna', maturity_scale: 1.2 }
+    ]
+  },
+  {
+    name: 'wheat',
+    aliases: [],
+    base_temperature_c: 0,
+    max_temperature_c: 30,
+    emergence: { days: 7, gdd: 100 },
+    stages: [
+      { stage: 'seedling', days: 20, gdd: 280 },
+      { stage: 'vegetative', days: 45, gdd: 600 },
+      { stage: 'flowering', days: 15, gdd: 250 },
+      { stage: 'fruiting', days: 35, gdd: 650 },
+      { stage: 'mature', days: 15, gdd: 320 }
+    ],
+    harvest_window_days: 10,
+    water: { kc_initial: 0.7, kc_mid: 1.15, kc_end: 0.4, root_depth_m: 1.2, depletion_fraction: 0.55 },
+    standard_moisture_pct: 12,
+    varieties: [
+      { name: 'HD 2967', maturity_scale: 1.05 },
+      { name: 'HD 3086', maturity_scale: 1.05 },
+      // Late-sown variety with a shorter season
+      { name: 'HD 3059', maturity_scale: 0.85 }
+    ]
+  },
+  {
+    name: 'corn',
+    aliases: ['maize'],
+    base_temperature_c: 10,
+    max_temperature_c: 30,
+    emergence: { days: 6, gdd: 70 },
+    stages: [
+      { stage: 'seedling', days: 14, gdd: 180 },
+      { stage: 'vegetative', days: 35, gdd: 500 },
+      { stage: 'flowering', days: 10, gdd: 150 },
+      { stage: 'fruiting', days: 35, gdd: 480 },
+      { stage: 'mature', days: 10, gdd: 120 }
+    ],
+    harvest_window_days: 14,
+    water: { kc_initial: 0.3, kc_mid: 1.2, kc_end: 0.6, root_depth_m: 1.2, depletion_fraction: 0.55 },
+    standard_moisture_pct: 15.5,
+    varieties: [
+      { name: 'Sweet corn', maturity_scale: 0.75 },
+      { name: 'Baby corn', maturity_scale: 0.55 }
+    ]
+  },
+  {
+    name: 'tomatoes',
+    aliases: ['tomato'],
+    base_temperature_c: 10,
+    max_temperature_c: 32,
+    emergence: { days: 7, gdd: 70 },
+    stages: [
+      { stage: 'seedling', days: 21, gdd: 230 },
+      { stage: 'vegetative', days: 20, gdd: 260 },
+      { stage: 'flowering', days: 15, gdd: 220 },
+      { stage: 'fruiting', days: 35, gdd: 520 },
+      { stage: 'mature', days: 12, gdd: 180 }
+    ],
+    harvest_window_days: 21,
+    water: { kc_initial: 0.6, kc_mid: 1.15, kc_end: 0.8, root_depth_m: 1.0, depletion_fraction: 0.4 },
+    varieties: [
+      { name: 'Cherry', maturity_scale: 0.85 },
+      { name: 'Pusa Ruby', maturity_scale: 0.9 }
+    ]
+  },
+  {
+    name: 'potatoes',
+    aliases: ['potato'],
+    base_temperature_c: 7,
+    max_temperature_c: 30,
+    emergence: { days: 18, gdd: 180 },
+    stages: [
+      { stage: 'seedling', days: 12, gdd: 120 },
+      { stage: 'vegetative', days: 25, gdd: 280 },
+      // Tuber initiation and bulking
+      { stage: 'flowering', days: 15, gdd: 170 },
+      { stage: 'fruiting', days: 25, gdd: 300 },
+      { stage: 'mature', days: 10, gdd: 110 }
+    ],
+    harvest_window_days: 14,
+    water: { kc_initial: 0.5, kc_mid: 1.15, kc_end: 0.75, root_depth_m: 0.5, depletion_fraction: 0.35 },
+    varieties: [
+      { name: 'Kufri Jyoti', maturity_scale: 1.0 },
+      { name: 'Kufri Pukhraj', maturity_scale: 0.8 }
+    ]
+  },
+  {
+    name: 'lettuce',
+    aliases: [],
+    base_temperature_c: 4,
+    max_temperature_c: 28,
+    emergence: { days: 5, gdd: 50 },
+    // Harvested for its leaves before it flowers
+    stages: [
+      { stage: 'seedling', days: 14, gdd: 160 },
+      { stage: 'vegetative', days: 28, gdd: 360 },
+      { stage: 'mature', days: 8, gdd: 100 }
+    ],
+    harvest_window_days: 7,
+    water: { kc_initial: 0.7, kc_mid: 1.0, kc_end: 0.95, root_depth_m: 0.4, depletion_fraction: 0.3 },
+    varieties: []
+  },
+  {
+    name: 'peppers',
+    aliases: ['pepper', 'chilli', 'chillies', 'capsicum'],
+    base_temperature_c: 10,
+    max_temperature_c: 32,
+    emergence: { days: 10, gdd: 100 },
+    stages: [
+      { stage: 'seedling', days: 30, gdd: 300 },
+      { stage: 'vegetative', days: 25, gdd: 330 },
+      { stage: 'flowering', days: 15, gdd: 210 },
+      { stage: 'fruiting', days: 40, gdd: 560 },
+      { stage: 'mature', days: 10, gdd: 150 }
+    ],
+    harvest_window_days: 30,
+    water: { kc_initial: 0.6, kc_mid: 1.05, kc_end: 0.9, root_depth_m: 0.7, depletion_fraction: 0.3 },
+    varieties: []
+  },
+  {
+    name: 'carrots',
+    aliases: ['carrot'],
+    base_temperature_c: 4,
+    max_temperature_c: 30,
+    emergence: { days: 12, gdd: 140 },
+    stages: [
+      { stage: 'seedling', days: 15, gdd: 170 },
+      { stage: 'vegetative', days: 40, gdd: 520 },
+      { stage: 'mature', days: 13, gdd: 170 }
+    ],
+    harvest_window_days: 21,
+    water: { kc_initial: 0.7, kc_mid: 1.05, kc_end: 0.95, root_depth_m: 0.7, depletion_fraction: 0.35 },
+    varieties: []
+  }
+]
+
+// Used for crops missing from the catalog: the 90-day season that crop
+// timelines assumed before the catalog existed
+export const GENERIC_CROP_PROFILE: CropProfile = {
+  name: 'generic',
+  aliases: [],
+  base_temperature_c: 10,
+  max_temperature_c: 35,
+  emergence: { days: 7, gdd: 84 },
+  stages: [
+    { stage: 'seedling', days: 14, gdd: 168 },
+    { stage: 'vegetative', days: 14, gdd: 168 },
+    { stage: 'flowering', days: 15, gdd: 180 },
+    { stage: 'fruiting', days: 20, gdd: 240 },
+    { stage: 'mature', days: 20, gdd: 240 }
+  ],
+  harvest_window_days: 14,
+  water: { kc_initial: 0.5, kc_mid: 1.1, kc_end: 0.7, root_depth_m: 0.8, depletion_fraction: 0.5 },
+  varieties: []
+}
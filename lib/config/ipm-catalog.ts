@@ -0,0 +1,109 @@
+// Integrated pest management guides for each pest in the pest catalog: when
+// a pest is worth acting on and the practices that need no inputs. The
+// treatments drawn from stock are in PEST_TREATMENTS, with their pre-harvest
+// and re-entry intervals.
+
+import { IpmGuide, IpmPractice } from '../types'
+
+const MONITORING: IpmPractice = {
+  id: 'scouting',
+  name: 'Scout twice a week',
+  kind: 'cultural',
+  description: 'Walk the plot in a W pattern and check 20 plants, undersides of leaves included'
+}
+
+const SANITATION: IpmPractice = {
+  id: 'sanitation',
+  name: 'Remove infested plant material',
+  kind: 'cultural',
+  description: 'Pull and destroy badly infested leaves and plants away from the field; do not compost them'
+}
+
+export const IPM_CATALOG: Record<string, IpmGuide> = {
+  'aphids': {
+    action_threshold: 'More than 10 aphids per leaf on a quarter of the plants, or colonies on growing tips',
+    practices: [
+      MONITORING,
+      { id: 'water_jet', name: 'Hose colonies off', kind: 'cultural', description: 'A strong jet of water knocks aphids off and most do not climb back' },
+      { id: 'limit_nitrogen', name: 'Ease off nitrogen', kind: 'cultural', description: 'Soft, fast growth from heavy nitrogen feeds aphid colonies' },
+      { id: 'conserve_ladybirds', name: 'Protect ladybirds and lacewings', kind: 'biological', description: 'Leave flowering borders and avoid broad-spectrum sprays that kill the predators' }
+    ]
+  },
+  'caterpillars': {
+    action_threshold: 'One larva per plant, or fresh feeding on 10% of plants',
+    practices: [
+      MONITORING,
+      { id: 'hand_picking', name: 'Hand-pick larvae and egg masses', kind: 'cultural', description: 'Check leaf undersides in the early morning and destroy what you find' },
+      { id: 'pheromone_traps', name: 'Set pheromone traps', kind: 'biological', description: 'Five traps a hectare show when moths are flying and catch males before they mate' },
+      { id: 'bird_perches', name: 'Put up bird perches', kind: 'biological', description: 'T-shaped perches let insect-eating birds hunt over the crop' }
+    ]
+  },
+  'spider_mites': {
+    action_threshold: 'Stippling on a third of the leaves, or more than 5 mites per leaf',
+    practices: [
+      MONITORING,
+      { id: 'overhead_water', name: 'Raise humidity around the plants', kind: 'cultural', description: 'Mites thrive in hot dry weather; sprinkling or mulching slows them down' },
+      { id: 'dust_control', name: 'Keep dust down', kind: 'cultural', description: 'Dusty field edges and tracks favour mite outbreaks' },
+      { id: 'predatory_mites', name: 'Release predatory mites', kind: 'biological', description: 'Phytoseiulus persimilis eats spider mites and their eggs' }
+    ]
+  },
+  'whiteflies': {
+    action_threshold: 'Five adults per leaf on the top leaves, or honeydew and sooty mould appearing',
+    practices: [
+      MONITORING,
+      { id: 'yellow_sticky_traps', name: 'Hang yellow sticky traps', kind: 'cultural', description: 'Twenty traps a hectare at canopy height catch adults and show the trend' },
+      { id: 'remove_weeds', name: 'Clear weed hosts', kind: 'cultural', description: 'Whiteflies breed on weeds around the plot between crops' },
+      { id: 'encarsia', name: 'Release Encarsia wasps', kind: 'biological', description: 'Parasitic wasps that lay their eggs in whitefly nymphs' }
+    ]
+  },
+  'thrips': {
+    action_threshold: 'Five thrips per plant, or silvering on the newest leaves',
+    practices: [
+      MONITORING,
+      { id: 'blue_sticky_traps', name: 'Hang blue sticky traps', kind: 'cultural', description: 'Thrips are drawn to blue; traps show when they arrive' },
+      { id: 'reflective_mulch', name: 'Lay reflective mulch', kind: 'cultural', description: 'Silver mulch confuses thrips landing on young plants' },
+      SANITATION
+    ]
+  },
+  'cutworms': {
+    action_threshold: 'Five percent of seedlings cut at the soil line',
+    practices: [
+      MONITORING,
+      { id: 'stem_collars', name: 'Fit collars around seedlings', kind: 'cultural', description: 'A cardboard or plastic ring pushed into the soil stops larvae reaching the stem' },
+      { id: 'deep_ploughing', name: 'Plough before planting', kind: 'cultural', description: 'Turning the soil exposes larvae and pupae to birds and sun' },
+      { id: 'flood_field', name: 'Flood before transplanting', kind: 'cultural', description: 'Where water allows, a short flood drowns larvae in the soil' }
+    ]
+  },
+  'flea_beetles': {
+    action_threshold: 'Shot holes on a quarter of the seedlings\' leaf area',
+    practices: [
+      MONITORING,
+      { id: 'row_covers', name: 'Cover seedlings with netting', kind: 'cultural', description: 'Fine mesh keeps beetles off until plants outgrow the damage' },
+      { id: 'trap_crop', name: 'Sow a mustard trap crop', kind: 'cultural', description: 'A border of mustard draws beetles away from the main crop' }
+    ]
+  },
+  'late_blight': {
+    action_threshold: 'Act before symptoms: spray protectively once a blight warning is issued',
+    practices: [
+      MONITORING,
+      SANITATION,
+      { id: 'certified_seed', name: 'Plant certified seed', kind: 'cultural', description: 'Infected seed tubers are the main way blight arrives' },
+      { id: 'avoid_overhead', name: 'Water at the base', kind: 'cultural', description: 'Wet leaves overnight let spores infect; water in the morning at soil level' },
+      { id: 'hilling', name: 'Earth up the rows', kind: 'cultural', description: 'Deep soil over the tubers keeps spores washed from the leaves off them' }
+    ]
+  },
+  'powdery_mildew': {
+    action_threshold: 'First white spots on the older leaves',
+    practices: [
+      MONITORING,
+      SANITATION,
+      { id: 'air_flow', name: 'Open up the canopy', kind: 'cultural', description: 'Wider spacing and pruning let air dry the leaves and lower the humidity' },
+      { id: 'resistant_varieties', name: 'Grow resistant varieties', kind: 'cultural', description: 'Choose mildew-tolerant varieties for the next sowing' }
+    ]
+  }
+}
+
+export const DEFAULT_IPM_GUIDE: IpmGuide = {
+  action_threshold: 'Damage on a tenth of the plants',
+  practices: [MONITORING, SANITATION]
+}
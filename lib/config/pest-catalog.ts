@@ -0,0 +1,242 @@
+// Pest catalog: the pests and diseases battles are fought against, the crops
+// they are common on, the XP a battle against them is worth before severity,
+// their battle stats and the treatments used against them.
+
+import { DegreeDayModelParams, PestBattle, PestTreatment, PestTypeInfo } from '../types'
+
+export const PEST_CATALOG: Record<string, PestTypeInfo> = {
+  'aphids': {
+    name: 'Aphids',
+    description: 'Small insects that suck plant juices',
+    commonCrops: ['tomatoes', 'peppers', 'lettuce'],
+    baseXP: 15,
+    hp: 80,
+    resistance: 0.1
+  },
+  'caterpillars': {
+    name: 'Caterpillars',
+    description: 'Larvae that eat leaves and fruits',
+    commonCrops: ['corn', 'tomatoes', 'cabbage'],
+    baseXP: 20,
+    hp: 120,
+    resistance: 0.15
+  },
+  'spider_mites': {
+    name: 'Spider Mites',
+    description: 'Tiny mites that cause leaf damage',
+    commonCrops: ['beans', 'corn', 'tomatoes'],
+    baseXP: 18,
+    hp: 90,
+    resistance: 0.25
+  },
+  'whiteflies': {
+    name: 'Whiteflies',
+    description: 'Small flying insects that damage plants',
+    commonCrops: ['tomatoes', 'peppers', 'cucumbers'],
+    baseXP: 16,
+    hp: 100,
+    resistance: 0.2
+  },
+  'thrips': {
+    name: 'Thrips',
+    description: 'Tiny insects that cause silvery damage',
+    commonCrops: ['onions', 'peppers', 'tomatoes'],
+    baseXP: 17,
+    hp: 90,
+    resistance: 0.2
+  },
+  'cutworms': {
+    name: 'Cutworms',
+    description: 'Larvae that cut plant stems at soil level',
+    commonCrops: ['corn', 'tomatoes', 'peppers'],
+    baseXP: 22,
+    hp: 110,
+    resistance: 0.1
+  },
+  'flea_beetles': {
+    name: 'Flea Beetles',
+    description: 'Small beetles that create shot holes in leaves',
+    commonCrops: ['potatoes', 'tomatoes', 'eggplant'],
+    baseXP: 19,
+    hp: 90,
+    resistance: 0.1
+  },
+  'late_blight': {
+    name: 'Late Blight',
+    description: 'Water mould that rots leaves and tubers in cool, wet weather',
+    commonCrops: ['potatoes', 'tomatoes'],
+    baseXP: 25,
+    hp: 150,
+    resistance: 0.15
+  },
+  'powdery_mildew': {
+    name: 'Powdery Mildew',
+    description: 'Fungus that coats leaves in white powder in warm weather',
+    commonCrops: ['cucumbers', 'pumpkins', 'peppers', 'tomatoes', 'peas', 'beans'],
+    baseXP: 18,
+    hp: 120,
+    resistance: 0.1
+  }
+}
+
+// Development thresholds of the insects the risk engine tracks. Degree days
+// are counted from sowing, so emergence is when the first generation
+// feeding on the crop is expected.
+export const PEST_DEGREE_DAY_MODELS: Record<string, DegreeDayModelParams> = {
+  'aphids': { base_c: 4, upper_c: 30, emergence_dd: 110, optimal_daily_dd: 16 },
+  'caterpillars': { base_c: 10, upper_c: 30, emergence_dd: 375, optimal_daily_dd: 15 },
+  'spider_mites': { base_c: 12, upper_c: 35, emergence_dd: 120, optimal_daily_dd: 18, max_humidity: 70 },
+  'whiteflies': { base_c: 10, upper_c: 32, emergence_dd: 300, optimal_daily_dd: 16 },
+  'thrips': { base_c: 11.5, upper_c: 33, emergence_dd: 230, optimal_daily_dd: 15 },
+  'cutworms': { base_c: 10, upper_c: 30, emergence_dd: 300, optimal_daily_dd: 14 },
+  'flea_beetles': { base_c: 10, upper_c: 30, emergence_dd: 150, optimal_daily_dd: 14 }
+}
+
+// XP for pests the catalog doesn't list
+export const DEFAULT_PEST_BASE_XP = 15
+
+export const SEVERITY_XP_MULTIPLIER: Record<PestBattle['severity'], number> = {
+  low: 1,
+  medium: 1.5,
+  high: 2
+}
+
+// A lost battle still earns this share of its reward
+export const LOST_BATTLE_XP_SHARE = 0.3
+
+// Battle engine. The pest_battles trigger and play_pest_battle_turn
+// (migration 020) apply the same numbers on the server.
+export const DEFAULT_PEST_HP = 100
+export const DEFAULT_PEST_RESISTANCE = 0.1
+export const SEVERITY_HP_MULTIPLIER: Record<PestBattle['severity'], number> = {
+  low: 1,
+  medium: 1.5,
+  high: 2
+}
+// Daily turns before an unbeaten pest wins
+export const SEVERITY_MAX_TURNS: Record<PestBattle['severity'], number> = {
+  low: 3,
+  medium: 5,
+  high: 7
+}
+// Share of its full HP a pest regains for each day it goes untreated
+export const PEST_DAILY_REGROWTH = 0.1
+export const MAX_PEST_RESISTANCE = 0.9
+// A treatment's effect varies by this much either way from turn to turn
+export const TREATMENT_EFFECT_SPREAD = 0.15
+
+// Treatments, seeded into pest_treatments. Doses are per hectare of plot.
+export const PEST_TREATMENTS: PestTreatment[] = [
+  {
+    id: 'neem_oil',
+    name: 'Neem oil',
+    kind: 'biological',
+    resource_type: 'biocontrol',
+    dose_per_hectare: 5,
+    unit: 'l',
+    efficacy: { aphids: 0.35, whiteflies: 0.3, spider_mites: 0.3, thrips: 0.25, caterpillars: 0.2, powdery_mildew: 0.2 },
+    default_efficacy: 0.1,
+    resistance_buildup: 0,
+    phi_days: 0,
+    rei_hours: 4,
+    description: 'Botanical insecticide and repellent, safe for pollinators once dry'
+  },
+  {
+    id: 'bt_spray',
+    name: 'Bt spray',
+    kind: 'biological',
+    resource_type: 'biocontrol',
+    dose_per_hectare: 1,
+    unit: 'kg',
+    efficacy: { caterpillars: 0.55, cutworms: 0.4 },
+    default_efficacy: 0.05,
+    resistance_buildup: 0,
+    phi_days: 0,
+    rei_hours: 4,
+    description: 'Bacillus thuringiensis, a bacterium that kills only caterpillars'
+  },
+  {
+    id: 'trichoderma',
+    name: 'Trichoderma',
+    kind: 'biological',
+    resource_type: 'biocontrol',
+    dose_per_hectare: 2.5,
+    unit: 'kg',
+    efficacy: { late_blight: 0.25, powdery_mildew: 0.2 },
+    default_efficacy: 0.05,
+    resistance_buildup: 0,
+    phi_days: 0,
+    rei_hours: 4,
+    description: 'Beneficial fungus that crowds out disease on leaves and roots'
+  },
+  {
+    id: 'imidacloprid',
+    name: 'Imidacloprid',
+    kind: 'chemical',
+    resource_type: 'pesticide',
+    dose_per_hectare: 0.25,
+    unit: 'l',
+    efficacy: { aphids: 0.6, whiteflies: 0.55, thrips: 0.5, flea_beetles: 0.5 },
+    default_efficacy: 0.15,
+    resistance_buildup: 0.05,
+    phi_days: 7,
+    rei_hours: 12,
+    description: 'Systemic insecticide against sucking insects'
+  },
+  {
+    id: 'lambda_cyhalothrin',
+    name: 'Lambda-cyhalothrin',
+    kind: 'chemical',
+    resource_type: 'pesticide',
+    dose_per_hectare: 0.3,
+    unit: 'l',
+    efficacy: { caterpillars: 0.6, cutworms: 0.55, flea_beetles: 0.5, aphids: 0.4 },
+    default_efficacy: 0.2,
+    resistance_buildup: 0.05,
+    phi_days: 5,
+    rei_hours: 24,
+    description: 'Broad-spectrum contact insecticide'
+  },
+  {
+    id: 'abamectin',
+    name: 'Abamectin',
+    kind: 'chemical',
+    resource_type: 'pesticide',
+    dose_per_hectare: 0.4,
+    unit: 'l',
+    efficacy: { spider_mites: 0.6, thrips: 0.4 },
+    default_efficacy: 0.1,
+    resistance_buildup: 0.06,
+    phi_days: 7,
+    rei_hours: 12,
+    description: 'Miticide for spider mites and leaf miners'
+  },
+  {
+    id: 'mancozeb',
+    name: 'Mancozeb',
+    kind: 'chemical',
+    resource_type: 'pesticide',
+    dose_per_hectare: 2,
+    unit: 'kg',
+    efficacy: { late_blight: 0.45, powdery_mildew: 0.2 },
+    default_efficacy: 0,
+    resistance_buildup: 0.02,
+    phi_days: 5,
+    rei_hours: 24,
+    description: 'Protective fungicide against blights'
+  },
+  {
+    id: 'wettable_sulphur',
+    name: 'Wettable sulphur',
+    kind: 'chemical',
+    resource_type: 'pesticide',
+    dose_per_hectare: 2.5,
+    unit: 'kg',
+    efficacy: { powdery_mildew: 0.55, spider_mites: 0.3 },
+    default_efficacy: 0,
+    resistance_buildup: 0.01,
+    phi_days: 1,
+    rei_hours: 24,
+    description: 'Fungicide and miticide; avoid spraying above 32C'
+  }
+]
@@ -0,0 +1,75 @@
+// Crop rotation: botanical families of the crops our farmers grow, the
+// seasons each rotation candidate suits and the default rotation rules.
+// Seasons are counted in kharif/rabi/zaid steps, so 3 seasons is a year.
+
+import { RotationRule } from '../types'
+
+export const CROP_FAMILIES: Record<string, string[]> = {
+  poaceae: ['rice', 'paddy', 'wheat', 'corn', 'maize', 'barley', 'sorghum', 'jowar', 'bajra', 'pearl millet', 'ragi', 'sugarcane'],
+  solanaceae: ['tomatoes', 'tomato', 'potatoes', 'potato', 'peppers', 'pepper', 'chilli', 'chillies', 'capsicum', 'brinjal', 'eggplant'],
+  fabaceae: [
+    'chickpea', 'gram', 'lentil', 'moong', 'mung bean', 'urad', 'black gram', 'pigeon pea', 'arhar', 'tur',
+    'soybean', 'groundnut', 'peanut', 'peas', 'beans', 'cowpea'
+  ],
+  apiaceae: ['carrots', 'carrot', 'coriander', 'cumin'],
+  asteraceae: ['lettuce', 'sunflower', 'safflower'],
+  brassicaceae: ['mustard', 'cabbage', 'cauliflower', 'radish'],
+  cucurbitaceae: ['cucumber', 'pumpkin', 'bottle gourd', 'bitter gourd', 'watermelon', 'muskmelon'],
+  malvaceae: ['okra', 'cotton']
+}
+
+export const LEGUME_FAMILY = 'fabaceae'
+
+// Crops the planner proposes, staples first, with the seasons they are sown in
+export const ROTATION_CANDIDATES: Array<{ name: string; seasons: string[] }> = [
+  { name: 'rice', seasons: ['kharif'] },
+  { name: 'wheat', seasons: ['rabi'] },
+  { name: 'corn', seasons: ['kharif', 'rabi', 'zaid'] },
+  { name: 'chickpea', seasons: ['rabi'] },
+  { name: 'lentil', seasons: ['rabi'] },
+  { name: 'moong', seasons: ['kharif', 'zaid'] },
+  { name: 'soybean', seasons: ['kharif'] },
+  { name: 'mustard', seasons: ['rabi'] },
+  { name: 'potatoes', seasons: ['rabi'] },
+  { name: 'tomatoes', seasons: ['kharif', 'rabi'] },
+  { name: 'peppers', seasons: ['kharif', 'rabi'] },
+  { name: 'carrots', seasons: ['rabi'] },
+  { name: 'lettuce', seasons: ['rabi'] },
+  { name: 'okra', seasons: ['kharif', 'zaid'] },
+  { name: 'cucumber', seasons: ['kharif', 'zaid'] }
+]
+
+export const DEFAULT_ROTATION_RULES: RotationRule[] = [
+  { id: 'solanaceae-interval', type: 'family_interval', family: 'solanaceae', min_seasons: 3, penalty: 30 },
+  { id: 'apiaceae-interval', type: 'family_interval', family: 'apiaceae', min_seasons: 3, penalty: 20 },
+  { id: 'brassicaceae-interval', type: 'family_interval', family: 'brassicaceae', min_seasons: 3, penalty: 20 },
+  { id: 'cucurbitaceae-interval', type: 'family_interval', family: 'cucurbitaceae', min_seasons: 2, penalty: 15 },
+  { id: 'fabaceae-interval', type: 'family_interval', family: 'fabaceae', min_seasons: 2, penalty: 15 },
+  { id: 'asteraceae-interval', type: 'family_interval', family: 'asteraceae', min_seasons: 2, penalty: 10 },
+  {
+    id: 'root-knot-nematode',
+    type: 'break_crop',
+    disease: 'root-knot nematode',
+    hosts: ['solanaceae', 'cucurbitaceae', 'apiaceae', 'okra'],
+    min_seasons: 2,
+    break_crops: ['rice', 'wheat', 'mustard'],
+    penalty: 20
+  },
+  {
+    id: 'sclerotinia',
+    type: 'break_crop',
+    disease: 'Sclerotinia white mould',
+    hosts: ['fabaceae', 'asteraceae', 'brassicaceae', 'apiaceae'],
+    min_seasons: 2,
+    break_crops: ['rice', 'wheat', 'corn'],
+    penalty: 15
+  },
+  {
+    id: 'legume-nitrogen',
+    type: 'legume_credit',
+    within_seasons: 2,
+    beneficiaries: ['poaceae', 'solanaceae', 'brassicaceae', 'cucurbitaceae'],
+    nitrogen_credit_kg_ha: 30,
+    bonus: 10
+  }
+]
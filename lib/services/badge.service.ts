@@ -0,0 +1,99 @@
+// Badge Service Implementation using Supabase
+
+import { supabase } from '../supabase/client'
+import { BadgeService } from './interfaces'
+import { Badge, UserBadge } from '../types'
+
+export class SupabaseBadgeService implements BadgeService {
+  async getAllBadges(): Promise<Badge[]> {
+    try {
+      const { data, error } = await supabase
+        .from('badges')
+        .select('*')
+        .eq('is_active', true)
+        .order('condition_value', { ascending: true })
+
+      if (error) {
+        throw new Error(`Failed to fetch badges: ${error.message}`)
+      }
+
+      return (data || []).map(badge => this.mapDatabaseBadge(badge))
+    } catch (error) {
+      console.error('Get badges error:', error)
+      throw error
+    }
+  }
+
+  async getUserBadges(userId: string): Promise<UserBadge[]> {
+    try {
+      const { data, error } = await supabase
+        .from('user_badges')
+        .select('id, user_id, badge_id, earned_at')
+        .eq('user_id', userId)
+        .order('earned_at', { ascending: false })
+
+      if (error) {
+        throw new Error(`Failed to fetch user badges: ${error.message}`)
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('Get user badges error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Badges the user qualifies for but has not been awarded yet
+   */
+  async checkBadgeEligibility(userId: string): Promise<Badge[]> {
+    try {
+      const { data, error } = await supabase
+        .rpc('get_eligible_badges', { p_user_id: userId })
+
+      if (error) {
+        throw new Error(`Failed to check badge eligibility: ${error.message}`)
+      }
+
+      return (data || []).map((badge: any) => this.mapDatabaseBadge(badge))
+    } catch (error) {
+      console.error('Check badge eligibility error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Award a badge. A user holds each badge once, so awarding it again
+   * returns the badge they already have.
+   */
+  async awardBadge(userId: string, badgeId: string): Promise<UserBadge> {
+    try {
+      const { data, error } = await supabase
+        .from('user_badges')
+        .upsert({ user_id: userId, badge_id: badgeId }, { onConflict: 'user_id,badge_id', ignoreDuplicates: false })
+        .select('id, user_id, badge_id, earned_at')
+        .single()
+
+      if (error) {
+        throw new Error(`Failed to award badge: ${error.message}`)
+      }
+
+      return data
+    } catch (error) {
+      console.error('Award badge error:', error)
+      throw error
+    }
+  }
+
+  private mapDatabaseBadge(dbBadge: any): Badge {
+    return {
+      id: dbBadge.id,
+      name: dbBadge.name,
+      description: dbBadge.description,
+      icon: dbBadge.icon,
+      xp_requirement: dbBadge.xp_requirement !== null ? dbBadge.xp_requirement : undefined,
+      condition_type: dbBadge.condition_type,
+      condition_value: dbBadge.condition_value
+    }
+  }
+}
@@ -0,0 +1,359 @@
+// Care Action Service Implementation using Supabase
+// Log of watering, fertilizing, pest control and other field work. Actions
+// that use water, fertilizer or pesticide draw down the user's stock in the
+// resources table (the database trigger does the actual decrement).
+
+import { supabase } from '../supabase/client'
+import { CareActionService } from './interfaces'
+import {
+  CareAction,
+  CareActionFilter,
+  CareActionInput,
+  CareActionType,
+  CareActionUpdate,
+  CareUsage,
+  Resource,
+  ResourceType
+} from '../types'
+import { convertQuantity } from '../utils/units'
+
+const CARE_ACTION_TYPES: CareActionType[] = ['watering', 'fertilizing', 'pest_control', 'pruning', 'weeding']
+
+// Stock each kind of action uses up
+const RESOURCE_TYPES: Partial<Record<CareActionType, ResourceType>> = {
+  watering: 'water',
+  fertilizing: 'fertilizer',
+  pest_control: 'pesticide'
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+export class SupabaseCareActionService implements CareActionService {
+  async recordCareAction(input: CareActionInput): Promise<CareAction> {
+    try {
+      const errors = this.validateCareAction(input)
+      if (errors.length > 0) {
+        throw new Error(`Invalid care action: ${errors.join('; ')}`)
+      }
+
+      const { plotId, userId } = await this.resolveOwner(input)
+      const usage = await this.resolveResourceUsage(userId, input.action_type, input.quantity, input.unit)
+
+      const { data, error } = await supabase
+        .from('care_actions')
+        .insert({
+          user_id: userId,
+          plot_id: plotId,
+          crop_id: input.crop_id,
+          action_type: input.action_type,
+          performed_at: input.performed_at || new Date().toISOString(),
+          quantity: input.quantity,
+          unit: input.unit,
+          product: input.product,
+          cost: input.cost !== undefined ? input.cost : usage.cost,
+          operator: input.operator,
+          notes: input.notes,
+          resource_id: usage.resource_id,
+          resource_quantity: usage.resource_quantity
+        })
+        .select()
+        .single()
+
+      if (error) {
+        throw new Error(`Failed to record care action: ${error.message}`)
+      }
+
+      return this.mapDatabaseCareAction(data)
+    } catch (error) {
+      console.error('Record care action error:', error)
+      throw error
+    }
+  }
+
+  async getCareAction(actionId: string): Promise<CareAction> {
+    try {
+      const { data, error } = await supabase
+        .from('care_actions')
+        .select('*')
+        .eq('id', actionId)
+        .single()
+
+      if (error) {
+        throw new Error(`Failed to fetch care action: ${error.message}`)
+      }
+
+      return this.mapDatabaseCareAction(data)
+    } catch (error) {
+      console.error('Get care action error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get care actions, newest first. Dates bound performed_at inclusively.
+   */
+  async getCareActions(filter: CareActionFilter): Promise<CareAction[]> {
+    try {
+      if (!filter.plotId && !filter.cropId) {
+        throw new Error('A plot or crop is required to list care actions')
+      }
+
+      let query = supabase
+        .from('care_actions')
+        .select('*')
+
+      if (filter.plotId) query = query.eq('plot_id', filter.plotId)
+      if (filter.cropId) query = query.eq('crop_id', filter.cropId)
+      if (filter.actionType) query = query.eq('action_type', filter.actionType)
+      if (filter.from) query = query.gte('performed_at', filter.from)
+      if (filter.to) query = query.lte('performed_at', filter.to)
+
+      const { data, error } = await query.order('performed_at', { ascending: false })
+
+      if (error) {
+        throw new Error(`Failed to fetch care actions: ${error.message}`)
+      }
+
+      return (data || []).map(action => this.mapDatabaseCareAction(action))
+    } catch (error) {
+      console.error('Get care actions error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Update a care action. Changing its type, quantity or unit recomputes
+   * the stock it draws down; the trigger gives back the old amount first.
+   */
+  async updateCareAction(actionId: string, updates: CareActionUpdate): Promise<CareAction> {
+    try {
+      const existing = await this.getCareAction(actionId)
+      const merged = { ...existing, ...updates }
+
+      const errors = this.validateCareAction(merged)
+      if (errors.length > 0) {
+        throw new Error(`Invalid care action: ${errors.join('; ')}`)
+      }
+
+      const updateData: Record<string, any> = { ...updates }
+      if ('action_type' in updates || 'quantity' in updates || 'unit' in updates) {
+        const usage = await this.resolveResourceUsage(existing.user_id, merged.action_type, merged.quantity, merged.unit)
+        updateData.resource_id = usage.resource_id || null
+        updateData.resource_quantity = usage.resource_quantity !== undefined ? usage.resource_quantity : null
+      }
+
+      const { data, error } = await supabase
+        .from('care_actions')
+        .update(updateData)
+        .eq('id', actionId)
+        .select()
+        .single()
+
+      if (error) {
+        throw new Error(`Failed to update care action: ${error.message}`)
+      }
+
+      return this.mapDatabaseCareAction(data)
+    } catch (error) {
+      console.error('Update care action error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Delete a care action; any stock it drew down is returned
+   */
+  async deleteCareAction(actionId: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('care_actions')
+        .delete()
+        .eq('id', actionId)
+
+      if (error) {
+        throw new Error(`Failed to delete care action: ${error.message}`)
+      }
+    } catch (error) {
+      console.error('Delete care action error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Total quantity and cost of care actions by type and unit
+   */
+  async getCareUsage(filter: CareActionFilter): Promise<CareUsage[]> {
+    try {
+      const actions = await this.getCareActions(filter)
+      const usage = new Map<string, CareUsage>()
+
+      actions.forEach(action => {
+        const unit = action.unit ? action.unit.trim().toLowerCase() : undefined
+        const key = `${action.action_type}:${unit || ''}`
+        const entry = usage.get(key) || { action_type: action.action_type, unit, quantity: 0, cost: 0, actions: 0 }
+
+        entry.quantity = round2(entry.quantity + (action.quantity || 0))
+        entry.cost = round2(entry.cost + (action.cost || 0))
+        entry.actions++
+        usage.set(key, entry)
+      })
+
+      return Array.from(usage.values())
+    } catch (error) {
+      console.error('Get care usage error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Find the plot of the action (from its crop if needed) and default the
+   * user to the plot's owner
+   */
+  private async resolveOwner(input: CareActionInput): Promise<{ plotId: string; userId: string }> {
+    let plotId = input.plot_id
+
+    if (input.crop_id) {
+      const { data: crop, error } = await supabase
+        .from('crops')
+        .select('plot_id')
+        .eq('id', input.crop_id)
+        .single()
+
+      if (error) {
+        throw new Error(`Failed to fetch crop: ${error.message}`)
+      }
+      if (plotId && plotId !== crop.plot_id) {
+        throw new Error('Crop does not belong to the given plot')
+      }
+      plotId = crop.plot_id
+    }
+
+    if (!plotId) {
+      throw new Error('Care action needs a plot or a crop')
+    }
+    if (input.user_id) {
+      return { plotId, userId: input.user_id }
+    }
+
+    const { data: plot, error } = await supabase
+      .from('plots')
+      .select('user_id')
+      .eq('id', plotId)
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to fetch plot: ${error.message}`)
+    }
+
+    return { plotId, userId: plot.user_id }
+  }
+
+  /**
+   * Work out how much of the user's stock an action uses, converted to the
+   * unit the stock is kept in, and what that stock cost. Actions that use no
+   * stock, or whose unit can't be converted, leave the stock alone.
+   */
+  private async resolveResourceUsage(
+    userId: string,
+    actionType: CareActionType,
+    quantity?: number,
+    unit?: string
+  ): Promise<{ resource_id?: string; resource_quantity?: number; cost?: number }> {
+    const resourceType = RESOURCE_TYPES[actionType]
+    if (!resourceType || !quantity || !unit) return {}
+
+    const { data, error } = await supabase
+      .from('resources')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('resource_type', resourceType)
+      .limit(1)
+
+    if (error) {
+      throw new Error(`Failed to fetch resources: ${error.message}`)
+    }
+    if (!data || data.length === 0) return {}
+
+    const resource = this.mapDatabaseResource(data[0])
+    const converted = convertQuantity(quantity, unit, resource.unit)
+    if (converted === null) {
+      console.warn(`Cannot convert ${unit} to ${resource.unit}; ${resourceType} stock not updated`)
+      return {}
+    }
+
+    return {
+      resource_id: resource.id,
+      resource_quantity: round2(converted),
+      cost: resource.cost_per_unit !== undefined ? round2(converted * resource.cost_per_unit) : undefined
+    }
+  }
+
+  private validateCareAction(action: Partial<CareActionInput>): string[] {
+    const errors: string[] = []
+
+    if (!action.action_type || !CARE_ACTION_TYPES.includes(action.action_type)) {
+      errors.push(`Unknown care action type: ${action.action_type}`)
+    }
+    if (action.quantity !== undefined && action.quantity !== null) {
+      if (!Number.isFinite(action.quantity) || action.quantity <= 0) {
+        errors.push('Quantity must be greater than 0')
+      }
+      if (!action.unit) {
+        errors.push('Quantity needs a unit')
+      }
+    }
+    if (action.cost !== undefined && action.cost !== null && (!Number.isFinite(action.cost) || action.cost < 0)) {
+      errors.push('Cost cannot be negative')
+    }
+    if (action.performed_at) {
+      const performedAt = new Date(action.performed_at)
+      if (isNaN(performedAt.getTime())) {
+        errors.push(`Invalid date: ${action.performed_at}`)
+      } else if (performedAt.getTime() > Date.now()) {
+        errors.push('Care action cannot be in the future')
+      }
+    }
+
+    return errors
+  }
+
+  private mapDatabaseResource(dbResource: any): Resource {
+    return {
+      id: dbResource.id,
+      user_id: dbResource.user_id,
+      resource_type: dbResource.resource_type,
+      quantity: Number(dbResource.quantity),
+      unit: dbResource.unit,
+      cost_per_unit: dbResource.cost_per_unit !== null && dbResource.cost_per_unit !== undefined
+        ? Number(dbResource.cost_per_unit)
+        : undefined,
+      supplier: dbResource.supplier || undefined,
+      purchase_date: dbResource.purchase_date || undefined,
+      expiry_date: dbResource.expiry_date || undefined,
+      updated_at: dbResource.updated_at
+    }
+  }
+
+  private mapDatabaseCareAction(dbAction: any): CareAction {
+    const numeric = (value: any) => (value === null || value === undefined ? undefined : Number(value))
+
+    return {
+      id: dbAction.id,
+      user_id: dbAction.user_id,
+      plot_id: dbAction.plot_id,
+      crop_id: dbAction.crop_id || undefined,
+      action_type: dbAction.action_type,
+      performed_at: dbAction.performed_at,
+      quantity: numeric(dbAction.quantity),
+      unit: dbAction.unit || undefined,
+      product: dbAction.product || undefined,
+      cost: numeric(dbAction.cost),
+      operator: dbAction.operator || undefined,
+      notes: dbAction.notes || undefined,
+      resource_id: dbAction.resource_id || undefined,
+      resource_quantity: numeric(dbAction.resource_quantity),
+      created_at: dbAction.created_at,
+      updated_at: dbAction.updated_at
+    }
+  }
+}
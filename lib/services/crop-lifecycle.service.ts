@@ -0,0 +1,160 @@
+// Crop lifecycle orchestration: turns saved crop transitions into XP,
+// badges and milestone notifications. Each effect of a transition has its
+// own idempotency key, so handling a transition again (a retry, or a
+// reconciliation pass) applies only what an earlier run did not.
+
+import { BadgeService, CropService, IdempotencyService, NotificationService, XPService } from './interfaces'
+import { SupabaseBadgeService } from './badge.service'
+import { SupabaseCropService } from './crop.service'
+import { ServiceFactory } from './factory'
+import { SupabaseIdempotencyService } from './idempotency.service'
+import { SupabaseXPService } from './xp.service'
+import { Badge, Crop, CropTransitionEvent, HarvestInput, LifecycleEffectsResult } from '../types'
+import { calculateHarvestXP, getTransitionMilestone } from '../utils/crop-lifecycle'
+
+export class CropLifecycleService {
+  constructor(
+    private cropService: CropService = new SupabaseCropService(),
+    private xpService: XPService = new SupabaseXPService(),
+    private badgeService: BadgeService = new SupabaseBadgeService(),
+    private notificationService: NotificationService = ServiceFactory.getNotificationService(),
+    private idempotencyService: IdempotencyService = new SupabaseIdempotencyService()
+  ) {}
+
+  /**
+   * Handle every transition the crop service saves from now on. Failures
+   * are logged by the crop service; reconcileCrop picks them up later.
+   * Returns a function that stops handling them.
+   */
+  attach(): () => void {
+    return this.cropService.onTransition(async event => {
+      await this.handleTransition(event)
+    })
+  }
+
+  /**
+   * Apply the effects of a transition: harvest XP and badge checks for a
+   * harvest, then a milestone notification. Effects run in that order and
+   * stop at the first failure, whose claim is released so a retry can
+   * finish the rest. Effects an earlier run applied are skipped and their
+   * saved result is reported.
+   */
+  async handleTransition(event: CropTransitionEvent): Promise<LifecycleEffectsResult> {
+    try {
+      const { crop, transition } = event
+      const userId = transition.user_id
+      const key = `crop-transition:${transition.id}`
+      const result: LifecycleEffectsResult = {
+        transition_id: transition.id,
+        xp_awarded: 0,
+        badges: [],
+        notified: false,
+        skipped: []
+      }
+
+      if (transition.to_status === 'harvested' && transition.from_status !== 'harvested') {
+        // Awarded in the same transaction that saves its key
+        const xp = await this.xpService.awardXPOnce(
+          `${key}:xp`, userId, 'crop_harvested', calculateHarvestXP(crop), `Harvested ${crop.name}`
+        )
+        if (!xp.applied) {
+          result.skipped.push(`${key}:xp`)
+        }
+        result.xp_awarded = xp.xp_awarded
+
+        const awarded = await this.applyOnce(`${key}:badges`, userId, result.skipped, async () => {
+          const eligible = await this.badgeService.checkBadgeEligibility(userId)
+          for (const badge of eligible) {
+            await this.badgeService.awardBadge(userId, badge.id)
+          }
+          return { badges: eligible }
+        })
+        result.badges = awarded.badges
+      }
+
+      const milestone = getTransitionMilestone(transition, crop.quantity_harvested)
+      if (milestone) {
+        const sent = await this.applyOnce(`${key}:notification`, userId, result.skipped, async () => {
+          const notification = await this.notificationService.sendCropMilestoneNotification(userId, crop.name, milestone)
+          return { notification_id: notification ? notification.id : undefined }
+        })
+        // Users who turned milestone notifications off are sent none
+        result.notified = !!sent.notification_id
+      }
+
+      return result
+    } catch (error) {
+      console.error('Handle crop transition error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Harvest a crop and award what the harvest earns. The XP comes back as
+   * awarded, after the harvest was weighed, and a failed award fails the
+   * call.
+   */
+  async harvestCrop(
+    cropId: string,
+    harvest?: HarvestInput
+  ): Promise<{ crop: Crop; xpAwarded: number; badges: Badge[] }> {
+    try {
+      const { crop } = await this.cropService.harvestCrop(cropId, harvest)
+      const transitions = await this.cropService.getCropTransitions(cropId)
+      const harvestTransition = transitions.find(transition => transition.to_status === 'harvested')
+      if (!harvestTransition) {
+        throw new Error('Harvest was not recorded')
+      }
+
+      const result = await this.handleTransition({ crop, transition: harvestTransition })
+      return { crop, xpAwarded: result.xp_awarded, badges: result.badges }
+    } catch (error) {
+      console.error('Lifecycle harvest crop error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Handle every recorded transition of a crop again, applying the effects
+   * earlier runs missed. Safe to run any number of times.
+   */
+  async reconcileCrop(cropId: string): Promise<LifecycleEffectsResult[]> {
+    try {
+      const [crop, transitions] = await Promise.all([
+        this.cropService.getCrop(cropId),
+        this.cropService.getCropTransitions(cropId)
+      ])
+
+      const results: LifecycleEffectsResult[] = []
+      for (const transition of transitions) {
+        results.push(await this.handleTransition({ crop, transition }))
+      }
+      return results
+    } catch (error) {
+      console.error('Reconcile crop error:', error)
+      throw error
+    }
+  }
+
+  private async applyOnce<T>(key: string, userId: string, skipped: string[], effect: () => Promise<T>): Promise<T> {
+    const { claimed, effect: existing } = await this.idempotencyService.claim(key, userId)
+    if (!claimed) {
+      if (existing.status !== 'completed') {
+        throw new Error(`${key} is already being applied`)
+      }
+      skipped.push(key)
+      return existing.result
+    }
+
+    let result: T
+    try {
+      result = await effect()
+    } catch (error) {
+      await this.idempotencyService.release(key)
+      throw error
+    }
+
+    await this.idempotencyService.complete(key, result)
+    return result
+  }
+}
@@ -1,12 +1,89 @@
 // Crop Service Implementation using Supabase
 
 import { supabase } from '../supabase/client'
-import { CropService } from './interfaces'
-import { Crop } from '../types'
+import { CareActionService, CropService, HarvestService, PlotService, SoilService, WeatherService } from './interfaces'
+import {
+  CareAction,
+  CareActionInput,
+  CareActionType,
+  Crop,
+  CropPhenology,
+  CropTransition,
+  CropTransitionEvent,
+  CropTransitionHook,
+  CropTransitionOptions,
+  DailyTemperature,
+  HarvestInput,
+  HarvestRecord,
+  RotationIssue,
+  RotationRule,
+  SoilTest
+} from '../types'
+import { SupabaseCareActionService } from './care-action.service'
+import { ServiceFactory } from './factory'
+import { SupabaseHarvestService } from './harvest.service'
+import { IrrigationService } from './irrigation.service'
+import { SupabasePlotService } from './plot.service'
+import { SupabaseSoilService } from './soil.service'
+import { DEFAULT_ROTATION_RULES } from '../config/rotation-rules'
+import { getCropAreaFraction, getCropAreaHectares, getCropOccupancy, getPeakAllocation, hasFreeArea } from '../utils/allocation'
+import { getTransitionErrors } from '../utils/crop-lifecycle'
+import { calculateGeometryArea, geometryToEWKT, getGeometryCenter, parsePostGISGeometry } from '../utils/geometry'
+import { addDays, getCropPhenologyModel, getTypicalSeasonDays, projectPhenology } from '../utils/phenology'
+import { evaluateRotation } from '../utils/rotation'
+import { assessSoil, getCropSeason } from '../utils/soil'
+
+// Soil tests older than this no longer reflect the field
+const SOIL_TEST_MAX_AGE_YEARS = 3
+
+// Older days of a season are filled in at the crop's typical GDD rate
+const MAX_WEATHER_HISTORY_DAYS = 180
+
+const GROWTH_STAGE_EVENTS: Record<Crop['growth_stage'], { title: string; icon: string }> = {
+  seedling: { title: 'Seedling Stage', icon: '🌱' },
+  vegetative: { title: 'Vegetative Growth', icon: '🌿' },
+  flowering: { title: 'Flowering Stage', icon: '🌸' },
+  fruiting: { title: 'Fruiting Stage', icon: '🍅' },
+  mature: { title: 'Maturity', icon: '🌾' }
+}
+
+const CARE_ACTION_EVENTS: Record<CareActionType, { title: string; icon: string }> = {
+  watering: { title: 'Watered', icon: '💧' },
+  fertilizing: { title: 'Fertilized', icon: '🧪' },
+  pest_control: { title: 'Pest Control', icon: '🐛' },
+  pruning: { title: 'Pruned', icon: '✂️' },
+  weeding: { title: 'Weeded', icon: '🧹' }
+}
 
 export class SupabaseCropService implements CropService {
-  async assignCrop(cropData: Omit<Crop, 'id' | 'created_at' | 'updated_at'>): Promise<Crop> {
+  private transitionHooks: CropTransitionHook[] = []
+
+  constructor(
+    private soilService: SoilService = new SupabaseSoilService(),
+    private plotService: PlotService = new SupabasePlotService(),
+    private weatherService: WeatherService = ServiceFactory.getWeatherService(),
+    private careActionService: CareActionService = new SupabaseCareActionService(),
+    private irrigationService: IrrigationService = new IrrigationService(),
+    private harvestService: HarvestService = new SupabaseHarvestService(),
+    private rotationRules: RotationRule[] = DEFAULT_ROTATION_RULES
+  ) {}
+
+  /**
+   * Assign a crop to a plot. A crop takes the whole plot unless it declares
+   * an area fraction or a sub-area, and it can only take ground that is free
+   * while it grows. A succession crop (preceded_by) is sown once its
+   * predecessor is harvested and takes the same ground unless told
+   * otherwise. Crops that break a rotation rule are still assigned; the
+   * broken rules come back as warnings.
+   */
+  async assignCrop(
+    cropData: Omit<Crop, 'id' | 'created_at' | 'updated_at'>
+  ): Promise<{ crop: Crop; warnings: RotationIssue[] }> {
     try {
+      const history = await this.getCrops(cropData.plot_id)
+      const allocation = await this.resolveAllocation(cropData, history)
+      const warnings = this.checkRotation(cropData, history)
+
       const { data, error } = await supabase
         .from('crops')
         .insert({
@@ -18,7 +95,10 @@ export class SupabaseCropService implements CropService {
           status: cropData.status || 'planted',
           growth_stage: cropData.growth_stage || 'seedling',
           quantity_planted: cropData.quantity_planted,
-          notes: cropData.notes
+          notes: cropData.notes,
+          area_fraction: allocation.area_fraction,
+          sub_geometry: allocation.sub_geometry ? geometryToEWKT(allocation.sub_geometry) : undefined,
+          preceded_by: cropData.preceded_by
         })
         .select()
         .single()
@@ -27,48 +107,128 @@ export class SupabaseCropService implements CropService {
         throw new Error(`Failed to assign crop: ${error.message}`)
       }
 
-      return this.mapDatabaseCropToCrop(data)
+      return { crop: this.mapDatabaseCropToCrop(data), warnings }
     } catch (error) {
       console.error('Assign crop error:', error)
       throw error
     }
   }
 
-  async updateCropStatus(
-    cropId: string, 
-    status: Crop['status'], 
-    growthStage?: Crop['growth_stage']
-  ): Promise<Crop> {
+  /**
+   * Plan the next crop of a succession chain: it is sown gapDays after the
+   * crop is harvested (or expected to be) on the same ground
+   */
+  async scheduleSuccession(
+    cropId: string,
+    next: Pick<Crop, 'name'> & Partial<Pick<Crop, 'variety' | 'quantity_planted' | 'notes'>>,
+    gapDays: number = 0
+  ): Promise<{ crop: Crop; warnings: RotationIssue[] }> {
     try {
-      const updateData: any = { status }
-      
-      if (growthStage) {
-        updateData.growth_stage = growthStage
+      const predecessor = await this.getCrop(cropId)
+      const harvestDate = predecessor.actual_harvest_date || predecessor.expected_harvest_date
+      if (!harvestDate) {
+        throw new Error(`${predecessor.name} has no expected harvest date to plan the next sowing from`)
       }
 
-      // Set actual harvest date if status is harvested
-      if (status === 'harvested') {
-        updateData.actual_harvest_date = new Date().toISOString().split('T')[0]
+      const sownDate = addDays(harvestDate, gapDays)
+      return await this.assignCrop({
+        ...next,
+        plot_id: predecessor.plot_id,
+        sown_date: sownDate,
+        expected_harvest_date: addDays(sownDate, getTypicalSeasonDays(getCropPhenologyModel(next.name, next.variety))),
+        status: 'planted',
+        growth_stage: 'seedling',
+        preceded_by: predecessor.id
+      })
+    } catch (error) {
+      console.error('Schedule succession error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get the succession chain a crop belongs to, first sowing first
+   */
+  async getSuccessionChain(cropId: string): Promise<Crop[]> {
+    try {
+      const crop = await this.getCrop(cropId)
+      const plotCrops = await this.getCrops(crop.plot_id)
+      const chain = [crop]
+
+      let previous = crop.preceded_by ? plotCrops.find(other => other.id === crop.preceded_by) : undefined
+      while (previous && !chain.includes(previous)) {
+        chain.unshift(previous)
+        const predecessorId = previous.preceded_by
+        previous = predecessorId ? plotCrops.find(other => other.id === predecessorId) : undefined
       }
 
+      let next = plotCrops.find(other => other.preceded_by === crop.id)
+      while (next && !chain.includes(next)) {
+        chain.push(next)
+        const currentId = next.id
+        next = plotCrops.find(other => other.preceded_by === currentId)
+      }
+
+      return chain
+    } catch (error) {
+      console.error('Get succession chain error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Move a crop to a new status and/or growth stage. The move has to be
+   * allowed by the crop lifecycle (utils/crop-lifecycle); it is saved with
+   * the day it happened and then handed to the transition hooks.
+   */
+  async updateCropStatus(
+    cropId: string,
+    status: Crop['status'],
+    growthStage?: Crop['growth_stage'],
+    options: CropTransitionOptions = {}
+  ): Promise<Crop> {
+    try {
+      return await this.applyTransition(cropId, status, growthStage, options)
+    } catch (error) {
+      console.error('Update crop status error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get a crop's status and growth stage changes, oldest first
+   */
+  async getCropTransitions(cropId: string): Promise<CropTransition[]> {
+    try {
       const { data, error } = await supabase
-        .from('crops')
-        .update(updateData)
-        .eq('id', cropId)
-        .select()
-        .single()
+        .from('crop_transitions')
+        .select('*')
+        .eq('crop_id', cropId)
+        .order('occurred_on', { ascending: true })
+        .order('created_at', { ascending: true })
 
       if (error) {
-        throw new Error(`Failed to update crop status: ${error.message}`)
+        throw new Error(`Failed to fetch crop transitions: ${error.message}`)
       }
 
-      return this.mapDatabaseCropToCrop(data)
+      return (data || []).map(transition => this.mapDatabaseTransition(transition))
     } catch (error) {
-      console.error('Update crop status error:', error)
+      console.error('Get crop transitions error:', error)
       throw error
     }
   }
 
+  /**
+   * Run a side effect (XP, notifications) after every saved transition.
+   * Returns a function that removes the hook.
+   */
+  onTransition(hook: CropTransitionHook): () => void {
+    this.transitionHooks.push(hook)
+    return () => {
+      this.transitionHooks = this.transitionHooks.filter(registered => registered !== hook)
+    }
+  }
+
   async getCrops(plotId: string): Promise<Crop[]> {
     try {
       const { data, error } = await supabase
@@ -110,7 +270,12 @@ export class SupabaseCropService implements CropService {
   async getCropTimeline(cropId: string): Promise<any[]> {
     try {
       const crop = await this.getCrop(cropId)
-      const timeline = this.generateCropTimeline(crop)
+      const [phenology, careActions, transitions] = await Promise.all([
+        this.buildPhenology(crop),
+        this.careActionService.getCareActions({ cropId }),
+        this.getCropTransitions(cropId)
+      ])
+      const timeline = this.generateCropTimeline(crop, phenology, careActions, transitions)
       
       return timeline
     } catch (error) {
@@ -119,7 +284,40 @@ export class SupabaseCropService implements CropService {
     }
   }
 
-  async harvestCrop(cropId: string): Promise<{ crop: Crop; xpAwarded: number }> {
+  /**
+   * Get a crop's growth stage dates and projected harvest window from the
+   * growing degree days accumulated since sowing
+   */
+  async getCropPhenology(cropId: string): Promise<CropPhenology> {
+    try {
+      const crop = await this.getCrop(cropId)
+      return await this.buildPhenology(crop)
+    } catch (error) {
+      console.error('Get crop phenology error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get crop progress percentage from accumulated growing degree days
+   */
+  async getCropProgress(cropId: string): Promise<number> {
+    try {
+      const crop = await this.getCrop(cropId)
+      return this.calculateCropProgress(crop, await this.buildPhenology(crop))
+    } catch (error) {
+      console.error('Get crop progress error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Harvest a ready crop. A harvest record is saved in the same transaction
+   * as the move to harvested, so its weight counts towards the XP reward and
+   * a failed move leaves nothing behind. The reward is awarded by
+   * CropLifecycleService, whose harvestCrop reports it.
+   */
+  async harvestCrop(cropId: string, harvest?: HarvestInput): Promise<{ crop: Crop }> {
     try {
       // Get current crop data
       const crop = await this.getCrop(cropId)
@@ -132,22 +330,71 @@ export class SupabaseCropService implements CropService {
         throw new Error('Crop is not ready for harvest')
       }
 
-      // Update crop status to harvested
-      const harvestedCrop = await this.updateCropStatus(cropId, 'harvested')
+      const record = harvest ? await this.harvestService.prepareHarvest(cropId, harvest) : undefined
 
-      // Calculate XP reward based on crop type and quantity
-      const xpAwarded = this.calculateHarvestXP(harvestedCrop)
+      // Update crop status to harvested, on the day it was harvested
+      const harvestedCrop = await this.applyTransition(cropId, 'harvested', undefined, {
+        occurred_on: record ? record.harvested_at : undefined
+      }, record)
 
-      return {
-        crop: harvestedCrop,
-        xpAwarded
-      }
+      return { crop: harvestedCrop }
     } catch (error) {
       console.error('Harvest crop error:', error)
       throw error
     }
   }
 
+  /**
+   * Check a move against the crop lifecycle, save it (with the harvest
+   * record, if any) and hand it to the transition hooks
+   */
+  private async applyTransition(
+    cropId: string,
+    status: Crop['status'],
+    growthStage: Crop['growth_stage'] | undefined,
+    options: CropTransitionOptions,
+    harvest?: Omit<HarvestRecord, 'id' | 'created_at'>
+  ): Promise<Crop> {
+    const crop = await this.getCrop(cropId)
+    const target = { status, growth_stage: growthStage || crop.growth_stage }
+    const today = new Date().toISOString().split('T')[0]
+    const occurredOn = options.occurred_on || today
+
+    const errors = getTransitionErrors(crop, target)
+    if (isNaN(new Date(occurredOn).getTime())) {
+      errors.push(`Invalid date: ${occurredOn}`)
+    } else if (occurredOn > today) {
+      errors.push('Transition cannot be in the future')
+    }
+    if (errors.length > 0) {
+      throw new Error(`Invalid transition: ${errors.join('; ')}`)
+    }
+
+    // Applied only if the crop is still as read, so concurrent updates
+    // can't skip a guard
+    const transitionArgs = {
+      p_crop_id: cropId,
+      p_from_status: crop.status,
+      p_from_stage: crop.growth_stage,
+      p_to_status: target.status,
+      p_to_stage: target.growth_stage,
+      p_occurred_on: occurredOn,
+      p_notes: options.notes || null
+    }
+    const { data, error } = harvest
+      ? await supabase.rpc('transition_crop_with_harvest', { ...transitionArgs, p_harvest: harvest })
+      : await supabase.rpc('transition_crop', transitionArgs)
+
+    if (error) {
+      throw new Error(`Failed to update crop status: ${error.message}`)
+    }
+
+    const updatedCrop = await this.getCrop(cropId)
+    await this.runTransitionHooks({ crop: updatedCrop, transition: this.mapDatabaseTransition(data) })
+
+    return updatedCrop
+  }
+
   // Helper method to map database crop to our Crop type
   private mapDatabaseCropToCrop(dbCrop: any): Crop {
     return {
@@ -163,17 +410,170 @@ export class SupabaseCropService implements CropService {
       quantity_planted: dbCrop.quantity_planted,
       quantity_harvested: dbCrop.quantity_harvested,
       notes: dbCrop.notes,
+      area_fraction: dbCrop.area_fraction !== null && dbCrop.area_fraction !== undefined
+        ? Number(dbCrop.area_fraction)
+        : undefined,
+      sub_geometry: dbCrop.sub_geometry ? parsePostGISGeometry(dbCrop.sub_geometry) : undefined,
+      preceded_by: dbCrop.preceded_by || undefined,
       created_at: dbCrop.created_at,
       updated_at: dbCrop.updated_at
     }
   }
 
+  private mapDatabaseTransition(dbTransition: any): CropTransition {
+    return {
+      id: dbTransition.id,
+      crop_id: dbTransition.crop_id,
+      user_id: dbTransition.user_id,
+      from_status: dbTransition.from_status,
+      to_status: dbTransition.to_status,
+      from_stage: dbTransition.from_stage,
+      to_stage: dbTransition.to_stage,
+      occurred_on: dbTransition.occurred_on,
+      notes: dbTransition.notes || undefined,
+      created_at: dbTransition.created_at
+    }
+  }
+
+  // The transition is already saved, so a failing hook must not undo it
+  private async runTransitionHooks(event: CropTransitionEvent): Promise<void> {
+    for (const hook of this.transitionHooks) {
+      try {
+        await hook(event)
+      } catch (error) {
+        console.error('Crop transition hook error:', error)
+      }
+    }
+  }
+
+  // Rotation warnings for a new crop; the check never blocks an assignment
+  private checkRotation(cropData: Omit<Crop, 'id' | 'created_at' | 'updated_at'>, history: Crop[]): RotationIssue[] {
+    try {
+      return evaluateRotation(history, cropData.name, getCropSeason(cropData.sown_date), this.rotationRules).issues
+    } catch (error) {
+      console.warn('Could not check crop rotation:', error)
+      return []
+    }
+  }
+
+  /**
+   * Work out the ground a new crop takes and check it is free while the
+   * crop grows. Succession crops wait for their predecessor's harvest.
+   */
+  private async resolveAllocation(
+    cropData: Omit<Crop, 'id' | 'created_at' | 'updated_at'>,
+    history: Crop[]
+  ): Promise<Pick<Crop, 'area_fraction' | 'sub_geometry'>> {
+    let allocation: Pick<Crop, 'area_fraction' | 'sub_geometry'> = {
+      area_fraction: cropData.area_fraction,
+      sub_geometry: cropData.sub_geometry
+    }
+
+    if (cropData.preceded_by) {
+      const predecessor = history.find(crop => crop.id === cropData.preceded_by)
+      if (!predecessor) {
+        throw new Error('A succession crop must follow a crop on the same plot')
+      }
+      if (history.some(crop => crop.preceded_by === predecessor.id)) {
+        throw new Error(`${predecessor.name} already has a succession crop`)
+      }
+
+      const harvestDate = predecessor.actual_harvest_date || predecessor.expected_harvest_date
+      if (!harvestDate) {
+        throw new Error(`${predecessor.name} has no expected harvest date to plan the next sowing from`)
+      }
+      if (cropData.sown_date < harvestDate) {
+        throw new Error(`${cropData.name} cannot be sown before ${harvestDate}, when ${predecessor.name} is due to be harvested`)
+      }
+
+      if (allocation.area_fraction === undefined && !allocation.sub_geometry) {
+        allocation = { area_fraction: predecessor.area_fraction, sub_geometry: predecessor.sub_geometry }
+      }
+    }
+
+    if (allocation.sub_geometry) {
+      // The database works out the exact share; this one checks free ground
+      const plot = await this.plotService.getPlot(cropData.plot_id)
+      const subAreaHectares = calculateGeometryArea(allocation.sub_geometry) / 10000
+      allocation.area_fraction = Math.min(1, subAreaHectares / plot.area_hectares)
+    } else if (allocation.area_fraction !== undefined &&
+      (!Number.isFinite(allocation.area_fraction) || allocation.area_fraction <= 0 || allocation.area_fraction > 1)) {
+      throw new Error('Area fraction must be greater than 0 and at most 1')
+    }
+
+    const { start, end } = getCropOccupancy({ ...cropData, id: 'new' })
+    const fraction = getCropAreaFraction(allocation)
+    if (!hasFreeArea(history, fraction, start, end)) {
+      const free = Math.max(0, 1 - getPeakAllocation(history, start, end))
+      throw new Error(
+        `Only ${Math.round(free * 100)}% of the plot is free between ${start} and ${end}; ` +
+        `${cropData.name} needs ${Math.round(fraction * 100)}%`
+      )
+    }
+
+    return allocation
+  }
+
+  private async buildPhenology(crop: Crop): Promise<CropPhenology> {
+    const model = getCropPhenologyModel(crop.name, crop.variety)
+    const temperatures = crop.status === 'harvested' ? [] : await this.getSeasonTemperatures(crop)
+    return projectPhenology(model, crop.sown_date, temperatures)
+  }
+
+  /**
+   * Daily temperatures at the plot since sowing plus the forecast. Without
+   * weather the phenology falls back to typical stage durations.
+   */
+  private async getSeasonTemperatures(crop: Crop): Promise<DailyTemperature[]> {
+    try {
+      const plot = await this.plotService.getPlot(crop.plot_id)
+      const location = getGeometryCenter(plot.geometry)
+      const daysSinceSown = Math.floor((Date.now() - new Date(crop.sown_date).getTime()) / (1000 * 60 * 60 * 24))
+
+      const [history, forecast] = await Promise.all([
+        daysSinceSown > 0
+          ? this.weatherService.getHistoricalData(location, Math.min(daysSinceSown, MAX_WEATHER_HISTORY_DAYS))
+          : Promise.resolve([]),
+        this.weatherService.getForecast(location)
+      ])
+
+      // Historical records only carry a single temperature reading
+      const observed: DailyTemperature[] = history
+        .filter(day => !!day.date)
+        .map(day => ({ date: day.date!, min: day.current.temperature, max: day.current.temperature }))
+      const expected: DailyTemperature[] = forecast.forecast.map(day => ({
+        date: day.date,
+        min: day.temperature_min,
+        max: day.temperature_max
+      }))
+
+      return [...observed, ...expected]
+    } catch (error) {
+      console.warn('Weather unavailable for crop phenology, using typical stage durations:', error)
+      return []
+    }
+  }
+
   // Generate timeline events for a crop
-  private generateCropTimeline(crop: Crop): any[] {
+  private generateCropTimeline(
+    crop: Crop,
+    phenology: CropPhenology,
+    careActions: CareAction[] = [],
+    transitions: CropTransition[] = []
+  ): any[] {
     const timeline = []
-    const sownDate = new Date(crop.sown_date)
     const today = new Date()
 
+    // Days the crop was recorded entering each stage
+    const stageReached = new Map<Crop['growth_stage'], string>()
+    transitions
+      .filter(transition => transition.from_stage !== transition.to_stage)
+      .forEach(transition => {
+        if (!stageReached.has(transition.to_stage)) {
+          stageReached.set(transition.to_stage, transition.occurred_on)
+        }
+      })
+
     // Planting event
     timeline.push({
       id: 'planted',
@@ -185,37 +585,78 @@ export class SupabaseCropService implements CropService {
       icon: '🌱'
     })
 
-    // Generate growth stage events
-    const growthStages = [
-      { stage: 'seedling', title: 'Seedling Stage', icon: '🌱', days: 7 },
-      { stage: 'vegetative', title: 'Vegetative Growth', icon: '🌿', days: 21 },
-      { stage: 'flowering', title: 'Flowering Stage', icon: '🌸', days: 35 },
-      { stage: 'fruiting', title: 'Fruiting Stage', icon: '🍅', days: 50 },
-      { stage: 'mature', title: 'Maturity', icon: '🌾', days: 70 }
-    ]
-
-    growthStages.forEach(stage => {
-      const stageDate = new Date(sownDate)
-      stageDate.setDate(sownDate.getDate() + stage.days)
-
-      let status = 'pending'
-      if (crop.status === 'harvested' || stageDate <= today) {
-        status = 'completed'
-      } else if (crop.growth_stage === stage.stage) {
-        status = 'current'
+    // Generate growth stage events from the crop's degree-day model, dated
+    // by the recorded transitions where there are any
+    phenology.stages.forEach((stage, index) => {
+      const event = GROWTH_STAGE_EVENTS[stage.stage]
+      const reachedOn = stageReached.get(stage.stage)
+
+      if (reachedOn) {
+        const nextReached = phenology.stages.slice(index + 1)
+          .map(next => stageReached.get(next.stage))
+          .find(Boolean)
+
+        timeline.push({
+          id: stage.stage,
+          title: event.title,
+          description: `${event.title} phase reached`,
+          date: reachedOn,
+          end_date: nextReached || stage.end_date,
+          status: crop.status !== 'harvested' && crop.growth_stage === stage.stage ? 'current' : 'completed',
+          type: 'growth_stage',
+          icon: event.icon
+        })
+        return
       }
 
+      const status = crop.status === 'harvested' ? 'completed' : stage.status
+
       timeline.push({
         id: stage.stage,
-        title: stage.title,
-        description: `Expected ${stage.title.toLowerCase()} phase`,
-        date: stageDate.toISOString().split('T')[0],
+        title: event.title,
+        description: status === 'pending'
+          ? `Expected ${event.title.toLowerCase()} phase after ${stage.gdd_start} growing degree days`
+          : `${event.title} phase at ${stage.gdd_start} growing degree days`,
+        date: stage.start_date,
+        end_date: stage.end_date,
         status,
         type: 'growth_stage',
-        icon: stage.icon
+        icon: event.icon
       })
     })
 
+    // The day the crop was marked ready
+    const readyTransition = transitions.find(transition =>
+      transition.to_status === 'ready' && transition.from_status !== 'ready'
+    )
+    if (readyTransition) {
+      timeline.push({
+        id: 'ready',
+        title: 'Ready for Harvest',
+        description: 'Crop was marked ready for harvest',
+        date: readyTransition.occurred_on,
+        status: 'completed',
+        type: 'milestone',
+        icon: '🧺'
+      })
+    }
+
+    // Projected harvest window, unless the crop is already harvested
+    if (crop.status !== 'harvested') {
+      const windowEnd = new Date(phenology.harvest_window.end)
+
+      timeline.push({
+        id: 'projected_harvest',
+        title: 'Projected Harvest Window',
+        description: `Harvest between ${phenology.harvest_window.start} and ${phenology.harvest_window.end}`,
+        date: phenology.harvest_window.start,
+        end_date: phenology.harvest_window.end,
+        status: crop.status === 'ready' ? 'ready' : windowEnd < today ? 'overdue' : 'pending',
+        type: 'milestone',
+        icon: '📅'
+      })
+    }
+
     // Expected harvest event
     if (crop.expected_harvest_date) {
       const expectedDate = new Date(crop.expected_harvest_date)
@@ -240,12 +681,32 @@ export class SupabaseCropService implements CropService {
       })
     }
 
+    // Care actions logged for the crop
+    careActions.forEach(action => {
+      const event = CARE_ACTION_EVENTS[action.action_type]
+      const details = [
+        action.quantity !== undefined ? `${action.quantity} ${action.unit}` : null,
+        action.product ? `of ${action.product}` : null,
+        action.operator ? `by ${action.operator}` : null
+      ].filter(Boolean).join(' ')
+
+      timeline.push({
+        id: `care_${action.id}`,
+        title: event.title,
+        description: [details, action.notes].filter(Boolean).join(': ') || event.title,
+        date: action.performed_at.split('T')[0],
+        status: 'completed',
+        type: 'care_action',
+        icon: event.icon
+      })
+    })
+
     // Actual harvest event
     if (crop.actual_harvest_date) {
       timeline.push({
         id: 'actual_harvest',
         title: 'Harvested',
-        description: `Crop was successfully harvested${crop.quantity_harvested ? ` (${crop.quantity_harvested} units)` : ''}`,
+        description: `Crop was successfully harvested${crop.quantity_harvested ? ` (${crop.quantity_harvested} kg)` : ''}`,
         date: crop.actual_harvest_date,
         status: 'completed',
         type: 'milestone',
@@ -257,44 +718,6 @@ export class SupabaseCropService implements CropService {
     return timeline.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
   }
 
-  // Calculate XP reward for harvesting
-  private calculateHarvestXP(crop: Crop): number {
-    const baseXP = 25 // Base XP for any harvest
-    
-    // Bonus XP based on crop type
-    const cropMultipliers: { [key: string]: number } = {
-      'tomatoes': 1.2,
-      'corn': 1.0,
-      'wheat': 0.8,
-      'rice': 1.1,
-      'potatoes': 0.9,
-      'lettuce': 1.3,
-      'peppers': 1.4,
-      'carrots': 1.0
-    }
-
-    const multiplier = cropMultipliers[crop.name.toLowerCase()] || 1.0
-    let totalXP = Math.round(baseXP * multiplier)
-
-    // Bonus for quantity harvested
-    if (crop.quantity_harvested && crop.quantity_harvested > 0) {
-      totalXP += Math.min(crop.quantity_harvested * 2, 50) // Max 50 bonus XP
-    }
-
-    // Bonus for timely harvest (within expected timeframe)
-    if (crop.expected_harvest_date && crop.actual_harvest_date) {
-      const expectedDate = new Date(crop.expected_harvest_date)
-      const actualDate = new Date(crop.actual_harvest_date)
-      const daysDifference = Math.abs((actualDate.getTime() - expectedDate.getTime()) / (1000 * 60 * 60 * 24))
-      
-      if (daysDifference <= 3) { // Harvested within 3 days of expected date
-        totalXP += 10 // Timely harvest bonus
-      }
-    }
-
-    return totalXP
-  }
-
   // Additional helper methods for crop management
 
   /**
@@ -326,7 +749,8 @@ export class SupabaseCropService implements CropService {
   }
 
   /**
-   * Get crop statistics for a user
+   * Get crop statistics for a user. Areas count only the share of its plot
+   * each crop was allocated.
    */
   async getCropStatistics(userId: string): Promise<{
     totalCrops: number
@@ -334,14 +758,18 @@ export class SupabaseCropService implements CropService {
     harvestedCrops: number
     readyForHarvest: number
     cropsByStatus: { [key: string]: number }
+    activeAreaHectares: number
+    areaByStatus: { [key: string]: number }
   }> {
     try {
       const { data, error } = await supabase
         .from('crops')
         .select(`
           status,
+          area_fraction,
           plots!inner (
-            user_id
+            user_id,
+            area_hectares
           )
         `)
         .eq('plots.user_id', userId)
@@ -360,12 +788,25 @@ export class SupabaseCropService implements CropService {
         return acc
       }, {} as { [key: string]: number })
 
+      const round4 = (value: number) => Math.round(value * 10000) / 10000
+      const areaByStatus = data.reduce((acc, crop: any) => {
+        const plot = Array.isArray(crop.plots) ? crop.plots[0] : crop.plots
+        const area = getCropAreaHectares(crop, Number(plot.area_hectares) || 0)
+        acc[crop.status] = round4((acc[crop.status] || 0) + area)
+        return acc
+      }, {} as { [key: string]: number })
+      const activeAreaHectares = round4(Object.entries(areaByStatus)
+        .filter(([status]) => status !== 'harvested')
+        .reduce((total, [, area]) => total + area, 0))
+
       return {
         totalCrops,
         activeCrops,
         harvestedCrops,
         readyForHarvest,
-        cropsByStatus
+        cropsByStatus,
+        activeAreaHectares,
+        areaByStatus
       }
     } catch (error) {
       console.error('Get crop statistics error:', error)
@@ -374,36 +815,22 @@ export class SupabaseCropService implements CropService {
   }
 
   /**
-   * Update crop with care action (watering, fertilizing, etc.)
+   * Log a care action (watering, fertilizing, etc.) for a crop
    */
   async recordCareAction(
-    cropId: string, 
-    actionType: 'watering' | 'fertilizing' | 'pest_control' | 'pruning',
-    notes?: string
-  ): Promise<Crop> {
+    cropId: string,
+    actionType: CareActionType,
+    details: Omit<CareActionInput, 'crop_id' | 'plot_id' | 'action_type'> = {}
+  ): Promise<CareAction> {
     try {
-      // This could be expanded to track care actions in a separate table
-      // For now, we'll just update the crop's notes
       const crop = await this.getCrop(cropId)
-      const timestamp = new Date().toISOString()
-      const actionNote = `${actionType} on ${timestamp}${notes ? `: ${notes}` : ''}`
-      
-      const updatedNotes = crop.notes 
-        ? `${crop.notes}\n${actionNote}`
-        : actionNote
 
-      const { data, error } = await supabase
-        .from('crops')
-        .update({ notes: updatedNotes })
-        .eq('id', cropId)
-        .select()
-        .single()
-
-      if (error) {
-        throw new Error(`Failed to record care action: ${error.message}`)
-      }
-
-      return this.mapDatabaseCropToCrop(data)
+      return await this.careActionService.recordCareAction({
+        ...details,
+        crop_id: crop.id,
+        plot_id: crop.plot_id,
+        action_type: actionType
+      })
     } catch (error) {
       console.error('Record care action error:', error)
       throw error
@@ -411,7 +838,8 @@ export class SupabaseCropService implements CropService {
   }
 
   /**
-   * Get crops that need attention (overdue for care, ready for harvest, etc.)
+   * Get crops that need attention: ready for harvest, past their harvest
+   * window, or on plots that need watering today
    */
   async getCropsNeedingAttention(userId: string): Promise<{
     readyForHarvest: Crop[]
@@ -435,22 +863,32 @@ export class SupabaseCropService implements CropService {
       }
 
       const crops = data.map(crop => this.mapDatabaseCropToCrop(crop))
-      const today = new Date()
+      const today = new Date().toISOString().split('T')[0]
 
       const readyForHarvest = crops.filter(crop => crop.status === 'ready')
-      
+
+      // Crops still growing after their harvest window closed
+      const windowCloses = await this.getHarvestWindowCloses(crops.filter(crop => crop.status !== 'ready'))
       const overdue = crops.filter(crop => {
-        if (!crop.expected_harvest_date) return false
-        const expectedDate = new Date(crop.expected_harvest_date)
-        return expectedDate < today && crop.status !== 'ready'
+        const windowClose = windowCloses.get(crop.id)
+        return !!windowClose && windowClose < today
       })
 
-      // Simple heuristic for crops needing watering (planted more than 3 days ago)
-      const needsWatering = crops.filter(crop => {
-        const sownDate = new Date(crop.sown_date)
-        const daysSincePlanted = (today.getTime() - sownDate.getTime()) / (1000 * 60 * 60 * 24)
-        return daysSincePlanted > 3 && crop.status !== 'ready'
-      })
+      // Crops on plots whose soil water balance calls for watering today
+      const growingCrops = crops.filter(crop => crop.status !== 'ready')
+      const plotIds = Array.from(new Set(growingCrops.map(crop => crop.plot_id)))
+      const dryPlotIds = new Set<string>()
+
+      await Promise.all(plotIds.map(async plotId => {
+        try {
+          const schedule = await this.irrigationService.getIrrigationSchedule(plotId)
+          if (schedule.needs_water_today) dryPlotIds.add(plotId)
+        } catch (error) {
+          console.warn(`Could not plan irrigation for plot ${plotId}:`, error)
+        }
+      }))
+
+      const needsWatering = growingCrops.filter(crop => dryPlotIds.has(crop.plot_id))
 
       return {
         readyForHarvest,
@@ -464,10 +902,48 @@ export class SupabaseCropService implements CropService {
   }
 
   /**
-   * Calculate crop progress percentage
+   * When each crop's harvest window closes: by its latest harvest
+   * prediction, or by typical stage durations for crops not predicted yet
    */
-  calculateCropProgress(crop: Crop): number {
+  private async getHarvestWindowCloses(crops: Crop[]): Promise<Map<string, string>> {
+    const windowCloses = new Map<string, string>()
+    if (crops.length === 0) return windowCloses
+
+    const { data, error } = await supabase
+      .from('harvest_predictions')
+      .select('crop_id, window_close, predicted_on')
+      .in('crop_id', crops.map(crop => crop.id))
+      .order('predicted_on', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to fetch harvest predictions: ${error.message}`)
+    }
+
+    // Newest first, so the first prediction of each crop is its latest
+    const predictions = data || []
+    predictions.forEach(prediction => {
+      if (!windowCloses.has(prediction.crop_id)) {
+        windowCloses.set(prediction.crop_id, prediction.window_close)
+      }
+    })
+
+    crops
+      .filter(crop => !windowCloses.has(crop.id))
+      .forEach(crop => {
+        const phenology = projectPhenology(getCropPhenologyModel(crop.name, crop.variety), crop.sown_date, [])
+        windowCloses.set(crop.id, phenology.harvest_window.end)
+      })
+
+    return windowCloses
+  }
+
+  /**
+   * Calculate crop progress percentage. With a phenology projection progress
+   * follows accumulated growing degree days; otherwise days since sowing.
+   */
+  calculateCropProgress(crop: Crop, phenology?: CropPhenology): number {
     if (crop.status === 'harvested') return 100
+    if (phenology) return phenology.progress
 
     const sownDate = new Date(crop.sown_date)
     const today = new Date()
@@ -479,14 +955,31 @@ export class SupabaseCropService implements CropService {
       return Math.min(100, Math.max(0, (daysSincePlanted / totalGrowingDays) * 100))
     }
 
-    // Default to 90-day growing cycle if no expected harvest date
-    return Math.min(100, Math.max(0, (daysSincePlanted / 90) * 100))
+    // Default to the crop's typical season length if no expected harvest date
+    const seasonDays = getTypicalSeasonDays(getCropPhenologyModel(crop.name, crop.variety))
+    return Math.min(100, Math.max(0, (daysSincePlanted / seasonDays) * 100))
+  }
+
+  /**
+   * Get recommended next actions for a crop, using the latest soil test of
+   * its plot for fertilizer advice
+   */
+  async getRecommendedActionsForCrop(cropId: string): Promise<string[]> {
+    try {
+      const crop = await this.getCrop(cropId)
+      const soilTest = await this.soilService.getLatestSoilTest(crop.plot_id)
+      return this.getRecommendedActions(crop, soilTest)
+    } catch (error) {
+      console.error('Get recommended actions error:', error)
+      throw error
+    }
   }
 
   /**
-   * Get recommended next actions for a crop
+   * Get recommended next actions for a crop. With a soil test, fertilizer
+   * advice follows the measured nutrients instead of days since sowing.
    */
-  getRecommendedActions(crop: Crop): string[] {
+  getRecommendedActions(crop: Crop, soilTest?: SoilTest | null): string[] {
     const actions: string[] = []
     const today = new Date()
     const sownDate = new Date(crop.sown_date)
@@ -502,7 +995,7 @@ export class SupabaseCropService implements CropService {
       case 'growing':
         actions.push('Regular watering')
         actions.push('Check for pests')
-        if (daysSincePlanted > 14) {
+        if (!soilTest && daysSincePlanted > 14) {
           actions.push('Consider fertilizing')
         }
         break
@@ -526,6 +1019,20 @@ export class SupabaseCropService implements CropService {
       actions.push('Support plant structure')
     }
 
+    // Soil advice matters until the crop is ready to harvest
+    if (crop.status !== 'ready' && crop.status !== 'harvested') {
+      if (soilTest) {
+        actions.push(...assessSoil(soilTest).recommendations)
+
+        const ageYears = (today.getTime() - new Date(soilTest.sampled_at).getTime()) / (1000 * 60 * 60 * 24 * 365.25)
+        if (ageYears > SOIL_TEST_MAX_AGE_YEARS) {
+          actions.push(`Soil test is more than ${SOIL_TEST_MAX_AGE_YEARS} years old; test the soil again`)
+        }
+      } else if (soilTest === null) {
+        actions.push('Get a soil test to tailor fertilizer to this plot')
+      }
+    }
+
     return actions
   }
 }
\ No newline at end of file
@@ -10,8 +10,11 @@ import {
   XPService, 
   PestService,
   NotificationService,
-  ClanService 
+  ClanService,
+  StorageProvider,
+  CropService
 } from './interfaces'
+import { OfflineService } from './offline.service'
 
 // Import mock implementations
 import { MockWeatherService } from './mock/weather.service'
@@ -20,10 +23,19 @@ import { MockXPService } from './mock/xp.service'
 import { MockPestService } from './mock/pest.service'
 import { MockClanService } from './mock/clan.service'
 import { MockNotificationService } from './mock/notification.service'
+import { MockStorageProvider } from './mock/storage.service'
+import { MockOfflineService } from './mock/offline.service'
 
 // Import real implementations
 import { OpenWeatherMapService } from './real/weather.service'
 import { RealMarketService } from './real/market.service'
+// Supabase-backed providers are required when chosen: loading them loads
+// the Supabase client, which needs config.supabase
+import type * as RealStorage from './real/storage.service'
+import type * as SupabasePest from './pest.service'
+import type * as SupabaseCrop from './crop.service'
+import type * as CropLifecycle from './crop-lifecycle.service'
+import type * as HarvestPrediction from './harvest-prediction.service'
 
 export class ServiceFactory {
   private static weatherService: WeatherService | null = null
@@ -32,6 +44,12 @@ export class ServiceFactory {
   private static pestService: PestService | null = null
   private static notificationService: NotificationService | null = null
   private static clanService: ClanService | null = null
+  private static storageProvider: StorageProvider | null = null
+  private static offlineService: OfflineService | null = null
+  private static cropService: CropService | null = null
+  private static cropLifecycleService: CropLifecycle.CropLifecycleService | null = null
+  private static harvestPredictionService: HarvestPrediction.HarvestPredictionService | null = null
+  private static detachCropHooks: Array<() => void> = []
   private static apiConfig = ApiConfigManager.getInstance()
 
   static getWeatherService(): WeatherService {
@@ -89,9 +107,19 @@ export class ServiceFactory {
 
   static getPestService(): PestService {
     if (!this.pestService) {
-      // Pest service is always mock as it's internal business logic
-      // In the future, this could integrate with ML models for pest prediction
-      this.pestService = new MockPestService()
+      const pestConfig = this.apiConfig.getServiceConfig('pest')
+
+      switch (pestConfig.provider) {
+        case 'supabase': {
+          const { SupabasePestService } = require('./pest.service') as typeof SupabasePest
+          this.pestService = new SupabasePestService()
+          break
+        }
+        case 'mock':
+        default:
+          this.pestService = new MockPestService()
+          break
+      }
     }
     return this.pestService
   }
@@ -125,6 +153,93 @@ export class ServiceFactory {
     return this.clanService
   }
 
+  static getStorageProvider(): StorageProvider {
+    if (!this.storageProvider) {
+      const storageConfig = this.apiConfig.getServiceConfig('storage')
+
+      switch (storageConfig.provider) {
+        case 'supabase': {
+          const { SupabaseStorageProvider } = require('./real/storage.service') as typeof RealStorage
+          this.storageProvider = new SupabaseStorageProvider(storageConfig.config)
+          break
+        }
+        case 'aws-s3':
+          try {
+            const { S3StorageProvider } = require('./real/storage.service') as typeof RealStorage
+            this.storageProvider = new S3StorageProvider(storageConfig.config)
+          } catch (error) {
+            console.warn('Failed to initialize S3 storage, falling back to mock:', error)
+            this.storageProvider = new MockStorageProvider()
+          }
+          break
+        case 'firebase':
+          // TODO: Implement Firebase Storage
+          console.warn('Firebase storage not implemented, falling back to mock')
+          this.storageProvider = new MockStorageProvider()
+          break
+        case 'mock':
+        default:
+          this.storageProvider = new MockStorageProvider()
+          break
+      }
+    }
+    return this.storageProvider
+  }
+
+  // Kept in memory; apps with device storage set a PersistentOfflineService
+  static getOfflineService(): OfflineService {
+    if (!this.offlineService) {
+      this.offlineService = new MockOfflineService()
+    }
+    return this.offlineService
+  }
+
+  /**
+   * The crop service the app shares. Its saved transitions are handed to
+   * the crop lifecycle service, which awards their XP, badges and
+   * notifications, and to the harvest prediction service, which cancels
+   * the reminders of harvested crops.
+   */
+  static getCropService(): CropService {
+    if (!this.cropService) {
+      const { SupabaseCropService } = require('./crop.service') as typeof SupabaseCrop
+      this.cropService = new SupabaseCropService()
+      this.attachCropHooks()
+    }
+    return this.cropService
+  }
+
+  static getCropLifecycleService(): CropLifecycle.CropLifecycleService {
+    if (!this.cropLifecycleService) {
+      const { CropLifecycleService } = require('./crop-lifecycle.service') as typeof CropLifecycle
+      this.cropLifecycleService = new CropLifecycleService(this.getCropService())
+    }
+    return this.cropLifecycleService
+  }
+
+  static getHarvestPredictionService(): HarvestPrediction.HarvestPredictionService {
+    if (!this.harvestPredictionService) {
+      const { HarvestPredictionService } = require('./harvest-prediction.service') as typeof HarvestPrediction
+      this.harvestPredictionService = new HarvestPredictionService(this.getCropService())
+    }
+    return this.harvestPredictionService
+  }
+
+  private static attachCropHooks(): void {
+    this.detachCropHooks = [
+      this.getCropLifecycleService().attach(),
+      this.getHarvestPredictionService().attach()
+    ]
+  }
+
+  private static resetCropServices(): void {
+    this.detachCropHooks.forEach(detach => detach())
+    this.detachCropHooks = []
+    this.cropService = null
+    this.cropLifecycleService = null
+    this.harvestPredictionService = null
+  }
+
   // Method to reset all services (useful for testing)
   static resetServices(): void {
     this.weatherService = null
@@ -133,6 +248,9 @@ export class ServiceFactory {
     this.pestService = null
     this.notificationService = null
     this.clanService = null
+    this.storageProvider = null
+    this.offlineService = null
+    this.resetCropServices()
   }
 
   // Method to override services for testing
@@ -160,6 +278,20 @@ export class ServiceFactory {
     this.clanService = service
   }
 
+  static setStorageProvider(provider: StorageProvider): void {
+    this.storageProvider = provider
+  }
+
+  static setOfflineService(service: OfflineService): void {
+    this.offlineService = service
+  }
+
+  static setCropService(service: CropService): void {
+    this.resetCropServices()
+    this.cropService = service
+    this.attachCropHooks()
+  }
+
   // Method to get service configuration info
   static getServiceConfig(): {
     weather: string
@@ -173,7 +305,7 @@ export class ServiceFactory {
     return {
       weather: apiConfig.services.weather.provider,
       market: apiConfig.services.market.provider,
-      pest: 'mock', // Always mock for now
+      pest: apiConfig.services.pest.provider,
       notifications: apiConfig.services.notifications.provider,
       auth: apiConfig.services.auth.provider,
       storage: apiConfig.services.storage.provider
@@ -217,6 +349,12 @@ export class ServiceFactory {
       case 'notifications':
         this.notificationService = null
         break
+      case 'storage':
+        this.storageProvider = null
+        break
+      case 'pest':
+        this.pestService = null
+        break
     }
   }
 
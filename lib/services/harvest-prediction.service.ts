@@ -0,0 +1,312 @@
+// Harvest Prediction Service Implementation using Supabase
+// Predicts each crop's harvest window from its phenology, keeps a daily
+// history of the predictions and schedules reminders for when the window
+// opens and closes. The crop's own expected_harvest_date is left as the
+// grower set it. Run refreshPredictions daily so estimates follow the
+// weather.
+
+import { supabase } from '../supabase/client'
+import { CropService, NotificationService } from './interfaces'
+import { SupabaseCropService } from './crop.service'
+import { ServiceFactory } from './factory'
+import { Crop, HarvestPrediction, HarvestWindowEstimate } from '../types'
+import { predictHarvestWindow } from '../utils/phenology'
+
+// Reminders go out in the morning of the day, device time
+const REMINDER_TIME = 'T07:00:00'
+
+export class HarvestPredictionService {
+  constructor(
+    private cropService: CropService = new SupabaseCropService(),
+    private notificationService: NotificationService = ServiceFactory.getNotificationService()
+  ) {}
+
+  /**
+   * Cancel a crop's reminders once it is harvested. Returns a function that
+   * stops listening.
+   */
+  attach(): () => void {
+    return this.cropService.onTransition(async ({ transition }) => {
+      if (transition.to_status === 'harvested') {
+        await this.cancelReminders(transition.crop_id)
+      }
+    })
+  }
+
+  /**
+   * Predict a crop's harvest window as of today and save it. Reminders are
+   * moved when the predicted dates move, and left alone otherwise; new ones
+   * are only scheduled once the prediction is saved.
+   */
+  async predictHarvest(cropId: string, today: string = new Date().toISOString().split('T')[0]): Promise<HarvestPrediction> {
+    try {
+      const crop = await this.cropService.getCrop(cropId)
+      if (crop.status === 'harvested') {
+        throw new Error('Crop has already been harvested')
+      }
+
+      const [userId, phenology, previous] = await Promise.all([
+        this.getCropOwner(crop),
+        this.cropService.getCropPhenology(cropId),
+        this.getLatestPrediction(cropId)
+      ])
+      const estimate = predictHarvestWindow(crop.sown_date, phenology, today)
+      const kept = {
+        open_reminder_id: previous && previous.window_open.date === estimate.window_open.date
+          ? previous.open_reminder_id
+          : undefined,
+        close_reminder_id: previous && previous.window_close.date === estimate.window_close.date
+          ? previous.close_reminder_id
+          : undefined
+      }
+
+      const { data, error } = await supabase
+        .from('harvest_predictions')
+        .upsert({
+          crop_id: cropId,
+          user_id: userId,
+          predicted_on: today,
+          window_open: estimate.window_open.date,
+          window_open_earliest: estimate.window_open.earliest,
+          window_open_latest: estimate.window_open.latest,
+          window_close: estimate.window_close.date,
+          window_close_earliest: estimate.window_close.earliest,
+          window_close_latest: estimate.window_close.latest,
+          confidence_level: estimate.confidence_level,
+          measured_share: estimate.measured_share,
+          accumulated_gdd: estimate.accumulated_gdd,
+          required_gdd: estimate.required_gdd,
+          generic: estimate.generic,
+          open_reminder_id: kept.open_reminder_id || null,
+          close_reminder_id: kept.close_reminder_id || null
+        }, { onConflict: 'crop_id,predicted_on' })
+        .select()
+        .single()
+
+      if (error) {
+        throw new Error(`Failed to save harvest prediction: ${error.message}`)
+      }
+
+      const reminders = await this.scheduleReminders(crop, userId, estimate, previous, today)
+
+      if (reminders.open_reminder_id !== kept.open_reminder_id || reminders.close_reminder_id !== kept.close_reminder_id) {
+        const { error: reminderError } = await supabase
+          .from('harvest_predictions')
+          .update({
+            open_reminder_id: reminders.open_reminder_id || null,
+            close_reminder_id: reminders.close_reminder_id || null
+          })
+          .eq('id', data.id)
+
+        if (reminderError) {
+          throw new Error(`Failed to save harvest reminders: ${reminderError.message}`)
+        }
+      }
+
+      return this.mapDatabasePrediction({ ...data, ...reminders })
+    } catch (error) {
+      console.error('Predict harvest error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Predict the harvest of every unharvested crop of a user. A crop that
+   * fails is logged and skipped.
+   */
+  async refreshPredictions(userId: string, today?: string): Promise<HarvestPrediction[]> {
+    try {
+      const { data, error } = await supabase
+        .from('crops')
+        .select('id, plots!inner (user_id)')
+        .eq('plots.user_id', userId)
+        .neq('status', 'harvested')
+
+      if (error) {
+        throw new Error(`Failed to fetch crops: ${error.message}`)
+      }
+
+      const predictions: HarvestPrediction[] = []
+      for (const crop of data || []) {
+        try {
+          predictions.push(await this.predictHarvest(crop.id, today))
+        } catch (error) {
+          console.warn(`Could not predict the harvest of crop ${crop.id}:`, error)
+        }
+      }
+      return predictions
+    } catch (error) {
+      console.error('Refresh harvest predictions error:', error)
+      throw error
+    }
+  }
+
+  async getLatestPrediction(cropId: string): Promise<HarvestPrediction | null> {
+    try {
+      const { data, error } = await supabase
+        .from('harvest_predictions')
+        .select('*')
+        .eq('crop_id', cropId)
+        .order('predicted_on', { ascending: false })
+        .limit(1)
+
+      if (error) {
+        throw new Error(`Failed to fetch harvest prediction: ${error.message}`)
+      }
+
+      return data && data.length > 0 ? this.mapDatabasePrediction(data[0]) : null
+    } catch (error) {
+      console.error('Get harvest prediction error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Every prediction made for a crop, oldest first: how the estimate moved
+   * over the season
+   */
+  async getPredictionHistory(cropId: string): Promise<HarvestPrediction[]> {
+    try {
+      const { data, error } = await supabase
+        .from('harvest_predictions')
+        .select('*')
+        .eq('crop_id', cropId)
+        .order('predicted_on', { ascending: true })
+
+      if (error) {
+        throw new Error(`Failed to fetch harvest predictions: ${error.message}`)
+      }
+
+      return (data || []).map(row => this.mapDatabasePrediction(row))
+    } catch (error) {
+      console.error('Get harvest prediction history error:', error)
+      throw error
+    }
+  }
+
+  async cancelReminders(cropId: string): Promise<void> {
+    try {
+      const latest = await this.getLatestPrediction(cropId)
+      if (!latest) return
+
+      await this.cancelReminderIds([latest.open_reminder_id, latest.close_reminder_id])
+
+      const { error } = await supabase
+        .from('harvest_predictions')
+        .update({ open_reminder_id: null, close_reminder_id: null })
+        .eq('id', latest.id)
+
+      if (error) {
+        throw new Error(`Failed to clear harvest reminders: ${error.message}`)
+      }
+    } catch (error) {
+      console.error('Cancel harvest reminders error:', error)
+      throw error
+    }
+  }
+
+  private async getCropOwner(crop: Crop): Promise<string> {
+    const { data, error } = await supabase
+      .from('plots')
+      .select('user_id')
+      .eq('id', crop.plot_id)
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to fetch plot: ${error.message}`)
+    }
+    return data.user_id
+  }
+
+  /**
+   * Reminders for the predicted dates. Those of the previous prediction are
+   * kept while their date holds and replaced when it moves; dates already
+   * past get none.
+   */
+  private async scheduleReminders(
+    crop: Crop,
+    userId: string,
+    estimate: HarvestWindowEstimate,
+    previous: HarvestPrediction | null,
+    today: string
+  ): Promise<{ open_reminder_id?: string; close_reminder_id?: string }> {
+    const reminder = async (
+      date: string,
+      previousDate: string | undefined,
+      previousId: string | undefined,
+      notification: { title: string; message: string; priority: 'medium' | 'high' }
+    ): Promise<string | undefined> => {
+      if (previousId && previousDate === date) return previousId
+      await this.cancelReminderIds([previousId])
+      if (date < today) return undefined
+
+      return this.notificationService.scheduleNotification(userId, {
+        type: 'crop_milestone',
+        ...notification,
+        data: { cropId: crop.id, cropName: crop.name, window_open: estimate.window_open.date, window_close: estimate.window_close.date }
+      }, new Date(`${date}${REMINDER_TIME}`))
+    }
+
+    const openId = await reminder(
+      estimate.window_open.date,
+      previous ? previous.window_open.date : undefined,
+      previous ? previous.open_reminder_id : undefined,
+      {
+        title: 'Harvest window open 🌾',
+        message: `Your ${crop.name} should be ready to harvest from today until ${estimate.window_close.date}`,
+        priority: 'medium'
+      }
+    )
+    const closeId = await reminder(
+      estimate.window_close.date,
+      previous ? previous.window_close.date : undefined,
+      previous ? previous.close_reminder_id : undefined,
+      {
+        title: 'Harvest window closing ⏰',
+        message: `Harvest your ${crop.name} today; it loses quality if left in the field any longer`,
+        priority: 'high'
+      }
+    )
+
+    return { open_reminder_id: openId, close_reminder_id: closeId }
+  }
+
+  // A reminder that already went out or was removed is fine to skip
+  private async cancelReminderIds(ids: Array<string | undefined>): Promise<void> {
+    for (const id of ids) {
+      if (!id) continue
+      try {
+        await this.notificationService.cancelScheduledNotification(id)
+      } catch (error) {
+        console.warn(`Could not cancel harvest reminder ${id}:`, error)
+      }
+    }
+  }
+
+  private mapDatabasePrediction(data: any): HarvestPrediction {
+    return {
+      id: data.id,
+      crop_id: data.crop_id,
+      user_id: data.user_id,
+      predicted_on: data.predicted_on,
+      window_open: {
+        date: data.window_open,
+        earliest: data.window_open_earliest,
+        latest: data.window_open_latest
+      },
+      window_close: {
+        date: data.window_close,
+        earliest: data.window_close_earliest,
+        latest: data.window_close_latest
+      },
+      confidence_level: Number(data.confidence_level),
+      measured_share: Number(data.measured_share),
+      accumulated_gdd: data.accumulated_gdd,
+      required_gdd: data.required_gdd,
+      generic: data.generic,
+      open_reminder_id: data.open_reminder_id || undefined,
+      close_reminder_id: data.close_reminder_id || undefined,
+      created_at: data.created_at
+    }
+  }
+}
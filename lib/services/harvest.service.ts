@@ -0,0 +1,213 @@
+// Harvest Service Implementation using Supabase
+// Each weighing of a crop's harvest with its grade and moisture. The crop's
+// quantity_harvested is kept at the total by a database trigger.
+
+import { supabase } from '../supabase/client'
+import { HarvestService } from './interfaces'
+import { CropHarvestRecord, HarvestFilter, HarvestInput, HarvestRecord } from '../types'
+import { getCropAreaHectares } from '../utils/allocation'
+
+export class SupabaseHarvestService implements HarvestService {
+  /**
+   * Record a harvest of a crop that is ready or already harvested. The area
+   * defaults to the crop's share of its plot.
+   */
+  async recordHarvest(cropId: string, input: HarvestInput): Promise<HarvestRecord> {
+    try {
+      const record = await this.prepareHarvest(cropId, input)
+
+      const { data, error } = await supabase
+        .from('harvest_records')
+        .insert(record)
+        .select()
+        .single()
+
+      if (error) {
+        throw new Error(`Failed to record harvest: ${error.message}`)
+      }
+
+      return this.mapDatabaseHarvest(data)
+    } catch (error) {
+      console.error('Record harvest error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Check a harvest of a crop that is ready or already harvested and fill
+   * in its defaults, without saving it. CropService.harvestCrop saves it
+   * together with the crop's move to harvested.
+   */
+  async prepareHarvest(cropId: string, input: HarvestInput): Promise<Omit<HarvestRecord, 'id' | 'created_at'>> {
+    try {
+      const { data: crop, error: cropError } = await supabase
+        .from('crops')
+        .select('id, plot_id, sown_date, status, area_fraction, plots!inner (user_id, area_hectares)')
+        .eq('id', cropId)
+        .single()
+
+      if (cropError) {
+        throw new Error(`Failed to fetch crop: ${cropError.message}`)
+      }
+      if (crop.status !== 'ready' && crop.status !== 'harvested') {
+        throw new Error('Crop is not ready for harvest')
+      }
+
+      const plot = Array.isArray(crop.plots) ? crop.plots[0] : crop.plots
+      const harvestedAt = input.harvested_at || new Date().toISOString().split('T')[0]
+      const area = input.area_hectares !== undefined
+        ? input.area_hectares
+        : getCropAreaHectares(crop, Number(plot.area_hectares))
+
+      const errors = this.validateHarvest({ ...input, harvested_at: harvestedAt, area_hectares: area }, crop.sown_date)
+      if (errors.length > 0) {
+        throw new Error(`Invalid harvest: ${errors.join('; ')}`)
+      }
+
+      return {
+        crop_id: crop.id,
+        plot_id: crop.plot_id,
+        user_id: plot.user_id,
+        harvested_at: harvestedAt,
+        weight_kg: input.weight_kg,
+        grade: input.grade ? input.grade.trim() : undefined,
+        moisture_pct: input.moisture_pct,
+        area_hectares: area,
+        notes: input.notes
+      }
+    } catch (error) {
+      console.error('Prepare harvest error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get a crop's harvest records, oldest first
+   */
+  async getHarvests(cropId: string): Promise<HarvestRecord[]> {
+    try {
+      const { data, error } = await supabase
+        .from('harvest_records')
+        .select('*')
+        .eq('crop_id', cropId)
+        .order('harvested_at', { ascending: true })
+
+      if (error) {
+        throw new Error(`Failed to fetch harvests: ${error.message}`)
+      }
+
+      return (data || []).map(record => this.mapDatabaseHarvest(record))
+    } catch (error) {
+      console.error('Get harvests error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get all of a user's harvest records with their crop and plot, newest
+   * first. Dates bound harvested_at inclusively.
+   */
+  async getUserHarvests(userId: string, filter: HarvestFilter = {}): Promise<CropHarvestRecord[]> {
+    try {
+      let query = supabase
+        .from('harvest_records')
+        .select(`
+          *,
+          crops!inner (
+            name,
+            variety,
+            sown_date
+          ),
+          plots!inner (
+            name
+          )
+        `)
+        .eq('user_id', userId)
+
+      if (filter.plotId) query = query.eq('plot_id', filter.plotId)
+      if (filter.from) query = query.gte('harvested_at', filter.from)
+      if (filter.to) query = query.lte('harvested_at', filter.to)
+
+      const { data, error } = await query.order('harvested_at', { ascending: false })
+
+      if (error) {
+        throw new Error(`Failed to fetch harvests: ${error.message}`)
+      }
+
+      return (data || []).map((record: any) => ({
+        ...this.mapDatabaseHarvest(record),
+        crop_name: record.crops.name,
+        variety: record.crops.variety || undefined,
+        sown_date: record.crops.sown_date,
+        plot_name: record.plots.name
+      }))
+    } catch (error) {
+      console.error('Get user harvests error:', error)
+      throw error
+    }
+  }
+
+  async deleteHarvest(harvestId: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('harvest_records')
+        .delete()
+        .eq('id', harvestId)
+
+      if (error) {
+        throw new Error(`Failed to delete harvest: ${error.message}`)
+      }
+    } catch (error) {
+      console.error('Delete harvest error:', error)
+      throw error
+    }
+  }
+
+  private validateHarvest(harvest: HarvestInput, sownDate: string): string[] {
+    const errors: string[] = []
+
+    if (!Number.isFinite(harvest.weight_kg) || harvest.weight_kg <= 0) {
+      errors.push('Weight must be greater than 0')
+    }
+    if (harvest.moisture_pct !== undefined && harvest.moisture_pct !== null &&
+      (!Number.isFinite(harvest.moisture_pct) || harvest.moisture_pct < 0 || harvest.moisture_pct >= 100)) {
+      errors.push('Moisture must be between 0 and 100%')
+    }
+    if (!harvest.area_hectares || !Number.isFinite(harvest.area_hectares) || harvest.area_hectares <= 0) {
+      errors.push('Harvested area must be greater than 0')
+    }
+    if (harvest.grade !== undefined && (harvest.grade.trim().length === 0 || harvest.grade.trim().length > 20)) {
+      errors.push('Grade must be 1 to 20 characters')
+    }
+    if (harvest.harvested_at) {
+      const harvestedAt = new Date(harvest.harvested_at)
+      if (isNaN(harvestedAt.getTime())) {
+        errors.push(`Invalid date: ${harvest.harvested_at}`)
+      } else if (harvestedAt.getTime() > Date.now()) {
+        errors.push('Harvest cannot be in the future')
+      } else if (harvest.harvested_at < sownDate) {
+        errors.push('Harvest cannot be before the crop was sown')
+      }
+    }
+
+    return errors
+  }
+
+  private mapDatabaseHarvest(dbHarvest: any): HarvestRecord {
+    return {
+      id: dbHarvest.id,
+      crop_id: dbHarvest.crop_id,
+      plot_id: dbHarvest.plot_id,
+      user_id: dbHarvest.user_id,
+      harvested_at: dbHarvest.harvested_at,
+      weight_kg: Number(dbHarvest.weight_kg),
+      grade: dbHarvest.grade || undefined,
+      moisture_pct: dbHarvest.moisture_pct !== null && dbHarvest.moisture_pct !== undefined
+        ? Number(dbHarvest.moisture_pct)
+        : undefined,
+      area_hectares: Number(dbHarvest.area_hectares),
+      notes: dbHarvest.notes || undefined,
+      created_at: dbHarvest.created_at
+    }
+  }
+}
@@ -0,0 +1,112 @@
+// Idempotency Service Implementation using Supabase
+// Records which side effects have been applied, by idempotency key, so
+// retried events skip what an earlier run already did.
+
+import { supabase } from '../supabase/client'
+import { IdempotencyService } from './interfaces'
+import { LifecycleEffect } from '../types'
+
+// A claim this old was left behind by a run that died mid-effect
+const STALE_CLAIM_MINUTES = 10
+
+export class SupabaseIdempotencyService implements IdempotencyService {
+  /**
+   * Claim a key. A key already claimed stays with its holder unless the
+   * claim is pending and stale, in which case it is taken over.
+   */
+  async claim(key: string, userId: string): Promise<{ claimed: boolean; effect: LifecycleEffect }> {
+    try {
+      const { data, error } = await supabase
+        .from('lifecycle_effects')
+        .insert({ idempotency_key: key, user_id: userId })
+        .select()
+        .single()
+
+      if (!error) {
+        return { claimed: true, effect: this.mapDatabaseEffect(data) }
+      }
+      // Anything but a duplicate key is a real failure
+      if (error.code !== '23505') {
+        throw new Error(`Failed to claim ${key}: ${error.message}`)
+      }
+
+      const staleBefore = new Date(Date.now() - STALE_CLAIM_MINUTES * 60 * 1000).toISOString()
+      const { data: takenOver, error: takeOverError } = await supabase
+        .from('lifecycle_effects')
+        .update({ claimed_at: new Date().toISOString() })
+        .eq('idempotency_key', key)
+        .eq('status', 'pending')
+        .lt('claimed_at', staleBefore)
+        .select()
+
+      if (takeOverError) {
+        throw new Error(`Failed to claim ${key}: ${takeOverError.message}`)
+      }
+      if (takenOver && takenOver.length > 0) {
+        return { claimed: true, effect: this.mapDatabaseEffect(takenOver[0]) }
+      }
+
+      const { data: existing, error: fetchError } = await supabase
+        .from('lifecycle_effects')
+        .select('*')
+        .eq('idempotency_key', key)
+        .single()
+
+      if (fetchError) {
+        throw new Error(`Failed to fetch ${key}: ${fetchError.message}`)
+      }
+
+      return { claimed: false, effect: this.mapDatabaseEffect(existing) }
+    } catch (error) {
+      console.error('Claim idempotency key error:', error)
+      throw error
+    }
+  }
+
+  async complete(key: string, result: any): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('lifecycle_effects')
+        .update({ status: 'completed', result, completed_at: new Date().toISOString() })
+        .eq('idempotency_key', key)
+
+      if (error) {
+        throw new Error(`Failed to complete ${key}: ${error.message}`)
+      }
+    } catch (error) {
+      console.error('Complete idempotency key error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Give up a pending claim so a retry can apply the effect
+   */
+  async release(key: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('lifecycle_effects')
+        .delete()
+        .eq('idempotency_key', key)
+        .eq('status', 'pending')
+
+      if (error) {
+        throw new Error(`Failed to release ${key}: ${error.message}`)
+      }
+    } catch (error) {
+      console.error('Release idempotency key error:', error)
+      throw error
+    }
+  }
+
+  private mapDatabaseEffect(dbEffect: any): LifecycleEffect {
+    return {
+      idempotency_key: dbEffect.idempotency_key,
+      user_id: dbEffect.user_id,
+      status: dbEffect.status,
+      result: dbEffect.result !== null ? dbEffect.result : undefined,
+      claimed_at: dbEffect.claimed_at,
+      completed_at: dbEffect.completed_at || undefined
+    }
+  }
+}
@@ -4,14 +4,55 @@ import {
   User, 
   Plot, 
   Crop, 
+  CropPhenology,
+  CropTransition,
+  CropTransitionHook,
+  CropTransitionOptions,
   WeatherData, 
   WeatherAlert, 
   MarketPrice, 
+  XPAward,
   XPLog, 
   PestBattle, 
+  PestBattleTurn,
+  PestBattleTurnResult,
+  PestTreatment,
   Badge, 
   UserBadge, 
-  Location 
+  Location,
+  PlotGeometry,
+  PlotValidationOptions,
+  PlotOverlapReport,
+  PlotSnapOptions,
+  PlotSnapResult,
+  PlotLineage,
+  BoundingBox,
+  ClanMemberPlot,
+  PlotPage,
+  PlotPageOptions,
+  PlotSpatialQueryOptions,
+  PlotWithDistance,
+  CareAction,
+  CareActionFilter,
+  CareActionInput,
+  CareActionUpdate,
+  CareUsage,
+  CropHarvestRecord,
+  HarvestFilter,
+  HarvestInput,
+  HarvestRecord,
+  LifecycleEffect,
+  MediaFilter,
+  MediaItem,
+  MediaUploadInput,
+  QueuedMediaUpload,
+  RotationIssue,
+  SoilCsvImportOptions,
+  SoilCsvImportResult,
+  SoilParameter,
+  SoilTest,
+  SoilTrend,
+  StorageProviderName
 } from '../types'
 
 export interface AuthService {
@@ -25,21 +66,74 @@ export interface AuthService {
 }
 
 export interface PlotService {
-  createPlot(plotData: Omit<Plot, 'id' | 'created_at' | 'updated_at'>): Promise<Plot>
-  updatePlot(plotId: string, updates: Partial<Plot>): Promise<Plot>
+  createPlot(
+    plotData: Omit<Plot, 'id' | 'created_at' | 'updated_at'>,
+    options?: PlotValidationOptions
+  ): Promise<Plot>
+  updatePlot(plotId: string, updates: Partial<Plot>, options?: PlotValidationOptions): Promise<Plot>
   deletePlot(plotId: string): Promise<void>
   getPlots(userId: string): Promise<Plot[]>
   getPlot(plotId: string): Promise<Plot>
-  calculateArea(geometry: GeoJSON.Polygon): Promise<number>
+  calculateArea(geometry: PlotGeometry): Promise<number>
+  detectPlotOverlaps(userId: string, geometry: PlotGeometry, excludePlotId?: string): Promise<PlotOverlapReport>
+  snapToNeighbourEdges(userId: string, geometry: PlotGeometry, options?: PlotSnapOptions): Promise<PlotSnapResult>
+  splitPlot(plotId: string, line: GeoJSON.LineString, names?: string[]): Promise<Plot[]>
+  mergePlots(plotIds: string[], name?: string): Promise<Plot>
+  getPlotLineage(plotId: string): Promise<PlotLineage[]>
+  resolvePlotIds(plotId: string): Promise<string[]>
+  getPlotsWithinRadius(location: Location, radiusKm: number, options?: PlotSpatialQueryOptions): Promise<PlotWithDistance[]>
+  getPlotsInBoundingBox(bounds: BoundingBox, options?: PlotPageOptions): Promise<PlotPage>
+  getNearestClanPlots(userId: string, location: Location, limit?: number): Promise<ClanMemberPlot[]>
 }
 
 export interface CropService {
-  assignCrop(cropData: Omit<Crop, 'id' | 'created_at' | 'updated_at'>): Promise<Crop>
-  updateCropStatus(cropId: string, status: Crop['status'], growthStage?: Crop['growth_stage']): Promise<Crop>
+  assignCrop(cropData: Omit<Crop, 'id' | 'created_at' | 'updated_at'>): Promise<{ crop: Crop; warnings: RotationIssue[] }>
+  updateCropStatus(
+    cropId: string,
+    status: Crop['status'],
+    growthStage?: Crop['growth_stage'],
+    options?: CropTransitionOptions
+  ): Promise<Crop>
+  getCropTransitions(cropId: string): Promise<CropTransition[]>
+  onTransition(hook: CropTransitionHook): () => void
   getCrops(plotId: string): Promise<Crop[]>
   getCrop(cropId: string): Promise<Crop>
   getCropTimeline(cropId: string): Promise<any[]>
-  harvestCrop(cropId: string): Promise<{ crop: Crop; xpAwarded: number }>
+  getCropPhenology(cropId: string): Promise<CropPhenology>
+  getCropProgress(cropId: string): Promise<number>
+  harvestCrop(cropId: string, harvest?: HarvestInput): Promise<{ crop: Crop }>
+  scheduleSuccession(
+    cropId: string,
+    next: Pick<Crop, 'name'> & Partial<Pick<Crop, 'variety' | 'quantity_planted' | 'notes'>>,
+    gapDays?: number
+  ): Promise<{ crop: Crop; warnings: RotationIssue[] }>
+  getSuccessionChain(cropId: string): Promise<Crop[]>
+}
+
+export interface HarvestService {
+  recordHarvest(cropId: string, input: HarvestInput): Promise<HarvestRecord>
+  prepareHarvest(cropId: string, input: HarvestInput): Promise<Omit<HarvestRecord, 'id' | 'created_at'>>
+  getHarvests(cropId: string): Promise<HarvestRecord[]>
+  getUserHarvests(userId: string, filter?: HarvestFilter): Promise<CropHarvestRecord[]>
+  deleteHarvest(harvestId: string): Promise<void>
+}
+
+export interface CareActionService {
+  recordCareAction(input: CareActionInput): Promise<CareAction>
+  getCareAction(actionId: string): Promise<CareAction>
+  getCareActions(filter: CareActionFilter): Promise<CareAction[]>
+  updateCareAction(actionId: string, updates: CareActionUpdate): Promise<CareAction>
+  deleteCareAction(actionId: string): Promise<void>
+  getCareUsage(filter: CareActionFilter): Promise<CareUsage[]>
+}
+
+export interface SoilService {
+  addSoilTest(test: Omit<SoilTest, 'id' | 'created_at'>): Promise<SoilTest>
+  getSoilTests(plotId: string, range?: { from?: string; to?: string }): Promise<SoilTest[]>
+  getLatestSoilTest(plotId: string): Promise<SoilTest | null>
+  deleteSoilTest(testId: string): Promise<void>
+  importSoilTestsCsv(plotId: string, csv: string, options?: SoilCsvImportOptions): Promise<SoilCsvImportResult>
+  getSoilTrends(plotId: string, parameters?: SoilParameter[]): Promise<SoilTrend[]>
 }
 
 export interface WeatherService {
@@ -58,6 +152,8 @@ export interface MarketService {
 
 export interface XPService {
   awardXP(userId: string, actionType: string, xpAmount: number, description?: string): Promise<XPLog>
+  // Award XP at most once per idempotency key
+  awardXPOnce(key: string, userId: string, actionType: string, xpAmount: number, description?: string): Promise<XPAward>
   calculateLevel(xp: number): number
   getXPLogs(userId: string, limit?: number): Promise<XPLog[]>
   getLevelProgress(userId: string): Promise<{ currentLevel: number; currentXP: number; xpToNextLevel: number }>
@@ -71,6 +167,30 @@ export interface BadgeService {
   awardBadge(userId: string, badgeId: string): Promise<UserBadge>
 }
 
+export interface IdempotencyService {
+  // Claim a key before applying its effect. Unclaimed keys come back with
+  // the effect that holds them: completed, or still being applied.
+  claim(key: string, userId: string): Promise<{ claimed: boolean; effect: LifecycleEffect }>
+  complete(key: string, result: any): Promise<void>
+  release(key: string): Promise<void>
+}
+
+// Object storage for photos and other files, addressed by path
+export interface StorageProvider {
+  readonly name: StorageProviderName
+  upload(path: string, content: Uint8Array, contentType: string): Promise<void>
+  download(path: string): Promise<Uint8Array>
+  getSignedUrl(path: string, expiresInSeconds: number): Promise<string>
+  remove(paths: string[]): Promise<void>
+}
+
+export interface MediaService {
+  upload(input: MediaUploadInput): Promise<MediaItem>
+  queueUpload(input: MediaUploadInput): Promise<QueuedMediaUpload>
+  getMedia(userId: string, filter?: MediaFilter): Promise<MediaItem[]>
+  deleteMedia(mediaId: string): Promise<void>
+}
+
 export interface ClanService {
   createClan(name: string, description: string, leaderId: string): Promise<any>
   joinClan(userId: string, clanId: string): Promise<void>
@@ -107,6 +227,9 @@ export interface NotificationService {
   // Bulk operations
   sendBulkNotifications(notifications: Array<{ userId: string; notification: any }>): Promise<void>
   getUnreadCount(userId: string): Promise<number>
+
+  // Common notification types
+  sendCropMilestoneNotification(userId: string, cropName: string, milestone: string): Promise<any>
 }
 
 export interface PestService {
@@ -114,4 +237,7 @@ export interface PestService {
   resolvePestBattle(battleId: string, success: boolean): Promise<{ battle: PestBattle; xpAwarded: number }>
   getActiveBattles(userId: string): Promise<PestBattle[]>
   getPestHistory(plotId: string): Promise<PestBattle[]>
+  getTreatments(pestType?: string): Promise<PestTreatment[]>
+  playTurn(battleId: string, treatmentId: string): Promise<PestBattleTurnResult>
+  getBattleTurns(battleId: string): Promise<PestBattleTurn[]>
 }
\ No newline at end of file
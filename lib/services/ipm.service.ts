@@ -0,0 +1,101 @@
+// Integrated pest management recommendations for a pest on a plot. Options
+// come from the IPM catalog and the treatment catalog, checked against the
+// crop's expected harvest date (pre-harvest intervals) and the plot owner's
+// stock in the resources table.
+
+import { supabase } from '../supabase/client'
+import { PestService, PlotService } from './interfaces'
+import { ServiceFactory } from './factory'
+import { SupabasePlotService } from './plot.service'
+import { Crop, IpmRecommendation, Plot, Resource } from '../types'
+import { PEST_CATALOG } from '../config/pest-catalog'
+import { buildIpmOptions, getIpmGuide } from '../utils/ipm'
+
+export class IpmService {
+  constructor(
+    private plotService: PlotService = new SupabasePlotService(),
+    private pestService: PestService = ServiceFactory.getPestService()
+  ) {}
+
+  /**
+   * What to do about a pest on a plot. The PHI is checked against the given
+   * crop, or else the crop on the plot due to be harvested first.
+   */
+  async getRecommendations(
+    plotId: string,
+    pestType: string,
+    options: { cropId?: string; today?: string } = {}
+  ): Promise<IpmRecommendation> {
+    try {
+      const today = options.today || new Date().toISOString().split('T')[0]
+      const plot = await this.plotService.getPlot(plotId)
+      const crop = this.findCrop(plot, options.cropId)
+
+      const [treatments, resources] = await Promise.all([
+        this.pestService.getTreatments(pestType),
+        this.getResources(plot.user_id)
+      ])
+      const pest = PEST_CATALOG[pestType]
+
+      return {
+        plot_id: plot.id,
+        pest_type: pestType,
+        pest_name: pest ? pest.name : pestType,
+        crop_id: crop ? crop.id : undefined,
+        crop_name: crop ? crop.name : undefined,
+        expected_harvest_date: crop ? crop.expected_harvest_date : undefined,
+        action_threshold: getIpmGuide(pestType).action_threshold,
+        options: buildIpmOptions({
+          pestType,
+          treatments,
+          resources,
+          areaHectares: plot.area_hectares,
+          today,
+          expectedHarvestDate: crop ? crop.expected_harvest_date : undefined
+        })
+      }
+    } catch (error) {
+      console.error('Get IPM recommendations error:', error)
+      throw error
+    }
+  }
+
+  private findCrop(plot: Plot, cropId?: string): Partial<Crop> | undefined {
+    const crops = plot.crops || []
+    if (cropId) {
+      const crop = crops.find(candidate => candidate.id === cropId)
+      if (!crop) {
+        throw new Error('Crop not found on this plot')
+      }
+      return crop
+    }
+
+    return crops
+      .filter(crop => crop.status !== 'harvested' && !!crop.expected_harvest_date)
+      .sort((a, b) => a.expected_harvest_date!.localeCompare(b.expected_harvest_date!))[0]
+  }
+
+  private async getResources(userId: string): Promise<Resource[]> {
+    const { data, error } = await supabase
+      .from('resources')
+      .select('*')
+      .eq('user_id', userId)
+
+    if (error) {
+      throw new Error(`Failed to fetch resources: ${error.message}`)
+    }
+
+    return (data || []).map(row => ({
+      id: row.id,
+      user_id: row.user_id,
+      resource_type: row.resource_type,
+      quantity: Number(row.quantity),
+      unit: row.unit,
+      cost_per_unit: row.cost_per_unit !== null && row.cost_per_unit !== undefined ? Number(row.cost_per_unit) : undefined,
+      supplier: row.supplier || undefined,
+      purchase_date: row.purchase_date || undefined,
+      expiry_date: row.expiry_date || undefined,
+      updated_at: row.updated_at
+    }))
+  }
+}
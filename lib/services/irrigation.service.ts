@@ -0,0 +1,169 @@
+// Irrigation planning per plot: a daily soil water balance over the
+// forecast, using Hargreaves ET0, crop coefficients for each crop's growth
+// stage, chance-weighted forecast rain and the plot's irrigation method.
+
+import { CareActionService, PlotService, WeatherService } from './interfaces'
+import { SupabaseCareActionService } from './care-action.service'
+import { ServiceFactory } from './factory'
+import { SupabasePlotService } from './plot.service'
+import { Crop, CropPhenologyModel, DailyTemperature, IrrigationSchedule, Plot } from '../types'
+import { getCropAreaFraction } from '../utils/allocation'
+import { getGeometryCenter } from '../utils/geometry'
+import {
+  getCropCoefficient,
+  getRootDepth,
+  getSoilAvailableWater,
+  hargreavesET0,
+  IRRIGATION_METHODS,
+  parseIrrigationMethod,
+  runWaterBalance
+} from '../utils/irrigation'
+import { getCropPhenologyModel, getStageOnDate, projectPhenology } from '../utils/phenology'
+
+// Rain on a rainy day when the forecast gives no amount
+const DEFAULT_RAIN_MM = 10
+
+export class IrrigationService {
+  constructor(
+    private plotService: PlotService = new SupabasePlotService(),
+    private careActionService: CareActionService = new SupabaseCareActionService(),
+    private weatherService: WeatherService = ServiceFactory.getWeatherService()
+  ) {}
+
+  /**
+   * Plan watering for a plot over the forecast period. The soil is assumed
+   * to be at field capacity after the last logged watering (or sowing) and
+   * to have dried out since at the rate of the first forecast day.
+   */
+  async getIrrigationSchedule(plotId: string): Promise<IrrigationSchedule> {
+    try {
+      const plot = await this.plotService.getPlot(plotId)
+      const location = getGeometryCenter(plot.geometry)
+      const today = new Date().toISOString().split('T')[0]
+      const notes: string[] = []
+
+      let method = parseIrrigationMethod(plot.irrigation_type)
+      if (!method) {
+        notes.push(plot.irrigation_type
+          ? `Unknown irrigation type "${plot.irrigation_type}"; assuming surface irrigation`
+          : 'No irrigation type set for the plot; assuming surface irrigation')
+        method = 'surface'
+      } else if (method === 'rainfed') {
+        notes.push('Plot is rainfed; showing the water balance without irrigation')
+      }
+
+      const [weather, waterings] = await Promise.all([
+        this.weatherService.getForecast(location),
+        this.careActionService.getCareActions({ plotId, actionType: 'watering' })
+      ])
+      const forecast = weather.forecast
+      const temperatures: DailyTemperature[] = forecast.map(day => ({
+        date: day.date,
+        min: day.temperature_min,
+        max: day.temperature_max
+      }))
+
+      const schedule: IrrigationSchedule = {
+        plot_id: plotId,
+        method,
+        efficiency: method === 'rainfed' ? 1 : IRRIGATION_METHODS[method].efficiency,
+        total_available_water_mm: 0,
+        readily_available_water_mm: 0,
+        initial_depletion_mm: 0,
+        days: [],
+        events: [],
+        needs_water_today: false,
+        notes
+      }
+
+      const crop = this.pickCrop(plot, temperatures, today)
+      if (!crop || forecast.length === 0) {
+        notes.push(crop ? 'No weather forecast available' : 'No growing crop on the plot')
+        return schedule
+      }
+
+      const phenology = projectPhenology(crop.model, crop.sown_date, temperatures, today)
+      const water = crop.model.water
+      const firstStage = getStageOnDate(phenology, forecast[0].date)
+
+      const days = forecast.map(day => ({
+        date: day.date,
+        et0_mm: hargreavesET0(day.temperature_min, day.temperature_max, location.latitude, day.date),
+        kc: getCropCoefficient(water, getStageOnDate(phenology, day.date)),
+        rain_mm: (day.precipitation_chance / 100) *
+          (day.precipitation_mm !== undefined ? day.precipitation_mm : DEFAULT_RAIN_MM)
+      }))
+
+      const totalAvailableWater = getSoilAvailableWater(plot.soil_type) * getRootDepth(water, firstStage)
+      const readilyAvailableWater = totalAvailableWater * water.depletion_fraction
+
+      const lastWatered = waterings.length > 0 ? waterings[0].performed_at.split('T')[0] : null
+      if (!lastWatered) {
+        notes.push('No watering logged since sowing; soil water is estimated from the sowing date')
+      }
+      const wetSince = lastWatered && lastWatered > crop.sown_date ? lastWatered : crop.sown_date
+      const dryDays = Math.max(0, (new Date(today).getTime() - new Date(wetSince).getTime()) / (24 * 60 * 60 * 1000))
+      const initialDepletion = Math.min(totalAvailableWater, dryDays * days[0].et0_mm * days[0].kc)
+
+      // Only the ground the growing crops take is watered
+      const croppedFraction = Math.min(1, this.getGrowingCrops(plot, today)
+        .reduce((total, growing) => total + getCropAreaFraction(growing), 0))
+
+      const balance = runWaterBalance(days, {
+        totalAvailableWater,
+        readilyAvailableWater,
+        initialDepletion,
+        method: method === 'rainfed' ? null : method,
+        areaSquareMeters: plot.area_hectares * 10000 * croppedFraction
+      })
+
+      return {
+        ...schedule,
+        crop_id: crop.id,
+        total_available_water_mm: Math.round(totalAvailableWater * 10) / 10,
+        readily_available_water_mm: Math.round(readilyAvailableWater * 10) / 10,
+        initial_depletion_mm: Math.round(initialDepletion * 10) / 10,
+        days: balance.days,
+        events: balance.events,
+        needs_water_today: balance.events.length > 0 && balance.events[0].date <= today
+      }
+    } catch (error) {
+      console.error('Get irrigation schedule error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * The growing crop that uses the most water today sets the schedule
+   */
+  private pickCrop(
+    plot: Plot,
+    temperatures: DailyTemperature[],
+    today: string
+  ): { id: string; sown_date: string; model: CropPhenologyModel } | null {
+    const growing = this.getGrowingCrops(plot, today)
+
+    let best: { id: string; sown_date: string; model: CropPhenologyModel } | null = null
+    let bestKc = -1
+
+    growing.forEach(crop => {
+      const model = getCropPhenologyModel(crop.name, crop.variety)
+      const stage = getStageOnDate(projectPhenology(model, crop.sown_date, temperatures, today), today)
+      const kc = getCropCoefficient(model.water, stage)
+      if (kc > bestKc) {
+        best = { id: crop.id, sown_date: crop.sown_date, model }
+        bestKc = kc
+      }
+    })
+
+    return best
+  }
+
+  // Crops sown by today and not yet harvested
+  private getGrowingCrops(plot: Plot, today: string) {
+    return (plot.crops || []).filter(
+      (crop): crop is Partial<Crop> & { id: string; name: string; sown_date: string } =>
+        !!crop.id && !!crop.name && !!crop.sown_date && crop.status !== 'harvested' && crop.sown_date <= today
+    )
+  }
+}
@@ -0,0 +1,407 @@
+// Media Service Implementation using Supabase
+// The crop health photo journal: photos of plots, crops and pest battles
+// with when and where they were taken. Files go to the configured storage
+// provider; photos taken offline wait in device file storage, and the
+// offline action queue keeps a reference to them.
+
+import { supabase } from '../supabase/client'
+import { MediaService, StorageProvider } from './interfaces'
+import { OfflineAction, OfflineService } from './offline.service'
+import { ServiceFactory } from './factory'
+import {
+  Location,
+  MediaFilter,
+  MediaItem,
+  MediaUploadInput,
+  QueuedMediaUpload,
+  ThumbnailGenerator
+} from '../types'
+import { generateUUID } from '../utils'
+import { readExif } from '../utils/exif'
+
+const MAX_PHOTO_BYTES = 15 * 1024 * 1024
+const MAX_CAPTION_LENGTH = 500
+const SIGNED_URL_TTL_SECONDS = 60 * 60
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/heic': 'heic'
+}
+
+// Everything about a photo that is known before it reaches the server
+interface PreparedMedia {
+  id: string
+  content_type: string
+  size_bytes: number
+  plot_id?: string
+  crop_id?: string
+  pest_battle_id?: string
+  caption?: string
+  taken_at: string
+  location?: Location
+  width?: number
+  height?: number
+  orientation?: number
+}
+
+interface PreparedUpload {
+  media: PreparedMedia
+  content: Uint8Array
+  thumbnail?: Uint8Array
+}
+
+// How a prepared upload travels in the offline action queue
+interface QueuedMediaData extends PreparedMedia {
+  content_file: string // offline file names
+  thumbnail_file?: string
+}
+
+export class SupabaseMediaService implements MediaService {
+  constructor(
+    private storage: StorageProvider = ServiceFactory.getStorageProvider(),
+    private offlineService: OfflineService = ServiceFactory.getOfflineService(),
+    // The library has no image codec, so none is generated by default: a
+    // JPEG keeps the thumbnail its camera embedded in the EXIF data, and
+    // other photos are shown full size. Apps pass one built on their
+    // platform's image API to get thumbnails for every photo.
+    private generateThumbnail?: ThumbnailGenerator
+  ) {
+    this.offlineService.registerSyncHandler('media', action => this.syncQueuedUpload(action))
+  }
+
+  /**
+   * Save a photo now. It is filed under the plot of the crop or pest battle
+   * it shows, or the plot given.
+   */
+  async upload(input: MediaUploadInput): Promise<MediaItem> {
+    try {
+      return await this.save(await this.prepare(input))
+    } catch (error) {
+      console.error('Upload media error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Queue a photo to be saved when the device is online. Its metadata is
+   * read now, so a bad photo is rejected before it is queued.
+   */
+  async queueUpload(input: MediaUploadInput): Promise<QueuedMediaUpload> {
+    try {
+      const { media, content, thumbnail } = await this.prepare(input)
+      const files: string[] = []
+
+      try {
+        files.push(await this.offlineService.storeFile(content))
+        if (thumbnail) {
+          files.push(await this.offlineService.storeFile(thumbnail))
+        }
+
+        const data: QueuedMediaData = { ...media, content_file: files[0], thumbnail_file: files[1] }
+        await this.offlineService.queueAction({ type: 'CREATE', entity: 'media', entityId: media.id, data, files })
+      } catch (error) {
+        for (const name of files) {
+          await this.offlineService.removeFile(name).catch(removeError => {
+            console.error('Remove queued media file error:', removeError)
+          })
+        }
+        throw error
+      }
+
+      return {
+        id: media.id,
+        taken_at: media.taken_at,
+        location: media.location,
+        size_bytes: media.size_bytes
+      }
+    } catch (error) {
+      console.error('Queue media upload error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Photos of a user's plots, crops and pest battles, newest first
+   */
+  async getMedia(userId: string, filter: MediaFilter = {}): Promise<MediaItem[]> {
+    try {
+      let query = supabase
+        .from('media')
+        .select('*')
+        .eq('user_id', userId)
+
+      if (filter.plotId) query = query.eq('plot_id', filter.plotId)
+      if (filter.cropId) query = query.eq('crop_id', filter.cropId)
+      if (filter.pestBattleId) query = query.eq('pest_battle_id', filter.pestBattleId)
+      if (filter.from) query = query.gte('taken_at', filter.from)
+      if (filter.to) query = query.lte('taken_at', filter.to)
+
+      const { data, error } = await query.order('taken_at', { ascending: false })
+
+      if (error) {
+        throw new Error(`Failed to fetch media: ${error.message}`)
+      }
+
+      return Promise.all((data || []).map(row => this.withSignedUrls(this.mapDatabaseMedia(row))))
+    } catch (error) {
+      console.error('Get media error:', error)
+      throw error
+    }
+  }
+
+  async deleteMedia(mediaId: string): Promise<void> {
+    try {
+      const { data, error } = await supabase
+        .from('media')
+        .delete()
+        .eq('id', mediaId)
+        .select()
+        .single()
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          throw new Error('Media not found')
+        }
+        throw new Error(`Failed to delete media: ${error.message}`)
+      }
+
+      const media = this.mapDatabaseMedia(data)
+      if (media.storage_provider !== this.storage.name) {
+        console.warn(`Media ${mediaId} is stored with ${media.storage_provider}; its files were left in place`)
+        return
+      }
+
+      const paths = [media.storage_path]
+      if (media.thumbnail_path) paths.push(media.thumbnail_path)
+      await this.storage.remove(paths)
+    } catch (error) {
+      console.error('Delete media error:', error)
+      throw error
+    }
+  }
+
+  // The offline service removes the files once the action is synced
+  private async syncQueuedUpload(action: OfflineAction): Promise<void> {
+    const { content_file: contentFile, thumbnail_file: thumbnailFile, ...media } = action.data as QueuedMediaData
+    await this.save({
+      media,
+      content: await this.offlineService.readFile(contentFile),
+      thumbnail: thumbnailFile ? await this.offlineService.readFile(thumbnailFile) : undefined
+    })
+  }
+
+  private async prepare(input: MediaUploadInput): Promise<PreparedUpload> {
+    const errors: string[] = []
+    if (!input.content || input.content.length === 0) {
+      errors.push('Photo is empty')
+    } else if (input.content.length > MAX_PHOTO_BYTES) {
+      errors.push(`Photo is larger than ${MAX_PHOTO_BYTES / (1024 * 1024)} MB`)
+    }
+    if (!EXTENSIONS[input.content_type]) {
+      errors.push(`Unsupported photo type: ${input.content_type}`)
+    }
+    if (!input.plot_id && !input.crop_id && !input.pest_battle_id) {
+      errors.push('A photo must belong to a plot, crop or pest battle')
+    }
+    if (input.caption && input.caption.length > MAX_CAPTION_LENGTH) {
+      errors.push(`Caption must be at most ${MAX_CAPTION_LENGTH} characters`)
+    }
+    if (input.taken_at && isNaN(new Date(input.taken_at).getTime())) {
+      errors.push(`Invalid photo time: ${input.taken_at}`)
+    }
+    if (errors.length > 0) {
+      throw new Error(`Invalid photo: ${errors.join('; ')}`)
+    }
+
+    const exif = input.content_type === 'image/jpeg' ? readExif(input.content) : {}
+
+    let thumbnail = exif.thumbnail
+    if (this.generateThumbnail) {
+      try {
+        thumbnail = (await this.generateThumbnail(input.content, input.content_type)) || thumbnail
+      } catch (error) {
+        console.warn('Thumbnail generation failed, using the embedded one:', error)
+      }
+    }
+
+    return {
+      media: {
+        id: generateUUID(),
+        content_type: input.content_type,
+        size_bytes: input.content.length,
+        plot_id: input.plot_id,
+        crop_id: input.crop_id,
+        pest_battle_id: input.pest_battle_id,
+        caption: input.caption ? input.caption.trim() : undefined,
+        taken_at: input.taken_at || exif.taken_at || new Date().toISOString(),
+        location: exif.location,
+        width: exif.width,
+        height: exif.height,
+        orientation: exif.orientation
+      },
+      content: input.content,
+      thumbnail
+    }
+  }
+
+  /**
+   * Upload the files, then record the photo. Saving under the prepared id
+   * makes a retried sync overwrite its earlier attempt instead of
+   * duplicating it.
+   */
+  private async save({ media, content, thumbnail }: PreparedUpload): Promise<MediaItem> {
+    const owner = await this.resolveOwner(media)
+
+    const folder = `${owner.user_id}/${owner.plot_id}`
+    const storagePath = `${folder}/${media.id}.${EXTENSIONS[media.content_type]}`
+    const thumbnailPath = thumbnail ? `${folder}/${media.id}_thumb.jpg` : undefined
+    const uploaded: string[] = []
+
+    try {
+      await this.storage.upload(storagePath, content, media.content_type)
+      uploaded.push(storagePath)
+      if (thumbnail && thumbnailPath) {
+        await this.storage.upload(thumbnailPath, thumbnail, 'image/jpeg')
+        uploaded.push(thumbnailPath)
+      }
+
+      const { data, error } = await supabase
+        .from('media')
+        .upsert({
+          id: media.id,
+          user_id: owner.user_id,
+          plot_id: owner.plot_id,
+          crop_id: media.crop_id,
+          pest_battle_id: media.pest_battle_id,
+          storage_provider: this.storage.name,
+          storage_path: storagePath,
+          thumbnail_path: thumbnailPath,
+          content_type: media.content_type,
+          size_bytes: media.size_bytes,
+          width: media.width,
+          height: media.height,
+          orientation: media.orientation,
+          taken_at: media.taken_at,
+          latitude: media.location ? media.location.latitude : null,
+          longitude: media.location ? media.location.longitude : null,
+          caption: media.caption
+        }, { onConflict: 'id' })
+        .select()
+        .single()
+
+      if (error) {
+        throw new Error(`Failed to save media: ${error.message}`)
+      }
+
+      return this.withSignedUrls(this.mapDatabaseMedia(data))
+    } catch (error) {
+      // Don't leave files behind that no record points to
+      if (uploaded.length > 0) {
+        await this.storage.remove(uploaded).catch(removeError => {
+          console.error('Remove orphaned media error:', removeError)
+        })
+      }
+      throw error
+    }
+  }
+
+  /**
+   * The user and plot a photo is filed under. Every link given must be on
+   * the same plot.
+   */
+  private async resolveOwner(media: PreparedMedia): Promise<{ user_id: string; plot_id: string }> {
+    const owners: Array<{ label: string; user_id: string; plot_id: string }> = []
+
+    if (media.crop_id) {
+      const { data, error } = await supabase
+        .from('crops')
+        .select('plot_id, plots!inner (user_id)')
+        .eq('id', media.crop_id)
+        .single()
+
+      if (error) {
+        throw new Error(error.code === 'PGRST116' ? 'Crop not found' : `Failed to fetch crop: ${error.message}`)
+      }
+      owners.push({ label: 'crop', user_id: (data as any).plots.user_id, plot_id: data.plot_id })
+    }
+
+    if (media.pest_battle_id) {
+      const { data, error } = await supabase
+        .from('pest_battles')
+        .select('user_id, plot_id')
+        .eq('id', media.pest_battle_id)
+        .single()
+
+      if (error) {
+        throw new Error(error.code === 'PGRST116' ? 'Pest battle not found' : `Failed to fetch pest battle: ${error.message}`)
+      }
+      owners.push({ label: 'pest battle', user_id: data.user_id, plot_id: data.plot_id })
+    }
+
+    if (media.plot_id) {
+      const { data, error } = await supabase
+        .from('plots')
+        .select('id, user_id')
+        .eq('id', media.plot_id)
+        .single()
+
+      if (error) {
+        throw new Error(error.code === 'PGRST116' ? 'Plot not found' : `Failed to fetch plot: ${error.message}`)
+      }
+      owners.push({ label: 'plot', user_id: data.user_id, plot_id: data.id })
+    }
+
+    const [owner, ...others] = owners
+    const elsewhere = others.find(other => other.plot_id !== owner.plot_id)
+    if (elsewhere) {
+      throw new Error(`The photo's ${owner.label} and ${elsewhere.label} are on different plots`)
+    }
+
+    return { user_id: owner.user_id, plot_id: owner.plot_id }
+  }
+
+  // Files kept by another provider (before a switch) are listed without URLs
+  private async withSignedUrls(media: MediaItem): Promise<MediaItem> {
+    if (media.storage_provider !== this.storage.name) {
+      return media
+    }
+
+    try {
+      const [url, thumbnailUrl] = await Promise.all([
+        this.storage.getSignedUrl(media.storage_path, SIGNED_URL_TTL_SECONDS),
+        media.thumbnail_path ? this.storage.getSignedUrl(media.thumbnail_path, SIGNED_URL_TTL_SECONDS) : undefined
+      ])
+      return { ...media, url, thumbnail_url: thumbnailUrl || url }
+    } catch (error) {
+      console.warn(`Failed to sign URLs for media ${media.id}:`, error)
+      return media
+    }
+  }
+
+  private mapDatabaseMedia(data: any): MediaItem {
+    const hasLocation = data.latitude !== null && data.latitude !== undefined &&
+      data.longitude !== null && data.longitude !== undefined
+
+    return {
+      id: data.id,
+      user_id: data.user_id,
+      plot_id: data.plot_id,
+      crop_id: data.crop_id || undefined,
+      pest_battle_id: data.pest_battle_id || undefined,
+      storage_provider: data.storage_provider,
+      storage_path: data.storage_path,
+      thumbnail_path: data.thumbnail_path || undefined,
+      content_type: data.content_type,
+      size_bytes: data.size_bytes,
+      width: data.width || undefined,
+      height: data.height || undefined,
+      orientation: data.orientation || undefined,
+      taken_at: data.taken_at,
+      location: hasLocation ? { latitude: Number(data.latitude), longitude: Number(data.longitude) } : undefined,
+      caption: data.caption || undefined,
+      created_at: data.created_at
+    }
+  }
+}
@@ -4,6 +4,8 @@ import { ServiceFactory } from '../factory'
 export class MockOfflineService extends BaseOfflineService {
   private storage: Map<string, any> = new Map()
   private actionQueue: OfflineAction[] = []
+  // Queued files stay in memory; PersistentOfflineService keeps them on the device
+  private files: Map<string, Uint8Array> = new Map()
   private readonly STORAGE_PREFIX = 'agroclash_offline_'
 
   constructor() {
@@ -103,13 +105,17 @@ export class MockOfflineService extends BaseOfflineService {
   async removeAction(actionId: string): Promise<void> {
     const actionIndex = this.actionQueue.findIndex(a => a.id === actionId)
     if (actionIndex > -1) {
-      this.actionQueue.splice(actionIndex, 1)
+      const [removed] = this.actionQueue.splice(actionIndex, 1)
+      await this.removeActionFiles(removed)
       await this.storeData('actionQueue' as any, this.actionQueue)
       console.log(`🗑️ Action removed from queue: ${actionId}`)
     }
   }
 
   async clearQueue(): Promise<void> {
+    for (const action of this.actionQueue) {
+      await this.removeActionFiles(action)
+    }
     this.actionQueue = []
     await this.storeData('actionQueue' as any, this.actionQueue)
     console.log('🧹 Action queue cleared')
@@ -159,6 +165,9 @@ export class MockOfflineService extends BaseOfflineService {
       await this.storeData('lastSync' as any, Date.now())
       
       // Clean up synced actions
+      for (const action of this.actionQueue.filter(a => a.synced)) {
+        await this.removeActionFiles(action)
+      }
       this.actionQueue = this.actionQueue.filter(a => !a.synced)
       await this.storeData('actionQueue' as any, this.actionQueue)
 
@@ -183,6 +192,24 @@ export class MockOfflineService extends BaseOfflineService {
     }
   }
 
+  async storeFile(content: Uint8Array): Promise<string> {
+    const name = `${this.generateId()}.bin`
+    this.files.set(name, new Uint8Array(content))
+    return name
+  }
+
+  async readFile(name: string): Promise<Uint8Array> {
+    const content = this.files.get(name)
+    if (!content) {
+      throw new Error(`Offline file not found: ${name}`)
+    }
+    return new Uint8Array(content)
+  }
+
+  async removeFile(name: string): Promise<void> {
+    this.files.delete(name)
+  }
+
   resolveConflicts(localData: any, serverData: any): any {
     // Simple conflict resolution: server wins for most cases
     // In a real app, you'd have more sophisticated conflict resolution
@@ -232,6 +259,13 @@ export class MockOfflineService extends BaseOfflineService {
   }
 
   private async processAction(action: OfflineAction): Promise<void> {
+    const handler = this.syncHandlers.get(action.entity)
+    if (handler) {
+      console.log(`🔄 Processing action: ${action.type} ${action.entity} ${action.entityId}`)
+      await handler(action)
+      return
+    }
+
     // Simulate API calls to sync data
     await new Promise(resolve => setTimeout(resolve, 200 + Math.random() * 300))
     
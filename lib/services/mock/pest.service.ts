@@ -1,74 +1,34 @@
 // Mock Pest Service Implementation
 
 import { PestService } from '../interfaces'
-import { PestBattle } from '../../types'
+import { IpmOptionKind, PestBattle, PestBattleTurn, PestBattleTurnResult, PestTreatment } from '../../types'
 import { generateId } from '../../utils'
+import {
+  calculateBattleXP,
+  calculateRegrowth,
+  calculateResolutionXP,
+  calculateSuccessRate,
+  calculateTurnDamage,
+  getBattleStats,
+  getTreatmentDose,
+  getTreatmentEfficacy
+} from '../../utils/pest'
+import { getIpmGuide } from '../../utils/ipm'
+import { MAX_PEST_RESISTANCE, PEST_CATALOG, PEST_TREATMENTS } from '../../config/pest-catalog'
 
 export class MockPestService implements PestService {
   private pestBattles: Map<string, PestBattle[]> = new Map()
   private plotBattles: Map<string, PestBattle[]> = new Map()
+  private battleTurns: Map<string, PestBattleTurn[]> = new Map()
 
-  // Pest types and their characteristics
-  private readonly PEST_TYPES = {
-    'aphids': {
-      name: 'Aphids',
-      description: 'Small insects that suck plant juices',
-      commonCrops: ['tomatoes', 'peppers', 'lettuce'],
-      baseXP: 15
-    },
-    'caterpillars': {
-      name: 'Caterpillars',
-      description: 'Larvae that eat leaves and fruits',
-      commonCrops: ['corn', 'tomatoes', 'cabbage'],
-      baseXP: 20
-    },
-    'spider_mites': {
-      name: 'Spider Mites',
-      description: 'Tiny mites that cause leaf damage',
-      commonCrops: ['beans', 'corn', 'tomatoes'],
-      baseXP: 18
-    },
-    'whiteflies': {
-      name: 'Whiteflies',
-      description: 'Small flying insects that damage plants',
-      commonCrops: ['tomatoes', 'peppers', 'cucumbers'],
-      baseXP: 16
-    },
-    'thrips': {
-      name: 'Thrips',
-      description: 'Tiny insects that cause silvery damage',
-      commonCrops: ['onions', 'peppers', 'tomatoes'],
-      baseXP: 17
-    },
-    'cutworms': {
-      name: 'Cutworms',
-      description: 'Larvae that cut plant stems at soil level',
-      commonCrops: ['corn', 'tomatoes', 'peppers'],
-      baseXP: 22
-    },
-    'flea_beetles': {
-      name: 'Flea Beetles',
-      description: 'Small beetles that create shot holes in leaves',
-      commonCrops: ['potatoes', 'tomatoes', 'eggplant'],
-      baseXP: 19
-    }
-  }
+  private readonly PEST_TYPES = PEST_CATALOG
 
   async createPestBattle(plotId: string, pestType: string, severity: PestBattle['severity']): Promise<PestBattle> {
     // Simulate API delay
     await new Promise(resolve => setTimeout(resolve, 300))
 
-    const pestInfo = this.PEST_TYPES[pestType as keyof typeof this.PEST_TYPES]
-    const baseXP = pestInfo?.baseXP || 15
-
     // Calculate XP reward based on severity
-    const severityMultiplier = {
-      'low': 1,
-      'medium': 1.5,
-      'high': 2
-    }
-
-    const xpReward = Math.round(baseXP * severityMultiplier[severity])
+    const xpReward = calculateBattleXP(pestType, severity)
 
     const battle: PestBattle = {
       id: generateId(),
@@ -78,6 +38,7 @@ export class MockPestService implements PestService {
       severity,
       status: 'active',
       xp_reward: xpReward,
+      ...getBattleStats(pestType, severity),
       created_at: new Date().toISOString(),
       resolved_at: undefined
     }
@@ -91,23 +52,17 @@ export class MockPestService implements PestService {
     return battle
   }
 
+  // Gives up on the battle the way retreat_pest_battle does: battles are
+  // only won by playing turns
   async resolvePestBattle(battleId: string, success: boolean): Promise<{ battle: PestBattle; xpAwarded: number }> {
     // Simulate API delay
     await new Promise(resolve => setTimeout(resolve, 400))
 
-    // Find the battle
-    let battle: PestBattle | undefined
-    let plotId: string | undefined
-
-    for (const [pid, battles] of this.plotBattles.entries()) {
-      const foundBattle = battles.find(b => b.id === battleId)
-      if (foundBattle) {
-        battle = foundBattle
-        plotId = pid
-        break
-      }
+    if (success) {
+      throw new Error('Pest battles are won by treating the pest; play turns until it is beaten')
     }
 
+    const battle = this.findBattle(battleId)
     if (!battle) {
       throw new Error('Pest battle not found')
     }
@@ -116,14 +71,14 @@ export class MockPestService implements PestService {
       throw new Error('Battle already resolved')
     }
 
-    // Update battle status
+    const stats = getBattleStats(battle.pest_type, battle.severity)
+    const maxHp = battle.max_hp || stats.max_hp
+
     battle.status = 'resolved'
     battle.resolved_at = new Date().toISOString()
+    battle.success_rate = calculateSuccessRate(battle.hp !== undefined ? battle.hp : maxHp, maxHp)
 
-    // Calculate XP awarded based on success
-    const xpAwarded = success ? battle.xp_reward : Math.round(battle.xp_reward * 0.3)
-
-    return { battle, xpAwarded }
+    return { battle, xpAwarded: calculateResolutionXP(battle, false) }
   }
 
   async getActiveBattles(userId: string): Promise<PestBattle[]> {
@@ -156,6 +111,103 @@ export class MockPestService implements PestService {
     )
   }
 
+  async getTreatments(pestType?: string): Promise<PestTreatment[]> {
+    await new Promise(resolve => setTimeout(resolve, 100))
+
+    const treatments = [...PEST_TREATMENTS]
+    if (pestType) {
+      treatments.sort((a, b) => getTreatmentEfficacy(b, pestType) - getTreatmentEfficacy(a, pestType))
+    }
+    return treatments
+  }
+
+  // Plays a turn the way play_pest_battle_turn does, on a hectare and
+  // without drawing on any stock
+  async playTurn(battleId: string, treatmentId: string): Promise<PestBattleTurnResult> {
+    await new Promise(resolve => setTimeout(resolve, 300))
+
+    const battle = this.findBattle(battleId)
+    if (!battle) {
+      throw new Error('Pest battle not found')
+    }
+    if (battle.status === 'resolved') {
+      throw new Error('Battle already resolved')
+    }
+
+    const today = new Date().toISOString().split('T')[0]
+    if (battle.last_turn_on && battle.last_turn_on >= today) {
+      throw new Error('Already treated today; the next turn is tomorrow')
+    }
+    const treatment = PEST_TREATMENTS.find(candidate => candidate.id === treatmentId)
+    if (!treatment) {
+      throw new Error(`Unknown treatment: ${treatmentId}`)
+    }
+
+    const stats = getBattleStats(battle.pest_type, battle.severity)
+    const maxHp = battle.max_hp || stats.max_hp
+    const hp = battle.hp !== undefined ? battle.hp : maxHp
+    const resistance = battle.resistance !== undefined ? battle.resistance : stats.resistance
+    const turnsPlayed = battle.turns_played || 0
+
+    const lastTurn = battle.last_turn_on || battle.created_at.split('T')[0]
+    const daysSince = Math.round((new Date(today).getTime() - new Date(lastTurn).getTime()) / (24 * 60 * 60 * 1000))
+    const regrowth = calculateRegrowth({ hp, max_hp: maxHp }, daysSince)
+    const efficacy = getTreatmentEfficacy(treatment, battle.pest_type)
+    const damage = calculateTurnDamage(maxHp, efficacy, resistance, Math.random())
+    const hpAfter = Math.max(0, hp + regrowth - damage)
+
+    Object.assign(battle, {
+      hp: hpAfter,
+      max_hp: maxHp,
+      resistance: Math.min(MAX_PEST_RESISTANCE, Math.round((resistance + treatment.resistance_buildup) * 100) / 100),
+      turns_played: turnsPlayed + 1,
+      max_turns: battle.max_turns || stats.max_turns,
+      last_turn_on: today,
+      treatment_used: !battle.treatment_used
+        ? treatment.name
+        : battle.treatment_used.includes(treatment.name)
+          ? battle.treatment_used
+          : `${battle.treatment_used}, ${treatment.name}`.slice(0, 200)
+    })
+
+    let xpAwarded = 0
+    if (hpAfter === 0 || battle.turns_played! >= battle.max_turns!) {
+      battle.status = 'resolved'
+      battle.resolved_at = new Date().toISOString()
+      battle.success_rate = calculateSuccessRate(hpAfter, maxHp)
+      xpAwarded = calculateResolutionXP(battle, hpAfter === 0)
+    }
+
+    const turn: PestBattleTurn = {
+      id: generateId(),
+      battle_id: battleId,
+      user_id: battle.user_id,
+      turn_number: battle.turns_played!,
+      played_on: today,
+      treatment_id: treatmentId,
+      dose: getTreatmentDose(treatment, 1),
+      efficacy,
+      regrowth,
+      damage,
+      hp_before: hp + regrowth,
+      hp_after: hpAfter,
+      xp_awarded: xpAwarded,
+      created_at: new Date().toISOString()
+    }
+    if (!this.battleTurns.has(battleId)) {
+      this.battleTurns.set(battleId, [])
+    }
+    this.battleTurns.get(battleId)!.push(turn)
+
+    return { battle, turn, xpAwarded }
+  }
+
+  async getBattleTurns(battleId: string): Promise<PestBattleTurn[]> {
+    await new Promise(resolve => setTimeout(resolve, 100))
+
+    return [...(this.battleTurns.get(battleId) || [])]
+  }
+
   // Additional helper methods for mock service
 
   async generateRandomPestBattle(plotId: string, userId: string): Promise<PestBattle | null> {
@@ -297,33 +349,57 @@ export class MockPestService implements PestService {
     return pests.length > 0 ? pests : ['aphids', 'spider_mites']
   }
 
+  /**
+   * Actions from the IPM guides for the likely pests: the practices that
+   * need no inputs at any risk, biological treatments once risk is medium,
+   * and the most effective chemical, with its intervals, only when high
+   */
   private getRecommendedActions(riskLevel: string, likelyPests: string[]): string[] {
     const actions: string[] = []
-    
-    switch (riskLevel) {
-      case 'low':
-        actions.push('Continue regular monitoring')
-        actions.push('Maintain good plant hygiene')
-        break
-      case 'medium':
-        actions.push('Increase monitoring frequency')
-        actions.push('Consider preventive treatments')
-        actions.push('Remove any infected plant material')
-        break
-      case 'high':
-        actions.push('Implement immediate pest control measures')
-        actions.push('Apply appropriate treatments')
-        actions.push('Monitor daily for pest activity')
-        actions.push('Consider biological control options')
-        break
+    const kinds: IpmOptionKind[] = riskLevel === 'high'
+      ? ['cultural', 'biological', 'chemical']
+      : riskLevel === 'medium' ? ['cultural', 'biological'] : ['cultural']
+
+    for (const pestType of likelyPests) {
+      const guide = getIpmGuide(pestType)
+      const name = this.PEST_TYPES[pestType] ? this.PEST_TYPES[pestType].name : pestType
+      actions.push(`${name} action threshold: ${guide.action_threshold}`)
+
+      for (const practice of guide.practices) {
+        if (kinds.includes(practice.kind)) actions.push(practice.name)
+      }
+
+      const treatments = PEST_TREATMENTS
+        .filter(treatment => kinds.includes(treatment.kind) && getTreatmentEfficacy(treatment, pestType) > 0.2)
+        .sort((a, b) => getTreatmentEfficacy(b, pestType) - getTreatmentEfficacy(a, pestType))
+      const biological = treatments.find(treatment => treatment.kind === 'biological')
+      const chemical = treatments.find(treatment => treatment.kind === 'chemical')
+      if (biological) {
+        actions.push(`Apply ${biological.name} against ${name.toLowerCase()}`)
+      }
+      if (chemical) {
+        actions.push(
+          `If that fails, apply ${chemical.name}: no harvest for ${chemical.phi_days} days ` +
+          `and keep out of the plot for ${chemical.rei_hours} hours`
+        )
+      }
     }
-    
-    return actions
+
+    return Array.from(new Set(actions))
+  }
+
+  private findBattle(battleId: string): PestBattle | undefined {
+    for (const battles of this.plotBattles.values()) {
+      const battle = battles.find(candidate => candidate.id === battleId)
+      if (battle) return battle
+    }
+    return undefined
   }
 
   // Method to reset data (useful for testing)
   resetData(): void {
     this.pestBattles.clear()
     this.plotBattles.clear()
+    this.battleTurns.clear()
   }
 }
\ No newline at end of file
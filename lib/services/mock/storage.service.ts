@@ -0,0 +1,38 @@
+// Mock Storage Provider Implementation
+// Keeps objects in memory; signed URLs point nowhere real.
+
+import { StorageProvider } from '../interfaces'
+
+export class MockStorageProvider implements StorageProvider {
+  readonly name = 'mock' as const
+  private objects: Map<string, { content: Uint8Array; contentType: string }> = new Map()
+
+  async upload(path: string, content: Uint8Array, contentType: string): Promise<void> {
+    this.objects.set(path, { content: new Uint8Array(content), contentType })
+  }
+
+  async download(path: string): Promise<Uint8Array> {
+    const object = this.objects.get(path)
+    if (!object) {
+      throw new Error(`Object not found: ${path}`)
+    }
+    return new Uint8Array(object.content)
+  }
+
+  async getSignedUrl(path: string, expiresInSeconds: number): Promise<string> {
+    if (!this.objects.has(path)) {
+      throw new Error(`Object not found: ${path}`)
+    }
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds
+    return `mock://storage/${path}?expires=${expires}`
+  }
+
+  async remove(paths: string[]): Promise<void> {
+    paths.forEach(path => this.objects.delete(path))
+  }
+
+  // Public methods for testing and debugging
+  getObjectPaths(): string[] {
+    return Array.from(this.objects.keys())
+  }
+}
@@ -22,13 +22,15 @@ export class MockWeatherService implements WeatherService {
     for (let i = 0; i < 7; i++) {
       const date = new Date(today)
       date.setDate(today.getDate() + i)
+      const precipitationChance = Math.round(Math.random() * 100)
       
       forecast.push({
         date: date.toISOString().split('T')[0],
         temperature_min: Math.round(15 + Math.random() * 10),
         temperature_max: Math.round(25 + Math.random() * 15),
         humidity: Math.round(40 + Math.random() * 40),
-        precipitation_chance: Math.round(Math.random() * 100),
+        precipitation_chance: precipitationChance,
+        precipitation_mm: Math.round(precipitationChance * Math.random() * 3) / 10,
         description: this.getRandomWeatherDescription(),
         icon: this.getRandomWeatherIcon()
       })
@@ -88,6 +90,7 @@ export class MockWeatherService implements WeatherService {
 
       historicalData.push({
         location,
+        date: date.toISOString().split('T')[0],
         current: {
           temperature: Math.round(18 + Math.random() * 12),
           humidity: Math.round(45 + Math.random() * 35),
@@ -1,12 +1,13 @@
 // Mock XP Service Implementation
 
 import { XPService } from '../interfaces'
-import { XPLog } from '../../types'
+import { XPAward, XPLog } from '../../types'
 import { generateId, calculateLevelFromXP, getXPForLevel } from '../../utils'
 
 export class MockXPService implements XPService {
   private xpLogs: Map<string, XPLog[]> = new Map()
   private userXP: Map<string, number> = new Map()
+  private awards: Map<string, XPAward> = new Map()
 
   // XP rewards for different actions
   private readonly XP_REWARDS = {
@@ -52,6 +53,24 @@ export class MockXPService implements XPService {
     return xpLog
   }
 
+  async awardXPOnce(
+    key: string,
+    userId: string,
+    actionType: string,
+    xpAmount: number,
+    description?: string
+  ): Promise<XPAward> {
+    const existing = this.awards.get(key)
+    if (existing) {
+      return { ...existing, applied: false }
+    }
+
+    const log = await this.awardXP(userId, actionType, xpAmount, description)
+    const award = { xp_log_id: log.id, xp_awarded: log.xp_awarded, applied: true }
+    this.awards.set(key, award)
+    return award
+  }
+
   calculateLevel(xp: number): number {
     return calculateLevelFromXP(xp)
   }
@@ -122,6 +122,7 @@ export abstract class BaseNotificationService implements NotificationService {
         case 'crop_milestone':
           return preferences.crop_updates
         case 'weather_alert':
+        case 'pest_outbreak':
           return preferences.weather_alerts
         case 'xp_reward':
           return preferences.xp_notifications
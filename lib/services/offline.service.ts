@@ -3,14 +3,35 @@ import { User, Plot, Crop, Notification, XPLog } from '../types'
 export interface OfflineAction {
   id: string
   type: 'CREATE' | 'UPDATE' | 'DELETE'
-  entity: 'plot' | 'crop' | 'notification' | 'xp_log' | 'user'
+  entity: 'plot' | 'crop' | 'notification' | 'xp_log' | 'user' | 'media'
   entityId: string
   data: any
+  files?: string[] // stored with storeFile; removed along with the action
   timestamp: number
   synced: boolean
   retryCount: number
 }
 
+// Sends a queued action to the server; throwing leaves it queued for a retry
+export type OfflineSyncHandler = (action: OfflineAction) => Promise<void>
+
+// Storage that survives restarts for offline data and the action queue.
+// AsyncStorage on React Native has this shape.
+export interface OfflineKeyValueStore {
+  getItem(key: string): Promise<string | null>
+  setItem(key: string, value: string): Promise<void>
+  removeItem(key: string): Promise<void>
+  getAllKeys(): Promise<readonly string[]>
+}
+
+// Device file storage for files too large for the key-value store, such as
+// photos waiting to be uploaded
+export interface OfflineFileStore {
+  write(name: string, content: Uint8Array): Promise<void>
+  read(name: string): Promise<Uint8Array>
+  remove(name: string): Promise<void>
+}
+
 export interface OfflineData {
   plots: Plot[]
   crops: Crop[]
@@ -32,6 +53,12 @@ export interface OfflineService {
   markActionSynced(actionId: string): Promise<void>
   removeAction(actionId: string): Promise<void>
   clearQueue(): Promise<void>
+  registerSyncHandler(entity: OfflineAction['entity'], handler: OfflineSyncHandler): () => void
+
+  // Files that queued actions refer to by the name storeFile returns
+  storeFile(content: Uint8Array): Promise<string>
+  readFile(name: string): Promise<Uint8Array>
+  removeFile(name: string): Promise<void>
   
   // Sync operations
   syncData(): Promise<{ success: boolean; syncedActions: number; errors: string[] }>
@@ -53,6 +80,7 @@ export abstract class BaseOfflineService implements OfflineService {
   protected isOnlineStatus: boolean = true
   protected networkCallbacks: Set<(isOnline: boolean) => void> = new Set()
   protected syncInProgress: boolean = false
+  protected syncHandlers: Map<OfflineAction['entity'], OfflineSyncHandler> = new Map()
 
   constructor() {
     this.initializeNetworkMonitoring()
@@ -66,6 +94,9 @@ export abstract class BaseOfflineService implements OfflineService {
   abstract markActionSynced(actionId: string): Promise<void>
   abstract removeAction(actionId: string): Promise<void>
   abstract clearQueue(): Promise<void>
+  abstract storeFile(content: Uint8Array): Promise<string>
+  abstract readFile(name: string): Promise<Uint8Array>
+  abstract removeFile(name: string): Promise<void>
   abstract syncData(): Promise<{ success: boolean; syncedActions: number; errors: string[] }>
   abstract resolveConflicts(localData: any, serverData: any): any
   abstract getCacheSize(): Promise<number>
@@ -80,6 +111,30 @@ export abstract class BaseOfflineService implements OfflineService {
     return data || 0
   }
 
+  /**
+   * Sync an entity's queued actions through the service that owns it
+   * rather than the generic sync. Returns a function that unregisters it.
+   */
+  registerSyncHandler(entity: OfflineAction['entity'], handler: OfflineSyncHandler): () => void {
+    this.syncHandlers.set(entity, handler)
+    return () => {
+      if (this.syncHandlers.get(entity) === handler) {
+        this.syncHandlers.delete(entity)
+      }
+    }
+  }
+
+  // An action's files go with it; one that can't be removed is only logged
+  protected async removeActionFiles(action: OfflineAction): Promise<void> {
+    for (const name of action.files || []) {
+      try {
+        await this.removeFile(name)
+      } catch (error) {
+        console.warn(`Failed to remove offline file ${name}:`, error)
+      }
+    }
+  }
+
   onNetworkStatusChange(callback: (isOnline: boolean) => void): () => void {
     this.networkCallbacks.add(callback)
     return () => {
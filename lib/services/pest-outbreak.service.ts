@@ -0,0 +1,211 @@
+// Pest Outbreak Service Implementation using Supabase
+// Regional outbreaks from everyone's pest battles, aggregated and clustered
+// by the get_pest_outbreaks_near function (migration 022) so no farm can be
+// picked out. Users get a feed of outbreaks near any of their plots, and
+// checkAlerts notifies them once per pest when enough other farms nearby
+// report it. Run checkAlerts daily, like the pest risk refresh.
+
+import { supabase } from '../supabase/client'
+import { NotificationService, PlotService } from './interfaces'
+import { ServiceFactory } from './factory'
+import { SupabasePlotService } from './plot.service'
+import {
+  Location,
+  PestOutbreak,
+  PestOutbreakAlertOptions,
+  PestOutbreakFeedItem,
+  PestOutbreakQueryOptions
+} from '../types'
+import { getGeometryCenter } from '../utils/geometry'
+
+const DEFAULT_RADIUS_KM = 25
+const DEFAULT_WINDOW_DAYS = 14
+const DEFAULT_CLUSTER_KM = 5
+// The database never reports fewer farms than this
+const MIN_OUTBREAK_FARMS = 3
+// Alerts are for outbreaks closer in than the feed shows
+const DEFAULT_ALERT_RADIUS_KM = 10
+
+export class PestOutbreakService {
+  constructor(
+    private plotService: PlotService = new SupabasePlotService(),
+    private notificationService: NotificationService = ServiceFactory.getNotificationService()
+  ) {}
+
+  /**
+   * Outbreaks whose centre is within the radius of a point, the most farms
+   * first
+   */
+  async getOutbreaksNear(location: Location, options: PestOutbreakQueryOptions = {}): Promise<PestOutbreak[]> {
+    try {
+      const errors = this.validateQuery(location, options)
+      if (errors.length > 0) {
+        throw new Error(`Invalid outbreak query: ${errors.join('; ')}`)
+      }
+
+      const { data, error } = await supabase
+        .rpc('get_pest_outbreaks_near', {
+          latitude: location.latitude,
+          longitude: location.longitude,
+          radius_km: options.radiusKm || DEFAULT_RADIUS_KM,
+          days: options.days || DEFAULT_WINDOW_DAYS,
+          min_farms: Math.max(options.minFarms || MIN_OUTBREAK_FARMS, MIN_OUTBREAK_FARMS),
+          cluster_km: options.clusterKm || DEFAULT_CLUSTER_KM
+        })
+
+      if (error) {
+        throw new Error(`Failed to fetch pest outbreaks: ${error.message}`)
+      }
+
+      return (data || []).map((row: any) => this.mapDatabaseOutbreak(row))
+    } catch (error) {
+      console.error('Get pest outbreaks error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Outbreaks near any of the user's active plots, the latest reports first.
+   * An outbreak near several plots is listed once, against the nearest.
+   */
+  async getOutbreakFeed(userId: string, options: PestOutbreakQueryOptions = {}): Promise<PestOutbreakFeedItem[]> {
+    try {
+      const plots = (await this.plotService.getPlots(userId)).filter(plot => plot.is_active !== false)
+      const feed = new Map<string, PestOutbreakFeedItem>()
+
+      for (const plot of plots) {
+        const outbreaks = await this.getOutbreaksNear(getGeometryCenter(plot.geometry), options)
+        for (const outbreak of outbreaks) {
+          const key = `${outbreak.pest_type}:${outbreak.center.latitude},${outbreak.center.longitude}`
+          const existing = feed.get(key)
+          if (!existing || outbreak.distance_km < existing.distance_km) {
+            feed.set(key, { ...outbreak, nearest_plot_id: plot.id, nearest_plot_name: plot.name })
+          }
+        }
+      }
+
+      return Array.from(feed.values())
+        .sort((a, b) => b.last_reported_at.localeCompare(a.last_reported_at) || a.distance_km - b.distance_km)
+    } catch (error) {
+      console.error('Get pest outbreak feed error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Notify the user of pests reported by at least minFarms other farms
+   * within the radius of their plots. Each pest is alerted once per
+   * outbreak window. Returns the outbreaks the user was alerted to.
+   */
+  async checkAlerts(userId: string, options: PestOutbreakAlertOptions = {}): Promise<PestOutbreakFeedItem[]> {
+    try {
+      const minFarms = options.minFarms || MIN_OUTBREAK_FARMS
+      if (!Number.isInteger(minFarms) || minFarms < 1) {
+        throw new Error('Farm threshold must be a whole number of at least 1')
+      }
+
+      const feed = await this.getOutbreakFeed(userId, {
+        radiusKm: options.radiusKm || DEFAULT_ALERT_RADIUS_KM,
+        minFarms
+      })
+      const alreadyAlerted = await this.getRecentlyAlertedPests(userId)
+
+      const alerted: PestOutbreakFeedItem[] = []
+      for (const outbreak of feed) {
+        // The user's own farm may be one of those counted
+        const otherFarms = outbreak.farm_count - (outbreak.includes_own ? 1 : 0)
+        if (otherFarms < minFarms || alreadyAlerted.has(outbreak.pest_type)) continue
+
+        await this.notificationService.sendNotification(userId, {
+          type: 'pest_outbreak',
+          title: `${outbreak.pest_name} outbreak nearby 🐛`,
+          message: `${otherFarms} farms within ${Math.ceil(outbreak.distance_km)} km of ${outbreak.nearest_plot_name} ` +
+            `have reported ${outbreak.pest_name.toLowerCase()} in the last ${DEFAULT_WINDOW_DAYS} days. Check your crops.`,
+          data: {
+            pestType: outbreak.pest_type,
+            plotId: outbreak.nearest_plot_id,
+            farmCount: otherFarms,
+            center: outbreak.center
+          },
+          priority: outbreak.high_severity_count > 0 ? 'high' : 'medium'
+        })
+        await this.recordAlert(userId, outbreak)
+
+        alreadyAlerted.add(outbreak.pest_type)
+        alerted.push(outbreak)
+      }
+
+      return alerted
+    } catch (error) {
+      console.error('Check pest outbreak alerts error:', error)
+      throw error
+    }
+  }
+
+  private async getRecentlyAlertedPests(userId: string): Promise<Set<string>> {
+    const since = new Date(Date.now() - DEFAULT_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString()
+    const { data, error } = await supabase
+      .from('pest_outbreak_alerts')
+      .select('pest_type')
+      .eq('user_id', userId)
+      .gte('notified_at', since)
+
+    if (error) {
+      throw new Error(`Failed to fetch outbreak alerts: ${error.message}`)
+    }
+
+    return new Set((data || []).map(row => row.pest_type))
+  }
+
+  private async recordAlert(userId: string, outbreak: PestOutbreak): Promise<void> {
+    const { error } = await supabase
+      .from('pest_outbreak_alerts')
+      .insert({
+        user_id: userId,
+        pest_type: outbreak.pest_type,
+        farm_count: outbreak.farm_count,
+        center_latitude: outbreak.center.latitude,
+        center_longitude: outbreak.center.longitude
+      })
+
+    if (error) {
+      throw new Error(`Failed to record outbreak alert: ${error.message}`)
+    }
+  }
+
+  private validateQuery(location: Location, options: PestOutbreakQueryOptions): string[] {
+    const errors: string[] = []
+
+    if (!Number.isFinite(location.latitude) || location.latitude < -90 || location.latitude > 90 ||
+        !Number.isFinite(location.longitude) || location.longitude < -180 || location.longitude > 180) {
+      errors.push('Location is out of range')
+    }
+    if (options.radiusKm !== undefined && !(options.radiusKm >= 5 && options.radiusKm <= 200)) {
+      errors.push('Radius must be between 5 and 200 km')
+    }
+    if (options.days !== undefined && !(Number.isInteger(options.days) && options.days >= 1 && options.days <= 90)) {
+      errors.push('Days must be between 1 and 90')
+    }
+    if (options.clusterKm !== undefined && !(options.clusterKm >= 1 && options.clusterKm <= 50)) {
+      errors.push('Cluster distance must be between 1 and 50 km')
+    }
+
+    return errors
+  }
+
+  private mapDatabaseOutbreak(data: any): PestOutbreak {
+    return {
+      pest_type: data.pest_type,
+      pest_name: data.pest_name || data.pest_type,
+      farm_count: data.farm_count,
+      report_count: data.report_count,
+      active_count: data.active_count,
+      high_severity_count: data.high_severity_count,
+      center: { latitude: data.center_latitude, longitude: data.center_longitude },
+      distance_km: data.distance_km,
+      first_reported_at: data.first_reported_at,
+      last_reported_at: data.last_reported_at,
+      includes_own: !!data.includes_own
+    }
+  }
+}
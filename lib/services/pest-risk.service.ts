@@ -0,0 +1,281 @@
+// Pest and disease risk per plot and crop, modelled from the plot's weather
+// since sowing and its forecast. Daily risk is saved to pest_risk_daily,
+// and a pest battle is started when a crop's risk has stayed above the
+// battle threshold for several days. Models are pluggable: register more
+// with registerModel.
+
+import { supabase } from '../supabase/client'
+import { PestService, PlotService, WeatherService } from './interfaces'
+import { ServiceFactory } from './factory'
+import { SupabasePlotService } from './plot.service'
+import { Crop, CropPestRisk, PestBattle, PestRiskDay, PestRiskModel, PestRiskRefresh, Plot, RiskWeatherDay } from '../types'
+import { getGeometryCenter } from '../utils/geometry'
+import { addDays } from '../utils/phenology'
+import { DEFAULT_PEST_RISK_MODELS, getRiskLevel, isHostCrop } from '../utils/pest-risk'
+
+// Risk at which a battle is started, once it has held for BATTLE_RISK_DAYS
+// days in a row up to today
+const BATTLE_RISK_THRESHOLD = 0.7
+const BATTLE_RISK_DAYS = 3
+// Days after a battle ends before another against the same pest starts
+const BATTLE_COOLDOWN_DAYS = 7
+// Past days kept in an assessment, besides today and the forecast
+const RISK_HISTORY_DAYS = 7
+// Older days of a season count no degree days
+const MAX_WEATHER_HISTORY_DAYS = 180
+// Rain on a rainy day when the forecast gives no amount
+const DEFAULT_RAIN_MM = 10
+
+type GrowingCrop = Partial<Crop> & { id: string; name: string; sown_date: string }
+
+export class PestRiskService {
+  private models: PestRiskModel[]
+
+  constructor(
+    private plotService: PlotService = new SupabasePlotService(),
+    private weatherService: WeatherService = ServiceFactory.getWeatherService(),
+    private pestService: PestService = ServiceFactory.getPestService(),
+    models: PestRiskModel[] = DEFAULT_PEST_RISK_MODELS
+  ) {
+    this.models = [...models]
+  }
+
+  /**
+   * Add a model, replacing any with the same id
+   */
+  registerModel(model: PestRiskModel): void {
+    this.models = [...this.models.filter(existing => existing.id !== model.id), model]
+  }
+
+  getModels(): PestRiskModel[] {
+    return [...this.models]
+  }
+
+  /**
+   * Risk from every model that applies to each growing crop on a plot
+   */
+  async assessPlot(plotId: string, today: string = new Date().toISOString().split('T')[0]): Promise<CropPestRisk[]> {
+    try {
+      const plot = await this.plotService.getPlot(plotId)
+      return await this.assess(plot, today)
+    } catch (error) {
+      console.error('Assess pest risk error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Assess a plot, save the daily risk and start a battle for each pest
+   * whose risk stayed over the threshold for the last few days, unless it
+   * is being fought already or a battle against it ended within the cooldown
+   */
+  async refreshPlotRisk(plotId: string, today: string = new Date().toISOString().split('T')[0]): Promise<PestRiskRefresh> {
+    try {
+      const plot = await this.plotService.getPlot(plotId)
+      const risks = await this.assess(plot, today)
+      await this.saveRisks(plot, risks)
+      const battles = await this.startBattles(plotId, risks, today)
+
+      return { plot_id: plotId, risks, battles }
+    } catch (error) {
+      console.error('Refresh pest risk error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Refresh the risk on every plot of a user. A plot that fails is logged
+   * and skipped.
+   */
+  async refreshUserRisk(userId: string, today?: string): Promise<PestRiskRefresh[]> {
+    try {
+      const plots = await this.plotService.getPlots(userId)
+
+      const refreshes: PestRiskRefresh[] = []
+      for (const plot of plots) {
+        try {
+          refreshes.push(await this.refreshPlotRisk(plot.id, today))
+        } catch (error) {
+          console.warn(`Could not refresh the pest risk of plot ${plot.id}:`, error)
+        }
+      }
+      return refreshes
+    } catch (error) {
+      console.error('Refresh user pest risk error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Saved daily risk of a crop, oldest first
+   */
+  async getRiskHistory(cropId: string, from?: string): Promise<Array<PestRiskDay & { model_id: string; pest_type: string }>> {
+    try {
+      let query = supabase
+        .from('pest_risk_daily')
+        .select('*')
+        .eq('crop_id', cropId)
+
+      if (from) {
+        query = query.gte('risk_date', from)
+      }
+
+      const { data, error } = await query.order('risk_date', { ascending: true })
+
+      if (error) {
+        throw new Error(`Failed to fetch pest risk: ${error.message}`)
+      }
+
+      return (data || []).map(row => ({
+        model_id: row.model_id,
+        pest_type: row.pest_type,
+        date: row.risk_date,
+        score: Number(row.score),
+        level: row.level,
+        forecast: row.forecast
+      }))
+    } catch (error) {
+      console.error('Get pest risk history error:', error)
+      throw error
+    }
+  }
+
+  private async assess(plot: Plot, today: string): Promise<CropPestRisk[]> {
+    const crops = (plot.crops || []).filter(
+      (crop): crop is GrowingCrop =>
+        !!crop.id && !!crop.name && !!crop.sown_date && crop.status !== 'harvested' && crop.sown_date <= today
+    )
+    const applicable = crops
+      .map(crop => ({ crop, models: this.models.filter(model => isHostCrop(model, crop.name)) }))
+      .filter(entry => entry.models.length > 0)
+    if (applicable.length === 0) return []
+
+    const firstSown = applicable.reduce((first, entry) => entry.crop.sown_date < first ? entry.crop.sown_date : first, today)
+    const weather = await this.getWeatherDays(plot, firstSown, today)
+    const keepFrom = addDays(today, -RISK_HISTORY_DAYS)
+
+    const risks: CropPestRisk[] = []
+    applicable.forEach(({ crop, models }) => {
+      const season = weather.filter(day => day.date >= crop.sown_date)
+
+      models.forEach(model => {
+        const scores = model.evaluate(season)
+        const days: PestRiskDay[] = season
+          .map((day, index) => ({
+            date: day.date,
+            score: scores[index],
+            level: getRiskLevel(scores[index]),
+            forecast: day.forecast
+          }))
+          .filter(day => day.date >= keepFrom)
+        const ahead = days.filter(day => day.date >= today)
+
+        risks.push({
+          plot_id: plot.id,
+          crop_id: crop.id,
+          crop_name: crop.name,
+          model_id: model.id,
+          pest_type: model.pest_type,
+          kind: model.kind,
+          today: days.find(day => day.date === today) || null,
+          peak: ahead.reduce<PestRiskDay | null>((peak, day) => !peak || day.score > peak.score ? day : peak, null),
+          days
+        })
+      })
+    })
+
+    return risks
+  }
+
+  /**
+   * Past weather at the plot since the first sowing followed by the
+   * forecast. Forecast days replace observations of the same date.
+   */
+  private async getWeatherDays(plot: Plot, since: string, today: string): Promise<RiskWeatherDay[]> {
+    const location = getGeometryCenter(plot.geometry)
+    const daysSince = Math.floor((new Date(today).getTime() - new Date(since).getTime()) / (1000 * 60 * 60 * 24))
+
+    const [history, forecast] = await Promise.all([
+      daysSince > 0
+        ? this.weatherService.getHistoricalData(location, Math.min(daysSince, MAX_WEATHER_HISTORY_DAYS))
+        : Promise.resolve([]),
+      this.weatherService.getForecast(location)
+    ])
+
+    const expected: RiskWeatherDay[] = forecast.forecast.map(day => ({
+      date: day.date,
+      min: day.temperature_min,
+      max: day.temperature_max,
+      humidity: day.humidity,
+      rain_mm: (day.precipitation_chance / 100) *
+        (day.precipitation_mm !== undefined ? day.precipitation_mm : DEFAULT_RAIN_MM),
+      forecast: true
+    }))
+    const forecastDates = new Set(expected.map(day => day.date))
+
+    // Historical records only carry a single temperature and humidity reading
+    const observed: RiskWeatherDay[] = history
+      .filter(day => !!day.date && !forecastDates.has(day.date))
+      .map(day => ({
+        date: day.date!,
+        min: day.current.temperature,
+        max: day.current.temperature,
+        humidity: day.current.humidity,
+        rain_mm: 0,
+        forecast: false
+      }))
+
+    return [...observed, ...expected].sort((a, b) => a.date.localeCompare(b.date))
+  }
+
+  private async saveRisks(plot: Plot, risks: CropPestRisk[]): Promise<void> {
+    const rows = risks.reduce<any[]>((all, risk) => all.concat(risk.days.map(day => ({
+      plot_id: plot.id,
+      crop_id: risk.crop_id,
+      user_id: plot.user_id,
+      model_id: risk.model_id,
+      pest_type: risk.pest_type,
+      risk_date: day.date,
+      score: day.score,
+      level: day.level,
+      forecast: day.forecast
+    }))), [])
+    if (rows.length === 0) return
+
+    const { error } = await supabase
+      .from('pest_risk_daily')
+      .upsert(rows, { onConflict: 'crop_id,model_id,risk_date' })
+
+    if (error) {
+      throw new Error(`Failed to save pest risk: ${error.message}`)
+    }
+  }
+
+  private async startBattles(plotId: string, risks: CropPestRisk[], today: string): Promise<PestBattle[]> {
+    const sustained = risks.filter(risk => this.isSustainedRisk(risk, today))
+    if (sustained.length === 0) return []
+
+    const history = await this.pestService.getPestHistory(plotId)
+    const cooldownFrom = addDays(today, -BATTLE_COOLDOWN_DAYS)
+    const blocked = new Set(history
+      .filter(battle => battle.status === 'active' || (battle.resolved_at || battle.created_at).split('T')[0] > cooldownFrom)
+      .map(battle => battle.pest_type))
+
+    const battles: PestBattle[] = []
+    for (const risk of sustained) {
+      if (blocked.has(risk.pest_type)) continue
+      blocked.add(risk.pest_type)
+
+      // Medium is as severe as a battle the player starts can be
+      battles.push(await this.pestService.createPestBattle(plotId, risk.pest_type, 'medium'))
+    }
+    return battles
+  }
+
+  // Whether the risk was over the battle threshold on each of the last BATTLE_RISK_DAYS days
+  private isSustainedRisk(risk: CropPestRisk, today: string): boolean {
+    const from = addDays(today, -(BATTLE_RISK_DAYS - 1))
+    const recent = risk.days.filter(day => day.date >= from && day.date <= today)
+    return recent.length === BATTLE_RISK_DAYS && recent.every(day => day.score >= BATTLE_RISK_THRESHOLD)
+  }
+}
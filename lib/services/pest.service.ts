@@ -0,0 +1,293 @@
+// Pest Service Implementation using Supabase
+// Pest battles are stored in pest_battles and owned by whoever owns the plot
+// they are fought on. Row level security limits every query to the signed-in
+// user's own plots, so a battle on someone else's plot reads as not found.
+// The battle engine runs in the database (migration 020): the pest's stats
+// are set when a battle starts and only the engine's functions can end one.
+
+import { supabase } from '../supabase/client'
+import { PestService } from './interfaces'
+import { PestBattle, PestBattleTurn, PestBattleTurnResult, PestTreatment } from '../types'
+import { PEST_CATALOG } from '../config/pest-catalog'
+import { calculateBattleXP, getTreatmentEfficacy } from '../utils/pest'
+
+const PEST_SEVERITIES: PestBattle['severity'][] = ['low', 'medium', 'high']
+
+export class SupabasePestService implements PestService {
+  async createPestBattle(plotId: string, pestType: string, severity: PestBattle['severity']): Promise<PestBattle> {
+    try {
+      const errors = this.validatePestBattle(pestType, severity)
+      if (errors.length > 0) {
+        throw new Error(`Invalid pest battle: ${errors.join('; ')}`)
+      }
+
+      const userId = await this.getPlotOwner(plotId)
+      const pest = PEST_CATALOG[pestType]
+
+      const { data, error } = await supabase
+        .from('pest_battles')
+        .insert({
+          user_id: userId,
+          plot_id: plotId,
+          pest_type: pestType,
+          pest_name: pest ? pest.name : undefined,
+          // Lowered to medium by the database when asked for higher
+          severity,
+          status: 'active',
+          // Replaced by the reward the database works out for the pest
+          xp_reward: calculateBattleXP(pestType, severity)
+        })
+        .select()
+        .single()
+
+      if (error) {
+        if (error.code === '23505') {
+          throw new Error(`A battle against ${pest ? pest.name : pestType} is already being fought on this plot`)
+        }
+        throw new Error(`Failed to create pest battle: ${error.message}`)
+      }
+
+      return this.mapDatabaseBattle(data)
+    } catch (error) {
+      console.error('Create pest battle error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Resolving a battle by hand is giving up: the pest wins. Battles are won
+   * by playing turns until the pest is beaten, and the server works out the
+   * outcome, the treatments used and the XP either way.
+   */
+  async resolvePestBattle(battleId: string, success: boolean): Promise<{ battle: PestBattle; xpAwarded: number }> {
+    try {
+      if (success) {
+        throw new Error('Pest battles are won by treating the pest; play turns until it is beaten')
+      }
+
+      const { data, error } = await supabase
+        .rpc('retreat_pest_battle', { p_battle_id: battleId })
+
+      if (error) {
+        throw new Error(`Failed to resolve pest battle: ${error.message}`)
+      }
+
+      const battle = await this.getPestBattle(battleId)
+      return { battle, xpAwarded: data || 0 }
+    } catch (error) {
+      console.error('Resolve pest battle error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Treat the pest for today. The dose comes out of the user's stock and the
+   * battle ends itself once the pest is beaten or the turns run out.
+   */
+  async playTurn(battleId: string, treatmentId: string): Promise<PestBattleTurnResult> {
+    try {
+      const { data, error } = await supabase
+        .rpc('play_pest_battle_turn', { p_battle_id: battleId, p_treatment_id: treatmentId })
+
+      if (error) {
+        throw new Error(`Failed to play pest battle turn: ${error.message}`)
+      }
+
+      const turn = this.mapDatabaseTurn(data)
+      const battle = await this.getPestBattle(battleId)
+      return { battle, turn, xpAwarded: turn.xp_awarded }
+    } catch (error) {
+      console.error('Play pest battle turn error:', error)
+      throw error
+    }
+  }
+
+  async getBattleTurns(battleId: string): Promise<PestBattleTurn[]> {
+    try {
+      const { data, error } = await supabase
+        .from('pest_battle_turns')
+        .select('*')
+        .eq('battle_id', battleId)
+        .order('turn_number', { ascending: true })
+
+      if (error) {
+        throw new Error(`Failed to fetch pest battle turns: ${error.message}`)
+      }
+
+      return (data || []).map(row => this.mapDatabaseTurn(row))
+    } catch (error) {
+      console.error('Get pest battle turns error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Treatments, the most effective against the given pest first
+   */
+  async getTreatments(pestType?: string): Promise<PestTreatment[]> {
+    try {
+      const { data, error } = await supabase
+        .from('pest_treatments')
+        .select('*')
+        .order('name', { ascending: true })
+
+      if (error) {
+        throw new Error(`Failed to fetch pest treatments: ${error.message}`)
+      }
+
+      const treatments: PestTreatment[] = (data || []).map(row => ({
+        id: row.id,
+        name: row.name,
+        kind: row.kind,
+        resource_type: row.resource_type,
+        dose_per_hectare: Number(row.dose_per_hectare),
+        unit: row.unit,
+        efficacy: row.efficacy || {},
+        default_efficacy: Number(row.default_efficacy),
+        resistance_buildup: Number(row.resistance_buildup),
+        phi_days: row.phi_days,
+        rei_hours: row.rei_hours,
+        description: row.description || undefined
+      }))
+      if (pestType) {
+        treatments.sort((a, b) => getTreatmentEfficacy(b, pestType) - getTreatmentEfficacy(a, pestType))
+      }
+      return treatments
+    } catch (error) {
+      console.error('Get pest treatments error:', error)
+      throw error
+    }
+  }
+
+  async getPestBattle(battleId: string): Promise<PestBattle> {
+    try {
+      const { data, error } = await supabase
+        .from('pest_battles')
+        .select('*')
+        .eq('id', battleId)
+        .single()
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          throw new Error('Pest battle not found')
+        }
+        throw new Error(`Failed to fetch pest battle: ${error.message}`)
+      }
+
+      return this.mapDatabaseBattle(data)
+    } catch (error) {
+      console.error('Get pest battle error:', error)
+      throw error
+    }
+  }
+
+  async getActiveBattles(userId: string): Promise<PestBattle[]> {
+    try {
+      const { data, error } = await supabase
+        .from('pest_battles')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('status', 'active')
+        .order('created_at', { ascending: false })
+
+      if (error) {
+        throw new Error(`Failed to fetch active pest battles: ${error.message}`)
+      }
+
+      return (data || []).map(row => this.mapDatabaseBattle(row))
+    } catch (error) {
+      console.error('Get active pest battles error:', error)
+      throw error
+    }
+  }
+
+  async getPestHistory(plotId: string): Promise<PestBattle[]> {
+    try {
+      const { data, error } = await supabase
+        .from('pest_battles')
+        .select('*')
+        .eq('plot_id', plotId)
+        .order('created_at', { ascending: false })
+
+      if (error) {
+        throw new Error(`Failed to fetch pest history: ${error.message}`)
+      }
+
+      return (data || []).map(row => this.mapDatabaseBattle(row))
+    } catch (error) {
+      console.error('Get pest history error:', error)
+      throw error
+    }
+  }
+
+  private async getPlotOwner(plotId: string): Promise<string> {
+    const { data, error } = await supabase
+      .from('plots')
+      .select('user_id')
+      .eq('id', plotId)
+      .single()
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        throw new Error('Plot not found')
+      }
+      throw new Error(`Failed to fetch plot: ${error.message}`)
+    }
+    return data.user_id
+  }
+
+  private validatePestBattle(pestType: string, severity: PestBattle['severity']): string[] {
+    const errors: string[] = []
+
+    if (!pestType || pestType.trim().length === 0 || pestType.length > 50) {
+      errors.push('Pest type must be 1-50 characters')
+    }
+    if (!PEST_SEVERITIES.includes(severity)) {
+      errors.push(`Unknown severity: ${severity}`)
+    }
+
+    return errors
+  }
+
+  private mapDatabaseBattle(data: any): PestBattle {
+    return {
+      id: data.id,
+      user_id: data.user_id,
+      plot_id: data.plot_id,
+      pest_type: data.pest_type,
+      pest_name: data.pest_name || undefined,
+      severity: data.severity,
+      status: data.status,
+      xp_reward: data.xp_reward,
+      treatment_used: data.treatment_used || undefined,
+      success_rate: data.success_rate !== null && data.success_rate !== undefined ? Number(data.success_rate) : undefined,
+      hp: data.hp !== null ? data.hp : undefined,
+      max_hp: data.max_hp || undefined,
+      resistance: data.resistance !== null && data.resistance !== undefined ? Number(data.resistance) : undefined,
+      turns_played: data.turns_played,
+      max_turns: data.max_turns || undefined,
+      last_turn_on: data.last_turn_on || undefined,
+      created_at: data.created_at,
+      resolved_at: data.resolved_at || undefined
+    }
+  }
+
+  private mapDatabaseTurn(data: any): PestBattleTurn {
+    return {
+      id: data.id,
+      battle_id: data.battle_id,
+      user_id: data.user_id,
+      turn_number: data.turn_number,
+      played_on: data.played_on,
+      treatment_id: data.treatment_id,
+      dose: Number(data.dose),
+      efficacy: Number(data.efficacy),
+      regrowth: data.regrowth,
+      damage: data.damage,
+      hp_before: data.hp_before,
+      hp_after: data.hp_after,
+      xp_awarded: data.xp_awarded,
+      created_at: data.created_at
+    }
+  }
+}
@@ -0,0 +1,372 @@
+// Plot import and export in GIS formats: GeoJSON, KML/KMZ and zipped
+// Shapefiles. Imports go through PlotService.createPlot so every plot is
+// validated the same way as one drawn on the map.
+
+import { PlotService } from './interfaces'
+import { SupabasePlotService } from './plot.service'
+import { PlotValidationService } from './plot-validation.service'
+import {
+  Plot,
+  PlotExportFile,
+  PlotFieldMapping,
+  PlotFile,
+  PlotFileFormat,
+  PlotImportFeatureResult,
+  PlotImportOptions,
+  PlotImportResult
+} from '../types'
+import { featuresToKML, parseKML } from '../utils/kml'
+import { parseShapefile, writeShapefile } from '../utils/shapefile'
+import { createZip, isZip, listZip, readZip } from '../utils/zip'
+
+type ImportedFeature = GeoJSON.Feature<GeoJSON.Geometry | null, Record<string, any> | null>
+
+// Attribute names commonly used for each plot field, checked case-insensitively
+const DEFAULT_FIELD_CANDIDATES: Required<Record<keyof PlotFieldMapping, string[]>> = {
+  name: ['name', 'plot_name', 'field_name', 'title', 'label'],
+  description: ['description', 'descr', 'desc', 'notes'],
+  soil_type: ['soil_type', 'soiltype', 'soil'],
+  irrigation_type: ['irrigation_type', 'irrigation', 'irrig_type']
+}
+
+// dBASE limits attribute names to 10 characters
+const SHAPEFILE_FIELD_NAMES: Record<string, string> = {
+  description: 'descr',
+  irrigation_type: 'irrigation',
+  area_hectares: 'area_ha'
+}
+
+// Largest file importPlots accepts
+export const MAX_IMPORT_FILE_SIZE = 20 * 1024 * 1024
+
+// Archive members a zipped Shapefile import reads
+const SHAPEFILE_EXTENSIONS = ['.shp', '.dbf', '.prj']
+
+const MIME_TYPES: Record<PlotFileFormat, string> = {
+  geojson: 'application/geo+json',
+  kml: 'application/vnd.google-earth.kml+xml',
+  kmz: 'application/vnd.google-earth.kmz',
+  shapefile: 'application/zip'
+}
+
+export class PlotImportExportService {
+  private validator = new PlotValidationService()
+
+  constructor(private plotService: PlotService = new SupabasePlotService()) {}
+
+  /**
+   * Import the polygons of a GIS file as plots for a user. Each feature is
+   * handled on its own, so one bad boundary doesn't stop the rest; with
+   * dryRun nothing is created and the result shows what would happen.
+   */
+  async importPlots(userId: string, file: PlotFile, options: PlotImportOptions = {}): Promise<PlotImportResult> {
+    try {
+      const size = typeof file.data === 'string' ? file.data.length : file.data.byteLength
+      if (size > MAX_IMPORT_FILE_SIZE) {
+        throw new Error(`${file.name} is larger than the ${MAX_IMPORT_FILE_SIZE / (1024 * 1024)} MB import limit`)
+      }
+
+      const format = options.format || await this.detectFormat(file)
+      const features = await this.readFeatures(file, format)
+
+      if (features.length === 0) {
+        throw new Error('No features found in file')
+      }
+
+      const results: PlotImportFeatureResult[] = []
+      for (let index = 0; index < features.length; index++) {
+        results.push(await this.importFeature(userId, features[index], index, options))
+      }
+
+      const failed = results.filter(result => result.status === 'failed').length
+      return {
+        format,
+        dryRun: !!options.dryRun,
+        total: results.length,
+        succeeded: results.length - failed,
+        failed,
+        features: results
+      }
+    } catch (error) {
+      console.error('Import plots error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Export a user's plots in the given format
+   */
+  async exportPlots(userId: string, format: PlotFileFormat): Promise<PlotExportFile> {
+    try {
+      const plots = await this.plotService.getPlots(userId)
+      const features = plots.map(plot => this.plotToFeature(plot))
+
+      switch (format) {
+        case 'geojson':
+          return {
+            filename: 'plots.geojson',
+            mimeType: MIME_TYPES.geojson,
+            data: JSON.stringify({ type: 'FeatureCollection', features }, null, 2)
+          }
+        case 'kml':
+          return {
+            filename: 'plots.kml',
+            mimeType: MIME_TYPES.kml,
+            data: featuresToKML(features, 'AgroClash plots')
+          }
+        case 'kmz':
+          return {
+            filename: 'plots.kmz',
+            mimeType: MIME_TYPES.kmz,
+            data: createZip([
+              { name: 'doc.kml', data: new TextEncoder().encode(featuresToKML(features, 'AgroClash plots')) }
+            ])
+          }
+        case 'shapefile': {
+          const layer = writeShapefile(features.map(feature => ({
+            ...feature,
+            properties: this.toShapefileProperties(feature.properties)
+          })))
+          return {
+            filename: 'plots.zip',
+            mimeType: MIME_TYPES.shapefile,
+            data: createZip([
+              { name: 'plots.shp', data: layer.shp },
+              { name: 'plots.shx', data: layer.shx },
+              { name: 'plots.dbf', data: layer.dbf },
+              { name: 'plots.prj', data: new TextEncoder().encode(layer.prj) }
+            ])
+          }
+        }
+        default:
+          throw new Error(`Unsupported export format: ${format}`)
+      }
+    } catch (error) {
+      console.error('Export plots error:', error)
+      throw error
+    }
+  }
+
+  private async importFeature(
+    userId: string,
+    feature: ImportedFeature,
+    index: number,
+    options: PlotImportOptions
+  ): Promise<PlotImportFeatureResult> {
+    const properties = feature.properties || {}
+    const warnings: string[] = []
+    const read = (field: keyof PlotFieldMapping) =>
+      this.readAttribute(properties, field, options.fieldMapping, warnings)
+
+    let name = read('name')
+    const description = read('description')
+    const soilType = read('soil_type')
+    const irrigationType = read('irrigation_type')
+    if (!name) {
+      name = `Imported plot ${index + 1}`
+      warnings.push(`No name attribute found; using "${name}"`)
+    }
+
+    const result: PlotImportFeatureResult = { index, name, status: 'failed', errors: [], warnings }
+
+    const geometry = feature.geometry
+    if (!geometry) {
+      result.errors.push('Feature has no geometry')
+      return result
+    }
+    if (geometry.type !== 'Polygon' && geometry.type !== 'MultiPolygon') {
+      result.errors.push(`Unsupported geometry type: ${geometry.type} (plots must be polygons)`)
+      return result
+    }
+
+    const validation = this.validator.validate(geometry, options.validation)
+    validation.issues.forEach(issue => {
+      (issue.severity === 'error' ? result.errors : warnings).push(issue.message)
+    })
+    if (!validation.valid) {
+      return result
+    }
+
+    result.geometry = validation.geometry
+    result.area_hectares = validation.area_hectares
+
+    if (options.dryRun) {
+      result.status = 'valid'
+      return result
+    }
+
+    try {
+      result.plot = await this.plotService.createPlot({
+        user_id: userId,
+        name,
+        description,
+        soil_type: soilType,
+        irrigation_type: irrigationType,
+        geometry: validation.geometry,
+        area_hectares: validation.area_hectares
+      }, options.validation)
+      result.status = 'created'
+    } catch (error) {
+      result.errors.push(error instanceof Error ? error.message : String(error))
+    }
+
+    return result
+  }
+
+  /**
+   * Read a plot field from feature attributes, using the mapped attribute
+   * when one is configured and the common names otherwise
+   */
+  private readAttribute(
+    properties: Record<string, any>,
+    field: keyof PlotFieldMapping,
+    mapping: PlotFieldMapping | undefined,
+    warnings: string[]
+  ): string | undefined {
+    const mapped = mapping && mapping[field]
+    const candidates = mapped ? [mapped] : DEFAULT_FIELD_CANDIDATES[field]
+
+    for (const candidate of candidates) {
+      const key = Object.keys(properties).find(k => k.toLowerCase() === candidate.toLowerCase())
+      const value = key !== undefined ? properties[key] : undefined
+      if (value !== undefined && value !== null && String(value).trim() !== '') {
+        return String(value).trim()
+      }
+    }
+
+    if (mapped && field !== 'name') {
+      warnings.push(`Attribute "${mapped}" mapped to ${field} not found`)
+    }
+    return undefined
+  }
+
+  private plotToFeature(plot: Plot): GeoJSON.Feature<Plot['geometry'], Record<string, any>> {
+    return {
+      type: 'Feature',
+      geometry: plot.geometry,
+      properties: {
+        id: plot.id,
+        name: plot.name,
+        description: plot.description,
+        soil_type: plot.soil_type,
+        irrigation_type: plot.irrigation_type,
+        area_hectares: plot.area_hectares
+      }
+    }
+  }
+
+  private toShapefileProperties(properties: Record<string, any>): Record<string, any> {
+    return Object.keys(properties).reduce((result, key) => {
+      result[SHAPEFILE_FIELD_NAMES[key] || key] = properties[key]
+      return result
+    }, {} as Record<string, any>)
+  }
+
+  private async detectFormat(file: PlotFile): Promise<PlotFileFormat> {
+    const extension = file.name.toLowerCase().split('.').pop()
+    switch (extension) {
+      case 'geojson':
+      case 'json':
+        return 'geojson'
+      case 'kml':
+        return 'kml'
+      case 'kmz':
+        return 'kmz'
+      case 'zip':
+      case 'shz':
+        return 'shapefile'
+    }
+
+    // Fall back to sniffing the content
+    if (typeof file.data !== 'string' && isZip(file.data)) {
+      const names = listZip(file.data).map(name => name.toLowerCase())
+      if (names.some(name => name.endsWith('.shp'))) return 'shapefile'
+      if (names.some(name => name.endsWith('.kml'))) return 'kmz'
+    } else {
+      const text = this.toText(file.data).trimStart()
+      if (text.startsWith('{')) return 'geojson'
+      if (text.startsWith('<')) return 'kml'
+    }
+
+    throw new Error(`Unable to detect the format of ${file.name}`)
+  }
+
+  private async readFeatures(file: PlotFile, format: PlotFileFormat): Promise<ImportedFeature[]> {
+    switch (format) {
+      case 'geojson':
+        return this.parseGeoJSON(this.toText(file.data))
+      case 'kml':
+        return parseKML(this.toText(file.data))
+      case 'kmz': {
+        const names = listZip(this.toBytes(file)).filter(name => name.toLowerCase().endsWith('.kml'))
+        // By convention the main document is doc.kml, otherwise the first .kml
+        const main = names.find(name => name.toLowerCase() === 'doc.kml') || names[0]
+        if (!main) {
+          throw new Error('KMZ archive contains no KML document')
+        }
+        const files = await readZip(this.toBytes(file), { filter: name => name === main })
+        return parseKML(new TextDecoder().decode(files.get(main)))
+      }
+      case 'shapefile': {
+        const files = await readZip(this.toBytes(file), {
+          filter: name => SHAPEFILE_EXTENSIONS.some(extension => name.toLowerCase().endsWith(extension))
+        })
+        const byName = new Map(Array.from(files.entries()).map(([name, data]) => [name.toLowerCase(), data]))
+        const layers = Array.from(byName.keys()).filter(name => name.endsWith('.shp'))
+        if (layers.length === 0) {
+          throw new Error('Archive contains no .shp file')
+        }
+
+        return layers.flatMap(layer => {
+          const base = layer.slice(0, -4)
+          const prj = byName.get(`${base}.prj`)
+          return parseShapefile(
+            byName.get(layer)!,
+            byName.get(`${base}.dbf`),
+            prj ? new TextDecoder().decode(prj) : undefined
+          )
+        })
+      }
+      default:
+        throw new Error(`Unsupported import format: ${format}`)
+    }
+  }
+
+  private parseGeoJSON(text: string): ImportedFeature[] {
+    let json: any
+    try {
+      json = JSON.parse(text)
+    } catch (error) {
+      throw new Error('Invalid GeoJSON: file is not valid JSON')
+    }
+
+    // RFC 7946 drops crs; older files may still declare a projected one
+    const crs = json && json.crs && json.crs.properties && json.crs.properties.name
+    if (crs && !/(4326|CRS84)$/i.test(crs)) {
+      throw new Error(`GeoJSON must use WGS84 coordinates (found ${crs})`)
+    }
+
+    switch (json && json.type) {
+      case 'FeatureCollection':
+        return Array.isArray(json.features) ? json.features : []
+      case 'Feature':
+        return [json]
+      case 'Polygon':
+      case 'MultiPolygon':
+        return [{ type: 'Feature', geometry: json, properties: {} }]
+      default:
+        throw new Error('Invalid GeoJSON: expected a FeatureCollection, Feature or Polygon')
+    }
+  }
+
+  private toText(data: PlotFile['data']): string {
+    return typeof data === 'string' ? data : new TextDecoder().decode(data)
+  }
+
+  private toBytes(file: PlotFile): Uint8Array {
+    if (typeof file.data === 'string') {
+      throw new Error(`${file.name} must be provided as binary data`)
+    }
+    return file.data
+  }
+}
@@ -0,0 +1,213 @@
+// Map tiles of plots for rendering many plots at once. Each z/x/y tile holds
+// the plots intersecting it, simplified to what is visible at that zoom, as
+// GeoJSON (Leaflet) or Mapbox Vector Tile. Tiles are cached and rebuilt only
+// when a plot in them is added, removed or updated.
+
+import { PlotService } from './interfaces'
+import { SupabasePlotService } from './plot.service'
+import { Plot, PlotGeometry, PlotTile, PlotTileFormat, PlotTileOptions } from '../types'
+import { createLocalProjection } from '../utils/geodesic'
+import { closeRing, fromPolygons, getPolygons, isRingClosed } from '../utils/geometry'
+import { DEFAULT_EXTENT, encodeVectorTile } from '../utils/mvt'
+import { simplifyRing } from '../utils/simplify'
+import { clipRing, isValidTile, metersPerPixel, positionToTilePixel, tileToBoundingBox } from '../utils/tiles'
+import { crc32 } from '../utils/zip'
+
+// Below this zoom a tile covers too many plots to be worth drawing
+const MIN_TILE_ZOOM = 8
+const MAX_TILE_PLOTS = 5000
+const PAGE_SIZE = 500
+
+// Vertices closer than this (in screen pixels) to the simplified outline are dropped
+const SIMPLIFY_TOLERANCE_PIXELS = 0.5
+// Vector tile geometry extends this far (in tile units) past the tile edge
+// so outlines don't show seams between tiles
+const MVT_BUFFER = 64
+const MVT_LAYER_NAME = 'plots'
+
+const MAX_CACHED_TILES = 256
+const MAX_CACHED_GEOMETRIES = 5000
+
+const MIME_TYPES: Record<PlotTileFormat, string> = {
+  geojson: 'application/geo+json',
+  mvt: 'application/vnd.mapbox-vector-tile'
+}
+
+export class PlotTileService {
+  private tileCache = new Map<string, { version: string; tile: PlotTile }>()
+  private geometryCache = new Map<string, PlotGeometry | null>()
+
+  constructor(private plotService: PlotService = new SupabasePlotService()) {}
+
+  /**
+   * Get the plots in a z/x/y tile. Plots are still fetched on every call to
+   * check for changes, but simplification and encoding only run again when
+   * a plot's updated_at or the set of plots in the tile has changed.
+   */
+  async getTile(z: number, x: number, y: number, options: PlotTileOptions = {}): Promise<PlotTile> {
+    try {
+      if (!isValidTile(z, x, y)) {
+        throw new Error(`Invalid tile: ${z}/${x}/${y}`)
+      }
+
+      const format = options.format || 'geojson'
+      if (format !== 'geojson' && format !== 'mvt') {
+        throw new Error(`Unsupported tile format: ${format}`)
+      }
+
+      if (z < MIN_TILE_ZOOM) {
+        return this.buildTile(z, x, y, format, [])
+      }
+
+      const plots = await this.fetchPlots(z, x, y, options.userId)
+      const version = this.getVersion(plots)
+      const cacheKey = `${format}:${options.userId || '*'}:${z}/${x}/${y}`
+
+      const cached = this.tileCache.get(cacheKey)
+      if (cached && cached.version === version) {
+        return { ...cached.tile, cached: true }
+      }
+
+      const tile = this.buildTile(z, x, y, format, plots)
+      this.remember(this.tileCache, cacheKey, { version, tile }, MAX_CACHED_TILES)
+      return tile
+    } catch (error) {
+      console.error('Get plot tile error:', error)
+      throw error
+    }
+  }
+
+  clearCache(): void {
+    this.tileCache.clear()
+    this.geometryCache.clear()
+  }
+
+  private async fetchPlots(z: number, x: number, y: number, userId?: string): Promise<Plot[]> {
+    const bounds = tileToBoundingBox(z, x, y)
+    const plots: Plot[] = []
+    let page = 1
+    let hasMore = true
+
+    while (hasMore && plots.length < MAX_TILE_PLOTS) {
+      const result = await this.plotService.getPlotsInBoundingBox(bounds, { userId, page, pageSize: PAGE_SIZE })
+      plots.push(...result.plots)
+      hasMore = result.hasMore
+      page++
+    }
+
+    if (hasMore) {
+      console.warn(`Tile ${z}/${x}/${y} has more than ${MAX_TILE_PLOTS} plots; the rest are left out`)
+    }
+    return plots.slice(0, MAX_TILE_PLOTS)
+  }
+
+  /**
+   * Fingerprint of the plots in a tile: changes when any plot is added,
+   * removed or updated
+   */
+  private getVersion(plots: Plot[]): string {
+    const stamps = plots.map(plot => `${plot.id}@${plot.updated_at}`).sort().join('|')
+    return `${plots.length}:${crc32(new TextEncoder().encode(stamps)).toString(16)}`
+  }
+
+  private buildTile(z: number, x: number, y: number, format: PlotTileFormat, plots: Plot[]): PlotTile {
+    const simplified = plots
+      .map(plot => ({ plot, geometry: this.getSimplifiedGeometry(plot, z) }))
+      .filter((entry): entry is { plot: Plot; geometry: PlotGeometry } => !!entry.geometry)
+
+    const data = format === 'mvt'
+      ? encodeVectorTile([{
+          name: MVT_LAYER_NAME,
+          extent: DEFAULT_EXTENT,
+          features: simplified.map(({ plot, geometry }) => ({
+            polygons: this.toTilePolygons(geometry, z, x, y),
+            properties: this.getProperties(plot)
+          }))
+        }])
+      : {
+          type: 'FeatureCollection' as const,
+          features: simplified.map(({ plot, geometry }) => ({
+            type: 'Feature' as const,
+            id: plot.id,
+            geometry,
+            properties: this.getProperties(plot)
+          }))
+        }
+
+    return {
+      z,
+      x,
+      y,
+      format,
+      mimeType: MIME_TYPES[format],
+      data,
+      featureCount: simplified.length,
+      cached: false
+    }
+  }
+
+  private getProperties(plot: Plot): Record<string, string | number> {
+    return {
+      id: plot.id,
+      user_id: plot.user_id,
+      name: plot.name,
+      area_hectares: plot.area_hectares
+    }
+  }
+
+  /**
+   * Simplify a plot for a zoom level, dropping rings (and plots) that are
+   * too small to see. Results are shared by every tile the plot touches.
+   */
+  private getSimplifiedGeometry(plot: Plot, z: number): PlotGeometry | null {
+    const cacheKey = `${plot.id}@${plot.updated_at}/${z}`
+    if (this.geometryCache.has(cacheKey)) {
+      return this.geometryCache.get(cacheKey)!
+    }
+
+    const polygons = getPolygons(plot.geometry)
+    const origin = polygons[0] && polygons[0][0] && polygons[0][0][0]
+    let geometry: PlotGeometry | null = null
+
+    if (origin) {
+      const projection = createLocalProjection(origin)
+      const tolerance = metersPerPixel(z, origin[1]) * SIMPLIFY_TOLERANCE_PIXELS
+
+      const simplifyPositions = (ring: GeoJSON.Position[]) => {
+        const open = isRingClosed(ring) ? ring.slice(0, -1) : ring
+        const points = simplifyRing(open.map(position => projection.forward(position)), tolerance)
+        return points.length >= 3 ? closeRing(points.map(point => projection.inverse(point))) : null
+      }
+
+      const kept = polygons
+        .map(polygon => polygon.map(simplifyPositions))
+        .filter(rings => !!rings[0])
+        .map(rings => rings.filter((ring): ring is GeoJSON.Position[] => !!ring))
+
+      geometry = kept.length > 0 ? fromPolygons(kept) : null
+    }
+
+    this.remember(this.geometryCache, cacheKey, geometry, MAX_CACHED_GEOMETRIES)
+    return geometry
+  }
+
+  private toTilePolygons(geometry: PlotGeometry, z: number, x: number, y: number): number[][][][] {
+    return getPolygons(geometry).map(polygon =>
+      polygon.map(ring => {
+        const open = isRingClosed(ring) ? ring.slice(0, -1) : ring
+        const pixels = open.map(position => positionToTilePixel(position, z, x, y, DEFAULT_EXTENT))
+        return clipRing(pixels, -MVT_BUFFER, DEFAULT_EXTENT + MVT_BUFFER)
+          .map(point => [Math.round(point[0]), Math.round(point[1])])
+      })
+    )
+  }
+
+  // Insertion-ordered maps evict their oldest entry first
+  private remember<T>(cache: Map<string, T>, key: string, value: T, limit: number): void {
+    cache.delete(key)
+    cache.set(key, value)
+    if (cache.size > limit) {
+      cache.delete(cache.keys().next().value as string)
+    }
+  }
+}
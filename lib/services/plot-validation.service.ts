@@ -0,0 +1,462 @@
+// Plot geometry validation and auto-repair
+// Runs in front of PlotService so sloppy boundaries are rejected (or fixed)
+// with clear messages instead of failing inside PostGIS
+
+import {
+  GeometryIssueCode,
+  GeometryValidationIssue,
+  GeometryValidationResult,
+  PlotGeometry,
+  PlotValidationOptions
+} from '../types'
+import { createLocalProjection, geodesicRingArea, geodesicRingSignedArea } from '../utils/geodesic'
+import { calculateGeometryArea, closeRing, getPolygons, isRingClosed } from '../utils/geometry'
+
+const DEFAULT_OPTIONS: Required<PlotValidationOptions> = {
+  autoFix: false,
+  minAreaHectares: 0.01, // 100 square meters
+  maxAreaHectares: 1000
+}
+
+// Vertices closer than this (in degrees, roughly 0.1 mm) are duplicates
+const DUPLICATE_TOLERANCE = 1e-9
+
+// A vertex whose two edges fold back within this angle is a spike
+const SPIKE_ANGLE_DEGREES = 1
+
+// Rings smaller than this (square meters) have no usable area
+const ZERO_AREA_THRESHOLD = 0.01
+
+type Location = NonNullable<GeometryValidationIssue['location']>
+
+export class PlotValidationService {
+  /**
+   * Validate a plot geometry, optionally repairing fixable issues first.
+   * Errors make the geometry invalid; warnings are reported but accepted.
+   */
+  validate(geometry: PlotGeometry, options: PlotValidationOptions = {}): GeometryValidationResult {
+    const settings = { ...DEFAULT_OPTIONS, ...options }
+
+    const structureIssue = this.checkStructure(geometry)
+    if (structureIssue) {
+      return {
+        valid: false,
+        issues: [structureIssue],
+        geometry,
+        repaired: false,
+        area_hectares: 0
+      }
+    }
+
+    const candidate = settings.autoFix ? this.repair(geometry) : geometry
+    const issues = this.collectIssues(candidate, settings)
+
+    return {
+      valid: !issues.some(issue => issue.severity === 'error'),
+      issues,
+      geometry: candidate,
+      repaired: settings.autoFix && JSON.stringify(candidate) !== JSON.stringify(geometry),
+      area_hectares: calculateGeometryArea(candidate) / 10000
+    }
+  }
+
+  /**
+   * Repair the fixable issues of a geometry: close rings, drop duplicate
+   * vertices and spikes, and rewind rings (outer counter-clockwise, holes
+   * clockwise as per RFC 7946). Self-intersections are left untouched.
+   */
+  repair(geometry: PlotGeometry): PlotGeometry {
+    const polygons = getPolygons(geometry).map(polygon =>
+      polygon
+        .map((ring, ringIndex) => this.repairRing(ring, ringIndex === 0))
+        // Holes that collapsed while dropping spikes are no longer holes
+        .filter((ring, ringIndex) => ringIndex === 0 || ring.length >= 4)
+    )
+
+    if (geometry.type === 'MultiPolygon') {
+      return { type: 'MultiPolygon', coordinates: polygons }
+    }
+    return { type: 'Polygon', coordinates: polygons[0] }
+  }
+
+  private repairRing(ring: GeoJSON.Position[], isShell: boolean): GeoJSON.Position[] {
+    let vertices = this.openRing(ring)
+    vertices = this.removeDuplicateVertices(vertices)
+    vertices = this.removeSpikes(vertices)
+
+    const closed = closeRing(vertices)
+    if (closed.length >= 4 && geodesicRingSignedArea(closed) > 0 !== isShell) {
+      closed.reverse()
+    }
+    return closed
+  }
+
+  private checkStructure(geometry: PlotGeometry): GeometryValidationIssue | null {
+    const isPosition = (coord: unknown) =>
+      Array.isArray(coord) &&
+      coord.length >= 2 &&
+      Number.isFinite(coord[0]) &&
+      Number.isFinite(coord[1]) &&
+      Math.abs(coord[0]) <= 180 &&
+      Math.abs(coord[1]) <= 90
+
+    const isRing = (ring: unknown) => Array.isArray(ring) && ring.every(isPosition)
+    const isPolygon = (polygon: unknown) =>
+      Array.isArray(polygon) && polygon.length > 0 && polygon.every(isRing)
+
+    const valid =
+      !!geometry &&
+      Array.isArray(geometry.coordinates) &&
+      geometry.coordinates.length > 0 &&
+      (geometry.type === 'Polygon'
+        ? isPolygon(geometry.coordinates)
+        : geometry.type === 'MultiPolygon' && (geometry.coordinates as unknown[]).every(isPolygon))
+
+    return valid
+      ? null
+      : this.createIssue(
+          'INVALID_STRUCTURE',
+          'Geometry must be a Polygon or MultiPolygon with valid longitude/latitude coordinates',
+          'error',
+          false
+        )
+  }
+
+  private collectIssues(
+    geometry: PlotGeometry,
+    settings: Required<PlotValidationOptions>
+  ): GeometryValidationIssue[] {
+    const issues: GeometryValidationIssue[] = []
+    const multi = geometry.type === 'MultiPolygon'
+
+    getPolygons(geometry).forEach((polygon, part) => {
+      const cleanRings: Array<{ ringIndex: number; ring: GeoJSON.Position[] }> = []
+
+      polygon.forEach((ring, ringIndex) => {
+        const location: Location = { part, ring: ringIndex }
+        const label = this.describeRing(multi, part, ringIndex)
+        const vertices = this.openRing(ring)
+
+        if (!isRingClosed(ring)) {
+          issues.push(this.createIssue(
+            'RING_NOT_CLOSED',
+            `${label} must be closed (first and last points must be the same)`,
+            'error',
+            true,
+            location
+          ))
+        }
+
+        this.findDuplicateVertices(vertices).forEach(vertex => {
+          issues.push(this.createIssue(
+            'DUPLICATE_VERTEX',
+            `${label} repeats vertex ${vertex}`,
+            'warning',
+            true,
+            { ...location, vertex }
+          ))
+        })
+
+        const unique = this.removeDuplicateVertices(vertices)
+        if (unique.length < 3) {
+          issues.push(this.createIssue(
+            'TOO_FEW_POINTS',
+            `${label} must have at least 3 distinct points`,
+            'error',
+            false,
+            location
+          ))
+          return
+        }
+
+        this.findSpikes(unique).forEach(vertex => {
+          issues.push(this.createIssue(
+            'SPIKE',
+            `${label} has a spike at vertex ${vertex}`,
+            'error',
+            true,
+            { ...location, vertex }
+          ))
+        })
+
+        // Winding and area mean nothing for a ring that crosses itself
+        const closed = closeRing(unique)
+        if (this.isRingSelfIntersecting(closed)) {
+          issues.push(this.createIssue(
+            'SELF_INTERSECTION',
+            `${label} cannot intersect with itself`,
+            'error',
+            false,
+            location
+          ))
+          return
+        }
+
+        if (geodesicRingArea(closed) < ZERO_AREA_THRESHOLD) {
+          issues.push(this.createIssue('ZERO_AREA', `${label} has no area`, 'error', false, location))
+          return
+        }
+
+        const isCounterClockwise = geodesicRingSignedArea(closed) > 0
+        if (isCounterClockwise !== (ringIndex === 0)) {
+          issues.push(this.createIssue(
+            'WRONG_WINDING',
+            ringIndex === 0
+              ? `${label} should be counter-clockwise`
+              : `${label} should be clockwise`,
+            'warning',
+            true,
+            location
+          ))
+        }
+
+        cleanRings.push({ ringIndex, ring: closed })
+      })
+
+      this.collectHoleIssues(cleanRings, multi, part, issues)
+    })
+
+    // The area of a degenerate or crossed ring is not meaningful
+    const hasBrokenRing = issues.some(issue => issue.code === 'ZERO_AREA' || issue.code === 'SELF_INTERSECTION')
+    const area = calculateGeometryArea(geometry) / 10000
+
+    if (!hasBrokenRing && area < settings.minAreaHectares) {
+      issues.push(this.createIssue(
+        'AREA_TOO_SMALL',
+        `Plot area must be at least ${settings.minAreaHectares} hectares`,
+        'error',
+        false
+      ))
+    }
+
+    if (area > settings.maxAreaHectares) {
+      issues.push(this.createIssue(
+        'AREA_TOO_LARGE',
+        `Plot area cannot exceed ${settings.maxAreaHectares} hectares`,
+        'error',
+        false
+      ))
+    }
+
+    return issues
+  }
+
+  /**
+   * Holes must lie inside their outer ring without crossing it or each other
+   */
+  private collectHoleIssues(
+    cleanRings: Array<{ ringIndex: number; ring: GeoJSON.Position[] }>,
+    multi: boolean,
+    part: number,
+    issues: GeometryValidationIssue[]
+  ): void {
+    // Without a usable outer ring there is nothing to check holes against
+    if (cleanRings.length < 2 || cleanRings[0].ringIndex !== 0) return
+
+    const shell = cleanRings[0].ring
+    const holes = cleanRings.slice(1)
+
+    holes.forEach(({ ringIndex, ring: hole }, index) => {
+      const location: Location = { part, ring: ringIndex }
+      const label = this.describeRing(multi, part, ringIndex)
+
+      if (this.ringsIntersect(shell, hole)) {
+        issues.push(this.createIssue(
+          'SELF_INTERSECTION',
+          `${label} crosses the outer boundary`,
+          'error',
+          false,
+          location
+        ))
+      } else if (!this.isPointInRing(hole[0], shell)) {
+        issues.push(this.createIssue(
+          'HOLE_OUTSIDE_SHELL',
+          `${label} lies outside the outer boundary`,
+          'error',
+          false,
+          location
+        ))
+      }
+
+      holes.slice(index + 1).forEach(other => {
+        if (this.ringsIntersect(hole, other.ring)) {
+          issues.push(this.createIssue(
+            'SELF_INTERSECTION',
+            `${label} crosses another hole`,
+            'error',
+            false,
+            location
+          ))
+        }
+      })
+    })
+  }
+
+  private createIssue(
+    code: GeometryIssueCode,
+    message: string,
+    severity: GeometryValidationIssue['severity'],
+    fixable: boolean,
+    location?: Location
+  ): GeometryValidationIssue {
+    return {
+      type: 'VALIDATION_ERROR',
+      code,
+      message,
+      severity,
+      fixable,
+      resource: 'plots.geometry',
+      location
+    }
+  }
+
+  /**
+   * Human-readable name for a ring in validation messages
+   */
+  private describeRing(multi: boolean, part: number, ringIndex: number): string {
+    const ring = ringIndex === 0 ? 'Polygon' : `Hole ${ringIndex}`
+    return multi ? `${ring} of part ${part + 1}` : ring
+  }
+
+  // Ring helpers (rings are handled "open", without the closing vertex)
+
+  private openRing(ring: GeoJSON.Position[]): GeoJSON.Position[] {
+    return isRingClosed(ring) && ring.length > 1 ? ring.slice(0, -1) : [...ring]
+  }
+
+  private isSamePosition(a: GeoJSON.Position, b: GeoJSON.Position): boolean {
+    return Math.abs(a[0] - b[0]) <= DUPLICATE_TOLERANCE && Math.abs(a[1] - b[1]) <= DUPLICATE_TOLERANCE
+  }
+
+  private findDuplicateVertices(vertices: GeoJSON.Position[]): number[] {
+    const duplicates: number[] = []
+    for (let i = 1; i < vertices.length; i++) {
+      if (this.isSamePosition(vertices[i], vertices[i - 1])) {
+        duplicates.push(i)
+      }
+    }
+    return duplicates
+  }
+
+  private removeDuplicateVertices(vertices: GeoJSON.Position[]): GeoJSON.Position[] {
+    const result = vertices.filter((vertex, i) => i === 0 || !this.isSamePosition(vertex, vertices[i - 1]))
+    // Drop a trailing vertex that duplicates the first (a sloppily closed ring)
+    while (result.length > 1 && this.isSamePosition(result[result.length - 1], result[0])) {
+      result.pop()
+    }
+    return result
+  }
+
+  private findSpikes(vertices: GeoJSON.Position[]): number[] {
+    if (vertices.length < 3) return []
+
+    const projection = createLocalProjection(vertices[0])
+    const points = vertices.map(vertex => projection.forward(vertex))
+    const threshold = Math.cos((SPIKE_ANGLE_DEGREES * Math.PI) / 180)
+    const spikes: number[] = []
+
+    points.forEach((point, i) => {
+      const prev = points[(i - 1 + points.length) % points.length]
+      const next = points[(i + 1) % points.length]
+      const u = [prev[0] - point[0], prev[1] - point[1]]
+      const v = [next[0] - point[0], next[1] - point[1]]
+      const lengths = Math.hypot(u[0], u[1]) * Math.hypot(v[0], v[1])
+
+      if (lengths > 0 && (u[0] * v[0] + u[1] * v[1]) / lengths > threshold) {
+        spikes.push(i)
+      }
+    })
+
+    return spikes
+  }
+
+  private removeSpikes(vertices: GeoJSON.Position[]): GeoJSON.Position[] {
+    let result = vertices
+    let spikes = this.findSpikes(result)
+
+    // Removing one spike can expose another (e.g. a GPS excursion of several fixes)
+    while (spikes.length > 0 && result.length > 3) {
+      const spike = spikes[0]
+      result = this.removeDuplicateVertices(result.filter((_, i) => i !== spike))
+      spikes = this.findSpikes(result)
+    }
+
+    return result
+  }
+
+  // Intersection helpers (planar in lon/lat, as PostGIS validity checks are)
+
+  private isRingSelfIntersecting(ring: GeoJSON.Position[]): boolean {
+    const edgeCount = ring.length - 1
+
+    // Check each edge against every other non-adjacent edge
+    for (let i = 0; i < edgeCount; i++) {
+      for (let j = i + 2; j < edgeCount; j++) {
+        // Skip the closing edge, which is adjacent to the first
+        if (i === 0 && j === edgeCount - 1) continue
+
+        if (this.doLinesIntersect(ring[i], ring[i + 1], ring[j], ring[j + 1])) {
+          return true
+        }
+      }
+    }
+
+    return false
+  }
+
+  private ringsIntersect(a: GeoJSON.Position[], b: GeoJSON.Position[]): boolean {
+    for (let i = 0; i < a.length - 1; i++) {
+      for (let j = 0; j < b.length - 1; j++) {
+        if (this.doLinesIntersect(a[i], a[i + 1], b[j], b[j + 1])) {
+          return true
+        }
+      }
+    }
+    return false
+  }
+
+  private isPointInRing(point: GeoJSON.Position, ring: GeoJSON.Position[]): boolean {
+    let inside = false
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i]
+      const [xj, yj] = ring[j]
+      if ((yi > point[1]) !== (yj > point[1]) &&
+          point[0] < ((xj - xi) * (point[1] - yi)) / (yj - yi) + xi) {
+        inside = !inside
+      }
+    }
+    return inside
+  }
+
+  /**
+   * Check if two line segments intersect
+   */
+  private doLinesIntersect(p1: number[], q1: number[], p2: number[], q2: number[]): boolean {
+    const orientation = (p: number[], q: number[], r: number[]) => {
+      const val = (q[1] - p[1]) * (r[0] - q[0]) - (q[0] - p[0]) * (r[1] - q[1])
+      if (val === 0) return 0 // collinear
+      return val > 0 ? 1 : 2 // clockwise or counterclockwise
+    }
+
+    const onSegment = (p: number[], q: number[], r: number[]) => {
+      return q[0] <= Math.max(p[0], r[0]) && q[0] >= Math.min(p[0], r[0]) &&
+             q[1] <= Math.max(p[1], r[1]) && q[1] >= Math.min(p[1], r[1])
+    }
+
+    const o1 = orientation(p1, q1, p2)
+    const o2 = orientation(p1, q1, q2)
+    const o3 = orientation(p2, q2, p1)
+    const o4 = orientation(p2, q2, q1)
+
+    // General case
+    if (o1 !== o2 && o3 !== o4) return true
+
+    // Special cases
+    if (o1 === 0 && onSegment(p1, p2, q1)) return true
+    if (o2 === 0 && onSegment(p1, q2, q1)) return true
+    if (o3 === 0 && onSegment(p2, p1, q2)) return true
+    if (o4 === 0 && onSegment(p2, q1, q2)) return true
+
+    return false
+  }
+}
@@ -2,14 +2,54 @@
 
 import { supabase } from '../supabase/client'
 import { PlotService } from './interfaces'
-import { Plot } from '../types'
-import { calculatePolygonArea } from '../utils'
+import {
+  BoundingBox,
+  ClanMemberPlot,
+  Location,
+  Plot,
+  PlotGeometry,
+  PlotLineage,
+  PlotOverlapReport,
+  PlotPage,
+  PlotPageOptions,
+  PlotSnapOptions,
+  PlotSnapResult,
+  PlotSpatialQueryOptions,
+  PlotValidationOptions,
+  PlotWithDistance
+} from '../types'
+import { PlotValidationService } from './plot-validation.service'
+import {
+  calculateGeometryArea,
+  geometryToEWKT,
+  geometryToWKT,
+  lineStringToWKT,
+  parsePostGISGeometry
+} from '../utils/geometry'
+import { snapToNeighbours } from '../utils/snapping'
+
+// Hand-drawn shared edges within this distance (meters) count as touching
+const ADJACENCY_TOLERANCE_METERS = 1
+const DEFAULT_SNAP_TOLERANCE_METERS = 2
+
+const DEFAULT_RADIUS_LIMIT = 50
+const DEFAULT_PAGE_SIZE = 100
+const MAX_PAGE_SIZE = 500
+const DEFAULT_CLAN_PLOTS_LIMIT = 10
 
 export class SupabasePlotService implements PlotService {
-  async createPlot(plotData: Omit<Plot, 'id' | 'created_at' | 'updated_at'>): Promise<Plot> {
+  private validator = new PlotValidationService()
+
+  async createPlot(
+    plotData: Omit<Plot, 'id' | 'created_at' | 'updated_at'>,
+    options: PlotValidationOptions = {}
+  ): Promise<Plot> {
     try {
+      // Validate (and optionally repair) before anything reaches PostGIS
+      const geometry = this.prepareGeometry(plotData.geometry, options)
+
       // Convert GeoJSON to PostGIS format
-      const geometryWKT = this.geoJSONToWKT(plotData.geometry)
+      const geometryWKT = geometryToEWKT(geometry)
 
       const { data, error } = await supabase
         .from('plots')
@@ -43,7 +83,11 @@ export class SupabasePlotService implements PlotService {
     }
   }
 
-  async updatePlot(plotId: string, updates: Partial<Plot>): Promise<Plot> {
+  async updatePlot(
+    plotId: string,
+    updates: Partial<Plot>,
+    options: PlotValidationOptions = {}
+  ): Promise<Plot> {
     try {
       const updateData: any = {
         name: updates.name,
@@ -55,7 +99,7 @@ export class SupabasePlotService implements PlotService {
 
       // Convert geometry if provided
       if (updates.geometry) {
-        updateData.geometry = this.geoJSONToWKT(updates.geometry)
+        updateData.geometry = geometryToEWKT(this.prepareGeometry(updates.geometry, options))
       }
 
       const { data, error } = await supabase
@@ -112,7 +156,9 @@ export class SupabasePlotService implements PlotService {
             status,
             growth_stage,
             sown_date,
-            expected_harvest_date
+            expected_harvest_date,
+            area_fraction,
+            preceded_by
           )
         `)
         .eq('user_id', userId)
@@ -146,7 +192,9 @@ export class SupabasePlotService implements PlotService {
             expected_harvest_date,
             quantity_planted,
             quantity_harvested,
-            notes
+            notes,
+            area_fraction,
+            preceded_by
           )
         `)
         .eq('id', plotId)
@@ -163,10 +211,10 @@ export class SupabasePlotService implements PlotService {
     }
   }
 
-  async calculateArea(geometry: GeoJSON.Polygon): Promise<number> {
+  async calculateArea(geometry: PlotGeometry): Promise<number> {
     try {
       // Use PostGIS for accurate area calculation
-      const geometryWKT = this.geoJSONToWKT(geometry)
+      const geometryWKT = geometryToWKT(geometry)
       
       const { data, error } = await supabase
         .rpc('calculate_polygon_area', {
@@ -176,68 +224,349 @@ export class SupabasePlotService implements PlotService {
       if (error) {
         // Fallback to client-side calculation
         console.warn('PostGIS area calculation failed, using client-side calculation:', error)
-        const coordinates = geometry.coordinates[0]
-        return calculatePolygonArea(coordinates) / 10000 // Convert to hectares
+        return calculateGeometryArea(geometry) / 10000 // Convert to hectares
       }
 
       return data || 0
     } catch (error) {
       console.error('Calculate area error:', error)
       // Fallback to client-side calculation
-      const coordinates = geometry.coordinates[0]
-      return calculatePolygonArea(coordinates) / 10000 // Convert to hectares
+      return calculateGeometryArea(geometry) / 10000 // Convert to hectares
     }
   }
 
-  // Helper method to convert GeoJSON to WKT format for PostGIS
-  private geoJSONToWKT(geometry: GeoJSON.Polygon): string {
-    const coordinates = geometry.coordinates[0]
-    const coordString = coordinates
-      .map(coord => `${coord[0]} ${coord[1]}`)
-      .join(', ')
-    
-    return `POLYGON((${coordString}))`
+  async detectPlotOverlaps(
+    userId: string,
+    geometry: PlotGeometry,
+    excludePlotId?: string
+  ): Promise<PlotOverlapReport> {
+    try {
+      const { data, error } = await supabase
+        .rpc('find_plot_overlaps', {
+          p_user_id: userId,
+          geom_wkt: geometryToWKT(geometry),
+          exclude_plot_id: excludePlotId || null,
+          tolerance_meters: ADJACENCY_TOLERANCE_METERS
+        })
+
+      if (error) {
+        throw new Error(`Failed to detect plot overlaps: ${error.message}`)
+      }
+
+      const rows: any[] = data || []
+      const overlaps = rows
+        .filter(row => row.relation === 'overlap')
+        .map(row => ({
+          plot_id: row.plot_id,
+          plot_name: row.plot_name,
+          overlap_area_hectares: row.overlap_area_hectares || 0,
+          overlap_geometry: parsePostGISGeometry(row.overlap_geometry)
+        }))
+
+      const adjacent = rows
+        .filter(row => row.relation === 'adjacent' && row.shared_boundary_meters > 0)
+        .map(row => ({
+          plot_id: row.plot_id,
+          plot_name: row.plot_name,
+          shared_boundary_meters: row.shared_boundary_meters
+        }))
+
+      return {
+        overlaps,
+        adjacent,
+        total_overlap_hectares: overlaps.reduce((sum, overlap) => sum + overlap.overlap_area_hectares, 0)
+      }
+    } catch (error) {
+      console.error('Detect plot overlaps error:', error)
+      throw error
+    }
   }
 
-  // Helper method to convert PostGIS geometry to GeoJSON
-  private wktToGeoJSON(wkt: string): GeoJSON.Polygon {
-    // Simple WKT parser for POLYGON format
-    const match = wkt.match(/POLYGON\(\(([^)]+)\)\)/)
-    if (!match) {
-      throw new Error('Invalid WKT format')
+  /**
+   * Snap a drawn boundary onto the edges of the user's other plots so
+   * adjacent fields share an exact boundary
+   */
+  async snapToNeighbourEdges(
+    userId: string,
+    geometry: PlotGeometry,
+    options: PlotSnapOptions = {}
+  ): Promise<PlotSnapResult> {
+    try {
+      const plots = await this.getPlots(userId)
+      const neighbours = plots
+        .filter(plot => plot.id !== options.excludePlotId)
+        .map(plot => plot.geometry)
+
+      return snapToNeighbours(
+        geometry,
+        neighbours,
+        options.toleranceMeters || DEFAULT_SNAP_TOLERANCE_METERS
+      )
+    } catch (error) {
+      console.error('Snap to neighbour edges error:', error)
+      throw error
     }
+  }
 
-    const coordString = match[1]
-    const coordinates = coordString
-      .split(', ')
-      .map(coord => {
-        const [lng, lat] = coord.split(' ').map(Number)
-        return [lng, lat]
-      })
+  /**
+   * Active plots within radiusKm of a location, nearest first. Plots the
+   * location falls inside have distance 0.
+   */
+  async getPlotsWithinRadius(
+    location: Location,
+    radiusKm: number,
+    options: PlotSpatialQueryOptions = {}
+  ): Promise<PlotWithDistance[]> {
+    try {
+      this.assertValidLocation(location)
+      if (!(radiusKm > 0)) {
+        throw new Error('Radius must be greater than 0')
+      }
 
-    return {
-      type: 'Polygon',
-      coordinates: [coordinates]
+      const { data, error } = await supabase
+        .rpc('get_plots_within_radius', {
+          latitude: location.latitude,
+          longitude: location.longitude,
+          radius_km: radiusKm,
+          p_user_id: options.userId || null,
+          limit_count: options.limit || DEFAULT_RADIUS_LIMIT
+        })
+
+      if (error) {
+        throw new Error(`Failed to fetch plots within radius: ${error.message}`)
+      }
+
+      return (data || []).map((row: any) => ({
+        ...this.mapDatabasePlotToPlot(row),
+        distance_meters: row.distance_meters
+      }))
+    } catch (error) {
+      console.error('Get plots within radius error:', error)
+      throw error
     }
   }
 
-  // Helper method to map database plot to our Plot type
-  private mapDatabasePlotToPlot(dbPlot: any): Plot {
-    let geometry: GeoJSON.Polygon
+  /**
+   * One page of the active plots intersecting a bounding box, for loading
+   * the plots of a map viewport. Rows come without crops.
+   */
+  async getPlotsInBoundingBox(bounds: BoundingBox, options: PlotPageOptions = {}): Promise<PlotPage> {
+    try {
+      const { north, south, east, west } = bounds
+      if (![north, south, east, west].every(value => Number.isFinite(value)) ||
+          south < -90 || north > 90 || south > north ||
+          west < -180 || west > 180 || east < -180 || east > 180) {
+        throw new Error('Invalid bounding box')
+      }
+
+      const page = Math.max(1, Math.floor(options.page || 1))
+      const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(options.pageSize || DEFAULT_PAGE_SIZE)))
+
+      const { data, error } = await supabase
+        .rpc('get_plots_in_bbox', {
+          west,
+          south,
+          east,
+          north,
+          p_user_id: options.userId || null,
+          page_size: pageSize,
+          page_offset: (page - 1) * pageSize
+        })
+
+      if (error) {
+        throw new Error(`Failed to fetch plots in bounding box: ${error.message}`)
+      }
+
+      const rows: any[] = data || []
+      // Every row carries the total; an empty page past the end has none
+      const total = rows.length > 0 ? Number(rows[0].total_count) : 0
+
+      return {
+        plots: rows.map(row => this.mapDatabasePlotToPlot(row)),
+        page,
+        pageSize,
+        total,
+        hasMore: (page - 1) * pageSize + rows.length < total
+      }
+    } catch (error) {
+      console.error('Get plots in bounding box error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * The plots of a user's clan members nearest to a location
+   */
+  async getNearestClanPlots(
+    userId: string,
+    location: Location,
+    limit: number = DEFAULT_CLAN_PLOTS_LIMIT
+  ): Promise<ClanMemberPlot[]> {
+    try {
+      this.assertValidLocation(location)
+
+      const { data, error } = await supabase
+        .rpc('get_nearest_clan_plots', {
+          p_user_id: userId,
+          latitude: location.latitude,
+          longitude: location.longitude,
+          limit_count: limit
+        })
+
+      if (error) {
+        throw new Error(`Failed to fetch clan plots: ${error.message}`)
+      }
+
+      return (data || []).map((row: any) => ({
+        ...this.mapDatabasePlotToPlot(row),
+        owner_name: row.owner_name,
+        distance_meters: row.distance_meters
+      }))
+    } catch (error) {
+      console.error('Get nearest clan plots error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Split a plot along a line drawn across it. The pieces become new plots
+   * (largest first) and active crops move to the largest one, or to the
+   * piece holding most of their drawn area, clipped to it; the original
+   * plot is archived so its history stays resolvable through lineage.
+   */
+  async splitPlot(plotId: string, line: GeoJSON.LineString, names?: string[]): Promise<Plot[]> {
+    try {
+      if (!line || line.type !== 'LineString' || !Array.isArray(line.coordinates) || line.coordinates.length < 2) {
+        throw new Error('Split line must be a LineString with at least 2 points')
+      }
+
+      const { data, error } = await supabase
+        .rpc('split_plot', {
+          p_plot_id: plotId,
+          blade_wkt: lineStringToWKT(line),
+          piece_names: names && names.length > 0 ? names : null
+        })
+
+      if (error) {
+        throw new Error(`Failed to split plot: ${error.message}`)
+      }
+
+      return this.getPlotsById(data || [])
+    } catch (error) {
+      console.error('Split plot error:', error)
+      throw error
+    }
+  }
 
+  /**
+   * Merge plots into a single new plot that takes over their active crops.
+   * The merged plots are archived and linked to it through lineage.
+   */
+  async mergePlots(plotIds: string[], name?: string): Promise<Plot> {
     try {
-      // Handle different geometry formats from PostGIS
-      if (typeof dbPlot.geometry === 'string') {
-        geometry = this.wktToGeoJSON(dbPlot.geometry)
-      } else if (dbPlot.geometry && dbPlot.geometry.coordinates) {
-        geometry = dbPlot.geometry
+      const uniqueIds = Array.from(new Set(plotIds))
+      if (uniqueIds.length < 2) {
+        throw new Error('At least two plots are needed to merge')
+      }
+
+      const { data, error } = await supabase
+        .rpc('merge_plots', {
+          p_plot_ids: uniqueIds,
+          merged_name: name || null
+        })
+
+      if (error) {
+        throw new Error(`Failed to merge plots: ${error.message}`)
+      }
+
+      return this.getPlot(data)
+    } catch (error) {
+      console.error('Merge plots error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Lineage records connecting a plot to the plots it came from and the
+   * plots that replaced it
+   */
+  async getPlotLineage(plotId: string): Promise<PlotLineage[]> {
+    try {
+      const { data, error } = await supabase
+        .rpc('get_plot_lineage', { p_plot_id: plotId })
+
+      if (error) {
+        throw new Error(`Failed to fetch plot lineage: ${error.message}`)
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('Get plot lineage error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Resolve a plot id, e.g. a pest battle's or XP log's reference to an
+   * archived plot, to the ids of the plots that cover that land today.
+   * A plot that was never split or merged resolves to itself.
+   */
+  async resolvePlotIds(plotId: string): Promise<string[]> {
+    const lineage = await this.getPlotLineage(plotId)
+    const resolved = new Set<string>()
+    const visited = new Set<string>()
+    const pending = [plotId]
+
+    while (pending.length > 0) {
+      const id = pending.pop()!
+      if (visited.has(id)) continue
+      visited.add(id)
+
+      const children = lineage.filter(record => record.parent_plot_id === id)
+      if (children.length === 0) {
+        resolved.add(id)
       } else {
-        // Fallback geometry
-        geometry = {
-          type: 'Polygon',
-          coordinates: [[[0, 0], [0, 1], [1, 1], [1, 0], [0, 0]]]
-        }
+        children.forEach(record => pending.push(record.child_plot_id))
       }
+    }
+
+    return Array.from(resolved)
+  }
+
+  private async getPlotsById(plotIds: string[]): Promise<Plot[]> {
+    if (plotIds.length === 0) return []
+
+    const { data, error } = await supabase
+      .from('plots')
+      .select(`
+        *,
+        crops (
+          id,
+          name,
+          status,
+          growth_stage
+        )
+      `)
+      .in('id', plotIds)
+
+    if (error) {
+      throw new Error(`Failed to fetch plots: ${error.message}`)
+    }
+
+    // Keep the order the ids were given in
+    const plots = (data || []).map(plot => this.mapDatabasePlotToPlot(plot))
+    return plotIds
+      .map(id => plots.find(plot => plot.id === id))
+      .filter((plot): plot is Plot => !!plot)
+  }
+
+  // Helper method to map database plot to our Plot type
+  private mapDatabasePlotToPlot(dbPlot: any): Plot {
+    let geometry: PlotGeometry
+
+    try {
+      // Handle different geometry formats from PostGIS (hex EWKB, WKT or GeoJSON)
+      geometry = parsePostGISGeometry(dbPlot.geometry)
     } catch (error) {
       console.error('Error parsing geometry:', error)
       // Fallback geometry
@@ -266,54 +595,21 @@ export class SupabasePlotService implements PlotService {
   // Additional helper methods for plot management
 
   /**
-   * Get plots within a geographic bounding box
+   * Get all of a user's plots intersecting a geographic bounding box
    */
-  async getPlotsInBounds(
-    userId: string,
-    bounds: {
-      north: number
-      south: number
-      east: number
-      west: number
-    }
-  ): Promise<Plot[]> {
+  async getPlotsInBounds(userId: string, bounds: BoundingBox): Promise<Plot[]> {
     try {
-      const { data, error } = await supabase
-        .from('plots')
-        .select(`
-          *,
-          crops (
-            id,
-            name,
-            status,
-            growth_stage
-          )
-        `)
-        .eq('user_id', userId)
-        .eq('is_active', true)
+      const plots: Plot[] = []
+      let page = 1
+      let result: PlotPage
 
-      if (error) {
-        throw new Error(`Failed to fetch plots in bounds: ${error.message}`)
-      }
+      do {
+        result = await this.getPlotsInBoundingBox(bounds, { userId, page, pageSize: MAX_PAGE_SIZE })
+        plots.push(...result.plots)
+        page++
+      } while (result.hasMore)
 
-      // Filter plots that intersect with the bounds
-      // In a real implementation, this would be done with PostGIS ST_Intersects
-      const filteredPlots = data.filter(plot => {
-        try {
-          const geometry = this.mapDatabasePlotToPlot(plot).geometry
-          const coordinates = geometry.coordinates[0]
-          
-          return coordinates.some(coord => {
-            const [lng, lat] = coord
-            return lng >= bounds.west && lng <= bounds.east &&
-                   lat >= bounds.south && lat <= bounds.north
-          })
-        } catch {
-          return false
-        }
-      })
-
-      return filteredPlots.map(plot => this.mapDatabasePlotToPlot(plot))
+      return plots
     } catch (error) {
       console.error('Get plots in bounds error:', error)
       throw error
@@ -360,119 +656,45 @@ export class SupabasePlotService implements PlotService {
   /**
    * Validate plot geometry
    */
-  validatePlotGeometry(geometry: GeoJSON.Polygon): {
+  validatePlotGeometry(geometry: PlotGeometry, options: PlotValidationOptions = {}): {
     isValid: boolean
     errors: string[]
     area: number
   } {
-    const errors: string[] = []
-    let area = 0
-
-    try {
-      // Check if geometry has coordinates
-      if (!geometry.coordinates || geometry.coordinates.length === 0) {
-        errors.push('Geometry must have coordinates')
-        return { isValid: false, errors, area }
-      }
-
-      const coordinates = geometry.coordinates[0]
-
-      // Check minimum number of points (4 for a closed polygon)
-      if (coordinates.length < 4) {
-        errors.push('Polygon must have at least 4 points')
-      }
-
-      // Check if polygon is closed
-      const firstPoint = coordinates[0]
-      const lastPoint = coordinates[coordinates.length - 1]
-      if (firstPoint[0] !== lastPoint[0] || firstPoint[1] !== lastPoint[1]) {
-        errors.push('Polygon must be closed (first and last points must be the same)')
-      }
-
-      // Calculate area
-      area = calculatePolygonArea(coordinates) / 10000 // Convert to hectares
-
-      // Check minimum area (e.g., 0.01 hectares = 100 square meters)
-      if (area < 0.01) {
-        errors.push('Plot area must be at least 0.01 hectares (100 square meters)')
-      }
-
-      // Check maximum area (e.g., 1000 hectares)
-      if (area > 1000) {
-        errors.push('Plot area cannot exceed 1000 hectares')
-      }
-
-      // Check for self-intersecting polygon (basic check)
-      if (this.isPolygonSelfIntersecting(coordinates)) {
-        errors.push('Polygon cannot intersect with itself')
-      }
-
-    } catch (error) {
-      errors.push('Invalid geometry format')
-    }
+    const result = this.validator.validate(geometry, options)
 
     return {
-      isValid: errors.length === 0,
-      errors,
-      area
+      isValid: result.valid,
+      errors: result.issues
+        .filter(issue => issue.severity === 'error')
+        .map(issue => issue.message),
+      area: result.area_hectares
     }
   }
 
-  /**
-   * Basic check for self-intersecting polygon
-   */
-  private isPolygonSelfIntersecting(coordinates: number[][]): boolean {
-    // This is a simplified check - a full implementation would use more sophisticated algorithms
-    const edges = []
-    
-    for (let i = 0; i < coordinates.length - 1; i++) {
-      edges.push([coordinates[i], coordinates[i + 1]])
-    }
-
-    // Check each edge against every other non-adjacent edge
-    for (let i = 0; i < edges.length; i++) {
-      for (let j = i + 2; j < edges.length; j++) {
-        // Skip adjacent edges and the closing edge
-        if (j === edges.length - 1 && i === 0) continue
-        
-        if (this.doLinesIntersect(edges[i][0], edges[i][1], edges[j][0], edges[j][1])) {
-          return true
-        }
-      }
+  private assertValidLocation(location: Location): void {
+    if (!location ||
+        !(location.latitude >= -90 && location.latitude <= 90) ||
+        !(location.longitude >= -180 && location.longitude <= 180)) {
+      throw new Error('Invalid location coordinates')
     }
-
-    return false
   }
 
   /**
-   * Check if two line segments intersect
+   * Run the geometry through the validator, returning the (possibly repaired)
+   * geometry or throwing with every blocking issue listed
    */
-  private doLinesIntersect(p1: number[], q1: number[], p2: number[], q2: number[]): boolean {
-    const orientation = (p: number[], q: number[], r: number[]) => {
-      const val = (q[1] - p[1]) * (r[0] - q[0]) - (q[0] - p[0]) * (r[1] - q[1])
-      if (val === 0) return 0 // collinear
-      return val > 0 ? 1 : 2 // clockwise or counterclockwise
+  private prepareGeometry(geometry: PlotGeometry, options: PlotValidationOptions): PlotGeometry {
+    const result = this.validator.validate(geometry, options)
+
+    if (!result.valid) {
+      const messages = result.issues
+        .filter(issue => issue.severity === 'error')
+        .map(issue => issue.message)
+        .join('; ')
+      throw new Error(`Invalid plot geometry: ${messages}`)
     }
 
-    const onSegment = (p: number[], q: number[], r: number[]) => {
-      return q[0] <= Math.max(p[0], r[0]) && q[0] >= Math.min(p[0], r[0]) &&
-             q[1] <= Math.max(p[1], r[1]) && q[1] >= Math.min(p[1], r[1])
-    }
-
-    const o1 = orientation(p1, q1, p2)
-    const o2 = orientation(p1, q1, q2)
-    const o3 = orientation(p2, q2, p1)
-    const o4 = orientation(p2, q2, q1)
-
-    // General case
-    if (o1 !== o2 && o3 !== o4) return true
-
-    // Special cases
-    if (o1 === 0 && onSegment(p1, p2, q1)) return true
-    if (o2 === 0 && onSegment(p1, q2, q1)) return true
-    if (o3 === 0 && onSegment(p2, p1, q2)) return true
-    if (o4 === 0 && onSegment(p2, q1, q2)) return true
-
-    return false
+    return result.geometry
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,204 @@
+// Offline service that survives restarts: cached data and the action queue
+// go to a key-value store (AsyncStorage on React Native) and the files
+// queued actions refer to, such as photos, to device file storage. Queued
+// actions are synced by the handler registered for their entity.
+
+import {
+  BaseOfflineService,
+  OfflineAction,
+  OfflineData,
+  OfflineFileStore,
+  OfflineKeyValueStore
+} from '../offline.service'
+
+const KEY_PREFIX = 'agroclash_offline_'
+const QUEUE_KEY = `${KEY_PREFIX}queue`
+// Attempts before a queued action is dropped, with its files
+const MAX_SYNC_ATTEMPTS = 5
+
+export class PersistentOfflineService extends BaseOfflineService {
+  private queue: OfflineAction[] | null = null
+
+  constructor(
+    private store: OfflineKeyValueStore,
+    private fileStore: OfflineFileStore
+  ) {
+    super()
+  }
+
+  async storeData(key: keyof OfflineData, data: any): Promise<void> {
+    await this.store.setItem(`${KEY_PREFIX}${key}`, this.compressData(data))
+  }
+
+  async getData<T>(key: keyof OfflineData): Promise<T | null> {
+    const value = await this.store.getItem(`${KEY_PREFIX}${key}`)
+    return value !== null ? this.decompressData(value) as T : null
+  }
+
+  /**
+   * Clear one key or all cached data. The action queue is kept; clearQueue
+   * empties it.
+   */
+  async clearData(key?: keyof OfflineData): Promise<void> {
+    if (key) {
+      await this.store.removeItem(`${KEY_PREFIX}${key}`)
+      return
+    }
+
+    const keys = await this.store.getAllKeys()
+    for (const storedKey of keys) {
+      if (storedKey.startsWith(KEY_PREFIX) && storedKey !== QUEUE_KEY) {
+        await this.store.removeItem(storedKey)
+      }
+    }
+  }
+
+  async queueAction(action: Omit<OfflineAction, 'id' | 'timestamp' | 'synced' | 'retryCount'>): Promise<void> {
+    const queue = await this.loadQueue()
+    queue.push({
+      id: this.generateId(),
+      timestamp: Date.now(),
+      synced: false,
+      retryCount: 0,
+      ...action
+    })
+    await this.saveQueue()
+  }
+
+  async getQueuedActions(): Promise<OfflineAction[]> {
+    return [...await this.loadQueue()]
+  }
+
+  async markActionSynced(actionId: string): Promise<void> {
+    const action = (await this.loadQueue()).find(queued => queued.id === actionId)
+    if (action) {
+      action.synced = true
+      await this.saveQueue()
+    }
+  }
+
+  async removeAction(actionId: string): Promise<void> {
+    const queue = await this.loadQueue()
+    const action = queue.find(queued => queued.id === actionId)
+    if (!action) return
+
+    this.queue = queue.filter(queued => queued !== action)
+    await this.saveQueue()
+    await this.removeActionFiles(action)
+  }
+
+  async clearQueue(): Promise<void> {
+    const queue = await this.loadQueue()
+    this.queue = []
+    await this.saveQueue()
+    for (const action of queue) {
+      await this.removeActionFiles(action)
+    }
+  }
+
+  async storeFile(content: Uint8Array): Promise<string> {
+    const name = `${this.generateId()}.bin`
+    await this.fileStore.write(name, content)
+    return name
+  }
+
+  async readFile(name: string): Promise<Uint8Array> {
+    return this.fileStore.read(name)
+  }
+
+  async removeFile(name: string): Promise<void> {
+    await this.fileStore.remove(name)
+  }
+
+  /**
+   * Send queued actions in the order they were queued. A failed action
+   * stays queued for the next sync until it has failed MAX_SYNC_ATTEMPTS
+   * times.
+   */
+  async syncData(): Promise<{ success: boolean; syncedActions: number; errors: string[] }> {
+    if (this.syncInProgress) {
+      return { success: false, syncedActions: 0, errors: ['Sync already in progress'] }
+    }
+    if (!this.isOnline()) {
+      return { success: false, syncedActions: 0, errors: ['Device is offline'] }
+    }
+
+    this.syncInProgress = true
+    const errors: string[] = []
+    let syncedActions = 0
+
+    try {
+      const pending = (await this.loadQueue()).filter(action => !action.synced)
+
+      for (const action of pending) {
+        try {
+          const handler = this.syncHandlers.get(action.entity)
+          if (!handler) {
+            throw new Error(`No sync handler for ${action.entity}`)
+          }
+          await handler(action)
+          await this.removeAction(action.id)
+          syncedActions++
+        } catch (error) {
+          errors.push(`Failed to sync ${action.type} ${action.entity} ${action.entityId}: ${error instanceof Error ? error.message : error}`)
+          action.retryCount++
+          if (action.retryCount >= MAX_SYNC_ATTEMPTS) {
+            await this.removeAction(action.id)
+            errors.push(`Dropped ${action.type} ${action.entity} ${action.entityId} after ${MAX_SYNC_ATTEMPTS} failed attempts`)
+          } else {
+            await this.saveQueue()
+          }
+        }
+      }
+
+      await this.storeData('lastSync', Date.now())
+      return { success: errors.length === 0, syncedActions, errors }
+    } catch (error) {
+      console.error('Offline sync error:', error)
+      throw error
+    } finally {
+      this.syncInProgress = false
+    }
+  }
+
+  // The newer of two versions wins; without timestamps the server's does
+  resolveConflicts(localData: any, serverData: any): any {
+    if (!localData) return serverData
+    if (!serverData) return localData
+
+    if (localData.updated_at && serverData.updated_at) {
+      return new Date(localData.updated_at).getTime() > new Date(serverData.updated_at).getTime()
+        ? localData
+        : serverData
+    }
+    return { ...localData, ...serverData, id: localData.id || serverData.id }
+  }
+
+  // Characters of cached data and queue; queued files are not counted
+  async getCacheSize(): Promise<number> {
+    let size = 0
+    for (const key of await this.store.getAllKeys()) {
+      if (!key.startsWith(KEY_PREFIX)) continue
+      const value = await this.store.getItem(key)
+      size += value ? value.length : 0
+    }
+    return size
+  }
+
+  async clearCache(): Promise<void> {
+    await this.clearData()
+    await this.clearQueue()
+  }
+
+  private async loadQueue(): Promise<OfflineAction[]> {
+    if (!this.queue) {
+      const value = await this.store.getItem(QUEUE_KEY)
+      this.queue = (value !== null ? this.decompressData(value) : null) || []
+    }
+    return this.queue!
+  }
+
+  private async saveQueue(): Promise<void> {
+    await this.store.setItem(QUEUE_KEY, this.compressData(this.queue || []))
+  }
+}
@@ -0,0 +1,184 @@
+// Object storage providers: Supabase Storage, and S3 or any store that
+// speaks the S3 API (MinIO, Cloudflare R2) when an endpoint is configured.
+
+import { supabase } from '../../supabase/client'
+import { ApiConfig, ApiConfigManager } from '../../config/api.config'
+import { StorageProvider } from '../interfaces'
+import { presignS3Url, sha256Hex, signS3Request } from '../../utils/sigv4'
+
+type StorageConfig = ApiConfig['services']['storage']['config']
+
+const DEFAULT_BUCKET = 'media'
+
+function getStorageConfig(): StorageConfig {
+  return ApiConfigManager.getInstance().getServiceConfig('storage').config
+}
+
+export class SupabaseStorageProvider implements StorageProvider {
+  readonly name = 'supabase' as const
+  private bucket: string
+
+  constructor(config: StorageConfig = getStorageConfig()) {
+    this.bucket = config.bucket || DEFAULT_BUCKET
+  }
+
+  async upload(path: string, content: Uint8Array, contentType: string): Promise<void> {
+    try {
+      const { error } = await supabase.storage
+        .from(this.bucket)
+        .upload(path, content, { contentType, upsert: true })
+
+      if (error) throw error
+    } catch (error) {
+      console.error('Upload object error:', error)
+      throw error
+    }
+  }
+
+  async download(path: string): Promise<Uint8Array> {
+    try {
+      const { data, error } = await supabase.storage
+        .from(this.bucket)
+        .download(path)
+
+      if (error) throw error
+
+      return new Uint8Array(await data.arrayBuffer())
+    } catch (error) {
+      console.error('Download object error:', error)
+      throw error
+    }
+  }
+
+  async getSignedUrl(path: string, expiresInSeconds: number): Promise<string> {
+    try {
+      const { data, error } = await supabase.storage
+        .from(this.bucket)
+        .createSignedUrl(path, expiresInSeconds)
+
+      if (error) throw error
+
+      return data.signedUrl
+    } catch (error) {
+      console.error('Sign object URL error:', error)
+      throw error
+    }
+  }
+
+  async remove(paths: string[]): Promise<void> {
+    if (paths.length === 0) return
+
+    try {
+      const { error } = await supabase.storage
+        .from(this.bucket)
+        .remove(paths)
+
+      if (error) throw error
+    } catch (error) {
+      console.error('Remove objects error:', error)
+      throw error
+    }
+  }
+}
+
+export class S3StorageProvider implements StorageProvider {
+  readonly name = 'aws-s3' as const
+  private bucket: string
+  private region: string
+  private endpoint?: string
+  private accessKeyId: string
+  private secretAccessKey: string
+
+  constructor(config: StorageConfig = getStorageConfig()) {
+    if (!config.bucket || !config.accessKeyId || !config.secretAccessKey) {
+      throw new Error('S3 storage requires a bucket, access key ID and secret access key')
+    }
+    this.bucket = config.bucket
+    this.region = config.region || 'us-east-1'
+    this.endpoint = config.endpoint ? config.endpoint.replace(/\/+$/, '') : undefined
+    this.accessKeyId = config.accessKeyId
+    this.secretAccessKey = config.secretAccessKey
+  }
+
+  async upload(path: string, content: Uint8Array, contentType: string): Promise<void> {
+    try {
+      const url = this.getObjectUrl(path)
+      const headers = await signS3Request({
+        method: 'PUT',
+        url,
+        region: this.region,
+        credentials: this.getCredentials(),
+        headers: { 'content-type': contentType },
+        payloadHash: await sha256Hex(content)
+      })
+
+      const body = new Blob([new Uint8Array(content)], { type: contentType })
+      const response = await fetch(url, { method: 'PUT', headers, body })
+      await this.checkResponse(response, `upload ${path}`)
+    } catch (error) {
+      console.error('Upload object error:', error)
+      throw error
+    }
+  }
+
+  async download(path: string): Promise<Uint8Array> {
+    try {
+      const url = this.getObjectUrl(path)
+      const headers = await signS3Request({ method: 'GET', url, region: this.region, credentials: this.getCredentials() })
+
+      const response = await fetch(url, { method: 'GET', headers })
+      await this.checkResponse(response, `download ${path}`)
+
+      return new Uint8Array(await response.arrayBuffer())
+    } catch (error) {
+      console.error('Download object error:', error)
+      throw error
+    }
+  }
+
+  async getSignedUrl(path: string, expiresInSeconds: number): Promise<string> {
+    return presignS3Url({
+      method: 'GET',
+      url: this.getObjectUrl(path),
+      region: this.region,
+      credentials: this.getCredentials(),
+      expiresInSeconds
+    })
+  }
+
+  async remove(paths: string[]): Promise<void> {
+    try {
+      // Deleting a missing object succeeds, so retries are safe
+      for (const path of paths) {
+        const url = this.getObjectUrl(path)
+        const headers = await signS3Request({ method: 'DELETE', url, region: this.region, credentials: this.getCredentials() })
+
+        const response = await fetch(url, { method: 'DELETE', headers })
+        await this.checkResponse(response, `remove ${path}`)
+      }
+    } catch (error) {
+      console.error('Remove objects error:', error)
+      throw error
+    }
+  }
+
+  // Path-style URLs on a custom endpoint, virtual-hosted ones on AWS
+  private getObjectUrl(path: string): string {
+    const key = path.split('/').map(encodeURIComponent).join('/')
+    return this.endpoint
+      ? `${this.endpoint}/${this.bucket}/${key}`
+      : `https://${this.bucket}.s3.${this.region}.amazonaws.com/${key}`
+  }
+
+  private getCredentials() {
+    return { accessKeyId: this.accessKeyId, secretAccessKey: this.secretAccessKey }
+  }
+
+  private async checkResponse(response: Response, action: string): Promise<void> {
+    if (!response.ok) {
+      const body = await response.text().catch(() => '')
+      const code = body.match(/<Code>([^<]+)<\/Code>/)
+      throw new Error(`Failed to ${action}: ${response.status}${code ? ` ${code[1]}` : ''}`)
+    }
+  }
+}
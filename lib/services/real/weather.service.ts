@@ -46,6 +46,7 @@ interface OpenWeatherMapForecastResponse {
       icon: string
     }>
     pop: number // Probability of precipitation
+    rain?: { '3h'?: number } // mm over the 3 hours
     dt_txt: string
   }>
   city: {
@@ -180,6 +181,7 @@ export class OpenWeatherMapService {
           if (data.current) {
             historicalData.push({
               location,
+              date: new Date(data.current.dt * 1000).toISOString().split('T')[0],
               current: {
                 temperature: Math.round(data.current.temp),
                 humidity: data.current.humidity,
@@ -271,12 +273,15 @@ export class OpenWeatherMapService {
   private processForecastData(data: OpenWeatherMapForecastResponse): WeatherForecast[] {
     // Group by date and take one forecast per day
     const dailyForecasts = new Map<string, any>()
+    const dailyRain = new Map<string, number>()
 
     data.list.forEach(item => {
       const date = item.dt_txt.split(' ')[0]
       if (!dailyForecasts.has(date)) {
         dailyForecasts.set(date, item)
       }
+      // Rain is summed over all of the day's 3-hour slots
+      dailyRain.set(date, (dailyRain.get(date) || 0) + ((item.rain && item.rain['3h']) || 0))
     })
 
     return Array.from(dailyForecasts.values()).slice(0, 5).map(item => ({
@@ -285,6 +290,7 @@ export class OpenWeatherMapService {
       temperature_max: Math.round(item.main.temp_max),
       humidity: item.main.humidity,
       precipitation_chance: Math.round(item.pop * 100),
+      precipitation_mm: Math.round((dailyRain.get(item.dt_txt.split(' ')[0]) || 0) * 10) / 10,
       description: item.weather[0].description,
       icon: this.mapWeatherIcon(item.weather[0].icon)
     }))
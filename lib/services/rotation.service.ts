@@ -0,0 +1,121 @@
+// Crop rotation planner: proposes next-season crops for a user's plots from
+// each plot's crop history and the rotation rules
+
+import { CropService, PlotService } from './interfaces'
+import { SupabaseCropService } from './crop.service'
+import { SupabasePlotService } from './plot.service'
+import { Crop, RotationEvaluation, RotationPlan, RotationPlanOptions, RotationPlotProposal, RotationRule } from '../types'
+import { DEFAULT_ROTATION_RULES, ROTATION_CANDIDATES } from '../config/rotation-rules'
+import { evaluateRotation } from '../utils/rotation'
+import { getCropSeason, getCropSeasonIndex, getNextCropSeason } from '../utils/soil'
+
+const DEFAULT_ALTERNATIVES = 3
+
+export class RotationPlannerService {
+  constructor(
+    private plotService: PlotService = new SupabasePlotService(),
+    private cropService: CropService = new SupabaseCropService(),
+    private rules: RotationRule[] = DEFAULT_ROTATION_RULES
+  ) {}
+
+  /**
+   * Check a crop for a plot against the plot's history. The season defaults
+   * to the next one.
+   */
+  async evaluateCrop(plotId: string, cropName: string, season?: string): Promise<RotationEvaluation> {
+    try {
+      const history = await this.cropService.getCrops(plotId)
+      return evaluateRotation(history, cropName, season || this.getNextSeason(), this.rules)
+    } catch (error) {
+      console.error('Evaluate crop rotation error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Propose a crop for each of the user's active plots for a season, with
+   * the next best alternatives. Equal scores go to crops proposed for fewer
+   * plots so far, so the farm doesn't end up with a single crop.
+   */
+  async planNextSeason(userId: string, options: RotationPlanOptions = {}): Promise<RotationPlan> {
+    try {
+      const season = options.season || this.getNextSeason()
+      const seasonIndex = getCropSeasonIndex(season)
+      if (seasonIndex === null) {
+        throw new Error(`Unknown season: ${season}`)
+      }
+
+      const candidates = this.getSeasonCandidates(season, options.candidates)
+      const alternatives = options.alternatives !== undefined ? options.alternatives : DEFAULT_ALTERNATIVES
+      const plots = (await this.plotService.getPlots(userId)).filter(plot => plot.is_active !== false)
+      const histories = await Promise.all(plots.map(plot => this.cropService.getCrops(plot.id)))
+      const proposedCount = new Map<string, number>()
+
+      const assignments: RotationPlotProposal[] = plots.map((plot, index) => {
+        const history = histories[index]
+        const ranked = candidates
+          .map((name, order) => ({ order, evaluation: evaluateRotation(history, name, season, this.rules) }))
+          .sort((a, b) =>
+            b.evaluation.score - a.evaluation.score ||
+            b.evaluation.credits.length - a.evaluation.credits.length ||
+            (proposedCount.get(a.evaluation.crop_name) || 0) - (proposedCount.get(b.evaluation.crop_name) || 0) ||
+            a.order - b.order
+          )
+          .map(entry => entry.evaluation)
+
+        const proposal = ranked.length > 0 ? ranked[0] : null
+        if (proposal) {
+          proposedCount.set(proposal.crop_name, (proposedCount.get(proposal.crop_name) || 0) + 1)
+        }
+
+        const previous = this.getPreviousCrop(history, seasonIndex)
+        return {
+          plot_id: plot.id,
+          plot_name: plot.name,
+          previous_crop: previous
+            ? { id: previous.id, name: previous.name, season: getCropSeason(previous.sown_date) }
+            : undefined,
+          proposal,
+          alternatives: ranked.slice(1, 1 + alternatives)
+        }
+      })
+
+      const scores = assignments
+        .filter(assignment => assignment.proposal !== null)
+        .map(assignment => assignment.proposal!.score)
+
+      return {
+        season,
+        assignments,
+        average_score: scores.length > 0
+          ? Math.round(scores.reduce((total, score) => total + score, 0) / scores.length)
+          : null
+      }
+    } catch (error) {
+      console.error('Plan crop rotation error:', error)
+      throw error
+    }
+  }
+
+  private getNextSeason(): string {
+    return getNextCropSeason(getCropSeason(new Date().toISOString().split('T')[0]))
+  }
+
+  // Catalog candidates are limited to the seasons they are sown in; crops
+  // the caller names are taken as suited to the season
+  private getSeasonCandidates(season: string, names?: string[]): string[] {
+    if (names) return names
+
+    const seasonName = season.trim().toLowerCase().split(' ')[1]
+    return ROTATION_CANDIDATES
+      .filter(candidate => candidate.seasons.includes(seasonName))
+      .map(candidate => candidate.name)
+  }
+
+  // Latest crop sown before the season
+  private getPreviousCrop(history: Crop[], seasonIndex: number): Crop | undefined {
+    return history
+      .filter(crop => (getCropSeasonIndex(getCropSeason(crop.sown_date)) as number) < seasonIndex)
+      .sort((a, b) => b.sown_date.localeCompare(a.sown_date))[0]
+  }
+}
@@ -0,0 +1,520 @@
+// Soil Service Implementation using Supabase
+// Lab-test history per plot, CSV import of lab reports and season trends
+
+import { supabase } from '../supabase/client'
+import { SoilService } from './interfaces'
+import {
+  SoilCsvImportOptions,
+  SoilCsvImportResult,
+  SoilCsvRowResult,
+  SoilMicronutrients,
+  SoilParameter,
+  SoilTest,
+  SoilTrend,
+  SoilTrendPoint
+} from '../types'
+import { detectDelimiter, parseCSV } from '../utils/csv'
+import { getCropSeason, STABLE_CHANGE_RATIO } from '../utils/soil'
+
+type SoilTestInput = Omit<SoilTest, 'id' | 'created_at'>
+type MetaField = 'sampled_at' | 'sample_id' | 'lab_name' | 'depth_cm' | 'notes'
+type UnitGroup = 'macro' | 'micro' | 'carbon' | 'ec'
+
+interface ColumnMapping {
+  field: SoilParameter | MetaField
+  factor: number // multiplies the raw value into our storage unit
+}
+
+const MICRONUTRIENTS: Array<keyof SoilMicronutrients> = ['zinc', 'iron', 'manganese', 'copper', 'boron', 'sulphur']
+
+const ALL_PARAMETERS: SoilParameter[] = [
+  'ph',
+  'nitrogen_kg_ha',
+  'phosphorus_kg_ha',
+  'potassium_kg_ha',
+  'organic_carbon_pct',
+  'ec_ds_m',
+  ...MICRONUTRIENTS
+]
+
+// Column names used by common lab reports, after dropping units,
+// punctuation and words like "available" (see normalizeHeader)
+const COLUMN_ALIASES: Record<string, { field: SoilParameter | MetaField; factor?: number; group?: UnitGroup }> = {
+  date: { field: 'sampled_at' },
+  sampledate: { field: 'sampled_at' },
+  samplingdate: { field: 'sampled_at' },
+  dateofsampling: { field: 'sampled_at' },
+  collectiondate: { field: 'sampled_at' },
+  sampleid: { field: 'sample_id' },
+  sampleno: { field: 'sample_id' },
+  labno: { field: 'sample_id' },
+  labid: { field: 'sample_id' },
+  lab: { field: 'lab_name' },
+  labname: { field: 'lab_name' },
+  laboratory: { field: 'lab_name' },
+  depth: { field: 'depth_cm' },
+  sampledepth: { field: 'depth_cm' },
+  notes: { field: 'notes' },
+  remarks: { field: 'notes' },
+  comments: { field: 'notes' },
+  ph: { field: 'ph' },
+  n: { field: 'nitrogen_kg_ha', group: 'macro' },
+  nitrogen: { field: 'nitrogen_kg_ha', group: 'macro' },
+  p: { field: 'phosphorus_kg_ha', group: 'macro' },
+  phosphorus: { field: 'phosphorus_kg_ha', group: 'macro' },
+  p2o5: { field: 'phosphorus_kg_ha', factor: 0.4364, group: 'macro' }, // P2O5 to P
+  k: { field: 'potassium_kg_ha', group: 'macro' },
+  potassium: { field: 'potassium_kg_ha', group: 'macro' },
+  k2o: { field: 'potassium_kg_ha', factor: 0.8301, group: 'macro' }, // K2O to K
+  oc: { field: 'organic_carbon_pct', group: 'carbon' },
+  organiccarbon: { field: 'organic_carbon_pct', group: 'carbon' },
+  om: { field: 'organic_carbon_pct', factor: 1 / 1.724, group: 'carbon' }, // van Bemmelen factor
+  organicmatter: { field: 'organic_carbon_pct', factor: 1 / 1.724, group: 'carbon' },
+  ec: { field: 'ec_ds_m', group: 'ec' },
+  electricalconductivity: { field: 'ec_ds_m', group: 'ec' },
+  zn: { field: 'zinc', group: 'micro' },
+  zinc: { field: 'zinc', group: 'micro' },
+  fe: { field: 'iron', group: 'micro' },
+  iron: { field: 'iron', group: 'micro' },
+  mn: { field: 'manganese', group: 'micro' },
+  manganese: { field: 'manganese', group: 'micro' },
+  cu: { field: 'copper', group: 'micro' },
+  copper: { field: 'copper', group: 'micro' },
+  b: { field: 'boron', group: 'micro' },
+  boron: { field: 'boron', group: 'micro' },
+  s: { field: 'sulphur', group: 'micro' },
+  sulphur: { field: 'sulphur', group: 'micro' },
+  sulfur: { field: 'sulphur', group: 'micro' }
+}
+
+// Unit conversions into the storage unit of each group; the first entry is
+// assumed when a header names no unit. ppm to kg/ha assumes a 15 cm plough
+// layer at 1.5 g/cm3 bulk density (2.24 million kg of soil per hectare).
+const UNIT_FACTORS: Record<UnitGroup, Array<[RegExp, number]>> = {
+  macro: [[/kg\/ha/, 1], [/ppm|mg\/kg/, 2.24], [/lbs?\/ac/, 1.121]],
+  micro: [[/ppm|mg\/kg/, 1], [/kg\/ha/, 1 / 2.24]],
+  carbon: [[/%/, 1], [/g\/kg/, 0.1]],
+  ec: [[/ds\/m|ms\/cm|mmhos/, 1], [/[uµ]s\/cm/, 0.001]]
+}
+
+// Values below the lab's detection limit ("<0.1") or missing ("ND", "-")
+const MISSING_VALUES = ['', '-', 'na', 'n/a', 'nd', 'nil']
+
+export class SupabaseSoilService implements SoilService {
+  async addSoilTest(test: SoilTestInput): Promise<SoilTest> {
+    try {
+      const errors = this.validateSoilTest(test)
+      if (errors.length > 0) {
+        throw new Error(`Invalid soil test: ${errors.join('; ')}`)
+      }
+
+      const { data, error } = await supabase
+        .from('soil_tests')
+        .insert(this.toDatabaseRow(test))
+        .select()
+        .single()
+
+      if (error) {
+        if (error.code === '23505') {
+          throw new Error(`A soil test sampled on ${test.sampled_at} is already recorded for this plot`)
+        }
+        throw new Error(`Failed to add soil test: ${error.message}`)
+      }
+
+      return this.mapDatabaseSoilTest(data)
+    } catch (error) {
+      console.error('Add soil test error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Soil tests of a plot, newest first, optionally limited to a date range
+   */
+  async getSoilTests(plotId: string, range: { from?: string; to?: string } = {}): Promise<SoilTest[]> {
+    try {
+      let query = supabase
+        .from('soil_tests')
+        .select('*')
+        .eq('plot_id', plotId)
+
+      if (range.from) query = query.gte('sampled_at', range.from)
+      if (range.to) query = query.lte('sampled_at', range.to)
+
+      const { data, error } = await query.order('sampled_at', { ascending: false })
+
+      if (error) {
+        throw new Error(`Failed to fetch soil tests: ${error.message}`)
+      }
+
+      return (data || []).map(test => this.mapDatabaseSoilTest(test))
+    } catch (error) {
+      console.error('Get soil tests error:', error)
+      throw error
+    }
+  }
+
+  async getLatestSoilTest(plotId: string): Promise<SoilTest | null> {
+    try {
+      const { data, error } = await supabase
+        .from('soil_tests')
+        .select('*')
+        .eq('plot_id', plotId)
+        .order('sampled_at', { ascending: false })
+        .limit(1)
+
+      if (error) {
+        throw new Error(`Failed to fetch latest soil test: ${error.message}`)
+      }
+
+      return data && data.length > 0 ? this.mapDatabaseSoilTest(data[0]) : null
+    } catch (error) {
+      console.error('Get latest soil test error:', error)
+      throw error
+    }
+  }
+
+  async deleteSoilTest(testId: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('soil_tests')
+        .delete()
+        .eq('id', testId)
+
+      if (error) {
+        throw new Error(`Failed to delete soil test: ${error.message}`)
+      }
+    } catch (error) {
+      console.error('Delete soil test error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Import the rows of a lab report CSV as soil tests of a plot. Column
+   * names and units are recognised from common report layouts and values
+   * are converted to our units; each row succeeds or fails on its own.
+   */
+  async importSoilTestsCsv(
+    plotId: string,
+    csv: string,
+    options: SoilCsvImportOptions = {}
+  ): Promise<SoilCsvImportResult> {
+    try {
+      const delimiter = detectDelimiter(csv)
+      const [header, ...records] = parseCSV(csv, delimiter)
+      if (!header || records.length === 0) {
+        throw new Error('CSV file has no data rows')
+      }
+
+      const mappings = header.map(column => this.mapColumn(column))
+      if (!mappings.some(mapping => mapping && mapping.field === 'sampled_at')) {
+        throw new Error('CSV file has no sampling date column')
+      }
+
+      const rows: SoilCsvRowResult[] = []
+      for (let index = 0; index < records.length; index++) {
+        const result = this.parseRow(plotId, records[index], mappings, index + 2, delimiter, options)
+
+        if (result.status === 'valid' && !options.dryRun) {
+          try {
+            result.test = await this.addSoilTest(result.test as SoilTestInput)
+            result.status = 'created'
+          } catch (error) {
+            result.status = 'failed'
+            result.errors.push(error instanceof Error ? error.message : String(error))
+          }
+        }
+        rows.push(result)
+      }
+
+      const failed = rows.filter(row => row.status === 'failed').length
+      return {
+        dryRun: !!options.dryRun,
+        total: rows.length,
+        succeeded: rows.length - failed,
+        failed,
+        rows,
+        unmappedColumns: header.filter((_, i) => !mappings[i])
+      }
+    } catch (error) {
+      console.error('Import soil tests error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * How each soil value has moved across cropping seasons. Samples taken in
+   * the same season are averaged; parameters with fewer than two seasons of
+   * data are left out.
+   */
+  async getSoilTrends(plotId: string, parameters: SoilParameter[] = ALL_PARAMETERS): Promise<SoilTrend[]> {
+    try {
+      const tests = (await this.getSoilTests(plotId))
+        .sort((a, b) => a.sampled_at.localeCompare(b.sampled_at))
+
+      return parameters
+        .map(parameter => this.buildTrend(parameter, tests))
+        .filter((trend): trend is SoilTrend => !!trend)
+    } catch (error) {
+      console.error('Get soil trends error:', error)
+      throw error
+    }
+  }
+
+  private buildTrend(parameter: SoilParameter, tests: SoilTest[]): SoilTrend | null {
+    const seasons = new Map<string, { sum: number; samples: number; sampled_at: string }>()
+
+    tests.forEach(test => {
+      const value = this.getValue(test, parameter)
+      if (value === undefined) return
+
+      const season = getCropSeason(test.sampled_at)
+      const entry = seasons.get(season) || { sum: 0, samples: 0, sampled_at: test.sampled_at }
+      entry.sum += value
+      entry.samples++
+      entry.sampled_at = test.sampled_at
+      seasons.set(season, entry)
+    })
+
+    if (seasons.size < 2) return null
+
+    const points: SoilTrendPoint[] = Array.from(seasons.entries()).map(([season, entry]) => ({
+      season,
+      sampled_at: entry.sampled_at,
+      value: entry.sum / entry.samples,
+      samples: entry.samples
+    }))
+
+    // Least-squares slope of value against time, in units per year
+    const years = points.map(point => Date.parse(point.sampled_at) / (365.25 * 24 * 60 * 60 * 1000))
+    const meanYear = years.reduce((sum, year) => sum + year, 0) / years.length
+    const meanValue = points.reduce((sum, point) => sum + point.value, 0) / points.length
+    let covariance = 0
+    let variance = 0
+    points.forEach((point, i) => {
+      covariance += (years[i] - meanYear) * (point.value - meanValue)
+      variance += (years[i] - meanYear) ** 2
+    })
+
+    const first = points[0].value
+    const change = points[points.length - 1].value - first
+    const stable = Math.abs(change) <= Math.abs(first) * STABLE_CHANGE_RATIO
+
+    return {
+      parameter,
+      points,
+      change,
+      change_per_year: variance > 0 ? covariance / variance : 0,
+      direction: stable ? 'stable' : change > 0 ? 'rising' : 'falling'
+    }
+  }
+
+  private getValue(test: SoilTest, parameter: SoilParameter): number | undefined {
+    const value = (MICRONUTRIENTS as string[]).includes(parameter)
+      ? test.micronutrients[parameter as keyof SoilMicronutrients]
+      : test[parameter as Exclude<SoilParameter, keyof SoilMicronutrients>]
+    return value === undefined || value === null ? undefined : Number(value)
+  }
+
+  /**
+   * Recognise a CSV column by name and work out the factor that converts
+   * its unit into ours. Returns null for columns we don't import.
+   */
+  private mapColumn(header: string): ColumnMapping | null {
+    const lower = header.toLowerCase().trim()
+    const alias = COLUMN_ALIASES[this.normalizeHeader(lower)]
+    if (!alias) return null
+
+    let factor = alias.factor || 1
+    if (alias.group) {
+      const units = UNIT_FACTORS[alias.group]
+      const unit = units.find(([pattern]) => pattern.test(lower))
+      if (unit) {
+        factor *= unit[1]
+      } else if (/[([]/.test(lower)) {
+        // A unit we can't convert is worse than no column at all
+        return null
+      }
+    }
+
+    return { field: alias.field, factor }
+  }
+
+  // "Available P2O5 (kg/ha)" -> "p2o5", "Soil pH (1:2.5)" -> "ph"
+  private normalizeHeader(header: string): string {
+    return header
+      .replace(/\(.*?\)|\[.*?\]/g, '')
+      .replace(/kg\/ha|mg\/kg|g\/kg|ppm|lbs?\/ac(re)?|ds\/m|ms\/cm|mmhos(\/cm)?|[uµ]s\/cm|%/g, '')
+      .replace(/\b(available|avail|soil|total|dtpa|extractable|value)\b/g, '')
+      .replace(/[^a-z0-9]/g, '')
+  }
+
+  private parseRow(
+    plotId: string,
+    record: string[],
+    mappings: Array<ColumnMapping | null>,
+    row: number,
+    delimiter: string,
+    options: SoilCsvImportOptions
+  ): SoilCsvRowResult {
+    const errors: string[] = []
+    const warnings: string[] = []
+    const test: SoilTestInput = { plot_id: plotId, sampled_at: '', micronutrients: {} }
+
+    mappings.forEach((mapping, i) => {
+      if (!mapping) return
+      const raw = (record[i] || '').trim()
+
+      switch (mapping.field) {
+        case 'sampled_at': {
+          const date = this.parseDate(raw, options.dateFormat || 'DMY')
+          if (date) test.sampled_at = date
+          else errors.push(`Invalid sampling date: "${raw}"`)
+          return
+        }
+        case 'sample_id':
+        case 'lab_name':
+        case 'notes':
+          if (raw) test[mapping.field] = raw
+          return
+      }
+
+      if (MISSING_VALUES.includes(raw.toLowerCase())) return
+
+      // Semicolon-separated exports often use decimal commas
+      const text = delimiter !== ',' ? raw.replace(/^([<>]?\s*\d+),(\d+)$/, '$1.$2') : raw
+      const match = text.match(/^([<>])?\s*(-?\d+(?:\.\d+)?)$/)
+      if (!match) {
+        errors.push(`Invalid number for ${mapping.field}: "${raw}"`)
+        return
+      }
+      if (match[1]) {
+        warnings.push(`${mapping.field} reported as "${raw}"; using ${match[2]}`)
+      }
+
+      if (mapping.field === 'depth_cm') {
+        test.depth_cm = Number(match[2])
+        return
+      }
+
+      const value = Math.round(Number(match[2]) * mapping.factor * 1000) / 1000
+      if ((MICRONUTRIENTS as string[]).includes(mapping.field)) {
+        test.micronutrients[mapping.field as keyof SoilMicronutrients] = value
+      } else {
+        test[mapping.field as Exclude<SoilParameter, keyof SoilMicronutrients>] = value
+      }
+    })
+
+    if (errors.length === 0) {
+      errors.push(...this.validateSoilTest(test))
+    }
+
+    return { row, status: errors.length > 0 ? 'failed' : 'valid', test, errors, warnings }
+  }
+
+  /**
+   * Parse ISO (YYYY-MM-DD) dates and day/month/year dates separated by
+   * slashes, dashes or dots in the given order
+   */
+  private parseDate(value: string, order: 'DMY' | 'MDY'): string | null {
+    let year: number
+    let month: number
+    let day: number
+
+    const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/)
+    const local = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/)
+    if (iso) {
+      [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+    } else if (local) {
+      const [first, second] = [Number(local[1]), Number(local[2])]
+      ;[day, month] = order === 'DMY' ? [first, second] : [second, first]
+      year = Number(local[3]) + (local[3].length === 2 ? 2000 : 0)
+    } else {
+      return null
+    }
+
+    const date = new Date(Date.UTC(year, month - 1, day))
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+      return null
+    }
+    return date.toISOString().split('T')[0]
+  }
+
+  private validateSoilTest(test: Partial<SoilTestInput>): string[] {
+    const errors: string[] = []
+
+    if (!test.plot_id) {
+      errors.push('Plot is required')
+    }
+    if (!test.sampled_at || !/^\d{4}-\d{2}-\d{2}$/.test(test.sampled_at)) {
+      errors.push('Sampling date is required (YYYY-MM-DD)')
+    } else if (test.sampled_at > new Date().toISOString().split('T')[0]) {
+      errors.push('Sampling date cannot be in the future')
+    }
+
+    const values = ALL_PARAMETERS
+      .map(parameter => ({
+        parameter,
+        value: (MICRONUTRIENTS as string[]).includes(parameter)
+          ? (test.micronutrients || {})[parameter as keyof SoilMicronutrients]
+          : test[parameter as Exclude<SoilParameter, keyof SoilMicronutrients>]
+      }))
+      .filter(({ value }) => value !== undefined && value !== null)
+
+    if (values.length === 0) {
+      errors.push('Soil test has no measurements')
+    }
+    values.forEach(({ parameter, value }) => {
+      if (!Number.isFinite(value) || (value as number) < 0) {
+        errors.push(`${parameter} must be a non-negative number`)
+      }
+    })
+    if (test.ph !== undefined && test.ph !== null && test.ph > 14) {
+      errors.push('pH must be between 0 and 14')
+    }
+
+    return errors
+  }
+
+  private toDatabaseRow(test: SoilTestInput): Record<string, any> {
+    return {
+      plot_id: test.plot_id,
+      sampled_at: test.sampled_at,
+      lab_name: test.lab_name,
+      sample_id: test.sample_id,
+      depth_cm: test.depth_cm,
+      ph: test.ph,
+      nitrogen_kg_ha: test.nitrogen_kg_ha,
+      phosphorus_kg_ha: test.phosphorus_kg_ha,
+      potassium_kg_ha: test.potassium_kg_ha,
+      organic_carbon_pct: test.organic_carbon_pct,
+      ec_ds_m: test.ec_ds_m,
+      micronutrients: test.micronutrients || {},
+      notes: test.notes
+    }
+  }
+
+  // DECIMAL columns come back from PostgREST as strings
+  private mapDatabaseSoilTest(dbTest: any): SoilTest {
+    const numeric = (value: any) => (value === null || value === undefined ? undefined : Number(value))
+
+    return {
+      id: dbTest.id,
+      plot_id: dbTest.plot_id,
+      sampled_at: dbTest.sampled_at,
+      lab_name: dbTest.lab_name || undefined,
+      sample_id: dbTest.sample_id || undefined,
+      depth_cm: numeric(dbTest.depth_cm),
+      ph: numeric(dbTest.ph),
+      nitrogen_kg_ha: numeric(dbTest.nitrogen_kg_ha),
+      phosphorus_kg_ha: numeric(dbTest.phosphorus_kg_ha),
+      potassium_kg_ha: numeric(dbTest.potassium_kg_ha),
+      organic_carbon_pct: numeric(dbTest.organic_carbon_pct),
+      ec_ds_m: numeric(dbTest.ec_ds_m),
+      micronutrients: dbTest.micronutrients || {},
+      notes: dbTest.notes || undefined,
+      created_at: dbTest.created_at
+    }
+  }
+}
@@ -0,0 +1,219 @@
+// Walk-the-boundary plot capture: records GPS fixes while a farmer walks
+// a field perimeter and turns the track into a plot polygon
+
+import {
+  GPSFix,
+  TrackFixRejection,
+  TrackFixResult,
+  TrackPolygonResult,
+  TrackRecordingOptions
+} from '../types'
+import { PlotValidationService } from './plot-validation.service'
+import { createLocalProjection, geodesicDistance } from '../utils/geodesic'
+import { calculateGeometryArea, calculateGeometryPerimeter, closeRing } from '../utils/geometry'
+import { simplifyRing } from '../utils/simplify'
+
+const DEFAULT_OPTIONS: Required<TrackRecordingOptions> = {
+  maxAccuracyMeters: 20,
+  maxSpeedMetersPerSecond: 4, // brisk walk plus GPS jitter
+  minSpacingMeters: 1,
+  smoothing: true,
+  simplifyToleranceMeters: 2,
+  maxClosingGapMeters: 25
+}
+
+// After this many fixes in a row are rejected as too fast, the last accepted
+// fix was probably the outlier, so the track is re-anchored
+const MAX_SPEED_REJECTIONS = 5
+
+export class TrackRecordingService {
+  private settings: Required<TrackRecordingOptions>
+  private validator = new PlotValidationService()
+  private fixes: GPSFix[] = []
+  private total = 0
+  private rejected: Record<TrackFixRejection, number> = this.emptyRejections()
+  private speedRejectionStreak = 0
+
+  constructor(options: TrackRecordingOptions = {}) {
+    this.settings = { ...DEFAULT_OPTIONS, ...options }
+  }
+
+  /**
+   * Add a fix from the location stream. Outliers are dropped immediately,
+   * so the accepted track can be drawn live on the map.
+   */
+  addFix(fix: GPSFix): TrackFixResult {
+    this.total++
+
+    const reason = this.checkFix(fix)
+    if (reason) {
+      this.rejected[reason]++
+      return { accepted: false, reason }
+    }
+
+    this.fixes.push(fix)
+    return { accepted: true }
+  }
+
+  addFixes(fixes: GPSFix[]): TrackFixResult[] {
+    return fixes.map(fix => this.addFix(fix))
+  }
+
+  getAcceptedFixes(): GPSFix[] {
+    return [...this.fixes]
+  }
+
+  /**
+   * Distance walked so far along the accepted fixes, in meters
+   */
+  getDistanceWalked(): number {
+    let distance = 0
+    for (let i = 1; i < this.fixes.length; i++) {
+      distance += geodesicDistance(this.toPosition(this.fixes[i - 1]), this.toPosition(this.fixes[i]))
+    }
+    return distance
+  }
+
+  reset(): void {
+    this.fixes = []
+    this.total = 0
+    this.rejected = this.emptyRejections()
+    this.speedRejectionStreak = 0
+  }
+
+  /**
+   * Turn the recorded track into a closed, simplified polygon ready for
+   * PlotService.createPlot. The area error band assumes every boundary
+   * point may be off by the RMS accuracy of the accepted fixes.
+   */
+  buildPolygon(): TrackPolygonResult {
+    if (this.fixes.length < 3) {
+      throw new Error('Track needs at least 3 accurate GPS fixes to form a plot')
+    }
+
+    const warnings: string[] = []
+    const projection = createLocalProjection(this.toPosition(this.fixes[0]))
+    let points = this.fixes.map(fix => projection.forward(this.toPosition(fix)))
+
+    const first = this.fixes[0]
+    const last = this.fixes[this.fixes.length - 1]
+    const closingGap = geodesicDistance(this.toPosition(last), this.toPosition(first))
+    if (closingGap > this.settings.maxClosingGapMeters) {
+      warnings.push(`Track ends ${Math.round(closingGap)} m from where it started; the gap was closed with a straight edge`)
+    }
+
+    if (this.settings.smoothing) {
+      points = this.smooth(points)
+    }
+
+    const simplified = simplifyRing(points, this.settings.simplifyToleranceMeters)
+    if (simplified.length < 3) {
+      throw new Error('Track does not enclose an area; walk the full boundary of the plot')
+    }
+
+    const validation = this.validator.validate(
+      { type: 'Polygon', coordinates: [closeRing(simplified.map(point => projection.inverse(point)))] },
+      { autoFix: true }
+    )
+    if (!validation.valid) {
+      const messages = validation.issues
+        .filter(issue => issue.severity === 'error')
+        .map(issue => issue.message)
+        .join('; ')
+      throw new Error(`Track does not form a valid plot boundary: ${messages}`)
+    }
+
+    const geometry = validation.geometry as GeoJSON.Polygon
+    const perimeter = calculateGeometryPerimeter(geometry)
+    const rmsAccuracy = Math.sqrt(
+      this.fixes.reduce((sum, fix) => sum + fix.accuracy * fix.accuracy, 0) / this.fixes.length
+    )
+
+    return {
+      geometry,
+      area_hectares: calculateGeometryArea(geometry) / 10000,
+      area_error_hectares: (perimeter * rmsAccuracy) / 10000,
+      perimeter_meters: perimeter,
+      closing_gap_meters: closingGap,
+      fixes: {
+        total: this.total,
+        accepted: this.fixes.length,
+        rejected: { ...this.rejected }
+      },
+      warnings
+    }
+  }
+
+  private checkFix(fix: GPSFix): TrackFixRejection | null {
+    if (!(fix.accuracy <= this.settings.maxAccuracyMeters)) {
+      return 'low_accuracy'
+    }
+
+    const previous = this.fixes[this.fixes.length - 1]
+    if (!previous) return null
+
+    const elapsed = (Date.parse(fix.timestamp) - Date.parse(previous.timestamp)) / 1000
+    if (!(elapsed > 0)) {
+      return 'out_of_order'
+    }
+
+    const distance = geodesicDistance(this.toPosition(previous), this.toPosition(fix))
+
+    // Only movement beyond what the two accuracy radii explain counts as speed
+    const unexplained = distance - previous.accuracy - fix.accuracy
+    if (unexplained / elapsed > this.settings.maxSpeedMetersPerSecond) {
+      this.speedRejectionStreak++
+      if (this.speedRejectionStreak < MAX_SPEED_REJECTIONS) {
+        return 'too_fast'
+      }
+      // Every fix disagrees with the previous one: drop that one instead and
+      // check this fix against the one now last
+      this.fixes.pop()
+      this.rejected.too_fast++
+      this.speedRejectionStreak = 0
+      return this.checkFix(fix)
+    }
+    this.speedRejectionStreak = 0
+
+    if (distance < this.settings.minSpacingMeters) {
+      // Standing still: keep whichever of the two fixes is more accurate
+      if (fix.accuracy < previous.accuracy) {
+        this.fixes[this.fixes.length - 1] = fix
+      }
+      return 'duplicate'
+    }
+
+    return null
+  }
+
+  /**
+   * Accuracy-weighted average of each point with its neighbours around the
+   * ring, which evens out GPS jitter without cutting corners much
+   */
+  private smooth(points: Array<[number, number]>): Array<[number, number]> {
+    const weights = this.fixes.map(fix => 1 / Math.max(fix.accuracy, 1) ** 2)
+    const n = points.length
+
+    return points.map((point, i) => {
+      const neighbours = [(i - 1 + n) % n, i, (i + 1) % n]
+      let x = 0
+      let y = 0
+      let total = 0
+      neighbours.forEach(j => {
+        const weight = j === i ? 2 * weights[j] : weights[j]
+        x += points[j][0] * weight
+        y += points[j][1] * weight
+        total += weight
+      })
+      return [x / total, y / total]
+    })
+  }
+
+  private toPosition(fix: GPSFix): GeoJSON.Position {
+    return [fix.longitude, fix.latitude]
+  }
+
+  private emptyRejections(): Record<TrackFixRejection, number> {
+    return { low_accuracy: 0, too_fast: 0, duplicate: 0, out_of_order: 0 }
+  }
+}
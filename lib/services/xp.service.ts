@@ -0,0 +1,147 @@
+// XP Service Implementation using Supabase
+// XP is added by the update_user_xp function, which also logs the award,
+// levels the user up and keeps their clan's total in step.
+
+import { supabase } from '../supabase/client'
+import { XPService } from './interfaces'
+import { XPAward, XPLog } from '../types'
+import { calculateLevelFromXP, getXPForLevel } from '../utils'
+
+export class SupabaseXPService implements XPService {
+  async awardXP(userId: string, actionType: string, xpAmount: number, description?: string): Promise<XPLog> {
+    try {
+      const { error } = await supabase
+        .rpc('update_user_xp', {
+          user_id: userId,
+          xp_amount: xpAmount,
+          action_type: actionType,
+          description: description || null
+        })
+
+      if (error) {
+        throw new Error(`Failed to award XP: ${error.message}`)
+      }
+
+      // The log update_user_xp just wrote
+      const { data, error: logError } = await supabase
+        .from('xp_logs')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('action_type', actionType)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .single()
+
+      if (logError) {
+        throw new Error(`Failed to fetch XP log: ${logError.message}`)
+      }
+
+      return this.mapDatabaseXPLog(data)
+    } catch (error) {
+      console.error('Award XP error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Award XP at most once per idempotency key. The key is saved as a
+   * completed lifecycle effect in the same transaction that adds the XP;
+   * a key awarded before comes back with what it awarded then.
+   */
+  async awardXPOnce(
+    key: string,
+    userId: string,
+    actionType: string,
+    xpAmount: number,
+    description?: string
+  ): Promise<XPAward> {
+    try {
+      const { data, error } = await supabase
+        .rpc('award_xp_once', {
+          p_idempotency_key: key,
+          p_user_id: userId,
+          p_xp_amount: xpAmount,
+          p_action_type: actionType,
+          p_description: description || null
+        })
+
+      if (error) {
+        throw new Error(`Failed to award XP for ${key}: ${error.message}`)
+      }
+
+      return {
+        xp_log_id: data.xp_log_id || undefined,
+        xp_awarded: data.xp_awarded,
+        applied: data.applied
+      }
+    } catch (error) {
+      console.error('Award XP once error:', error)
+      throw error
+    }
+  }
+
+  calculateLevel(xp: number): number {
+    return calculateLevelFromXP(xp)
+  }
+
+  async getXPLogs(userId: string, limit: number = 50): Promise<XPLog[]> {
+    try {
+      const { data, error } = await supabase
+        .from('xp_logs')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(limit)
+
+      if (error) {
+        throw new Error(`Failed to fetch XP logs: ${error.message}`)
+      }
+
+      return (data || []).map(log => this.mapDatabaseXPLog(log))
+    } catch (error) {
+      console.error('Get XP logs error:', error)
+      throw error
+    }
+  }
+
+  async getLevelProgress(userId: string): Promise<{ currentLevel: number; currentXP: number; xpToNextLevel: number }> {
+    try {
+      const { data, error } = await supabase
+        .from('users')
+        .select('xp')
+        .eq('id', userId)
+        .single()
+
+      if (error) {
+        throw new Error(`Failed to fetch user XP: ${error.message}`)
+      }
+
+      const currentXP = data.xp || 0
+      const currentLevel = this.calculateLevel(currentXP)
+
+      return {
+        currentLevel,
+        currentXP,
+        xpToNextLevel: Math.max(0, getXPForLevel(currentLevel + 1) - currentXP)
+      }
+    } catch (error) {
+      console.error('Get level progress error:', error)
+      throw error
+    }
+  }
+
+  async checkLevelUp(userId: string, previousXP: number, newXP: number): Promise<boolean> {
+    return this.calculateLevel(newXP) > this.calculateLevel(previousXP)
+  }
+
+  private mapDatabaseXPLog(dbLog: any): XPLog {
+    return {
+      id: dbLog.id,
+      user_id: dbLog.user_id,
+      action_type: dbLog.action_type,
+      xp_awarded: dbLog.xp_awarded,
+      description: dbLog.description || undefined,
+      created_at: dbLog.created_at
+    }
+  }
+}
@@ -0,0 +1,109 @@
+// Yield analytics: yield per hectare from harvest records, comparisons
+// between seasons, varieties and plots, and benchmarks against clan members
+
+import { supabase } from '../supabase/client'
+import { HarvestService } from './interfaces'
+import { SupabaseHarvestService } from './harvest.service'
+import { ClanYieldBenchmark, CropYield, YieldComparison, YieldFilter, YieldGroupBy } from '../types'
+import { findCropProfile } from '../utils/phenology'
+import { getCropSeasonRange } from '../utils/soil'
+import { compareYields, getCanonicalCropName, median, summarizeCropYields } from '../utils/yield'
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+export class YieldAnalyticsService {
+  constructor(private harvestService: HarvestService = new SupabaseHarvestService()) {}
+
+  /**
+   * Get the yield of each of a user's harvested crops, newest sowing first
+   */
+  async getCropYields(userId: string, filter: YieldFilter = {}): Promise<CropYield[]> {
+    try {
+      if (filter.season && !getCropSeasonRange(filter.season)) {
+        throw new Error(`Unknown season: ${filter.season}`)
+      }
+
+      const harvests = await this.harvestService.getUserHarvests(userId, {
+        plotId: filter.plotId,
+        from: filter.from,
+        to: filter.to
+      })
+      const cropName = filter.cropName ? getCanonicalCropName(filter.cropName) : undefined
+
+      return summarizeCropYields(harvests)
+        .filter(cropYield => !cropName || cropYield.crop_name === cropName)
+        .filter(cropYield => !filter.season || cropYield.season === filter.season.trim().toLowerCase())
+        .sort((a, b) => b.sown_date.localeCompare(a.sown_date))
+    } catch (error) {
+      console.error('Get crop yields error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Compare a user's yields of each crop across seasons, varieties or plots
+   */
+  async compareYields(userId: string, groupBy: YieldGroupBy, filter: YieldFilter = {}): Promise<YieldComparison[]> {
+    try {
+      const yields = await this.getCropYields(userId, filter)
+      return compareYields(yields, groupBy)
+    } catch (error) {
+      console.error('Compare yields error:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Benchmark a user's yield of a crop against the other members of their
+   * clan, optionally for one season. Members stay anonymous.
+   */
+  async getClanBenchmark(userId: string, cropName: string, season?: string): Promise<ClanYieldBenchmark> {
+    try {
+      const range = season ? getCropSeasonRange(season) : null
+      if (season && !range) {
+        throw new Error(`Unknown season: ${season}`)
+      }
+
+      const profile = findCropProfile(cropName)
+      const { data, error } = await supabase.rpc('get_clan_yield_benchmark', {
+        p_user_id: userId,
+        p_crop_names: this.getCropNames(cropName),
+        p_sown_from: range ? range.from : null,
+        p_sown_to: range ? range.to : null,
+        p_standard_moisture: profile && profile.standard_moisture_pct !== undefined ? profile.standard_moisture_pct : null
+      })
+
+      if (error) {
+        throw new Error(`Failed to fetch clan yields: ${error.message}`)
+      }
+
+      const rows: any[] = data || []
+      const yields = rows.map(row => Number(row.yield_kg_ha))
+      const selfRow = rows.find(row => row.is_self === true)
+      const userYield = selfRow ? Number(selfRow.yield_kg_ha) : null
+
+      return {
+        crop_name: getCanonicalCropName(cropName),
+        season,
+        members: rows.length,
+        user_yield_kg_ha: userYield,
+        clan_average_kg_ha: yields.length > 0
+          ? round2(yields.reduce((total, value) => total + value, 0) / yields.length)
+          : null,
+        clan_median_kg_ha: median(yields),
+        clan_best_kg_ha: yields.length > 0 ? Math.max(...yields) : null,
+        rank: userYield !== null ? yields.filter(value => value > userYield).length + 1 : null
+      }
+    } catch (error) {
+      console.error('Get clan benchmark error:', error)
+      throw error
+    }
+  }
+
+  // Every lower-case name a crop may be recorded under
+  private getCropNames(cropName: string): string[] {
+    const profile = findCropProfile(cropName)
+    if (!profile) return [cropName.trim().toLowerCase()]
+    return [profile.name, ...profile.aliases].map(name => name.toLowerCase())
+  }
+}
@@ -63,7 +63,7 @@ export interface Database {
           id: string
           user_id: string
           name: string
-          geometry: GeoJSON.Polygon
+          geometry: GeoJSON.Polygon | GeoJSON.MultiPolygon
           area_hectares: number
           created_at: string
           updated_at: string
@@ -72,7 +72,7 @@ export interface Database {
           id?: string
           user_id: string
           name: string
-          geometry: GeoJSON.Polygon
+          geometry: GeoJSON.Polygon | GeoJSON.MultiPolygon
           created_at?: string
           updated_at?: string
         }
@@ -80,7 +80,7 @@ export interface Database {
           id?: string
           user_id?: string
           name?: string
-          geometry?: GeoJSON.Polygon
+          geometry?: GeoJSON.Polygon | GeoJSON.MultiPolygon
           updated_at?: string
         }
       }
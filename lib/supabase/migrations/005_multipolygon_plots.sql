@@ -0,0 +1,36 @@
+-- Multi-ring and MultiPolygon plot geometry
+-- Allows plots with holes (ponds, buildings) and plots split into several parts
+
+-- The generated area column depends on geometry, so it has to be recreated
+DROP INDEX IF EXISTS idx_plots_area;
+ALTER TABLE plots DROP COLUMN area_hectares;
+
+-- Accept both POLYGON and MULTIPOLYGON boundaries
+ALTER TABLE plots
+  ALTER COLUMN geometry TYPE GEOMETRY(GEOMETRY, 4326) USING ST_SetSRID(geometry, 4326);
+
+ALTER TABLE plots ADD CONSTRAINT check_plot_geometry_type CHECK (
+  GeometryType(geometry) IN ('POLYGON', 'MULTIPOLYGON')
+);
+
+-- ST_Area on geography subtracts interior rings and sums all parts
+ALTER TABLE plots
+  ADD COLUMN area_hectares DECIMAL(10,4) GENERATED ALWAYS AS (ST_Area(geometry::geography) / 10000) STORED;
+
+CREATE INDEX idx_plots_area ON plots(area_hectares DESC);
+
+-- Area calculation used by the plot service (hectares)
+CREATE OR REPLACE FUNCTION calculate_polygon_area(geom_wkt TEXT)
+RETURNS DECIMAL AS $$
+DECLARE
+    geom GEOMETRY;
+BEGIN
+    geom := ST_GeomFromText(geom_wkt, 4326);
+
+    IF GeometryType(geom) NOT IN ('POLYGON', 'MULTIPOLYGON') THEN
+        RAISE EXCEPTION 'Unsupported plot geometry type: %', GeometryType(geom);
+    END IF;
+
+    RETURN ST_Area(geom::geography) / 10000;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
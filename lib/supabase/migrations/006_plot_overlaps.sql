@@ -0,0 +1,116 @@
+-- Overlap and adjacency detection between a farmer's plots
+-- Lets the app warn about double-counted land and snap new fields onto neighbours
+
+-- Plots of the same farmer that overlap or touch the given geometry.
+-- Plots within tolerance_meters of each other without overlapping are
+-- reported as adjacent, since hand-drawn shared edges rarely line up exactly.
+CREATE OR REPLACE FUNCTION find_plot_overlaps(
+    p_user_id UUID,
+    geom_wkt TEXT,
+    exclude_plot_id UUID DEFAULT NULL,
+    tolerance_meters DOUBLE PRECISION DEFAULT 1
+)
+RETURNS TABLE(
+    plot_id UUID,
+    plot_name TEXT,
+    relation TEXT,
+    overlap_area_hectares DOUBLE PRECISION,
+    overlap_geometry JSON,
+    shared_boundary_meters DOUBLE PRECISION
+) AS $$
+DECLARE
+    geom GEOMETRY;
+BEGIN
+    geom := ST_MakeValid(ST_GeomFromText(geom_wkt, 4326));
+
+    RETURN QUERY
+    WITH candidates AS (
+        SELECT
+            p.id,
+            p.name,
+            ST_MakeValid(p.geometry) AS geometry,
+            ST_CollectionExtract(ST_Intersection(ST_MakeValid(p.geometry), geom), 3) AS overlap
+        FROM plots p
+        WHERE p.user_id = p_user_id
+          AND p.is_active = true
+          AND (exclude_plot_id IS NULL OR p.id != exclude_plot_id)
+          AND ST_DWithin(p.geometry::geography, geom::geography, tolerance_meters)
+    )
+    SELECT
+        c.id,
+        c.name::TEXT,
+        CASE WHEN ST_Area(c.overlap::geography) > 1 THEN 'overlap' ELSE 'adjacent' END,
+        ST_Area(c.overlap::geography) / 10000,
+        CASE WHEN ST_Area(c.overlap::geography) > 1 THEN ST_AsGeoJSON(ST_Multi(c.overlap))::JSON END,
+        ST_Length(
+            ST_Intersection(
+                ST_Boundary(geom),
+                ST_Buffer(c.geometry::geography, tolerance_meters)::geometry
+            )::geography
+        )
+    FROM candidates c
+    ORDER BY ST_Area(c.overlap::geography) DESC;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Dashboard totals count overlapping land once
+CREATE OR REPLACE FUNCTION get_user_dashboard(user_id UUID)
+RETURNS JSON AS $$
+DECLARE
+    result JSON;
+BEGIN
+    SELECT json_build_object(
+        'user', (
+            SELECT json_build_object(
+                'id', u.id,
+                'name', u.name,
+                'xp', u.xp,
+                'level', u.level,
+                'clan_name', c.name
+            )
+            FROM users u
+            LEFT JOIN clans c ON u.clan_id = c.id
+            WHERE u.id = user_id
+        ),
+        'plots', (
+            SELECT json_agg(
+                json_build_object(
+                    'id', p.id,
+                    'name', p.name,
+                    'area_hectares', p.area_hectares,
+                    'crop_count', (SELECT COUNT(*) FROM crops WHERE plot_id = p.id AND status != 'harvested')
+                )
+            )
+            FROM plots p
+            WHERE p.user_id = user_id AND p.is_active = true
+        ),
+        'total_area_hectares', (
+            SELECT COALESCE(ST_Area(ST_Union(ST_MakeValid(p.geometry))::geography) / 10000, 0)
+            FROM plots p
+            WHERE p.user_id = user_id AND p.is_active = true
+        ),
+        'active_battles', (
+            SELECT COUNT(*)
+            FROM pest_battles pb
+            JOIN plots p ON pb.plot_id = p.id
+            WHERE p.user_id = user_id AND pb.status = 'active'
+        ),
+        'recent_xp', (
+            SELECT json_agg(
+                json_build_object(
+                    'action_type', xl.action_type,
+                    'xp_awarded', xl.xp_awarded,
+                    'description', xl.description,
+                    'created_at', xl.created_at
+                )
+            )
+            FROM xp_logs xl
+            WHERE xl.user_id = user_id
+            ORDER BY xl.created_at DESC
+            LIMIT 5
+        )
+    ) INTO result;
+
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,180 @@
+-- Plot splitting and merging
+-- Re-partitioned plots are archived instead of deleted, so crop history,
+-- pest battles and XP log references to them stay valid. Lineage records
+-- link every archived plot to the plots that replaced it.
+
+CREATE TYPE plot_lineage_operation AS ENUM ('split', 'merge');
+
+-- One row per parent -> child edge: a split has one parent and several
+-- children, a merge several parents and one child
+CREATE TABLE plot_lineage (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  operation plot_lineage_operation NOT NULL,
+  parent_plot_id UUID NOT NULL REFERENCES plots(id) ON DELETE CASCADE,
+  child_plot_id UUID NOT NULL REFERENCES plots(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT check_lineage_not_self CHECK (parent_plot_id != child_plot_id),
+  UNIQUE(parent_plot_id, child_plot_id)
+);
+
+CREATE INDEX idx_plot_lineage_parent ON plot_lineage(parent_plot_id);
+CREATE INDEX idx_plot_lineage_child ON plot_lineage(child_plot_id);
+
+ALTER TABLE plot_lineage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own plot lineage" ON plot_lineage
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record own plot lineage" ON plot_lineage
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Split a plot along a line. The pieces become new plots (largest first),
+-- active crops and battles move to the largest piece, and the original plot
+-- is archived with its harvested crops and resolved battles.
+CREATE OR REPLACE FUNCTION split_plot(
+    p_plot_id UUID,
+    blade_wkt TEXT,
+    piece_names TEXT[] DEFAULT NULL
+)
+RETURNS SETOF UUID AS $$
+DECLARE
+    parent plots%ROWTYPE;
+    blade GEOMETRY;
+    pieces GEOMETRY[];
+    new_id UUID;
+    largest_id UUID;
+BEGIN
+    SELECT * INTO parent FROM plots WHERE id = p_plot_id AND is_active = true FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Plot % not found or already archived', p_plot_id;
+    END IF;
+
+    blade := ST_GeomFromText(blade_wkt, 4326);
+    IF GeometryType(blade) != 'LINESTRING' THEN
+        RAISE EXCEPTION 'Split line must be a LINESTRING, got %', GeometryType(blade);
+    END IF;
+
+    -- Slivers left where the line grazes the boundary are not plots
+    SELECT array_agg(geom ORDER BY ST_Area(geom::geography) DESC) INTO pieces
+    FROM (SELECT (ST_Dump(ST_Split(ST_MakeValid(parent.geometry), blade))).geom) AS dumped
+    WHERE ST_Area(geom::geography) > 1;
+
+    IF COALESCE(array_length(pieces, 1), 0) < 2 THEN
+        RAISE EXCEPTION 'Split line does not cross the plot';
+    END IF;
+
+    FOR i IN 1..array_length(pieces, 1) LOOP
+        INSERT INTO plots (user_id, name, description, geometry, soil_type, irrigation_type)
+        VALUES (
+            parent.user_id,
+            COALESCE(piece_names[i], parent.name || ' (' || i || ')'),
+            parent.description,
+            pieces[i],
+            parent.soil_type,
+            parent.irrigation_type
+        )
+        RETURNING id INTO new_id;
+
+        INSERT INTO plot_lineage (user_id, operation, parent_plot_id, child_plot_id)
+        VALUES (parent.user_id, 'split', parent.id, new_id);
+
+        IF i = 1 THEN
+            largest_id := new_id;
+        END IF;
+
+        RETURN NEXT new_id;
+    END LOOP;
+
+    UPDATE crops SET plot_id = largest_id WHERE plot_id = parent.id AND status != 'harvested';
+    UPDATE pest_battles SET plot_id = largest_id WHERE plot_id = parent.id AND status = 'active';
+    UPDATE plots SET is_active = false WHERE id = parent.id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Merge plots into one new plot. Active crops and battles move to the
+-- merged plot and the originals are archived.
+CREATE OR REPLACE FUNCTION merge_plots(
+    p_plot_ids UUID[],
+    merged_name TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    owner_id UUID;
+    first_plot plots%ROWTYPE;
+    merged GEOMETRY;
+    new_id UUID;
+BEGIN
+    IF array_length(p_plot_ids, 1) IS NULL OR array_length(p_plot_ids, 1) < 2 THEN
+        RAISE EXCEPTION 'At least two plots are needed to merge';
+    END IF;
+
+    PERFORM 1 FROM plots WHERE id = ANY(p_plot_ids) FOR UPDATE;
+
+    IF (SELECT COUNT(*) FROM plots WHERE id = ANY(p_plot_ids) AND is_active = true)
+        != (SELECT COUNT(DISTINCT id) FROM unnest(p_plot_ids) AS id) THEN
+        RAISE EXCEPTION 'Every plot to merge must exist and be active';
+    END IF;
+
+    IF (SELECT COUNT(DISTINCT user_id) FROM plots WHERE id = ANY(p_plot_ids)) > 1 THEN
+        RAISE EXCEPTION 'Plots belonging to different users cannot be merged';
+    END IF;
+
+    -- Name and attributes come from the largest plot
+    SELECT * INTO first_plot FROM plots
+    WHERE id = ANY(p_plot_ids)
+    ORDER BY area_hectares DESC
+    LIMIT 1;
+    owner_id := first_plot.user_id;
+
+    SELECT ST_CollectionExtract(ST_Union(ST_MakeValid(geometry)), 3) INTO merged
+    FROM plots WHERE id = ANY(p_plot_ids);
+
+    -- A single-part union is stored as a POLYGON
+    IF ST_NumGeometries(merged) = 1 THEN
+        merged := ST_GeometryN(merged, 1);
+    END IF;
+
+    INSERT INTO plots (user_id, name, description, geometry, soil_type, irrigation_type)
+    VALUES (
+        owner_id,
+        COALESCE(merged_name, first_plot.name),
+        first_plot.description,
+        merged,
+        first_plot.soil_type,
+        first_plot.irrigation_type
+    )
+    RETURNING id INTO new_id;
+
+    INSERT INTO plot_lineage (user_id, operation, parent_plot_id, child_plot_id)
+    SELECT owner_id, 'merge', id, new_id FROM plots WHERE id = ANY(p_plot_ids);
+
+    UPDATE crops SET plot_id = new_id WHERE plot_id = ANY(p_plot_ids) AND status != 'harvested';
+    UPDATE pest_battles SET plot_id = new_id WHERE plot_id = ANY(p_plot_ids) AND status = 'active';
+    UPDATE plots SET is_active = false WHERE id = ANY(p_plot_ids);
+
+    RETURN new_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Every lineage record connected to a plot: the plots it came from and the
+-- plots that replaced it, however many splits and merges back or forward
+CREATE OR REPLACE FUNCTION get_plot_lineage(p_plot_id UUID)
+RETURNS SETOF plot_lineage AS $$
+    WITH RECURSIVE
+    ancestors AS (
+        SELECT * FROM plot_lineage WHERE child_plot_id = p_plot_id
+        UNION
+        SELECT l.* FROM plot_lineage l JOIN ancestors a ON l.child_plot_id = a.parent_plot_id
+    ),
+    descendants AS (
+        SELECT * FROM plot_lineage WHERE parent_plot_id = p_plot_id
+        UNION
+        SELECT l.* FROM plot_lineage l JOIN descendants d ON l.parent_plot_id = d.child_plot_id
+    )
+    SELECT * FROM ancestors
+    UNION
+    SELECT * FROM descendants
+    ORDER BY created_at;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,151 @@
+-- Spatial plot queries: plots near a location, plots in a map viewport and
+-- the nearest plots of clan members. All of them go through the GIST
+-- indexes so map loading doesn't scan every plot.
+
+-- Distance queries run on geography, which needs its own index
+CREATE INDEX idx_plots_geography ON plots USING GIST((geometry::geography));
+
+-- Active plots within radius_km of a point, nearest first. Without a user id
+-- every plot the caller can see (own and clan members') is searched.
+CREATE OR REPLACE FUNCTION get_plots_within_radius(
+    latitude DOUBLE PRECISION,
+    longitude DOUBLE PRECISION,
+    radius_km DOUBLE PRECISION,
+    p_user_id UUID DEFAULT NULL,
+    limit_count INTEGER DEFAULT 50
+)
+RETURNS TABLE(
+    id UUID,
+    user_id UUID,
+    name TEXT,
+    description TEXT,
+    geometry GEOMETRY,
+    area_hectares DECIMAL,
+    soil_type TEXT,
+    irrigation_type TEXT,
+    is_active BOOLEAN,
+    created_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE,
+    distance_meters DOUBLE PRECISION
+) AS $$
+DECLARE
+    origin GEOGRAPHY;
+BEGIN
+    origin := ST_SetSRID(ST_MakePoint(longitude, latitude), 4326)::geography;
+
+    RETURN QUERY
+    SELECT
+        p.id, p.user_id, p.name, p.description, p.geometry, p.area_hectares,
+        p.soil_type, p.irrigation_type, p.is_active, p.created_at, p.updated_at,
+        ST_Distance(p.geometry::geography, origin)
+    FROM plots p
+    WHERE p.is_active = true
+      AND (p_user_id IS NULL OR p.user_id = p_user_id)
+      AND ST_DWithin(p.geometry::geography, origin, radius_km * 1000)
+    ORDER BY p.geometry::geography <-> origin
+    LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- One page of the active plots intersecting a bounding box, with the total
+-- number of matches. A box with west > east crosses the antimeridian.
+CREATE OR REPLACE FUNCTION get_plots_in_bbox(
+    west DOUBLE PRECISION,
+    south DOUBLE PRECISION,
+    east DOUBLE PRECISION,
+    north DOUBLE PRECISION,
+    p_user_id UUID DEFAULT NULL,
+    page_size INTEGER DEFAULT 100,
+    page_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE(
+    id UUID,
+    user_id UUID,
+    name TEXT,
+    description TEXT,
+    geometry GEOMETRY,
+    area_hectares DECIMAL,
+    soil_type TEXT,
+    irrigation_type TEXT,
+    is_active BOOLEAN,
+    created_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE,
+    total_count BIGINT
+) AS $$
+DECLARE
+    envelope GEOMETRY;
+BEGIN
+    IF west <= east THEN
+        envelope := ST_MakeEnvelope(west, south, east, north, 4326);
+    ELSE
+        envelope := ST_Collect(
+            ST_MakeEnvelope(west, south, 180, north, 4326),
+            ST_MakeEnvelope(-180, south, east, north, 4326)
+        );
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        p.id, p.user_id, p.name, p.description, p.geometry, p.area_hectares,
+        p.soil_type, p.irrigation_type, p.is_active, p.created_at, p.updated_at,
+        COUNT(*) OVER ()
+    FROM plots p
+    WHERE p.is_active = true
+      AND (p_user_id IS NULL OR p.user_id = p_user_id)
+      AND p.geometry && envelope
+      AND ST_Intersects(p.geometry, envelope)
+    -- Stable order so pages don't repeat or skip plots
+    ORDER BY p.created_at, p.id
+    LIMIT page_size
+    OFFSET page_offset;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- The clan members' plots nearest to a point, with the owner's name
+CREATE OR REPLACE FUNCTION get_nearest_clan_plots(
+    p_user_id UUID,
+    latitude DOUBLE PRECISION,
+    longitude DOUBLE PRECISION,
+    limit_count INTEGER DEFAULT 10
+)
+RETURNS TABLE(
+    id UUID,
+    user_id UUID,
+    name TEXT,
+    description TEXT,
+    geometry GEOMETRY,
+    area_hectares DECIMAL,
+    soil_type TEXT,
+    irrigation_type TEXT,
+    is_active BOOLEAN,
+    created_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE,
+    owner_name TEXT,
+    distance_meters DOUBLE PRECISION
+) AS $$
+DECLARE
+    origin GEOGRAPHY;
+    member_clan_id UUID;
+BEGIN
+    SELECT u.clan_id INTO member_clan_id FROM users u WHERE u.id = p_user_id;
+    IF member_clan_id IS NULL THEN
+        RETURN;
+    END IF;
+
+    origin := ST_SetSRID(ST_MakePoint(longitude, latitude), 4326)::geography;
+
+    RETURN QUERY
+    SELECT
+        p.id, p.user_id, p.name, p.description, p.geometry, p.area_hectares,
+        p.soil_type, p.irrigation_type, p.is_active, p.created_at, p.updated_at,
+        u.name,
+        ST_Distance(p.geometry::geography, origin)
+    FROM plots p
+    JOIN users u ON u.id = p.user_id
+    WHERE p.is_active = true
+      AND u.clan_id = member_clan_id
+      AND u.id != p_user_id
+    ORDER BY p.geometry::geography <-> origin
+    LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql STABLE;
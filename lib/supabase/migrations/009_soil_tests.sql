@@ -0,0 +1,39 @@
+-- Soil lab-test history per plot
+-- Nutrient values are stored in the units of the Soil Health Card scheme:
+-- available N, P and K in kg/ha, organic carbon in %, EC in dS/m and
+-- micronutrients in ppm (mg/kg). The CSV importer converts other units.
+
+CREATE TABLE soil_tests (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  plot_id UUID NOT NULL REFERENCES plots(id) ON DELETE CASCADE,
+  sampled_at DATE NOT NULL,
+  lab_name TEXT CHECK (length(lab_name) <= 100),
+  sample_id TEXT CHECK (length(sample_id) <= 50),
+  depth_cm INTEGER CHECK (depth_cm > 0 AND depth_cm <= 200),
+  ph DECIMAL(4,2) CHECK (ph >= 0 AND ph <= 14),
+  nitrogen_kg_ha DECIMAL(8,2) CHECK (nitrogen_kg_ha >= 0),
+  phosphorus_kg_ha DECIMAL(8,2) CHECK (phosphorus_kg_ha >= 0),
+  potassium_kg_ha DECIMAL(8,2) CHECK (potassium_kg_ha >= 0),
+  organic_carbon_pct DECIMAL(5,2) CHECK (organic_carbon_pct >= 0 AND organic_carbon_pct <= 100),
+  ec_ds_m DECIMAL(6,3) CHECK (ec_ds_m >= 0),
+  -- zinc, iron, manganese, copper, boron and sulphur in ppm
+  micronutrients JSONB DEFAULT '{}'::jsonb,
+  notes TEXT CHECK (length(notes) <= 1000),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  -- The same lab sample must not be imported twice
+  UNIQUE(plot_id, sampled_at, sample_id)
+);
+
+-- NULLs never clash in a unique constraint, so tests without a sample id
+-- (most of them) need their own index: one per plot and day
+CREATE UNIQUE INDEX idx_soil_tests_unnumbered ON soil_tests(plot_id, sampled_at) WHERE sample_id IS NULL;
+
+CREATE INDEX idx_soil_tests_plot_sampled ON soil_tests(plot_id, sampled_at DESC);
+
+ALTER TABLE soil_tests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage soil tests on own plots" ON soil_tests
+  FOR ALL USING (
+    plot_id IN (SELECT id FROM plots WHERE user_id = auth.uid())
+  );
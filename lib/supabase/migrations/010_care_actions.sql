@@ -0,0 +1,90 @@
+-- Care action log: watering, fertilizing, pest control and other field work
+-- per plot (and optionally per crop). Actions that use a tracked resource
+-- draw it down from the user's stock in the resources table.
+
+CREATE TYPE care_action_type AS ENUM ('watering', 'fertilizing', 'pest_control', 'pruning', 'weeding');
+
+CREATE TABLE care_actions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  plot_id UUID NOT NULL REFERENCES plots(id) ON DELETE CASCADE,
+  crop_id UUID REFERENCES crops(id) ON DELETE CASCADE,
+  action_type care_action_type NOT NULL,
+  performed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  quantity DECIMAL(10,2) CHECK (quantity > 0),
+  unit TEXT CHECK (length(unit) >= 1 AND length(unit) <= 20),
+  product TEXT CHECK (length(product) <= 100),
+  cost DECIMAL(10,2) CHECK (cost >= 0),
+  operator TEXT CHECK (length(operator) <= 100),
+  notes TEXT CHECK (length(notes) <= 1000),
+  -- Stock drawn down, in the resource's own unit. Set by the trigger below
+  -- to what was actually available.
+  resource_id UUID REFERENCES resources(id) ON DELETE SET NULL,
+  resource_quantity DECIMAL(10,2) CHECK (resource_quantity >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT check_quantity_has_unit CHECK (quantity IS NULL OR unit IS NOT NULL)
+);
+
+CREATE INDEX idx_care_actions_plot_performed ON care_actions(plot_id, performed_at DESC);
+CREATE INDEX idx_care_actions_crop_performed ON care_actions(crop_id, performed_at DESC);
+CREATE INDEX idx_care_actions_type ON care_actions(action_type);
+
+CREATE TRIGGER update_care_actions_updated_at
+    BEFORE UPDATE ON care_actions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE care_actions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage care actions on own plots" ON care_actions
+  FOR ALL USING (
+    plot_id IN (SELECT id FROM plots WHERE user_id = auth.uid())
+  );
+
+-- Keep resource stock in step with care actions. Stock never goes below
+-- zero: an action records how much it could actually draw down, so
+-- deleting or editing it later gives back exactly that amount. Only an
+-- action deleted by itself is undone: when its plot or crop is deleted the
+-- inputs were still used, so the cascade gives nothing back.
+CREATE OR REPLACE FUNCTION apply_care_action_to_resources()
+RETURNS TRIGGER AS $$
+DECLARE
+    available DECIMAL(10,2);
+BEGIN
+    IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.resource_id IS NOT NULL AND OLD.resource_quantity > 0
+       AND NOT (TG_OP = 'DELETE' AND pg_trigger_depth() > 1) THEN
+        UPDATE resources
+        SET quantity = quantity + OLD.resource_quantity,
+            updated_at = NOW()
+        WHERE id = OLD.resource_id;
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+
+    IF NEW.resource_id IS NOT NULL AND NEW.resource_quantity IS NOT NULL THEN
+        SELECT quantity INTO available FROM resources WHERE id = NEW.resource_id FOR UPDATE;
+
+        IF NOT FOUND THEN
+            -- Not the user's resource (hidden by RLS) or already deleted
+            NEW.resource_id := NULL;
+            NEW.resource_quantity := NULL;
+        ELSE
+            NEW.resource_quantity := LEAST(NEW.resource_quantity, available);
+            UPDATE resources
+            SET quantity = quantity - NEW.resource_quantity,
+                updated_at = NOW()
+            WHERE id = NEW.resource_id;
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER apply_care_action_to_resources_trigger
+    BEFORE INSERT OR UPDATE OF resource_id, resource_quantity OR DELETE ON care_actions
+    FOR EACH ROW
+    EXECUTE FUNCTION apply_care_action_to_resources();
@@ -0,0 +1,118 @@
+-- Harvest records: each weighing of a crop's harvest with its grade and
+-- moisture. Crops picked over several weeks (tomatoes, peppers) get one
+-- record per picking. The area harvested is kept with the record so yields
+-- don't change when a plot is later redrawn.
+
+CREATE TABLE harvest_records (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  crop_id UUID NOT NULL REFERENCES crops(id) ON DELETE CASCADE,
+  plot_id UUID NOT NULL REFERENCES plots(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  harvested_at DATE NOT NULL DEFAULT CURRENT_DATE,
+  weight_kg DECIMAL(12,2) NOT NULL CHECK (weight_kg > 0),
+  grade TEXT CHECK (length(grade) >= 1 AND length(grade) <= 20),
+  moisture_pct DECIMAL(5,2) CHECK (moisture_pct >= 0 AND moisture_pct < 100),
+  area_hectares DECIMAL(10,4) NOT NULL CHECK (area_hectares > 0),
+  notes TEXT CHECK (length(notes) <= 1000),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_harvest_records_crop ON harvest_records(crop_id, harvested_at);
+CREATE INDEX idx_harvest_records_user_harvested ON harvest_records(user_id, harvested_at DESC);
+
+ALTER TABLE harvest_records ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage harvest records on own plots" ON harvest_records
+  FOR ALL USING (
+    plot_id IN (SELECT id FROM plots WHERE user_id = auth.uid())
+  );
+
+-- Keep crops.quantity_harvested at the total weight (kg) of its records
+CREATE OR REPLACE FUNCTION sync_crop_quantity_harvested()
+RETURNS TRIGGER AS $$
+DECLARE
+    target_crop UUID;
+BEGIN
+    target_crop := CASE WHEN TG_OP = 'DELETE' THEN OLD.crop_id ELSE NEW.crop_id END;
+
+    UPDATE crops
+    SET quantity_harvested = COALESCE(
+        (SELECT ROUND(SUM(weight_kg)) FROM harvest_records WHERE crop_id = target_crop), 0
+    )
+    WHERE id = target_crop;
+
+    IF TG_OP = 'UPDATE' AND OLD.crop_id != NEW.crop_id THEN
+        UPDATE crops
+        SET quantity_harvested = COALESCE(
+            (SELECT ROUND(SUM(weight_kg)) FROM harvest_records WHERE crop_id = OLD.crop_id), 0
+        )
+        WHERE id = OLD.crop_id;
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER sync_crop_quantity_harvested_trigger
+    AFTER INSERT OR UPDATE OR DELETE ON harvest_records
+    FOR EACH ROW
+    EXECUTE FUNCTION sync_crop_quantity_harvested();
+
+-- Yield of each clan member for a crop, for benchmarking. Crop records are
+-- private, so this runs as definer and returns only anonymous per-member
+-- totals, and only to a member benchmarking themselves; the caller's own
+-- row is flagged. Crops are matched on any of the
+-- given lower-case names and by sowing date. With a standard moisture,
+-- weights are adjusted to it wherever a moisture reading was taken.
+CREATE OR REPLACE FUNCTION get_clan_yield_benchmark(
+    p_user_id UUID,
+    p_crop_names TEXT[],
+    p_sown_from DATE DEFAULT NULL,
+    p_sown_to DATE DEFAULT NULL,
+    p_standard_moisture DECIMAL DEFAULT NULL
+)
+RETURNS TABLE(
+    is_self BOOLEAN,
+    area_hectares DECIMAL,
+    harvested_kg DECIMAL,
+    yield_kg_ha DECIMAL
+) AS $$
+BEGIN
+  IF p_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Clan benchmarks are only available for your own yields';
+  END IF;
+
+  RETURN QUERY
+  WITH crop_totals AS (
+    SELECT
+      h.user_id,
+      -- Every picking of a crop comes off the same ground
+      MAX(h.area_hectares) AS area,
+      SUM(CASE
+        WHEN p_standard_moisture IS NOT NULL AND h.moisture_pct IS NOT NULL
+          THEN h.weight_kg * (100 - h.moisture_pct) / (100 - p_standard_moisture)
+        ELSE h.weight_kg
+      END) AS kg
+    FROM harvest_records h
+    JOIN crops c ON c.id = h.crop_id
+    JOIN users u ON u.id = h.user_id
+    WHERE u.clan_id IS NOT NULL
+      AND u.clan_id = (SELECT clan_id FROM users WHERE id = p_user_id)
+      AND lower(c.name) = ANY(p_crop_names)
+      AND (p_sown_from IS NULL OR c.sown_date >= p_sown_from)
+      AND (p_sown_to IS NULL OR c.sown_date <= p_sown_to)
+    GROUP BY h.user_id, h.crop_id
+  )
+  SELECT
+    t.user_id = p_user_id,
+    SUM(t.area),
+    ROUND(SUM(t.kg), 2),
+    ROUND(SUM(t.kg) / SUM(t.area), 2)
+  FROM crop_totals t
+  GROUP BY t.user_id
+  ORDER BY 4 DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION get_clan_yield_benchmark(UUID, TEXT[], DATE, DATE, DECIMAL) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_clan_yield_benchmark(UUID, TEXT[], DATE, DATE, DECIMAL) TO authenticated;
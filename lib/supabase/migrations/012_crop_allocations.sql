@@ -0,0 +1,91 @@
+-- Sub-plot allocation and succession planting. A crop can take a share of
+-- its plot, either as a fraction or as a drawn sub-area, so several crops
+-- can grow side by side (intercropping). A crop can also follow another in
+-- a succession chain: it is sown once its predecessor is harvested.
+
+ALTER TABLE crops
+  ADD COLUMN area_fraction DECIMAL(5,4) CHECK (area_fraction > 0 AND area_fraction <= 1),
+  ADD COLUMN sub_geometry GEOMETRY(GEOMETRY, 4326),
+  ADD COLUMN preceded_by UUID REFERENCES crops(id) ON DELETE SET NULL;
+
+ALTER TABLE crops ADD CONSTRAINT check_crop_sub_geometry_type CHECK (
+  sub_geometry IS NULL OR GeometryType(sub_geometry) IN ('POLYGON', 'MULTIPOLYGON')
+);
+
+ALTER TABLE crops ADD CONSTRAINT check_crop_not_preceded_by_itself CHECK (
+  preceded_by IS NULL OR preceded_by != id
+);
+
+-- A crop has at most one successor, so successions form chains
+CREATE UNIQUE INDEX idx_crops_preceded_by ON crops(preceded_by);
+CREATE INDEX idx_crops_sub_geometry ON crops USING GIST(sub_geometry);
+
+-- A drawn sub-area has to lie within the plot (allowing a metre for hand
+-- drawing) and sets the crop's area fraction.
+-- When split_plot or merge_plots moves a crop to a plot that replaced its
+-- own, a drawn sub-area goes to the piece it mostly lies in and is clipped
+-- to it, and a share without one is rescaled to the new plot's area.
+CREATE OR REPLACE FUNCTION prepare_crop_allocation()
+RETURNS TRIGGER AS $$
+DECLARE
+    plot_geometry GEOMETRY;
+    piece_id UUID;
+    moved_by_lineage BOOLEAN := false;
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.plot_id IS DISTINCT FROM OLD.plot_id THEN
+        moved_by_lineage := EXISTS (
+            SELECT 1 FROM plot_lineage
+            WHERE parent_plot_id = OLD.plot_id AND child_plot_id = NEW.plot_id
+        );
+    END IF;
+
+    IF moved_by_lineage AND NEW.sub_geometry IS NULL AND NEW.area_fraction IS NOT NULL THEN
+        NEW.area_fraction := GREATEST(0.0001, LEAST(1, ROUND(
+            NEW.area_fraction
+                * (SELECT area_hectares FROM plots WHERE id = OLD.plot_id)
+                / (SELECT area_hectares FROM plots WHERE id = NEW.plot_id),
+            4
+        )));
+    END IF;
+
+    IF NEW.sub_geometry IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    NEW.sub_geometry := ST_MakeValid(NEW.sub_geometry);
+
+    IF moved_by_lineage THEN
+        SELECT l.child_plot_id INTO piece_id
+        FROM plot_lineage l
+        JOIN plots p ON p.id = l.child_plot_id
+        WHERE l.parent_plot_id = OLD.plot_id
+        ORDER BY ST_Area(ST_Intersection(ST_MakeValid(p.geometry), NEW.sub_geometry)::geography) DESC
+        LIMIT 1;
+        NEW.plot_id := piece_id;
+    END IF;
+
+    SELECT ST_MakeValid(geometry) INTO plot_geometry FROM plots WHERE id = NEW.plot_id;
+
+    IF moved_by_lineage THEN
+        NEW.sub_geometry := ST_CollectionExtract(ST_Intersection(NEW.sub_geometry, plot_geometry), 3);
+        IF ST_NumGeometries(NEW.sub_geometry) = 1 THEN
+            NEW.sub_geometry := ST_GeometryN(NEW.sub_geometry, 1);
+        END IF;
+    END IF;
+
+    IF NOT ST_CoveredBy(NEW.sub_geometry, ST_Buffer(plot_geometry::geography, 1)::geometry) THEN
+        RAISE EXCEPTION 'Crop area must lie within its plot';
+    END IF;
+
+    NEW.area_fraction := GREATEST(0.0001, LEAST(1,
+        ST_Area(ST_Intersection(NEW.sub_geometry, plot_geometry)::geography) / ST_Area(plot_geometry::geography)
+    ));
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prepare_crop_allocation_trigger
+    BEFORE INSERT OR UPDATE OF sub_geometry, plot_id ON crops
+    FOR EACH ROW
+    EXECUTE FUNCTION prepare_crop_allocation();
@@ -0,0 +1,91 @@
+-- Crop status and growth stage history. Every change of a crop's status or
+-- growth stage is recorded with the day it happened, so timelines show when
+-- a crop actually flowered or was harvested. Which transitions are allowed
+-- is decided by the crop lifecycle state machine in the app; transition_crop
+-- applies one atomically.
+
+CREATE TABLE crop_transitions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  crop_id UUID NOT NULL REFERENCES crops(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  from_status crop_status NOT NULL,
+  to_status crop_status NOT NULL,
+  from_stage growth_stage NOT NULL,
+  to_stage growth_stage NOT NULL,
+  occurred_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  notes TEXT CHECK (length(notes) <= 1000),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT check_transition_changes_crop CHECK (from_status != to_status OR from_stage != to_stage)
+);
+
+CREATE INDEX idx_crop_transitions_crop_occurred ON crop_transitions(crop_id, occurred_on, created_at);
+
+ALTER TABLE crop_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view transitions of crops on own plots" ON crop_transitions
+  FOR SELECT USING (
+    crop_id IN (
+      SELECT c.id FROM crops c JOIN plots p ON p.id = c.plot_id WHERE p.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can record transitions of crops on own plots" ON crop_transitions
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND crop_id IN (
+      SELECT c.id FROM crops c JOIN plots p ON p.id = c.plot_id WHERE p.user_id = auth.uid()
+    )
+  );
+
+-- Move a crop from the status and stage the caller last saw to new ones and
+-- record the transition. Fails if the crop changed in the meantime, or if
+-- the transition would be dated before the previous one. Runs with the
+-- caller's rights, so RLS limits it to the caller's own crops.
+CREATE OR REPLACE FUNCTION transition_crop(
+    p_crop_id UUID,
+    p_from_status crop_status,
+    p_from_stage growth_stage,
+    p_to_status crop_status,
+    p_to_stage growth_stage,
+    p_occurred_on DATE DEFAULT CURRENT_DATE,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS crop_transitions AS $$
+DECLARE
+    current_crop crops%ROWTYPE;
+    owner_id UUID;
+    last_occurred_on DATE;
+    transition crop_transitions%ROWTYPE;
+BEGIN
+    SELECT * INTO current_crop FROM crops WHERE id = p_crop_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Crop not found';
+    END IF;
+
+    IF current_crop.status != p_from_status OR current_crop.growth_stage != p_from_stage THEN
+        RAISE EXCEPTION 'Crop is now % (%), not % (%)',
+            current_crop.status, current_crop.growth_stage, p_from_status, p_from_stage;
+    END IF;
+
+    SELECT MAX(occurred_on) INTO last_occurred_on FROM crop_transitions WHERE crop_id = p_crop_id;
+
+    IF p_occurred_on < COALESCE(last_occurred_on, current_crop.sown_date) THEN
+        RAISE EXCEPTION 'Transition cannot be dated before %', COALESCE(last_occurred_on, current_crop.sown_date);
+    END IF;
+
+    SELECT user_id INTO owner_id FROM plots WHERE id = current_crop.plot_id;
+
+    UPDATE crops
+    SET status = p_to_status,
+        growth_stage = p_to_stage,
+        actual_harvest_date = CASE WHEN p_to_status = 'harvested' THEN p_occurred_on ELSE actual_harvest_date END
+    WHERE id = p_crop_id;
+
+    INSERT INTO crop_transitions (crop_id, user_id, from_status, to_status, from_stage, to_stage, occurred_on, notes)
+    VALUES (p_crop_id, owner_id, p_from_status, p_to_status, p_from_stage, p_to_stage, p_occurred_on, p_notes)
+    RETURNING * INTO transition;
+
+    RETURN transition;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,99 @@
+-- Side effects of crop lifecycle events (XP, badges, notifications), keyed
+-- by idempotency key so a retried event never applies an effect twice. A
+-- key is claimed before its effect runs and completed with the effect's
+-- result afterwards; a claim left behind by a failed run can be released or,
+-- once stale, taken over.
+
+CREATE TYPE lifecycle_effect_status AS ENUM ('pending', 'completed');
+
+CREATE TABLE lifecycle_effects (
+  idempotency_key TEXT PRIMARY KEY CHECK (length(idempotency_key) >= 1 AND length(idempotency_key) <= 200),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  status lifecycle_effect_status NOT NULL DEFAULT 'pending',
+  result JSONB,
+  claimed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_lifecycle_effects_user ON lifecycle_effects(user_id, created_at DESC);
+
+ALTER TABLE lifecycle_effects ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own lifecycle effects" ON lifecycle_effects
+  FOR ALL USING (auth.uid() = user_id);
+
+-- Badges a user qualifies for but has not earned yet. The same conditions
+-- as check_and_award_badges, without awarding anything.
+CREATE OR REPLACE FUNCTION get_eligible_badges(p_user_id UUID)
+RETURNS SETOF badges AS $$
+    WITH user_stats AS (
+        SELECT
+            (SELECT xp FROM users WHERE id = p_user_id) AS xp,
+            COUNT(DISTINCT p.id) AS plot_count,
+            COUNT(DISTINCT CASE WHEN c.status = 'harvested' THEN c.id END) AS harvested_crops,
+            COUNT(DISTINCT CASE WHEN pb.status = 'resolved' THEN pb.id END) AS resolved_battles
+        FROM plots p
+        LEFT JOIN crops c ON p.id = c.plot_id
+        LEFT JOIN pest_battles pb ON p.id = pb.plot_id
+        WHERE p.user_id = p_user_id
+    )
+    SELECT b.*
+    FROM badges b, user_stats s
+    WHERE b.is_active = true
+      AND b.id NOT IN (SELECT badge_id FROM user_badges WHERE user_id = p_user_id)
+      AND CASE b.condition_type
+          WHEN 'xp' THEN COALESCE(s.xp, 0) >= b.condition_value
+          WHEN 'harvest' THEN s.harvested_crops >= b.condition_value
+          WHEN 'plots' THEN s.plot_count >= b.condition_value
+          WHEN 'streak' THEN s.resolved_battles >= b.condition_value
+      END
+    ORDER BY b.condition_value;
+$$ LANGUAGE sql STABLE;
+
+-- Award XP for an effect at most once. The effect is saved as completed in
+-- the same transaction that adds the XP, so no crash between the two can
+-- lose the award or let a retry repeat it. Returns what the key awarded and
+-- whether this call applied it.
+CREATE OR REPLACE FUNCTION award_xp_once(
+    p_idempotency_key TEXT,
+    p_user_id UUID,
+    p_xp_amount INTEGER,
+    p_action_type TEXT,
+    p_description TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    effect lifecycle_effects%ROWTYPE;
+    log_id UUID;
+    awarded JSONB;
+BEGIN
+    INSERT INTO lifecycle_effects (idempotency_key, user_id)
+    VALUES (p_idempotency_key, p_user_id)
+    ON CONFLICT (idempotency_key) DO NOTHING;
+
+    IF NOT FOUND THEN
+        SELECT * INTO effect FROM lifecycle_effects WHERE idempotency_key = p_idempotency_key;
+        IF effect.status != 'completed' THEN
+            RAISE EXCEPTION '% is already being applied', p_idempotency_key;
+        END IF;
+        RETURN effect.result || jsonb_build_object('applied', false);
+    END IF;
+
+    PERFORM update_user_xp(p_user_id, p_xp_amount, p_action_type, p_description);
+
+    -- The log update_user_xp wrote in this transaction, if the award was positive
+    SELECT id INTO log_id FROM xp_logs
+    WHERE user_id = p_user_id AND action_type = p_action_type AND created_at = NOW()
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    awarded := jsonb_build_object('xp_log_id', log_id, 'xp_awarded', p_xp_amount);
+
+    UPDATE lifecycle_effects
+    SET status = 'completed', result = awarded, completed_at = NOW()
+    WHERE idempotency_key = p_idempotency_key;
+
+    RETURN awarded || jsonb_build_object('applied', true);
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,88 @@
+-- Crop health photo journal. Each photo belongs to a plot and, optionally,
+-- to one of its crops or pest battles. The files live with the storage
+-- provider the app is configured with; rows record which one, and the
+-- path under it, so switching providers does not lose older photos.
+
+CREATE TABLE media (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  plot_id UUID NOT NULL REFERENCES plots(id) ON DELETE CASCADE,
+  crop_id UUID REFERENCES crops(id) ON DELETE CASCADE,
+  pest_battle_id UUID REFERENCES pest_battles(id) ON DELETE CASCADE,
+  storage_provider TEXT NOT NULL CHECK (storage_provider IN ('mock', 'supabase', 'aws-s3')),
+  storage_path TEXT NOT NULL CHECK (length(storage_path) >= 1 AND length(storage_path) <= 500),
+  thumbnail_path TEXT CHECK (length(thumbnail_path) <= 500),
+  content_type TEXT NOT NULL CHECK (content_type LIKE 'image/%'),
+  size_bytes INTEGER NOT NULL CHECK (size_bytes > 0),
+  width INTEGER CHECK (width > 0),
+  height INTEGER CHECK (height > 0),
+  orientation SMALLINT CHECK (orientation >= 1 AND orientation <= 8),
+  taken_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  latitude DECIMAL(9,6) CHECK (latitude >= -90 AND latitude <= 90),
+  longitude DECIMAL(9,6) CHECK (longitude >= -180 AND longitude <= 180),
+  caption TEXT CHECK (length(caption) <= 500),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT unique_media_storage_path UNIQUE (storage_provider, storage_path),
+  CONSTRAINT check_media_location CHECK ((latitude IS NULL) = (longitude IS NULL))
+);
+
+CREATE INDEX idx_media_plot ON media(plot_id, taken_at DESC);
+CREATE INDEX idx_media_crop ON media(crop_id, taken_at DESC) WHERE crop_id IS NOT NULL;
+CREATE INDEX idx_media_pest_battle ON media(pest_battle_id) WHERE pest_battle_id IS NOT NULL;
+CREATE INDEX idx_media_user ON media(user_id, taken_at DESC);
+
+-- The crop or battle must be on the photo's plot
+CREATE OR REPLACE FUNCTION check_media_links()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.crop_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM crops WHERE id = NEW.crop_id AND plot_id = NEW.plot_id
+    ) THEN
+        RAISE EXCEPTION 'Crop % is not on plot %', NEW.crop_id, NEW.plot_id;
+    END IF;
+
+    IF NEW.pest_battle_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM pest_battles WHERE id = NEW.pest_battle_id AND plot_id = NEW.plot_id
+    ) THEN
+        RAISE EXCEPTION 'Pest battle % is not on plot %', NEW.pest_battle_id, NEW.plot_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER check_media_links_trigger
+    BEFORE INSERT OR UPDATE ON media
+    FOR EACH ROW EXECUTE FUNCTION check_media_links();
+
+ALTER TABLE media ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own media" ON media
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add media to own plots" ON media
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (SELECT 1 FROM plots WHERE plots.id = media.plot_id AND plots.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update own media" ON media
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own media" ON media
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Supabase Storage bucket. Objects are stored under the owner's user id
+-- ("<user_id>/<plot_id>/<media_id>.jpg").
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('media', 'media', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can manage own media files" ON storage.objects
+  FOR ALL USING (
+    bucket_id = 'media' AND (storage.foldername(name))[1] = auth.uid()::text
+  )
+  WITH CHECK (
+    bucket_id = 'media' AND (storage.foldername(name))[1] = auth.uid()::text
+  );
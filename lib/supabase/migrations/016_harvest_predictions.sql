@@ -0,0 +1,50 @@
+-- Harvest window predictions, one per crop per day. Each holds the
+-- predicted opening and closing of the window with their confidence
+-- intervals, so the history shows how the estimate moved over the season,
+-- and the ids of the reminders scheduled for it.
+
+CREATE TABLE harvest_predictions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  crop_id UUID NOT NULL REFERENCES crops(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  predicted_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  window_open DATE NOT NULL,
+  window_open_earliest DATE NOT NULL,
+  window_open_latest DATE NOT NULL,
+  window_close DATE NOT NULL,
+  window_close_earliest DATE NOT NULL,
+  window_close_latest DATE NOT NULL,
+  confidence_level DECIMAL(3,2) NOT NULL CHECK (confidence_level > 0 AND confidence_level < 1),
+  measured_share DECIMAL(4,3) NOT NULL CHECK (measured_share >= 0 AND measured_share <= 1),
+  accumulated_gdd INTEGER NOT NULL CHECK (accumulated_gdd >= 0),
+  required_gdd INTEGER NOT NULL CHECK (required_gdd > 0),
+  generic BOOLEAN NOT NULL DEFAULT false,
+  open_reminder_id TEXT,
+  close_reminder_id TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT unique_harvest_prediction_day UNIQUE (crop_id, predicted_on),
+  CONSTRAINT check_window_open_interval CHECK (
+    window_open_earliest <= window_open AND window_open <= window_open_latest
+  ),
+  CONSTRAINT check_window_close_interval CHECK (
+    window_close_earliest <= window_close AND window_close <= window_close_latest
+  ),
+  CONSTRAINT check_window_order CHECK (window_open <= window_close)
+);
+
+CREATE INDEX idx_harvest_predictions_crop ON harvest_predictions(crop_id, predicted_on DESC);
+CREATE INDEX idx_harvest_predictions_user ON harvest_predictions(user_id, window_close);
+
+ALTER TABLE harvest_predictions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own harvest predictions" ON harvest_predictions
+  FOR ALL USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (
+      SELECT 1 FROM crops c
+      JOIN plots p ON p.id = c.plot_id
+      WHERE c.id = harvest_predictions.crop_id AND p.user_id = auth.uid()
+    )
+  );
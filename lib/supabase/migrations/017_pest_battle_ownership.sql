@@ -0,0 +1,28 @@
+-- Pest battles belong to whoever owns the plot they are fought on. The
+-- original policy only checked user_id, so a battle could be filed against
+-- another user's plot; these policies also require the plot to be the
+-- user's own.
+
+DROP POLICY IF EXISTS "Users can manage own pest battles" ON pest_battles;
+
+CREATE POLICY "Users can view own pest battles" ON pest_battles
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can start pest battles on own plots" ON pest_battles
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (SELECT 1 FROM plots p WHERE p.id = pest_battles.plot_id AND p.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update own pest battles" ON pest_battles
+  FOR UPDATE USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (SELECT 1 FROM plots p WHERE p.id = pest_battles.plot_id AND p.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete own pest battles" ON pest_battles
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_pest_battles_user_active ON pest_battles(user_id, created_at DESC)
+  WHERE status = 'active';
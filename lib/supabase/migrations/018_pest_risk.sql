@@ -0,0 +1,40 @@
+-- Daily pest and disease risk per crop and risk model. Forecast days are
+-- overwritten by each refresh until the day has passed.
+
+CREATE TYPE pest_risk_level AS ENUM ('low', 'medium', 'high');
+
+CREATE TABLE pest_risk_daily (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  plot_id UUID NOT NULL REFERENCES plots(id) ON DELETE CASCADE,
+  crop_id UUID NOT NULL REFERENCES crops(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  model_id TEXT NOT NULL CHECK (length(model_id) >= 1 AND length(model_id) <= 100),
+  pest_type TEXT NOT NULL CHECK (length(pest_type) >= 1 AND length(pest_type) <= 50),
+  risk_date DATE NOT NULL,
+  score DECIMAL(3,2) NOT NULL CHECK (score >= 0 AND score <= 1),
+  level pest_risk_level NOT NULL,
+  forecast BOOLEAN NOT NULL DEFAULT false,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT unique_pest_risk_day UNIQUE (crop_id, model_id, risk_date)
+);
+
+CREATE INDEX idx_pest_risk_daily_plot ON pest_risk_daily(plot_id, risk_date DESC);
+CREATE INDEX idx_pest_risk_daily_user_high ON pest_risk_daily(user_id, risk_date)
+  WHERE level = 'high';
+
+CREATE TRIGGER update_pest_risk_daily_updated_at BEFORE UPDATE ON pest_risk_daily
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE pest_risk_daily ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own pest risk" ON pest_risk_daily
+  FOR ALL USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (
+      SELECT 1 FROM crops c
+      JOIN plots p ON p.id = c.plot_id
+      WHERE c.id = pest_risk_daily.crop_id AND c.plot_id = pest_risk_daily.plot_id AND p.user_id = auth.uid()
+    )
+  );
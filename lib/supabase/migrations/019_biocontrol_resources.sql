@@ -0,0 +1,5 @@
+-- Biological controls (neem oil, Bt, Trichoderma) are stocked apart from
+-- chemical pesticides. Added on its own: a new enum value can't be used in
+-- the transaction that adds it.
+
+ALTER TYPE resource_type ADD VALUE IF NOT EXISTS 'biocontrol' BEFORE 'seeds';
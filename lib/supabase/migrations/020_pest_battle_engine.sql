@@ -0,0 +1,431 @@
+-- Pest battle engine. A pest has HP and a resistance to treatments; the
+-- player gets one turn a day to treat it with a dose drawn from their stock,
+-- and the server works out the damage. A battle ends when the pest's HP
+-- reaches 0 (won) or the turns run out (lost), and only these functions can
+-- end it: players no longer update pest_battles directly. The numbers match
+-- config/pest-catalog.ts and utils/pest.ts, which the mock service uses.
+
+-- Unit conversion, as in utils/units.ts. NULL when the units don't convert.
+CREATE OR REPLACE FUNCTION convert_quantity(p_value DECIMAL, p_from TEXT, p_to TEXT)
+RETURNS DECIMAL AS $$
+DECLARE
+    source_dimension TEXT;
+    source_factor DECIMAL;
+    target_dimension TEXT;
+    target_factor DECIMAL;
+BEGIN
+    IF lower(trim(p_from)) = lower(trim(p_to)) THEN
+        RETURN p_value;
+    END IF;
+
+    SELECT u.dimension, u.factor INTO source_dimension, source_factor
+    FROM (VALUES
+        ('ml', 'volume', 0.001), ('l', 'volume', 1), ('liter', 'volume', 1), ('litre', 'volume', 1),
+        ('m3', 'volume', 1000), ('gal', 'volume', 3.78541), ('gallon', 'volume', 3.78541),
+        ('g', 'mass', 0.001), ('gram', 'mass', 0.001), ('kg', 'mass', 1), ('kilogram', 'mass', 1),
+        ('quintal', 'mass', 100), ('t', 'mass', 1000), ('tonne', 'mass', 1000), ('lb', 'mass', 0.453592)
+    ) AS u(unit, dimension, factor)
+    WHERE u.unit IN (lower(replace(trim(p_from), '.', '')), regexp_replace(lower(replace(trim(p_from), '.', '')), 's$', ''))
+    LIMIT 1;
+
+    SELECT u.dimension, u.factor INTO target_dimension, target_factor
+    FROM (VALUES
+        ('ml', 'volume', 0.001), ('l', 'volume', 1), ('liter', 'volume', 1), ('litre', 'volume', 1),
+        ('m3', 'volume', 1000), ('gal', 'volume', 3.78541), ('gallon', 'volume', 3.78541),
+        ('g', 'mass', 0.001), ('gram', 'mass', 0.001), ('kg', 'mass', 1), ('kilogram', 'mass', 1),
+        ('quintal', 'mass', 100), ('t', 'mass', 1000), ('tonne', 'mass', 1000), ('lb', 'mass', 0.453592)
+    ) AS u(unit, dimension, factor)
+    WHERE u.unit IN (lower(replace(trim(p_to), '.', '')), regexp_replace(lower(replace(trim(p_to), '.', '')), 's$', ''))
+    LIMIT 1;
+
+    IF source_dimension IS NULL OR target_dimension IS NULL OR source_dimension != target_dimension THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN p_value * source_factor / target_factor;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Battle stats of each pest at low severity
+CREATE TABLE pest_profiles (
+  pest_type TEXT PRIMARY KEY CHECK (length(pest_type) >= 1 AND length(pest_type) <= 50),
+  name TEXT NOT NULL CHECK (length(name) <= 100),
+  base_xp INTEGER NOT NULL CHECK (base_xp > 0),
+  hp INTEGER NOT NULL CHECK (hp > 0),
+  resistance DECIMAL(3,2) NOT NULL CHECK (resistance >= 0 AND resistance < 1)
+);
+
+INSERT INTO pest_profiles (pest_type, name, base_xp, hp, resistance) VALUES
+('aphids', 'Aphids', 15, 80, 0.10),
+('caterpillars', 'Caterpillars', 20, 120, 0.15),
+('spider_mites', 'Spider Mites', 18, 90, 0.25),
+('whiteflies', 'Whiteflies', 16, 100, 0.20),
+('thrips', 'Thrips', 17, 90, 0.20),
+('cutworms', 'Cutworms', 22, 110, 0.10),
+('flea_beetles', 'Flea Beetles', 19, 90, 0.10),
+('late_blight', 'Late Blight', 25, 150, 0.15),
+('powdery_mildew', 'Powdery Mildew', 18, 120, 0.10);
+
+CREATE TYPE pest_treatment_kind AS ENUM ('chemical', 'biological');
+
+CREATE TABLE pest_treatments (
+  id TEXT PRIMARY KEY CHECK (length(id) >= 1 AND length(id) <= 50),
+  name TEXT NOT NULL CHECK (length(name) <= 100),
+  kind pest_treatment_kind NOT NULL,
+  resource_type resource_type NOT NULL,
+  dose_per_hectare DECIMAL(8,3) NOT NULL CHECK (dose_per_hectare > 0),
+  unit TEXT NOT NULL CHECK (length(unit) >= 1 AND length(unit) <= 20),
+  efficacy JSONB NOT NULL DEFAULT '{}',
+  default_efficacy DECIMAL(3,2) NOT NULL DEFAULT 0 CHECK (default_efficacy >= 0 AND default_efficacy <= 1),
+  resistance_buildup DECIMAL(3,2) NOT NULL DEFAULT 0 CHECK (resistance_buildup >= 0 AND resistance_buildup < 1),
+  description TEXT CHECK (length(description) <= 200)
+);
+
+INSERT INTO pest_treatments (id, name, kind, resource_type, dose_per_hectare, unit, efficacy, default_efficacy, resistance_buildup, description) VALUES
+('neem_oil', 'Neem oil', 'biological', 'biocontrol', 5, 'l',
+  '{"aphids": 0.35, "whiteflies": 0.3, "spider_mites": 0.3, "thrips": 0.25, "caterpillars": 0.2, "powdery_mildew": 0.2}', 0.10, 0,
+  'Botanical insecticide and repellent, safe for pollinators once dry'),
+('bt_spray', 'Bt spray', 'biological', 'biocontrol', 1, 'kg',
+  '{"caterpillars": 0.55, "cutworms": 0.4}', 0.05, 0,
+  'Bacillus thuringiensis, a bacterium that kills only caterpillars'),
+('trichoderma', 'Trichoderma', 'biological', 'biocontrol', 2.5, 'kg',
+  '{"late_blight": 0.25, "powdery_mildew": 0.2}', 0.05, 0,
+  'Beneficial fungus that crowds out disease on leaves and roots'),
+('imidacloprid', 'Imidacloprid', 'chemical', 'pesticide', 0.25, 'l',
+  '{"aphids": 0.6, "whiteflies": 0.55, "thrips": 0.5, "flea_beetles": 0.5}', 0.15, 0.05,
+  'Systemic insecticide against sucking insects'),
+('lambda_cyhalothrin', 'Lambda-cyhalothrin', 'chemical', 'pesticide', 0.3, 'l',
+  '{"caterpillars": 0.6, "cutworms": 0.55, "flea_beetles": 0.5, "aphids": 0.4}', 0.20, 0.05,
+  'Broad-spectrum contact insecticide'),
+('abamectin', 'Abamectin', 'chemical', 'pesticide', 0.4, 'l',
+  '{"spider_mites": 0.6, "thrips": 0.4}', 0.10, 0.06,
+  'Miticide for spider mites and leaf miners'),
+('mancozeb', 'Mancozeb', 'chemical', 'pesticide', 2, 'kg',
+  '{"late_blight": 0.45, "powdery_mildew": 0.2}', 0, 0.02,
+  'Protective fungicide against blights'),
+('wettable_sulphur', 'Wettable sulphur', 'chemical', 'pesticide', 2.5, 'kg',
+  '{"powdery_mildew": 0.55, "spider_mites": 0.3}', 0, 0.01,
+  'Fungicide and miticide; avoid spraying above 32C');
+
+ALTER TABLE pest_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pest_treatments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view pest profiles" ON pest_profiles
+  FOR SELECT USING (true);
+
+CREATE POLICY "Anyone can view pest treatments" ON pest_treatments
+  FOR SELECT USING (true);
+
+-- Battle state
+ALTER TABLE pest_battles
+  ADD COLUMN hp INTEGER CHECK (hp >= 0),
+  ADD COLUMN max_hp INTEGER CHECK (max_hp > 0),
+  ADD COLUMN resistance DECIMAL(3,2) CHECK (resistance >= 0 AND resistance < 1),
+  ADD COLUMN turns_played INTEGER NOT NULL DEFAULT 0 CHECK (turns_played >= 0),
+  ADD COLUMN max_turns INTEGER CHECK (max_turns > 0),
+  ADD COLUMN last_turn_on DATE;
+
+-- A new battle's pest and reward come from its profile and severity, never
+-- from the client. Players can start a battle at medium severity at most,
+-- so a battle can't be talked up for a bigger reward. Pest risk is worked
+-- out and saved by the client, so it can't vouch for a higher severity.
+CREATE OR REPLACE FUNCTION set_pest_battle_stats()
+RETURNS TRIGGER AS $$
+DECLARE
+    profile pest_profiles%ROWTYPE;
+    multiplier DECIMAL;
+BEGIN
+    SELECT * INTO profile FROM pest_profiles WHERE pest_type = NEW.pest_type;
+
+    IF NEW.severity = 'high' THEN
+        NEW.severity := 'medium';
+    END IF;
+
+    multiplier := CASE NEW.severity WHEN 'low' THEN 1 WHEN 'medium' THEN 1.5 ELSE 2 END;
+
+    NEW.pest_name := COALESCE(profile.name, NEW.pest_name);
+    NEW.xp_reward := ROUND(COALESCE(profile.base_xp, 15) * multiplier);
+    NEW.max_hp := ROUND(COALESCE(profile.hp, 100) * multiplier);
+    NEW.hp := NEW.max_hp;
+    NEW.resistance := COALESCE(profile.resistance, 0.10);
+    NEW.turns_played := 0;
+    NEW.max_turns := CASE NEW.severity WHEN 'low' THEN 3 WHEN 'medium' THEN 5 ELSE 7 END;
+    NEW.last_turn_on := NULL;
+    NEW.status := 'active';
+    NEW.resolved_at := NULL;
+    NEW.treatment_used := NULL;
+    NEW.success_rate := NULL;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_pest_battle_stats_trigger
+    BEFORE INSERT ON pest_battles
+    FOR EACH ROW EXECUTE FUNCTION set_pest_battle_stats();
+
+-- Battles already being fought get a full-health pest
+UPDATE pest_battles pb
+SET max_hp = ROUND(COALESCE(pp.hp, 100) * CASE pb.severity WHEN 'low' THEN 1 WHEN 'medium' THEN 1.5 ELSE 2 END),
+    hp = ROUND(COALESCE(pp.hp, 100) * CASE pb.severity WHEN 'low' THEN 1 WHEN 'medium' THEN 1.5 ELSE 2 END),
+    resistance = COALESCE(pp.resistance, 0.10),
+    max_turns = CASE pb.severity WHEN 'low' THEN 3 WHEN 'medium' THEN 5 ELSE 7 END
+FROM pest_battles b
+LEFT JOIN pest_profiles pp ON pp.pest_type = b.pest_type
+WHERE pb.id = b.id AND pb.status = 'active';
+
+-- One battle at a time against each pest on a plot. Of any battles already
+-- being fought twice, the newest is resolved as abandoned.
+UPDATE pest_battles pb
+SET status = 'resolved',
+    resolved_at = GREATEST(NOW(), pb.created_at),
+    success_rate = 0
+WHERE pb.status = 'active'
+  AND EXISTS (
+    SELECT 1 FROM pest_battles older
+    WHERE older.plot_id = pb.plot_id
+      AND older.pest_type = pb.pest_type
+      AND older.status = 'active'
+      AND (older.created_at, older.id) < (pb.created_at, pb.id)
+  );
+
+CREATE UNIQUE INDEX idx_pest_battles_one_active ON pest_battles(plot_id, pest_type)
+  WHERE status = 'active';
+
+DROP POLICY IF EXISTS "Users can update own pest battles" ON pest_battles;
+
+-- With that policy gone, split_plot and merge_plots can no longer move
+-- battles themselves. Recording lineage does it instead: a plot's active
+-- battles move to the first plot recorded as replacing it, which for a
+-- split is the largest piece. When merged plots were fighting the same
+-- pest, the battle that moved first carries on and the others end as lost.
+CREATE OR REPLACE FUNCTION move_pest_battles_with_lineage()
+RETURNS TRIGGER AS $$
+DECLARE
+    clash UUID;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM plots WHERE id = NEW.parent_plot_id AND user_id = NEW.user_id)
+        OR NOT EXISTS (SELECT 1 FROM plots WHERE id = NEW.child_plot_id AND user_id = NEW.user_id) THEN
+        RAISE EXCEPTION 'Plot lineage can only link plots of the same owner';
+    END IF;
+
+    FOR clash IN
+        SELECT pb.id FROM pest_battles pb
+        WHERE pb.plot_id = NEW.parent_plot_id AND pb.status = 'active'
+          AND EXISTS (
+            SELECT 1 FROM pest_battles other
+            WHERE other.plot_id = NEW.child_plot_id AND other.pest_type = pb.pest_type AND other.status = 'active'
+          )
+    LOOP
+        PERFORM finish_pest_battle(clash, false);
+    END LOOP;
+
+    UPDATE pest_battles
+    SET plot_id = NEW.child_plot_id
+    WHERE plot_id = NEW.parent_plot_id AND status = 'active';
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER move_pest_battles_with_lineage_trigger
+    AFTER INSERT ON plot_lineage
+    FOR EACH ROW EXECUTE FUNCTION move_pest_battles_with_lineage();
+
+-- A battle that has been fought stays on the record, win or lose
+DROP POLICY IF EXISTS "Users can delete own pest battles" ON pest_battles;
+
+CREATE POLICY "Users can delete unfought pest battles" ON pest_battles
+  FOR DELETE USING (auth.uid() = user_id AND turns_played = 0 AND status = 'active');
+
+CREATE TABLE pest_battle_turns (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  battle_id UUID NOT NULL REFERENCES pest_battles(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  turn_number INTEGER NOT NULL CHECK (turn_number > 0),
+  played_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  treatment_id TEXT NOT NULL REFERENCES pest_treatments(id),
+  resource_id UUID REFERENCES resources(id) ON DELETE SET NULL,
+  dose DECIMAL(10,2) NOT NULL CHECK (dose >= 0), -- in the treatment's unit
+  efficacy DECIMAL(3,2) NOT NULL,
+  regrowth INTEGER NOT NULL CHECK (regrowth >= 0),
+  damage INTEGER NOT NULL CHECK (damage >= 0),
+  hp_before INTEGER NOT NULL CHECK (hp_before >= 0),
+  hp_after INTEGER NOT NULL CHECK (hp_after >= 0),
+  xp_awarded INTEGER NOT NULL DEFAULT 0 CHECK (xp_awarded >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT unique_pest_battle_turn UNIQUE (battle_id, turn_number),
+  CONSTRAINT unique_pest_battle_day UNIQUE (battle_id, played_on)
+);
+
+ALTER TABLE pest_battle_turns ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own pest battle turns" ON pest_battle_turns
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- End a battle, record how much of the pest was controlled and award XP:
+-- all of it for a win, 30% for a loss, none for giving up without a turn.
+-- Only called by the functions below, and only once per battle.
+CREATE OR REPLACE FUNCTION finish_pest_battle(p_battle_id UUID, p_won BOOLEAN)
+RETURNS INTEGER AS $$
+DECLARE
+    battle pest_battles%ROWTYPE;
+    xp INTEGER;
+BEGIN
+    SELECT * INTO battle FROM pest_battles WHERE id = p_battle_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Pest battle not found';
+    END IF;
+    IF battle.status = 'resolved' THEN
+        RAISE EXCEPTION 'Battle already resolved';
+    END IF;
+
+    xp := CASE
+        WHEN p_won THEN battle.xp_reward
+        WHEN battle.turns_played = 0 THEN 0
+        ELSE ROUND(battle.xp_reward * 0.3)
+    END;
+
+    UPDATE pest_battles
+    SET status = 'resolved',
+        resolved_at = GREATEST(NOW(), battle.created_at),
+        success_rate = CASE WHEN battle.hp <= 0 THEN 1 ELSE ROUND(1 - battle.hp::DECIMAL / battle.max_hp, 2) END
+    WHERE id = p_battle_id;
+
+    IF xp > 0 THEN
+        PERFORM update_user_xp(
+            battle.user_id, xp, 'pest_battle',
+            CASE WHEN p_won THEN 'Beat ' ELSE 'Fought off ' END || COALESCE(battle.pest_name, battle.pest_type)
+        );
+    END IF;
+
+    RETURN xp;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION finish_pest_battle(UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+-- Play the day's turn of a battle with a treatment. The dose for the plot
+-- is drawn from the player's stock; the pest regrows for each day it went
+-- untreated, loses HP by the treatment's efficacy less its resistance, and
+-- grows more resistant to chemicals each time they are used.
+CREATE OR REPLACE FUNCTION play_pest_battle_turn(p_battle_id UUID, p_treatment_id TEXT)
+RETURNS pest_battle_turns AS $$
+DECLARE
+    battle pest_battles%ROWTYPE;
+    treatment pest_treatments%ROWTYPE;
+    stock resources%ROWTYPE;
+    plot_area DECIMAL;
+    dose DECIMAL;
+    stock_dose DECIMAL;
+    idle_days INTEGER;
+    regrowth INTEGER;
+    efficacy DECIMAL;
+    damage INTEGER;
+    hp_before INTEGER;
+    hp_after INTEGER;
+    xp INTEGER := 0;
+    turn pest_battle_turns%ROWTYPE;
+BEGIN
+    SELECT * INTO battle FROM pest_battles WHERE id = p_battle_id FOR UPDATE;
+
+    IF NOT FOUND OR battle.user_id IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION 'Pest battle not found';
+    END IF;
+    IF battle.status = 'resolved' THEN
+        RAISE EXCEPTION 'Battle already resolved';
+    END IF;
+    IF battle.last_turn_on >= CURRENT_DATE THEN
+        RAISE EXCEPTION 'Already treated today; the next turn is tomorrow';
+    END IF;
+
+    SELECT * INTO treatment FROM pest_treatments WHERE id = p_treatment_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Unknown treatment: %', p_treatment_id;
+    END IF;
+
+    SELECT area_hectares INTO plot_area FROM plots WHERE id = battle.plot_id;
+    dose := ROUND(treatment.dose_per_hectare * plot_area, 2);
+
+    -- With several stocks of the type, the dose comes from the largest
+    SELECT * INTO stock FROM resources
+    WHERE user_id = battle.user_id AND resource_type = treatment.resource_type
+    ORDER BY quantity DESC
+    LIMIT 1
+    FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'No % in stock', treatment.resource_type;
+    END IF;
+
+    stock_dose := ROUND(convert_quantity(dose, treatment.unit, stock.unit), 2);
+    IF stock_dose IS NULL THEN
+        RAISE EXCEPTION 'Cannot measure % of % in %', treatment.unit, treatment.name, stock.unit;
+    END IF;
+    IF stock.quantity < stock_dose THEN
+        RAISE EXCEPTION 'Not enough %: % % needed, % in stock', treatment.resource_type, stock_dose, stock.unit, stock.quantity;
+    END IF;
+
+    UPDATE resources
+    SET quantity = quantity - stock_dose,
+        updated_at = NOW()
+    WHERE id = stock.id;
+
+    idle_days := GREATEST(CURRENT_DATE - COALESCE(battle.last_turn_on, battle.created_at::DATE) - 1, 0);
+    regrowth := LEAST(battle.max_hp - battle.hp, ROUND(battle.max_hp * 0.1 * idle_days));
+    hp_before := battle.hp + regrowth;
+
+    efficacy := COALESCE((treatment.efficacy ->> battle.pest_type)::DECIMAL, treatment.default_efficacy);
+    damage := ROUND(battle.max_hp * efficacy * (1 - battle.resistance) * (0.85 + random() * 0.3));
+    hp_after := GREATEST(hp_before - damage, 0);
+
+    UPDATE pest_battles
+    SET hp = hp_after,
+        turns_played = turns_played + 1,
+        last_turn_on = CURRENT_DATE,
+        resistance = LEAST(0.9, resistance + treatment.resistance_buildup),
+        treatment_used = CASE
+            WHEN treatment_used IS NULL THEN treatment.name
+            WHEN position(treatment.name IN treatment_used) > 0 THEN treatment_used
+            ELSE LEFT(treatment_used || ', ' || treatment.name, 200)
+        END
+    WHERE id = p_battle_id;
+
+    IF hp_after = 0 OR battle.turns_played + 1 >= battle.max_turns THEN
+        xp := finish_pest_battle(p_battle_id, hp_after = 0);
+    END IF;
+
+    INSERT INTO pest_battle_turns (
+        battle_id, user_id, turn_number, treatment_id, resource_id, dose,
+        efficacy, regrowth, damage, hp_before, hp_after, xp_awarded
+    )
+    VALUES (
+        p_battle_id, battle.user_id, battle.turns_played + 1, p_treatment_id, stock.id, dose,
+        efficacy, regrowth, damage, hp_before, hp_after, xp
+    )
+    RETURNING * INTO turn;
+
+    RETURN turn;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Give up on a battle. The pest wins; turns already played still earn
+-- their share of the reward. Returns the XP awarded.
+CREATE OR REPLACE FUNCTION retreat_pest_battle(p_battle_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    battle pest_battles%ROWTYPE;
+BEGIN
+    SELECT * INTO battle FROM pest_battles WHERE id = p_battle_id FOR UPDATE;
+
+    IF NOT FOUND OR battle.user_id IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION 'Pest battle not found';
+    END IF;
+    IF battle.status = 'resolved' THEN
+        RAISE EXCEPTION 'Battle already resolved';
+    END IF;
+
+    RETURN finish_pest_battle(p_battle_id, false);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
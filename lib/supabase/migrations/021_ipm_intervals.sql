@@ -0,0 +1,22 @@
+-- Pre-harvest and re-entry intervals for each treatment, so IPM
+-- recommendations can warn when a spray would keep a crop from being
+-- harvested on time. Values are typical label intervals.
+
+ALTER TABLE pest_treatments
+  ADD COLUMN phi_days INTEGER NOT NULL DEFAULT 0 CHECK (phi_days >= 0),
+  ADD COLUMN rei_hours INTEGER NOT NULL DEFAULT 0 CHECK (rei_hours >= 0);
+
+UPDATE pest_treatments AS t
+SET phi_days = v.phi_days,
+    rei_hours = v.rei_hours
+FROM (VALUES
+  ('neem_oil', 0, 4),
+  ('bt_spray', 0, 4),
+  ('trichoderma', 0, 4),
+  ('imidacloprid', 7, 12),
+  ('lambda_cyhalothrin', 5, 24),
+  ('abamectin', 7, 12),
+  ('mancozeb', 5, 24),
+  ('wettable_sulphur', 1, 24)
+) AS v(id, phi_days, rei_hours)
+WHERE t.id = v.id;
@@ -0,0 +1,129 @@
+-- Regional pest outbreaks: recent pest battles near a point, clustered by
+-- the centroids of the plots they were fought on. Battles are private, so
+-- the outbreak query runs as definer and only ever returns anonymous
+-- aggregates: no user, plot or battle ids, clusters of fewer than three
+-- farms left out, and cluster centres rounded to about a kilometre. The
+-- query point is rounded to the same grid and the radius and cluster
+-- distance have floors, so moving the point around cannot pin a centre
+-- down any finer.
+
+CREATE INDEX IF NOT EXISTS idx_pest_battles_created_at ON pest_battles(created_at DESC);
+
+-- Outbreaks whose centre is within radius_km of a point. Battles started in
+-- the last `days` days are clustered per pest; plots within cluster_km of
+-- each other join one cluster. includes_own tells the caller whether one of
+-- the farms is their own.
+CREATE OR REPLACE FUNCTION get_pest_outbreaks_near(
+    latitude DOUBLE PRECISION,
+    longitude DOUBLE PRECISION,
+    radius_km DOUBLE PRECISION DEFAULT 25,
+    days INTEGER DEFAULT 14,
+    min_farms INTEGER DEFAULT 3,
+    cluster_km DOUBLE PRECISION DEFAULT 5
+)
+RETURNS TABLE(
+    pest_type TEXT,
+    pest_name TEXT,
+    farm_count INTEGER,
+    report_count INTEGER,
+    active_count INTEGER,
+    high_severity_count INTEGER,
+    center_latitude DOUBLE PRECISION,
+    center_longitude DOUBLE PRECISION,
+    distance_km DOUBLE PRECISION,
+    first_reported_at TIMESTAMP WITH TIME ZONE,
+    last_reported_at TIMESTAMP WITH TIME ZONE,
+    includes_own BOOLEAN
+) AS $$
+DECLARE
+    origin GEOGRAPHY;
+    metric_srid INTEGER;
+BEGIN
+    IF radius_km < 5 OR radius_km > 200 THEN
+        RAISE EXCEPTION 'Radius must be between 5 and 200 km';
+    END IF;
+    IF days < 1 OR days > 90 THEN
+        RAISE EXCEPTION 'Days must be between 1 and 90';
+    END IF;
+    IF cluster_km < 1 OR cluster_km > 50 THEN
+        RAISE EXCEPTION 'Cluster distance must be between 1 and 50 km';
+    END IF;
+
+    origin := ST_SetSRID(ST_MakePoint(
+        ROUND(longitude::NUMERIC, 2)::DOUBLE PRECISION,
+        ROUND(latitude::NUMERIC, 2)::DOUBLE PRECISION
+    ), 4326)::geography;
+    -- UTM zone of the point: everything clustered lies within a few hundred
+    -- km of it, close enough for the zone to keep distances in metres
+    metric_srid := CASE WHEN latitude >= 0 THEN 32600 ELSE 32700 END
+        + LEAST(60, FLOOR((longitude + 180) / 6)::INTEGER + 1);
+
+    RETURN QUERY
+    WITH reports AS (
+        -- Far enough out that clusters straddling the radius are whole
+        SELECT b.user_id, b.pest_type, b.pest_name, b.severity, b.status, b.created_at,
+               ST_Centroid(p.geometry) AS centroid
+        FROM pest_battles b
+        JOIN plots p ON p.id = b.plot_id
+        WHERE b.created_at >= NOW() - make_interval(days => days)
+          AND ST_DWithin(p.geometry::geography, origin, (radius_km + cluster_km) * 1000)
+    ),
+    clustered AS (
+        -- DBSCAN measures in the units of the geometry's CRS, hence metres
+        SELECT r.*,
+               ST_ClusterDBSCAN(ST_Transform(r.centroid, metric_srid), eps := cluster_km * 1000, minpoints := 1)
+                 OVER (PARTITION BY r.pest_type) AS cluster_id
+        FROM reports r
+    ),
+    outbreaks AS (
+        SELECT c.pest_type,
+               MAX(c.pest_name) AS pest_name,
+               COUNT(DISTINCT c.user_id)::INTEGER AS farm_count,
+               COUNT(*)::INTEGER AS report_count,
+               COUNT(*) FILTER (WHERE c.status = 'active')::INTEGER AS active_count,
+               COUNT(*) FILTER (WHERE c.severity = 'high')::INTEGER AS high_severity_count,
+               -- Rounded before anything else uses it, so neither the
+               -- distance nor the radius filter gives the exact centre away
+               ST_SetSRID(ST_MakePoint(
+                   ROUND(ST_X(ST_Centroid(ST_Collect(c.centroid)))::NUMERIC, 2)::DOUBLE PRECISION,
+                   ROUND(ST_Y(ST_Centroid(ST_Collect(c.centroid)))::NUMERIC, 2)::DOUBLE PRECISION
+               ), 4326) AS center,
+               MIN(c.created_at) AS first_reported_at,
+               MAX(c.created_at) AS last_reported_at,
+               bool_or(c.user_id = auth.uid()) AS includes_own
+        FROM clustered c
+        GROUP BY c.pest_type, c.cluster_id
+        HAVING COUNT(DISTINCT c.user_id) >= GREATEST(min_farms, 3)
+    )
+    SELECT o.pest_type, o.pest_name, o.farm_count, o.report_count, o.active_count, o.high_severity_count,
+           ST_Y(o.center),
+           ST_X(o.center),
+           ROUND((ST_Distance(o.center::geography, origin) / 1000)::NUMERIC, 1)::DOUBLE PRECISION,
+           o.first_reported_at, o.last_reported_at, o.includes_own
+    FROM outbreaks o
+    WHERE ST_DWithin(o.center::geography, origin, radius_km * 1000)
+    ORDER BY o.farm_count DESC, o.last_reported_at DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION get_pest_outbreaks_near(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, INTEGER, INTEGER, DOUBLE PRECISION) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_pest_outbreaks_near(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, INTEGER, INTEGER, DOUBLE PRECISION) TO authenticated;
+
+-- Outbreak alerts already sent, so a user hears about each pest near them
+-- once per outbreak rather than on every check
+CREATE TABLE pest_outbreak_alerts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  pest_type TEXT NOT NULL CHECK (length(pest_type) >= 1 AND length(pest_type) <= 50),
+  farm_count INTEGER NOT NULL CHECK (farm_count > 0),
+  center_latitude DOUBLE PRECISION NOT NULL,
+  center_longitude DOUBLE PRECISION NOT NULL,
+  notified_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_pest_outbreak_alerts_user ON pest_outbreak_alerts(user_id, pest_type, notified_at DESC);
+
+ALTER TABLE pest_outbreak_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own outbreak alerts" ON pest_outbreak_alerts
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
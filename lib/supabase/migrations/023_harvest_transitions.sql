@@ -0,0 +1,36 @@
+-- Harvesting a crop: its move to harvested and its harvest record are saved
+-- together, so a harvest is never left recorded against a crop whose move
+-- failed, and a retry can't record it twice.
+
+-- Apply a transition (see transition_crop) and save a harvest record in
+-- one transaction. The record is a harvest_records row as prepared by the
+-- app; its crop and plot are taken from the crop.
+CREATE OR REPLACE FUNCTION transition_crop_with_harvest(
+    p_crop_id UUID,
+    p_from_status crop_status,
+    p_from_stage growth_stage,
+    p_to_status crop_status,
+    p_to_stage growth_stage,
+    p_occurred_on DATE,
+    p_notes TEXT,
+    p_harvest JSONB
+)
+RETURNS crop_transitions AS $$
+DECLARE
+    transition crop_transitions%ROWTYPE;
+BEGIN
+    transition := transition_crop(
+        p_crop_id, p_from_status, p_from_stage, p_to_status, p_to_stage, p_occurred_on, p_notes
+    );
+
+    INSERT INTO harvest_records (
+        crop_id, plot_id, user_id, harvested_at, weight_kg, grade, moisture_pct, area_hectares, notes
+    )
+    SELECT c.id, c.plot_id, transition.user_id, h.harvested_at, h.weight_kg, h.grade, h.moisture_pct,
+           h.area_hectares, h.notes
+    FROM crops c, jsonb_populate_record(NULL::harvest_records, p_harvest) h
+    WHERE c.id = p_crop_id;
+
+    RETURN transition;
+END;
+$$ LANGUAGE plpgsql;
@@ -37,7 +37,7 @@ CREATE TABLE plots (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
   name TEXT NOT NULL,
-  geometry GEOMETRY(POLYGON, 4326) NOT NULL,
+  geometry GEOMETRY(GEOMETRY, 4326) NOT NULL CHECK (GeometryType(geometry) IN ('POLYGON', 'MULTIPOLYGON')),
   area_hectares DECIMAL(10,4) GENERATED ALWAYS AS (ST_Area(geometry::geography) / 10000) STORED,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
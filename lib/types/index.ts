@@ -16,12 +16,21 @@ export interface User {
   updated_at: string
 }
 
+// Plot boundaries may contain holes (ponds, buildings) or be split into
+// several parts (a field divided by a road)
+export type PlotGeometry = GeoJSON.Polygon | GeoJSON.MultiPolygon
+
 export interface Plot {
   id: string
   user_id: string
   name: string
-  geometry: GeoJSON.Polygon
+  description?: string
+  geometry: PlotGeometry
   area_hectares: number
+  soil_type?: string
+  irrigation_type?: string
+  is_active?: boolean
+  crops?: Partial<Crop>[]
   created_at: string
   updated_at: string
 }
@@ -33,12 +42,99 @@ export interface Crop {
   variety?: string
   sown_date: string
   expected_harvest_date?: string
+  actual_harvest_date?: string
   status: 'planted' | 'growing' | 'flowering' | 'ready' | 'harvested'
   growth_stage: 'seedling' | 'vegetative' | 'flowering' | 'fruiting' | 'mature'
+  quantity_planted?: number
+  quantity_harvested?: number // kg, the total of the crop's harvest records
+  notes?: string
+  // Share of the plot the crop takes. Without it (or a sub-area) the crop
+  // takes the whole plot.
+  area_fraction?: number
+  sub_geometry?: PlotGeometry
+  preceded_by?: string // crop this one is sown after, in a succession chain
   created_at: string
   updated_at: string
 }
 
+// Crop phenology: growth stages driven by growing degree days (GDD), the
+// daily mean temperature above a crop's base temperature summed since sowing
+export interface CropStageRequirement {
+  stage: Crop['growth_stage']
+  days: number // typical length of the stage
+  gdd: number // degree days needed to complete the stage
+}
+
+export interface CropVarietyProfile {
+  name: string
+  // Length of the season relative to the crop's typical variety
+  maturity_scale?: number
+  stages?: CropStageRequirement[]
+}
+
+export interface CropProfile {
+  name: string
+  aliases: string[]
+  base_temperature_c: number
+  // Development stops speeding up above this temperature
+  max_temperature_c: number
+  // Sowing to emergence, before the seedling stage starts
+  emergence: { days: number; gdd: number }
+  stages: CropStageRequirement[]
+  // How long the crop can stay in the field once mature
+  harvest_window_days: number
+  water: CropWaterProfile
+  // Grain moisture that market weights are quoted at
+  standard_moisture_pct?: number
+  varieties: CropVarietyProfile[]
+}
+
+// FAO-56 crop water use parameters
+export interface CropWaterProfile {
+  kc_initial: number
+  kc_mid: number
+  kc_end: number
+  root_depth_m: number // at full size
+  // Share of the soil's available water the crop can use before it is stressed
+  depletion_fraction: number
+}
+
+export interface CropPhenologyModel extends Omit<CropProfile, 'aliases' | 'varieties'> {
+  variety?: string
+  // No catalog entry matched, so generic durations are used
+  generic: boolean
+}
+
+export interface DailyTemperature {
+  date: string
+  min: number
+  max: number
+}
+
+export interface CropStageDates {
+  stage: Crop['growth_stage']
+  start_date: string
+  end_date: string
+  gdd_start: number
+  gdd_end: number
+  status: 'completed' | 'current' | 'pending'
+}
+
+export interface CropPhenology {
+  crop: string
+  variety?: string
+  generic: boolean
+  base_temperature_c: number
+  accumulated_gdd: number
+  required_gdd: number
+  progress: number
+  current_stage: Crop['growth_stage'] | null
+  stages: CropStageDates[]
+  harvest_window: { start: string; end: string }
+  // Days of the season without weather data, filled in at a typical rate
+  estimated_days: number
+}
+
 export interface XPLog {
   id: string
   user_id: string
@@ -48,6 +144,12 @@ export interface XPLog {
   created_at: string
 }
 
+export interface XPAward {
+  xp_log_id?: string
+  xp_awarded: number
+  applied: boolean // false when an earlier award with the same key stands
+}
+
 export interface Clan {
   id: string
   name: string
@@ -63,6 +165,8 @@ export interface WeatherData {
     latitude: number
     longitude: number
   }
+  // Day the record describes, set on historical data
+  date?: string
   current: {
     temperature: number
     humidity: number
@@ -80,6 +184,7 @@ export interface WeatherForecast {
   temperature_max: number
   humidity: number
   precipitation_chance: number
+  precipitation_mm?: number // expected if it rains
   description: string
   icon: string
 }
@@ -109,13 +214,118 @@ export interface PestBattle {
   user_id: string
   plot_id: string
   pest_type: string
+  pest_name?: string
   severity: 'low' | 'medium' | 'high'
   status: 'active' | 'resolved'
   xp_reward: number
+  treatment_used?: string
+  success_rate?: number // share of the pest controlled, 0-1
+  // Battle engine state: the pest's health, its resistance to treatments
+  // and the daily turns played against it
+  hp?: number
+  max_hp?: number
+  resistance?: number // share of a treatment's effect the pest shrugs off
+  turns_played?: number
+  max_turns?: number
+  last_turn_on?: string
   created_at: string
   resolved_at?: string
 }
 
+export interface PestTypeInfo {
+  name: string
+  description: string
+  commonCrops: string[]
+  baseXP: number
+  hp: number // at low severity
+  resistance: number
+}
+
+export interface PestTreatment {
+  id: string
+  name: string
+  kind: 'chemical' | 'biological'
+  resource_type: ResourceType // stock the dose is drawn from
+  dose_per_hectare: number
+  unit: string
+  efficacy: Record<string, number> // share of a pest's HP removed, by pest type
+  default_efficacy: number // against pests the table doesn't list
+  resistance_buildup: number // added to the pest's resistance on each use
+  phi_days: number // pre-harvest interval: days from spraying to harvest
+  rei_hours: number // re-entry interval: hours before anyone works the field
+  description?: string
+}
+
+// Integrated pest management: what to do about a pest, from practices that
+// need no inputs through biological controls to chemicals as a last resort
+export type IpmOptionKind = 'cultural' | 'biological' | 'chemical'
+
+// A practice that needs nothing from the user's stock
+export interface IpmPractice {
+  id: string
+  name: string
+  kind: 'cultural' | 'biological'
+  description: string
+}
+
+export interface IpmGuide {
+  action_threshold: string // when the pest is worth treating
+  practices: IpmPractice[]
+}
+
+export interface IpmOption {
+  kind: IpmOptionKind
+  name: string
+  description?: string
+  practice_id?: string
+  treatment_id?: string
+  efficacy?: number
+  dose?: number // for the plot, in the treatment's unit
+  unit?: string
+  resource_type?: ResourceType
+  in_stock?: boolean
+  phi_days: number
+  rei_hours: number
+  earliest_harvest?: string // when the PHI ends if applied today
+  violates_phi: boolean
+  available: boolean // in stock and clear of the PHI
+  warnings: string[]
+}
+
+export interface IpmRecommendation {
+  plot_id: string
+  pest_type: string
+  pest_name: string
+  crop_id?: string
+  crop_name?: string
+  expected_harvest_date?: string
+  action_threshold: string
+  options: IpmOption[]
+}
+
+export interface PestBattleTurn {
+  id: string
+  battle_id: string
+  user_id: string
+  turn_number: number
+  played_on: string
+  treatment_id: string
+  dose: number // in the treatment's unit
+  efficacy: number
+  regrowth: number // HP the pest regained since the last turn
+  damage: number
+  hp_before: number
+  hp_after: number
+  xp_awarded: number // set on the turn that ends the battle
+  created_at: string
+}
+
+export interface PestBattleTurnResult {
+  battle: PestBattle
+  turn: PestBattleTurn
+  xpAwarded: number
+}
+
 export interface Badge {
   id: string
   name: string
@@ -145,7 +355,784 @@ export interface ServiceError {
   resource?: string
 }
 
-export type NotificationType = 
+export type GeometryIssueCode =
+  | 'INVALID_STRUCTURE'
+  | 'TOO_FEW_POINTS'
+  | 'RING_NOT_CLOSED'
+  | 'DUPLICATE_VERTEX'
+  | 'SPIKE'
+  | 'WRONG_WINDING'
+  | 'SELF_INTERSECTION'
+  | 'HOLE_OUTSIDE_SHELL'
+  | 'ZERO_AREA'
+  | 'AREA_TOO_SMALL'
+  | 'AREA_TOO_LARGE'
+
+export interface GeometryValidationIssue extends ServiceError {
+  type: 'VALIDATION_ERROR'
+  code: GeometryIssueCode
+  severity: 'error' | 'warning'
+  fixable: boolean
+  location?: {
+    part: number
+    ring: number
+    vertex?: number
+  }
+}
+
+export interface PlotValidationOptions {
+  autoFix?: boolean // close rings, drop duplicate vertices and spikes, rewind
+  minAreaHectares?: number
+  maxAreaHectares?: number
+}
+
+export interface GeometryValidationResult {
+  valid: boolean
+  issues: GeometryValidationIssue[]
+  geometry: PlotGeometry // repaired geometry when auto-fix was requested
+  repaired: boolean
+  area_hectares: number
+}
+
+export interface PlotOverlap {
+  plot_id: string
+  plot_name: string
+  overlap_area_hectares: number
+  overlap_geometry: PlotGeometry
+}
+
+export interface PlotAdjacency {
+  plot_id: string
+  plot_name: string
+  shared_boundary_meters: number
+}
+
+export interface PlotOverlapReport {
+  overlaps: PlotOverlap[]
+  adjacent: PlotAdjacency[] // plots that share a boundary without overlapping
+  total_overlap_hectares: number
+}
+
+export interface PlotSnapOptions {
+  toleranceMeters?: number // vertices closer than this snap onto a neighbour
+  excludePlotId?: string // the plot being edited
+}
+
+export interface PlotSnapResult {
+  geometry: PlotGeometry
+  snappedVertices: number // vertices moved onto a neighbour
+  insertedVertices: number // neighbour corners added along shared edges
+}
+
+export interface BoundingBox {
+  north: number
+  south: number
+  east: number
+  west: number // greater than east when the box crosses the antimeridian
+}
+
+export interface PlotWithDistance extends Plot {
+  distance_meters: number // from the query point to the nearest edge, 0 inside
+}
+
+export interface ClanMemberPlot extends PlotWithDistance {
+  owner_name: string
+}
+
+export interface PlotSpatialQueryOptions {
+  userId?: string // only this user's plots; otherwise every plot the caller can see
+  limit?: number
+}
+
+export interface PlotPageOptions {
+  userId?: string
+  page?: number // 1-based
+  pageSize?: number
+}
+
+export interface PlotPage {
+  plots: Plot[]
+  page: number
+  pageSize: number
+  total: number
+  hasMore: boolean
+}
+
+export type PlotTileFormat = 'geojson' | 'mvt'
+
+export interface PlotTileOptions {
+  format?: PlotTileFormat // defaults to geojson
+  userId?: string // only this user's plots; otherwise every plot the caller can see
+}
+
+export interface PlotTile {
+  z: number
+  x: number
+  y: number
+  format: PlotTileFormat
+  mimeType: string
+  data: GeoJSON.FeatureCollection<PlotGeometry> | Uint8Array
+  featureCount: number
+  cached: boolean // served from the tile cache
+}
+
+export type PlotFileFormat = 'geojson' | 'kml' | 'kmz' | 'shapefile'
+
+export interface PlotFile {
+  name: string
+  data: Uint8Array | string // zipped formats must be binary
+}
+
+// Source attribute to read each plot field from
+export interface PlotFieldMapping {
+  name?: string
+  description?: string
+  soil_type?: string
+  irrigation_type?: string
+}
+
+export interface PlotImportOptions {
+  format?: PlotFileFormat // detected from the file name or content when omitted
+  fieldMapping?: PlotFieldMapping
+  dryRun?: boolean // validate and map features without creating plots
+  validation?: PlotValidationOptions
+}
+
+export interface PlotImportFeatureResult {
+  index: number
+  name: string
+  status: 'valid' | 'created' | 'failed'
+  geometry?: PlotGeometry
+  area_hectares?: number
+  plot?: Plot
+  errors: string[]
+  warnings: string[]
+}
+
+export interface PlotImportResult {
+  format: PlotFileFormat
+  dryRun: boolean
+  total: number
+  succeeded: number
+  failed: number
+  features: PlotImportFeatureResult[]
+}
+
+export interface PlotExportFile {
+  filename: string
+  mimeType: string
+  data: Uint8Array | string
+}
+
+export type PlotLineageOperation = 'split' | 'merge'
+
+// Links an archived plot to a plot that replaced it
+export interface PlotLineage {
+  id: string
+  user_id: string
+  operation: PlotLineageOperation
+  parent_plot_id: string
+  child_plot_id: string
+  created_at: string
+}
+
+export interface GPSFix extends Location {
+  accuracy: number // horizontal accuracy in meters (68% confidence radius)
+  timestamp: string
+}
+
+export type TrackFixRejection = 'low_accuracy' | 'too_fast' | 'duplicate' | 'out_of_order'
+
+export interface TrackFixResult {
+  accepted: boolean
+  reason?: TrackFixRejection
+}
+
+export interface TrackRecordingOptions {
+  maxAccuracyMeters?: number // fixes less accurate than this are dropped
+  maxSpeedMetersPerSecond?: number // faster jumps are treated as GPS outliers
+  minSpacingMeters?: number // closer fixes count as standing still
+  smoothing?: boolean // accuracy-weighted smoothing before simplification
+  simplifyToleranceMeters?: number
+  maxClosingGapMeters?: number // warn when the walk ends further from the start
+}
+
+export interface TrackPolygonResult {
+  geometry: GeoJSON.Polygon
+  area_hectares: number
+  area_error_hectares: number // area is area_hectares ± area_error_hectares
+  perimeter_meters: number
+  closing_gap_meters: number
+  fixes: {
+    total: number
+    accepted: number
+    rejected: Record<TrackFixRejection, number>
+  }
+  warnings: string[]
+}
+
+export interface SoilMicronutrients {
+  zinc?: number // ppm (mg/kg)
+  iron?: number
+  manganese?: number
+  copper?: number
+  boron?: number
+  sulphur?: number
+}
+
+export interface SoilTest {
+  id: string
+  plot_id: string
+  sampled_at: string // YYYY-MM-DD
+  lab_name?: string
+  sample_id?: string
+  depth_cm?: number
+  ph?: number
+  nitrogen_kg_ha?: number // available N
+  phosphorus_kg_ha?: number // available P (not P2O5)
+  potassium_kg_ha?: number // available K (not K2O)
+  organic_carbon_pct?: number
+  ec_ds_m?: number // electrical conductivity
+  micronutrients: SoilMicronutrients
+  notes?: string
+  created_at: string
+}
+
+export type SoilParameter =
+  | 'ph'
+  | 'nitrogen_kg_ha'
+  | 'phosphorus_kg_ha'
+  | 'potassium_kg_ha'
+  | 'organic_carbon_pct'
+  | 'ec_ds_m'
+  | keyof SoilMicronutrients
+
+export type SoilRating = 'low' | 'medium' | 'high'
+
+export interface SoilAssessment {
+  ratings: Partial<Record<SoilParameter, SoilRating>>
+  ph_class?: 'strongly_acidic' | 'acidic' | 'neutral' | 'alkaline' | 'strongly_alkaline'
+  saline: boolean
+  recommendations: string[]
+}
+
+export interface SoilCsvImportOptions {
+  dateFormat?: 'DMY' | 'MDY' // for slash or dash dates; ISO dates are always accepted
+  dryRun?: boolean // parse and convert rows without saving them
+}
+
+export interface SoilCsvRowResult {
+  row: number // 1-based row number in the file, the header being row 1
+  status: 'valid' | 'created' | 'failed'
+  test?: Omit<SoilTest, 'id' | 'created_at'> | SoilTest
+  errors: string[]
+  warnings: string[]
+}
+
+export interface SoilCsvImportResult {
+  dryRun: boolean
+  total: number
+  succeeded: number
+  failed: number
+  rows: SoilCsvRowResult[]
+  unmappedColumns: string[]
+}
+
+export interface SoilTrendPoint {
+  season: string // e.g. "2023 kharif"
+  sampled_at: string // latest sample of the season
+  value: number // mean of the season's samples
+  samples: number
+}
+
+export interface SoilTrend {
+  parameter: SoilParameter
+  points: SoilTrendPoint[]
+  change: number // last season minus first season
+  change_per_year: number // least-squares slope
+  direction: 'rising' | 'falling' | 'stable'
+}
+
+export type ResourceType = 'water' | 'fertilizer' | 'pesticide' | 'biocontrol' | 'seeds'
+
+export interface Resource {
+  id: string
+  user_id: string
+  resource_type: ResourceType
+  quantity: number
+  unit: string
+  cost_per_unit?: number
+  supplier?: string
+  purchase_date?: string
+  expiry_date?: string
+  updated_at: string
+}
+
+export type CareActionType = 'watering' | 'fertilizing' | 'pest_control' | 'pruning' | 'weeding'
+
+export interface CareAction {
+  id: string
+  user_id: string
+  plot_id: string
+  crop_id?: string
+  action_type: CareActionType
+  performed_at: string
+  quantity?: number
+  unit?: string
+  product?: string // fertilizer or pesticide used
+  cost?: number
+  operator?: string // who did the work
+  notes?: string
+  // Stock drawn down from the user's resources, in the resource's unit
+  resource_id?: string
+  resource_quantity?: number
+  created_at: string
+  updated_at: string
+}
+
+// The plot may be left out when the action is for a crop, and the user
+// defaults to the plot's owner
+export type CareActionInput = Omit<
+  CareAction,
+  'id' | 'user_id' | 'plot_id' | 'performed_at' | 'resource_id' | 'resource_quantity' | 'created_at' | 'updated_at'
+> & { user_id?: string; plot_id?: string; performed_at?: string }
+
+export type CareActionUpdate = Partial<
+  Pick<CareAction, 'action_type' | 'performed_at' | 'quantity' | 'unit' | 'product' | 'cost' | 'operator' | 'notes'>
+>
+
+export interface CareActionFilter {
+  plotId?: string
+  cropId?: string
+  actionType?: CareActionType
+  from?: string
+  to?: string
+}
+
+export interface CareUsage {
+  action_type: CareActionType
+  unit?: string
+  quantity: number
+  cost: number
+  actions: number
+}
+
+export type IrrigationMethod = 'drip' | 'sprinkler' | 'surface' | 'rainfed'
+
+export interface IrrigationDay {
+  date: string
+  et0_mm: number // reference evapotranspiration (Hargreaves)
+  kc: number // crop coefficient for the day's growth stage
+  etc_mm: number // crop water use, et0 x kc
+  rain_mm: number // forecast rain weighted by its chance
+  depletion_mm: number // root zone water deficit at the end of the day
+}
+
+export interface IrrigationEvent {
+  date: string
+  net_depth_mm: number // water the root zone needs
+  gross_depth_mm: number // water to apply, allowing for method losses
+  volume_liters: number
+}
+
+export interface IrrigationSchedule {
+  plot_id: string
+  crop_id?: string
+  method: IrrigationMethod
+  efficiency: number
+  total_available_water_mm: number
+  readily_available_water_mm: number
+  initial_depletion_mm: number
+  days: IrrigationDay[]
+  events: IrrigationEvent[]
+  needs_water_today: boolean
+  notes: string[]
+}
+
+export interface HarvestRecord {
+  id: string
+  crop_id: string
+  plot_id: string
+  user_id: string
+  harvested_at: string
+  weight_kg: number
+  grade?: string
+  moisture_pct?: number
+  area_hectares: number // area harvested; the plot's area when not given
+  notes?: string
+  created_at: string
+}
+
+export type HarvestInput = Partial<Pick<HarvestRecord, 'harvested_at' | 'grade' | 'moisture_pct' | 'area_hectares' | 'notes'>> &
+  Pick<HarvestRecord, 'weight_kg'>
+
+// A harvest record with the crop and plot it came from
+export interface CropHarvestRecord extends HarvestRecord {
+  crop_name: string
+  variety?: string
+  sown_date: string
+  plot_name: string
+}
+
+export interface HarvestFilter {
+  plotId?: string
+  from?: string
+  to?: string
+}
+
+export interface YieldFilter extends HarvestFilter {
+  cropName?: string
+  season?: string // as given by getCropSeason, e.g. '2024 kharif'
+}
+
+export interface CropYield {
+  crop_id: string
+  crop_name: string
+  variety?: string
+  plot_id: string
+  plot_name: string
+  season: string
+  sown_date: string
+  area_hectares: number
+  harvested_kg: number
+  // Adjusted to the crop's standard moisture where readings were taken
+  adjusted_kg: number
+  yield_kg_ha: number
+  harvests: number
+  grades: Record<string, number> // kg per grade
+}
+
+export type YieldGroupBy = 'season' | 'variety' | 'plot'
+
+export interface YieldComparison {
+  crop_name: string
+  group: string
+  crops: number
+  area_hectares: number
+  adjusted_kg: number
+  yield_kg_ha: number // total weight over total area
+  min_yield_kg_ha: number
+  max_yield_kg_ha: number
+}
+
+export interface ClanYieldBenchmark {
+  crop_name: string
+  season?: string
+  members: number // clan members with a harvest of the crop
+  user_yield_kg_ha: number | null
+  clan_average_kg_ha: number | null
+  clan_median_kg_ha: number | null
+  clan_best_kg_ha: number | null
+  rank: number | null // 1 is the clan's best yield
+}
+
+// Crop rotation rules. Seasons are counted as in getCropSeasonIndex, so a
+// crop grown in the same season a year later is 3 seasons on.
+export interface FamilyIntervalRule {
+  id: string
+  type: 'family_interval'
+  family: string
+  min_seasons: number // seasons before the family may follow itself
+  penalty: number
+}
+
+// A disease carried in the soil between any of its host crops
+export interface BreakCropRule {
+  id: string
+  type: 'break_crop'
+  disease: string
+  hosts: string[] // crop families or crop names
+  min_seasons: number
+  break_crops: string[] // suggested non-hosts
+  penalty: number
+}
+
+// Nitrogen left behind by a legume for the crops after it
+export interface LegumeCreditRule {
+  id: string
+  type: 'legume_credit'
+  within_seasons: number
+  beneficiaries: string[] // crop families that make use of the nitrogen
+  nitrogen_credit_kg_ha: number
+  bonus: number
+}
+
+export type RotationRule = FamilyIntervalRule | BreakCropRule | LegumeCreditRule
+
+export type RotationIssueCode = 'FAMILY_REPEAT' | 'DISEASE_BREAK'
+
+export interface RotationCropRef {
+  id: string
+  name: string
+  season: string
+}
+
+export interface RotationIssue extends ServiceError {
+  type: 'VALIDATION_ERROR'
+  code: RotationIssueCode
+  severity: 'warning'
+  rule_id: string
+  conflicting_crop: RotationCropRef
+  seasons_since: number
+  required_seasons: number
+}
+
+export interface RotationCredit {
+  rule_id: string
+  source_crop: RotationCropRef
+  nitrogen_credit_kg_ha: number
+  message: string
+}
+
+export interface RotationEvaluation {
+  crop_name: string
+  family?: string
+  season: string
+  score: number // 0-100
+  issues: RotationIssue[]
+  credits: RotationCredit[]
+}
+
+export interface RotationPlotProposal {
+  plot_id: string
+  plot_name: string
+  previous_crop?: RotationCropRef
+  proposal: RotationEvaluation | null // null when no candidate suits the season
+  alternatives: RotationEvaluation[]
+}
+
+export interface RotationPlan {
+  season: string
+  assignments: RotationPlotProposal[]
+  average_score: number | null
+}
+
+export interface RotationPlanOptions {
+  season?: string // defaults to the season after the current one
+  candidates?: string[]
+  alternatives?: number
+}
+
+// A predicted date and its confidence interval
+export interface PredictedDate {
+  date: string
+  earliest: string
+  latest: string
+}
+
+// Harvest window predicted from the crop's phenology projection
+export interface HarvestWindowEstimate {
+  window_open: PredictedDate
+  window_close: PredictedDate
+  confidence_level: number // of the intervals, e.g. 0.8
+  // Share of the season's days with recorded or forecast weather; the rest
+  // are assumed to develop at a typical or recent rate
+  measured_share: number
+  accumulated_gdd: number
+  required_gdd: number
+  generic: boolean // no catalog entry for the crop
+}
+
+// One day's prediction for a crop, with the reminders scheduled for it
+export interface HarvestPrediction extends HarvestWindowEstimate {
+  id: string
+  crop_id: string
+  user_id: string
+  predicted_on: string
+  open_reminder_id?: string
+  close_reminder_id?: string
+  created_at: string
+}
+
+// Crop lifecycle: status and growth stage changes, recorded as they happen
+export interface CropTransition {
+  id: string
+  crop_id: string
+  user_id: string
+  from_status: Crop['status']
+  to_status: Crop['status']
+  from_stage: Crop['growth_stage']
+  to_stage: Crop['growth_stage']
+  occurred_on: string // the day the crop changed, which may be before it was recorded
+  notes?: string
+  created_at: string
+}
+
+export interface CropTransitionOptions {
+  occurred_on?: string // defaults to today
+  notes?: string
+}
+
+export interface CropTransitionEvent {
+  crop: Crop // as it is after the transition
+  transition: CropTransition
+}
+
+// Side effects of a transition, run once it is saved
+export type CropTransitionHook = (event: CropTransitionEvent) => void | Promise<void>
+
+// A side effect (XP, badges, a notification) applied once per idempotency key
+export interface LifecycleEffect {
+  idempotency_key: string
+  user_id: string
+  status: 'pending' | 'completed'
+  result?: any
+  claimed_at: string
+  completed_at?: string
+}
+
+export interface LifecycleEffectsResult {
+  transition_id: string
+  xp_awarded: number
+  badges: Badge[]
+  notified: boolean
+  skipped: string[] // idempotency keys already applied by an earlier run
+}
+
+// Crop health photo journal. A photo belongs to a plot and, optionally, to
+// one of its crops or pest battles.
+export type StorageProviderName = 'mock' | 'supabase' | 'aws-s3'
+
+export interface MediaItem {
+  id: string
+  user_id: string
+  plot_id: string
+  crop_id?: string
+  pest_battle_id?: string
+  storage_provider: StorageProviderName
+  storage_path: string
+  thumbnail_path?: string
+  content_type: string
+  size_bytes: number
+  width?: number
+  height?: number
+  orientation?: number // EXIF orientation, 1-8
+  taken_at: string // from the photo's EXIF, or when it was added
+  location?: Location // where the photo was taken, from its EXIF GPS
+  caption?: string
+  created_at: string
+  url?: string // signed, short-lived
+  thumbnail_url?: string
+}
+
+export interface MediaUploadInput {
+  content: Uint8Array
+  content_type: string
+  plot_id?: string
+  crop_id?: string
+  pest_battle_id?: string
+  caption?: string
+  taken_at?: string // overrides the EXIF time
+}
+
+export interface MediaFilter {
+  plotId?: string
+  cropId?: string
+  pestBattleId?: string
+  from?: string
+  to?: string
+}
+
+// Makes a small JPEG preview of a photo, or null when it cannot. Supplied
+// by the app (e.g. an image manipulator on React Native); none ships here.
+export type ThumbnailGenerator = (content: Uint8Array, contentType: string) => Promise<Uint8Array | null>
+
+// An upload waiting in the offline action queue
+export interface QueuedMediaUpload {
+  id: string // the media id it will be saved under
+  taken_at: string
+  location?: Location
+  size_bytes: number
+}
+
+// Pest and disease risk, modelled day by day from the weather at a plot
+export interface RiskWeatherDay {
+  date: string
+  min: number
+  max: number
+  humidity: number // mean relative humidity, %
+  rain_mm: number // forecast rain weighted by its chance; 0 for past days
+  forecast: boolean
+}
+
+export type PestRiskLevel = 'low' | 'medium' | 'high'
+
+export interface PestRiskModel {
+  id: string
+  pest_type: string // the pest catalog entry battles are filed under
+  kind: 'insect' | 'disease'
+  host_crops: string[]
+  // Risk from 0 to 1 for each day, given every day since sowing
+  evaluate(days: RiskWeatherDay[]): number[]
+}
+
+// Degree-day development model of an insect pest, counted from sowing
+export interface DegreeDayModelParams {
+  base_c: number
+  upper_c: number
+  emergence_dd: number // degree days until the first damaging generation
+  optimal_daily_dd: number // a day this warm is peak activity
+  max_humidity?: number // activity drops above this humidity
+}
+
+export interface PestRiskDay {
+  date: string
+  score: number
+  level: PestRiskLevel
+  forecast: boolean
+}
+
+export interface CropPestRisk {
+  plot_id: string
+  crop_id: string
+  crop_name: string
+  model_id: string
+  pest_type: string
+  kind: PestRiskModel['kind']
+  today: PestRiskDay | null
+  peak: PestRiskDay | null // highest risk from today on
+  days: PestRiskDay[] // the last week and the forecast
+}
+
+export interface PestRiskRefresh {
+  plot_id: string
+  risks: CropPestRisk[]
+  battles: PestBattle[] // started because today's risk crossed the threshold
+}
+
+// An anonymous cluster of recent pest battles on nearby farms
+export interface PestOutbreak {
+  pest_type: string
+  pest_name: string
+  farm_count: number
+  report_count: number
+  active_count: number
+  high_severity_count: number
+  center: Location // rounded to about a kilometre
+  distance_km: number // from the query point to the centre
+  first_reported_at: string
+  last_reported_at: string
+  includes_own: boolean // one of the farms is the caller's
+}
+
+export interface PestOutbreakQueryOptions {
+  radiusKm?: number // 5 to 200
+  days?: number // how far back battles count
+  minFarms?: number // never fewer than three, so no farm can be singled out
+  clusterKm?: number // farms this close together are one outbreak, 1 to 50
+}
+
+export interface PestOutbreakFeedItem extends PestOutbreak {
+  nearest_plot_id: string
+  nearest_plot_name: string
+}
+
+export interface PestOutbreakAlertOptions {
+  minFarms?: number // other farms that must report the same pest
+  radiusKm?: number
+}
+
+export type NotificationType =
   | 'crop_milestone' 
   | 'weather_alert' 
   | 'xp_reward' 
@@ -153,6 +1140,7 @@ export type NotificationType =
   | 'clan_update' 
   | 'market_alert' 
   | 'pest_battle'
+  | 'pest_outbreak'
   | 'system'
 
 export interface Notification {
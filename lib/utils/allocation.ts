@@ -0,0 +1,63 @@
+// Sub-plot allocation: how much of a plot each crop takes and for how long,
+// so intercropped and succession crops can share a plot without
+// overbooking it
+
+import { Crop } from '../types'
+import { addDays, getCropPhenologyModel, getTypicalSeasonDays } from './phenology'
+
+export type CropOccupancy = Pick<
+  Crop,
+  'id' | 'name' | 'variety' | 'sown_date' | 'expected_harvest_date' | 'actual_harvest_date' | 'area_fraction'
+>
+
+// Shares are stored to four decimals
+const FRACTION_TOLERANCE = 0.0001
+
+/**
+ * Share of its plot a crop takes; crops without an allocation take all of
+ * it. Accepts raw database rows, where decimals come back as strings.
+ */
+export function getCropAreaFraction(crop: Pick<Crop, 'area_fraction'>): number {
+  return crop.area_fraction !== undefined && crop.area_fraction !== null ? Number(crop.area_fraction) : 1
+}
+
+// Rounded to the four decimals plot areas are stored with
+export function getCropAreaHectares(crop: Pick<Crop, 'area_fraction'>, plotAreaHectares: number): number {
+  return Math.round(plotAreaHectares * getCropAreaFraction(crop) * 10000) / 10000
+}
+
+/**
+ * Days a crop holds its ground: from sowing to harvest, or to the end of
+ * its typical season when no harvest date is known. The end day is free.
+ */
+export function getCropOccupancy(crop: CropOccupancy): { start: string; end: string } {
+  const end = crop.actual_harvest_date || crop.expected_harvest_date ||
+    addDays(crop.sown_date, getTypicalSeasonDays(getCropPhenologyModel(crop.name, crop.variety)))
+  return { start: crop.sown_date, end }
+}
+
+/**
+ * Largest share of a plot taken at any one time between two dates
+ */
+export function getPeakAllocation(crops: CropOccupancy[], start: string, end: string): number {
+  const occupancies = crops
+    .map(crop => ({ ...getCropOccupancy(crop), fraction: getCropAreaFraction(crop) }))
+    .filter(occupancy => occupancy.start < end && occupancy.end > start)
+
+  // The total only goes up when a crop is sown
+  const checkpoints = [start, ...occupancies.map(occupancy => occupancy.start).filter(date => date > start)]
+
+  return checkpoints.reduce((peak, date) => {
+    const total = occupancies
+      .filter(occupancy => occupancy.start <= date && occupancy.end > date)
+      .reduce((sum, occupancy) => sum + occupancy.fraction, 0)
+    return Math.max(peak, total)
+  }, 0)
+}
+
+/**
+ * Whether a share of a plot is free over a period, given the other crops
+ */
+export function hasFreeArea(crops: CropOccupancy[], fraction: number, start: string, end: string): boolean {
+  return getPeakAllocation(crops, start, end) + fraction <= 1 + FRACTION_TOLERANCE
+}
@@ -0,0 +1,54 @@
+// Base64 for binary payloads that travel as text (JSON, or file APIs such
+// as Expo's that read and write strings).
+// Works the same in browsers, React Native and Node, none of which share
+// a built-in for bytes.
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+
+const LOOKUP = (() => {
+  const table = new Int16Array(128).fill(-1)
+  for (let i = 0; i < ALPHABET.length; i++) {
+    table[ALPHABET.charCodeAt(i)] = i
+  }
+  return table
+})()
+
+export function encodeBase64(data: Uint8Array): string {
+  let output = ''
+  for (let i = 0; i < data.length; i += 3) {
+    const a = data[i]
+    const b = i + 1 < data.length ? data[i + 1] : 0
+    const c = i + 2 < data.length ? data[i + 2] : 0
+    const triple = (a << 16) | (b << 8) | c
+
+    output += ALPHABET[(triple >> 18) & 63] + ALPHABET[(triple >> 12) & 63]
+    output += i + 1 < data.length ? ALPHABET[(triple >> 6) & 63] : '='
+    output += i + 2 < data.length ? ALPHABET[triple & 63] : '='
+  }
+  return output
+}
+
+export function decodeBase64(text: string): Uint8Array {
+  const clean = text.replace(/[\s=]/g, '')
+  const output = new Uint8Array(Math.floor((clean.length * 3) / 4))
+
+  let buffer = 0
+  let bits = 0
+  let index = 0
+  for (let i = 0; i < clean.length; i++) {
+    const code = clean.charCodeAt(i)
+    const value = code < 128 ? LOOKUP[code] : -1
+    if (value < 0) {
+      throw new Error(`Invalid base64 character: ${clean[i]}`)
+    }
+
+    buffer = (buffer << 6) | value
+    bits += 6
+    if (bits >= 8) {
+      bits -= 8
+      output[index++] = (buffer >> bits) & 0xff
+    }
+  }
+
+  return output.subarray(0, index)
+}
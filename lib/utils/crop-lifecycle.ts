@@ -0,0 +1,142 @@
+// Crop lifecycle state machine: which status a crop can move to next, the
+// order of its growth stages and the guards a transition has to pass, plus
+// what a transition is worth to the farmer (milestones, harvest XP)
+
+import { Crop, CropTransition } from '../types'
+
+type CropState = Pick<Crop, 'status' | 'growth_stage'>
+
+// Statuses only move forward. Crops that never flower go straight from
+// growing to ready.
+export const CROP_STATUS_TRANSITIONS: Record<Crop['status'], Crop['status'][]> = {
+  planted: ['growing'],
+  growing: ['flowering', 'ready'],
+  flowering: ['ready'],
+  ready: ['harvested'],
+  harvested: []
+}
+
+// Stages can be skipped (lettuce never flowers) but never revisited
+export const GROWTH_STAGE_ORDER: Crop['growth_stage'][] = ['seedling', 'vegetative', 'flowering', 'fruiting', 'mature']
+
+// Earliest growth stage each status allows
+const STATUS_MIN_STAGE: Partial<Record<Crop['status'], Crop['growth_stage']>> = {
+  flowering: 'flowering',
+  ready: 'mature',
+  harvested: 'mature'
+}
+
+/**
+ * Whether a crop can move from one status to another in a single step
+ */
+export function canTransition(from: Crop['status'], to: Crop['status']): boolean {
+  return CROP_STATUS_TRANSITIONS[from].includes(to)
+}
+
+/**
+ * Reasons a crop cannot move from one status and stage to another, or an
+ * empty list when the transition is allowed. A transition can keep the
+ * status and only advance the stage, or the other way around.
+ */
+export function getTransitionErrors(from: CropState, to: CropState): string[] {
+  const errors: string[] = []
+
+  if (from.status === to.status && from.growth_stage === to.growth_stage) {
+    return [`Crop is already ${to.status} (${to.growth_stage})`]
+  }
+  if (from.status === 'harvested') {
+    return ['A harvested crop cannot change']
+  }
+
+  if (from.status !== to.status && !canTransition(from.status, to.status)) {
+    const allowed = CROP_STATUS_TRANSITIONS[from.status]
+    errors.push(`Cannot move a crop from ${from.status} to ${to.status} (next: ${allowed.join(' or ')})`)
+  }
+
+  const fromIndex = GROWTH_STAGE_ORDER.indexOf(from.growth_stage)
+  const toIndex = GROWTH_STAGE_ORDER.indexOf(to.growth_stage)
+  if (toIndex < fromIndex) {
+    errors.push(`Growth stage cannot go back from ${from.growth_stage} to ${to.growth_stage}`)
+  }
+
+  const minStage = STATUS_MIN_STAGE[to.status]
+  if (minStage && toIndex < GROWTH_STAGE_ORDER.indexOf(minStage)) {
+    errors.push(`A ${to.status} crop must be at least at the ${minStage} stage`)
+  }
+
+  return errors
+}
+
+// How milestone notifications name the stage a crop reached
+const STAGE_MILESTONES: Record<Crop['growth_stage'], string> = {
+  seedling: 'the seedling stage',
+  vegetative: 'the vegetative stage',
+  flowering: 'flowering',
+  fruiting: 'fruiting',
+  mature: 'maturity'
+}
+
+/**
+ * Milestone a transition marks, for notifications, or undefined when it
+ * marks none. Status milestones win over the stage reached with them.
+ */
+export function getTransitionMilestone(
+  transition: Pick<CropTransition, 'from_status' | 'to_status' | 'from_stage' | 'to_stage'>,
+  quantityHarvested?: number
+): string | undefined {
+  if (transition.to_status === 'harvested' && transition.from_status !== 'harvested') {
+    return quantityHarvested ? `harvest (${quantityHarvested} kg)` : 'harvest'
+  }
+  if (transition.to_status === 'ready' && transition.from_status !== 'ready') {
+    return 'harvest readiness'
+  }
+  if (transition.to_stage !== transition.from_stage) {
+    return STAGE_MILESTONES[transition.to_stage]
+  }
+  return undefined
+}
+
+/**
+ * XP earned for harvesting a crop: a base reward by crop, a bonus for the
+ * quantity harvested (so it is only complete once the harvest is weighed)
+ * and a bonus for harvesting within 3 days of the expected date
+ */
+export function calculateHarvestXP(crop: Pick<
+  Crop,
+  'name' | 'quantity_harvested' | 'expected_harvest_date' | 'actual_harvest_date'
+>): number {
+  const baseXP = 25 // Base XP for any harvest
+
+  // Bonus XP based on crop type
+  const cropMultipliers: { [key: string]: number } = {
+    'tomatoes': 1.2,
+    'corn': 1.0,
+    'wheat': 0.8,
+    'rice': 1.1,
+    'potatoes': 0.9,
+    'lettuce': 1.3,
+    'peppers': 1.4,
+    'carrots': 1.0
+  }
+
+  const multiplier = cropMultipliers[crop.name.toLowerCase()] || 1.0
+  let totalXP = Math.round(baseXP * multiplier)
+
+  // Bonus for quantity harvested
+  if (crop.quantity_harvested && crop.quantity_harvested > 0) {
+    totalXP += Math.min(crop.quantity_harvested * 2, 50) // Max 50 bonus XP
+  }
+
+  // Bonus for timely harvest (within expected timeframe)
+  if (crop.expected_harvest_date && crop.actual_harvest_date) {
+    const expectedDate = new Date(crop.expected_harvest_date)
+    const actualDate = new Date(crop.actual_harvest_date)
+    const daysDifference = Math.abs((actualDate.getTime() - expectedDate.getTime()) / (1000 * 60 * 60 * 24))
+
+    if (daysDifference <= 3) { // Harvested within 3 days of expected date
+      totalXP += 10 // Timely harvest bonus
+    }
+  }
+
+  return totalXP
+}
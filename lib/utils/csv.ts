@@ -0,0 +1,79 @@
+// CSV parsing for spreadsheet exports (RFC 4180 quoting). The delimiter is
+// detected from the header line, since European and many lab exports use
+// semicolons and some use tabs.
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t']
+
+/**
+ * Pick the delimiter that splits the header line into the most columns
+ */
+export function detectDelimiter(text: string): string {
+  const header = text.split(/\r?\n/, 1)[0] || ''
+  let best = ','
+  let bestCount = 0
+
+  CANDIDATE_DELIMITERS.forEach(delimiter => {
+    const count = splitLine(header, delimiter).length
+    if (count > bestCount) {
+      best = delimiter
+      bestCount = count
+    }
+  })
+
+  return best
+}
+
+/**
+ * Parse CSV text into rows of fields. Quoted fields may contain the
+ * delimiter, doubled quotes and line breaks. Blank lines are skipped.
+ */
+export function parseCSV(text: string, delimiter: string = detectDelimiter(text)): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+
+  const endRow = () => {
+    row.push(field)
+    if (row.length > 1 || row[0].trim() !== '') rows.push(row)
+    row = []
+    field = ''
+  }
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field.trim() === '') {
+      quoted = true
+      field = ''
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      endRow()
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) endRow()
+
+  return rows
+}
+
+function splitLine(line: string, delimiter: string): string[] {
+  return parseCSV(line, delimiter)[0] || []
+}
@@ -0,0 +1,271 @@
+// Minimal EXIF reader for JPEG photos: when and where a photo was taken,
+// its orientation and size, and the thumbnail cameras embed in it.
+// Other formats (PNG, HEIC) come back without metadata.
+
+import { Location } from '../types'
+
+export interface ExifMetadata {
+  // ISO 8601. Cameras record local time: with an offset when the photo
+  // has one, in UTC from the GPS clock otherwise, or without a zone.
+  taken_at?: string
+  location?: Location
+  altitude_m?: number
+  orientation?: number // 1-8, how the image must be turned to display upright
+  width?: number
+  height?: number
+  thumbnail?: Uint8Array // JPEG
+}
+
+const MARKER_SOI = 0xffd8
+const MARKER_APP1 = 0xffe1
+const MARKER_SOS = 0xffda
+
+const TAG_ORIENTATION = 0x0112
+const TAG_DATE_TIME = 0x0132
+const TAG_EXIF_IFD = 0x8769
+const TAG_GPS_IFD = 0x8825
+const TAG_DATE_TIME_ORIGINAL = 0x9003
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011
+const TAG_PIXEL_X = 0xa002
+const TAG_PIXEL_Y = 0xa003
+const TAG_THUMBNAIL_OFFSET = 0x0201
+const TAG_THUMBNAIL_LENGTH = 0x0202
+
+const TAG_GPS_LATITUDE_REF = 0x0001
+const TAG_GPS_LATITUDE = 0x0002
+const TAG_GPS_LONGITUDE_REF = 0x0003
+const TAG_GPS_LONGITUDE = 0x0004
+const TAG_GPS_ALTITUDE_REF = 0x0005
+const TAG_GPS_ALTITUDE = 0x0006
+const TAG_GPS_TIME_STAMP = 0x0007
+const TAG_GPS_DATE_STAMP = 0x001d
+
+// Bytes per value of each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 }
+
+type ExifValue = number | number[] | string
+
+/**
+ * TIFF structure reader over the Exif block of a JPEG. Offsets are relative
+ * to the TIFF header, as in the file.
+ */
+class TiffReader {
+  constructor(private view: DataView, private start: number, private littleEndian: boolean) {}
+
+  get length(): number {
+    return this.view.byteLength - this.start
+  }
+
+  uint16(offset: number): number {
+    return this.view.getUint16(this.start + offset, this.littleEndian)
+  }
+
+  uint32(offset: number): number {
+    return this.view.getUint32(this.start + offset, this.littleEndian)
+  }
+
+  bytes(offset: number, length: number): Uint8Array {
+    return new Uint8Array(this.view.buffer, this.view.byteOffset + this.start + offset, length)
+  }
+
+  /**
+   * Tags of the directory at an offset, and the offset of the next one
+   */
+  readIfd(offset: number): { tags: Map<number, ExifValue>; next: number } {
+    const tags = new Map<number, ExifValue>()
+    if (offset <= 0 || offset + 2 > this.length) {
+      return { tags, next: 0 }
+    }
+
+    const count = this.uint16(offset)
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12
+      if (entry + 12 > this.length) break
+
+      const value = this.readValue(entry)
+      if (value !== undefined) {
+        tags.set(this.uint16(entry), value)
+      }
+    }
+
+    const nextAt = offset + 2 + count * 12
+    return { tags, next: nextAt + 4 <= this.length ? this.uint32(nextAt) : 0 }
+  }
+
+  private readValue(entry: number): ExifValue | undefined {
+    const type = this.uint16(entry + 2)
+    const count = this.uint32(entry + 4)
+    const size = TYPE_SIZES[type]
+    if (!size || count === 0) return undefined
+
+    // Values of up to 4 bytes sit in the entry itself
+    const at = size * count <= 4 ? entry + 8 : this.uint32(entry + 8)
+    if (at + size * count > this.length) return undefined
+
+    if (type === 2) {
+      const text = Array.from(this.bytes(at, count)).map(code => String.fromCharCode(code)).join('')
+      return text.replace(/\0+$/, '').trim()
+    }
+
+    const values: number[] = []
+    for (let i = 0; i < Math.min(count, 16); i++) {
+      const position = at + i * size
+      switch (type) {
+        case 1:
+        case 7:
+          values.push(this.view.getUint8(this.start + position))
+          break
+        case 3:
+          values.push(this.uint16(position))
+          break
+        case 4:
+          values.push(this.uint32(position))
+          break
+        case 9:
+          values.push(this.view.getInt32(this.start + position, this.littleEndian))
+          break
+        case 5:
+        case 10: {
+          const signed = type === 10
+          const numerator = signed
+            ? this.view.getInt32(this.start + position, this.littleEndian)
+            : this.uint32(position)
+          const denominator = signed
+            ? this.view.getInt32(this.start + position + 4, this.littleEndian)
+            : this.uint32(position + 4)
+          values.push(denominator === 0 ? 0 : numerator / denominator)
+          break
+        }
+      }
+    }
+    return values.length === 1 ? values[0] : values
+  }
+}
+
+/**
+ * Locate the TIFF header of a JPEG's Exif block
+ */
+function findExifBlock(data: Uint8Array): TiffReader | null {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  if (data.length < 4 || view.getUint16(0) !== MARKER_SOI) {
+    return null
+  }
+
+  let offset = 2
+  while (offset + 4 <= data.length) {
+    const marker = view.getUint16(offset)
+    if ((marker & 0xff00) !== 0xff00 || marker === MARKER_SOS) break
+
+    const length = view.getUint16(offset + 2)
+    const isExif = marker === MARKER_APP1 && offset + 10 <= data.length &&
+      String.fromCharCode(...Array.from(data.subarray(offset + 4, offset + 8))) === 'Exif'
+
+    if (isExif) {
+      const start = offset + 10
+      const byteOrder = view.getUint16(start)
+      if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return null
+      const littleEndian = byteOrder === 0x4949
+      // Reads stop at the end of the segment
+      const end = Math.min(data.length, offset + 2 + length)
+      return new TiffReader(new DataView(data.buffer, data.byteOffset, end), start, littleEndian)
+    }
+
+    offset += 2 + length
+  }
+
+  return null
+}
+
+// Degrees, minutes and seconds to signed decimal degrees
+function toDegrees(value: ExifValue | undefined, ref: ExifValue | undefined): number | undefined {
+  if (!Array.isArray(value) || value.length < 3) return undefined
+  const degrees = value[0] + value[1] / 60 + value[2] / 3600
+  return ref === 'S' || ref === 'W' ? -degrees : degrees
+}
+
+// EXIF writes dates as "YYYY:MM:DD HH:MM:SS"
+function parseExifDate(value: ExifValue | undefined): string | undefined {
+  if (typeof value !== 'string') return undefined
+  const match = value.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/)
+  if (!match || match[1] === '0000') return undefined
+  return `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}`
+}
+
+function getGpsTime(gps: Map<number, ExifValue>): string | undefined {
+  const date = gps.get(TAG_GPS_DATE_STAMP)
+  const time = gps.get(TAG_GPS_TIME_STAMP)
+  if (typeof date !== 'string' || !Array.isArray(time) || time.length < 3) return undefined
+
+  const pad = (value: number) => String(Math.floor(value)).padStart(2, '0')
+  return parseExifDate(`${date} ${pad(time[0])}:${pad(time[1])}:${pad(time[2])}`)
+}
+
+/**
+ * Read the EXIF metadata of a JPEG photo. Missing or malformed fields are
+ * left out rather than failing the read.
+ */
+export function readExif(data: Uint8Array): ExifMetadata {
+  const metadata: ExifMetadata = {}
+
+  try {
+    const tiff = findExifBlock(data)
+    if (!tiff || tiff.uint16(2) !== 42) {
+      return metadata
+    }
+
+    const ifd0 = tiff.readIfd(tiff.uint32(4))
+    const exif = tiff.readIfd(Number(ifd0.tags.get(TAG_EXIF_IFD)) || 0).tags
+    const gps = tiff.readIfd(Number(ifd0.tags.get(TAG_GPS_IFD)) || 0).tags
+    const ifd1 = tiff.readIfd(ifd0.next).tags
+
+    const orientation = ifd0.tags.get(TAG_ORIENTATION)
+    if (typeof orientation === 'number' && orientation >= 1 && orientation <= 8) {
+      metadata.orientation = orientation
+    }
+
+    const width = exif.get(TAG_PIXEL_X)
+    const height = exif.get(TAG_PIXEL_Y)
+    if (typeof width === 'number' && typeof height === 'number' && width > 0 && height > 0) {
+      metadata.width = width
+      metadata.height = height
+    }
+
+    const localTime = parseExifDate(exif.get(TAG_DATE_TIME_ORIGINAL)) || parseExifDate(ifd0.tags.get(TAG_DATE_TIME))
+    const offset = exif.get(TAG_OFFSET_TIME_ORIGINAL)
+    const gpsTime = getGpsTime(gps)
+    if (localTime && typeof offset === 'string' && /^[+-]\d{2}:\d{2}$/.test(offset)) {
+      metadata.taken_at = `${localTime}${offset}`
+    } else if (gpsTime) {
+      metadata.taken_at = `${gpsTime}Z`
+    } else if (localTime) {
+      metadata.taken_at = localTime
+    }
+
+    const latitude = toDegrees(gps.get(TAG_GPS_LATITUDE), gps.get(TAG_GPS_LATITUDE_REF))
+    const longitude = toDegrees(gps.get(TAG_GPS_LONGITUDE), gps.get(TAG_GPS_LONGITUDE_REF))
+    if (latitude !== undefined && longitude !== undefined &&
+      Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180 && (latitude !== 0 || longitude !== 0)) {
+      metadata.location = { latitude, longitude }
+    }
+
+    const altitude = gps.get(TAG_GPS_ALTITUDE)
+    if (typeof altitude === 'number') {
+      // Reference 1 means below sea level
+      metadata.altitude_m = gps.get(TAG_GPS_ALTITUDE_REF) === 1 ? -altitude : altitude
+    }
+
+    const thumbnailOffset = ifd1.get(TAG_THUMBNAIL_OFFSET)
+    const thumbnailLength = ifd1.get(TAG_THUMBNAIL_LENGTH)
+    if (typeof thumbnailOffset === 'number' && typeof thumbnailLength === 'number' &&
+      thumbnailLength > 0 && thumbnailOffset + thumbnailLength <= tiff.length) {
+      const thumbnail = tiff.bytes(thumbnailOffset, thumbnailLength)
+      if (thumbnail[0] === 0xff && thumbnail[1] === 0xd8) {
+        metadata.thumbnail = new Uint8Array(thumbnail)
+      }
+    }
+  } catch (error) {
+    // Truncated blocks throw RangeError; keep what was read
+  }
+
+  return metadata
+}
@@ -0,0 +1,208 @@
+// Geodesic measurements on the WGS84 ellipsoid for lon/lat coordinates
+
+// WGS84 ellipsoid parameters
+const WGS84_A = 6378137
+const WGS84_F = 1 / 298.257223563
+const WGS84_B = WGS84_A * (1 - WGS84_F)
+const WGS84_E2 = WGS84_F * (2 - WGS84_F)
+const WGS84_E = Math.sqrt(WGS84_E2)
+
+const DEG = Math.PI / 180
+
+/**
+ * Authalic q function: the ellipsoid area above latitude phi, scaled so that
+ * the sphere with radius AUTHALIC_RADIUS has the same total area
+ */
+function authalicQ(sinPhi: number): number {
+  return (1 - WGS84_E2) * (
+    sinPhi / (1 - WGS84_E2 * sinPhi * sinPhi) -
+    (1 / (2 * WGS84_E)) * Math.log((1 - WGS84_E * sinPhi) / (1 + WGS84_E * sinPhi))
+  )
+}
+
+const AUTHALIC_QP = authalicQ(1)
+const AUTHALIC_RADIUS = WGS84_A * Math.sqrt(AUTHALIC_QP / 2)
+
+/**
+ * Convert a geodetic latitude (radians) to the authalic latitude, which maps
+ * the ellipsoid onto a sphere of equal area
+ */
+function toAuthalicLatitude(phi: number): number {
+  const ratio = authalicQ(Math.sin(phi)) / AUTHALIC_QP
+  return Math.asin(Math.max(-1, Math.min(1, ratio)))
+}
+
+/**
+ * Calculate the signed area of a lon/lat ring in square metres.
+ * Counter-clockwise rings are positive, clockwise rings negative.
+ *
+ * Latitudes are projected onto the authalic sphere (an exact equal-area
+ * mapping) and the spherical excess of each edge is summed, which matches
+ * PostGIS ST_Area(geography) to well under 0.01% for field-sized polygons.
+ */
+export function geodesicRingSignedArea(ring: GeoJSON.Position[]): number {
+  if (ring.length < 3) return 0
+
+  const points = ring.map(coord => ({
+    lambda: coord[0] * DEG,
+    beta: toAuthalicLatitude(coord[1] * DEG)
+  }))
+
+  // Treat the ring as closed whether or not the last vertex repeats the first
+  const first = ring[0]
+  const last = ring[ring.length - 1]
+  if (first[0] !== last[0] || first[1] !== last[1]) {
+    points.push(points[0])
+  }
+
+  let excess = 0
+  for (let i = 0; i < points.length - 1; i++) {
+    const p1 = points[i]
+    const p2 = points[i + 1]
+
+    let deltaLambda = p2.lambda - p1.lambda
+    if (deltaLambda > Math.PI) deltaLambda -= 2 * Math.PI
+    if (deltaLambda < -Math.PI) deltaLambda += 2 * Math.PI
+
+    const t1 = Math.tan(p1.beta / 2)
+    const t2 = Math.tan(p2.beta / 2)
+    excess += 2 * Math.atan2(Math.tan(deltaLambda / 2) * (t1 + t2), 1 + t1 * t2)
+  }
+
+  // Eastward edges accumulate the excess between the edge and the north
+  // pole, so a counter-clockwise ring sums to minus its area
+  return -excess * AUTHALIC_RADIUS * AUTHALIC_RADIUS
+}
+
+/**
+ * Calculate the area of a lon/lat ring in square metres
+ */
+export function geodesicRingArea(ring: GeoJSON.Position[]): number {
+  return Math.abs(geodesicRingSignedArea(ring))
+}
+
+/**
+ * Calculate the geodesic distance between two lon/lat positions in metres
+ * using Vincenty's inverse formula, falling back to a great-circle distance
+ * for nearly antipodal points where the iteration does not converge
+ */
+export function geodesicDistance(from: GeoJSON.Position, to: GeoJSON.Position): number {
+  const L = (to[0] - from[0]) * DEG
+  const U1 = Math.atan((1 - WGS84_F) * Math.tan(from[1] * DEG))
+  const U2 = Math.atan((1 - WGS84_F) * Math.tan(to[1] * DEG))
+  const sinU1 = Math.sin(U1)
+  const cosU1 = Math.cos(U1)
+  const sinU2 = Math.sin(U2)
+  const cosU2 = Math.cos(U2)
+
+  let lambda = L
+  let previousLambda: number
+  let iterations = 0
+  let sinSigma: number
+  let cosSigma: number
+  let sigma: number
+  let cosSqAlpha: number
+  let cos2SigmaM: number
+
+  do {
+    const sinLambda = Math.sin(lambda)
+    const cosLambda = Math.cos(lambda)
+    sinSigma = Math.sqrt(
+      (cosU2 * sinLambda) ** 2 +
+      (cosU1 * sinU2 - sinU1 * cosU2 * cosLambda) ** 2
+    )
+    if (sinSigma === 0) return 0 // coincident points
+
+    cosSigma = sinU1 * sinU2 + cosU1 * cosU2 * cosLambda
+    sigma = Math.atan2(sinSigma, cosSigma)
+    const sinAlpha = (cosU1 * cosU2 * sinLambda) / sinSigma
+    cosSqAlpha = 1 - sinAlpha * sinAlpha
+    cos2SigmaM = cosSqAlpha !== 0 ? cosSigma - (2 * sinU1 * sinU2) / cosSqAlpha : 0 // equatorial line
+
+    const C = (WGS84_F / 16) * cosSqAlpha * (4 + WGS84_F * (4 - 3 * cosSqAlpha))
+    previousLambda = lambda
+    lambda = L + (1 - C) * WGS84_F * sinAlpha * (
+      sigma + C * sinSigma * (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM))
+    )
+  } while (Math.abs(lambda - previousLambda) > 1e-12 && ++iterations < 200)
+
+  if (iterations >= 200) {
+    return AUTHALIC_RADIUS * greatCircleAngle(from, to)
+  }
+
+  const uSq = (cosSqAlpha * (WGS84_A * WGS84_A - WGS84_B * WGS84_B)) / (WGS84_B * WGS84_B)
+  const A = 1 + (uSq / 16384) * (4096 + uSq * (-768 + uSq * (320 - 175 * uSq)))
+  const B = (uSq / 1024) * (256 + uSq * (-128 + uSq * (74 - 47 * uSq)))
+  const deltaSigma = B * sinSigma * (
+    cos2SigmaM + (B / 4) * (
+      cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM) -
+      (B / 6) * cos2SigmaM * (-3 + 4 * sinSigma * sinSigma) * (-3 + 4 * cos2SigmaM * cos2SigmaM)
+    )
+  )
+
+  return WGS84_B * A * (sigma - deltaSigma)
+}
+
+/**
+ * Central angle between two lon/lat positions on a sphere (haversine)
+ */
+function greatCircleAngle(from: GeoJSON.Position, to: GeoJSON.Position): number {
+  const dLat = (to[1] - from[1]) * DEG
+  const dLon = (to[0] - from[0]) * DEG
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(from[1] * DEG) * Math.cos(to[1] * DEG) * Math.sin(dLon / 2) ** 2
+  return 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+}
+
+/**
+ * Calculate the geodesic length of a lon/lat ring in metres, including the
+ * closing edge
+ */
+export function geodesicRingPerimeter(ring: GeoJSON.Position[]): number {
+  if (ring.length < 2) return 0
+
+  let perimeter = 0
+  for (let i = 0; i < ring.length - 1; i++) {
+    perimeter += geodesicDistance(ring[i], ring[i + 1])
+  }
+
+  const first = ring[0]
+  const last = ring[ring.length - 1]
+  if (first[0] !== last[0] || first[1] !== last[1]) {
+    perimeter += geodesicDistance(last, first)
+  }
+
+  return perimeter
+}
+
+/**
+ * Create a local equirectangular projection centred on origin that converts
+ * lon/lat positions to metres east/north and back. Distortion stays in the
+ * centimetre range across a single farm, which is enough for planar
+ * geometry work (simplification, clipping, snapping) on plot boundaries.
+ */
+export function createLocalProjection(origin: GeoJSON.Position): {
+  forward(position: GeoJSON.Position): [number, number]
+  inverse(point: number[]): GeoJSON.Position
+} {
+  const phi = origin[1] * DEG
+  const w = 1 - WGS84_E2 * Math.sin(phi) ** 2
+  const metresPerDegreeLat = ((WGS84_A * (1 - WGS84_E2)) / Math.pow(w, 1.5)) * DEG
+  const metresPerDegreeLon = (WGS84_A / Math.sqrt(w)) * Math.cos(phi) * DEG
+
+  return {
+    forward(position: GeoJSON.Position): [number, number] {
+      return [
+        (position[0] - origin[0]) * metresPerDegreeLon,
+        (position[1] - origin[1]) * metresPerDegreeLat
+      ]
+    },
+    inverse(point: number[]): GeoJSON.Position {
+      return [
+        origin[0] + point[0] / metresPerDegreeLon,
+        origin[1] + point[1] / metresPerDegreeLat
+      ]
+    }
+  }
+}
@@ -0,0 +1,375 @@
+// Plot geometry helpers: WKT/WKB conversion and ring handling for
+// Polygon and MultiPolygon boundaries
+
+import { Location, PlotGeometry } from '../types'
+import { geodesicRingArea, geodesicRingPerimeter } from './geodesic'
+
+export const WGS84_SRID = 4326
+
+// WKB geometry type codes and EWKB flags
+const WKB_POLYGON = 3
+const WKB_MULTIPOLYGON = 6
+const EWKB_Z_FLAG = 0x80000000
+const EWKB_M_FLAG = 0x40000000
+const EWKB_SRID_FLAG = 0x20000000
+
+/**
+ * Get the polygons of a plot geometry as a list of ring arrays
+ * (outer ring first, followed by any holes)
+ */
+export function getPolygons(geometry: PlotGeometry): GeoJSON.Position[][][] {
+  if (geometry.type === 'MultiPolygon') {
+    return geometry.coordinates
+  }
+  return [geometry.coordinates]
+}
+
+/**
+ * Build the smallest geometry that holds the given polygons:
+ * a Polygon for a single part, a MultiPolygon otherwise
+ */
+export function fromPolygons(polygons: GeoJSON.Position[][][]): PlotGeometry {
+  if (polygons.length === 1) {
+    return { type: 'Polygon', coordinates: polygons[0] }
+  }
+  return { type: 'MultiPolygon', coordinates: polygons }
+}
+
+/**
+ * Get every vertex of a plot geometry, across all parts and rings
+ */
+export function getAllPositions(geometry: PlotGeometry): GeoJSON.Position[] {
+  return getPolygons(geometry).flatMap(polygon => polygon.flat())
+}
+
+/**
+ * Get the centre of a plot geometry's bounding box, close enough to the
+ * plot for looking up weather or distances
+ */
+export function getGeometryCenter(geometry: PlotGeometry): Location {
+  const positions = getAllPositions(geometry)
+  const longitudes = positions.map(position => position[0])
+  const latitudes = positions.map(position => position[1])
+
+  return {
+    latitude: (Math.min(...latitudes) + Math.max(...latitudes)) / 2,
+    longitude: (Math.min(...longitudes) + Math.max(...longitudes)) / 2
+  }
+}
+
+/**
+ * Check whether a ring's last vertex repeats its first
+ */
+export function isRingClosed(ring: GeoJSON.Position[]): boolean {
+  if (ring.length === 0) return false
+  const first = ring[0]
+  const last = ring[ring.length - 1]
+  return first[0] === last[0] && first[1] === last[1]
+}
+
+/**
+ * Return a copy of the ring with the first vertex repeated at the end
+ */
+export function closeRing(ring: GeoJSON.Position[]): GeoJSON.Position[] {
+  if (ring.length === 0 || isRingClosed(ring)) return [...ring]
+  return [...ring, ring[0]]
+}
+
+/**
+ * Calculate the geodesic area of a plot geometry in square metres,
+ * subtracting holes from each part (equivalent to ST_Area(geography))
+ */
+export function calculateGeometryArea(geometry: PlotGeometry): number {
+  return getPolygons(geometry).reduce((total, [outer, ...holes]) => {
+    const holeArea = holes.reduce((sum, hole) => sum + geodesicRingArea(hole), 0)
+    return total + Math.max(0, geodesicRingArea(outer) - holeArea)
+  }, 0)
+}
+
+/**
+ * Calculate the geodesic perimeter of a plot geometry in metres, including
+ * the boundaries of holes (equivalent to ST_Perimeter(geography))
+ */
+export function calculateGeometryPerimeter(geometry: PlotGeometry): number {
+  return getPolygons(geometry).reduce(
+    (total, polygon) => total + polygon.reduce((sum, ring) => sum + geodesicRingPerimeter(ring), 0),
+    0
+  )
+}
+
+/**
+ * Convert a plot geometry to WKT, keeping every ring of every part
+ */
+export function geometryToWKT(geometry: PlotGeometry): string {
+  const ringToWKT = (ring: GeoJSON.Position[]) =>
+    `(${ring.map(coord => `${coord[0]} ${coord[1]}`).join(', ')})`
+  const polygonToWKT = (polygon: GeoJSON.Position[][]) =>
+    `(${polygon.map(ringToWKT).join(', ')})`
+
+  if (geometry.type === 'MultiPolygon') {
+    return `MULTIPOLYGON(${geometry.coordinates.map(polygonToWKT).join(', ')})`
+  }
+  return `POLYGON${polygonToWKT(geometry.coordinates)}`
+}
+
+/**
+ * Convert a line (e.g. a split line drawn across a plot) to WKT
+ */
+export function lineStringToWKT(line: GeoJSON.LineString): string {
+  return `LINESTRING(${line.coordinates.map(coord => `${coord[0]} ${coord[1]}`).join(', ')})`
+}
+
+/**
+ * Convert a plot geometry to EWKT with the WGS84 SRID, as expected by
+ * the PostGIS geometry(…, 4326) column on plots
+ */
+export function geometryToEWKT(geometry: PlotGeometry): string {
+  return `SRID=${WGS84_SRID};${geometryToWKT(geometry)}`
+}
+
+/**
+ * Parse WKT or EWKT (POLYGON / MULTIPOLYGON, optionally with Z or M values)
+ */
+export function wktToGeometry(wkt: string): PlotGeometry {
+  const match = wkt
+    .trim()
+    .replace(/^SRID=\d+;/i, '')
+    .match(/^(MULTIPOLYGON|POLYGON)\s*(?:ZM|Z|M)?\s*(\(.*\))$/is)
+
+  if (!match) {
+    throw new Error('Invalid WKT format')
+  }
+
+  const type = match[1].toUpperCase()
+  const body = parseWKTCoordinates(match[2])
+
+  if (type === 'MULTIPOLYGON') {
+    return { type: 'MultiPolygon', coordinates: body as GeoJSON.Position[][][] }
+  }
+  return { type: 'Polygon', coordinates: body as GeoJSON.Position[][] }
+}
+
+/**
+ * Parse the nested parenthesised coordinate lists of a WKT body into
+ * nested arrays, dropping any Z/M ordinates
+ */
+function parseWKTCoordinates(body: string): any[] {
+  const stack: any[][] = []
+  let current: any[] | null = null
+  let token = ''
+  let result: any[] | null = null
+
+  const flushPoint = () => {
+    const values = token.trim().split(/\s+/).filter(Boolean).map(Number)
+    token = ''
+    if (values.length === 0) return
+    if (values.length < 2 || values.some(value => Number.isNaN(value))) {
+      throw new Error('Invalid WKT coordinate')
+    }
+    current!.push([values[0], values[1]])
+  }
+
+  for (const char of body) {
+    if (char === '(') {
+      const list: any[] = []
+      if (current) {
+        current.push(list)
+        stack.push(current)
+      }
+      current = list
+    } else if (char === ')') {
+      if (!current) throw new Error('Invalid WKT format')
+      flushPoint()
+      if (stack.length === 0) {
+        result = current
+        current = null
+      } else {
+        current = stack.pop()!
+      }
+    } else if (char === ',') {
+      if (!current) throw new Error('Invalid WKT format')
+      flushPoint()
+    } else {
+      token += char
+    }
+  }
+
+  if (!result || current) {
+    throw new Error('Invalid WKT format')
+  }
+  return result
+}
+
+/**
+ * Parse hex-encoded WKB or EWKB, as returned by PostgREST for geometry columns
+ */
+export function wkbToGeometry(hex: string): PlotGeometry {
+  const clean = hex.trim().replace(/^\\x/, '')
+  if (clean.length % 2 !== 0 || !/^[0-9a-f]+$/i.test(clean)) {
+    throw new Error('Invalid WKB format')
+  }
+
+  const bytes = new Uint8Array(clean.length / 2)
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(clean.substr(i * 2, 2), 16)
+  }
+
+  const view = new DataView(bytes.buffer)
+  let offset = 0
+
+  const readHeader = () => {
+    const littleEndian = view.getUint8(offset) === 1
+    offset += 1
+    const rawType = view.getUint32(offset, littleEndian)
+    offset += 4
+
+    let hasZ = (rawType & EWKB_Z_FLAG) !== 0
+    let hasM = (rawType & EWKB_M_FLAG) !== 0
+    if (rawType & EWKB_SRID_FLAG) {
+      offset += 4
+    }
+
+    // ISO WKB encodes dimensions as 1000 (Z), 2000 (M) and 3000 (ZM) offsets
+    const isoType = rawType & 0x0fffffff
+    const dimensionCode = Math.floor(isoType / 1000)
+    if (dimensionCode === 1 || dimensionCode === 3) hasZ = true
+    if (dimensionCode === 2 || dimensionCode === 3) hasM = true
+
+    return {
+      littleEndian,
+      type: isoType % 1000,
+      dimensions: 2 + (hasZ ? 1 : 0) + (hasM ? 1 : 0)
+    }
+  }
+
+  const readPolygon = (littleEndian: boolean, dimensions: number): GeoJSON.Position[][] => {
+    const ringCount = view.getUint32(offset, littleEndian)
+    offset += 4
+    const rings: GeoJSON.Position[][] = []
+
+    for (let r = 0; r < ringCount; r++) {
+      const pointCount = view.getUint32(offset, littleEndian)
+      offset += 4
+      const ring: GeoJSON.Position[] = []
+      for (let p = 0; p < pointCount; p++) {
+        const x = view.getFloat64(offset, littleEndian)
+        const y = view.getFloat64(offset + 8, littleEndian)
+        offset += 8 * dimensions
+        ring.push([x, y])
+      }
+      rings.push(ring)
+    }
+    return rings
+  }
+
+  try {
+    const header = readHeader()
+
+    if (header.type === WKB_POLYGON) {
+      return { type: 'Polygon', coordinates: readPolygon(header.littleEndian, header.dimensions) }
+    }
+
+    if (header.type === WKB_MULTIPOLYGON) {
+      const polygonCount = view.getUint32(offset, header.littleEndian)
+      offset += 4
+      const polygons: GeoJSON.Position[][][] = []
+      for (let i = 0; i < polygonCount; i++) {
+        const part = readHeader()
+        if (part.type !== WKB_POLYGON) {
+          throw new Error('Invalid WKB format')
+        }
+        polygons.push(readPolygon(part.littleEndian, part.dimensions))
+      }
+      return { type: 'MultiPolygon', coordinates: polygons }
+    }
+  } catch (error) {
+    throw new Error('Invalid WKB format')
+  }
+
+  throw new Error(`Unsupported WKB geometry type: ${clean.substr(2, 8)}`)
+}
+
+/**
+ * Encode a plot geometry as little-endian hex EWKB with the WGS84 SRID
+ */
+export function geometryToWKB(geometry: PlotGeometry): string {
+  const polygons = getPolygons(geometry)
+  const polygonSize = (polygon: GeoJSON.Position[][]) =>
+    4 + polygon.reduce((sum, ring) => sum + 4 + ring.length * 16, 0)
+
+  const size = geometry.type === 'MultiPolygon'
+    ? 9 + 4 + polygons.reduce((sum, polygon) => sum + 5 + polygonSize(polygon), 0)
+    : 9 + polygonSize(polygons[0])
+
+  const view = new DataView(new ArrayBuffer(size))
+  let offset = 0
+
+  const writeHeader = (type: number, withSrid: boolean) => {
+    view.setUint8(offset, 1)
+    view.setUint32(offset + 1, withSrid ? (type | EWKB_SRID_FLAG) >>> 0 : type, true)
+    offset += 5
+    if (withSrid) {
+      view.setUint32(offset, WGS84_SRID, true)
+      offset += 4
+    }
+  }
+
+  const writePolygon = (polygon: GeoJSON.Position[][]) => {
+    view.setUint32(offset, polygon.length, true)
+    offset += 4
+    polygon.forEach(ring => {
+      view.setUint32(offset, ring.length, true)
+      offset += 4
+      ring.forEach(coord => {
+        view.setFloat64(offset, coord[0], true)
+        view.setFloat64(offset + 8, coord[1], true)
+        offset += 16
+      })
+    })
+  }
+
+  if (geometry.type === 'MultiPolygon') {
+    writeHeader(WKB_MULTIPOLYGON, true)
+    view.setUint32(offset, polygons.length, true)
+    offset += 4
+    polygons.forEach(polygon => {
+      writeHeader(WKB_POLYGON, false)
+      writePolygon(polygon)
+    })
+  } else {
+    writeHeader(WKB_POLYGON, true)
+    writePolygon(polygons[0])
+  }
+
+  let hex = ''
+  for (let i = 0; i < size; i++) {
+    hex += view.getUint8(i).toString(16).padStart(2, '0')
+  }
+  return hex
+}
+
+/**
+ * Parse a geometry value as returned from the plots.geometry column:
+ * hex EWKB, WKT/EWKT or a GeoJSON object
+ */
+export function parsePostGISGeometry(value: unknown): PlotGeometry {
+  if (typeof value === 'string') {
+    const trimmed = value.trim()
+    if (/^(\\x)?[0-9a-f]+$/i.test(trimmed)) {
+      return wkbToGeometry(trimmed)
+    }
+    if (trimmed.startsWith('{')) {
+      return parsePostGISGeometry(JSON.parse(trimmed))
+    }
+    return wktToGeometry(trimmed)
+  }
+
+  if (value && typeof value === 'object') {
+    const geometry = value as GeoJSON.Geometry
+    if ((geometry.type === 'Polygon' || geometry.type === 'MultiPolygon') && geometry.coordinates) {
+      return geometry
+    }
+  }
+
+  throw new Error('Unsupported geometry value')
+}
@@ -27,7 +27,9 @@ function toRadians(degrees: number): number {
 }
 
 /**
- * Calculate area of a polygon using the shoelace formula
+ * Calculate area of a polygon using the shoelace formula.
+ * This is planar and only meaningful for projected coordinates; use
+ * calculateGeometryArea from utils/geometry for lon/lat plot boundaries.
  */
 export function calculatePolygonArea(coordinates: number[][]): number {
   if (coordinates.length < 3) return 0
@@ -100,6 +102,28 @@ export function generateId(): string {
   return Math.random().toString(36).substring(2) + Date.now().toString(36)
 }
 
+/**
+ * Random (version 4) UUID, for records whose id is picked before they reach
+ * the database. Uses the platform's secure random source when it has one;
+ * not every JavaScript runtime has crypto.randomUUID.
+ */
+export function generateUUID(): string {
+  const bytes = new Uint8Array(16)
+  const cryptoApi = (globalThis as any).crypto
+  if (cryptoApi && typeof cryptoApi.getRandomValues === 'function') {
+    cryptoApi.getRandomValues(bytes)
+  } else {
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = Math.floor(Math.random() * 256)
+    }
+  }
+  bytes[6] = (bytes[6] & 0x0f) | 0x40
+  bytes[8] = (bytes[8] & 0x3f) | 0x80
+
+  const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`
+}
+
 /**
  * Debounce function for search and input handling
  */
@@ -0,0 +1,117 @@
+// Integrated pest management options for a pest on a plot: the guide's
+// practices first, then treatments from stock, each checked against the
+// crop's harvest date and the stock on hand.
+
+import { IpmGuide, IpmOption, IpmOptionKind, PestTreatment, Resource } from '../types'
+import { DEFAULT_IPM_GUIDE, IPM_CATALOG } from '../config/ipm-catalog'
+import { getTreatmentDose, getTreatmentEfficacy } from './pest'
+import { addDays } from './phenology'
+import { convertQuantity } from './units'
+
+const KIND_ORDER: IpmOptionKind[] = ['cultural', 'biological', 'chemical']
+
+export function getIpmGuide(pestType: string): IpmGuide {
+  return IPM_CATALOG[pestType] || DEFAULT_IPM_GUIDE
+}
+
+/**
+ * Stock on hand for a treatment, in the treatment's unit. Like the battle
+ * engine, a treatment draws on the user's largest resource of its type.
+ * Null when there is none or its unit can't be converted.
+ */
+export function getStockForTreatment(treatment: PestTreatment, resources: Resource[]): number | null {
+  const stock = resources
+    .filter(resource => resource.resource_type === treatment.resource_type)
+    .reduce<Resource | null>((largest, resource) => !largest || resource.quantity > largest.quantity ? resource : largest, null)
+  if (!stock) return null
+  return convertQuantity(stock.quantity, stock.unit, treatment.unit)
+}
+
+/**
+ * Build the options for a pest, cultural first and chemical last, the most
+ * effective first within each kind. A treatment is available when there is
+ * enough stock for the plot and, if the crop's harvest date is known, its
+ * pre-harvest interval ends by then. A crop already past that date has no
+ * harvest date left to hold treatments to; they are only warned to delay
+ * the harvest.
+ */
+export function buildIpmOptions(params: {
+  pestType: string
+  treatments: PestTreatment[]
+  resources: Resource[]
+  areaHectares: number
+  today: string
+  expectedHarvestDate?: string
+}): IpmOption[] {
+  const { pestType, treatments, resources, areaHectares, today, expectedHarvestDate } = params
+  const overdue = expectedHarvestDate !== undefined && expectedHarvestDate < today
+
+  const practices: IpmOption[] = getIpmGuide(pestType).practices.map(practice => ({
+    kind: practice.kind,
+    name: practice.name,
+    description: practice.description,
+    practice_id: practice.id,
+    phi_days: 0,
+    rei_hours: 0,
+    violates_phi: false,
+    available: true,
+    warnings: []
+  }))
+
+  // Treatments labelled for the pest; the rest only when none are
+  const labelled = treatments.filter(treatment => treatment.efficacy[pestType] > 0)
+  const candidates = labelled.length > 0
+    ? labelled
+    : treatments.filter(treatment => getTreatmentEfficacy(treatment, pestType) > 0)
+
+  const applications: IpmOption[] = candidates.map(treatment => {
+    const dose = getTreatmentDose(treatment, areaHectares)
+    const stock = getStockForTreatment(treatment, resources)
+    const inStock = stock !== null && stock >= dose
+    const earliestHarvest = addDays(today, treatment.phi_days)
+    const violatesPhi = expectedHarvestDate !== undefined && !overdue && earliestHarvest > expectedHarvestDate
+    const warnings: string[] = []
+
+    if (violatesPhi) {
+      warnings.push(
+        `${treatment.name} needs ${treatment.phi_days} days before harvest; ` +
+        `applied today the crop can't be picked before ${earliestHarvest}, after the expected harvest on ${expectedHarvestDate}`
+      )
+    } else if (overdue && treatment.phi_days > 0) {
+      warnings.push(
+        `The crop is past its expected harvest on ${expectedHarvestDate}; ` +
+        `applied today, ${treatment.name} holds the harvest back until ${earliestHarvest}`
+      )
+    }
+    if (stock === null) {
+      warnings.push(`No ${treatment.resource_type} in stock`)
+    } else if (!inStock) {
+      warnings.push(`Not enough ${treatment.resource_type}: ${dose} ${treatment.unit} needed, ${Math.round(stock * 100) / 100} in stock`)
+    }
+    if (treatment.rei_hours > 0) {
+      warnings.push(`Keep out of the plot for ${treatment.rei_hours} hours after applying`)
+    }
+
+    return {
+      kind: treatment.kind,
+      name: treatment.name,
+      description: treatment.description,
+      treatment_id: treatment.id,
+      efficacy: getTreatmentEfficacy(treatment, pestType),
+      dose,
+      unit: treatment.unit,
+      resource_type: treatment.resource_type,
+      in_stock: inStock,
+      phi_days: treatment.phi_days,
+      rei_hours: treatment.rei_hours,
+      earliest_harvest: earliestHarvest,
+      violates_phi: violatesPhi,
+      available: inStock && !violatesPhi,
+      warnings
+    }
+  })
+
+  return [...practices, ...applications.sort((a, b) =>
+    KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) || (b.efficacy || 0) - (a.efficacy || 0)
+  )]
+}
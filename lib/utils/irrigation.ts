@@ -0,0 +1,181 @@
+// Irrigation planning helpers: Hargreaves reference evapotranspiration,
+// FAO-56 crop coefficients and a daily root zone water balance. Hargreaves
+// needs only minimum and maximum temperature, which is all our weather
+// providers forecast.
+
+import { Crop, CropWaterProfile, IrrigationDay, IrrigationEvent, IrrigationMethod } from '../types'
+
+const SOLAR_CONSTANT = 0.082 // MJ/m2/min
+// Converts MJ/m2/day of radiation into mm/day of evaporation
+const RADIATION_TO_MM = 0.408
+
+// Plant-available water (field capacity minus wilting point) in mm per
+// metre of soil. Checked in order, so compound textures come first.
+const SOIL_AVAILABLE_WATER: Array<[string, number]> = [
+  ['loamy sand', 90],
+  ['sandy loam', 120],
+  ['silt loam', 180],
+  ['clay loam', 170],
+  ['silty clay', 160],
+  ['black', 180], // black cotton soils (vertisols)
+  ['vertisol', 180],
+  ['laterite', 80],
+  ['red', 100],
+  ['alluvial', 150],
+  ['sand', 60],
+  ['silt', 180],
+  ['clay', 150],
+  ['loam', 160]
+]
+const DEFAULT_AVAILABLE_WATER = 140
+
+// Application efficiency and the share of readily available water each
+// method lets the crop use before irrigating: drip waters little and often,
+// flooding waters deeply and rarely
+export const IRRIGATION_METHODS: Record<Exclude<IrrigationMethod, 'rainfed'>, { efficiency: number; trigger: number }> = {
+  drip: { efficiency: 0.9, trigger: 0.5 },
+  sprinkler: { efficiency: 0.75, trigger: 0.8 },
+  surface: { efficiency: 0.6, trigger: 1 }
+}
+
+const METHOD_KEYWORDS: Array<[IrrigationMethod, string[]]> = [
+  ['rainfed', ['rainfed', 'rain-fed', 'rain fed', 'none', 'dryland']],
+  ['drip', ['drip', 'trickle', 'micro']],
+  ['sprinkler', ['sprinkler', 'rain gun', 'pivot']],
+  ['surface', ['flood', 'furrow', 'basin', 'border', 'canal', 'surface', 'channel']]
+]
+
+/**
+ * Map a plot's free-text irrigation type to a method. Unknown or missing
+ * types give null.
+ */
+export function parseIrrigationMethod(irrigationType?: string): IrrigationMethod | null {
+  if (!irrigationType) return null
+  const value = irrigationType.trim().toLowerCase()
+  const match = METHOD_KEYWORDS.find(([, keywords]) => keywords.some(keyword => value.includes(keyword)))
+  return match ? match[0] : null
+}
+
+export function getSoilAvailableWater(soilType?: string): number {
+  if (!soilType) return DEFAULT_AVAILABLE_WATER
+  const value = soilType.trim().toLowerCase()
+  const match = SOIL_AVAILABLE_WATER.find(([texture]) => value.includes(texture))
+  return match ? match[1] : DEFAULT_AVAILABLE_WATER
+}
+
+/**
+ * Solar radiation at the top of the atmosphere (MJ/m2/day) for a latitude
+ * and date, FAO-56 equation 21
+ */
+export function extraterrestrialRadiation(latitude: number, date: string): number {
+  const day = new Date(date)
+  const dayOfYear = Math.floor((day.getTime() - Date.UTC(day.getUTCFullYear(), 0, 0)) / (24 * 60 * 60 * 1000))
+
+  const inverseDistance = 1 + 0.033 * Math.cos((2 * Math.PI * dayOfYear) / 365)
+  const declination = 0.409 * Math.sin((2 * Math.PI * dayOfYear) / 365 - 1.39)
+  const phi = (latitude * Math.PI) / 180
+  // Clamped for polar day and night
+  const sunsetAngle = Math.acos(Math.max(-1, Math.min(1, -Math.tan(phi) * Math.tan(declination))))
+
+  return ((24 * 60) / Math.PI) * SOLAR_CONSTANT * inverseDistance * (
+    sunsetAngle * Math.sin(phi) * Math.sin(declination) +
+    Math.cos(phi) * Math.cos(declination) * Math.sin(sunsetAngle)
+  )
+}
+
+/**
+ * Reference evapotranspiration in mm/day from the Hargreaves equation
+ */
+export function hargreavesET0(min: number, max: number, latitude: number, date: string): number {
+  const radiation = extraterrestrialRadiation(latitude, date) * RADIATION_TO_MM
+  const mean = (min + max) / 2
+  return Math.max(0, 0.0023 * radiation * (mean + 17.8) * Math.sqrt(Math.max(0, max - min)))
+}
+
+/**
+ * Crop coefficient for a growth stage. Vegetative growth sits between the
+ * initial and mid-season values; before emergence the initial value applies.
+ */
+export function getCropCoefficient(water: CropWaterProfile, stage: Crop['growth_stage'] | null): number {
+  switch (stage) {
+    case 'vegetative':
+      return (water.kc_initial + water.kc_mid) / 2
+    case 'flowering':
+    case 'fruiting':
+      return water.kc_mid
+    case 'mature':
+      return water.kc_end
+    default:
+      return water.kc_initial
+  }
+}
+
+/**
+ * Depth of soil the roots reach at a growth stage, in metres
+ */
+export function getRootDepth(water: CropWaterProfile, stage: Crop['growth_stage'] | null): number {
+  if (stage === 'vegetative') return water.root_depth_m * 0.7
+  if (stage === null || stage === 'seedling') return Math.max(0.15, water.root_depth_m * 0.3)
+  return water.root_depth_m
+}
+
+export interface WaterBalanceDay {
+  date: string
+  et0_mm: number
+  kc: number
+  rain_mm: number
+}
+
+export interface WaterBalanceOptions {
+  totalAvailableWater: number // mm
+  readilyAvailableWater: number // mm
+  initialDepletion: number // mm
+  method: Exclude<IrrigationMethod, 'rainfed'> | null // null: rainfed, never irrigate
+  areaSquareMeters: number
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10
+
+/**
+ * Run the daily root zone water balance (FAO-56 chapter 8). Depletion grows
+ * with crop water use and shrinks with rain; once it passes the method's
+ * trigger the root zone is refilled to field capacity that day.
+ */
+export function runWaterBalance(
+  days: WaterBalanceDay[],
+  options: WaterBalanceOptions
+): { days: IrrigationDay[]; events: IrrigationEvent[] } {
+  const threshold = options.method ? options.readilyAvailableWater * IRRIGATION_METHODS[options.method].trigger : Infinity
+  const efficiency = options.method ? IRRIGATION_METHODS[options.method].efficiency : 1
+  const result: IrrigationDay[] = []
+  const events: IrrigationEvent[] = []
+  let depletion = Math.min(options.initialDepletion, options.totalAvailableWater)
+
+  days.forEach(day => {
+    const etc = day.et0_mm * day.kc
+    depletion = Math.min(options.totalAvailableWater, Math.max(0, depletion + etc - day.rain_mm))
+
+    if (depletion > 0 && depletion >= threshold) {
+      const gross = depletion / efficiency
+      events.push({
+        date: day.date,
+        net_depth_mm: round1(depletion),
+        gross_depth_mm: round1(gross),
+        // 1 mm over 1 m2 is 1 litre
+        volume_liters: Math.round(gross * options.areaSquareMeters)
+      })
+      depletion = 0
+    }
+
+    result.push({
+      date: day.date,
+      et0_mm: round1(day.et0_mm),
+      kc: Math.round(day.kc * 100) / 100,
+      etc_mm: round1(etc),
+      rain_mm: round1(day.rain_mm),
+      depletion_mm: round1(depletion)
+    })
+  })
+
+  return { days: result, events }
+}
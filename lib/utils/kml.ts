@@ -0,0 +1,155 @@
+// KML reading and writing for plot boundaries. Only Placemarks with Polygon
+// (or MultiGeometry of Polygons) geometry are relevant to plots.
+
+import { PlotGeometry } from '../types'
+import { getPolygons } from './geometry'
+
+export type KMLFeature = GeoJSON.Feature<PlotGeometry | null, Record<string, any>>
+
+// Matches an element with an optional namespace prefix, e.g. <kml:Polygon>
+const element = (name: string, flags = 'g') =>
+  new RegExp(`<(?:\\w+:)?${name}\\b[^>]*>([\\s\\S]*?)</(?:\\w+:)?${name}>`, flags)
+
+function decodeText(text: string): string {
+  const cdata = text.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/)
+  if (cdata) return cdata[1]
+
+  return text
+    .trim()
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&')
+}
+
+function encodeText(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function firstText(xml: string, name: string): string | undefined {
+  const match = xml.match(element(name, ''))
+  return match ? decodeText(match[1]) : undefined
+}
+
+function parseCoordinates(text: string): GeoJSON.Position[] {
+  return text
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(tuple => {
+      const [lon, lat] = tuple.split(',').map(Number)
+      if (!Number.isFinite(lon) || !Number.isFinite(lat)) {
+        throw new Error(`Invalid KML coordinate: ${tuple}`)
+      }
+      return [lon, lat]
+    })
+}
+
+function parseBoundary(xml: string): GeoJSON.Position[] {
+  const coordinates = firstText(xml, 'coordinates')
+  if (coordinates === undefined) {
+    throw new Error('KML boundary has no coordinates')
+  }
+  return parseCoordinates(coordinates)
+}
+
+function parsePolygon(xml: string): GeoJSON.Position[][] {
+  const outer = xml.match(element('outerBoundaryIs', ''))
+  if (!outer) {
+    throw new Error('KML Polygon has no outer boundary')
+  }
+
+  const holes = Array.from(xml.matchAll(element('innerBoundaryIs'))).map(match => parseBoundary(match[1]))
+  return [parseBoundary(outer[1]), ...holes]
+}
+
+function parseProperties(placemark: string): Record<string, any> {
+  const properties: Record<string, any> = {}
+
+  const name = firstText(placemark, 'name')
+  if (name !== undefined) properties.name = name
+
+  const description = firstText(placemark, 'description')
+  if (description !== undefined) properties.description = description
+
+  // <Data name="..."><value>...</value></Data>
+  for (const match of placemark.matchAll(/<(?:\w+:)?Data\b[^>]*\bname="([^"]*)"[^>]*>([\s\S]*?)<\/(?:\w+:)?Data>/g)) {
+    properties[match[1]] = firstText(match[2], 'value') || ''
+  }
+
+  // <SchemaData><SimpleData name="...">...</SimpleData></SchemaData>
+  for (const match of placemark.matchAll(/<(?:\w+:)?SimpleData\b[^>]*\bname="([^"]*)"[^>]*>([\s\S]*?)<\/(?:\w+:)?SimpleData>/g)) {
+    properties[match[1]] = decodeText(match[2])
+  }
+
+  return properties
+}
+
+/**
+ * Parse the Placemarks of a KML document into GeoJSON features. Placemarks
+ * without polygon geometry are returned with a null geometry so that callers
+ * can report them.
+ */
+export function parseKML(kml: string): KMLFeature[] {
+  if (!/<(?:\w+:)?kml\b/.test(kml)) {
+    throw new Error('Invalid KML document')
+  }
+
+  return Array.from(kml.matchAll(element('Placemark'))).map(([, placemark]) => {
+    const polygons = Array.from(placemark.matchAll(element('Polygon'))).map(match => parsePolygon(match[1]))
+
+    let geometry: PlotGeometry | null = null
+    if (polygons.length === 1) {
+      geometry = { type: 'Polygon', coordinates: polygons[0] }
+    } else if (polygons.length > 1) {
+      geometry = { type: 'MultiPolygon', coordinates: polygons }
+    }
+
+    return { type: 'Feature', geometry, properties: parseProperties(placemark) }
+  })
+}
+
+/**
+ * Write features as a KML document. The name and description properties
+ * become Placemark elements, everything else goes into ExtendedData.
+ */
+export function featuresToKML(features: KMLFeature[], documentName: string): string {
+  const ring = (positions: GeoJSON.Position[]) =>
+    `<LinearRing><coordinates>${positions.map(coord => `${coord[0]},${coord[1]}`).join(' ')}</coordinates></LinearRing>`
+
+  const polygon = ([outer, ...holes]: GeoJSON.Position[][]) =>
+    '<Polygon>' +
+    `<outerBoundaryIs>${ring(outer)}</outerBoundaryIs>` +
+    holes.map(hole => `<innerBoundaryIs>${ring(hole)}</innerBoundaryIs>`).join('') +
+    '</Polygon>'
+
+  const placemarks = features.map(feature => {
+    const { name, description, ...attributes } = feature.properties || {}
+    const parts = feature.geometry ? getPolygons(feature.geometry).map(polygon) : []
+    const geometry = parts.length > 1 ? `<MultiGeometry>${parts.join('')}</MultiGeometry>` : parts.join('')
+
+    const data = Object.entries(attributes)
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([key, value]) => `<Data name="${encodeText(key)}"><value>${encodeText(String(value))}</value></Data>`)
+      .join('')
+
+    return '<Placemark>' +
+      (name !== undefined ? `<name>${encodeText(String(name))}</name>` : '') +
+      (description ? `<description>${encodeText(String(description))}</description>` : '') +
+      (data ? `<ExtendedData>${data}</ExtendedData>` : '') +
+      geometry +
+      '</Placemark>'
+  })
+
+  return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    '<kml xmlns="http://www.opengis.net/kml/2.2"><Document>' +
+    `<name>${encodeText(documentName)}</name>` +
+    placemarks.join('') +
+    '</Document></kml>\n'
+}
@@ -0,0 +1,226 @@
+// Mapbox Vector Tile (MVT 2.1) encoding for polygon layers.
+// Geometry must already be in integer tile coordinates (0..extent).
+
+export interface VectorTileFeature {
+  // Polygons, each a list of rings (exterior first), without closing vertices
+  polygons: number[][][][]
+  properties: Record<string, string | number | boolean | null | undefined>
+}
+
+export interface VectorTileLayer {
+  name: string
+  extent?: number
+  features: VectorTileFeature[]
+}
+
+export const DEFAULT_EXTENT = 4096
+
+const GEOM_TYPE_POLYGON = 3
+const COMMAND_MOVE_TO = 1
+const COMMAND_LINE_TO = 2
+const COMMAND_CLOSE_PATH = 7
+
+const WIRE_VARINT = 0
+const WIRE_64BIT = 1
+const WIRE_LENGTH_DELIMITED = 2
+
+/**
+ * Minimal protocol buffer writer, covering what the vector tile schema uses
+ */
+class ProtobufWriter {
+  private bytes: number[] = []
+
+  varint(value: number): this {
+    // Avoid bitwise operators, which truncate to 32 bits
+    while (value >= 0x80) {
+      this.bytes.push((value % 0x80) | 0x80)
+      value = Math.floor(value / 0x80)
+    }
+    this.bytes.push(value)
+    return this
+  }
+
+  tag(field: number, wireType: number): this {
+    return this.varint(field * 8 + wireType)
+  }
+
+  uint(field: number, value: number): this {
+    return this.tag(field, WIRE_VARINT).varint(value)
+  }
+
+  sint(field: number, value: number): this {
+    return this.tag(field, WIRE_VARINT).varint(zigzag(value))
+  }
+
+  double(field: number, value: number): this {
+    const view = new DataView(new ArrayBuffer(8))
+    view.setFloat64(0, value, true)
+    this.tag(field, WIRE_64BIT)
+    for (let i = 0; i < 8; i++) this.bytes.push(view.getUint8(i))
+    return this
+  }
+
+  bool(field: number, value: boolean): this {
+    return this.uint(field, value ? 1 : 0)
+  }
+
+  bytesField(field: number, data: Uint8Array): this {
+    this.tag(field, WIRE_LENGTH_DELIMITED).varint(data.length)
+    data.forEach(byte => this.bytes.push(byte))
+    return this
+  }
+
+  string(field: number, value: string): this {
+    return this.bytesField(field, new TextEncoder().encode(value))
+  }
+
+  packed(field: number, values: number[]): this {
+    const inner = new ProtobufWriter()
+    values.forEach(value => inner.varint(value))
+    return this.bytesField(field, inner.finish())
+  }
+
+  finish(): Uint8Array {
+    return new Uint8Array(this.bytes)
+  }
+}
+
+function zigzag(value: number): number {
+  return value >= 0 ? value * 2 : -value * 2 - 1
+}
+
+function command(id: number, count: number): number {
+  return (id & 0x7) | (count << 3)
+}
+
+// Surveyor's formula in tile coordinates; the spec defines exterior rings
+// as positive (clockwise on screen, since y points down)
+function signedArea(ring: number[][]): number {
+  let area = 0
+  for (let i = 0; i < ring.length; i++) {
+    const [x1, y1] = ring[i]
+    const [x2, y2] = ring[(i + 1) % ring.length]
+    area += x1 * y2 - x2 * y1
+  }
+  return area / 2
+}
+
+/**
+ * Drop repeated and closing vertices, then fix the winding. Returns null
+ * when the ring has no area left at tile resolution.
+ */
+function prepareRing(ring: number[][], exterior: boolean): number[][] | null {
+  const same = (a: number[], b: number[]) => a[0] === b[0] && a[1] === b[1]
+  const points: number[][] = []
+  ring.forEach(point => {
+    if (points.length === 0 || !same(points[points.length - 1], point)) points.push(point)
+  })
+  if (points.length > 1 && same(points[0], points[points.length - 1])) points.pop()
+
+  if (points.length < 3) return null
+
+  const area = signedArea(points)
+  if (area === 0) return null
+
+  return (area > 0) === exterior ? points : points.reverse()
+}
+
+function encodeGeometry(polygons: number[][][][]): number[] {
+  const geometry: number[] = []
+  let cursorX = 0
+  let cursorY = 0
+
+  const moveTo = (point: number[]) => {
+    geometry.push(zigzag(point[0] - cursorX), zigzag(point[1] - cursorY))
+    cursorX = point[0]
+    cursorY = point[1]
+  }
+
+  polygons.forEach(polygon => {
+    const exterior = prepareRing(polygon[0] || [], true)
+    if (!exterior) return
+
+    const rings = [exterior, ...polygon.slice(1)
+      .map(ring => prepareRing(ring, false))
+      .filter((ring): ring is number[][] => !!ring)]
+
+    rings.forEach(ring => {
+      geometry.push(command(COMMAND_MOVE_TO, 1))
+      moveTo(ring[0])
+      geometry.push(command(COMMAND_LINE_TO, ring.length - 1))
+      ring.slice(1).forEach(moveTo)
+      geometry.push(command(COMMAND_CLOSE_PATH, 1))
+    })
+  })
+
+  return geometry
+}
+
+function encodeValue(value: string | number | boolean): Uint8Array {
+  const writer = new ProtobufWriter()
+  if (typeof value === 'string') {
+    writer.string(1, value)
+  } else if (typeof value === 'boolean') {
+    writer.bool(7, value)
+  } else if (Number.isSafeInteger(value)) {
+    if (value >= 0) writer.uint(5, value)
+    else writer.sint(6, value)
+  } else {
+    writer.double(3, value)
+  }
+  return writer.finish()
+}
+
+function encodeLayer(layer: VectorTileLayer): Uint8Array {
+  const keys: string[] = []
+  const values: Array<string | number | boolean> = []
+  const keyIndex = new Map<string, number>()
+  const valueIndex = new Map<string, number>()
+
+  const writer = new ProtobufWriter()
+  writer.uint(15, 2) // version
+  writer.string(1, layer.name)
+
+  layer.features.forEach(feature => {
+    const geometry = encodeGeometry(feature.polygons)
+    if (geometry.length === 0) return
+
+    const tags: number[] = []
+    Object.keys(feature.properties).forEach(key => {
+      const value = feature.properties[key]
+      if (value === null || value === undefined) return
+
+      if (!keyIndex.has(key)) {
+        keyIndex.set(key, keys.length)
+        keys.push(key)
+      }
+      const valueKey = `${typeof value}:${value}`
+      if (!valueIndex.has(valueKey)) {
+        valueIndex.set(valueKey, values.length)
+        values.push(value)
+      }
+      tags.push(keyIndex.get(key)!, valueIndex.get(valueKey)!)
+    })
+
+    const featureWriter = new ProtobufWriter()
+    if (tags.length > 0) featureWriter.packed(2, tags)
+    featureWriter.uint(3, GEOM_TYPE_POLYGON)
+    featureWriter.packed(4, geometry)
+    writer.bytesField(2, featureWriter.finish())
+  })
+
+  keys.forEach(key => writer.string(3, key))
+  values.forEach(value => writer.bytesField(4, encodeValue(value)))
+  writer.uint(5, layer.extent || DEFAULT_EXTENT)
+
+  return writer.finish()
+}
+
+/**
+ * Encode polygon layers as a Mapbox Vector Tile
+ */
+export function encodeVectorTile(layers: VectorTileLayer[]): Uint8Array {
+  const writer = new ProtobufWriter()
+  layers.forEach(layer => writer.bytesField(3, encodeLayer(layer)))
+  return writer.finish()
+}
@@ -0,0 +1,182 @@
+// Pest and disease risk models. Insects are tracked by degree days since
+// sowing; late blight by Smith periods (warm nights with long leaf wetness)
+// and powdery mildew by the Gubler-Thomas risk index. Our weather providers
+// give daily humidity, not hourly leaf wetness, so wetness is estimated from
+// humidity and rain.
+
+import { PEST_CATALOG, PEST_DEGREE_DAY_MODELS } from '../config/pest-catalog'
+import { DegreeDayModelParams, PestRiskLevel, PestRiskModel, RiskWeatherDay } from '../types'
+import { calculateGDD, findCropProfile } from './phenology'
+
+// Humidity at or below which leaves dry within the day
+const DRY_HUMIDITY = 70
+// Hours leaves stay wet on a saturated day
+const SATURATED_WET_HOURS = 18
+// A rainy day keeps leaves wet for at least this long
+const RAIN_WET_HOURS = 8
+const RAIN_WET_MM = 1
+
+// Smith period: two days in a row with a minimum of at least 10C and 11 hours
+// of leaf wetness
+const BLIGHT_MIN_TEMPERATURE = 10
+const BLIGHT_WET_HOURS = 11
+// Spores from an infection keep the risk up for a few days after
+const BLIGHT_RISK_CARRYOVER = 0.7
+
+// Gubler-Thomas: 6 hours between 21C and 30C is a favourable day
+const MILDEW_LOW = 21
+const MILDEW_HIGH = 30
+const MILDEW_LETHAL = 35
+const MILDEW_HOURS = 6
+
+// Activity of an insect above its degree-day model's humidity limit
+const HUMID_ACTIVITY = 0.6
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value))
+
+export function getRiskLevel(score: number): PestRiskLevel {
+  if (score >= 0.7) return 'high'
+  if (score >= 0.4) return 'medium'
+  return 'low'
+}
+
+/**
+ * Hours of leaf wetness for a day, from its mean humidity, rising from none
+ * at 70% to 18 hours when saturated. Rain wets the leaves regardless.
+ */
+export function estimateLeafWetnessHours(humidity: number, rainMm: number): number {
+  const fromHumidity = clamp01((humidity - DRY_HUMIDITY) / (100 - DRY_HUMIDITY)) * SATURATED_WET_HOURS
+  const fromRain = rainMm >= RAIN_WET_MM ? RAIN_WET_HOURS : 0
+  return Math.round(Math.max(fromHumidity, fromRain) * 10) / 10
+}
+
+/**
+ * Hours of the day spent between two temperatures, assuming the
+ * temperature moves evenly between the day's minimum and maximum
+ */
+export function hoursBetween(min: number, max: number, low: number, high: number): number {
+  if (max <= min) {
+    return min >= low && min <= high ? 24 : 0
+  }
+  const overlap = Math.min(max, high) - Math.max(min, low)
+  return overlap > 0 ? Math.round(24 * overlap / (max - min) * 10) / 10 : 0
+}
+
+/**
+ * Insect risk from degree days: it builds up to 0.5 as the first generation
+ * develops and, once it has emerged, follows how warm each day is
+ */
+export function createDegreeDayModel(pestType: string, params: DegreeDayModelParams, hostCrops: string[]): PestRiskModel {
+  return {
+    id: `${pestType}_degree_days`,
+    pest_type: pestType,
+    kind: 'insect',
+    host_crops: hostCrops,
+    evaluate: days => {
+      let accumulated = 0
+      return days.map(day => {
+        const dd = calculateGDD(day.min, day.max, params.base_c, params.upper_c)
+        accumulated += dd
+
+        let score = accumulated < params.emergence_dd
+          ? 0.5 * accumulated / params.emergence_dd
+          : 0.5 + 0.5 * Math.min(1, dd / params.optimal_daily_dd)
+        if (params.max_humidity !== undefined && day.humidity > params.max_humidity) {
+          score *= HUMID_ACTIVITY
+        }
+        return round2(clamp01(score))
+      })
+    }
+  }
+}
+
+/**
+ * Late blight: a Smith period is full risk, one qualifying day 0.6 and a
+ * warm night with some wetness 0.3. Risk decays over the following days.
+ */
+export function createLateBlightModel(hostCrops: string[]): PestRiskModel {
+  return {
+    id: 'late_blight_smith',
+    pest_type: 'late_blight',
+    kind: 'disease',
+    host_crops: hostCrops,
+    evaluate: days => {
+      let previousBlightDay = false
+      let previousScore = 0
+      return days.map(day => {
+        const wetHours = estimateLeafWetnessHours(day.humidity, day.rain_mm)
+        const warm = day.min >= BLIGHT_MIN_TEMPERATURE
+        const blightDay = warm && wetHours >= BLIGHT_WET_HOURS
+
+        let score = 0
+        if (blightDay) {
+          score = previousBlightDay ? 1 : 0.6
+        } else if (warm && wetHours >= BLIGHT_WET_HOURS / 2) {
+          score = 0.3
+        }
+        score = round2(Math.max(score, previousScore * BLIGHT_RISK_CARRYOVER))
+
+        previousBlightDay = blightDay
+        previousScore = score
+        return score
+      })
+    }
+  }
+}
+
+/**
+ * Powdery mildew by the Gubler-Thomas index. The index starts after three
+ * favourable days in a row, then gains 20 points a favourable day, loses 10
+ * otherwise and another 10 on a day above 35C, within 0-100.
+ */
+export function createPowderyMildewModel(hostCrops: string[]): PestRiskModel {
+  return {
+    id: 'powdery_mildew_gubler_thomas',
+    pest_type: 'powdery_mildew',
+    kind: 'disease',
+    host_crops: hostCrops,
+    evaluate: days => {
+      let index = 0
+      let favourableRun = 0
+      let started = false
+      return days.map(day => {
+        const favourable = hoursBetween(day.min, day.max, MILDEW_LOW, MILDEW_HIGH) >= MILDEW_HOURS
+        favourableRun = favourable ? favourableRun + 1 : 0
+
+        if (!started) {
+          started = favourableRun >= 3
+          index = started ? 60 : 0
+        } else {
+          index += favourable ? 20 : -10
+          if (day.max > MILDEW_LETHAL) index -= 10
+          index = Math.min(100, Math.max(0, index))
+        }
+        return round2(index / 100)
+      })
+    }
+  }
+}
+
+const hostsOf = (pestType: string) => (PEST_CATALOG[pestType] ? PEST_CATALOG[pestType].commonCrops : [])
+
+export const DEFAULT_PEST_RISK_MODELS: PestRiskModel[] = [
+  ...Object.entries(PEST_DEGREE_DAY_MODELS).map(([pestType, params]) =>
+    createDegreeDayModel(pestType, params, hostsOf(pestType))
+  ),
+  createLateBlightModel(hostsOf('late_blight')),
+  createPowderyMildewModel(hostsOf('powdery_mildew'))
+]
+
+const cropKey = (name: string) => {
+  const profile = findCropProfile(name)
+  return profile ? profile.name : name.trim().toLowerCase().replace(/s$/, '')
+}
+
+/**
+ * Whether a model applies to a crop, matching catalog aliases and plurals
+ */
+export function isHostCrop(model: PestRiskModel, cropName: string): boolean {
+  const key = cropKey(cropName)
+  return model.host_crops.some(host => cropKey(host) === key)
+}
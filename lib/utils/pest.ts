@@ -0,0 +1,89 @@
+// Pest battle rules, shared by the mock and Supabase pest services. The
+// battle engine's server side (migration 020) applies the same formulas.
+
+import {
+  DEFAULT_PEST_BASE_XP,
+  DEFAULT_PEST_HP,
+  DEFAULT_PEST_RESISTANCE,
+  LOST_BATTLE_XP_SHARE,
+  PEST_CATALOG,
+  PEST_DAILY_REGROWTH,
+  SEVERITY_HP_MULTIPLIER,
+  SEVERITY_MAX_TURNS,
+  SEVERITY_XP_MULTIPLIER,
+  TREATMENT_EFFECT_SPREAD
+} from '../config/pest-catalog'
+import { PestBattle, PestTreatment } from '../types'
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * XP a battle against a pest is worth: the pest's base XP scaled by severity
+ */
+export function calculateBattleXP(pestType: string, severity: PestBattle['severity']): number {
+  const pest = PEST_CATALOG[pestType]
+  const baseXP = pest ? pest.baseXP : DEFAULT_PEST_BASE_XP
+  return Math.round(baseXP * SEVERITY_XP_MULTIPLIER[severity])
+}
+
+/**
+ * XP awarded when a battle is resolved: the full reward for a win, a share
+ * of it for a loss. Giving up before a single turn earns nothing.
+ */
+export function calculateResolutionXP(battle: Pick<PestBattle, 'xp_reward' | 'turns_played'>, success: boolean): number {
+  if (success) return battle.xp_reward
+  if (battle.turns_played === 0) return 0
+  return Math.round(battle.xp_reward * LOST_BATTLE_XP_SHARE)
+}
+
+/**
+ * A new battle's pest: HP scaled by severity, the pest's resistance and the
+ * daily turns the player gets to beat it
+ */
+export function getBattleStats(
+  pestType: string,
+  severity: PestBattle['severity']
+): Required<Pick<PestBattle, 'hp' | 'max_hp' | 'resistance' | 'turns_played' | 'max_turns'>> {
+  const pest = PEST_CATALOG[pestType]
+  const maxHp = Math.round((pest ? pest.hp : DEFAULT_PEST_HP) * SEVERITY_HP_MULTIPLIER[severity])
+  return {
+    hp: maxHp,
+    max_hp: maxHp,
+    resistance: pest ? pest.resistance : DEFAULT_PEST_RESISTANCE,
+    turns_played: 0,
+    max_turns: SEVERITY_MAX_TURNS[severity]
+  }
+}
+
+export function getTreatmentEfficacy(treatment: PestTreatment, pestType: string): number {
+  const efficacy = treatment.efficacy[pestType]
+  return efficacy !== undefined ? efficacy : treatment.default_efficacy
+}
+
+// Dose for a plot, in the treatment's unit
+export function getTreatmentDose(treatment: PestTreatment, areaHectares: number): number {
+  return round2(treatment.dose_per_hectare * areaHectares)
+}
+
+/**
+ * HP a pest regains between turns. A turn a day keeps it from growing back;
+ * each further day without treatment gives it back a share of its full HP.
+ */
+export function calculateRegrowth(battle: { hp: number; max_hp: number }, daysSinceLastTurn: number): number {
+  const idleDays = Math.max(daysSinceLastTurn - 1, 0)
+  return Math.min(battle.max_hp - battle.hp, Math.round(battle.max_hp * PEST_DAILY_REGROWTH * idleDays))
+}
+
+/**
+ * HP a treatment takes off: its efficacy against the pest, less the pest's
+ * resistance, varied by a roll between 0 and 1
+ */
+export function calculateTurnDamage(maxHp: number, efficacy: number, resistance: number, roll: number): number {
+  const variation = 1 - TREATMENT_EFFECT_SPREAD + 2 * TREATMENT_EFFECT_SPREAD * roll
+  return Math.round(maxHp * efficacy * (1 - resistance) * variation)
+}
+
+// Share of the pest controlled when the battle ends
+export function calculateSuccessRate(hp: number, maxHp: number): number {
+  return hp <= 0 ? 1 : round2(1 - hp / maxHp)
+}
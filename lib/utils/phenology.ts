@@ -0,0 +1,249 @@
+// Crop phenology from growing degree days (GDD). Stage dates come from the
+// temperatures a crop has seen since sowing, the forecast ahead and, past
+// the forecast, the recent daily rate of development.
+
+import { CROP_CATALOG, GENERIC_CROP_PROFILE } from '../config/crop-catalog'
+import {
+  Crop,
+  CropPhenology,
+  CropPhenologyModel,
+  CropProfile,
+  CropStageDates,
+  DailyTemperature,
+  HarvestWindowEstimate,
+  PredictedDate
+} from '../types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Days before today whose GDD set the rate beyond the forecast
+const RECENT_RATE_DAYS = 14
+// Beyond the forecast, development is never assumed slower than this share
+// of the crop's typical rate, so a cold spell can't stall a projection forever
+const MIN_RATE_SHARE = 0.25
+const MAX_SEASON_DAYS = 730
+
+// How far a season's development rate typically strays from the rate
+// assumed for days without weather, as a share; wider for generic crops
+const ASSUMED_RATE_VARIATION = 0.12
+const GENERIC_RATE_VARIATION = 0.25
+// Harvest windows are predicted with 80% intervals
+export const HARVEST_PREDICTION_CONFIDENCE = 0.8
+const INTERVAL_Z = 1.2816
+
+const normalizeName = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ')
+
+export function addDays(date: string, days: number): string {
+  return new Date(new Date(date).getTime() + days * DAY_MS).toISOString().split('T')[0]
+}
+
+/**
+ * Degree days for one day: the mean of the day's minimum and maximum,
+ * each held between the base and upper temperatures, less the base
+ */
+export function calculateGDD(min: number, max: number, base: number, upper: number): number {
+  const clamp = (temperature: number) => Math.min(upper, Math.max(base, temperature))
+  return (clamp(min) + clamp(max)) / 2 - base
+}
+
+/**
+ * Find the catalog profile for a crop name, or undefined for crops the
+ * catalog doesn't cover
+ */
+export function findCropProfile(name: string): CropProfile | undefined {
+  const key = normalizeName(name)
+  return CROP_CATALOG.find(profile =>
+    profile.name === key || profile.aliases.some(alias => normalizeName(alias) === key)
+  )
+}
+
+/**
+ * Resolve the stage requirements for a crop and variety. Varieties either
+ * list their own stages or scale the crop's; unknown varieties get the crop's.
+ */
+export function getCropPhenologyModel(name: string, variety?: string): CropPhenologyModel {
+  const profile = findCropProfile(name)
+  const { aliases, varieties, ...model } = profile || GENERIC_CROP_PROFILE
+  const match = variety
+    ? varieties.find(candidate => normalizeName(candidate.name) === normalizeName(variety))
+    : undefined
+
+  let stages = model.stages
+  if (match && match.stages) {
+    stages = match.stages
+  } else if (match && match.maturity_scale) {
+    const scale = match.maturity_scale
+    stages = stages.map(stage => ({
+      stage: stage.stage,
+      days: Math.round(stage.days * scale),
+      gdd: Math.round(stage.gdd * scale)
+    }))
+  }
+
+  return { ...model, stages, variety: match ? match.name : variety, generic: !profile }
+}
+
+/**
+ * Typical season length of a crop in days, sowing to harvest
+ */
+export function getTypicalSeasonDays(model: CropPhenologyModel): number {
+  return model.stages.reduce((total, stage) => total + stage.days, model.emergence.days)
+}
+
+/**
+ * Project a crop's stage dates and harvest window. Temperatures cover any
+ * days of the season (history and forecast); days without them are filled
+ * in at a typical rate and counted in estimated_days.
+ */
+export function projectPhenology(
+  model: CropPhenologyModel,
+  sownDate: string,
+  temperatures: DailyTemperature[],
+  today: string = new Date().toISOString().split('T')[0]
+): CropPhenology {
+  const gddByDate = new Map<string, number>()
+  temperatures.forEach(day => {
+    gddByDate.set(day.date, calculateGDD(day.min, day.max, model.base_temperature_c, model.max_temperature_c))
+  })
+
+  const requiredGdd = model.stages.reduce((total, stage) => total + stage.gdd, model.emergence.gdd)
+  const typicalRate = requiredGdd / getTypicalSeasonDays(model)
+
+  // Past days without weather use the typical rate; future days past the
+  // forecast use the recent rate
+  const recent: number[] = []
+  for (let offset = 1; offset <= RECENT_RATE_DAYS; offset++) {
+    const gdd = gddByDate.get(addDays(today, -offset))
+    if (gdd !== undefined) recent.push(gdd)
+  }
+  const recentRate = recent.length > 0 ? recent.reduce((sum, gdd) => sum + gdd, 0) / recent.length : typicalRate
+  const futureRate = Math.max(recentRate, typicalRate * MIN_RATE_SHARE)
+
+  // Cumulative GDD at which each stage starts, ending with harvest
+  const thresholds = [model.emergence.gdd]
+  model.stages.forEach(stage => thresholds.push(thresholds[thresholds.length - 1] + stage.gdd))
+  const crossedOn: string[] = []
+
+  let accumulated = 0
+  let accumulatedToday = 0
+  let estimatedDays = 0
+  let date = sownDate
+
+  for (let day = 0; day < MAX_SEASON_DAYS && crossedOn.length < thresholds.length; day++) {
+    if (date === today) accumulatedToday = accumulated
+
+    const observed = gddByDate.get(date)
+    if (observed === undefined) estimatedDays++
+    accumulated += observed !== undefined ? observed : date < today ? typicalRate : futureRate
+
+    // A stage starts the day after its degree days are reached
+    date = addDays(date, 1)
+    while (crossedOn.length < thresholds.length && accumulated >= thresholds[crossedOn.length]) {
+      crossedOn.push(date)
+    }
+  }
+
+  if (today >= date) {
+    // Every stage was reached before today; keep summing the days since
+    let day = date
+    accumulatedToday = accumulated
+    while (day < today) {
+      const observed = gddByDate.get(day)
+      accumulatedToday += observed !== undefined ? observed : typicalRate
+      day = addDays(day, 1)
+    }
+  }
+  while (crossedOn.length < thresholds.length) {
+    crossedOn.push(addDays(sownDate, MAX_SEASON_DAYS))
+  }
+
+  const stages: CropStageDates[] = model.stages.map((stage, index) => {
+    const gddStart = thresholds[index]
+    const gddEnd = thresholds[index + 1]
+    let status: CropStageDates['status'] = 'pending'
+    if (accumulatedToday >= gddEnd) {
+      status = 'completed'
+    } else if (accumulatedToday >= gddStart) {
+      status = 'current'
+    }
+
+    return {
+      stage: stage.stage,
+      start_date: crossedOn[index],
+      end_date: crossedOn[index + 1],
+      gdd_start: gddStart,
+      gdd_end: gddEnd,
+      status
+    }
+  })
+
+  const harvestDate = crossedOn[thresholds.length - 1]
+  const current = stages.find(stage => stage.status === 'current')
+  let currentStage: Crop['growth_stage'] | null = current ? current.stage : null
+  if (!current && accumulatedToday >= requiredGdd) {
+    currentStage = stages[stages.length - 1].stage
+  }
+
+  return {
+    crop: model.name,
+    variety: model.variety,
+    generic: model.generic,
+    base_temperature_c: model.base_temperature_c,
+    accumulated_gdd: Math.round(accumulatedToday),
+    required_gdd: requiredGdd,
+    progress: Math.min(100, (accumulatedToday / requiredGdd) * 100),
+    current_stage: currentStage,
+    stages,
+    harvest_window: { start: harvestDate, end: addDays(harvestDate, model.harvest_window_days) },
+    estimated_days: estimatedDays
+  }
+}
+
+/**
+ * Growth stage a projection puts the crop in on a date: null before
+ * emergence, mature once the last stage has ended
+ */
+export function getStageOnDate(phenology: CropPhenology, date: string): Crop['growth_stage'] | null {
+  const stages = phenology.stages
+  if (stages.length === 0 || date < stages[0].start_date) return null
+
+  const stage = stages.find(candidate => date >= candidate.start_date && date < candidate.end_date)
+  return stage ? stage.stage : stages[stages.length - 1].stage
+}
+
+/**
+ * Harvest window with confidence intervals. Days with recorded or forecast
+ * weather are taken as known; the error of the days assumed to develop at
+ * a typical or recent rate adds up, so the intervals narrow as the season
+ * is measured.
+ */
+export function predictHarvestWindow(
+  sownDate: string,
+  phenology: CropPhenology,
+  today: string = new Date().toISOString().split('T')[0]
+): HarvestWindowEstimate {
+  const seasonDays = Math.max(1, Math.round((new Date(phenology.harvest_window.start).getTime() - new Date(sownDate).getTime()) / DAY_MS))
+  const assumedDays = Math.min(phenology.estimated_days, seasonDays)
+  const variation = phenology.generic ? GENERIC_RATE_VARIATION : ASSUMED_RATE_VARIATION
+  const spread = Math.ceil(INTERVAL_Z * variation * assumedDays)
+  const mature = phenology.accumulated_gdd >= phenology.required_gdd
+
+  // Once the crop is mature its window is set; before then it cannot open
+  // earlier than today
+  const withInterval = (date: string): PredictedDate => {
+    if (mature) return { date, earliest: date, latest: date }
+    const earliest = addDays(date, -spread)
+    const floor = date < today ? date : today
+    return { date, earliest: earliest < floor ? floor : earliest, latest: addDays(date, spread) }
+  }
+
+  return {
+    window_open: withInterval(phenology.harvest_window.start),
+    window_close: withInterval(phenology.harvest_window.end),
+    confidence_level: HARVEST_PREDICTION_CONFIDENCE,
+    measured_share: Math.round((1 - assumedDays / seasonDays) * 1000) / 1000,
+    accumulated_gdd: phenology.accumulated_gdd,
+    required_gdd: phenology.required_gdd,
+    generic: phenology.generic
+  }
+}
@@ -0,0 +1,125 @@
+// Crop rotation rule engine: checks a crop against the earlier crops of a
+// plot for family repeats and disease carry-over, credits nitrogen left by
+// legumes and scores the result
+
+import { Crop, RotationCredit, RotationCropRef, RotationEvaluation, RotationIssue, RotationRule } from '../types'
+import { CROP_FAMILIES, DEFAULT_ROTATION_RULES, LEGUME_FAMILY } from '../config/rotation-rules'
+import { findCropProfile } from './phenology'
+import { getCropSeason, getCropSeasonIndex } from './soil'
+
+const normalizeName = (name: string) => name.trim().toLowerCase()
+
+/**
+ * Botanical family of a crop, or undefined for crops we don't know
+ */
+export function getCropFamily(name: string): string | undefined {
+  const profile = findCropProfile(name)
+  const names = [normalizeName(name), profile ? profile.name : null].filter(Boolean) as string[]
+
+  const match = Object.entries(CROP_FAMILIES).find(([, members]) => members.some(member => names.includes(member)))
+  return match ? match[0] : undefined
+}
+
+// Rule hosts are families or crop names
+function isHost(hosts: string[], name: string, family?: string): boolean {
+  const profile = findCropProfile(name)
+  return hosts.some(host =>
+    host === family || host === normalizeName(name) || (profile !== undefined && host === profile.name)
+  )
+}
+
+/**
+ * Check a crop for a season against the earlier crops of its plot. Crops of
+ * the same or later seasons are ignored: they grow alongside, not before.
+ */
+export function evaluateRotation(
+  history: Array<Pick<Crop, 'id' | 'name' | 'sown_date'>>,
+  cropName: string,
+  season: string,
+  rules: RotationRule[] = DEFAULT_ROTATION_RULES
+): RotationEvaluation {
+  const target = getCropSeasonIndex(season)
+  if (target === null) {
+    throw new Error(`Unknown season: ${season}`)
+  }
+
+  const family = getCropFamily(cropName)
+  // Most recent first, so each rule reports the nearest conflict
+  const earlier = history
+    .map(crop => {
+      const cropSeason = getCropSeason(crop.sown_date)
+      return {
+        ref: { id: crop.id, name: crop.name, season: cropSeason } as RotationCropRef,
+        family: getCropFamily(crop.name),
+        since: target - (getCropSeasonIndex(cropSeason) as number)
+      }
+    })
+    .filter(crop => crop.since > 0)
+    .sort((a, b) => a.since - b.since)
+
+  const issues: RotationIssue[] = []
+  const credits: RotationCredit[] = []
+  let score = 100
+
+  rules.forEach(rule => {
+    if (rule.type === 'family_interval') {
+      if (family !== rule.family) return
+      const conflict = earlier.find(crop => crop.family === rule.family && crop.since < rule.min_seasons)
+      if (!conflict) return
+
+      score -= rule.penalty
+      issues.push({
+        type: 'VALIDATION_ERROR',
+        code: 'FAMILY_REPEAT',
+        severity: 'warning',
+        rule_id: rule.id,
+        message: `${cropName} follows ${conflict.ref.name} (${conflict.ref.season}) in the same family (${rule.family}); ` +
+          `wait ${rule.min_seasons} seasons between them`,
+        conflicting_crop: conflict.ref,
+        seasons_since: conflict.since,
+        required_seasons: rule.min_seasons
+      })
+    } else if (rule.type === 'break_crop') {
+      if (!isHost(rule.hosts, cropName, family)) return
+      const conflict = earlier.find(crop =>
+        isHost(rule.hosts, crop.ref.name, crop.family) && crop.since < rule.min_seasons
+      )
+      if (!conflict) return
+
+      score -= rule.penalty
+      issues.push({
+        type: 'VALIDATION_ERROR',
+        code: 'DISEASE_BREAK',
+        severity: 'warning',
+        rule_id: rule.id,
+        message: `${rule.disease} can carry over from ${conflict.ref.name} (${conflict.ref.season}) to ${cropName}; ` +
+          `grow a break crop such as ${rule.break_crops.join(', ')} first`,
+        conflicting_crop: conflict.ref,
+        seasons_since: conflict.since,
+        required_seasons: rule.min_seasons
+      })
+    } else {
+      if (!family || !rule.beneficiaries.includes(family)) return
+      const legume = earlier.find(crop => crop.family === LEGUME_FAMILY && crop.since <= rule.within_seasons)
+      if (!legume) return
+
+      score += rule.bonus
+      credits.push({
+        rule_id: rule.id,
+        source_crop: legume.ref,
+        nitrogen_credit_kg_ha: rule.nitrogen_credit_kg_ha,
+        message: `${legume.ref.name} (${legume.ref.season}) left nitrogen behind; ` +
+          `cut nitrogen fertilizer by about ${rule.nitrogen_credit_kg_ha} kg/ha`
+      })
+    }
+  })
+
+  return {
+    crop_name: cropName,
+    family,
+    season,
+    score: Math.max(0, Math.min(100, score)),
+    issues,
+    credits
+  }
+}
@@ -0,0 +1,378 @@
+// ESRI Shapefile reading and writing for plot boundaries (.shp, .shx,
+// .dbf and .prj). Only polygon layers in geographic WGS84 are supported.
+
+import { PlotGeometry } from '../types'
+import { geodesicRingSignedArea } from './geodesic'
+import { closeRing, getPolygons } from './geometry'
+
+export type ShapefileFeature = GeoJSON.Feature<PlotGeometry | null, Record<string, any>>
+
+export interface ShapefileLayer {
+  shp: Uint8Array
+  shx: Uint8Array
+  dbf: Uint8Array
+  prj: string
+}
+
+const FILE_CODE = 9994
+const VERSION = 1000
+const HEADER_LENGTH = 100
+
+const SHAPE_NULL = 0
+const SHAPE_POLYGON = 5
+const SHAPE_POLYGON_Z = 15
+const SHAPE_POLYGON_M = 25
+
+const DBF_FIELD_NAME_LENGTH = 10
+const DBF_MAX_CHARACTER_LENGTH = 254
+
+export const WGS84_PRJ =
+  'GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],' +
+  'PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]'
+
+const toView = (bytes: Uint8Array) => new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+
+/**
+ * Check that a .prj describes geographic WGS84 coordinates. Projected
+ * layers (UTM and the like) would need reprojection, which we don't do.
+ */
+export function isWGS84Projection(prj: string): boolean {
+  const wkt = prj.trim().toUpperCase()
+  return wkt.startsWith('GEOGCS') && /WGS[ _]?(19)?84/.test(wkt)
+}
+
+/**
+ * Parse a polygon Shapefile and its attribute table into GeoJSON features.
+ * Null shapes are returned with a null geometry.
+ */
+export function parseShapefile(shp: Uint8Array, dbf?: Uint8Array, prj?: string): ShapefileFeature[] {
+  if (prj !== undefined && !isWGS84Projection(prj)) {
+    throw new Error('Shapefile must use geographic WGS84 coordinates (EPSG:4326)')
+  }
+
+  const view = toView(shp)
+  if (shp.length < HEADER_LENGTH || view.getInt32(0, false) !== FILE_CODE) {
+    throw new Error('Invalid Shapefile')
+  }
+
+  const layerType = view.getInt32(32, true)
+  if (layerType !== SHAPE_POLYGON && layerType !== SHAPE_POLYGON_Z && layerType !== SHAPE_POLYGON_M) {
+    throw new Error(`Unsupported Shapefile shape type: ${layerType} (only polygons are supported)`)
+  }
+
+  const fileLength = Math.min(view.getInt32(24, false) * 2, shp.length)
+  const records = dbf ? parseDBF(dbf) : []
+  const features: ShapefileFeature[] = []
+  let offset = HEADER_LENGTH
+
+  while (offset + 8 <= fileLength) {
+    const contentLength = view.getInt32(offset + 4, false) * 2
+    const content = offset + 8
+    const properties = records[features.length] || {}
+    offset = content + contentLength
+
+    const shapeType = view.getInt32(content, true)
+    if (shapeType === SHAPE_NULL) {
+      features.push({ type: 'Feature', geometry: null, properties })
+      continue
+    }
+
+    const partCount = view.getInt32(content + 36, true)
+    const pointCount = view.getInt32(content + 40, true)
+    const partStarts: number[] = []
+    for (let i = 0; i < partCount; i++) {
+      partStarts.push(view.getInt32(content + 44 + i * 4, true))
+    }
+
+    const pointsOffset = content + 44 + partCount * 4
+    const rings = partStarts.map((start, i) => {
+      const end = i + 1 < partCount ? partStarts[i + 1] : pointCount
+      const ring: GeoJSON.Position[] = []
+      for (let p = start; p < end; p++) {
+        ring.push([
+          view.getFloat64(pointsOffset + p * 16, true),
+          view.getFloat64(pointsOffset + p * 16 + 8, true)
+        ])
+      }
+      return ring
+    })
+
+    features.push({ type: 'Feature', geometry: ringsToGeometry(rings), properties })
+  }
+
+  return features
+}
+
+/**
+ * Shapefile polygons are a flat list of rings: clockwise outer rings, each
+ * followed by its counter-clockwise holes. Group them into GeoJSON polygons
+ * with RFC 7946 winding (outer counter-clockwise, holes clockwise).
+ */
+function ringsToGeometry(rings: GeoJSON.Position[][]): PlotGeometry | null {
+  const polygons: GeoJSON.Position[][][] = []
+
+  rings.forEach(ring => {
+    const isHole = geodesicRingSignedArea(ring) > 0
+    if (isHole && polygons.length > 0) {
+      const container = polygons.find(([outer]) => isPointInRing(ring[0], outer)) || polygons[polygons.length - 1]
+      container.push([...ring].reverse())
+    } else {
+      polygons.push([isHole ? ring : [...ring].reverse()])
+    }
+  })
+
+  if (polygons.length === 0) return null
+  if (polygons.length === 1) return { type: 'Polygon', coordinates: polygons[0] }
+  return { type: 'MultiPolygon', coordinates: polygons }
+}
+
+function isPointInRing(point: GeoJSON.Position, ring: GeoJSON.Position[]): boolean {
+  let inside = false
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i]
+    const [xj, yj] = ring[j]
+    if ((yi > point[1]) !== (yj > point[1]) &&
+        point[0] < ((xj - xi) * (point[1] - yi)) / (yj - yi) + xi) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+/**
+ * Parse a dBASE attribute table into one object per record
+ */
+export function parseDBF(dbf: Uint8Array): Record<string, any>[] {
+  const view = toView(dbf)
+  const recordCount = view.getUint32(4, true)
+  const headerLength = view.getUint16(8, true)
+  const recordLength = view.getUint16(10, true)
+  const decoder = new TextDecoder()
+
+  const fields: Array<{ name: string; type: string; length: number }> = []
+  for (let offset = 32; offset < headerLength - 1 && dbf[offset] !== 0x0d; offset += 32) {
+    const nameBytes = dbf.subarray(offset, offset + 11)
+    const nameEnd = nameBytes.indexOf(0)
+    fields.push({
+      name: decoder.decode(nameBytes.subarray(0, nameEnd === -1 ? 11 : nameEnd)),
+      type: String.fromCharCode(dbf[offset + 11]),
+      length: dbf[offset + 16]
+    })
+  }
+
+  const records: Record<string, any>[] = []
+  for (let r = 0; r < recordCount; r++) {
+    let offset = headerLength + r * recordLength
+    if (offset + recordLength > dbf.length) break
+
+    // Records start with a deletion flag: ' ' for live, '*' for deleted
+    const deleted = dbf[offset] === 0x2a
+    offset += 1
+
+    const record: Record<string, any> = {}
+    fields.forEach(field => {
+      const raw = decoder.decode(dbf.subarray(offset, offset + field.length)).trim()
+      offset += field.length
+      record[field.name] = parseDBFValue(raw, field.type)
+    })
+
+    // Keep deleted records as placeholders so records stay aligned with shapes
+    records.push(deleted ? {} : record)
+  }
+
+  return records
+}
+
+function parseDBFValue(raw: string, type: string): any {
+  switch (type) {
+    case 'N':
+    case 'F':
+      return raw === '' ? null : Number(raw)
+    case 'L':
+      if (/^[YyTt]$/.test(raw)) return true
+      if (/^[NnFf]$/.test(raw)) return false
+      return null
+    default:
+      return raw
+  }
+}
+
+/**
+ * Write features as a polygon Shapefile layer with a WGS84 .prj. Attribute
+ * names are truncated to the 10 characters dBASE allows.
+ */
+export function writeShapefile(features: ShapefileFeature[]): ShapefileLayer {
+  const shapes = features.map(feature => (feature.geometry ? geometryToRings(feature.geometry) : null))
+  const contentLengths = shapes.map(rings => {
+    if (!rings) return 4
+    const points = rings.reduce((sum, ring) => sum + ring.length, 0)
+    return 44 + rings.length * 4 + points * 16
+  })
+
+  const shpLength = HEADER_LENGTH + contentLengths.reduce((sum, length) => sum + 8 + length, 0)
+  const shxLength = HEADER_LENGTH + shapes.length * 8
+  const shp = new Uint8Array(shpLength)
+  const shx = new Uint8Array(shxLength)
+  const shpView = toView(shp)
+  const shxView = toView(shx)
+
+  const bounds = shapes.reduce((box, rings) => (rings ? extendBounds(box, rings.flat()) : box), emptyBounds())
+  writeHeader(shpView, shpLength, bounds)
+  writeHeader(shxView, shxLength, bounds)
+
+  let offset = HEADER_LENGTH
+  shapes.forEach((rings, index) => {
+    const contentLength = contentLengths[index]
+    shxView.setInt32(HEADER_LENGTH + index * 8, offset / 2, false)
+    shxView.setInt32(HEADER_LENGTH + index * 8 + 4, contentLength / 2, false)
+
+    shpView.setInt32(offset, index + 1, false)
+    shpView.setInt32(offset + 4, contentLength / 2, false)
+    const content = offset + 8
+    offset = content + contentLength
+
+    if (!rings) {
+      shpView.setInt32(content, SHAPE_NULL, true)
+      return
+    }
+
+    const box = extendBounds(emptyBounds(), rings.flat())
+    shpView.setInt32(content, SHAPE_POLYGON, true)
+    box.forEach((value, i) => shpView.setFloat64(content + 4 + i * 8, value, true))
+    shpView.setInt32(content + 36, rings.length, true)
+    shpView.setInt32(content + 40, rings.reduce((sum, ring) => sum + ring.length, 0), true)
+
+    let pointIndex = 0
+    let pointOffset = content + 44 + rings.length * 4
+    rings.forEach((ring, i) => {
+      shpView.setInt32(content + 44 + i * 4, pointIndex, true)
+      ring.forEach(position => {
+        shpView.setFloat64(pointOffset, position[0], true)
+        shpView.setFloat64(pointOffset + 8, position[1], true)
+        pointOffset += 16
+      })
+      pointIndex += ring.length
+    })
+  })
+
+  return {
+    shp,
+    shx,
+    dbf: writeDBF(features.map(feature => feature.properties || {})),
+    prj: WGS84_PRJ
+  }
+}
+
+/**
+ * Flatten a GeoJSON geometry into Shapefile rings: closed, outer rings
+ * clockwise and holes counter-clockwise
+ */
+function geometryToRings(geometry: PlotGeometry): GeoJSON.Position[][] {
+  return getPolygons(geometry).flatMap(polygon =>
+    polygon.map((ring, index) => {
+      const closed = closeRing(ring)
+      const isClockwise = geodesicRingSignedArea(closed) < 0
+      return isClockwise === (index === 0) ? closed : closed.reverse()
+    })
+  )
+}
+
+type Bounds = [number, number, number, number] // xmin, ymin, xmax, ymax
+
+function emptyBounds(): Bounds {
+  return [Infinity, Infinity, -Infinity, -Infinity]
+}
+
+function extendBounds(bounds: Bounds, positions: GeoJSON.Position[]): Bounds {
+  return positions.reduce<Bounds>(
+    ([xmin, ymin, xmax, ymax], [x, y]) => [Math.min(xmin, x), Math.min(ymin, y), Math.max(xmax, x), Math.max(ymax, y)],
+    bounds
+  )
+}
+
+function writeHeader(view: DataView, length: number, bounds: Bounds): void {
+  view.setInt32(0, FILE_CODE, false)
+  view.setInt32(24, length / 2, false)
+  view.setInt32(28, VERSION, true)
+  view.setInt32(32, SHAPE_POLYGON, true)
+
+  // An empty layer has no extent
+  const box = bounds.every(Number.isFinite) ? bounds : [0, 0, 0, 0]
+  box.forEach((value, i) => view.setFloat64(36 + i * 8, value, true))
+}
+
+/**
+ * Write attribute objects as a dBASE III table. Numbers become N fields,
+ * booleans L fields and everything else C (text) fields.
+ */
+export function writeDBF(records: Record<string, any>[]): Uint8Array {
+  const encoder = new TextEncoder()
+  const keys = Array.from(new Set(records.flatMap(record => Object.keys(record))))
+
+  const fields = keys.map(key => {
+    const values = records.map(record => record[key]).filter(value => value !== undefined && value !== null)
+    const type = values.length > 0 && values.every(value => typeof value === 'number')
+      ? 'N'
+      : values.length > 0 && values.every(value => typeof value === 'boolean') ? 'L' : 'C'
+
+    const length = type === 'N'
+      ? 19
+      : type === 'L'
+        ? 1
+        : Math.min(DBF_MAX_CHARACTER_LENGTH, Math.max(1, ...values.map(value => encoder.encode(String(value)).length)))
+
+    return { key, name: key.slice(0, DBF_FIELD_NAME_LENGTH), type, length }
+  })
+
+  const headerLength = 32 + fields.length * 32 + 1
+  const recordLength = 1 + fields.reduce((sum, field) => sum + field.length, 0)
+  const dbf = new Uint8Array(headerLength + records.length * recordLength + 1)
+  const view = toView(dbf)
+
+  const today = new Date()
+  dbf[0] = 0x03 // dBASE III without memo
+  dbf[1] = today.getFullYear() - 1900 // last update date
+  dbf[2] = today.getMonth() + 1
+  dbf[3] = today.getDate()
+  view.setUint32(4, records.length, true)
+  view.setUint16(8, headerLength, true)
+  view.setUint16(10, recordLength, true)
+
+  fields.forEach((field, i) => {
+    const offset = 32 + i * 32
+    dbf.set(encoder.encode(field.name).subarray(0, DBF_FIELD_NAME_LENGTH), offset)
+    dbf[offset + 11] = field.type.charCodeAt(0)
+    dbf[offset + 16] = field.length
+    dbf[offset + 17] = field.type === 'N' ? 8 : 0 // decimal places
+  })
+  dbf[headerLength - 1] = 0x0d
+
+  records.forEach((record, r) => {
+    let offset = headerLength + r * recordLength
+    dbf[offset] = 0x20 // not deleted
+    offset += 1
+
+    fields.forEach(field => {
+      const value = record[field.key]
+      let text = ''
+      if (value !== undefined && value !== null) {
+        if (field.type === 'N') {
+          text = (value as number).toFixed(8).slice(0, field.length).padStart(field.length)
+        } else if (field.type === 'L') {
+          text = value ? 'T' : 'F'
+        } else {
+          text = String(value)
+        }
+      }
+
+      // Pad with spaces; truncate text that doesn't fit the field
+      const bytes = encoder.encode(text).subarray(0, field.length)
+      dbf.fill(0x20, offset, offset + field.length)
+      dbf.set(bytes, offset)
+      offset += field.length
+    })
+  })
+  dbf[dbf.length - 1] = 0x1a // end of file
+
+  return dbf
+}
@@ -0,0 +1,76 @@
+// Line and ring simplification (Douglas-Peucker) on planar coordinates.
+// Project lon/lat to metres first (see createLocalProjection) so that the
+// tolerance is a distance on the ground.
+
+function perpendicularDistance(point: number[], start: number[], end: number[]): number {
+  const dx = end[0] - start[0]
+  const dy = end[1] - start[1]
+  const lengthSq = dx * dx + dy * dy
+
+  if (lengthSq === 0) {
+    return Math.hypot(point[0] - start[0], point[1] - start[1])
+  }
+
+  const t = Math.max(0, Math.min(1, ((point[0] - start[0]) * dx + (point[1] - start[1]) * dy) / lengthSq))
+  return Math.hypot(point[0] - (start[0] + t * dx), point[1] - (start[1] + t * dy))
+}
+
+/**
+ * Simplify an open path with the Douglas-Peucker algorithm, keeping every
+ * vertex that deviates more than tolerance from the simplified line.
+ * The first and last points are always kept.
+ */
+export function simplifyPath<T extends number[]>(points: T[], tolerance: number): T[] {
+  if (points.length <= 2) return [...points]
+
+  const keep = new Array<boolean>(points.length).fill(false)
+  keep[0] = true
+  keep[points.length - 1] = true
+
+  // Iterative to avoid deep recursion on long GPS tracks
+  const stack: Array<[number, number]> = [[0, points.length - 1]]
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!
+    let maxDistance = 0
+    let index = -1
+
+    for (let i = first + 1; i < last; i++) {
+      const distance = perpendicularDistance(points[i], points[first], points[last])
+      if (distance > maxDistance) {
+        maxDistance = distance
+        index = i
+      }
+    }
+
+    if (index !== -1 && maxDistance > tolerance) {
+      keep[index] = true
+      stack.push([first, index], [index, last])
+    }
+  }
+
+  return points.filter((_, i) => keep[i])
+}
+
+/**
+ * Simplify a ring (without its closing vertex). The ring is split at the
+ * vertex farthest from the first one so that neither anchor is arbitrary.
+ */
+export function simplifyRing<T extends number[]>(points: T[], tolerance: number): T[] {
+  if (points.length <= 3) return [...points]
+
+  let split = 1
+  let maxDistance = 0
+  points.forEach((point, i) => {
+    const distance = Math.hypot(point[0] - points[0][0], point[1] - points[0][1])
+    if (distance > maxDistance) {
+      maxDistance = distance
+      split = i
+    }
+  })
+
+  const firstHalf = simplifyPath(points.slice(0, split + 1), tolerance)
+  const secondHalf = simplifyPath([...points.slice(split), points[0]], tolerance)
+
+  // Drop the shared split vertex and the repeated first vertex
+  return [...firstHalf, ...secondHalf.slice(1, -1)]
+}
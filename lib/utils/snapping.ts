@@ -0,0 +1,177 @@
+// Snap a plot boundary onto the edges of neighbouring plots so that fields
+// drawn side by side share an exact boundary instead of leaving slivers
+
+import { PlotGeometry, PlotSnapResult } from '../types'
+import { createLocalProjection } from './geodesic'
+import { closeRing, getAllPositions, getPolygons, isRingClosed } from './geometry'
+
+type Point = [number, number]
+
+// A neighbour vertex, kept with its original coordinates so that snapped
+// boundaries match the neighbour exactly
+interface Corner {
+  point: Point
+  position: GeoJSON.Position
+}
+
+interface Segment {
+  start: Point
+  end: Point
+}
+
+/**
+ * Snap the vertices of a geometry to nearby neighbour vertices (preferred)
+ * or edges, then add neighbour corners that lie along the snapped boundary.
+ * Only movements within toleranceMeters are made.
+ */
+export function snapToNeighbours(
+  geometry: PlotGeometry,
+  neighbours: PlotGeometry[],
+  toleranceMeters: number
+): PlotSnapResult {
+  const positions = getAllPositions(geometry)
+  if (positions.length === 0 || neighbours.length === 0) {
+    return { geometry, snappedVertices: 0, insertedVertices: 0 }
+  }
+
+  const projection = createLocalProjection(positions[0])
+  const corners: Corner[] = []
+  const segments: Segment[] = []
+
+  neighbours.forEach(neighbour => {
+    getPolygons(neighbour).forEach(polygon => {
+      polygon.forEach(ring => {
+        const closed = closeRing(ring)
+        const points = closed.map(position => projection.forward(position))
+        for (let i = 0; i < points.length - 1; i++) {
+          corners.push({ point: points[i], position: closed[i] })
+          segments.push({ start: points[i], end: points[i + 1] })
+        }
+      })
+    })
+  })
+
+  let snappedVertices = 0
+  let insertedVertices = 0
+
+  const polygons = getPolygons(geometry).map(polygon =>
+    polygon.map(ring => {
+      const open = isRingClosed(ring) ? ring.slice(0, -1) : ring
+
+      // Untouched vertices keep their original coordinates exactly
+      const vertices = open.map(position => {
+        const point = projection.forward(position)
+        const corner = nearestCorner(point, corners, toleranceMeters)
+        if (corner) {
+          snappedVertices++
+          return corner
+        }
+
+        const onEdge = nearestOnSegments(point, segments, toleranceMeters)
+        if (onEdge) {
+          snappedVertices++
+          return { point: onEdge, position: projection.inverse(onEdge) }
+        }
+
+        return { point, position }
+      })
+
+      const result: GeoJSON.Position[] = []
+      vertices.forEach((vertex, i) => {
+        const next = vertices[(i + 1) % vertices.length]
+        result.push(vertex.position)
+
+        const between = cornersAlong(vertex.point, next.point, corners, toleranceMeters)
+        insertedVertices += between.length
+        result.push(...between.map(corner => corner.position))
+      })
+
+      return closeRing(result)
+    })
+  )
+
+  if (snappedVertices === 0 && insertedVertices === 0) {
+    return { geometry, snappedVertices, insertedVertices }
+  }
+
+  return {
+    geometry: geometry.type === 'MultiPolygon'
+      ? { type: 'MultiPolygon', coordinates: polygons }
+      : { type: 'Polygon', coordinates: polygons[0] },
+    snappedVertices,
+    insertedVertices
+  }
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a[0] - b[0], a[1] - b[1])
+}
+
+function nearestCorner(point: Point, corners: Corner[], tolerance: number): Corner | null {
+  let best: Corner | null = null
+  let bestDistance = tolerance
+
+  corners.forEach(corner => {
+    const d = distance(point, corner.point)
+    if (d <= bestDistance) {
+      best = corner
+      bestDistance = d
+    }
+  })
+
+  return best
+}
+
+/**
+ * Parameter t (0..1) of the closest point to p on segment a-b
+ */
+function projectOntoSegment(p: Point, a: Point, b: Point): number {
+  const dx = b[0] - a[0]
+  const dy = b[1] - a[1]
+  const lengthSq = dx * dx + dy * dy
+  if (lengthSq === 0) return 0
+  return Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / lengthSq))
+}
+
+function nearestOnSegments(point: Point, segments: Segment[], tolerance: number): Point | null {
+  let best: Point | null = null
+  let bestDistance = tolerance
+
+  segments.forEach(({ start, end }) => {
+    const t = projectOntoSegment(point, start, end)
+    const candidate: Point = [start[0] + t * (end[0] - start[0]), start[1] + t * (end[1] - start[1])]
+    const d = distance(point, candidate)
+    if (d <= bestDistance) {
+      best = candidate
+      bestDistance = d
+    }
+  })
+
+  return best
+}
+
+/**
+ * Neighbour corners lying along the edge a-b (excluding its ends),
+ * ordered from a to b
+ */
+function cornersAlong(a: Point, b: Point, corners: Corner[], tolerance: number): Corner[] {
+  const seen = new Set<string>()
+
+  return corners
+    .map(corner => ({ corner, t: projectOntoSegment(corner.point, a, b) }))
+    .filter(({ corner, t }) => {
+      if (t <= 0 || t >= 1) return false
+      if (distance(corner.point, a) <= tolerance || distance(corner.point, b) <= tolerance) return false
+
+      const onEdge: Point = [a[0] + t * (b[0] - a[0]), a[1] + t * (b[1] - a[1])]
+      if (distance(corner.point, onEdge) > tolerance) return false
+
+      // Neighbouring plots can share a corner, so skip repeats
+      const key = `${corner.position[0]},${corner.position[1]}`
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+    .sort((x, y) => x.t - y.t)
+    .map(({ corner }) => corner)
+}
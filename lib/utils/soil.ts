@@ -0,0 +1,183 @@
+// Soil test interpretation: nutrient ratings, pH and salinity classes and the
+// fertilizer advice that follows from them. Thresholds follow the Indian
+// Soil Health Card scheme (available N/P/K in kg/ha, DTPA micronutrients in
+// ppm), which matches most lab reports our farmers upload.
+
+import { SoilAssessment, SoilMicronutrients, SoilParameter, SoilRating, SoilTest } from '../types'
+
+// [low below, high above]
+const NUTRIENT_RANGES: Record<Exclude<SoilParameter, 'ph' | 'ec_ds_m'>, [number, number]> = {
+  nitrogen_kg_ha: [280, 560],
+  phosphorus_kg_ha: [10, 25],
+  potassium_kg_ha: [110, 280],
+  organic_carbon_pct: [0.5, 0.75],
+  // Micronutrients: deficient below the critical limit, ample above twice it
+  zinc: [0.6, 1.2],
+  iron: [4.5, 9],
+  manganese: [2, 4],
+  copper: [0.2, 0.4],
+  boron: [0.5, 1],
+  sulphur: [10, 20]
+}
+
+const MICRONUTRIENT_SOURCES: Record<keyof SoilMicronutrients, string> = {
+  zinc: 'zinc sulphate',
+  iron: 'ferrous sulphate',
+  manganese: 'manganese sulphate',
+  copper: 'copper sulphate',
+  boron: 'borax',
+  sulphur: 'gypsum or elemental sulphur'
+}
+
+// EC (dS/m) above which salts hurt most crops
+const SALINE_EC = 4
+const CAUTION_EC = 1
+
+// Change in a soil value smaller than this share counts as stable
+export const STABLE_CHANGE_RATIO = 0.05
+
+export function rateSoilValue(parameter: Exclude<SoilParameter, 'ph' | 'ec_ds_m'>, value: number): SoilRating {
+  const [low, high] = NUTRIENT_RANGES[parameter]
+  if (value < low) return 'low'
+  if (value > high) return 'high'
+  return 'medium'
+}
+
+export function classifyPH(ph: number): NonNullable<SoilAssessment['ph_class']> {
+  if (ph < 5.5) return 'strongly_acidic'
+  if (ph < 6.5) return 'acidic'
+  if (ph <= 7.5) return 'neutral'
+  if (ph <= 8.5) return 'alkaline'
+  return 'strongly_alkaline'
+}
+
+/**
+ * Rate every measured value of a soil test and turn the deficiencies and
+ * excesses into fertilizer and amendment advice
+ */
+export function assessSoil(test: Partial<SoilTest>): SoilAssessment {
+  const ratings: SoilAssessment['ratings'] = {}
+  const recommendations: string[] = []
+
+  const rate = (parameter: Exclude<SoilParameter, 'ph' | 'ec_ds_m'>, value: number | undefined) => {
+    if (value === undefined || value === null || !Number.isFinite(value)) return undefined
+    ratings[parameter] = rateSoilValue(parameter, value)
+    return ratings[parameter]
+  }
+
+  const nitrogen = rate('nitrogen_kg_ha', test.nitrogen_kg_ha)
+  if (nitrogen === 'low') {
+    recommendations.push(`Apply nitrogen in split doses: soil N is low (${test.nitrogen_kg_ha} kg/ha)`)
+  } else if (nitrogen === 'high') {
+    recommendations.push(`Cut back on nitrogen: soil N is already high (${test.nitrogen_kg_ha} kg/ha)`)
+  }
+
+  const phosphorus = rate('phosphorus_kg_ha', test.phosphorus_kg_ha)
+  if (phosphorus === 'low') {
+    recommendations.push(`Apply phosphorus (DAP or SSP) as a basal dose: soil P is low (${test.phosphorus_kg_ha} kg/ha)`)
+  } else if (phosphorus === 'high') {
+    recommendations.push(`Skip phosphorus this season: soil P is high (${test.phosphorus_kg_ha} kg/ha)`)
+  }
+
+  const potassium = rate('potassium_kg_ha', test.potassium_kg_ha)
+  if (potassium === 'low') {
+    recommendations.push(`Apply potash (MOP): soil K is low (${test.potassium_kg_ha} kg/ha)`)
+  }
+
+  if (rate('organic_carbon_pct', test.organic_carbon_pct) === 'low') {
+    recommendations.push(`Add farmyard manure or compost: organic carbon is low (${test.organic_carbon_pct}%)`)
+  }
+
+  const micronutrients = test.micronutrients || {}
+  ;(Object.keys(MICRONUTRIENT_SOURCES) as Array<keyof SoilMicronutrients>).forEach(nutrient => {
+    if (rate(nutrient, micronutrients[nutrient]) === 'low') {
+      recommendations.push(
+        `Apply ${MICRONUTRIENT_SOURCES[nutrient]}: ${nutrient} is deficient (${micronutrients[nutrient]} ppm)`
+      )
+    }
+  })
+
+  let phClass: SoilAssessment['ph_class']
+  if (test.ph !== undefined && test.ph !== null) {
+    phClass = classifyPH(test.ph)
+    if (phClass === 'strongly_acidic') {
+      recommendations.push(`Apply agricultural lime: soil is strongly acidic (pH ${test.ph})`)
+    } else if (phClass === 'strongly_alkaline') {
+      recommendations.push(`Apply gypsum: soil is strongly alkaline (pH ${test.ph})`)
+    }
+  }
+
+  const saline = test.ec_ds_m !== undefined && test.ec_ds_m !== null && test.ec_ds_m >= SALINE_EC
+  if (saline) {
+    recommendations.push(`Leach salts with good-quality irrigation water: soil is saline (EC ${test.ec_ds_m} dS/m)`)
+  } else if (test.ec_ds_m !== undefined && test.ec_ds_m !== null && test.ec_ds_m >= CAUTION_EC) {
+    recommendations.push(`Avoid salt-sensitive crops: soil is slightly saline (EC ${test.ec_ds_m} dS/m)`)
+  }
+
+  return { ratings, ph_class: phClass, saline, recommendations }
+}
+
+/**
+ * Cropping season of a date: kharif (monsoon, June-October), rabi (winter,
+ * November-March, labelled with both years) or zaid (summer, April-May)
+ */
+export function getCropSeason(date: string): string {
+  const [year, month] = date.split('-').map(Number)
+
+  if (month >= 6 && month <= 10) return `${year} kharif`
+  if (month >= 4 && month <= 5) return `${year} zaid`
+
+  const start = month >= 11 ? year : year - 1
+  return `${start}-${String((start + 1) % 100).padStart(2, '0')} rabi`
+}
+
+// Seasons in calendar order within a year; rabi is labelled by the year it starts
+const SEASON_ORDER = ['zaid', 'kharif', 'rabi']
+
+function parseCropSeason(season: string): { year: number; name: string } | null {
+  const match = season.trim().toLowerCase().match(/^(\d{4})(?:-(\d{2}))? (kharif|rabi|zaid)$/)
+  if (!match) return null
+
+  const year = Number(match[1])
+  if (match[2] && (match[3] !== 'rabi' || Number(match[2]) !== (year + 1) % 100)) return null
+  return { year, name: match[3] }
+}
+
+/**
+ * First and last day of a season label from getCropSeason, or null when the
+ * label isn't one
+ */
+export function getCropSeasonRange(season: string): { from: string; to: string } | null {
+  const parsed = parseCropSeason(season)
+  if (!parsed) return null
+
+  const { year, name } = parsed
+  if (name === 'kharif') return { from: `${year}-06-01`, to: `${year}-10-31` }
+  if (name === 'zaid') return { from: `${year}-04-01`, to: `${year}-05-31` }
+  return { from: `${year}-11-01`, to: `${year + 1}-03-31` }
+}
+
+/**
+ * Position of a season in the sequence of all seasons, so the difference of
+ * two indexes counts the seasons between them (3 is a year). Null when the
+ * label isn't a season.
+ */
+export function getCropSeasonIndex(season: string): number | null {
+  const parsed = parseCropSeason(season)
+  return parsed ? parsed.year * SEASON_ORDER.length + SEASON_ORDER.indexOf(parsed.name) : null
+}
+
+/**
+ * The season after a season label from getCropSeason
+ */
+export function getNextCropSeason(season: string): string {
+  const index = getCropSeasonIndex(season)
+  if (index === null) {
+    throw new Error(`Unknown season: ${season}`)
+  }
+
+  const next = index + 1
+  const year = Math.floor(next / SEASON_ORDER.length)
+  const name = SEASON_ORDER[next % SEASON_ORDER.length]
+  return name === 'rabi' ? `${year}-${String((year + 1) % 100).padStart(2, '0')} rabi` : `${year} ${name}`
+}
@@ -0,0 +1,99 @@
+// Web Mercator (z/x/y "slippy map") tile maths, as used by Leaflet and
+// Mapbox. Tile pixel coordinates have y pointing down.
+
+import { BoundingBox } from '../types'
+
+const EARTH_CIRCUMFERENCE = 2 * Math.PI * 6378137 // meters, at the equator
+export const TILE_SIZE = 256 // screen pixels per tile
+
+export function isValidTile(z: number, x: number, y: number): boolean {
+  if (![z, x, y].every(Number.isInteger) || z < 0 || z > 30) return false
+  const count = 2 ** z
+  return x >= 0 && x < count && y >= 0 && y < count
+}
+
+/**
+ * Longitude/latitude bounds of a tile
+ */
+export function tileToBoundingBox(z: number, x: number, y: number): BoundingBox {
+  const count = 2 ** z
+  const latitude = (row: number) => {
+    const n = Math.PI - (2 * Math.PI * row) / count
+    return (Math.atan(Math.sinh(n)) * 180) / Math.PI
+  }
+
+  return {
+    west: (x / count) * 360 - 180,
+    east: ((x + 1) / count) * 360 - 180,
+    north: latitude(y),
+    south: latitude(y + 1)
+  }
+}
+
+/**
+ * Position of a lon/lat point inside a tile, scaled so the tile spans
+ * 0..extent on both axes. Points outside the tile fall outside that range.
+ */
+export function positionToTilePixel(
+  position: GeoJSON.Position,
+  z: number,
+  x: number,
+  y: number,
+  extent: number
+): [number, number] {
+  const count = 2 ** z
+  const sin = Math.sin((position[1] * Math.PI) / 180)
+  const worldX = (position[0] + 180) / 360
+  const worldY = 0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)
+
+  return [(worldX * count - x) * extent, (worldY * count - y) * extent]
+}
+
+/**
+ * Ground size of one screen pixel at a zoom level and latitude
+ */
+export function metersPerPixel(z: number, latitude: number): number {
+  return (EARTH_CIRCUMFERENCE * Math.cos((latitude * Math.PI) / 180)) / (TILE_SIZE * 2 ** z)
+}
+
+/**
+ * Clip a ring (without its closing vertex) to the square min..max on both
+ * axes (Sutherland-Hodgman). Parts of the ring outside the square collapse
+ * onto its edges, which is harmless for filled polygons.
+ */
+export function clipRing(ring: number[][], min: number, max: number): number[][] {
+  const edges: Array<{ inside: (p: number[]) => boolean; cross: (a: number[], b: number[]) => number[] }> = [
+    { inside: p => p[0] >= min, cross: (a, b) => intersectX(a, b, min) },
+    { inside: p => p[0] <= max, cross: (a, b) => intersectX(a, b, max) },
+    { inside: p => p[1] >= min, cross: (a, b) => intersectY(a, b, min) },
+    { inside: p => p[1] <= max, cross: (a, b) => intersectY(a, b, max) }
+  ]
+
+  let output = ring
+  for (const edge of edges) {
+    const input = output
+    output = []
+    input.forEach((current, i) => {
+      const previous = input[(i + input.length - 1) % input.length]
+      if (edge.inside(current)) {
+        if (!edge.inside(previous)) output.push(edge.cross(previous, current))
+        output.push(current)
+      } else if (edge.inside(previous)) {
+        output.push(edge.cross(previous, current))
+      }
+    })
+    if (output.length === 0) break
+  }
+
+  return output
+}
+
+function intersectX(a: number[], b: number[], x: number): number[] {
+  const t = (x - a[0]) / (b[0] - a[0])
+  return [x, a[1] + t * (b[1] - a[1])]
+}
+
+function intersectY(a: number[], b: number[], y: number): number[] {
+  const t = (y - a[1]) / (b[1] - a[1])
+  return [a[0] + t * (b[0] - a[0]), y]
+}
@@ -0,0 +1,40 @@
+// Conversion between the volume and mass units farmers log inputs in
+
+// Factor to litres or kilograms
+const UNITS: Record<string, { dimension: 'volume' | 'mass'; factor: number }> = {
+  ml: { dimension: 'volume', factor: 0.001 },
+  l: { dimension: 'volume', factor: 1 },
+  liter: { dimension: 'volume', factor: 1 },
+  litre: { dimension: 'volume', factor: 1 },
+  m3: { dimension: 'volume', factor: 1000 },
+  gal: { dimension: 'volume', factor: 3.78541 },
+  gallon: { dimension: 'volume', factor: 3.78541 },
+  g: { dimension: 'mass', factor: 0.001 },
+  gram: { dimension: 'mass', factor: 0.001 },
+  kg: { dimension: 'mass', factor: 1 },
+  kilogram: { dimension: 'mass', factor: 1 },
+  quintal: { dimension: 'mass', factor: 100 },
+  t: { dimension: 'mass', factor: 1000 },
+  tonne: { dimension: 'mass', factor: 1000 },
+  lb: { dimension: 'mass', factor: 0.453592 }
+}
+
+function lookupUnit(unit: string) {
+  const key = unit.trim().toLowerCase().replace(/\./g, '').replace(/³/g, '3')
+  return UNITS[key] || UNITS[key.replace(/s$/, '')]
+}
+
+/**
+ * Convert a quantity between units of the same dimension. Returns null when
+ * either unit is unknown or they measure different things (litres vs kg).
+ * Identical unit names always convert, so bags to bags works.
+ */
+export function convertQuantity(value: number, from: string, to: string): number | null {
+  if (from.trim().toLowerCase() === to.trim().toLowerCase()) return value
+
+  const source = lookupUnit(from)
+  const target = lookupUnit(to)
+  if (!source || !target || source.dimension !== target.dimension) return null
+
+  return (value * source.factor) / target.factor
+}
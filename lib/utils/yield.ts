@@ -0,0 +1,129 @@
+// Yield calculations from harvest records: per-crop totals, moisture
+// adjustment and comparisons between groups of crops
+
+import { CropHarvestRecord, CropYield, YieldComparison, YieldGroupBy } from '../types'
+import { findCropProfile } from './phenology'
+import { getCropSeason } from './soil'
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * Weight of a harvest at the standard moisture for its crop: wet grain
+ * weighs more, dry grain less. Without both readings the weight is unchanged.
+ */
+export function adjustToStandardMoisture(weightKg: number, moisturePct?: number, standardPct?: number): number {
+  if (moisturePct === undefined || standardPct === undefined) return weightKg
+  return (weightKg * (100 - moisturePct)) / (100 - standardPct)
+}
+
+/**
+ * Catalog name of a crop so 'Maize' and 'corn' group together. Crops the
+ * catalog doesn't know keep their own name.
+ */
+export function getCanonicalCropName(name: string): string {
+  const profile = findCropProfile(name)
+  return profile ? profile.name : name.trim().toLowerCase()
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+/**
+ * Total a crop's harvest records into its yield. Pickings of the same crop
+ * come off the same ground, so the largest area recorded is the crop's area.
+ */
+export function summarizeCropYields(records: CropHarvestRecord[]): CropYield[] {
+  const byCrop = new Map<string, CropHarvestRecord[]>()
+  records.forEach(record => {
+    const cropRecords = byCrop.get(record.crop_id) || []
+    cropRecords.push(record)
+    byCrop.set(record.crop_id, cropRecords)
+  })
+
+  return Array.from(byCrop.values()).map(cropRecords => {
+    const first = cropRecords[0]
+    const profile = findCropProfile(first.crop_name)
+    const standardMoisture = profile ? profile.standard_moisture_pct : undefined
+    const area = Math.max(...cropRecords.map(record => record.area_hectares))
+    const grades: Record<string, number> = {}
+    let harvested = 0
+    let adjusted = 0
+
+    cropRecords.forEach(record => {
+      harvested += record.weight_kg
+      adjusted += adjustToStandardMoisture(record.weight_kg, record.moisture_pct, standardMoisture)
+      const grade = record.grade || 'ungraded'
+      grades[grade] = round2((grades[grade] || 0) + record.weight_kg)
+    })
+
+    return {
+      crop_id: first.crop_id,
+      crop_name: getCanonicalCropName(first.crop_name),
+      variety: first.variety,
+      plot_id: first.plot_id,
+      plot_name: first.plot_name,
+      season: getCropSeason(first.sown_date),
+      sown_date: first.sown_date,
+      area_hectares: area,
+      harvested_kg: round2(harvested),
+      adjusted_kg: round2(adjusted),
+      yield_kg_ha: round2(adjusted / area),
+      harvests: cropRecords.length,
+      grades
+    }
+  })
+}
+
+/**
+ * Compare yields of the same crop between seasons, varieties or plots.
+ * Seasons are listed in order, other groups best yield first.
+ */
+export function compareYields(yields: CropYield[], groupBy: YieldGroupBy): YieldComparison[] {
+  const groups = new Map<string, { group: string; members: CropYield[] }>()
+  yields.forEach(cropYield => {
+    const group = groupBy === 'season'
+      ? cropYield.season
+      : groupBy === 'variety'
+        ? cropYield.variety || 'unknown variety'
+        : cropYield.plot_name
+    const key = JSON.stringify([cropYield.crop_name, group])
+    const entry = groups.get(key) || { group, members: [] }
+    entry.members.push(cropYield)
+    groups.set(key, entry)
+  })
+
+  const comparisons = Array.from(groups.values()).map(({ group, members }) => {
+    const area = members.reduce((total, member) => total + member.area_hectares, 0)
+    const adjusted = members.reduce((total, member) => total + member.adjusted_kg, 0)
+    const perHectare = members.map(member => member.yield_kg_ha)
+
+    return {
+      comparison: {
+        crop_name: members[0].crop_name,
+        group,
+        crops: members.length,
+        area_hectares: round2(area),
+        adjusted_kg: round2(adjusted),
+        yield_kg_ha: round2(adjusted / area),
+        min_yield_kg_ha: Math.min(...perHectare),
+        max_yield_kg_ha: Math.max(...perHectare)
+      },
+      firstSown: members.map(member => member.sown_date).sort()[0]
+    }
+  })
+
+  return comparisons
+    .sort((a, b) => {
+      if (a.comparison.crop_name !== b.comparison.crop_name) {
+        return a.comparison.crop_name.localeCompare(b.comparison.crop_name)
+      }
+      return groupBy === 'season'
+        ? a.firstSown.localeCompare(b.firstSown)
+        : b.comparison.yield_kg_ha - a.comparison.yield_kg_ha
+    })
+    .map(entry => entry.comparison)
+}
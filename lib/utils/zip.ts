@@ -0,0 +1,394 @@
+// Minimal ZIP archive support for KMZ and zipped Shapefile transfer.
+// Reads stored and deflated entries; writes stored (uncompressed) entries.
+
+const LOCAL_FILE_HEADER = 0x04034b50
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+
+const METHOD_STORED = 0
+const METHOD_DEFLATE = 8
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * Check for the ZIP local file header signature ("PK\x03\x04")
+ */
+export function isZip(data: Uint8Array): boolean {
+  return data.length >= 4 &&
+    new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(0, true) === LOCAL_FILE_HEADER
+}
+
+// Extraction limits, so a small archive cannot inflate into more memory
+// than the device has (a "zip bomb")
+export const MAX_ZIP_ENTRY_SIZE = 64 * 1024 * 1024
+export const MAX_ZIP_TOTAL_SIZE = 128 * 1024 * 1024
+
+export interface ZipReadOptions {
+  filter?: (name: string) => boolean // entries left out are never inflated
+  maxEntrySize?: number
+  maxTotalSize?: number
+}
+
+interface ZipEntry {
+  name: string
+  method: number
+  compressedSize: number
+  uncompressedSize: number
+  localOffset: number
+}
+
+// File entries of the central directory; directory entries are left out
+function readEntries(data: Uint8Array): ZipEntry[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+
+  // The end of central directory record sits at the end, before an optional comment
+  let eocd = -1
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      eocd = i
+      break
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('Invalid ZIP archive')
+  }
+
+  const entryCount = view.getUint16(eocd + 10, true)
+  let offset = view.getUint32(eocd + 16, true)
+  const decoder = new TextDecoder()
+  const entries: ZipEntry[] = []
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > data.length || view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Invalid ZIP archive')
+    }
+
+    const nameLength = view.getUint16(offset + 28, true)
+    const entry: ZipEntry = {
+      name: decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength)),
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      uncompressedSize: view.getUint32(offset + 24, true),
+      localOffset: view.getUint32(offset + 42, true)
+    }
+    offset += 46 + nameLength + view.getUint16(offset + 30, true) + view.getUint16(offset + 32, true)
+
+    if (!entry.name.endsWith('/')) entries.push(entry)
+  }
+
+  return entries
+}
+
+/**
+ * Paths of the files in a ZIP archive, without extracting them
+ */
+export function listZip(data: Uint8Array): string[] {
+  return readEntries(data).map(entry => entry.name)
+}
+
+/**
+ * Extract the files of a ZIP archive, keyed by their path inside it. An
+ * entry may not inflate beyond the size its central directory record
+ * declares, and the declared sizes have to fit the limits before anything
+ * is inflated.
+ */
+export async function readZip(data: Uint8Array, options: ZipReadOptions = {}): Promise<Map<string, Uint8Array>> {
+  const maxEntrySize = options.maxEntrySize !== undefined ? options.maxEntrySize : MAX_ZIP_ENTRY_SIZE
+  const maxTotalSize = options.maxTotalSize !== undefined ? options.maxTotalSize : MAX_ZIP_TOTAL_SIZE
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const entries = readEntries(data).filter(entry => !options.filter || options.filter(entry.name))
+
+  let totalSize = 0
+  for (const entry of entries) {
+    if (entry.uncompressedSize > maxEntrySize) {
+      throw new Error(`ZIP entry ${entry.name} is larger than ${maxEntrySize} bytes`)
+    }
+    totalSize += entry.uncompressedSize
+    if (totalSize > maxTotalSize) {
+      throw new Error(`ZIP archive contents are larger than ${maxTotalSize} bytes`)
+    }
+  }
+
+  const files = new Map<string, Uint8Array>()
+  for (const entry of entries) {
+    if (entry.localOffset + 30 > data.length || view.getUint32(entry.localOffset, true) !== LOCAL_FILE_HEADER) {
+      throw new Error('Invalid ZIP archive')
+    }
+    const start = entry.localOffset + 30 +
+      view.getUint16(entry.localOffset + 26, true) +
+      view.getUint16(entry.localOffset + 28, true)
+    const content = data.subarray(start, start + entry.compressedSize)
+
+    let extracted: Uint8Array
+    if (entry.method === METHOD_STORED) {
+      extracted = content
+    } else if (entry.method === METHOD_DEFLATE) {
+      extracted = inflateRaw(content, entry.uncompressedSize)
+    } else {
+      throw new Error(`Unsupported ZIP compression method: ${entry.method}`)
+    }
+    if (extracted.length !== entry.uncompressedSize) {
+      throw new Error(`Invalid ZIP archive: ${entry.name} does not match its declared size`)
+    }
+    files.set(entry.name, extracted)
+  }
+
+  return files
+}
+
+// Lengths and distances of the DEFLATE length/distance codes (RFC 1951 3.2.5)
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258]
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0]
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769,
+  1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577
+]
+const DISTANCE_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13]
+// Order the code length code lengths are sent in
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15]
+
+interface Huffman {
+  counts: Uint16Array // number of codes of each bit length
+  symbols: Uint16Array // symbols ordered by code
+}
+
+function buildHuffman(lengths: ArrayLike<number>): Huffman {
+  const counts = new Uint16Array(16)
+  for (let i = 0; i < lengths.length; i++) counts[lengths[i]]++
+  counts[0] = 0
+
+  const offsets = new Uint16Array(16)
+  for (let bits = 1; bits < 16; bits++) offsets[bits] = offsets[bits - 1] + counts[bits - 1]
+
+  const symbols = new Uint16Array(lengths.length)
+  for (let i = 0; i < lengths.length; i++) {
+    if (lengths[i] !== 0) symbols[offsets[lengths[i]]++] = i
+  }
+  return { counts, symbols }
+}
+
+const FIXED_LITERALS = buildHuffman(Array.from({ length: 288 }, (_, i) => i < 144 ? 8 : i < 256 ? 9 : i < 280 ? 7 : 8))
+const FIXED_DISTANCES = buildHuffman(new Array(30).fill(5))
+
+/**
+ * Decompress raw DEFLATE data (RFC 1951), the compression ZIP entries use.
+ * Plain TypeScript so it runs on every Node version and in React Native,
+ * which have no DecompressionStream for 'deflate-raw'. Fails as soon as
+ * the output would grow past maxOutput bytes.
+ */
+export function inflateRaw(data: Uint8Array, maxOutput = Infinity): Uint8Array {
+  let output = new Uint8Array(Math.min(maxOutput, Math.max(1024, data.length * 4)))
+  let outLength = 0
+  let position = 0
+  let bitBuffer = 0
+  let bitCount = 0
+
+  const ensure = (extra: number) => {
+    if (outLength + extra <= output.length) return
+    if (outLength + extra > maxOutput) {
+      throw new Error(`Invalid deflate data: output exceeds ${maxOutput} bytes`)
+    }
+    const grown = new Uint8Array(Math.min(maxOutput, Math.max(output.length * 2, outLength + extra)))
+    grown.set(output.subarray(0, outLength))
+    output = grown
+  }
+
+  const bits = (count: number): number => {
+    while (bitCount < count) {
+      if (position >= data.length) throw new Error('Invalid deflate data: unexpected end')
+      bitBuffer |= data[position++] << bitCount
+      bitCount += 8
+    }
+    const value = bitBuffer & ((1 << count) - 1)
+    bitBuffer >>>= count
+    bitCount -= count
+    return value
+  }
+
+  // Codes are packed starting from their most significant bit
+  const decode = (huffman: Huffman): number => {
+    let code = 0
+    let first = 0
+    let index = 0
+    for (let length = 1; length < 16; length++) {
+      code |= bits(1)
+      const count = huffman.counts[length]
+      if (code - first < count) return huffman.symbols[index + code - first]
+      index += count
+      first = (first + count) << 1
+      code <<= 1
+    }
+    throw new Error('Invalid deflate data: bad code')
+  }
+
+  const inflateBlock = (literals: Huffman, distances: Huffman) => {
+    for (;;) {
+      const symbol = decode(literals)
+      if (symbol < 256) {
+        ensure(1)
+        output[outLength++] = symbol
+      } else if (symbol === 256) {
+        return
+      } else {
+        const lengthCode = symbol - 257
+        if (lengthCode >= 29) throw new Error('Invalid deflate data: bad length')
+        const length = LENGTH_BASE[lengthCode] + bits(LENGTH_EXTRA[lengthCode])
+        const distanceCode = decode(distances)
+        if (distanceCode >= 30) throw new Error('Invalid deflate data: bad distance')
+        const distance = DISTANCE_BASE[distanceCode] + bits(DISTANCE_EXTRA[distanceCode])
+        if (distance > outLength) throw new Error('Invalid deflate data: distance too far back')
+
+        ensure(length)
+        // Byte by byte: a copy may overlap the bytes it is writing
+        for (let i = 0; i < length; i++, outLength++) {
+          output[outLength] = output[outLength - distance]
+        }
+      }
+    }
+  }
+
+  const readDynamicTables = (): [Huffman, Huffman] => {
+    const literalCount = bits(5) + 257
+    const distanceCount = bits(5) + 1
+    const codeLengthCount = bits(4) + 4
+
+    const codeLengthLengths = new Uint8Array(19)
+    for (let i = 0; i < codeLengthCount; i++) codeLengthLengths[CODE_LENGTH_ORDER[i]] = bits(3)
+    const codeLengths = buildHuffman(codeLengthLengths)
+
+    const lengths = new Uint8Array(literalCount + distanceCount)
+    for (let i = 0; i < lengths.length;) {
+      const symbol = decode(codeLengths)
+      if (symbol < 16) {
+        lengths[i++] = symbol
+        continue
+      }
+
+      let value = 0
+      let repeat: number
+      if (symbol === 16) {
+        if (i === 0) throw new Error('Invalid deflate data: repeat with no previous length')
+        value = lengths[i - 1]
+        repeat = 3 + bits(2)
+      } else if (symbol === 17) {
+        repeat = 3 + bits(3)
+      } else {
+        repeat = 11 + bits(7)
+      }
+      if (i + repeat > lengths.length) throw new Error('Invalid deflate data: too many lengths')
+      lengths.fill(value, i, i + repeat)
+      i += repeat
+    }
+
+    return [buildHuffman(lengths.subarray(0, literalCount)), buildHuffman(lengths.subarray(literalCount))]
+  }
+
+  let isFinal = false
+  while (!isFinal) {
+    isFinal = bits(1) === 1
+    const type = bits(2)
+
+    if (type === 0) {
+      // Stored block: byte aligned, with its length and the length's complement
+      bitBuffer = 0
+      bitCount = 0
+      if (position + 4 > data.length) throw new Error('Invalid deflate data: unexpected end')
+      const length = data[position] | (data[position + 1] << 8)
+      const complement = data[position + 2] | (data[position + 3] << 8)
+      if ((length ^ 0xffff) !== complement) throw new Error('Invalid deflate data: bad stored block length')
+      position += 4
+      if (position + length > data.length) throw new Error('Invalid deflate data: unexpected end')
+      ensure(length)
+      output.set(data.subarray(position, position + length), outLength)
+      outLength += length
+      position += length
+    } else if (type === 1) {
+      inflateBlock(FIXED_LITERALS, FIXED_DISTANCES)
+    } else if (type === 2) {
+      const [literals, distances] = readDynamicTables()
+      inflateBlock(literals, distances)
+    } else {
+      throw new Error('Invalid deflate data: bad block type')
+    }
+  }
+
+  return output.slice(0, outLength)
+}
+
+/**
+ * Build a ZIP archive with the given files stored uncompressed
+ */
+export function createZip(files: Array<{ name: string; data: Uint8Array }>): Uint8Array {
+  const encoder = new TextEncoder()
+  const entries = files.map(file => ({
+    ...file,
+    encodedName: encoder.encode(file.name),
+    crc: crc32(file.data)
+  }))
+
+  const localSize = entries.reduce((sum, entry) => sum + 30 + entry.encodedName.length + entry.data.length, 0)
+  const centralSize = entries.reduce((sum, entry) => sum + 46 + entry.encodedName.length, 0)
+  const output = new Uint8Array(localSize + centralSize + 22)
+  const view = new DataView(output.buffer)
+
+  const writeCommon = (at: number, entry: typeof entries[number]) => {
+    view.setUint16(at, 20, true) // version needed to extract
+    view.setUint16(at + 2, 0, true) // flags
+    view.setUint16(at + 4, METHOD_STORED, true)
+    view.setUint16(at + 6, 0, true) // modification time
+    view.setUint16(at + 8, 0x21, true) // modification date (1980-01-01)
+    view.setUint32(at + 10, entry.crc, true)
+    view.setUint32(at + 14, entry.data.length, true)
+    view.setUint32(at + 18, entry.data.length, true)
+    view.setUint16(at + 22, entry.encodedName.length, true)
+    view.setUint16(at + 24, 0, true) // extra field length
+  }
+
+  let offset = 0
+  const localOffsets: number[] = []
+  entries.forEach(entry => {
+    localOffsets.push(offset)
+    view.setUint32(offset, LOCAL_FILE_HEADER, true)
+    writeCommon(offset + 4, entry)
+    output.set(entry.encodedName, offset + 30)
+    output.set(entry.data, offset + 30 + entry.encodedName.length)
+    offset += 30 + entry.encodedName.length + entry.data.length
+  })
+
+  const centralOffset = offset
+  entries.forEach((entry, i) => {
+    view.setUint32(offset, CENTRAL_DIRECTORY_HEADER, true)
+    view.setUint16(offset + 4, 20, true) // version made by
+    writeCommon(offset + 6, entry)
+    // comment length, disk number, internal and external attributes stay zero
+    view.setUint32(offset + 42, localOffsets[i], true)
+    output.set(entry.encodedName, offset + 46)
+    offset += 46 + entry.encodedName.length
+  })
+
+  view.setUint32(offset, END_OF_CENTRAL_DIRECTORY, true)
+  view.setUint16(offset + 8, entries.length, true)
+  view.setUint16(offset + 10, entries.length, true)
+  view.setUint32(offset + 12, centralSize, true)
+  view.setUint32(offset + 16, centralOffset, true)
+
+  return output
+}